@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+
+// Local stand-in for Slack, Discord and WhatsApp webhooks and company webhook endpoints
+// Usage: NOTIFICATION_WEBHOOK_SINK_URL=http://localhost:4010 in .env.local, then `pnpm notification-sink`
+//
+//   SINK_PORT=4010        port to listen on
+//   SINK_FAIL_RATE=0.3    share of requests answered with 503, to exercise retries
+//   SINK_STATUS=429       answer every request with this status instead
+
+import { createServer } from 'node:http';
+
+const port = Number(process.env.SINK_PORT || 4010);
+const failRate = Number(process.env.SINK_FAIL_RATE || 0);
+const fixedStatus = process.env.SINK_STATUS ? Number(process.env.SINK_STATUS) : null;
+
+let received = 0;
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { 'Content-Type': 'text/plain' }).end('POST only');
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    received++;
+    const channel = req.url?.replace(/^\//, '') || 'unknown';
+    const body = Buffer.concat(chunks).toString('utf8');
+
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      payload = body;
+    }
+
+    const status = fixedStatus ?? (Math.random() < failRate ? 503 : 200);
+
+    console.log(`\n#${received} ${new Date().toISOString()} ${channel} -> ${status}`);
+    console.log(`   webhook: ${req.headers['x-original-webhook-url'] || '(not set)'}`);
+    if (req.headers['x-metricshub-signature']) {
+      console.log(`   event: ${req.headers['x-metricshub-event']} signature: ${req.headers['x-metricshub-signature']}`);
+    }
+    console.log(JSON.stringify(payload, null, 2));
+
+    if (status === 429) {
+      res.writeHead(429, { 'Content-Type': 'text/plain', 'Retry-After': '1' }).end('rate limited');
+    } else if (status >= 400) {
+      res.writeHead(status, { 'Content-Type': 'text/plain' }).end('sink failure');
+    } else {
+      res.writeHead(status, { 'Content-Type': 'text/plain' }).end('ok');
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Notification sink listening on http://localhost:${port}`);
+  if (fixedStatus) console.log(`Answering every request with ${fixedStatus}`);
+  else if (failRate > 0) console.log(`Failing ${Math.round(failRate * 100)}% of requests with 503`);
+});
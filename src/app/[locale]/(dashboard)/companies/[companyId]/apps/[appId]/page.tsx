@@ -47,17 +47,37 @@ export default function IframeAppPage() {
   fetchApp();
  }, [companyId, appId]);
 
- // OAuth token passing system
+ // Plugin token passing system
+ const pluginTokenRef = useRef<{ token: string; expiresAt: number } | null>(null);
+
  useEffect(() => {
   if (!app || !iframeRef.current) return;
 
+  // Mint a short-lived plugin token bound to this installation, reusing it until it nears expiry
+  const getPluginToken = async () => {
+   const current = pluginTokenRef.current;
+   if (current && current.expiresAt - Date.now() > 60000) {
+    return current;
+   }
+
+   const response = await fetch(`/api/companies/${companyId}/applications/${appId}/plugin-token`, {
+    method: 'POST',
+   });
+   if (!response.ok) {
+    pluginTokenRef.current = null;
+    return null;
+   }
+
+   const result = await response.json();
+   pluginTokenRef.current = { token: result.data.token, expiresAt: result.data.expiresAt };
+   return pluginTokenRef.current;
+  };
+
   const sendTokensToIframe = async () => {
    try {
-    // Fetch OAuth tokens for this company
-    const response = await fetch(`/api/companies/${companyId}/oauth-tokens`);
-    const tokens = response.ok ? await response.json() : null;
+    const pluginToken = await getPluginToken();
 
-    console.log('Sending tokens to iframe:', { companyId, tokens: tokens ? 'present' : 'false', tokenDetails: tokens });
+    console.log('Sending plugin token to iframe:', { companyId, pluginToken: pluginToken ? 'present' : 'false' });
 
     // Send initial configuration to iframe
     const messageData = {
@@ -65,7 +85,8 @@ export default function IframeAppPage() {
      payload: {
       companyId,
       apiBaseUrl: window.location.origin, // Remove '/api' suffix to prevent double prefix
-      oauthTokens: tokens,
+      pluginToken: pluginToken?.token ?? null,
+      pluginTokenExpiresAt: pluginToken?.expiresAt ?? null,
       appId,
       timestamp: Date.now()
      }
@@ -77,7 +98,10 @@ export default function IframeAppPage() {
     }, 1000);
 
     // Send tokens periodically or on demand
-    const tokenInterval = setInterval(() => {
+    const tokenInterval = setInterval(async () => {
+     const refreshed = await getPluginToken();
+     messageData.payload.pluginToken = refreshed?.token ?? null;
+     messageData.payload.pluginTokenExpiresAt = refreshed?.expiresAt ?? null;
      iframeRef.current?.contentWindow?.postMessage(messageData, '*');
     }, 30000); // Refresh every 30 seconds
 
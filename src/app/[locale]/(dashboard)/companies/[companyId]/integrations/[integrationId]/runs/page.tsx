@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, History } from 'lucide-react';
+import { useActiveCompany } from '@/lib/activeCompany';
+import { cachedApi } from '@/lib/cachedApi';
+import { RunHistory } from '@/components/integration-logs/RunHistory';
+
+export default function IntegrationRunsPage() {
+ const company = useActiveCompany();
+ const router = useRouter();
+ const { companyId, integrationId } = useParams<{ companyId: string; integrationId: string }>();
+ // Set by the "Run Now" button so the page can follow the run the executor is about to create
+ const awaitedJobId = useSearchParams().get('jobId');
+ const [integrationName, setIntegrationName] = useState<string | null>(null);
+
+ useEffect(() => {
+  if (!company?.id || !integrationId) return;
+
+  cachedApi.fetchCompanyApplications(company.id)
+   .then(applications => {
+    const found = applications.find(ca => ca.application_id === integrationId);
+    setIntegrationName(found?.application?.name || null);
+   })
+   .catch(err => console.error('Error loading integration:', err));
+ }, [company?.id, integrationId]);
+
+ return (
+  <div className="p-6 max-w-6xl mx-auto">
+   {/* Header */}
+   <div className="flex items-center gap-4 mb-8">
+    <button
+     onClick={() => router.push(`/companies/${companyId}/integrations`)}
+     className="p-2 bg-input rounded-lg text-primary hover:bg-hover-strong transition-all duration-200"
+    >
+     <ArrowLeft className="w-5 h-5" />
+    </button>
+    <div className="flex items-center gap-3">
+     <div className="w-12 h-12 bg-input rounded-lg flex items-center justify-center">
+      <History className="w-6 h-6 text-accent" />
+     </div>
+     <div>
+      <h1 className="text-2xl font-semibold text-primary">
+       {integrationName ? `${integrationName} Runs` : 'Run History'}
+      </h1>
+      <p className="text-secondary text-sm">
+       Every execution of this integration, newest first
+      </p>
+     </div>
+    </div>
+   </div>
+
+   {company?.id && integrationId && (
+    <RunHistory companyId={company.id} appId={integrationId} awaitedJobId={awaitedJobId} />
+   )}
+  </div>
+ );
+}
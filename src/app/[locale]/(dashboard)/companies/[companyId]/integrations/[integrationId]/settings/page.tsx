@@ -3,14 +3,24 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { ArrowLeft, Save, X, Settings, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Save, X, Settings, AlertCircle, Lock } from 'lucide-react';
 import { useActiveCompany } from '@/lib/activeCompany';
 import { cachedApi } from '@/lib/cachedApi';
 import { CompanyApplication } from '@/lib/applications';
+import type { SecretRequirement } from '@/lib/validation/secretSchema';
 import { NotificationInput } from '@/components/company/integrations/NotificationInput';
-import { MetricConfig } from '@/components/company/integrations/MetricConfig';
+import { MetricConfig, MetricCondition } from '@/components/company/integrations/MetricConfig';
 import { FrequencySelector } from '@/components/company/integrations/FrequencySelector';
 import { AccountSelector } from '@/components/company/integrations/AccountSelector';
+import { GuardAlertHistory } from '@/components/company/integrations/GuardAlertHistory';
+import { NotificationDeliveryLog } from '@/components/company/integrations/NotificationDeliveryLog';
+import { NotificationChannel, validateChannelSettings } from '@/lib/notification-channels/validation';
+
+interface GuardMetricSettings {
+ enabled: boolean;
+ dropThreshold: number;
+ condition?: MetricCondition;
+}
 
 interface IntegrationSettings {
  // Google Ads Guard specific settings
@@ -25,11 +35,11 @@ interface IntegrationSettings {
   frequency: '4h' | '8h' | '12h' | '24h' | '48h';
  };
  guardMetrics?: {
-  impressions: { enabled: boolean; dropThreshold: number };
-  clicks: { enabled: boolean; dropThreshold: number };
-  conversions: { enabled: boolean; dropThreshold: number };
-  value: { enabled: boolean; dropThreshold: number };
-  price: { enabled: boolean; dropThreshold: number };
+  impressions: GuardMetricSettings;
+  clicks: GuardMetricSettings;
+  conversions: GuardMetricSettings;
+  value: GuardMetricSettings;
+  price: GuardMetricSettings;
  };
  guardPeriod?: '7' | '14' | '30';
  notifications?: {
@@ -59,6 +69,8 @@ export default function IntegrationSettingsPage() {
  const [loading, setLoading] = useState(true);
  const [saving, setSaving] = useState(false);
  const [error, setError] = useState<string | null>(null);
+ const [deliveryLogKey, setDeliveryLogKey] = useState(0);
+ const [unmetSecrets, setUnmetSecrets] = useState<SecretRequirement[]>([]);
 
  // Load integration data and settings
  useEffect(() => {
@@ -79,6 +91,11 @@ export default function IntegrationSettingsPage() {
     }
 
     setIntegration(foundIntegration);
+
+    // Required secrets are checked separately so a failure does not block the settings form
+    cachedApi.fetchSecretRequirements(company.id, integrationId)
+     .then(requirements => setUnmetSecrets(requirements.filter(r => r.status !== 'ok')))
+     .catch(err => console.error('Error checking required secrets:', err));
     
     // Load existing settings or set defaults
     const existingSettings = foundIntegration.settings || {};
@@ -122,6 +139,11 @@ export default function IntegrationSettingsPage() {
  const handleSave = async () => {
   if (!company?.id || !integrationId) return;
 
+  if (settings.notifications && Object.keys(validateChannelSettings(settings.notifications)).length > 0) {
+   alert('Fix the highlighted notification targets before saving');
+   return;
+  }
+
   setSaving(true);
   try {
    // Update the integration settings
@@ -138,6 +160,13 @@ export default function IntegrationSettingsPage() {
   }
  };
 
+ const handleTestNotification = async (channel: NotificationChannel, target: string) => {
+  if (!company?.id) throw new Error('No active company');
+  const result = await cachedApi.sendTestNotification(company.id, integrationId, channel, target);
+  setDeliveryLogKey(key => key + 1);
+  return result;
+ };
+
  const getCurrentPrice = () => {
   const frequency = settings.scriptConfig?.frequency || '24h';
   return FREQUENCY_PRICING[frequency];
@@ -205,6 +234,37 @@ export default function IntegrationSettingsPage() {
 
    {/* Settings Form */}
    <div className="space-y-8">
+
+    {/* Missing Secrets */}
+    {unmetSecrets.length > 0 && (
+     <div className="bg-card border border-amber-500/50 rounded-xl p-6">
+      <div className="flex items-start gap-3">
+       <Lock className="w-5 h-5 text-amber-500 mt-0.5" />
+       <div className="flex-1">
+        <h3 className="text-lg font-semibold text-primary mb-2">Missing secrets</h3>
+        <p className="text-secondary text-sm mb-3">
+         This integration cannot run until the following secrets are added and granted to it:
+        </p>
+        <ul className="space-y-1 mb-4">
+         {unmetSecrets.map(requirement => (
+          <li key={requirement.key} className="text-sm text-primary">
+           <code className="font-mono">{requirement.key}</code>
+           <span className="text-secondary">
+            {' '}– {requirement.status === 'missing' ? 'not created' : 'not granted to this integration'}
+           </span>
+          </li>
+         ))}
+        </ul>
+        <button
+         onClick={() => router.push(`/companies/${companyId}/settings?tab=secrets`)}
+         className="px-4 py-2 bg-input rounded-lg text-primary hover:bg-hover-strong transition-all duration-200 text-sm"
+        >
+         Manage secrets
+        </button>
+       </div>
+      </div>
+     </div>
+    )}
     
     {/* Account Selection */}
     <div className="bg-card border border-border-light rounded-xl p-6">
@@ -257,6 +317,7 @@ export default function IntegrationSettingsPage() {
         name={metricKey}
         enabled={metricValue.enabled}
         dropThreshold={metricValue.dropThreshold}
+        condition={metricValue.condition || 'percent_drop'}
         onEnabledChange={(enabled) => setSettings(prev => ({
          ...prev,
          guardMetrics: {
@@ -271,6 +332,13 @@ export default function IntegrationSettingsPage() {
           [metricKey]: { ...metricValue, dropThreshold }
          }
         }))}
+        onConditionChange={(condition, dropThreshold) => setSettings(prev => ({
+         ...prev,
+         guardMetrics: {
+          ...prev.guardMetrics!,
+          [metricKey]: { ...metricValue, condition, dropThreshold }
+         }
+        }))}
        />
       ))}
      </div>
@@ -333,6 +401,7 @@ export default function IntegrationSettingsPage() {
          email: { ...prev.notifications?.email!, address }
         }
        }))}
+       onTest={(target) => handleTestNotification('email', target)}
       />
 
       <NotificationInput
@@ -353,6 +422,7 @@ export default function IntegrationSettingsPage() {
          slack: { ...prev.notifications?.slack!, webhook }
         }
        }))}
+       onTest={(target) => handleTestNotification('slack', target)}
       />
 
       <NotificationInput
@@ -373,6 +443,7 @@ export default function IntegrationSettingsPage() {
          discord: { ...prev.notifications?.discord!, webhook }
         }
        }))}
+       onTest={(target) => handleTestNotification('discord', target)}
       />
 
       <NotificationInput
@@ -393,10 +464,21 @@ export default function IntegrationSettingsPage() {
          whatsapp: { ...prev.notifications?.whatsapp!, webhook }
         }
        }))}
+       onTest={(target) => handleTestNotification('whatsapp', target)}
       />
      </div>
     </div>
 
+    {/* Delivery Log */}
+    {company?.id && integrationId && (
+     <NotificationDeliveryLog companyId={company.id} applicationId={integrationId} refreshKey={deliveryLogKey} />
+    )}
+
+    {/* Alert History */}
+    {company?.id && integrationId && (
+     <GuardAlertHistory companyId={company.id} applicationId={integrationId} />
+    )}
+
     {/* Save/Cancel Buttons */}
     <div className="flex justify-end gap-4">
      <button
@@ -3,12 +3,13 @@
 import { useState, useEffect } from 'react';
 import { useParams, usePathname, useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { Plus, Trash2, Settings, MessageSquare, FileSpreadsheet, Target, Mail, BarChart3, Trello, AlertCircle, Play } from 'lucide-react';
+import { Plus, Trash2, Settings, MessageSquare, FileSpreadsheet, Target, Mail, BarChart3, Trello, AlertCircle, Play, History } from 'lucide-react';
 import { useActiveCompany } from '@/lib/activeCompany';
 import { useCompanyListLoading } from '@/lib/companyList';
 import { cachedApi } from '@/lib/cachedApi';
 import { CompanyApplication, fetchApplicationCategories } from '@/lib/applications';
-import { canManageIntegrationSettings, canManageIntegrations } from '@/lib/permissions';
+import { can } from '@/lib/permissions';
+import { HealthCheck, IntegrationHealthBadge, IntegrationHealthTimeline } from '@/components/integration-logs/IntegrationHealth';
 
 interface Integration {
  id: string;
@@ -62,14 +63,17 @@ export default function IntegrationsPage() {
  const router = useRouter();
  
  // Permission checks
- const canManageSettings = canManageIntegrationSettings(company?.userRole);
- const canManage = canManageIntegrations(company?.userRole);
+ const canManageSettings = can(company, 'integrations.configure');
+ const canManage = can(company, 'integrations.install');
+ const canViewRuns = can(company, 'logs.read');
  const [installedIntegrations, setInstalledIntegrations] = useState<Integration[]>([]);
  const [loading, setLoading] = useState(true);
  const [error, setError] = useState<string | null>(null);
  const [uninstalling, setUninstalling] = useState<string | null>(null);
  const [triggering, setTriggering] = useState<string | null>(null);
  const [automationCategoryId, setAutomationCategoryId] = useState<string | null>(null);
+ const [health, setHealth] = useState<Record<string, HealthCheck>>({});
+ const [healthOpen, setHealthOpen] = useState<string | null>(null);
 
  // Convert CompanyApplication to Integration format
  const convertToIntegration = (companyApp: CompanyApplication): Integration => {
@@ -160,6 +164,17 @@ export default function IntegrationsPage() {
   fetchInstalledIntegrations();
  }, [company?.id, automationCategoryId]);
 
+ // Latest health check per company application, shown as a badge on each card
+ useEffect(() => {
+  if (!company?.id || !canViewRuns) return;
+
+  cachedApi.fetchIntegrationHealth(company.id)
+   .then((result: { checks: HealthCheck[] }) => {
+    setHealth(Object.fromEntries(result.checks.map(check => [check.companyApplicationId, check])));
+   })
+   .catch(error => console.error('Error fetching integration health:', error));
+ }, [company?.id, canViewRuns]);
+
  const handleConfigureIntegration = (integrationId: string) => {
   // Navigate to integration settings page
   router.push(`/companies/${company?.id}/integrations/${integrationId}/settings`);
@@ -198,13 +213,16 @@ export default function IntegrationsPage() {
   try {
    const result = await cachedApi.triggerIntegration(company.id, integration.companyApplicationId);
 
-   // Show success message with job ID
+   // Follow the run on its history page when we are allowed to see it
    const jobId = result.data?.jobId;
-   const message = jobId
-    ? `${integration.name} triggered successfully!\nJob ID: ${jobId}\n\nYou can monitor the execution in the logs.`
-    : `${integration.name} triggered successfully!`;
+   if (jobId && canViewRuns) {
+    router.push(`/companies/${company.id}/integrations/${integration.id}/runs?jobId=${encodeURIComponent(jobId)}`);
+    return;
+   }
 
-   alert(message);
+   alert(jobId
+    ? `${integration.name} triggered successfully!\nJob ID: ${jobId}`
+    : `${integration.name} triggered successfully!`);
   } catch (error) {
    console.error('Error triggering integration:', error);
    alert(error instanceof Error ? error.message : 'Failed to trigger integration');
@@ -337,6 +355,14 @@ export default function IntegrationsPage() {
              </>
             )}
            </div>
+           {canViewRuns && integration.companyApplicationId && (
+            <div className="mt-2">
+             <IntegrationHealthBadge
+              {...(health[integration.companyApplicationId] && { check: health[integration.companyApplicationId] })}
+              onClick={() => setHealthOpen(prev => prev === integration.id ? null : integration.id)}
+             />
+            </div>
+           )}
           </div>
          </div>
         </div>
@@ -345,6 +371,17 @@ export default function IntegrationsPage() {
          {integration.description}
         </p>
 
+        {healthOpen === integration.id && company?.id && integration.companyApplicationId && (
+         <div className="mb-4 p-3 border border-border-light rounded-lg">
+          <IntegrationHealthTimeline
+           companyId={company.id}
+           companyApplicationId={integration.companyApplicationId}
+           canRunCheck={canManageSettings}
+           onChecked={(check) => setHealth(prev => ({ ...prev, [check.companyApplicationId]: check }))}
+          />
+         </div>
+        )}
+
         <div className="flex gap-3 pt-4 border-t border-border-light">
          {/* Run Now button for server integrations */}
          {(integration.execution_type === 'server' || integration.execution_type === 'both') && canManageSettings && (
@@ -363,6 +400,16 @@ export default function IntegrationsPage() {
           </button>
          )}
 
+         {(integration.execution_type === 'server' || integration.execution_type === 'both') && canViewRuns && (
+          <button
+           onClick={() => router.push(`/companies/${company?.id}/integrations/${integration.id}/runs`)}
+           className="px-4 py-2 bg-input text-primary rounded-lg hover:bg-hover-strong transition-all duration-200"
+           title="Run history"
+          >
+           <History className="w-4 h-4" />
+          </button>
+         )}
+
          {canManageSettings && (
           <button
            onClick={() => handleConfigureIntegration(integration.id)}
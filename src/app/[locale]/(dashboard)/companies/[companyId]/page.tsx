@@ -2,10 +2,12 @@
 
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
-import { useTranslations } from 'next-intl';
-import { Activity, AlertTriangle, CheckCircle, Zap, RefreshCw } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import { Activity, AlertTriangle, CheckCircle, Zap, RefreshCw, Timer } from 'lucide-react';
 import Link from 'next/link';
 import IntegrationResultsWidget from '@/components/integration-logs/IntegrationResultsWidget';
+import { LineChart, Sparkline, StackedBarChart } from '@/components/dashboard/TrendCharts';
+import { cachedApi } from '@/lib/cachedApi';
 
 interface DashboardStats {
  activeIntegrations: number;
@@ -15,6 +17,40 @@ interface DashboardStats {
  lastUpdated: string;
 }
 
+type StatsWindow = '24h' | '7d' | '30d' | '90d';
+
+const STATS_WINDOWS: StatsWindow[] = ['24h', '7d', '30d', '90d'];
+
+interface StatsPoint {
+ bucket: string;
+ totalRuns: number;
+ successRuns: number;
+ failedRuns: number;
+ p50DurationMs: number | null;
+ p95DurationMs: number | null;
+ totalLogs: number;
+ warnLogs: number;
+ errorLogs: number;
+}
+
+interface IntegrationRunStats {
+ appId: string;
+ appName: string;
+ totalRuns: number;
+ successRuns: number;
+ failedRuns: number;
+ p50DurationMs: number | null;
+ p95DurationMs: number | null;
+}
+
+interface TimeSeries {
+ window: StatsWindow;
+ bucket: string;
+ series: StatsPoint[];
+ totals: Omit<StatsPoint, 'bucket'> & { successRate: number | null };
+ integrations: IntegrationRunStats[];
+}
+
 interface ActivityItem {
  id: string;
  type: 'success' | 'error' | 'info';
@@ -38,6 +74,10 @@ export default function DashboardPage() {
  const [filter, setFilter] = useState<'all' | 'success' | 'error'>('all');
  const [loading, setLoading] = useState(true);
  const [error, setError] = useState<string | null>(null);
+ const locale = useLocale();
+ const [statsWindow, setStatsWindow] = useState<StatsWindow>('24h');
+ const [timeSeries, setTimeSeries] = useState<TimeSeries | null>(null);
+ const [timeSeriesLoading, setTimeSeriesLoading] = useState(true);
 
  useEffect(() => {
   const fetchDashboardData = async () => {
@@ -72,6 +112,37 @@ export default function DashboardPage() {
   fetchDashboardData();
  }, [companyId]);
 
+ useEffect(() => {
+  if (!companyId) return;
+
+  setTimeSeriesLoading(true);
+  cachedApi.fetchDashboardTimeSeries(companyId, statsWindow)
+   .then(setTimeSeries)
+   .catch(err => {
+    console.error('Error fetching dashboard time-series:', err);
+    setTimeSeries(null);
+   })
+   .finally(() => setTimeSeriesLoading(false));
+ }, [companyId, statsWindow]);
+
+ // Hourly buckets show the time, daily and weekly ones the date
+ const formatBucket = (bucket: string) => {
+  const date = new Date(bucket);
+  return timeSeries?.bucket === '1h' || timeSeries?.bucket === '6h'
+   ? date.toLocaleString(locale, { day: 'numeric', month: 'numeric', hour: '2-digit', minute: '2-digit' })
+   : date.toLocaleDateString(locale, { day: 'numeric', month: 'numeric' });
+ };
+
+ const formatDuration = (ms: number | null | undefined) => {
+  if (ms === null || ms === undefined) return '–';
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${(ms / 60000).toFixed(1)} min`;
+ };
+
+ const points = timeSeries?.series ?? [];
+ const totals = timeSeries?.totals;
+
  const formatTimeAgo = (timestamp: string) => {
   const now = new Date();
   const time = new Date(timestamp);
@@ -130,10 +201,27 @@ export default function DashboardPage() {
   <div className="p-8 min-h-screen">
    <h1 className="text-3xl font-semibold mb-8">{t('title')}</h1>
 
+   {/* Window selector */}
+   <div className="flex items-center justify-end gap-2 mb-4">
+    {STATS_WINDOWS.map(w => (
+     <button
+      key={w}
+      onClick={() => setStatsWindow(w)}
+      className={`px-3 py-1 text-sm rounded transition-colors ${
+       statsWindow === w
+        ? 'bg-emerald-600 text-white'
+        : 'bg-input text-secondary hover:text-primary'
+      }`}
+     >
+      {t(`window.${w}`)}
+     </button>
+    ))}
+   </div>
+
    {/* KPI Widgets */}
    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
     <Link href={`/companies/${companyId}/integrations`}>
-     <div className="bg-card p-6 rounded-lg border border-border-light hover:border-emerald-500/50 transition-colors cursor-pointer shadow-sm">
+     <div className="bg-card p-6 rounded-lg border border-border-light hover:border-emerald-500/50 transition-colors cursor-pointer shadow-sm h-full">
       <div className="flex items-center justify-between">
        <div>
         <p className="text-sm text-muted">{t('activeIntegrations')}</p>
@@ -149,40 +237,141 @@ export default function DashboardPage() {
     <div className="bg-card p-6 rounded-lg border border-border-light shadow-sm">
      <div className="flex items-center justify-between">
       <div>
-       <p className="text-sm text-muted">{t('successfulJobsLast24h')}</p>
-       <p className="text-2xl font-semibold text-primary">{stats.successJobsLast24h}</p>
+       <p className="text-sm text-muted">{t('successfulRuns')}</p>
+       <p className="text-2xl font-semibold text-primary">
+        {totals?.successRuns ?? '–'}
+        {totals?.successRate != null && (
+         <span className="text-sm font-normal text-muted ml-2">{Math.round(totals.successRate * 100)} %</span>
+        )}
+       </p>
       </div>
       <div className="w-12 h-12 bg-green-500/20 rounded-lg flex items-center justify-center">
        <CheckCircle className="w-6 h-6 text-green-400" />
       </div>
      </div>
+     <Sparkline values={points.map(p => p.successRuns)} className="stroke-green-500" />
     </div>
 
     <div className="bg-card p-6 rounded-lg border border-border-light shadow-sm">
      <div className="flex items-center justify-between">
       <div>
-       <p className="text-sm text-muted">{t('totalJobsLast24h')}</p>
-       <p className="text-2xl font-semibold text-primary">{stats.totalJobsLast24h}</p>
+       <p className="text-sm text-muted">{t('failedRuns')}</p>
+       <p className="text-2xl font-semibold text-primary">{totals?.failedRuns ?? '–'}</p>
       </div>
-      <div className="w-12 h-12 bg-purple-500/20 rounded-lg flex items-center justify-center">
-       <Activity className="w-6 h-6 text-purple-400" />
+      <div className="w-12 h-12 bg-red-500/20 rounded-lg flex items-center justify-center">
+       <AlertTriangle className="w-6 h-6 text-red-400" />
       </div>
      </div>
+     <Sparkline values={points.map(p => p.failedRuns)} className="stroke-red-500" />
     </div>
 
     <div className="bg-card p-6 rounded-lg border border-border-light shadow-sm">
      <div className="flex items-center justify-between">
       <div>
-       <p className="text-sm text-muted">{t('errorJobsLast24h')}</p>
-       <p className="text-2xl font-semibold text-primary">{stats.errorJobsLast24h}</p>
+       <p className="text-sm text-muted">{t('p95Duration')}</p>
+       <p className="text-2xl font-semibold text-primary">
+        {formatDuration(totals?.p95DurationMs)}
+        <span className="text-sm font-normal text-muted ml-2">p50 {formatDuration(totals?.p50DurationMs)}</span>
+       </p>
       </div>
-      <div className="w-12 h-12 bg-red-500/20 rounded-lg flex items-center justify-center">
-       <AlertTriangle className="w-6 h-6 text-red-400" />
+      <div className="w-12 h-12 bg-purple-500/20 rounded-lg flex items-center justify-center">
+       <Timer className="w-6 h-6 text-purple-400" />
       </div>
      </div>
+     <Sparkline values={points.map(p => p.p95DurationMs ?? 0)} className="stroke-purple-500" />
     </div>
    </div>
 
+   {/* Trends */}
+   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+    <div className="bg-card p-6 rounded-lg border border-border-light shadow-sm">
+     <div className="flex items-center justify-between mb-4">
+      <h2 className="text-lg font-semibold text-primary">{t('runsOverTime')}</h2>
+      <span className="text-sm text-muted flex items-center gap-1">
+       <Activity className="w-4 h-4" />
+       {t('totalRuns')}: {totals?.totalRuns ?? '–'}
+      </span>
+     </div>
+     {timeSeriesLoading && !timeSeries ? (
+      <div className="h-40 bg-input rounded animate-pulse" />
+     ) : totals?.totalRuns ? (
+      <StackedBarChart
+       points={points}
+       series={[
+        { key: 'successRuns', label: t('successfulRuns'), className: 'fill-green-500' },
+        { key: 'failedRuns', label: t('failedRuns'), className: 'fill-red-500' },
+       ]}
+       formatBucket={formatBucket}
+      />
+     ) : (
+      <div className="h-40 flex items-center justify-center text-muted text-sm">{t('noRunsInWindow')}</div>
+     )}
+    </div>
+
+    <div className="bg-card p-6 rounded-lg border border-border-light shadow-sm">
+     <div className="flex items-center justify-between mb-4">
+      <h2 className="text-lg font-semibold text-primary">{t('durationOverTime')}</h2>
+      <span className="text-sm text-muted">
+       {t('errorLogs')}: {totals?.errorLogs ?? '–'}
+      </span>
+     </div>
+     {timeSeriesLoading && !timeSeries ? (
+      <div className="h-40 bg-input rounded animate-pulse" />
+     ) : totals?.totalRuns ? (
+      <LineChart
+       points={points}
+       series={[
+        { key: 'p50DurationMs', label: 'p50', className: 'stroke-blue-500' },
+        { key: 'p95DurationMs', label: 'p95', className: 'stroke-purple-500' },
+       ]}
+       formatBucket={formatBucket}
+       formatValue={formatDuration}
+      />
+     ) : (
+      <div className="h-40 flex items-center justify-center text-muted text-sm">{t('noRunsInWindow')}</div>
+     )}
+    </div>
+   </div>
+
+   {/* Per-integration breakdown */}
+   {timeSeries && timeSeries.integrations.length > 0 && (
+    <div className="bg-card rounded-lg border border-border-light shadow-sm mb-8 overflow-x-auto">
+     <div className="p-6 border-b border-border-light">
+      <h2 className="text-lg font-semibold text-primary">{t('integrationBreakdown')}</h2>
+     </div>
+     <table className="w-full text-sm">
+      <thead>
+       <tr className="text-left text-muted border-b border-border-light">
+        <th className="px-6 py-3 font-medium">{t('integration')}</th>
+        <th className="px-6 py-3 font-medium text-right">{t('totalRuns')}</th>
+        <th className="px-6 py-3 font-medium text-right">{t('successRate')}</th>
+        <th className="px-6 py-3 font-medium text-right">{t('failedRuns')}</th>
+        <th className="px-6 py-3 font-medium text-right">p50</th>
+        <th className="px-6 py-3 font-medium text-right">p95</th>
+       </tr>
+      </thead>
+      <tbody className="divide-y divide-divider">
+       {timeSeries.integrations.map(row => (
+        <tr key={row.appId} className="hover:bg-hover transition-colors">
+         <td className="px-6 py-3 text-primary">
+          <Link href={`/companies/${companyId}/integrations/${row.appId}/runs`} className="hover:underline">
+           {row.appName}
+          </Link>
+         </td>
+         <td className="px-6 py-3 text-right text-secondary">{row.totalRuns}</td>
+         <td className="px-6 py-3 text-right text-secondary">
+          {row.totalRuns > 0 ? `${Math.round((row.successRuns / row.totalRuns) * 100)} %` : '–'}
+         </td>
+         <td className={`px-6 py-3 text-right ${row.failedRuns > 0 ? 'text-error' : 'text-secondary'}`}>{row.failedRuns}</td>
+         <td className="px-6 py-3 text-right text-secondary">{formatDuration(row.p50DurationMs)}</td>
+         <td className="px-6 py-3 text-right text-secondary">{formatDuration(row.p95DurationMs)}</td>
+        </tr>
+       ))}
+      </tbody>
+     </table>
+    </div>
+   )}
+
    {/* Integration Health Overview */}
    {stats.activeIntegrations > 0 && (
     <div className="mb-8">
@@ -1,34 +1,49 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { type Company, type UserCompany } from '@/lib/validation/companySchema';
 import CompanyInitialsIcon from '@/components/company/CompanyInitialsIcon';
 import { LogoUpload } from '@/components/company/LogoUpload';
 import { ColorSchemeManager } from '@/components/company/ColorSchemeManager';
 import { AuthAndApiSettings } from '@/components/company/AuthAndApiSettings';
+import { SecretsSettings } from '@/components/company/SecretsSettings';
+import { RolesSettings } from '@/components/company/RolesSettings';
+import { OwnershipTransferSettings } from '@/components/company/OwnershipTransferSettings';
+import { LogRetentionSettings } from '@/components/company/LogRetentionSettings';
+import { NotificationPreferencesSettings } from '@/components/company/NotificationPreferencesSettings';
+import { WebhooksSettings } from '@/components/company/WebhooksSettings';
+import { AuditLogViewer } from '@/components/company/AuditLogViewer';
+import { SecurityDashboard } from '@/components/company/SecurityDashboard';
+import { MfaPolicySettings } from '@/components/company/MfaPolicySettings';
 import { ContactDetailsForm } from '@/components/company/ContactDetailsForm';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/lib/supabaseClient';
 import { useActiveCompany } from '@/lib/activeCompany';
-import { isAdminOrHigher } from '@/lib/permissions';
+import { can, isOwner } from '@/lib/permissions';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Settings, Palette, Key, Mail, Trash2, AlertCircle, Save, RefreshCw } from 'lucide-react';
+import { Settings, Palette, Key, Mail, Trash2, AlertCircle, Save, RefreshCw, Lock, Shield, Bell, ScrollText, ShieldAlert } from 'lucide-react';
+
+const SETTINGS_TABS = ['general', 'branding', 'integrations', 'secrets', 'roles', 'contact', 'notifications', 'audit', 'security', 'advanced'];
 export default function CompanySettingsPage() {
  /* params from URL */
  const { companyId } = useParams<{ companyId: string }>();
  const router = useRouter();
+ const searchParams = useSearchParams();
  const { user } = useAuth();
 
  /* Get company data from context instead of fetching */
  const company: UserCompany | null = useActiveCompany();
  /* local state */
  const [deleting, setDeleting] = useState(false);
- const [activeTab, setActiveTab] = useState('general');
+ const requestedTab = searchParams.get('tab');
+ const [activeTab, setActiveTab] = useState(
+  requestedTab && SETTINGS_TABS.includes(requestedTab) ? requestedTab : 'general'
+ );
  const [companyData, setCompanyData] = useState<Company | null>(company);
  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
@@ -47,8 +62,8 @@ export default function CompanySettingsPage() {
   }
  }, [company]);
 
- // Check if user has admin permission for settings management
- const hasAdminPermission = isAdminOrHigher(company?.userRole);
+ // Check if user's role may manage company settings
+ const hasAdminPermission = can(company, 'company.manage');
 
  const showNotification = (type: 'success' | 'error', message: string) => {
   setNotification({ type, message });
@@ -222,7 +237,7 @@ export default function CompanySettingsPage() {
    )}
 
    <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-    <TabsList className="grid w-full grid-cols-5">
+    <TabsList className="grid w-full grid-cols-10">
      <TabsTrigger value="general" className="flex items-center gap-2">
       <Settings className="h-4 w-4" />
       General
@@ -235,10 +250,30 @@ export default function CompanySettingsPage() {
       <Key className="h-4 w-4" />
       Auth & API's
      </TabsTrigger>
+     <TabsTrigger value="secrets" className="flex items-center gap-2">
+      <Lock className="h-4 w-4" />
+      Secrets
+     </TabsTrigger>
+     <TabsTrigger value="roles" className="flex items-center gap-2">
+      <Shield className="h-4 w-4" />
+      Roles
+     </TabsTrigger>
      <TabsTrigger value="contact" className="flex items-center gap-2">
       <Mail className="h-4 w-4" />
       Contact
      </TabsTrigger>
+     <TabsTrigger value="notifications" className="flex items-center gap-2">
+      <Bell className="h-4 w-4" />
+      Notifications
+     </TabsTrigger>
+     <TabsTrigger value="audit" className="flex items-center gap-2">
+      <ScrollText className="h-4 w-4" />
+      Audit Log
+     </TabsTrigger>
+     <TabsTrigger value="security" className="flex items-center gap-2">
+      <ShieldAlert className="h-4 w-4" />
+      Security
+     </TabsTrigger>
      <TabsTrigger value="advanced" className="flex items-center gap-2">
       <Trash2 className="h-4 w-4" />
       Advanced
@@ -354,7 +389,27 @@ export default function CompanySettingsPage() {
 
     {/* Auth & API's */}
     <TabsContent value="integrations" className="space-y-6">
-     <AuthAndApiSettings companyId={companyId} />
+     <AuthAndApiSettings companyId={companyId} canManageApiKeys={can(company, 'company.manage')} />
+     {can(company, 'integrations.configure') && (
+      <WebhooksSettings companyId={companyId} canManage={can(company, 'company.manage')} />
+     )}
+    </TabsContent>
+
+    {/* Secrets */}
+    <TabsContent value="secrets" className="space-y-6">
+     <SecretsSettings companyId={companyId} canManage={can(company, 'secrets.manage')} />
+    </TabsContent>
+
+    {/* Roles & Permissions */}
+    <TabsContent value="roles" className="space-y-6">
+     {can(company, 'users.manage') ? (
+      <RolesSettings companyId={companyId} canEdit={isOwner(company?.userRole)} />
+     ) : (
+      <Alert>
+       <AlertCircle className="h-4 w-4" />
+       <AlertDescription>You do not have permission to view company roles.</AlertDescription>
+      </Alert>
+     )}
     </TabsContent>
 
     {/* Contact Details */}
@@ -368,8 +423,48 @@ export default function CompanySettingsPage() {
      />
     </TabsContent>
 
+    {/* Notification Preferences */}
+    <TabsContent value="notifications" className="space-y-6">
+     <NotificationPreferencesSettings companyId={companyId} />
+    </TabsContent>
+
+    {/* Audit Log */}
+    <TabsContent value="audit" className="space-y-6">
+     {can(company, 'audit.read') ? (
+      <AuditLogViewer companyId={companyId} />
+     ) : (
+      <Alert>
+       <AlertCircle className="h-4 w-4" />
+       <AlertDescription>You do not have permission to view the audit log.</AlertDescription>
+      </Alert>
+     )}
+    </TabsContent>
+
+    {/* Security */}
+    <TabsContent value="security" className="space-y-6">
+     {can(company, 'security.manage') ? (
+      <>
+       <MfaPolicySettings companyId={companyId} />
+       <SecurityDashboard companyId={companyId} />
+      </>
+     ) : (
+      <Alert>
+       <AlertCircle className="h-4 w-4" />
+       <AlertDescription>You do not have permission to view security findings.</AlertDescription>
+      </Alert>
+     )}
+    </TabsContent>
+
     {/* Advanced Settings */}
     <TabsContent value="advanced" className="space-y-6">
+     {can(company, 'logs.read') && (
+      <LogRetentionSettings companyId={companyId} canEdit={can(company, 'company.manage')} />
+     )}
+
+     {isOwner(company?.userRole) && (
+      <OwnershipTransferSettings companyId={companyId} currentUserId={user?.id} />
+     )}
+
      <Card className="border-red-200">
       <CardHeader>
        <CardTitle className="text-red-600">Danger Zone</CardTitle>
@@ -1,22 +1,127 @@
 'use client';
 
 import { useTranslations } from "next-intl";
-import { useParams } from "next/navigation";
-import { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { ArrowLeft } from 'lucide-react';
 import { type CompanyUserMini } from '@/lib/validation/companyUserMiniSchema';
+import { fetchUsersByCompanyMini } from '@/lib/company/fetchUsersMini';
+import { useActiveCompany } from '@/lib/activeCompany';
+import { cachedApi } from '@/lib/cachedApi';
+import { can } from '@/lib/permissions';
 
 export default function Page() {
 
  const [user, setUser] = useState<CompanyUserMini | undefined>(undefined);
+ const [roles, setRoles] = useState<string[]>([]);
+ const [role, setRole] = useState('');
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
  const { companyId, userId } = useParams<{ companyId: string; userId: string }>();
+ const router = useRouter();
+ const company = useActiveCompany();
  const t = useTranslations();
 
+ const canManageUsers = can(company, 'users.manage');
+
+ useEffect(() => {
+  if (!companyId || !userId || !canManageUsers) {
+   setLoading(false);
+   return;
+  }
+
+  const load = async () => {
+   try {
+    setLoading(true);
+    const [users, roleData] = await Promise.all([
+     fetchUsersByCompanyMini(companyId),
+     cachedApi.fetchCompanyRoles(companyId),
+    ]);
+    const found = users.find(u => u.id === userId);
+    setUser(found);
+    setRole(found?.role || '');
+    setRoles(roleData.roles.map((r: { role: string }) => r.role).filter((r: string) => r !== 'owner'));
+   } catch (err) {
+    setError(err instanceof Error ? err.message : String(err));
+   } finally {
+    setLoading(false);
+   }
+  };
+
+  load();
+ }, [companyId, userId, canManageUsers]);
+
+ const handleSave = async () => {
+  setSaving(true);
+  setError(null);
+  try {
+   await cachedApi.updateMemberRole(companyId, userId, role);
+   alert(t('users.edit.saved'));
+   router.back();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : String(err));
+  } finally {
+   setSaving(false);
+  }
+ };
 
   return (
-   <div className="p-10 text-neutral-500">
-    <h1>{t('companies.users.edit.title')}</h1>
+   <div className="p-8 max-w-xl">
+    <div className="flex items-center gap-4 mb-8">
+     <button
+      onClick={() => router.back()}
+      className="p-2 bg-input rounded-lg text-primary hover:bg-hover-strong transition-all duration-200"
+     >
+      <ArrowLeft className="w-5 h-5" />
+     </button>
+     <h1 className="text-2xl font-semibold text-primary">{t('users.edit.title')}</h1>
+    </div>
+
+    {!canManageUsers ? (
+     <p className="text-secondary">{t('users.edit.noPermission')}</p>
+    ) : loading ? (
+     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+    ) : !user ? (
+     <p className="text-secondary">{t('users.edit.notFound')}</p>
+    ) : (
+     <div className="bg-card border border-border-light rounded-xl p-6 space-y-4">
+      <div>
+       <div className="font-medium text-primary">{user.fullName}</div>
+       <div className="text-sm text-muted">{user.email}</div>
+      </div>
+
+      {user.role === 'owner' ? (
+       <p className="text-sm text-secondary">{t('users.edit.ownerLocked')}</p>
+      ) : (
+       <>
+        <div>
+         <label className="block text-sm font-medium mb-1">{t('users.role')}</label>
+         <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          className="w-full border border-border-default rounded-md p-2 bg-input text-primary"
+         >
+          {roles.map(r => (
+           <option key={r} value={r}>{r}</option>
+          ))}
+         </select>
+         <p className="text-xs text-muted mt-1">{t('users.edit.roleDescription')}</p>
+        </div>
+
+        {error && <p className="text-sm text-error">{error}</p>}
 
+        <button
+         onClick={handleSave}
+         disabled={saving || role === user.role}
+         className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 transition-all duration-200"
+        >
+         {t('users.edit.save')}
+        </button>
+       </>
+      )}
+     </div>
+    )}
    </div>
   );
  }
- 
\ No newline at end of file
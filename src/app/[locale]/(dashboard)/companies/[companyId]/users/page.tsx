@@ -1,26 +1,32 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import UserTable from '@/components/user/UserTable';
-import { Plus } from 'lucide-react';
+import { type PendingInvitation } from '@/components/user/InvitationRow';
+import { Plus, Upload } from 'lucide-react';
 import SearchBar from '@/components/user/SearchBar';
 import { fetchUsersByCompanyMini } from '@/lib/company/fetchUsersMini';
 import { type CompanyUserMini } from '@/lib/validation/companyUserMiniSchema';
-import { useTranslations } from 'next-intl';
+import { useLocale, useTranslations } from 'next-intl';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/lib/supabaseClient';
 import { useActiveCompany } from '@/lib/activeCompany';
 import { cachedApi } from '@/lib/cachedApi';
+import { can } from '@/lib/permissions';
 
 export default function UsersPage() {
  const company = useActiveCompany();
  const [users, setUsers] = useState<CompanyUserMini[]>([]);
+ const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+ const [bulkUploading, setBulkUploading] = useState(false);
+ const csvInputRef = useRef<HTMLInputElement>(null);
  const [showModal, setShowModal] = useState(false);
  const [searchTerm, setSearchTerm] = useState('');
  const [loading, setLoading] = useState(false);
  const [userRole, setUserRole] = useState<string | null>(null);
  const [loadingRole, setLoadingRole] = useState(true);
  const t = useTranslations();
+ const locale = useLocale();
  const { user } = useAuth();
 
  /* fetch users and user role */
@@ -58,8 +64,78 @@ export default function UsersPage() {
   fetchUsersAndRole();
  }, [company?.id, user?.id]);
 
- // Check if current user can add other users (admin, superadmin, or owner)
- const canAddUsers = userRole && ['admin', 'superadmin', 'owner'].includes(userRole);
+ // Check if current user's role may invite other users
+ const canAddUsers = userRole && can(company, 'users.invite');
+
+ /* pending and expired invitations are listed below the members */
+ const refreshInvitations = async () => {
+  if (!company?.id || !can(company, 'users.invite')) return;
+  try {
+   setInvitations(await cachedApi.fetchCompanyInvitations(company.id));
+  } catch (error) {
+   console.error('Error fetching invitations:', error);
+   setInvitations([]);
+  }
+ };
+
+ useEffect(() => {
+  refreshInvitations();
+ }, [company?.id, company?.permissions]);
+
+ const handleResendInvitation = async (invitation: PendingInvitation) => {
+  if (!company?.id) return;
+  try {
+   await cachedApi.resendInvitation(company.id, invitation.id, locale);
+   alert(`Pozvánka pro ${invitation.email} byla znovu odeslána`);
+   await refreshInvitations();
+  } catch (error) {
+   alert(`Chyba: ${error instanceof Error ? error.message : 'Nepodařilo se odeslat pozvánku'}`);
+  }
+ };
+
+ const handleRevokeInvitation = async (invitation: PendingInvitation) => {
+  if (!company?.id) return;
+  if (!confirm(`Zrušit pozvánku pro ${invitation.email}?`)) return;
+  try {
+   await cachedApi.revokeInvitation(company.id, invitation.id);
+   await refreshInvitations();
+  } catch (error) {
+   alert(`Chyba: ${error instanceof Error ? error.message : 'Nepodařilo se zrušit pozvánku'}`);
+  }
+ };
+
+ const handleChangeInvitationRole = async (invitation: PendingInvitation, role: string) => {
+  if (!company?.id || role === invitation.role) return;
+  try {
+   await cachedApi.updateInvitationRole(company.id, invitation.id, role);
+   await refreshInvitations();
+  } catch (error) {
+   alert(`Chyba: ${error instanceof Error ? error.message : 'Nepodařilo se změnit roli'}`);
+  }
+ };
+
+ const handleBulkInvite = async (file: File) => {
+  if (!company?.id) return;
+
+  setBulkUploading(true);
+  try {
+   const result = await cachedApi.bulkInvite(company.id, file, locale);
+   const failures = result.results
+    .filter((row: { status: string }) => row.status === 'failed')
+    .map((row: { line: number; email: string; error: string }) => `${row.line}: ${row.email || '—'} – ${row.error}`);
+
+   alert(
+    `Odesláno ${result.invited} pozvánek, ${result.failed} selhalo.` +
+    (failures.length > 0 ? `\n\n${failures.join('\n')}` : '')
+   );
+   await refreshInvitations();
+  } catch (error) {
+   alert(`Chyba: ${error instanceof Error ? error.message : 'Nepodařilo se odeslat pozvánky'}`);
+  } finally {
+   setBulkUploading(false);
+   if (csvInputRef.current) csvInputRef.current.value = '';
+  }
+ };
 
  const handleSendInvite = async (email: string, role: string, message?: string) => {
   if (!company?.id) return;
@@ -85,6 +161,7 @@ export default function UsersPage() {
      companyId: company.id,
      role,
      message,
+     locale,
     }),
    });
 
@@ -102,6 +179,7 @@ export default function UsersPage() {
     // Invalidate cache and refresh user list
     cachedApi.invalidateCompanyUsers(company.id);
     fetchUsersByCompanyMini(company.id).then(setUsers);
+    refreshInvitations();
    } else {
     // Show error message
     let errorMessage = 'Nepodařilo se odeslat pozvánku';
@@ -148,13 +226,31 @@ export default function UsersPage() {
    <div className="flex justify-between mb-2">
     <h1 className="text-3xl font-semibold mb-4 text-primary">{t('users.title')}</h1>
     {canAddUsers && !loadingRole && (
-     <button
-      className="bg-emerald-600 text-white rounded-md p-2 inline-flex items-center gap-2 hover:bg-emerald-700 transition-colors"
-      onClick={() => setShowModal(true)}
-     >
-      <Plus />
-      {t('users.addUser')}
-     </button>
+     <div className="flex items-start gap-2">
+      <input
+       ref={csvInputRef}
+       type="file"
+       accept=".csv,text/csv"
+       className="hidden"
+       onChange={(e) => e.target.files?.[0] && handleBulkInvite(e.target.files[0])}
+      />
+      <button
+       className="bg-input text-primary rounded-md p-2 inline-flex items-center gap-2 hover:bg-hover-strong transition-colors disabled:opacity-50"
+       onClick={() => csvInputRef.current?.click()}
+       disabled={bulkUploading}
+       title="CSV: email, role, message"
+      >
+       <Upload />
+       {bulkUploading ? 'Odesílám...' : 'Hromadná pozvánka (CSV)'}
+      </button>
+      <button
+       className="bg-emerald-600 text-white rounded-md p-2 inline-flex items-center gap-2 hover:bg-emerald-700 transition-colors"
+       onClick={() => setShowModal(true)}
+      >
+       <Plus />
+       {t('users.addUser')}
+      </button>
+     </div>
     )}
    </div>
 
@@ -166,7 +262,15 @@ export default function UsersPage() {
      <span className="ml-2 text-secondary">Loading users...</span>
     </div>
    ) : (
-    <UserTable users={filtered} />
+    <UserTable
+     users={filtered}
+     invitations={invitations.filter((i) => i.email.toLowerCase().includes(searchTerm.toLowerCase()))}
+     canManageInvitations={!!canAddUsers}
+     canInviteOwners={userRole === 'owner'}
+     onResendInvitation={handleResendInvitation}
+     onRevokeInvitation={handleRevokeInvitation}
+     onChangeInvitationRole={handleChangeInvitationRole}
+    />
    )}
 
    {showModal && (
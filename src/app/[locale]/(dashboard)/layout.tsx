@@ -7,6 +7,7 @@ import { useAuth } from '@/components/auth/AuthProvider';
 import { useRouter } from 'next/navigation';
 import { NotificationProvider } from '@/components/providers/NotificationProvider';
 import ErrorBoundary from '@/components/common/ErrorBoundary';
+import { needsMfaStepUp } from '@/features/auth/MfaChallenge';
 
 function LoadingSpinner() {
  return (
@@ -46,6 +47,15 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
   }
  }, [user, loading, router]);
 
+ // Users with an authenticator verify it before using the dashboard (covers Google sign-in)
+ useEffect(() => {
+  if (!loading && user) {
+   needsMfaStepUp().then(required => {
+    if (required) router.replace('/auth');
+   });
+  }
+ }, [user, loading, router]);
+
  if (loading) return <LoadingSpinner />;
 
  return (
@@ -178,7 +178,9 @@ export default function MarketplacePage() {
     setInstalledAppIds(prev => new Set([...prev, integrationId]));
     // Close modal after successful installation
     setSelectedApp(null);
-    alert(response.message || t('installSuccess'));
+    alert(response.missingSecrets?.length
+     ? t('installMissingSecrets', { secrets: response.missingSecrets.join(', ') })
+     : response.message || t('installSuccess'));
    } else {
     throw new Error(response.error || 'Installation failed');
    }
@@ -4,7 +4,7 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/lib/supabaseClient';
 import { useTranslations } from 'next-intl';
-import { Bell, Check, X, ExternalLink, Users, ArrowLeft } from 'lucide-react';
+import { Bell, Check, X, ExternalLink, Users, ArrowLeft, Crown, AlertTriangle, CheckCircle, Clock, TrendingDown, Download, ShieldAlert } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 interface Notification {
@@ -29,6 +29,11 @@ interface Notification {
    email: string;
   };
  };
+ ownershipTransfer?: {
+  id: string;
+  status: string;
+  expiresAt: string;
+ };
 }
 
 interface NotificationData {
@@ -36,10 +41,20 @@ interface NotificationData {
  unread_count: number;
 }
 
+const TYPE_FILTERS = [
+ { value: '', label: 'Všechny typy' },
+ { value: 'integration_failed,integration_recovered,credentials_expiring,integration_health', label: 'Integrace' },
+ { value: 'alert_triggered', label: 'Upozornění' },
+ { value: 'export_ready', label: 'Exporty' },
+ { value: 'security_finding', label: 'Zabezpečení' },
+ { value: 'company_invitation,invitation_accepted,invitation_rejected,user_joined_company,role_changed,ownership_transfer', label: 'Tým a společnost' },
+];
+
 export default function NotificationsPage() {
  const [notifications, setNotifications] = useState<Notification[]>([]);
  const [unreadCount, setUnreadCount] = useState(0);
  const [loading, setLoading] = useState(false);
+ const [typeFilter, setTypeFilter] = useState('');
  const { user } = useAuth();
  const router = useRouter();
  const t = useTranslations();
@@ -54,7 +69,7 @@ export default function NotificationsPage() {
    const { data: { session } } = await supabase.auth.getSession();
    if (!session?.access_token) return;
 
-   const response = await fetch('/api/notifications', {
+   const response = await fetch(`/api/notifications${typeFilter ? `?type=${typeFilter}` : ''}`, {
     headers: {
      'Authorization': `Bearer ${session.access_token}`,
     },
@@ -151,6 +166,35 @@ export default function NotificationsPage() {
   }
  };
 
+ // Handle ownership transfer response
+ const handleOwnershipTransferResponse = async (transferId: string, action: 'accept' | 'reject') => {
+  try {
+   const { data: { session } } = await supabase.auth.getSession();
+   if (!session?.access_token) return;
+
+   const response = await fetch(`/api/ownership-transfers/${transferId}/${action}`, {
+    method: 'POST',
+    headers: {
+     'Authorization': `Bearer ${session.access_token}`,
+    },
+   });
+
+   if (response.ok) {
+    const data = await response.json();
+    if (action === 'accept' && data.data?.redirect_url) {
+     router.push(data.data.redirect_url);
+    }
+    fetchNotifications();
+   } else {
+    const error = await response.json();
+    alert(error?.error || `Failed to ${action} ownership transfer`);
+   }
+  } catch (error) {
+   console.error(`Error ${action}ing ownership transfer:`, error);
+   alert(`Failed to ${action} ownership transfer`);
+  }
+ };
+
  // Setup real-time subscriptions
  useEffect(() => {
   if (!user) return;
@@ -176,7 +220,7 @@ export default function NotificationsPage() {
   return () => {
    supabase.removeChannel(channel);
   };
- }, [user]);
+ }, [user, typeFilter]);
 
  const formatTimeAgo = (dateString: string) => {
   const date = new Date(dateString);
@@ -215,6 +259,49 @@ export default function NotificationsPage() {
       <Users size={20} className="text-green-400" />
      </div>
     );
+   case 'ownership_transfer':
+    return (
+     <div className="w-10 h-10 bg-amber-500/20 rounded-full flex items-center justify-center">
+      <Crown size={20} className="text-amber-400" />
+     </div>
+    );
+   case 'integration_failed':
+   case 'integration_health':
+    return (
+     <div className="w-10 h-10 bg-red-500/20 rounded-full flex items-center justify-center">
+      <AlertTriangle size={20} className="text-red-400" />
+     </div>
+    );
+   case 'integration_recovered':
+    return (
+     <div className="w-10 h-10 bg-green-500/20 rounded-full flex items-center justify-center">
+      <CheckCircle size={20} className="text-green-400" />
+     </div>
+    );
+   case 'credentials_expiring':
+    return (
+     <div className="w-10 h-10 bg-amber-500/20 rounded-full flex items-center justify-center">
+      <Clock size={20} className="text-amber-400" />
+     </div>
+    );
+   case 'alert_triggered':
+    return (
+     <div className="w-10 h-10 bg-amber-500/20 rounded-full flex items-center justify-center">
+      <TrendingDown size={20} className="text-amber-400" />
+     </div>
+    );
+   case 'export_ready':
+    return (
+     <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+      <Download size={20} className="text-blue-400" />
+     </div>
+    );
+   case 'security_finding':
+    return (
+     <div className="w-10 h-10 bg-red-500/20 rounded-full flex items-center justify-center">
+      <ShieldAlert size={20} className="text-red-400" />
+     </div>
+    );
    default:
     return (
      <div className="w-10 h-10 bg-base0/20 rounded-full flex items-center justify-center">
@@ -255,6 +342,19 @@ export default function NotificationsPage() {
     )}
    </div>
 
+   {/* Type Filter */}
+   <div className="flex justify-end mb-4">
+    <select
+     value={typeFilter}
+     onChange={(e) => setTypeFilter(e.target.value)}
+     className="px-3 py-2 text-sm border border-border-default rounded-lg bg-card text-primary"
+    >
+     {TYPE_FILTERS.map(filter => (
+      <option key={filter.value} value={filter.value}>{filter.label}</option>
+     ))}
+    </select>
+   </div>
+
    {/* Notifications List */}
    <div className="space-y-4">
     {loading ? (
@@ -317,6 +417,24 @@ export default function NotificationsPage() {
           </div>
          )}
 
+         {/* Ownership Transfer Actions */}
+         {notification.type === 'ownership_transfer' && notification.ownershipTransfer?.status === 'pending' && (
+          <div className="flex gap-3 mb-4">
+           <button
+            onClick={() => handleOwnershipTransferResponse(notification.ownershipTransfer!.id, 'accept')}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-all duration-200 font-medium"
+           >
+            ✓ Přijmout
+           </button>
+           <button
+            onClick={() => handleOwnershipTransferResponse(notification.ownershipTransfer!.id, 'reject')}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-all duration-200 font-medium"
+           >
+            ✗ Odmítnout
+           </button>
+          </div>
+         )}
+
          {/* Action Buttons */}
          <div className="flex items-center gap-3">
           {notification.actionUrl && notification.type !== 'company_invitation' && (
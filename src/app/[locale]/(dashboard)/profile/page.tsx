@@ -8,12 +8,15 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import clsx from "classnames";
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
+import { cachedApi } from "@/lib/cachedApi";
 import Avatar from '@/components/user/Avatar'
+import MfaSettings from '@/components/user/MfaSettings'
 
 /* ---------------- schema & types ---------------- */
 export default function ProfilePage() {
  const t = useTranslations("profile");
+ const locale = useLocale();
  const router = useRouter();
  const { user } = useAuth();
 
@@ -144,6 +147,9 @@ export default function ProfilePage() {
     return;
    }
 
+   // The notice is informational; a failure must not undo the change
+   cachedApi.notifyPasswordChanged(locale).catch(err => console.error('Password change notice failed:', err));
+
    resetPwd({ current: "", password: "" });
   } catch (err) {
    alert("Chyba při změně hesla");
@@ -378,6 +384,9 @@ export default function ProfilePage() {
     </form>
    </section>
 
+   {/* two-factor authentication */}
+   <MfaSettings />
+
    {/* danger zone */}
    <section className="space-y-4">
     <h3 className="font-medium text-error">{t("dangerZone")}</h3>
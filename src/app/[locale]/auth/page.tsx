@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
 import AuthCard from '@/features/auth/AuthCard';
+import MfaChallenge, { needsMfaStepUp } from '@/features/auth/MfaChallenge';
 import { useLocale } from 'next-intl';
 import ThemeToggle from '@/components/layout/ThemeToggle';
 
@@ -11,11 +12,16 @@ export default function AuthPage() {
  const router = useRouter();
  const locale = useLocale();
  const [checking, setChecking] = useState(true);
+ const [mfaRequired, setMfaRequired] = useState(false);
 
  useEffect(() => {
   const check = async () => {
    const { data } = await supabase.auth.getSession();
-   if (data.session?.user) {
+   if (data.session?.user && await needsMfaStepUp()) {
+    // Signed in (e.g. with Google) but the second factor is still missing
+    setMfaRequired(true);
+    setChecking(false);
+   } else if (data.session?.user) {
     router.replace(`/${locale}/companies`);
    } else {
     setChecking(false); // only show auth screen after this
@@ -33,7 +39,16 @@ export default function AuthPage() {
    <div className="absolute top-4 right-4 z-10">
     <ThemeToggle collapsed={true} position="auth-page" />
    </div>
-   <AuthCard />
+   {mfaRequired ? (
+    <div className="w-full max-w-md mx-auto bg-card shadow-lg rounded-2xl ring-1 ring-border-light p-6">
+     <MfaChallenge
+      onVerified={() => router.replace(`/${locale}/companies`)}
+      onRecovered={() => router.replace(`/${locale}/profile`)}
+     />
+    </div>
+   ) : (
+    <AuthCard />
+   )}
   </main>
  );
 }
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import { cachedApi } from '@/lib/cachedApi';
+import { useLocale } from 'next-intl';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -29,6 +31,7 @@ export default function ResetPasswordPage() {
  const [success, setSuccess] = useState(false);
  const [error, setError] = useState<string | null>(null);
  const router = useRouter();
+ const locale = useLocale();
 
  const {
   register,
@@ -61,6 +64,8 @@ export default function ResetPasswordPage() {
   if (error) {
    setError(error instanceof Error ? error.message : "Unknown error");
   } else {
+   // The notice is informational; a failure must not undo the change
+   cachedApi.notifyPasswordChanged(locale).catch(err => console.error('Password change notice failed:', err));
    setSuccess(true);
    setTimeout(() => {
     router.push('/auth?message=password-updated');
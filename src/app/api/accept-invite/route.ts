@@ -1,6 +1,7 @@
 // src/app/api/accept-invite/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { emitWebhookEvent } from '@/lib/webhooks'
 
 export async function POST(req: NextRequest) {
   const supabase = createClient(
@@ -31,7 +32,7 @@ export async function POST(req: NextRequest) {
   }
 
   // 1. Add the user to the company
-  await supabase.from('company_users').insert({
+  const { error: joinError } = await supabase.from('company_users').insert({
     company_id: invite.company_id,
     user_id: user.id,
     role: invite.role ?? 'member'
@@ -40,5 +41,18 @@ export async function POST(req: NextRequest) {
   // 2. Delete the invite
   await supabase.from('company_invites').delete().eq('token', token)
 
+  // 3. Tell the company's webhooks
+  if (!joinError) {
+    try {
+      await emitWebhookEvent(invite.company_id, 'member.joined', {
+        user_id: user.id,
+        email: user.email,
+        role: invite.role ?? 'member'
+      })
+    } catch (webhookError) {
+      console.error('Failed to emit member.joined webhook:', webhookError)
+    }
+  }
+
   return NextResponse.json({ success: true })
 }
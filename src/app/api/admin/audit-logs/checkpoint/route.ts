@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { createAuditCheckpoints } from '@/lib/audit-chain';
+
+/**
+ * GET|POST /api/admin/audit-logs/checkpoint
+ * Verifies every audit log chain that grew since its last checkpoint and exports a signed
+ * checkpoint of its head. Run hourly on a schedule with CRON_SECRET, or manually by a
+ * platform admin.
+ */
+async function handleCheckpoint(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const summary = await createAuditCheckpoints();
+
+    if (summary.checkpoints > 0 || summary.failures.length > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'audit_log_checkpoints',
+        operation: 'INSERT',
+        new_data: summary,
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'audit_checkpoints_created',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error creating audit log checkpoints:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleCheckpoint;
+export const POST = handleCheckpoint;
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isPlatformAdmin } from '@/lib/auth';
+import { extractClientInfo } from '@/lib/audit-logger';
+import { AuditChainError, GLOBAL_AUDIT_CHAIN, verifyAuditChain } from '@/lib/audit-chain';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET|POST /api/admin/audit-logs/verify?chain=global&full=true
+ * Verify any audit log hash chain: 'global' (the default) or a company id. Platform admins only.
+ */
+async function handleVerify(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isPlatformAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    const verification = await verifyAuditChain(searchParams.get('chain') || GLOBAL_AUDIT_CHAIN, {
+      full: searchParams.get('full') === 'true',
+      actor: { userId: authResult.user.id, ipAddress, userAgent },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: verification
+    });
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error verifying audit log chain:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleVerify;
+export const POST = handleVerify;
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  cancelKeyRotationJob,
+  getKeyRotationJob,
+  KeyRotationError,
+  runKeyRotationJob
+} from '@/lib/key-rotation';
+
+type RouteCtx = { params: Promise<{ jobId: string }> };
+
+// Upper bound for a single run request; callers resume by calling POST again
+const MAX_TIME_BUDGET_MS = 50000;
+
+async function requirePlatformAdmin(request: NextRequest) {
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  if (!isPlatformAdmin(authResult.user.id)) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { user: authResult.user };
+}
+
+function handleError(error: unknown, action: string) {
+  if (error instanceof KeyRotationError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+  }
+
+  console.error(`Error ${action} key rotation job:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+/**
+ * GET /api/admin/encryption/rotations/[jobId]
+ * Progress of a rotation job.
+ */
+export async function GET(request: NextRequest, { params }: RouteCtx) {
+  try {
+    const { response } = await requirePlatformAdmin(request);
+    if (response) return response;
+
+    const { jobId } = await params;
+    const job = await getKeyRotationJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    return handleError(error, 'fetching');
+  }
+}
+
+/**
+ * POST /api/admin/encryption/rotations/[jobId]
+ * Process batches until the job completes or the time budget runs out.
+ * Body: { timeBudgetMs?: number }
+ */
+export async function POST(request: NextRequest, { params }: RouteCtx) {
+  try {
+    const { user, response } = await requirePlatformAdmin(request);
+    if (response) return response;
+
+    const { jobId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const timeBudgetMs = Math.min(
+      typeof body.timeBudgetMs === 'number' ? body.timeBudgetMs : 20000,
+      MAX_TIME_BUDGET_MS
+    );
+
+    const job = await runKeyRotationJob(jobId, timeBudgetMs);
+
+    if (job.status === 'completed' || job.status === 'failed') {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'encryption_rotation_jobs',
+        operation: 'UPDATE',
+        user_id: user.id,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: `key_rotation_${job.status}`,
+          job_id: job.id,
+          target_key_version: job.targetKeyVersion,
+          reencrypted: job.reencrypted,
+          failed: job.failed
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    return handleError(error, 'running');
+  }
+}
+
+/**
+ * DELETE /api/admin/encryption/rotations/[jobId]
+ * Cancel an active job. Rows already re-encrypted stay on the new key.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteCtx) {
+  try {
+    const { user, response } = await requirePlatformAdmin(request);
+    if (response) return response;
+
+    const { jobId } = await params;
+    const job = await cancelKeyRotationJob(jobId);
+
+    await auditLogger.logAuditEvent({
+      table_name: 'encryption_rotation_jobs',
+      operation: 'UPDATE',
+      user_id: user.id,
+      metadata: {
+        action: 'key_rotation_cancelled',
+        job_id: job.id
+      }
+    });
+
+    return NextResponse.json({ success: true, data: job });
+  } catch (error) {
+    return handleError(error, 'cancelling');
+  }
+}
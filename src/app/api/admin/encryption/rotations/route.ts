@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { getEncryptionService } from '@/lib/encryption';
+import {
+  getSecretKeyVersionCounts,
+  KeyRotationError,
+  listKeyRotationJobs,
+  startKeyRotationJob
+} from '@/lib/key-rotation';
+
+/**
+ * GET /api/admin/encryption/rotations
+ * Key ring status and recent rotation jobs. Platform admins only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isPlatformAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const service = getEncryptionService();
+    const [jobs, secretsByKeyVersion] = await Promise.all([
+      listKeyRotationJobs(),
+      getSecretKeyVersionCounts()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        currentKeyVersion: service.getCurrentKeyVersion(),
+        loadedKeyVersions: service.getLoadedKeyVersions(),
+        secretsByKeyVersion,
+        jobs
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching key rotation status:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/encryption/rotations
+ * Start re-encrypting secrets and plugin data onto the newest master key.
+ * Body: { batchSize?: number }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+
+    if (!isPlatformAdmin(authResult.user.id)) {
+      await auditLogger.logUnauthorizedAccess(
+        'encryption_rotation_jobs',
+        'start key rotation',
+        authResult.user.id,
+        ipAddress,
+        userAgent
+      );
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const job = await startKeyRotationJob(
+      authResult.user.id,
+      typeof body.batchSize === 'number' ? body.batchSize : undefined
+    );
+
+    await auditLogger.logAuditEvent({
+      table_name: 'encryption_rotation_jobs',
+      operation: 'INSERT',
+      user_id: authResult.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'key_rotation_started',
+        job_id: job.id,
+        target_key_version: job.targetKeyVersion,
+        total: job.total
+      }
+    });
+
+    return NextResponse.json({ success: true, data: job }, { status: 201 });
+  } catch (error) {
+    if (error instanceof KeyRotationError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+
+    console.error('Error starting key rotation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
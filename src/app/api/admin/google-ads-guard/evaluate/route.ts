@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { runGuardEvaluations } from '@/lib/google-ads-guard';
+
+/**
+ * GET|POST /api/admin/google-ads-guard/evaluate
+ * Evaluates the metric rules of every Google Ads Guard integration whose frequency is due
+ * and opens or resolves guard alerts.
+ * Run on a schedule with CRON_SECRET, or manually by a platform admin.
+ */
+async function handleEvaluate(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const summary = await runGuardEvaluations();
+
+    if (summary.evaluated > 0 || summary.failures.length > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'guard_evaluations',
+        operation: 'INSERT',
+        new_data: summary,
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'guard_evaluated',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error evaluating guard rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleEvaluate;
+export const POST = handleEvaluate;
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { runHealthChecks } from '@/lib/integration-health';
+
+/**
+ * GET|POST /api/admin/integration-health/check
+ * Records an integration_health check for every active integration and notifies company
+ * admins about invalid, expiring or recovered credentials.
+ * Run on a schedule with CRON_SECRET, or manually by a platform admin.
+ */
+async function handleCheck(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const summary = await runHealthChecks();
+
+    if (summary.checked > 0 || summary.failures.length > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'integration_health',
+        operation: 'INSERT',
+        new_data: summary,
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'integration_health_checked',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error checking integration health:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleCheck;
+export const POST = handleCheck;
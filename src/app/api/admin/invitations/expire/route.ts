@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { expireOverdueInvitations } from '@/lib/invitations';
+
+/**
+ * GET|POST /api/admin/invitations/expire
+ * Flips past-due pending invitations to expired and deletes their notifications.
+ * Run on a schedule with CRON_SECRET, or manually by a platform admin.
+ */
+async function handleExpire(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const expired = await expireOverdueInvitations();
+
+    if (expired > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'company_invitations',
+        operation: 'UPDATE',
+        new_data: { status: 'expired', count: expired },
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'invitations_expired',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { expired }
+    });
+  } catch (error) {
+    console.error('Error expiring invitations:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleExpire;
+export const POST = handleExpire;
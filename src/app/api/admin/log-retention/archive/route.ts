@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { archiveExpiredLogs } from '@/lib/log-retention';
+
+/**
+ * GET|POST /api/admin/log-retention/archive
+ * Moves integration_logs rows past their company's retention into the log-archives bucket.
+ * Run on a schedule with CRON_SECRET, or manually by a platform admin.
+ */
+async function handleArchive(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const summary = await archiveExpiredLogs();
+
+    if (summary.archivedRows > 0 || summary.failures.length > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'integration_logs',
+        operation: 'DELETE',
+        new_data: summary,
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'integration_logs_archived',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error archiving integration logs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleArchive;
+export const POST = handleArchive;
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isCronRequest, isPlatformAdmin } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { sendNotificationDigests } from '@/lib/notifications';
+
+/**
+ * GET|POST /api/admin/notifications/digest?frequency=daily|weekly
+ * Emails every user the notifications they put in their daily or weekly digest.
+ * Run daily and weekly on a schedule with CRON_SECRET, or manually by a platform admin.
+ */
+async function handleDigest(request: NextRequest) {
+  try {
+    let userId: string | undefined;
+
+    if (!isCronRequest(request)) {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!isPlatformAdmin(authResult.user.id)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      userId = authResult.user.id;
+    }
+
+    const frequency = request.nextUrl.searchParams.get('frequency') || 'daily';
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+      return NextResponse.json({ error: 'frequency must be daily or weekly' }, { status: 400 });
+    }
+
+    const summary = await sendNotificationDigests(frequency);
+
+    if (summary.sent > 0 || summary.failures.length > 0) {
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logAuditEvent({
+        table_name: 'notifications',
+        operation: 'UPDATE',
+        new_data: summary,
+        user_id: userId,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: {
+          action: 'notification_digest_sent',
+          trigger: userId ? 'admin' : 'cron',
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error sending notification digests:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const GET = handleDigest;
+export const POST = handleDigest;
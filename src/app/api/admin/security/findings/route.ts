@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isPlatformAdmin } from '@/lib/auth';
+import { SecurityAnalyticsError, listSecurityFindings, parseFindingStatuses } from '@/lib/security-analytics';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/security/findings?status=open
+ * Security findings across the platform, including those about IP addresses that no company
+ * sees. Platform admins only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isPlatformAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const findings = await listSecurityFindings(parseFindingStatuses(request.nextUrl.searchParams.get('status')));
+
+    return NextResponse.json({
+      success: true,
+      data: findings
+    });
+  } catch (error) {
+    if (error instanceof SecurityAnalyticsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error listing security findings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
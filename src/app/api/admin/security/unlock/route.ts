@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, isPlatformAdmin } from '@/lib/auth';
+import { clearAccountRestriction } from '@/lib/security-analytics';
+
+/**
+ * POST /api/admin/security/unlock
+ * Unlock any account and lift a required re-authentication: { "userId": "..." }.
+ * Platform admins only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isPlatformAdmin(authResult.user.id)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.userId !== 'string') {
+      return NextResponse.json({ error: 'userId is required', code: 'VALIDATION_ERROR' }, { status: 400 });
+    }
+
+    await clearAccountRestriction(body.userId, authResult.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unlocking account:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -376,11 +376,30 @@ function injectMetricsHubScripts(htmlContent: string): string {
       window.METRICSHUB_CONFIG = {
         companyId: null,
         apiBaseUrl: null,
-        oauthTokens: null,
+        pluginToken: null,
         appId: null,
         ready: false
       };
 
+      // Attach the plugin token to every call to the MetricsHub plugin APIs
+      const originalFetch = window.fetch.bind(window);
+      window.fetch = function(input, init) {
+        const url = typeof input === 'string' ? input : (input && input.url) || '';
+        const config = window.METRICSHUB_CONFIG;
+        const isPluginApi = ['/api/plugins/', '/api/proxy/'].some(prefix =>
+          url.startsWith(prefix) || (config.apiBaseUrl && url.startsWith(config.apiBaseUrl + prefix)));
+
+        if (isPluginApi && config.pluginToken) {
+          const headers = new Headers((init && init.headers) || (typeof input !== 'string' && input.headers) || {});
+          if (!headers.has('Authorization')) {
+            headers.set('Authorization', 'Bearer ' + config.pluginToken);
+          }
+          return originalFetch(input, { ...(init || {}), headers });
+        }
+
+        return originalFetch(input, init);
+      };
+
       // Listen for configuration from parent
       window.addEventListener('message', function(event) {
         console.log('Received postMessage:', event.data);
@@ -398,7 +417,7 @@ function injectMetricsHubScripts(htmlContent: string): string {
           // Set legacy globals for backward compatibility
           window.COMPANY_ID = config.companyId;
           window.API_BASE_URL = config.apiBaseUrl;
-          window.OAUTH_TOKENS = config.oauthTokens;
+          window.PLUGIN_TOKEN = config.pluginToken;
 
           // Initialize MetricsHub SDK with received config
           if (window.MetricsHubSDK && window.MetricsHubSDK.MetricsHubSDK) {
@@ -408,7 +427,7 @@ function injectMetricsHubScripts(htmlContent: string): string {
                 apiKey: null, // Not needed for OAuth flow
                 companyId: config.companyId,
                 apiBaseUrl: config.apiBaseUrl,
-                oauthTokens: config.oauthTokens
+                pluginToken: config.pluginToken
               });
 
               // Create convenience globals for plugins
@@ -418,7 +437,7 @@ function injectMetricsHubScripts(htmlContent: string): string {
               console.log('✅ MetricsHub SDK initialized successfully', {
                 companyId: config.companyId,
                 apiBaseUrl: config.apiBaseUrl,
-                hasTokens: !!config.oauthTokens,
+                hasPluginToken: !!config.pluginToken,
                 sdkMethods: Object.keys(sdkInstance)
               });
             } catch (sdkError) {
@@ -436,7 +455,7 @@ function injectMetricsHubScripts(htmlContent: string): string {
             detail: config
           }));
 
-          console.log('MetricsHub config ready, tokens available:', !!config.oauthTokens);
+          console.log('MetricsHub config ready, plugin token available:', !!config.pluginToken);
         }
       });
 
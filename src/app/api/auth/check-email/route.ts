@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { withRateLimit } from '@/lib/rate-limit/limiter';
 
-export async function POST(request: NextRequest) {
+async function handleCheckEmail(request: NextRequest) {
   try {
     const { email } = await request.json();
 
@@ -39,4 +40,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Answers whether an account exists, so it is limited per IP against enumeration
+export const POST = withRateLimit('auth', handleCheckEmail);
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { sendEmail } from '@/lib/email/email-service';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { withRateLimit } from '@/lib/rate-limit/limiter';
+
+// Notify the signed-in user that their password was just changed
+async function handlePasswordChanged(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization header' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user?.email) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const locale = typeof body.locale === 'string' ? body.locale : request.headers.get('accept-language');
+    const { ipAddress, userAgent } = extractClientInfo(request);
+
+    await sendEmail({
+      template: 'password_changed',
+      to: user.email,
+      locale,
+      data: {
+        email: user.email,
+        changedAt: new Date(),
+        ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+      },
+      userId: user.id,
+    });
+
+    await auditLogger.logAuditEvent({
+      table_name: 'users',
+      operation: 'UPDATE',
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'password_changed',
+      },
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in password-changed endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to send password change notice' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePasswordChanged);
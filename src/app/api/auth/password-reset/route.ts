@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { sendEmail, emailLink } from '@/lib/email/email-service';
+import { isValidEmail } from '@/lib/invitations';
+import { checkRateLimit, rateLimitExceededResponse, withRateLimit } from '@/lib/rate-limit/limiter';
+
+// Send a localized password reset email with a Supabase recovery link
+async function handlePasswordReset(request: NextRequest) {
+  try {
+    const { email, locale: bodyLocale } = await request.json();
+
+    if (!email || typeof email !== 'string' || !isValidEmail(email.trim())) {
+      return NextResponse.json(
+        { error: 'A valid email is required', code: 'INVALID_EMAIL' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const locale = typeof bodyLocale === 'string' ? bodyLocale : request.headers.get('accept-language');
+
+    const rateLimit = await checkRateLimit('auth.password-reset', { request, email: normalizedEmail });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const { data, error } = await supabase.auth.admin.generateLink({
+      type: 'recovery',
+      email: normalizedEmail,
+      options: { redirectTo: emailLink(locale, '/auth/reset-password') },
+    });
+
+    // Unknown addresses get the same response so the endpoint can't be used to probe accounts
+    if (error || !data.properties?.action_link) {
+      console.warn('Password reset link not generated:', error?.message);
+      return NextResponse.json({ success: true });
+    }
+
+    await sendEmail({
+      template: 'password_reset',
+      to: normalizedEmail,
+      locale,
+      data: { resetUrl: data.properties.action_link },
+      userId: data.user?.id,
+    });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in password-reset endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to send password reset email' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handlePasswordReset);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { withRateLimit } from '@/lib/rate-limit/limiter';
+import { checkAccountRestriction, extractClientGeo, recentlySignedIn } from '@/lib/security-analytics';
+
+// Record a sign-in with any provider, with the client's location for impossible-travel
+// detection. Sessions of locked accounts or that must re-authenticate are refused, and the
+// client signs them out.
+async function handleSessionStarted(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Missing authorization header' }, { status: 401 });
+    }
+
+    const token = authHeader.split(' ')[1];
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const restriction = await checkAccountRestriction(user.id, user.last_sign_in_at);
+    if (restriction) {
+      return NextResponse.json(
+        { error: restriction.message, code: restriction.code, lockedUntil: restriction.lockedUntil },
+        { status: restriction.code === 'ACCOUNT_LOCKED' ? 423 : 401 }
+      );
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+
+    // Supabase reports SIGNED_IN again when a tab regains focus; count each sign-in once
+    if (!(await recentlySignedIn(user.id, ipAddress))) {
+      await auditLogger.logAuthEvent('LOGIN', user.id, user.email, ipAddress, userAgent, undefined, extractClientGeo(request));
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Error in session-started endpoint:', error);
+    return NextResponse.json(
+      { error: 'Failed to record sign-in' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handleSessionStarted);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { isValidEmail } from '@/lib/invitations';
+import { withRateLimit } from '@/lib/rate-limit/limiter';
+import { AccountRestriction, checkEmailLocked } from '@/lib/security-analytics';
+
+function accountLockedResponse(restriction: AccountRestriction) {
+  return NextResponse.json(
+    { error: restriction.message, code: restriction.code, lockedUntil: restriction.lockedUntil },
+    { status: 423 }
+  );
+}
+
+// Password sign-in runs on the server, so every failed attempt reaches the brute-force
+// detection and locked accounts are refused before Supabase issues a session
+async function handleSignIn(request: NextRequest) {
+  try {
+    const { email, password } = await request.json().catch(() => ({}));
+
+    if (!email || typeof email !== 'string' || !isValidEmail(email.trim()) || !password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Email and password are required', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const { ipAddress, userAgent } = extractClientInfo(request);
+
+    const locked = await checkEmailLocked(normalizedEmail);
+    if (locked) {
+      return accountLockedResponse(locked);
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: normalizedEmail,
+      password,
+    });
+
+    if (error || !data.session) {
+      await auditLogger.logAuthEvent('AUTH_FAILURE', undefined, normalizedEmail, ipAddress, userAgent, error?.message);
+
+      // This attempt may have been the one that locked the account
+      const lockedNow = await checkEmailLocked(normalizedEmail);
+      if (lockedNow) {
+        return accountLockedResponse(lockedNow);
+      }
+
+      return NextResponse.json(
+        { error: error?.message || 'Sign in failed', code: 'SIGN_IN_FAILED' },
+        { status: 401 }
+      );
+    }
+
+    // The client stores the session; the sign-in itself is recorded by /api/auth/session-started
+    return NextResponse.json({
+      success: true,
+      data: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in sign-in endpoint:', error);
+    return NextResponse.json(
+      { error: 'Sign in failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('auth', handleSignIn);
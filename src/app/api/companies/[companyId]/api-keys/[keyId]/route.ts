@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { API_KEY_CREATOR_PERMISSION, ApiKeyError, revokeApiKey } from '@/lib/api-keys';
+
+type RouteCtx = { params: Promise<{ companyId: string; keyId: string }> };
+
+// Revoke a key; the row is kept so its use stays traceable
+async function handleRevokeApiKey(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { keyId } = await routeContext.params;
+    const apiKey = await revokeApiKey(context.company.id, keyId, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_api_keys',
+      operation: 'UPDATE',
+      new_data: {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        revoked_at: apiKey.revoked_at,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'api_key_revoked',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { apiKey },
+    });
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to revoke API key:', error);
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+  }
+}
+
+export const DELETE = withCompanyAuth(handleRevokeApiKey, { permission: API_KEY_CREATOR_PERMISSION });
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  API_KEY_CREATOR_PERMISSION,
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  ApiKeyError,
+  createApiKey,
+  listApiKeys,
+} from '@/lib/api-keys';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ApiKeyError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Keys of the company, including revoked and expired ones, and the scopes a key can hold
+async function handleListApiKeys(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const keys = await listApiKeys(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        keys,
+        scopes: API_KEY_SCOPES.map(scope => ({ scope, description: API_KEY_SCOPE_DESCRIPTIONS[scope] })),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load API keys');
+  }
+}
+
+// Create a key, e.g. { "name": "BI export", "scopes": ["runs:read"], "expiresInDays": 90 }.
+// The response carries the full key, which is not shown again.
+async function handleCreateApiKey(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { apiKey, key } = await createApiKey(context.company.id, context.user.id, {
+      name: body.name,
+      scopes: body.scopes,
+      expiresInDays: body.expiresInDays ?? null,
+    });
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_api_keys',
+      operation: 'INSERT',
+      new_data: {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expires_at: apiKey.expires_at,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'api_key_created',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { apiKey, key },
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create API key');
+  }
+}
+
+export const GET = withCompanyAuth(handleListApiKeys, { permission: API_KEY_CREATOR_PERMISSION });
+export const POST = withCompanyAuth(handleCreateApiKey, { permission: API_KEY_CREATOR_PERMISSION });
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  GuardError,
+  MAX_ALERTS_PAGE_SIZE,
+  evaluateGuard,
+  listGuardAlerts,
+} from '@/lib/google-ads-guard';
+
+type RouteCtx = { params: Promise<{ companyId: string; appId: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof GuardError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Alert history, e.g. ?status=open&limit=25&offset=0
+async function handleListAlerts(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { appId } = await routeContext.params;
+    const { searchParams } = request.nextUrl;
+
+    const status = searchParams.get('status') as 'open' | 'resolved' | null;
+    if (status && status !== 'open' && status !== 'resolved') {
+      return NextResponse.json({ error: 'status must be open or resolved' }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), MAX_ALERTS_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const result = await listGuardAlerts(context.company.id, appId, {
+      ...(status && { status }),
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load guard alerts');
+  }
+}
+
+// Evaluate the Guard rules now instead of waiting for the scheduled run
+async function handleEvaluate(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { appId } = await routeContext.params;
+    const result = await evaluateGuard(context.company.id, appId);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'guard_evaluations',
+      operation: 'INSERT',
+      new_data: {
+        evaluation_id: result.evaluationId,
+        opened: result.openedAlertIds.length,
+        resolved: result.resolvedAlertIds.length,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'guard_evaluated',
+        company_id: context.company.id,
+        application_id: appId,
+        trigger: 'manual',
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to evaluate guard rules');
+  }
+}
+
+export const GET = withCompanyAuth(handleListAlerts, { permission: 'logs.read' });
+export const POST = withCompanyAuth(handleEvaluate, { permission: 'integrations.configure' });
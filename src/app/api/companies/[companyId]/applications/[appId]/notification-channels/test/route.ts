@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { ChannelDeliveryError, sendTestNotification } from '@/lib/notification-channels/delivery';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from '@/lib/notification-channels/validation';
+
+type RouteCtx = { params: Promise<{ companyId: string; appId: string }> };
+
+// Send a test message to one channel, e.g. { "channel": "slack", "target": "https://hooks.slack.com/..." }.
+// Without a target the saved one is used, so unsaved form values can be tried first.
+async function handleSendTest(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { appId } = await routeContext.params;
+    const body = await request.json().catch(() => ({}));
+
+    const channel = body.channel as NotificationChannel;
+    if (!NOTIFICATION_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: `channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (body.target !== undefined && typeof body.target !== 'string') {
+      return NextResponse.json({ error: 'target must be a string' }, { status: 400 });
+    }
+
+    const result = await sendTestNotification(context.company.id, appId, channel, body.target, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'notification_deliveries',
+      operation: 'INSERT',
+      new_data: {
+        channel: result.channel,
+        target: result.target,
+        status: result.status,
+        attempts: result.attempts,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'notification_test_sent',
+        company_id: context.company.id,
+        application_id: appId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ChannelDeliveryError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to send test notification:', error);
+    return NextResponse.json({ error: 'Failed to send test notification' }, { status: 500 });
+  }
+}
+
+export const POST = withCompanyAuth(handleSendTest, { permission: 'integrations.configure' });
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import {
+  ChannelDeliveryError,
+  MAX_DELIVERIES_PAGE_SIZE,
+  listNotificationDeliveries,
+} from '@/lib/notification-channels/delivery';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from '@/lib/notification-channels/validation';
+
+type RouteCtx = { params: Promise<{ companyId: string; appId: string }> };
+
+// Delivery log, e.g. ?channel=slack&limit=25&offset=0
+async function handleListDeliveries(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { appId } = await routeContext.params;
+    const { searchParams } = request.nextUrl;
+
+    const channel = searchParams.get('channel') as NotificationChannel | null;
+    if (channel && !NOTIFICATION_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: `channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), MAX_DELIVERIES_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const result = await listNotificationDeliveries(context.company.id, appId, {
+      ...(channel && { channel }),
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ChannelDeliveryError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to load notification deliveries:', error);
+    return NextResponse.json({ error: 'Failed to load notification deliveries' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleListDeliveries, { permission: 'logs.read' });
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { extractGoogleScopes, mintPluginToken } from '@/lib/plugin-tokens';
+
+// Mint a short-lived plugin token for an installed iframe application
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string; appId: string }> }
+) {
+  try {
+    const { companyId, appId } = await params;
+
+    // Authenticate request
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    // Check company permission
+    const permissionResult = await checkCompanyPermission(authResult.user, companyId);
+    if (!permissionResult.hasPermission) {
+      return NextResponse.json(
+        { error: permissionResult.error || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createSupabaseServiceClient();
+
+    const { data: installation, error } = await supabase
+      .from('company_applications')
+      .select(`
+        id,
+        company_id,
+        is_active,
+        application:applications(
+          id,
+          permissions:application_permissions(permission_name)
+        )
+      `)
+      .eq('company_id', companyId)
+      .eq('application_id', appId)
+      .single();
+
+    if (error || !installation || !installation.is_active) {
+      return NextResponse.json(
+        { error: 'Application not installed for this company' },
+        { status: 404 }
+      );
+    }
+
+    const application = installation.application as unknown as {
+      id: string;
+      permissions: Array<{ permission_name: string }> | null;
+    } | null;
+
+    const scopes = extractGoogleScopes(
+      (application?.permissions || []).map(permission => permission.permission_name)
+    );
+
+    const { token, expiresAt } = mintPluginToken({
+      companyApplicationId: installation.id,
+      companyId,
+      userId: authResult.user.id,
+      scopes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token,
+        expiresAt,
+        scopes,
+      },
+    });
+
+  } catch (error) {
+    console.error('Plugin token API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
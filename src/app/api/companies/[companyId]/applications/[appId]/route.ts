@@ -1,5 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { checkCompanyAccess } from '@/lib/auth';
+import { getSessionMfaState } from '@/lib/mfa';
+import type { Permission } from '@/lib/permissions';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+// Resolve the signed-in user and check a company permission
+async function authorize(
+  supabase: Awaited<ReturnType<typeof createSupabaseServerClient>>,
+  companyId: string,
+  permission: Permission
+): Promise<NextResponse | null> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json(
+      { error: 'Authentication required' }, 
+      { status: 401 }
+    );
+  }
+
+  const { hasPermission, error } = await checkCompanyAccess(
+    { id: user.id, mfa: await getSessionMfaState(supabase, user) },
+    companyId,
+    permission
+  );
+  if (!hasPermission) {
+    return NextResponse.json(
+      { error: error || 'Access denied' }, 
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
 
 // Get specific installed application details
 export async function GET(
@@ -63,6 +96,9 @@ export async function PUT(
 
     const supabase = await createSupabaseServerClient();
 
+    const denied = await authorize(supabase, companyId, 'integrations.configure');
+    if (denied) return denied;
+
     const updateData: any = {};
     if (configuration !== undefined) updateData.configuration = configuration;
     if (settings !== undefined) updateData.settings = settings;
@@ -125,6 +161,9 @@ export async function DELETE(
 
     const supabase = await createSupabaseServerClient();
 
+    const denied = await authorize(supabase, companyId, 'integrations.install');
+    if (denied) return denied;
+
     // Get application name before deletion
     const { data: appInfo } = await supabase
       .from('company_applications')
@@ -151,6 +190,15 @@ export async function DELETE(
 
     const appName = (appInfo?.application as any)?.name || 'Application';
 
+    try {
+      await emitWebhookEvent(companyId, 'app.uninstalled', {
+        application_id: appId,
+        application_name: appName,
+      });
+    } catch (webhookError) {
+      console.error('Failed to emit app.uninstalled webhook:', webhookError);
+    }
+
     return NextResponse.json({
       success: true,
       message: `${appName} uninstalled successfully`
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
+import { getSecretRequirements } from '@/lib/secrets';
+
+interface RouteParams {
+  companyId: string;
+  appId: string;
+}
+
+// Status of each secret the application declares in required_secrets
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) {
+  try {
+    const { companyId, appId } = await params;
+
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { hasPermission, error: permissionError } = await checkCompanyPermission(
+      authResult.user,
+      companyId
+    );
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: permissionError || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const requirements = await getSecretRequirements(companyId, appId);
+
+    return NextResponse.json({
+      success: true,
+      data: requirements
+    });
+
+  } catch (error) {
+    console.error('Secret requirements API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: error instanceof Error && error.message === 'Application not found' ? 404 : 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import { validateChannelSettings } from '@/lib/notification-channels/validation';
+import { validateChannelHosts } from '@/lib/notification-channels/delivery';
+import { checkCompanyMfaRequirement, getSessionMfaState } from '@/lib/mfa';
 
 interface RouteParams {
   companyId: string;
@@ -28,6 +32,18 @@ export async function PUT(
       );
     }
 
+    // Notification targets are checked before anything is stored
+    let channelErrors = settings.notifications ? validateChannelSettings(settings.notifications) : {};
+    if (Object.keys(channelErrors).length === 0 && settings.notifications) {
+      channelErrors = await validateChannelHosts(settings.notifications);
+    }
+    if (Object.keys(channelErrors).length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid notification channel settings', details: channelErrors },
+        { status: 400 }
+      );
+    }
+
     const supabase = await createSupabaseServerClient();
 
     // Get the current user
@@ -39,6 +55,12 @@ export async function PUT(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Verify user has access to this company
     const { data: companyUser, error: companyError } = await supabase
       .from('company_users')
@@ -54,9 +76,9 @@ export async function PUT(
       );
     }
 
-    // Check if user has permission to update settings (admin, superadmin, or owner)
-    const allowedRoles = ['admin', 'superadmin', 'owner'];
-    if (!allowedRoles.includes(companyUser.role)) {
+    // Check if user's role grants integrations.configure
+    const permissions = await getCompanyPermissionsForRole(companyId, companyUser.role);
+    if (!permissions.includes('integrations.configure')) {
       return NextResponse.json(
         { success: false, error: 'Insufficient permissions to update settings' },
         { status: 403 }
@@ -68,6 +90,8 @@ export async function PUT(
       .from('company_applications')
       .update({
         settings: settings,
+        // The channel dispatcher reads notification_channels
+        ...(settings.notifications && { notification_channels: settings.notifications }),
         updated_at: new Date().toISOString()
       })
       .eq('company_id', companyId)
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
+import { authenticateRequest, checkCompanyAccess, checkCompanyPermission } from '@/lib/auth';
 import { createServerClient } from '@supabase/ssr';
+import { getUnmetSecretRequirements } from '@/lib/secrets';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 // Get installed applications for a company
 export async function GET(
@@ -22,7 +24,7 @@ export async function GET(
     }
 
     // Check company permission
-    const permissionResult = await checkCompanyPermission(authResult.user!.id, companyId);
+    const permissionResult = await checkCompanyPermission(authResult.user, companyId);
     if (!permissionResult.hasPermission) {
       return NextResponse.json(
         { error: permissionResult.error || 'Access denied' },
@@ -147,11 +149,11 @@ export async function POST(
       );
     }
 
-    // Check company permission (require admin role for installations)
-    const permissionResult = await checkCompanyPermission(
-      authResult.user.id, 
+    // Check company permission (installations require integrations.install)
+    const permissionResult = await checkCompanyAccess(
+      authResult.user, 
       companyId, 
-      ['admin', 'owner', 'superadmin']
+      'integrations.install'
     );
     if (!permissionResult.hasPermission) {
       return NextResponse.json(
@@ -287,10 +289,27 @@ export async function POST(
 
     // Note: download_count column was removed from database
 
+    try {
+      await emitWebhookEvent(companyId, 'app.installed', {
+        application_id: applicationId,
+        application_name: application.name,
+        application_type: application.type,
+        installed_by: authResult.user.id,
+      });
+    } catch (webhookError) {
+      console.error('Failed to emit app.installed webhook:', webhookError);
+    }
+
+    // Server-side integrations cannot run until their required secrets are granted
+    const missingSecrets = (await getUnmetSecretRequirements(companyId, applicationId)).map(r => r.key);
+
     return NextResponse.json({
       success: true,
-      message: `${application.name} installed successfully`,
-      data: installation
+      message: missingSecrets.length > 0
+        ? `${application.name} installed successfully. Add these secrets before running it: ${missingSecrets.join(', ')}`
+        : `${application.name} installed successfully`,
+      data: installation,
+      missingSecrets
     });
 
   } catch (error) {
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  AUDIT_EXPORT_SIGNATURE_HEADER,
+  AuditLogError,
+  auditExportFilename,
+  buildAuditLogCsv,
+  parseAuditLogQuery,
+  signAuditExport,
+} from '@/lib/audit-logs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/companies/[companyId]/audit-logs/export
+ * The filtered audit log as a signed CSV. The signature is returned in the
+ * X-MetricsHub-Export-Signature header and can be checked with POST .../export/verify.
+ * Every export is itself recorded as a DATA_EXPORT security event.
+ */
+async function handleExportAuditLogs(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { filters } = parseAuditLogQuery(request.nextUrl.searchParams);
+    const { csv, rowCount, truncated } = await buildAuditLogCsv(context.company.id, filters);
+    const signature = signAuditExport(context.company.id, csv);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logDataExport(context.user.id, 'audit_logs', rowCount, 'csv', ipAddress, userAgent, {
+      company_id: context.company.id,
+      filters,
+      truncated,
+    });
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${auditExportFilename()}"`,
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+        [AUDIT_EXPORT_SIGNATURE_HEADER]: signature,
+        'X-Export-Row-Count': String(rowCount),
+        'X-Export-Truncated': String(truncated),
+        'Access-Control-Expose-Headers': `${AUDIT_EXPORT_SIGNATURE_HEADER}, X-Export-Row-Count, X-Export-Truncated`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuditLogError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to export audit log:', error);
+    return NextResponse.json({ error: 'Failed to export audit log' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleExportAuditLogs, { permission: 'audit.read' });
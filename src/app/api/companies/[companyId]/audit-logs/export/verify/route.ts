@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { AuditLogError, verifyAuditExport } from '@/lib/audit-logs';
+
+/**
+ * POST /api/companies/[companyId]/audit-logs/export/verify
+ * Check an exported CSV against its signature: { "csv": "...", "signature": "t=...,v1=..." }.
+ * The file must be byte-for-byte what was downloaded.
+ */
+async function handleVerifyAuditExport(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.csv !== 'string' || typeof body.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'csv and signature are required', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const result = verifyAuditExport(context.company.id, body.csv, body.signature);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof AuditLogError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to verify audit log export:', error);
+    return NextResponse.json({ error: 'Failed to verify audit log export' }, { status: 500 });
+  }
+}
+
+export const POST = withCompanyAuth(handleVerifyAuditExport, { permission: 'audit.read' });
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import {
+  AUDIT_OPERATIONS,
+  AuditLogError,
+  SECURITY_SEVERITIES,
+  listAuditLogs,
+  parseAuditLogQuery,
+} from '@/lib/audit-logs';
+
+/**
+ * GET /api/companies/[companyId]/audit-logs
+ * The company audit log, newest first, with a field-level diff per entry.
+ * Filters: ?actor (user id or email) &operation &table &action &severity &dateFrom &dateTo
+ * &limit &offset
+ */
+async function handleListAuditLogs(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { filters, limit, offset } = parseAuditLogQuery(request.nextUrl.searchParams);
+    const { logs, total } = await listAuditLogs(context.company.id, filters, { limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        logs,
+        pagination: {
+          limit,
+          offset,
+          total,
+          hasMore: offset + logs.length < total,
+        },
+        filters,
+        operations: AUDIT_OPERATIONS,
+        severities: SECURITY_SEVERITIES,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuditLogError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to load audit log:', error);
+    return NextResponse.json({ error: 'Failed to load audit log' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleListAuditLogs, { permission: 'audit.read' });
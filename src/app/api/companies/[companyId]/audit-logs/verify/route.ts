@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { extractClientInfo } from '@/lib/audit-logger';
+import { AuditChainError, listAuditCheckpoints, verifyAuditChain } from '@/lib/audit-chain';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET|POST /api/companies/[companyId]/audit-logs/verify?full=true
+ * Verify the company's audit log hash chain from its latest signed checkpoint, or from the
+ * first entry with full=true. A broken chain is reported in data.brokenAt and raises a
+ * CRITICAL security event.
+ */
+async function handleVerifyAuditChain(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    const verification = await verifyAuditChain(context.company.id, {
+      full: request.nextUrl.searchParams.get('full') === 'true',
+      actor: { userId: context.user.id, ipAddress, userAgent },
+    });
+    const checkpoints = await listAuditCheckpoints(context.company.id, 5);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...verification,
+        checkpoints,
+      },
+    });
+  } catch (error) {
+    if (error instanceof AuditChainError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to verify audit log chain:', error);
+    return NextResponse.json({ error: 'Failed to verify audit log chain' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleVerifyAuditChain, { permission: 'audit.read' });
+export const POST = withCompanyAuth(handleVerifyAuditChain, { permission: 'audit.read' });
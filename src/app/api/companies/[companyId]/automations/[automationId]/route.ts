@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { checkCompanyMfaRequirement, getSessionMfaState } from '@/lib/mfa';
 
 interface RouteParams {
   companyId: string;
@@ -15,6 +16,20 @@ export async function GET(
     const { companyId, automationId } = await params;
     const supabase = await createSupabaseServerClient();
 
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' }, 
+        { status: 401 }
+      );
+    }
+
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     const { data: companyAutomation, error } = await supabase
       .from('company_automations')
       .select(`
@@ -85,6 +100,12 @@ export async function PUT(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Verify user has access to this company
     const { data: companyUser, error: companyError } = await supabase
       .from('company_users')
@@ -196,6 +217,20 @@ export async function DELETE(
     const { companyId, automationId } = await params;
     const supabase = await createSupabaseServerClient();
 
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' }, 
+        { status: 401 }
+      );
+    }
+
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Get automation name before deletion
     const { data: automationInfo } = await supabase
       .from('company_automations')
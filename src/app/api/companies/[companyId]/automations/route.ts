@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { checkCompanyMfaRequirement, getSessionMfaState } from '@/lib/mfa';
 
 // Get company's automations
 export async function GET(
@@ -19,6 +20,12 @@ export async function GET(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     const { data: companyAutomations, error } = await supabase
       .from('company_automations')
       .select(`
@@ -90,6 +97,12 @@ export async function POST(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Check if automation exists and is active
     const { data: automation, error: automationError } = await supabase
       .from('automations')
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabaseServer';
 import { auditLogger } from '@/lib/audit-logger';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import { checkCompanyMfaRequirement, getSessionMfaState } from '@/lib/mfa';
 
 // Get company's connected services
 export async function GET(
@@ -20,6 +22,12 @@ export async function GET(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     const { data: companyConnections, error } = await supabase
       .from('company_connections')
       .select(`
@@ -104,6 +112,12 @@ export async function POST(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Check if connection exists and is active
     const { data: connection, error: connectionError } = await supabase
       .from('connections')
@@ -209,6 +223,12 @@ export async function DELETE(
         { status: 401 }
       );
     }
+
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
     
     console.log('[CONNECTIONS-DELETE] User attempting delete:', { 
       userId: user.id, 
@@ -229,10 +249,11 @@ export async function DELETE(
       error: roleError?.message || 'none' 
     });
 
-    // Check if user has permission to delete connections (admin or owner)
-    if (!userRole || !['admin', 'owner'].includes(userRole.role)) {
+    // Check if user's role grants integrations.configure
+    const permissions = userRole ? await getCompanyPermissionsForRole(companyId, userRole.role) : [];
+    if (!permissions.includes('integrations.configure')) {
       return NextResponse.json(
-        { error: 'Insufficient permissions. Admin or owner role required.' }, 
+        { error: 'Insufficient permissions. The integrations.configure permission is required.' }, 
         { status: 403 }
       );
     }
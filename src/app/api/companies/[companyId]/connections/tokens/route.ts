@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
 import { decryptOAuthTokens } from '@/lib/encryption';
+import { refreshOAuthTokens } from '@/lib/oauth-tokens';
+import { checkCompanyMfaRequirement, getSessionMfaState } from '@/lib/mfa';
 
 // Get OAuth tokens for a specific connection
 export async function GET(
@@ -30,6 +32,12 @@ export async function GET(
       );
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, await getSessionMfaState(supabase, user));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Find the connection and company connection
     const { data: companyConnection, error } = await supabase
       .from('company_connections')
@@ -79,7 +87,7 @@ export async function GET(
     // Decrypt the tokens
     let tokens;
     try {
-      tokens = decryptOAuthTokens(secret.encrypted_value);
+      tokens = await decryptOAuthTokens(companyId, secret.encrypted_value);
     } catch (decryptError) {
       console.error('Token decryption failed:', decryptError);
       return NextResponse.json(
@@ -94,31 +102,15 @@ export async function GET(
     const isExpired = expiresAt && now >= expiresAt;
 
     if (isExpired && tokens.refresh_token) {
-      // Try to refresh the tokens
-      try {
-        const refreshResponse = await refreshGoogleTokens(tokens.refresh_token);
-        if (refreshResponse.success) {
-          tokens = refreshResponse.tokens;
-          
-          // Store the new tokens
-          const { encryptOAuthTokens } = await import('@/lib/encryption');
-          const newEncryptedTokens = encryptOAuthTokens(tokens);
-          
-          await supabase
-            .from('secrets')
-            .update({
-              encrypted_value: newEncryptedTokens,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', secretId);
-        }
-      } catch (refreshError) {
-        console.error('Token refresh failed:', refreshError);
+      // Refresh through the provider's token endpoint; the new tokens are stored by the helper
+      const refreshed = await refreshOAuthTokens(companyId, connectionKey, tokens.refresh_token);
+      if (!refreshed) {
         return NextResponse.json(
           { error: 'Tokens expired and refresh failed' }, 
           { status: 401 }
         );
       }
+      tokens = refreshed;
     }
 
     // Update last sync time
@@ -157,35 +149,3 @@ export async function GET(
     );
   }
 }
-
-// Helper function to refresh Google tokens
-async function refreshGoogleTokens(refreshToken: string) {
-  const response = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      client_id: process.env.GOOGLE_CLIENT_ID!,
-      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-      refresh_token: refreshToken,
-      grant_type: 'refresh_token',
-    }),
-  });
-
-  const data = await response.json();
-
-  if (!response.ok) {
-    throw new Error(`Token refresh failed: ${data.error}`);
-  }
-
-  return {
-    success: true,
-    tokens: {
-      access_token: data.access_token,
-      refresh_token: refreshToken, // Keep the existing refresh token
-      expires_at: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined,
-      scope: data.scope,
-    }
-  };
-}
\ No newline at end of file
@@ -6,7 +6,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createAuthenticatedClient } from '@/lib/auth';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { countRunsSince } from '@/lib/dashboard-stats';
 
 interface DashboardStats {
   activeIntegrations: number;
@@ -35,30 +37,14 @@ interface DashboardResponse {
   error?: string;
 }
 
-export async function GET(
+// Members with logs.read, or an API key with the stats:read scope
+async function handleGetDashboardStats(
   request: NextRequest,
-  { params }: { params: Promise<{ companyId: string }> }
+  context: CompanyAuthContext
 ): Promise<NextResponse<DashboardResponse>> {
   try {
-    const { companyId } = await params;
-
-    // Create authenticated client with automatic auth and permission checking
-    const { supabase, user } = await createAuthenticatedClient(request);
-
-    // Verify user has permission for this company
-    const { data: companyUser, error: permissionError } = await supabase
-      .from('company_users')
-      .select('role')
-      .eq('user_id', user.id)
-      .eq('company_id', companyId)
-      .single();
-
-    if (permissionError || !companyUser) {
-      return NextResponse.json(
-        { success: false, error: 'Company access denied' },
-        { status: 403 }
-      );
-    }
+    const companyId = context.company.id;
+    const supabase = createSupabaseServiceClient();
 
     // Get active integrations count
     const { data: companyApps, error: appsError } = await supabase
@@ -80,7 +66,10 @@ export async function GET(
     // Calculate time range for 24h statistics
     const last24Hours = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
 
-    // Get integration logs for last 24 hours
+    // Job counters are aggregated in SQL over execution_runs
+    const runStats = await countRunsSince(companyId, new Date(last24Hours));
+
+    // Recent integration logs feed the activity list only
     const { data: recentLogs, error: logsError } = await supabase
       .from('integration_logs')
       .select(`
@@ -96,7 +85,7 @@ export async function GET(
       .eq('company_id', companyId)
       .gte('logged_at', last24Hours)
       .order('logged_at', { ascending: false })
-      .limit(200);
+      .limit(100);
 
     if (logsError) {
       console.error('Error fetching integration logs:', logsError);
@@ -106,26 +95,12 @@ export async function GET(
       );
     }
 
-    // Calculate job statistics
-    const jobStartupLogs = recentLogs?.filter(log => log.log_category === 'integration_startup') || [];
-    const totalJobsLast24h = jobStartupLogs.length;
-
-    const errorLogs = recentLogs?.filter(log =>
-      log.log_level === 'error' || log.log_level === 'fatal'
-    ) || [];
-    const errorJobsLast24h = errorLogs.length;
-
-    const successLogs = recentLogs?.filter(log =>
-      log.log_category === 'integration_results' && log.log_level === 'info'
-    ) || [];
-    const successJobsLast24h = successLogs.length;
-
     // Build stats object
     const stats: DashboardStats = {
       activeIntegrations,
-      totalJobsLast24h,
-      errorJobsLast24h,
-      successJobsLast24h,
+      totalJobsLast24h: runStats.totalRuns,
+      errorJobsLast24h: runStats.failedRuns,
+      successJobsLast24h: runStats.successRuns,
       lastUpdated: new Date().toISOString()
     };
 
@@ -143,14 +118,6 @@ export async function GET(
   } catch (error) {
     console.error('Dashboard stats API error:', error);
 
-    // Handle authentication errors specifically
-    if (error instanceof Error && error.message.includes('Authentication failed')) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
     return NextResponse.json(
       {
         success: false,
@@ -161,6 +128,8 @@ export async function GET(
   }
 }
 
+export const GET = withCompanyAuth(handleGetDashboardStats, { permission: 'logs.read', apiKeyScope: 'stats:read' });
+
 /**
  * Transform integration logs into dashboard activity items
  */
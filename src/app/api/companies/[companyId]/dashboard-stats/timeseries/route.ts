@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { DashboardStatsError, getDashboardTimeSeries, parseStatsQuery } from '@/lib/dashboard-stats';
+
+// Run and log time-series for ?window=24h|7d|30d|90d with an optional ?bucket=1h|6h|1d|7d
+async function handleTimeSeries(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const query = parseStatsQuery(request.nextUrl.searchParams);
+    const stats = await getDashboardTimeSeries(context.company.id, query);
+
+    return NextResponse.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    if (error instanceof DashboardStatsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Dashboard time-series error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load dashboard statistics' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleTimeSeries, { permission: 'logs.read', apiKeyScope: 'stats:read' });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  DEFAULT_TIMELINE_DAYS,
+  IntegrationHealthError,
+  checkIntegrationHealth,
+  getHealthTimeline,
+} from '@/lib/integration-health';
+
+type RouteCtx = { params: Promise<{ companyId: string; companyApplicationId: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof IntegrationHealthError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Health checks of one integration, e.g. ?days=7
+async function handleGetTimeline(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { companyApplicationId } = await routeContext.params;
+    const days = Number(request.nextUrl.searchParams.get('days') || DEFAULT_TIMELINE_DAYS);
+    const checks = await getHealthTimeline(context.company.id, companyApplicationId, days);
+
+    return NextResponse.json({
+      success: true,
+      data: { days, checks },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load integration health timeline');
+  }
+}
+
+// Run a health check now instead of waiting for the scheduled one
+async function handleRunCheck(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { companyApplicationId } = await routeContext.params;
+    const check = await checkIntegrationHealth(context.company.id, companyApplicationId);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'integration_health',
+      operation: 'INSERT',
+      new_data: check,
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'integration_health_checked',
+        company_id: context.company.id,
+        trigger: 'manual',
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: check,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to check integration health');
+  }
+}
+
+export const GET = withCompanyAuth(handleGetTimeline, { permission: 'logs.read' });
+export const POST = withCompanyAuth(handleRunCheck, { permission: 'integrations.configure' });
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { getLatestHealth } from '@/lib/integration-health';
+
+// Most recent health check of every integration of the company
+async function handleGetHealth(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const checks = await getLatestHealth(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { checks },
+    });
+  } catch (error) {
+    console.error('Failed to load integration health:', error);
+    return NextResponse.json({ error: 'Failed to load integration health' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleGetHealth, { permission: 'logs.read' });
@@ -0,0 +1,97 @@
+/**
+ * Integration Logs Export API
+ *
+ * Downloads the filtered integration_logs result set as CSV, NDJSON or Parquet. The body is
+ * streamed batch by batch, and every export is recorded as a DATA_EXPORT security event
+ * with its row count and filters once the download ends. Exports that run long enough for
+ * the user to have switched away also leave an export_ready notification.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyAccess } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  createLogExportStream,
+  LOG_EXPORT_CONTENT_TYPES,
+  LogExportError,
+  logExportFilename,
+  parseLogExportQuery,
+} from '@/lib/log-export';
+import { notifyUsers } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+
+/** Exports taking longer than this notify the user when they finish */
+const EXPORT_READY_NOTIFY_MS = 30 * 1000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  const { companyId } = await params;
+
+  // Validate authentication
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+  const userId = authResult.user.id;
+
+  // Check company permission
+  const permissionCheck = await checkCompanyAccess(authResult.user, companyId, 'logs.read');
+  if (!permissionCheck.hasPermission) {
+    return NextResponse.json(
+      { success: false, error: permissionCheck.error || 'Company access denied' },
+      { status: 403 }
+    );
+  }
+
+  let query: ReturnType<typeof parseLogExportQuery>;
+  try {
+    query = parseLogExportQuery(request.nextUrl.searchParams);
+  } catch (error) {
+    if (error instanceof LogExportError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+    throw error;
+  }
+
+  const { format, filters } = query;
+  const { ipAddress, userAgent } = extractClientInfo(request);
+
+  const startedAt = Date.now();
+  const body = createLogExportStream(companyId, filters, format, async ({ rowCount, completed }) => {
+    await auditLogger.logDataExport(userId, 'integration_logs', rowCount, format, ipAddress, userAgent, {
+      company_id: companyId,
+      filters,
+      completed,
+    });
+
+    if (completed && Date.now() - startedAt > EXPORT_READY_NOTIFY_MS) {
+      await notifyUsers({
+        userIds: [userId],
+        companyId,
+        type: 'export_ready',
+        title: 'Log export finished',
+        message: `Your ${format.toUpperCase()} export of ${rowCount.toLocaleString('en-US')} integration logs has finished downloading.`,
+        data: { format, rowCount },
+        actionUrl: `/companies/${companyId}/integrations`,
+      });
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': LOG_EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${logExportFilename(format)}"`,
+      'Cache-Control': 'no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -7,7 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabaseClient';
-import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
+import { authenticateRequest, checkCompanyAccess } from '@/lib/auth';
+import { authenticateApiKey, isApiKeyRequest } from '@/lib/api-keys';
+import { RateLimitResult, applyRateLimitHeaders, rateLimitHeaders } from '@/lib/rate-limit/limiter';
 
 interface IntegrationLog {
   id: string;
@@ -25,6 +27,7 @@ interface IntegrationLog {
   memory_usage_mb?: number;
   metadata?: Record<string, any>;
   execution_run_id?: string;
+  company_application_id?: string;
 }
 
 interface LogsQuery {
@@ -38,6 +41,7 @@ interface LogsQuery {
   limit?: number;
   offset?: number;
   executionRunId?: string;
+  companyApplicationId?: string;
   containerId?: string;
 }
 
@@ -49,13 +53,34 @@ export async function GET(
     const { companyId } = await params;
     const { searchParams } = new URL(request.url);
 
-    // Validate authentication
-    const authResult = await authenticateRequest(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { success: false, error: 'Authentication required' },
-        { status: 401 }
-      );
+    // Validate authentication; company API keys need the logs:read scope
+    let rateLimit: RateLimitResult | undefined;
+    if (isApiKeyRequest(request)) {
+      const keyResult = await authenticateApiKey(request, companyId, 'logs:read');
+      if (!keyResult.success) {
+        return NextResponse.json(
+          { success: false, error: keyResult.error, code: keyResult.code },
+          { status: keyResult.statusCode ?? 401, headers: keyResult.rateLimit && rateLimitHeaders(keyResult.rateLimit) }
+        );
+      }
+      rateLimit = keyResult.rateLimit;
+    } else {
+      const authResult = await authenticateRequest(request);
+      if (!authResult.success || !authResult.user) {
+        return NextResponse.json(
+          { success: false, error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+
+      // Check company permission
+      const permissionCheck = await checkCompanyAccess(authResult.user, companyId, 'logs.read');
+      if (!permissionCheck.hasPermission) {
+        return NextResponse.json(
+          { success: false, error: permissionCheck.error || 'Company access denied' },
+          { status: 403 }
+        );
+      }
     }
 
     // Parse query parameters
@@ -70,18 +95,10 @@ export async function GET(
       limit: parseInt(searchParams.get('limit') || '100'),
       offset: parseInt(searchParams.get('offset') || '0'),
       executionRunId: searchParams.get('executionRunId') || undefined,
+      companyApplicationId: searchParams.get('companyApplicationId') || undefined,
       containerId: searchParams.get('containerId') || undefined,
     };
 
-    // Check company permission
-    const permissionCheck = await checkCompanyPermission(authResult.user.id, companyId);
-    if (!permissionCheck.hasPermission) {
-      return NextResponse.json(
-        { success: false, error: permissionCheck.error || 'Company access denied' },
-        { status: 403 }
-      );
-    }
-
     // Build the query using the database function
     const { data: logs, error } = await supabase.rpc('get_integration_logs', {
       p_company_id: companyId,
@@ -117,6 +134,10 @@ export async function GET(
       filteredLogs = filteredLogs.filter(log => log.execution_run_id === query.executionRunId);
     }
 
+    if (query.companyApplicationId) {
+      filteredLogs = filteredLogs.filter(log => log.company_application_id === query.companyApplicationId);
+    }
+
     if (query.containerId) {
       filteredLogs = filteredLogs.filter(
         log => log.structured_data?.containerId === query.containerId ||
@@ -130,7 +151,7 @@ export async function GET(
       .select('*', { count: 'exact', head: true })
       .eq('company_id', companyId);
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       data: {
         logs: filteredLogs,
@@ -143,6 +164,7 @@ export async function GET(
         filters: query
       }
     });
+    return rateLimit ? applyRateLimitHeaders(response, rateLimit) : response;
 
   } catch (error) {
     console.error('Integration logs API error:', error);
@@ -178,7 +200,7 @@ export async function POST(
     }
 
     // Check company permission
-    const permissionCheck = await checkCompanyPermission(authResult.user.id, companyId);
+    const permissionCheck = await checkCompanyAccess(authResult.user, companyId, 'logs.read');
     if (!permissionCheck.hasPermission) {
       return NextResponse.json(
         { success: false, error: permissionCheck.error || 'Company access denied' },
@@ -0,0 +1,175 @@
+/**
+ * Integration Logs Stream API
+ *
+ * Server-Sent Events tail of integration_logs. Each "logs" event carries a batch of new
+ * rows and its id is the cursor of the last row, so a reconnecting EventSource resumes
+ * through Last-Event-ID without gaps or duplicates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyAccess } from '@/lib/auth';
+import {
+  cursorOf,
+  decodeLogCursor,
+  encodeLogCursor,
+  fetchLogsAfter,
+  isRunFinished,
+  isUuid,
+  isValidCursor,
+  latestLogCursor,
+  type LogCursor,
+  type LogStreamFilters,
+} from '@/lib/log-stream';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Connections are recycled; EventSource reconnects and resumes from Last-Event-ID
+const MAX_STREAM_DURATION_MS = 5 * 60 * 1000;
+
+/**
+ * Resume point: Last-Event-ID on reconnect, then ?cursor=, then the explicit
+ * ?afterLoggedAt=&afterSequence=&afterId= triple of the newest row the client already has
+ */
+function parseCursor(request: NextRequest): LogCursor | null {
+  const { searchParams } = request.nextUrl;
+  const encoded = decodeLogCursor(request.headers.get('last-event-id') || searchParams.get('cursor'));
+  if (encoded) return encoded;
+
+  const explicit = {
+    loggedAt: searchParams.get('afterLoggedAt') || '',
+    sequence: parseInt(searchParams.get('afterSequence') || '0', 10),
+    id: searchParams.get('afterId') || '',
+  };
+  return isValidCursor(explicit) ? explicit : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  const { companyId } = await params;
+  const { searchParams } = request.nextUrl;
+
+  // Validate authentication
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  // Check company permission
+  const permissionCheck = await checkCompanyAccess(authResult.user, companyId, 'logs.read');
+  if (!permissionCheck.hasPermission) {
+    return NextResponse.json(
+      { success: false, error: permissionCheck.error || 'Company access denied' },
+      { status: 403 }
+    );
+  }
+
+  const filters: LogStreamFilters = {
+    companyApplicationId: searchParams.get('companyApplicationId') || undefined,
+    executionRunId: searchParams.get('executionRunId') || undefined,
+    integration: searchParams.get('integration') || undefined,
+    level: searchParams.get('level') || undefined,
+    source: searchParams.get('source') || undefined,
+    category: searchParams.get('category') || undefined,
+  };
+
+  if ([filters.companyApplicationId, filters.executionRunId].some(id => id && !isUuid(id))) {
+    return NextResponse.json(
+      { success: false, error: 'companyApplicationId and executionRunId must be UUIDs' },
+      { status: 400 }
+    );
+  }
+
+  let cursor: LogCursor;
+  try {
+    cursor = parseCursor(request) ?? await latestLogCursor(companyId, filters);
+  } catch (error) {
+    console.error('Integration logs stream setup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to open log stream' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const signal = request.signal;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastWrite = Date.now();
+      let closed = false;
+
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWrite = Date.now();
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      signal.addEventListener('abort', close);
+
+      // Tell the client where the stream starts and how long to wait before reconnecting
+      send(`retry: 3000\nid: ${encodeLogCursor(cursor)}\nevent: ready\ndata: ${JSON.stringify({ cursor })}\n\n`);
+
+      try {
+        while (!closed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+          const logs = await fetchLogsAfter(companyId, filters, cursor);
+
+          if (logs.length > 0) {
+            cursor = cursorOf(logs[logs.length - 1]!);
+            send(`id: ${encodeLogCursor(cursor)}\nevent: logs\ndata: ${JSON.stringify(logs)}\n\n`);
+            // More rows are probably waiting; fetch again without sleeping
+            continue;
+          }
+
+          // A run-scoped stream is complete once the run stops and its logs are drained;
+          // poll once more first in case the last lines landed just before the status change
+          if (filters.executionRunId && await isRunFinished(companyId, filters.executionRunId)) {
+            const remaining = await fetchLogsAfter(companyId, filters, cursor);
+            if (remaining.length > 0) {
+              cursor = cursorOf(remaining[remaining.length - 1]!);
+              send(`id: ${encodeLogCursor(cursor)}\nevent: logs\ndata: ${JSON.stringify(remaining)}\n\n`);
+              continue;
+            }
+            send(`event: end\ndata: ${JSON.stringify({ reason: 'run_finished' })}\n\n`);
+            break;
+          }
+
+          if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+            send(': heartbeat\n\n');
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Integration logs stream error:', error);
+        if (!closed) {
+          send(`event: error\ndata: ${JSON.stringify({ error: 'Log stream interrupted' })}\n\n`);
+        }
+      } finally {
+        signal.removeEventListener('abort', close);
+        close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
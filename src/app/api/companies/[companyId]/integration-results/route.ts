@@ -53,7 +53,7 @@ export async function GET(
     }
 
     // Check company permission
-    const permissionCheck = await checkCompanyPermission(authResult.user.id, companyId);
+    const permissionCheck = await checkCompanyPermission(authResult.user, companyId);
     if (!permissionCheck.hasPermission) {
       return NextResponse.json(
         { success: false, error: permissionCheck.error || 'Company access denied' },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
 import { createServerClient } from '@supabase/ssr';
+import { emitExecutionRunEvent } from '@/lib/webhooks';
 
 // Trigger an integration manually
 export async function POST(
@@ -25,7 +26,7 @@ export async function POST(
     }
 
     // Check company permission
-    const permissionResult = await checkCompanyPermission(authResult.user.id, companyId);
+    const permissionResult = await checkCompanyPermission(authResult.user, companyId);
     if (!permissionResult.hasPermission) {
       return NextResponse.json(
         { error: permissionResult.error || 'Access denied' },
@@ -127,6 +128,16 @@ export async function POST(
 
     const result = await triggerResponse.json();
 
+    // Runs the executor finishes synchronously are sent to webhooks right away; queued runs
+    // are picked up by /api/admin/webhooks/deliver once they finish
+    if (result.data?.runId) {
+      try {
+        await emitExecutionRunEvent(result.data.runId);
+      } catch (webhookError) {
+        console.error('Failed to emit run webhook:', webhookError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: `Integration ${app.name} triggered successfully`,
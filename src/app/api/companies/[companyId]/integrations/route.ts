@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
 import { auditLogger } from '@/lib/audit-logger';
+import { checkCompanyAccess } from '@/lib/auth';
+import { getSessionMfaState } from '@/lib/mfa';
+import { getUnmetSecretRequirements } from '@/lib/secrets';
 
 // Get company's connected integrations
 export async function GET(
@@ -112,6 +115,18 @@ export async function POST(
       );
     }
 
+    const { hasPermission, error: permissionError } = await checkCompanyAccess(
+      { id: user.id, mfa: await getSessionMfaState(supabase, user) },
+      companyId,
+      'integrations.install'
+    );
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: permissionError || 'Access denied' }, 
+        { status: 403 }
+      );
+    }
+
     // Check if application exists and is active and is an integration
     const { data: application, error: applicationError } = await supabase
       .from('applications')
@@ -177,10 +192,16 @@ export async function POST(
       );
     }
 
+    // Server-side integrations cannot run until their required secrets are granted
+    const missingSecrets = (await getUnmetSecretRequirements(companyId, integrationId)).map(r => r.key);
+
     return NextResponse.json({
       success: true,
-      message: `${application.name} installed successfully`,
-      data: installation
+      message: missingSecrets.length > 0
+        ? `${application.name} installed successfully. Add these secrets before running it: ${missingSecrets.join(', ')}`
+        : `${application.name} installed successfully`,
+      data: installation,
+      missingSecrets
     });
 
   } catch (error) {
@@ -220,6 +241,18 @@ export async function DELETE(
       );
     }
 
+    const { hasPermission, error: permissionError } = await checkCompanyAccess(
+      { id: user.id, mfa: await getSessionMfaState(supabase, user) },
+      companyId,
+      'integrations.install'
+    );
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: permissionError || 'Access denied' }, 
+        { status: 403 }
+      );
+    }
+
     // Get the integration before deleting for audit log
     const { data: installation, error: fetchError } = await supabase
       .from('company_applications')
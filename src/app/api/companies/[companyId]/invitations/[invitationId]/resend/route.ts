@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  InvitationError,
+  resendCompanyInvitation,
+} from '@/lib/invitations';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+
+type RouteCtx = { params: Promise<{ companyId: string; invitationId: string }> };
+
+// Send a pending or expired invitation again with a fresh expiry
+async function handleResend(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { invitationId } = await routeContext.params;
+
+    const rateLimit = await checkRateLimit('invitations', { request, userId: context.user.id });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    // The email follows the sender's UI locale, falling back to their browser language
+    const locale = request.nextUrl.searchParams.get('locale') ?? request.headers.get('accept-language');
+
+    const result = await resendCompanyInvitation(context.company.id, invitationId, {
+      id: context.user.id,
+      email: context.user.email,
+      role: context.userRole,
+    }, locale);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_invitations',
+      operation: 'UPDATE',
+      new_data: { id: invitationId, status: 'pending', expires_at: result.expires_at },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'invitation_resent',
+        company_id: context.company.id,
+        delivery: result.type,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation resent',
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Resend invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resend invitation' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCompanyAuth(handleResend, { permission: 'users.invite' });
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  InvitationError,
+  changeInvitationRole,
+  revokeCompanyInvitation,
+} from '@/lib/invitations';
+
+type RouteCtx = { params: Promise<{ companyId: string; invitationId: string }> };
+
+function handleInvitationError(error: unknown, fallback: string) {
+  if (error instanceof InvitationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  );
+}
+
+// Change the role a pending invitation grants
+async function handleChangeRole(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { invitationId } = await routeContext.params;
+    const { role } = await request.json().catch(() => ({}));
+
+    const change = await changeInvitationRole(context.company.id, invitationId, role, {
+      id: context.user.id,
+      email: context.user.email,
+      role: context.userRole,
+    });
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_invitations',
+      operation: 'UPDATE',
+      old_data: { id: invitationId, role: change.previousRole },
+      new_data: { id: invitationId, role: change.role },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'invitation_role_changed',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: invitationId, role: change.role }
+    });
+  } catch (error) {
+    return handleInvitationError(error, 'Failed to change invitation role');
+  }
+}
+
+// Revoke an open invitation
+async function handleRevoke(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { invitationId } = await routeContext.params;
+    const previousStatus = await revokeCompanyInvitation(context.company.id, invitationId);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_invitations',
+      operation: 'UPDATE',
+      old_data: { id: invitationId, status: previousStatus },
+      new_data: { id: invitationId, status: 'revoked' },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'invitation_revoked',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invitation revoked'
+    });
+  } catch (error) {
+    return handleInvitationError(error, 'Failed to revoke invitation');
+  }
+}
+
+export const PATCH = withCompanyAuth(handleChangeRole, { permission: 'users.invite' });
+export const DELETE = withCompanyAuth(handleRevoke, { permission: 'users.invite' });
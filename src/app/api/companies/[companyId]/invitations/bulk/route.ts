@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  InvitationError,
+  createCompanyInvitation,
+  parseInvitationCsv,
+  validateInvitationInput,
+} from '@/lib/invitations';
+import { checkRateLimit } from '@/lib/rate-limit/limiter';
+
+interface BulkInviteRow {
+  line: number;
+  email: string;
+  status: 'invited' | 'failed';
+  type?: 'in_app_notification' | 'email_invitation';
+  code?: string;
+  error?: string;
+}
+
+// Read the CSV from a multipart "file" field or a raw text/csv body
+async function readCsv(request: NextRequest): Promise<string | null> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const file = (await request.formData()).get('file');
+    return file instanceof File ? file.text() : null;
+  }
+
+  return request.text();
+}
+
+// Invite every row of a CSV (email, role, message); rows are validated and sent independently
+async function handleBulkInvite(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const locale = request.nextUrl.searchParams.get('locale') ?? request.headers.get('accept-language');
+    const csv = await readCsv(request);
+    if (!csv) {
+      return NextResponse.json(
+        { error: 'Upload a CSV file with the columns email, role, message', code: 'MISSING_FILE' },
+        { status: 400 }
+      );
+    }
+
+    const rows = parseInvitationCsv(csv);
+    const inviter = { id: context.user.id, email: context.user.email, role: context.userRole };
+    const results: BulkInviteRow[] = [];
+    const seen = new Set<string>();
+    let rateLimited = false;
+
+    // Sequential on purpose: each row checks for existing members and pending invitations
+    for (const row of rows) {
+      try {
+        const invitee = validateInvitationInput({ email: row.email, role: row.role }, inviter);
+
+        if (seen.has(invitee.email)) {
+          throw new InvitationError('Duplicate email in file', 'DUPLICATE_EMAIL', 400);
+        }
+        seen.add(invitee.email);
+
+        // Every invitation counts against the invite rate limit; rows past it are not sent
+        rateLimited = rateLimited || !(await checkRateLimit('invitations', { request, userId: context.user.id })).allowed;
+        if (rateLimited) {
+          throw new InvitationError('Too many invitations sent. Try this row again in a minute.', 'RATE_LIMITED', 429);
+        }
+
+        const result = await createCompanyInvitation({
+          companyId: context.company.id,
+          companyName: context.company.name,
+          inviter,
+          email: invitee.email,
+          role: invitee.role,
+          message: row.message,
+          locale,
+        });
+
+        results.push({ line: row.line, email: invitee.email, status: 'invited', type: result.type });
+      } catch (error) {
+        if (!(error instanceof InvitationError)) throw error;
+        results.push({ line: row.line, email: row.email, status: 'failed', code: error.code, error: error.message });
+      }
+    }
+
+    const invited = results.filter(result => result.status === 'invited').length;
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_invitations',
+      operation: 'INSERT',
+      new_data: { invited: results.filter(result => result.status === 'invited').map(result => result.email) },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'invitations_bulk_created',
+        company_id: context.company.id,
+        rows: results.length,
+        invited,
+        failed: results.length - invited,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        invited,
+        failed: results.length - invited,
+        results,
+      }
+    });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Bulk invite error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process bulk invite' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withCompanyAuth(handleBulkInvite, { permission: 'users.invite' });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import {
+  expireOverdueInvitations,
+  listCompanyInvitations,
+  type InvitationStatus,
+} from '@/lib/invitations';
+
+const STATUSES: InvitationStatus[] = ['pending', 'accepted', 'rejected', 'expired', 'revoked'];
+
+// List the company's invitations; ?status=pending,expired filters, default is open invitations
+async function handleListInvitations(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const statusParam = request.nextUrl.searchParams.get('status');
+    const statuses = statusParam === 'all'
+      ? undefined
+      : (statusParam ? statusParam.split(',') : ['pending', 'expired']) as InvitationStatus[];
+
+    if (statuses?.some(status => !STATUSES.includes(status))) {
+      return NextResponse.json(
+        { error: `Invalid status. Use all or a comma separated list of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Past-due invitations should never be listed as pending
+    await expireOverdueInvitations(context.company.id);
+
+    const invitations = await listCompanyInvitations(context.company.id, statuses);
+
+    return NextResponse.json({
+      success: true,
+      data: invitations
+    });
+  } catch (error) {
+    console.error('List invitations error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleListInvitations, { permission: 'users.invite' });
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { LogRetentionError, rehydrateArchivedDay } from '@/lib/log-retention';
+
+type RouteCtx = { params: Promise<{ companyId: string; date: string }> };
+
+// Archived logs of one UTC day in the same shape as the live integration-logs list
+async function handleRehydrate(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { date } = await routeContext.params;
+    const { searchParams } = request.nextUrl;
+
+    const result = await rehydrateArchivedDay(context.company.id, date, {
+      integration: searchParams.get('integration') || undefined,
+      companyApplicationId: searchParams.get('companyApplicationId') || undefined,
+      executionRunId: searchParams.get('executionRunId') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { date, ...result },
+    });
+  } catch (error) {
+    if (error instanceof LogRetentionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Rehydrate log archive error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load archived logs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleRehydrate, { permission: 'logs.read' });
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { LogRetentionError, listLogArchives } from '@/lib/log-retention';
+
+// Archived log files, newest day first; ?from=&to= (YYYY-MM-DD) narrow the range
+async function handleListArchives(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const archives = await listLogArchives(context.company.id, {
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { archives },
+    });
+  } catch (error) {
+    if (error instanceof LogRetentionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('List log archives error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load log archives' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleListArchives, { permission: 'logs.read' });
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  LogRetentionError,
+  getRetentionPolicy,
+  updateRetentionPolicy,
+} from '@/lib/log-retention';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof LogRetentionError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Effective retention days per log level and the plan's cap
+async function handleGetRetention(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const policy = await getRetentionPolicy(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load log retention');
+  }
+}
+
+// Change retention days, e.g. { "debug": 7, "error": 365 }
+async function handleUpdateRetention(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const body = await request.json();
+    const input = body?.days;
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return NextResponse.json(
+        { error: 'Invalid request. Requires days object keyed by log level' },
+        { status: 400 }
+      );
+    }
+
+    const previous = await getRetentionPolicy(context.company.id);
+    const policy = await updateRetentionPolicy(context.company.id, input, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'log_retention_policies',
+      operation: previous.configured ? 'UPDATE' : 'INSERT',
+      old_data: previous.days,
+      new_data: policy.days,
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'log_retention_updated',
+        company_id: context.company.id,
+        plan: policy.plan,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update log retention');
+  }
+}
+
+export const GET = withCompanyAuth(handleGetRetention, { permission: 'logs.read' });
+export const PUT = withCompanyAuth(handleUpdateRetention, { permission: 'company.manage' });
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { extractClientInfo } from '@/lib/audit-logger';
+import { MfaError, getCompanyMfaPolicy, setCompanyMfaRequirement } from '@/lib/mfa';
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof MfaError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/companies/[companyId]/mfa-policy
+ * Whether the company requires MFA, and which members have a verified factor
+ */
+async function handleGetMfaPolicy(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const policy = await getCompanyMfaPolicy(context.company.id);
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load MFA policy');
+  }
+}
+
+/**
+ * PUT /api/companies/[companyId]/mfa-policy
+ * Body: { requireMfa }
+ * Members without MFA lose access to the company's routes until they enroll.
+ */
+async function handleUpdateMfaPolicy(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const body = await request.json();
+    if (typeof body.requireMfa !== 'boolean') {
+      return NextResponse.json({ error: 'requireMfa must be a boolean', code: 'INVALID_INPUT' }, { status: 400 });
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    const policy = await setCompanyMfaRequirement(context.company.id, body.requireMfa, context.mfa, {
+      userId: context.user.id,
+      email: context.user.email,
+      ipAddress,
+      userAgent,
+    });
+
+    return NextResponse.json({ success: true, data: policy });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update MFA policy');
+  }
+}
+
+export const GET = withCompanyAuth(handleGetMfaPolicy, { permission: 'security.manage' });
+export const PUT = withCompanyAuth(handleUpdateMfaPolicy, { permission: 'security.manage' });
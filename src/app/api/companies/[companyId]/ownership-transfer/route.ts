@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  OwnershipTransferError,
+  cancelOwnershipTransfer,
+  createOwnershipTransfer,
+  getPendingOwnershipTransfer,
+} from '@/lib/ownership-transfer';
+
+function handleTransferError(error: unknown, fallback: string) {
+  if (error instanceof OwnershipTransferError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  );
+}
+
+// Show the company's pending ownership transfer (owners only)
+async function handleGetTransfer(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const transfer = await getPendingOwnershipTransfer(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { transfer }
+    });
+  } catch (error) {
+    return handleTransferError(error, 'Failed to load ownership transfer');
+  }
+}
+
+// Nominate a member as the new owner (owners only)
+async function handleCreateTransfer(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { userId } = await request.json().catch(() => ({}));
+
+    if (typeof userId !== 'string' || !userId) {
+      return NextResponse.json(
+        { error: 'Invalid request. Requires userId of the new owner' },
+        { status: 400 }
+      );
+    }
+
+    const transfer = await createOwnershipTransfer(context.company.id, context.user.id, userId);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_ownership_transfers',
+      operation: 'INSERT',
+      new_data: { id: transfer.id, from_user_id: transfer.from_user_id, to_user_id: transfer.to_user_id },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'ownership_transfer_requested',
+        company_id: context.company.id,
+        expires_at: transfer.expires_at,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { transfer }
+    }, { status: 201 });
+  } catch (error) {
+    return handleTransferError(error, 'Failed to start ownership transfer');
+  }
+}
+
+// Withdraw the pending transfer (owners only)
+async function handleCancelTransfer(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const transfer = await cancelOwnershipTransfer(context.company.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_ownership_transfers',
+      operation: 'UPDATE',
+      old_data: { id: transfer.id, status: 'pending' },
+      new_data: { id: transfer.id, status: transfer.status },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'ownership_transfer_cancelled',
+        company_id: context.company.id,
+        to_user_id: transfer.to_user_id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { transfer }
+    });
+  } catch (error) {
+    return handleTransferError(error, 'Failed to cancel ownership transfer');
+  }
+}
+
+export const GET = withCompanyAuth(handleGetTransfer, { requiredRoles: ['owner'] });
+export const POST = withCompanyAuth(handleCreateTransfer, { requiredRoles: ['owner'] });
+export const DELETE = withCompanyAuth(handleCancelTransfer, { requiredRoles: ['owner'] });
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { isBuiltInRole } from '@/lib/permissions';
+import { RolePermissionError, deleteCompanyRole } from '@/lib/role-permissions';
+
+type RouteCtx = { params: Promise<{ companyId: string; role: string }> };
+
+// Reset a built-in role to its default permissions or delete a custom role (owners only)
+async function handleDeleteRole(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { role } = await routeContext.params;
+
+    await deleteCompanyRole(context.company.id, role);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_role_permissions',
+      operation: 'DELETE',
+      old_data: { role },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: isBuiltInRole(role) ? 'role_permissions_reset' : 'custom_role_deleted',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: isBuiltInRole(role) ? `${role} reset to default permissions` : `${role} deleted`
+    });
+  } catch (error) {
+    if (error instanceof RolePermissionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Delete role error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withCompanyAuth(handleDeleteRole, { requiredRoles: ['owner'] });
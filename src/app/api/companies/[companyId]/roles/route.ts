@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { PERMISSIONS, PERMISSION_DESCRIPTIONS } from '@/lib/permissions';
+import {
+  RolePermissionError,
+  listCompanyRoles,
+  setCompanyRolePermissions,
+} from '@/lib/role-permissions';
+
+// List the permission catalog and the company's roles
+async function handleListRoles(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const roles = await listCompanyRoles(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        permissions: PERMISSIONS.map(key => ({ key, description: PERMISSION_DESCRIPTIONS[key] })),
+        roles,
+        currentRole: context.userRole,
+        currentPermissions: context.permissions,
+      }
+    });
+  } catch (error) {
+    console.error('List roles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load roles' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a custom role or change the permissions of a role (owners only)
+async function handleSetRole(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const { role, permissions } = await request.json();
+
+    if (typeof role !== 'string' || !Array.isArray(permissions)) {
+      return NextResponse.json(
+        { error: 'Invalid request. Requires role and permissions array' },
+        { status: 400 }
+      );
+    }
+
+    const previous = (await listCompanyRoles(context.company.id)).find(r => r.role === role);
+    const updated = await setCompanyRolePermissions(context.company.id, role, permissions, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_role_permissions',
+      operation: previous?.customised ? 'UPDATE' : 'INSERT',
+      old_data: previous ? { role, permissions: previous.permissions } : undefined,
+      new_data: { role, permissions: updated },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'role_permissions_updated',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { role, permissions: updated }
+    });
+  } catch (error) {
+    if (error instanceof RolePermissionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Set role permissions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleListRoles, { permission: 'users.manage' });
+export const PUT = withCompanyAuth(handleSetRole, { requiredRoles: ['owner'] });
@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import prisma from '@/lib/prisma';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import { checkCompanyMfaRequirement, checkMfaRequirement, getMfaState } from '@/lib/mfa';
 
 type RouteContext = { params: Promise<{ companyId: string }> };
 
@@ -75,6 +77,12 @@ export async function GET(
       }, { status: 403 });
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = checkMfaRequirement(company.require_mfa, getMfaState(user, token));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     /* 4 ───────────────────────────────── Return company data */
     return NextResponse.json({
       ...company,
@@ -160,6 +168,12 @@ export async function DELETE(
       }, { status: 403 });
     }
 
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = checkMfaRequirement(company.require_mfa, getMfaState(user, token));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
     // Only owners can delete companies
     if (membership.role !== 'owner') {
       return NextResponse.json({ 
@@ -319,8 +333,15 @@ export async function PUT(
       }, { status: 403 });
     }
 
-    // Only admins, owners, and superadmins can update company details
-    if (!['admin', 'owner', 'superadmin'].includes(membership.role)) {
+    // Members of companies that require MFA need a verified factor in this session
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, getMfaState(user, token));
+    if (mfaFailure) {
+      return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+    }
+
+    // Only roles granted company.manage can update company details
+    const permissions = await getCompanyPermissionsForRole(companyId, membership.role);
+    if (!permissions.includes('company.manage')) {
       return NextResponse.json({ 
         error: 'Insufficient permissions to update company details',
         code: 'INSUFFICIENT_PERMISSIONS' 
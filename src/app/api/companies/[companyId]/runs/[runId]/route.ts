@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { ExecutionRunError, MAX_RUN_LOG_LINES, getExecutionRun } from '@/lib/execution-runs';
+
+type RouteCtx = { params: Promise<{ companyId: string; runId: string }> };
+
+// One run with its integration logs; ?logLimit= caps the number of log lines
+async function handleGetRun(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { runId } = await routeContext.params;
+    const logLimit = parseInt(request.nextUrl.searchParams.get('logLimit') || String(MAX_RUN_LOG_LINES), 10);
+
+    const run = await getExecutionRun(
+      context.company.id,
+      runId,
+      Number.isFinite(logLimit) ? logLimit : MAX_RUN_LOG_LINES
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    if (error instanceof ExecutionRunError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Get run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load run' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleGetRun, { permission: 'logs.read', apiKeyScope: 'runs:read' });
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { ExecutionRunError, listExecutionRuns, parseRunFilters } from '@/lib/execution-runs';
+
+// List execution runs; filter with ?appId=, ?status=failed,timeout, ?triggeredBy=, ?jobId=
+// and page with ?limit= and ?offset=
+async function handleListRuns(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const filters = parseRunFilters(request.nextUrl.searchParams);
+    const result = await listExecutionRuns(context.company.id, filters);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...result,
+        filters,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ExecutionRunError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('List runs error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load runs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withCompanyAuth(handleListRuns, { permission: 'logs.read', apiKeyScope: 'runs:read' });
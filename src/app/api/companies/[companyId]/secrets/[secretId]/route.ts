@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyAccess } from '@/lib/auth';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { getEncryptionService } from '@/lib/encryption';
+import { updateSecretSchema } from '@/lib/validation/secretSchema';
+import {
+  SECRET_METADATA_COLUMNS,
+  findUninstalledApplications,
+  isManagedSecretKey,
+  toCompanySecret,
+} from '@/lib/secrets';
+
+interface RouteParams {
+  companyId: string;
+  secretId: string;
+}
+
+async function authorize(request: NextRequest, companyId: string) {
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      )
+    };
+  }
+
+  const { hasPermission, error } = await checkCompanyAccess(
+    authResult.user,
+    companyId,
+    'secrets.manage'
+  );
+  if (!hasPermission) {
+    return {
+      response: NextResponse.json(
+        { error: error || 'Access denied' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { user: authResult.user };
+}
+
+// Update a secret's value, description or app permissions
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) {
+  try {
+    const { companyId, secretId } = await params;
+
+    const { user, response } = await authorize(request, companyId);
+    if (!user) return response;
+
+    const parsed = updateSecretSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid secret update', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseServiceClient();
+    const { data: existing, error: fetchError } = await supabase
+      .from('secrets')
+      .select(SECRET_METADATA_COLUMNS)
+      .eq('id', secretId)
+      .eq('company_id', companyId)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Secret not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isManagedSecretKey(existing.key)) {
+      return NextResponse.json(
+        { error: 'This secret is managed by a connection and cannot be edited' },
+        { status: 403 }
+      );
+    }
+
+    const { value, description, app_permissions } = parsed.data;
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+    if (app_permissions !== undefined) {
+      const uninstalled = await findUninstalledApplications(companyId, app_permissions);
+      if (uninstalled.length > 0) {
+        return NextResponse.json(
+          { error: 'Secrets can only be granted to installed applications', details: uninstalled },
+          { status: 400 }
+        );
+      }
+      updates.app_permissions = app_permissions;
+    }
+
+    if (description !== undefined) {
+      updates.description = description || null;
+    }
+
+    if (value !== undefined) {
+      const encryption = getEncryptionService();
+      updates.encrypted_value = await encryption.encryptSecret(companyId, value);
+      updates.key_version = encryption.getCurrentKeyVersion();
+    }
+
+    const { data: secret, error } = await supabase
+      .from('secrets')
+      .update(updates)
+      .eq('id', secretId)
+      .eq('company_id', companyId)
+      .select(SECRET_METADATA_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating secret:', error);
+      return NextResponse.json(
+        { error: 'Failed to update secret' },
+        { status: 500 }
+      );
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'secrets',
+      operation: 'UPDATE',
+      old_data: {
+        key: existing.key,
+        description: existing.description,
+        app_permissions: existing.app_permissions,
+      },
+      new_data: {
+        key: secret.key,
+        description: secret.description,
+        app_permissions: secret.app_permissions,
+      },
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: value !== undefined ? 'secret_value_rotated' : 'secret_updated',
+        company_id: companyId,
+        secret_id: secretId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toCompanySecret(secret)
+    });
+
+  } catch (error) {
+    console.error('Update secret API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a secret
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<RouteParams> }
+) {
+  try {
+    const { companyId, secretId } = await params;
+
+    const { user, response } = await authorize(request, companyId);
+    if (!user) return response;
+
+    const supabase = createSupabaseServiceClient();
+    const { data: existing, error: fetchError } = await supabase
+      .from('secrets')
+      .select('id, key, description, app_permissions')
+      .eq('id', secretId)
+      .eq('company_id', companyId)
+      .single();
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { error: 'Secret not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isManagedSecretKey(existing.key)) {
+      return NextResponse.json(
+        { error: 'This secret is managed by a connection; disconnect it instead' },
+        { status: 403 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('secrets')
+      .delete()
+      .eq('id', secretId)
+      .eq('company_id', companyId);
+
+    if (error) {
+      console.error('Error deleting secret:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete secret' },
+        { status: 500 }
+      );
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'secrets',
+      operation: 'DELETE',
+      old_data: existing,
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'secret_deleted',
+        company_id: companyId,
+        secret_id: secretId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${existing.key} deleted`
+    });
+
+  } catch (error) {
+    console.error('Delete secret API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
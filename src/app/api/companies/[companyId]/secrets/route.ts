@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyAccess } from '@/lib/auth';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { getEncryptionService } from '@/lib/encryption';
+import { createSecretSchema } from '@/lib/validation/secretSchema';
+import {
+  SECRET_METADATA_COLUMNS,
+  findUninstalledApplications,
+  toCompanySecret,
+} from '@/lib/secrets';
+
+// List secret metadata for a company (values are never returned)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const { companyId } = await params;
+
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { hasPermission, error: permissionError } = await checkCompanyAccess(
+      authResult.user,
+      companyId,
+      'secrets.manage'
+    );
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: permissionError || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = createSupabaseServiceClient();
+    const { data: secrets, error } = await supabase
+      .from('secrets')
+      .select(SECRET_METADATA_COLUMNS)
+      .eq('company_id', companyId)
+      .order('key', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching secrets:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch secrets' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: (secrets || []).map(toCompanySecret)
+    });
+
+  } catch (error) {
+    console.error('Secrets API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a secret
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ companyId: string }> }
+) {
+  try {
+    const { companyId } = await params;
+
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { hasPermission, error: permissionError } = await checkCompanyAccess(
+      authResult.user,
+      companyId,
+      'secrets.manage'
+    );
+    if (!hasPermission) {
+      return NextResponse.json(
+        { error: permissionError || 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const parsed = createSecretSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid secret', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { key, value, description, app_permissions } = parsed.data;
+
+    const uninstalled = await findUninstalledApplications(companyId, app_permissions);
+    if (uninstalled.length > 0) {
+      return NextResponse.json(
+        { error: 'Secrets can only be granted to installed applications', details: uninstalled },
+        { status: 400 }
+      );
+    }
+
+    const encryption = getEncryptionService();
+    const encryptedValue = await encryption.encryptSecret(companyId, value);
+
+    const supabase = createSupabaseServiceClient();
+    const { data: secret, error } = await supabase
+      .from('secrets')
+      .insert({
+        company_id: companyId,
+        key,
+        description: description || null,
+        encrypted_value: encryptedValue,
+        key_version: encryption.getCurrentKeyVersion(),
+        app_permissions,
+        created_by: authResult.user.id,
+      })
+      .select(SECRET_METADATA_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `A secret named ${key} already exists` },
+          { status: 409 }
+        );
+      }
+
+      console.error('Error creating secret:', error);
+      return NextResponse.json(
+        { error: 'Failed to create secret' },
+        { status: 500 }
+      );
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'secrets',
+      operation: 'INSERT',
+      new_data: { key, description, app_permissions },
+      user_id: authResult.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'secret_created',
+        company_id: companyId,
+        secret_id: secret.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toCompanySecret(secret)
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create secret API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
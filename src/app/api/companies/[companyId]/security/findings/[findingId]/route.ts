@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { SecurityAnalyticsError, updateSecurityFinding } from '@/lib/security-analytics';
+
+type RouteCtx = { params: Promise<{ companyId: string; findingId: string }> };
+
+// Acknowledge or resolve a finding: { "status": "resolved", "clearRestriction": true }.
+// clearRestriction unlocks the member's account and lifts a required re-authentication.
+async function handleUpdateFinding(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { findingId } = await routeContext.params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.status !== 'string') {
+      return NextResponse.json(
+        { error: 'status is required', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const finding = await updateSecurityFinding(context.company.id, findingId, {
+      status: body.status,
+      clearRestriction: body.clearRestriction === true,
+    }, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'security_findings',
+      operation: 'UPDATE',
+      new_data: {
+        id: finding.id,
+        detector: finding.detector,
+        status: finding.status,
+        restriction_cleared: body.clearRestriction === true,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: `security_finding_${finding.status}`,
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: finding,
+    });
+  } catch (error) {
+    if (error instanceof SecurityAnalyticsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to update security finding:', error);
+    return NextResponse.json({ error: 'Failed to update security finding' }, { status: 500 });
+  }
+}
+
+export const PATCH = withCompanyAuth(handleUpdateFinding, { permission: 'security.manage' });
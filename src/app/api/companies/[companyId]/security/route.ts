@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import {
+  DETECTION_RULES,
+  SecurityAnalyticsError,
+  getSecurityDashboard,
+  parseFindingStatuses,
+} from '@/lib/security-analytics';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/companies/[companyId]/security?status=open,acknowledged
+ * Security dashboard: findings about the company or its members, signals of the last
+ * 24 hours and members that are locked or must sign in again.
+ */
+async function handleGetSecurityDashboard(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const statuses = parseFindingStatuses(request.nextUrl.searchParams.get('status'));
+    const dashboard = await getSecurityDashboard(context.company.id, statuses);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...dashboard,
+        rules: DETECTION_RULES,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SecurityAnalyticsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to load security dashboard:', error);
+    return NextResponse.json({ error: 'Failed to load security dashboard' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleGetSecurityDashboard, { permission: 'security.manage' });
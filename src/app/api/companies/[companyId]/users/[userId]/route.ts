@@ -2,11 +2,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';  // Import the Prisma client
 import { supabase } from '@/lib/supabaseClient';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { companyRoleExists, getCompanyPermissionsForRole, isRoleWithinPermissions } from '@/lib/role-permissions';
+import { isLastOwner } from '@/lib/ownership-transfer';
+import { checkCompanyMfaRequirement, getMfaState } from '@/lib/mfa';
 
 /**
  * DELETE /api/companies/[companyId]/users/[userId]
  * Removes `userId` from the company in `company_users`.
- * Only owners/admins of that company are allowed.
+ * Requires the users.manage permission and every permission of the member's role; only
+ * owners can remove owners and the last owner must transfer ownership before leaving.
  */
 type RouteCtx = { params: Promise<{ companyId: string; userId: string }> };
 
@@ -28,7 +33,7 @@ export async function DELETE(
     return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 });
   }
 
-  /* 2. Ensure caller is owner/admin of the company */
+  /* 2. Ensure caller's role grants users.manage */
   const roleRow = await prisma.company_users.findUnique({
     where: {
       company_id_user_id: {
@@ -41,12 +46,38 @@ export async function DELETE(
     },
   });
 
-  if (!roleRow || !['owner', 'admin'].includes(roleRow.role)) {
+  const callerPermissions = roleRow ? await getCompanyPermissionsForRole(companyId, roleRow.role) : [];
+  if (!roleRow || !callerPermissions.includes('users.manage')) {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
+  const mfaFailure = await checkCompanyMfaRequirement(companyId, getMfaState(user, token));
+  if (mfaFailure) {
+    return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+  }
+
   /* 3. Remove the target user from the company */
   try {
+    const target = await prisma.company_users.findUnique({
+      where: { company_id_user_id: { company_id: companyId, user_id: userId } },
+      select: { role: true },
+    });
+
+    if (target?.role === 'owner' && roleRow.role !== 'owner') {
+      return NextResponse.json({ error: 'Only owners can remove other owners' }, { status: 403 });
+    }
+
+    if (target && !(await isRoleWithinPermissions(companyId, target.role, callerPermissions))) {
+      return NextResponse.json({ error: 'You cannot remove members whose role has permissions you do not hold' }, { status: 403 });
+    }
+
+    if (target && await isLastOwner(companyId, userId)) {
+      return NextResponse.json(
+        { error: 'The company owner cannot be removed; transfer ownership first', code: 'LAST_OWNER' },
+        { status: 409 }
+      );
+    }
+
     const deleteResult = await prisma.company_users.deleteMany({
       where: {
         company_id: companyId,
@@ -64,3 +95,107 @@ export async function DELETE(
     return NextResponse.json({ error: 'Server error' }, { status: 500 });
   }
 }
+
+/**
+ * PATCH /api/companies/[companyId]/users/[userId]
+ * Changes the member's role to a built-in or custom company role.
+ * Requires the users.manage permission, and both the member's current role and the new one
+ * must not hold permissions the caller lacks. Ownership cannot be granted or taken here.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: RouteCtx
+) {
+  const { companyId, userId } = await params;
+
+  /* 1. Grab and verify the bearer token */
+  const bearer = req.headers.get('authorization') ?? '';
+  const token = bearer.startsWith('Bearer ') ? bearer.slice(7) : null;
+  if (!token) {
+    return NextResponse.json({ error: 'Missing token' }, { status: 401 });
+  }
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 });
+  }
+
+  const { role } = await req.json().catch(() => ({}));
+  if (typeof role !== 'string' || !role) {
+    return NextResponse.json({ error: 'Role is required' }, { status: 400 });
+  }
+
+  /* 2. Ensure caller's role grants users.manage */
+  const roleRow = await prisma.company_users.findUnique({
+    where: { company_id_user_id: { company_id: companyId, user_id: user.id } },
+    select: { role: true },
+  });
+
+  const callerPermissions = roleRow ? await getCompanyPermissionsForRole(companyId, roleRow.role) : [];
+  if (!roleRow || !callerPermissions.includes('users.manage')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const mfaFailure = await checkCompanyMfaRequirement(companyId, getMfaState(user, token));
+  if (mfaFailure) {
+    return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+  }
+
+  if (userId === user.id) {
+    return NextResponse.json({ error: 'You cannot change your own role' }, { status: 403 });
+  }
+
+  /* 3. Validate the change */
+  const target = await prisma.company_users.findUnique({
+    where: { company_id_user_id: { company_id: companyId, user_id: userId } },
+    select: { role: true },
+  });
+
+  if (!target) {
+    return NextResponse.json({ error: 'User not found in company' }, { status: 404 });
+  }
+
+  if (role === 'owner' || target.role === 'owner') {
+    return NextResponse.json({ error: 'Ownership cannot be changed through role assignment' }, { status: 403 });
+  }
+
+  if (!(await companyRoleExists(companyId, role))) {
+    return NextResponse.json({ error: `Unknown role: ${role}` }, { status: 400 });
+  }
+
+  // Nobody can hand out, or take away, more than they hold themselves
+  if (!(await isRoleWithinPermissions(companyId, target.role, callerPermissions))) {
+    return NextResponse.json({ error: 'You cannot change the role of members with permissions you do not hold' }, { status: 403 });
+  }
+  if (!(await isRoleWithinPermissions(companyId, role, callerPermissions))) {
+    return NextResponse.json({ error: 'You cannot grant a role with permissions you do not hold' }, { status: 403 });
+  }
+
+  /* 4. Update the role */
+  try {
+    await prisma.company_users.update({
+      where: { company_id_user_id: { company_id: companyId, user_id: userId } },
+      data: { role },
+    });
+
+    const { ipAddress, userAgent } = extractClientInfo(req);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_users',
+      operation: 'UPDATE',
+      old_data: { user_id: userId, role: target.role },
+      new_data: { user_id: userId, role },
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'member_role_changed',
+        company_id: companyId,
+      }
+    });
+
+    return NextResponse.json({ success: true, data: { userId, role } });
+  } catch (updErr) {
+    console.error('Role update failed:', updErr instanceof Error ? updErr.message : String(updErr));
+    return NextResponse.json({ error: 'Server error' }, { status: 500 });
+  }
+}
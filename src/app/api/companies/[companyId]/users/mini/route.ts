@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
 import { createClient } from '@supabase/supabase-js';
+import { checkCompanyMfaRequirement, getMfaState } from '@/lib/mfa';
 import {
   companyUserMiniSchema,
   type CompanyUserMini,
@@ -27,9 +28,16 @@ export async function GET(req: NextRequest, { params }: ParamsCtx) {
     return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
   }
 
-  /* ── Data fetch (Active users + Pending invitations) ───────── */
   const { companyId } = await params;
 
+  // Members of companies that require MFA need a verified factor in this session
+  const mfaFailure = await checkCompanyMfaRequirement(companyId, getMfaState(user, jwt));
+  if (mfaFailure) {
+    return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+  }
+
+  /* ── Data fetch (Active users + Pending invitations) ───────── */
+
   // Fetch active users and pending invitations
   const [rawRows, pendingInvitations] = await Promise.all([
     prisma.$queryRaw`
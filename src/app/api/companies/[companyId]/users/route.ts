@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
+import { checkCompanyMfaRequirement, getMfaState } from '@/lib/mfa';
 
 /* ──────────────────────── Zod validation ───────────────────────── */
 
@@ -40,6 +41,17 @@ export async function GET(
     { global: { headers: { Authorization: `Bearer ${token}` } } }
   );
 
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  // Members of companies that require MFA need a verified factor in this session
+  const mfaFailure = await checkCompanyMfaRequirement(companyId, getMfaState(user, token));
+  if (mfaFailure) {
+    return NextResponse.json({ error: mfaFailure.message, code: mfaFailure.code }, { status: 403 });
+  }
+
   /* 3) Query the secure view – RLS guarantees the caller     */
   /*    only sees rows for companies he/she belongs to.        */
   const { data, error } = await supabase
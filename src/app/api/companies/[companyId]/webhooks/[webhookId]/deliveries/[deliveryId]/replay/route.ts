@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { WebhookError, replayWebhookDelivery } from '@/lib/webhooks';
+
+type RouteCtx = { params: Promise<{ companyId: string; webhookId: string; deliveryId: string }> };
+
+// Send the payload of a delivery again; the result is a new delivery in the history
+async function handleReplay(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { webhookId, deliveryId } = await routeContext.params;
+    const delivery = await replayWebhookDelivery(context.company.id, webhookId, deliveryId, context.user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'webhook_deliveries',
+      operation: 'INSERT',
+      new_data: {
+        id: delivery.id,
+        event_id: delivery.event_id,
+        event_type: delivery.event_type,
+        status: delivery.status,
+      },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'webhook_delivery_replayed',
+        company_id: context.company.id,
+        webhook_id: webhookId,
+        replay_of: deliveryId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { delivery },
+    });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to replay webhook delivery:', error);
+    return NextResponse.json({ error: 'Failed to replay webhook delivery' }, { status: 500 });
+  }
+}
+
+export const POST = withCompanyAuth(handleReplay, { permission: 'company.manage' });
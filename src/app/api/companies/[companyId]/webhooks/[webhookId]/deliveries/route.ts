@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import {
+  MAX_WEBHOOK_DELIVERIES_PAGE_SIZE,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryStatus,
+  WebhookError,
+  WebhookEvent,
+  listWebhookDeliveries,
+} from '@/lib/webhooks';
+
+type RouteCtx = { params: Promise<{ companyId: string; webhookId: string }> };
+
+// Delivery history, e.g. ?status=failed&event=integration.run.failed&limit=25&offset=0
+async function handleListDeliveries(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { webhookId } = await routeContext.params;
+    const { searchParams } = request.nextUrl;
+
+    const status = searchParams.get('status') as WebhookDeliveryStatus | null;
+    if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${WEBHOOK_DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const eventType = searchParams.get('event') as WebhookEvent | null;
+    if (eventType && !WEBHOOK_EVENTS.includes(eventType)) {
+      return NextResponse.json(
+        { error: `event must be one of ${WEBHOOK_EVENTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), MAX_WEBHOOK_DELIVERIES_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0);
+
+    const result = await listWebhookDeliveries(context.company.id, webhookId, {
+      ...(status && { status }),
+      ...(eventType && { eventType }),
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to load webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to load webhook deliveries' }, { status: 500 });
+  }
+}
+
+export const GET = withCompanyAuth(handleListDeliveries, { permission: 'integrations.configure' });
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  WebhookError,
+  deleteWebhookEndpoint,
+  getWebhookEndpoint,
+  updateWebhookEndpoint,
+} from '@/lib/webhooks';
+
+type RouteCtx = { params: Promise<{ companyId: string; webhookId: string }> };
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof WebhookError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+async function handleGetWebhook(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { webhookId } = await routeContext.params;
+    const endpoint = await getWebhookEndpoint(context.company.id, webhookId);
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load webhook');
+  }
+}
+
+// Change url, description, events or isActive; { "rotateSecret": true } returns a new secret
+async function handleUpdateWebhook(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { webhookId } = await routeContext.params;
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const previous = await getWebhookEndpoint(context.company.id, webhookId);
+    const { endpoint, secret } = await updateWebhookEndpoint(context.company.id, webhookId, {
+      url: body.url,
+      description: body.description,
+      events: body.events,
+      isActive: body.isActive,
+      rotateSecret: body.rotateSecret === true,
+    });
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'webhook_endpoints',
+      operation: 'UPDATE',
+      old_data: { url: previous.url, events: previous.events, is_active: previous.is_active },
+      new_data: { url: endpoint.url, events: endpoint.events, is_active: endpoint.is_active },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: secret ? 'webhook_secret_rotated' : 'webhook_updated',
+        company_id: context.company.id,
+        webhook_id: webhookId,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint, ...(secret && { secret }) },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update webhook');
+  }
+}
+
+async function handleDeleteWebhook(request: NextRequest, context: CompanyAuthContext, routeContext: RouteCtx) {
+  try {
+    const { webhookId } = await routeContext.params;
+    const endpoint = await deleteWebhookEndpoint(context.company.id, webhookId);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'webhook_endpoints',
+      operation: 'DELETE',
+      old_data: { id: endpoint.id, url: endpoint.url, events: endpoint.events },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'webhook_deleted',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete webhook');
+  }
+}
+
+export const GET = withCompanyAuth(handleGetWebhook, { permission: 'integrations.configure' });
+export const PATCH = withCompanyAuth(handleUpdateWebhook, { permission: 'company.manage' });
+export const DELETE = withCompanyAuth(handleDeleteWebhook, { permission: 'company.manage' });
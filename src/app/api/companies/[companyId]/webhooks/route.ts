@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withCompanyAuth, CompanyAuthContext } from '@/lib/auth-middleware';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+} from '@/lib/webhooks';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof WebhookError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// Registered endpoints and the events they can subscribe to
+async function handleListWebhooks(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const endpoints = await listWebhookEndpoints(context.company.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoints, events: WEBHOOK_EVENTS },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load webhooks');
+  }
+}
+
+// Register an endpoint, e.g. { "url": "https://example.com/hooks", "events": ["integration.run.failed"] }.
+// The response carries the signing secret, which is not shown again.
+async function handleCreateWebhook(request: NextRequest, context: CompanyAuthContext) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { endpoint, secret } = await createWebhookEndpoint(context.company.id, context.user.id, {
+      url: body.url,
+      description: body.description,
+      events: body.events,
+    });
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'webhook_endpoints',
+      operation: 'INSERT',
+      new_data: { id: endpoint.id, url: endpoint.url, events: endpoint.events },
+      user_id: context.user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'webhook_created',
+        company_id: context.company.id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint, secret },
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create webhook');
+  }
+}
+
+export const GET = withCompanyAuth(handleListWebhooks, { permission: 'integrations.configure' });
+export const POST = withCompanyAuth(handleCreateWebhook, { permission: 'company.manage' });
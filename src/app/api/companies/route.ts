@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
 import { createClient } from '@supabase/supabase-js';
 import prisma from '@/lib/prisma';
+import { getPermissionsForMemberships } from '@/lib/role-permissions';
 
 // Get user's companies
 export async function GET(request: NextRequest) {
@@ -60,12 +61,16 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // Resolve each role through the company's role → permission mapping
+    const permissionsByCompany = await getPermissionsForMemberships(companyUsers);
+
     // Combine company data with user roles
     const companiesWithRoles = companies.map(company => {
       const userRole = companyUsers.find(cu => cu.company_id === company.id)?.role;
       return {
         ...company,
         userRole,
+        permissions: permissionsByCompany[company.id] || [],
       };
     });
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabaseServer';
 import { auditLogger } from '@/lib/audit-logger';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
 
 // Get company's connected services
 export async function GET(
@@ -229,10 +230,11 @@ export async function DELETE(
       error: roleError?.message || 'none' 
     });
 
-    // Check if user has permission to delete connections (admin or owner)
-    if (!userRole || !['admin', 'owner'].includes(userRole.role)) {
+    // Check if user's role grants integrations.configure
+    const permissions = userRole ? await getCompanyPermissionsForRole(companyId, userRole.role) : [];
+    if (!permissions.includes('integrations.configure')) {
       return NextResponse.json(
-        { error: 'Insufficient permissions. Admin or owner role required.' }, 
+        { error: 'Insufficient permissions. The integrations.configure permission is required.' }, 
         { status: 403 }
       );
     }
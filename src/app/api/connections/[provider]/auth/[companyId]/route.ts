@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { checkCompanyPermission } from '@/lib/auth';
+import { auditLogger } from '@/lib/audit-logger';
+import { buildAuthorizeUrl, getOAuthProvider, OAuthProviderError } from '@/lib/oauth-providers';
+import {
+  createOAuthState,
+  OAUTH_BINDING_COOKIE_NAME,
+  OAUTH_STATE_TTL_SECONDS,
+  resolveOAuthLocale
+} from '@/lib/oauth-state';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string; companyId: string }> }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { provider: providerKey, companyId } = await params;
+
+    // Check if user has permission to manage connections for this company
+    const { hasPermission } = await checkCompanyPermission(
+      authResult.user,
+      companyId,
+      ['admin', 'owner']
+    );
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const provider = await getOAuthProvider(providerKey);
+
+    // Signed single-use state, stored server-side with the PKCE verifier
+    const { state, codeChallenge, binding } = await createOAuthState({
+      provider: provider.key,
+      companyId,
+      userId: authResult.user.id,
+      locale: resolveOAuthLocale(request),
+      pkce: provider.pkce
+    });
+
+    const authUrl = buildAuthorizeUrl(provider, state, codeChallenge);
+
+    // Log the OAuth initiation
+    await auditLogger.logAuditEvent({
+      table_name: 'oauth_connections',
+      operation: 'INSERT',
+      user_id: authResult.user.id,
+      metadata: {
+        action: `${provider.key}_oauth_initiated`,
+        company_id: companyId,
+        scopes: provider.scopes,
+        pkce: provider.pkce
+      }
+    });
+
+    const response = NextResponse.json({ authUrl });
+
+    // Bind the state to this browser; only the callback ever sees the cookie
+    response.cookies.set(OAUTH_BINDING_COOKIE_NAME, binding, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: `/api/connections/${provider.key}/callback`,
+      maxAge: OAUTH_STATE_TTL_SECONDS
+    });
+
+    return response;
+  } catch (error) {
+    if (error instanceof OAuthProviderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+
+    console.error('Error initiating OAuth:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
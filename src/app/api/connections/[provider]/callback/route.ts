@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { authenticateRequest } from '@/lib/auth';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import {
+  exchangeAuthorizationCode,
+  fetchOAuthUserInfo,
+  getOAuthProvider,
+  OAuthProviderError
+} from '@/lib/oauth-providers';
+import {
+  consumeOAuthState,
+  OAUTH_BINDING_COOKIE_NAME,
+  OAuthStateError,
+  peekOAuthStateLocale
+} from '@/lib/oauth-state';
+import { storeOAuthTokens } from '@/lib/oauth-tokens';
+import { routing } from '@/i18n/routing';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerKey } = await params;
+  console.log(`[OAUTH-CALLBACK] ${providerKey} OAuth callback initiated`);
+
+  const { searchParams } = new URL(request.url);
+  const state = searchParams.get('state');
+  let locale = routing.defaultLocale as string;
+
+  const redirectTo = (path: string) => {
+    const response = NextResponse.redirect(new URL(`/${locale}${path}`, request.url));
+    response.cookies.delete({ name: OAUTH_BINDING_COOKIE_NAME, path: `/api/connections/${providerKey}/callback` });
+    return response;
+  };
+
+  try {
+    const code = searchParams.get('code');
+    const error = searchParams.get('error');
+
+    console.log('[OAUTH-CALLBACK] URL parameters:', { 
+      hasCode: !!code, 
+      hasState: !!state, 
+      error: error || 'none' 
+    });
+
+    if (!state) {
+      console.error('[OAUTH-CALLBACK] Missing state parameter');
+      return redirectTo('/companies/settings?tab=connections&error=missing_parameters');
+    }
+
+    // Verify and burn the state before anything else; it can never be used twice
+    const authResult = await authenticateRequest(request);
+    let stateData;
+    try {
+      stateData = await consumeOAuthState({
+        state,
+        provider: providerKey,
+        binding: request.cookies.get(OAUTH_BINDING_COOKIE_NAME)?.value,
+        userId: authResult.user?.id
+      });
+    } catch (stateError) {
+      if (!(stateError instanceof OAuthStateError)) throw stateError;
+
+      locale = await peekOAuthStateLocale(state);
+      console.error('[OAUTH-CALLBACK] State rejected:', stateError.message);
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logSecurityEvent({
+        event_type: 'SUSPICIOUS_ACTIVITY',
+        severity: 'MEDIUM',
+        description: `Rejected ${providerKey} OAuth callback: ${stateError.message}`,
+        user_id: authResult.user?.id,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        metadata: { provider: providerKey, reason: stateError.code }
+      });
+      return redirectTo(`/companies/settings?tab=connections&error=${stateError.code}`);
+    }
+
+    const { companyId, userId, codeVerifier } = stateData;
+    locale = stateData.locale;
+    const settingsUrl = `/companies/${companyId}/settings?tab=connections`;
+
+    if (error) {
+      console.error(`[OAUTH-CALLBACK] OAuth error from ${providerKey}:`, error);
+      return redirectTo(`${settingsUrl}&error=${encodeURIComponent(error)}`);
+    }
+
+    if (!code) {
+      console.error('[OAUTH-CALLBACK] Missing authorization code');
+      return redirectTo(`${settingsUrl}&error=missing_parameters`);
+    }
+
+    const provider = await getOAuthProvider(providerKey);
+
+    if (provider.pkce && !codeVerifier) {
+      console.error('[OAUTH-CALLBACK] Missing PKCE code verifier');
+      return redirectTo(`${settingsUrl}&error=invalid_state`);
+    }
+
+    // Exchange authorization code for tokens
+    console.log(`[OAUTH-CALLBACK] Starting token exchange with ${provider.name}`);
+    let tokens;
+    try {
+      tokens = await exchangeAuthorizationCode(provider, code, codeVerifier || undefined);
+    } catch (exchangeError) {
+      console.error('[OAUTH-CALLBACK] Token exchange failed:', exchangeError);
+      return redirectTo(`${settingsUrl}&error=token_exchange_failed`);
+    }
+
+    console.log('[OAUTH-CALLBACK] Token exchange response:', { 
+      hasAccessToken: !!tokens.access_token,
+      hasRefreshToken: !!tokens.refresh_token,
+      expiresIn: tokens.expires_in,
+      scope: tokens.scope
+    });
+
+    // Get account info from the provider
+    let userInfo;
+    try {
+      userInfo = await fetchOAuthUserInfo(provider, tokens.access_token);
+    } catch (userInfoError) {
+      console.error('[OAUTH-CALLBACK] Failed to get user info:', userInfoError);
+      return redirectTo(`${settingsUrl}&error=user_info_failed`);
+    }
+
+    // Some providers omit scope from the token response; fall back to what was requested
+    const grantedScopes: string[] = typeof tokens.scope === 'string'
+      ? tokens.scope.split(/[\s,]+/).filter(Boolean)
+      : provider.scopes;
+
+    const tokenData = {
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+      expires_at: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+      scope: grantedScopes.join(' '),
+    };
+
+    // Store encrypted tokens in secrets table
+    let secretId: string;
+    try {
+      secretId = await storeOAuthTokens(companyId, provider.key, tokenData, userId);
+    } catch (secretError) {
+      console.error('[OAUTH-CALLBACK] Failed to store tokens in secrets table:', secretError);
+      return redirectTo(`${settingsUrl}&error=token_storage_failed`);
+    }
+
+    // Store the connection
+    const supabase = createSupabaseServiceClient();
+    const accountLabel = userInfo?.email || userInfo?.name;
+    const connectionData = {
+      company_id: companyId,
+      connection_id: provider.connectionId,
+      name: accountLabel ? `${provider.name} (${accountLabel})` : provider.name,
+      status: 'connected',
+      connected_at: new Date().toISOString(),
+      connected_by: userId,
+      config: {
+        user_info: userInfo ? {
+          email: userInfo.email,
+          name: userInfo.name,
+          picture: userInfo.picture,
+          [`${provider.key}_id`]: userInfo.id,
+        } : null,
+        secret_id: secretId,
+        scopes: grantedScopes
+      },
+      last_sync_at: new Date().toISOString(),
+      sync_status: 'success',
+      error_message: null
+    };
+
+    const { error: insertError } = await supabase
+      .from('company_connections')
+      .upsert(connectionData, {
+        onConflict: 'company_id,connection_id'
+      });
+
+    if (insertError) {
+      console.error('[OAUTH-CALLBACK] Failed to store connection:', insertError);
+      return redirectTo(`${settingsUrl}&error=storage_failed`);
+    }
+
+    // Log successful connection
+    await auditLogger.logAuditEvent({
+      table_name: 'company_connections',
+      operation: 'INSERT',
+      user_id: userId,
+      metadata: {
+        action: `${provider.key}_oauth_completed`,
+        company_id: companyId,
+        account_email: userInfo?.email,
+        scopes: tokenData.scope,
+        connection_id: provider.connectionId
+      }
+    });
+
+    console.log(`[OAUTH-CALLBACK] ${provider.name} OAuth flow completed successfully`);
+    return redirectTo(`${settingsUrl}&success=${provider.key}_connected`);
+  } catch (error) {
+    if (error instanceof OAuthProviderError) {
+      console.error('[OAUTH-CALLBACK] Provider error:', error.message);
+      return redirectTo(`/companies/settings?tab=connections&error=${error.code.toLowerCase()}`);
+    }
+
+    console.error('[OAUTH-CALLBACK] Unexpected error in OAuth callback:', error);
+    return redirectTo('/companies/settings?tab=connections&error=callback_failed');
+  }
+}
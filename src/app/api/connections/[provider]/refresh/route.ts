@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, checkCompanyPermission } from '@/lib/auth';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { auditLogger } from '@/lib/audit-logger';
+import { decryptOAuthTokens } from '@/lib/encryption';
+import { getOAuthProvider, OAuthProviderError } from '@/lib/oauth-providers';
+import { getOAuthSecretKey, refreshOAuthTokens } from '@/lib/oauth-tokens';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    // Authenticate user
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { provider: providerKey } = await params;
+    const { companyId } = await request.json();
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: 'Missing companyId' },
+        { status: 400 }
+      );
+    }
+
+    const { hasPermission } = await checkCompanyPermission(
+      authResult.user,
+      companyId,
+      ['admin', 'owner']
+    );
+
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const provider = await getOAuthProvider(providerKey);
+    const supabase = createSupabaseServiceClient();
+
+    // Get the current tokens
+    const { data: secret, error: fetchError } = await supabase
+      .from('secrets')
+      .select('encrypted_value')
+      .eq('company_id', companyId)
+      .eq('key', getOAuthSecretKey(provider.key, companyId))
+      .single();
+
+    if (fetchError || !secret) {
+      return NextResponse.json(
+        { error: `${provider.name} is not connected` },
+        { status: 404 }
+      );
+    }
+
+    let tokens;
+    try {
+      tokens = await decryptOAuthTokens(companyId, secret.encrypted_value);
+    } catch (error) {
+      console.error('Failed to decrypt tokens:', error);
+      return NextResponse.json(
+        { error: 'Failed to decrypt tokens' },
+        { status: 500 }
+      );
+    }
+
+    if (!tokens.refresh_token) {
+      return NextResponse.json(
+        { error: 'No refresh token available' },
+        { status: 400 }
+      );
+    }
+
+    const refreshed = await refreshOAuthTokens(companyId, provider.key, tokens.refresh_token);
+
+    if (!refreshed) {
+      // The refresh token is no longer usable; the company has to reconnect
+      await supabase
+        .from('company_connections')
+        .update({
+          status: 'error',
+          sync_status: 'error',
+          error_message: 'Token refresh failed. Please reconnect.',
+        })
+        .eq('company_id', companyId)
+        .eq('connection_id', provider.connectionId);
+
+      return NextResponse.json(
+        { error: 'Token refresh failed' },
+        { status: 400 }
+      );
+    }
+
+    await supabase
+      .from('company_connections')
+      .update({
+        status: 'connected',
+        sync_status: 'success',
+        error_message: null,
+        last_sync_at: new Date().toISOString(),
+      })
+      .eq('company_id', companyId)
+      .eq('connection_id', provider.connectionId);
+
+    // Log the token refresh
+    await auditLogger.logAuditEvent({
+      table_name: 'company_connections',
+      operation: 'UPDATE',
+      user_id: authResult.user.id,
+      metadata: {
+        action: `${provider.key}_tokens_refreshed`,
+        company_id: companyId,
+        connection_id: provider.connectionId,
+      }
+    });
+
+    return NextResponse.json({ success: true, expiresAt: refreshed.expires_at });
+  } catch (error) {
+    if (error instanceof OAuthProviderError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode });
+    }
+
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
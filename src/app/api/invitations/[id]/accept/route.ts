@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import prisma from '@/lib/prisma';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 // POST endpoint for accepting a company invitation
 export async function POST(
@@ -149,6 +150,7 @@ export async function POST(
       await tx.notifications.create({
         data: {
           userId: invitation.invitedBy,
+          companyId: invitation.companyId,
           type: 'invitation_accepted',
           title: 'Invitation Accepted',
           message: `${user.email} accepted your invitation to join the company.`,
@@ -163,6 +165,17 @@ export async function POST(
       });
     });
 
+    try {
+      await emitWebhookEvent(invitation.companyId, 'member.joined', {
+        user_id: user.id,
+        email: user.email,
+        role: invitation.role,
+        invitation_id: invitationId,
+      });
+    } catch (webhookError) {
+      console.error('Failed to emit member.joined webhook:', webhookError);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Invitation accepted successfully',
@@ -94,6 +94,7 @@ export async function POST(
       await tx.notifications.create({
         data: {
           userId: invitation.invitedBy,
+          companyId: invitation.companyId,
           type: 'invitation_rejected',
           title: 'Invitation Declined',
           message: `${user.email} declined your invitation to join the company.`,
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth';
+import { isUuid } from '@/lib/log-stream';
+import {
+  NotificationError,
+  NotificationPreference,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notifications';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof NotificationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback, code: 'INTERNAL_ERROR' }, { status: 500 });
+}
+
+async function resolveRequest(request: NextRequest) {
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const companyId = request.nextUrl.searchParams.get('company_id');
+  if (!companyId || !isUuid(companyId)) {
+    return {
+      response: NextResponse.json(
+        { error: 'company_id must be a UUID', code: 'INVALID_COMPANY_ID' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { userId: authResult.user.id, companyId };
+}
+
+// GET /api/notifications/preferences?company_id=<uuid>
+// The caller's delivery choices for every configurable notification type in one company
+export async function GET(request: NextRequest) {
+  try {
+    const resolved = await resolveRequest(request);
+    if ('response' in resolved) return resolved.response;
+
+    const preferences = await getNotificationPreferences(resolved.userId, resolved.companyId);
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load notification preferences');
+  }
+}
+
+// PUT /api/notifications/preferences?company_id=<uuid>
+// Body: { preferences: [{ type, inApp, email, digest }] }; types left out keep their setting
+export async function PUT(request: NextRequest) {
+  try {
+    const resolved = await resolveRequest(request);
+    if ('response' in resolved) return resolved.response;
+
+    const body = await request.json().catch(() => null);
+    if (!body || !Array.isArray(body.preferences)) {
+      return NextResponse.json(
+        { error: 'preferences must be an array', code: 'VALIDATION_ERROR' },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await updateNotificationPreferences(
+      resolved.userId,
+      resolved.companyId,
+      body.preferences as NotificationPreference[]
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to save notification preferences');
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import prisma from '@/lib/prisma';
+import { NOTIFICATION_TYPES, inAppNotificationFilter } from '@/lib/notifications';
+import { isUuid } from '@/lib/log-stream';
+import { notification_type } from '@prisma/client';
 
 // GET endpoint for fetching user notifications
 export async function GET(request: NextRequest) {
@@ -38,11 +41,35 @@ export async function GET(request: NextRequest) {
     const offset = parseInt(searchParams.get('offset') || '0');
     const unreadOnly = searchParams.get('unread_only') === 'true';
 
-    // Build where clause
-    const where: any = {
+    // Filters, e.g. ?type=integration_failed,alert_triggered&company_id=<uuid>
+    const types = searchParams.get('type')?.split(',').map(type => type.trim()).filter(Boolean) ?? [];
+    const unknownType = types.find(type => !NOTIFICATION_TYPES.includes(type as notification_type));
+    if (unknownType) {
+      return NextResponse.json(
+        { error: `Unknown notification type: ${unknownType}`, code: 'INVALID_TYPE' },
+        { status: 400 }
+      );
+    }
+
+    const companyId = searchParams.get('company_id');
+    if (companyId && !isUuid(companyId)) {
+      return NextResponse.json(
+        { error: 'company_id must be a UUID', code: 'INVALID_COMPANY_ID' },
+        { status: 400 }
+      );
+    }
+
+    // Types the user turned off in-app for a company stay out of the list and the count
+    const baseWhere: any = {
       userId: user.id,
+      ...(await inAppNotificationFilter(user.id)),
+      ...(types.length > 0 && { type: { in: types as notification_type[] } }),
+      ...(companyId && { companyId }),
     };
 
+    // Build where clause
+    const where: any = { ...baseWhere };
+
     if (unreadOnly) {
       where.read = false;
     }
@@ -72,12 +99,19 @@ export async function GET(request: NextRequest) {
               },
             },
           },
+          company_ownership_transfers: {
+            select: {
+              id: true,
+              status: true,
+              expires_at: true,
+            },
+          },
         },
       }),
       // Get unread count
       prisma.notifications.count({
         where: {
-          userId: user.id,
+          ...baseWhere,
           read: false,
         },
       }),
@@ -93,6 +127,7 @@ export async function GET(request: NextRequest) {
         data: notification.data,
         read: notification.read,
         actionUrl: notification.actionUrl,
+        companyId: notification.companyId,
         createdAt: notification.createdAt,
         expiresAt: notification.expiresAt,
         // Add related invitation data if available
@@ -103,6 +138,12 @@ export async function GET(request: NextRequest) {
           company: notification.company_invitations[0].company,
           inviter: notification.company_invitations[0].inviter,
         } : null,
+        // Add related ownership transfer if available
+        ownershipTransfer: notification.company_ownership_transfers[0] ? {
+          id: notification.company_ownership_transfers[0].id,
+          status: notification.company_ownership_transfers[0].status,
+          expiresAt: notification.company_ownership_transfers[0].expires_at,
+        } : null,
       };
     });
 
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { OwnershipTransferError, acceptOwnershipTransfer } from '@/lib/ownership-transfer';
+
+// POST endpoint for accepting a company ownership transfer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Get authorization header
+    const authHeader = request.headers.get('authorization');
+    
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+
+    // Create Supabase client and verify token
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required', code: 'UNAUTHORIZED' },
+        { status: 401 }
+      );
+    }
+
+    const { id: transferId } = await params;
+
+    const transfer = await acceptOwnershipTransfer(transferId, user.id);
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logAuditEvent({
+      table_name: 'company_ownership_transfers',
+      operation: 'UPDATE',
+      old_data: { id: transfer.id, status: 'pending' },
+      new_data: { id: transfer.id, status: transfer.status },
+      user_id: user.id,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata: {
+        action: 'ownership_transfer_accepted',
+        company_id: transfer.company_id,
+        from_user_id: transfer.from_user_id,
+        to_user_id: transfer.to_user_id,
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Ownership transferred successfully',
+      data: {
+        company_id: transfer.company_id,
+        role: 'owner',
+        redirect_url: `/en/companies/${transfer.company_id}`,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof OwnershipTransferError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error accepting ownership transfer:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        code: 'INTERNAL_ERROR',
+        message: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,7 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
-
-// Helper function to normalize customer IDs (remove dashes and spaces)
-function normalizeCustomerId(customerId: string): string {
-  return customerId.replace(/[-\s]/g, '');
-}
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
+import { normalizeCustomerId, searchGoogleAdsStream } from '@/lib/google-ads'
 
 /**
  * GOOGLE ADS CAMPAIGNS API ROUTE
@@ -21,7 +18,7 @@ function normalizeCustomerId(customerId: string): string {
 
 // TypeScript interfaces to define what data looks like
 interface GoogleAdsCampaignRequest {
-  companyId: string     // Company ID to get OAuth tokens for
+  companyId?: string    // Optional; must match the plugin token's company
   customerId: string    // Google Ads Customer ID (looks like: 123-456-7890)
   loginCustomerId?: string // MCC Customer ID for accessing child accounts (optional)
   query?: string        // GAQL query (Google's SQL-like language for ads data)
@@ -50,11 +47,11 @@ interface GoogleAdsCampaignResponse {
  * URL: /api/plugins/google/ads/campaigns?customerId=123-456-7890
  * Usage: Plugin calls this to get all campaigns for a customer
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract parameters from URL
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const rawCustomerId = searchParams.get('customerId')
     const rawLoginCustomerId = searchParams.get('loginCustomerId') // MCC ID for child account access
 
@@ -63,9 +60,6 @@ export async function GET(request: NextRequest) {
     const loginCustomerId = rawLoginCustomerId ? normalizeCustomerId(rawLoginCustomerId) : null;
     
     // Validate required parameters
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!customerId) {
       return Response.json({ error: 'customerId is required' }, { status: 400 })
     }
@@ -101,40 +95,7 @@ export async function GET(request: NextRequest) {
     `
 
     // STEP 4: Make the actual API call to Google Ads with version negotiation
-    // Try different API versions for compatibility with accounts endpoint
-    const apiVersions = ['v21', 'v20', 'v19']; // Use same versions as accounts endpoint
-    let response = null;
-    let workingVersion = 'v21';
-
-    for (const version of apiVersions) {
-      try {
-        console.log(`[ADS-CAMPAIGNS] Trying Google Ads API ${version} for customer ${customerId}`);
-
-        response = await fetch(`https://googleads.googleapis.com/${version}/customers/${customerId}/googleAds:searchStream`, {
-          method: 'POST', // Google Ads API uses POST even for reading data
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,           // OAuth token for authentication
-            'developer-token': process.env.GOOGLE_ADS_DEVELOPER_TOKEN!, // Your Google Ads API developer token
-            'Content-Type': 'application/json',
-            'login-customer-id': loginCustomerId || customerId // Use MCC ID if provided, otherwise use customer ID
-          },
-          body: JSON.stringify({
-            query: defaultQuery // The GAQL query we prepared above
-          })
-        });
-
-        if (response.ok) {
-          workingVersion = version;
-          console.log(`[ADS-CAMPAIGNS] SUCCESS with ${version} for customer ${customerId}`);
-          break;
-        } else {
-          console.log(`[ADS-CAMPAIGNS] ${version} failed with ${response.status} for customer ${customerId}`);
-        }
-      } catch (error) {
-        console.log(`[ADS-CAMPAIGNS] ${version} threw error for customer ${customerId}:`, error);
-        continue;
-      }
-    }
+    const { response } = await searchGoogleAdsStream(accessToken, customerId, loginCustomerId, defaultQuery, 'ADS-CAMPAIGNS')
 
     // STEP 5: Handle API errors
     if (!response) {
@@ -201,19 +162,17 @@ export async function GET(request: NextRequest) {
  * Usage: When plugins need specific data with custom queries
  * Body: { customerId: "123-456-7890", query: "SELECT campaign.name FROM campaign" }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Parse request body
     const body: GoogleAdsCampaignRequest = await request.json()
-    const { companyId, customerId: rawCustomerId, loginCustomerId: rawLoginCustomerId, query } = body
+    const { customerId: rawCustomerId, loginCustomerId: rawLoginCustomerId, query } = body
+    const { companyId } = plugin
 
     // Normalize customer IDs
     const customerId = rawCustomerId ? normalizeCustomerId(rawCustomerId) : null;
     const loginCustomerId = rawLoginCustomerId ? normalizeCustomerId(rawLoginCustomerId) : null;
 
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!customerId) {
       return Response.json({ error: 'customerId is required' }, { status: 400 })
     }
@@ -241,39 +200,7 @@ export async function POST(request: NextRequest) {
     `
 
     // STEP 4: Make Google Ads API call with version fallback
-    const apiVersions = ['v21', 'v20', 'v19'];
-    let response = null;
-    let workingVersion = 'v21';
-
-    for (const version of apiVersions) {
-      try {
-        console.log(`[ADS-CAMPAIGNS-POST] Trying Google Ads API ${version} for customer ${customerId}`);
-
-        response = await fetch(`https://googleads.googleapis.com/${version}/customers/${customerId}/googleAds:searchStream`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'developer-token': process.env.GOOGLE_ADS_DEVELOPER_TOKEN!,
-            'Content-Type': 'application/json',
-            'login-customer-id': loginCustomerId || customerId // Use MCC ID if provided
-          },
-          body: JSON.stringify({
-            query: gaqlQuery
-          })
-        });
-
-        if (response.ok) {
-          workingVersion = version;
-          console.log(`[ADS-CAMPAIGNS-POST] SUCCESS with ${version} for customer ${customerId}`);
-          break;
-        } else {
-          console.log(`[ADS-CAMPAIGNS-POST] ${version} failed with ${response.status} for customer ${customerId}`);
-        }
-      } catch (error) {
-        console.log(`[ADS-CAMPAIGNS-POST] ${version} threw error for customer ${customerId}:`, error);
-        continue;
-      }
-    }
+    const { response, version: workingVersion } = await searchGoogleAdsStream(accessToken, customerId, loginCustomerId, gaqlQuery, 'ADS-CAMPAIGNS-POST')
 
     if (!response || !response.ok) {
       const errorText = response ? await response.text() : 'All API versions failed';
@@ -296,4 +223,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE ADS KEYWORDS API ROUTE
@@ -15,7 +16,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GoogleAdsKeywordRequest {
-  companyId: string      // Company ID to get OAuth tokens for
+  companyId?: string     // Optional; must match the plugin token's company
   customerId: string     // Google Ads Customer ID
   campaignId?: string    // Optional: filter keywords by specific campaign
   adGroupId?: string     // Optional: filter keywords by specific ad group
@@ -59,18 +60,15 @@ interface GoogleAdsKeywordResponse {
  * - /api/plugins/google/ads/keywords?customerId=123&campaignId=456 (campaign keywords)
  * - /api/plugins/google/ads/keywords?customerId=123&adGroupId=789 (ad group keywords)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract parameters from URL
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const customerId = searchParams.get('customerId')
     const campaignId = searchParams.get('campaignId')
     const adGroupId = searchParams.get('adGroupId')
     
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!customerId) {
       return Response.json({ error: 'customerId is required' }, { status: 400 })
     }
@@ -200,14 +198,12 @@ export async function GET(request: NextRequest) {
  * Usage: For complex keyword analysis with custom GAQL
  * Body: { customerId: "123-456-7890", query: "SELECT ... FROM keyword_view WHERE ..." }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleAdsKeywordRequest = await request.json()
-    const { companyId, customerId, query } = body
+    const { customerId, query } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!customerId) {
       return Response.json({ error: 'customerId is required' }, { status: 400 })
     }
@@ -269,4 +265,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE ANALYTICS ACCOUNTS API ROUTE
@@ -40,15 +41,10 @@ interface GoogleAnalyticsAccountsResponse {
  * Returns: Hierarchical list of accounts → properties → views
  * Purpose: Help plugins find the correct View ID to use for reports
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
-    // STEP 1: Extract companyId from query parameters
-    const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
-    
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
+    // STEP 1: Company comes from the verified plugin token
+    const { companyId } = plugin
 
     // STEP 2: Get OAuth access token from database
     console.log(`[ANALYTICS-ACCOUNTS] Getting Google OAuth tokens for company: ${companyId}`)
@@ -187,14 +183,12 @@ export async function GET(request: NextRequest) {
  * Usage: Get details for specific account or property
  * Body: { accountId: "12345" } or { accountId: "12345", propertyId: "UA-12345-1" }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body = await request.json()
-    const { companyId, accountId, propertyId } = body
+    const { accountId, propertyId } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!accountId) {
       return Response.json({ error: 'accountId is required' }, { status: 400 })
     }
@@ -259,4 +253,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.analytics, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.analytics, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE ANALYTICS REPORTS API ROUTE
@@ -19,7 +20,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GoogleAnalyticsReportRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   viewId: string              // Analytics View ID (like "123456789")
   dateRange: {
     startDate: string         // Format: "YYYY-MM-DD" (e.g., "2024-01-01")
@@ -66,19 +67,16 @@ interface GoogleAnalyticsResponse {
  * URL: /api/plugins/google/analytics/reports?viewId=123456789&startDate=2024-01-01&endDate=2024-01-31
  * Returns: Sessions, users, pageviews by day for the specified period
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract query parameters
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const viewId = searchParams.get('viewId')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
     
     // Validate required parameters
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!viewId) {
       return Response.json({ error: 'viewId is required' }, { status: 400 })
     }
@@ -200,14 +198,12 @@ export async function GET(request: NextRequest) {
  * Usage: For complex reports with custom metrics, dimensions, and filters
  * Body: { viewId: "123456789", dateRange: {...}, metrics: [...], dimensions: [...] }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleAnalyticsReportRequest = await request.json()
-    const { companyId, viewId, dateRange, metrics, dimensions, filters, orderBy, pageSize } = body
+    const { viewId, dateRange, metrics, dimensions, filters, orderBy, pageSize } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
     if (!viewId || !dateRange) {
       return Response.json({ error: 'viewId and dateRange are required' }, { status: 400 })
     }
@@ -271,4 +267,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.analytics, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.analytics, handlePost)
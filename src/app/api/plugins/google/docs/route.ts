@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE DOCS API ROUTE
@@ -21,14 +22,14 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GoogleDocsRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   documentId: string          // Google Docs document ID
   includeContent?: boolean    // Whether to include full document content
   suggestionsViewMode?: 'PREVIEW_SUGGESTIONS_ACCEPTED' | 'PREVIEW_WITHOUT_SUGGESTIONS'
 }
 
 interface GoogleDocsCreateRequest {
-  companyId: string          // Company ID to get OAuth tokens for
+  companyId?: string         // Optional; must match the plugin token's company
   title: string              // Document title
   content?: string           // Initial content (plain text)
   folderId?: string         // Parent folder ID in Drive
@@ -78,20 +79,15 @@ interface GoogleDocsResponse {
  * URL: /api/plugins/google/docs?documentId=1ABC2DEF3GHI&includeContent=true
  * Returns: Document metadata and content
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract query parameters
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const documentId = searchParams.get('documentId')
     const includeContent = searchParams.get('includeContent') === 'true'
     const suggestionsViewMode = searchParams.get('suggestionsViewMode') || 'PREVIEW_SUGGESTIONS_ACCEPTED'
     
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!documentId) {
       return Response.json({ 
         error: 'documentId is required' 
@@ -232,16 +228,12 @@ export async function GET(request: NextRequest) {
  * Usage: Create new documents from templates or with initial content
  * Body: { title: "My Document", content: "Initial text content", folderId: "folder123" }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleDocsCreateRequest = await request.json()
-    const { companyId, title, content, folderId } = body
+    const { title, content, folderId } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!title) {
       return Response.json({ 
         error: 'title is required' 
@@ -358,16 +350,12 @@ export async function POST(request: NextRequest) {
  * Usage: Update document content, formatting, or structure
  * Body: { documentId: "doc123", operations: [...] }
  */
-export async function PUT(request: NextRequest) {
+async function handlePut(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body = await request.json()
-    const { companyId, documentId, operations } = body
+    const { documentId, operations } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!documentId || !operations || !Array.isArray(operations)) {
       return Response.json({ 
         error: 'documentId and operations array are required' 
@@ -425,4 +413,8 @@ export async function PUT(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.docs, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.docs, handlePost)
+export const PUT = withPluginAuth(GOOGLE_PLUGIN_SCOPES.docs, handlePut)
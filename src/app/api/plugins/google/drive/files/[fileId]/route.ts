@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE DRIVE SINGLE FILE API ROUTE
@@ -13,19 +14,15 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  * 3. Returns formatted file information
  */
 
-export async function GET(
+async function handleGet(
   request: NextRequest,
+  plugin: PluginAuthContext,
   { params }: { params: Promise<{ fileId: string }> }
 ) {
   try {
-    const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const { fileId } = await params
 
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
-
     if (!fileId) {
       return Response.json({ error: 'fileId is required' }, { status: 400 })
     }
@@ -81,4 +78,6 @@ export async function GET(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.drive, handleGet)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE DRIVE FILES API ROUTE
@@ -68,11 +69,11 @@ interface GoogleDriveFileContentResponse {
  * - /api/plugins/google/drive/files?mimeType=application/pdf (only PDFs)
  * - /api/plugins/google/drive/files?folderId=1ABC2DEF3GHI (files in specific folder)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract query parameters
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const folderId = searchParams.get('folderId')
     const query = searchParams.get('query')
     const mimeType = searchParams.get('mimeType')
@@ -80,11 +81,6 @@ export async function GET(request: NextRequest) {
     const pageToken = searchParams.get('pageToken')
 
     // Validate required parameters
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
 
     // Validate pageSize
     if (pageSize > 1000) {
@@ -210,16 +206,12 @@ export async function GET(request: NextRequest) {
  * Usage: Download file content or get detailed file information
  * Body: { fileIds: ["1ABC2DEF", "3GHI4JKL"], includeContent: true }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body = await request.json()
-    const { companyId, fileIds, includeContent = false, exportFormat } = body
+    const { fileIds, includeContent = false, exportFormat } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
 
     if (!fileIds || !Array.isArray(fileIds) || fileIds.length === 0) {
       return Response.json({ 
@@ -375,4 +367,7 @@ function getExportMimeType(googleMimeType: string): string {
     default:
       return 'text/plain' // Fallback
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.drive, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.drive, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GMAIL MESSAGES API ROUTE
@@ -18,7 +19,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GmailMessageRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   query?: string              // Gmail search query (like in Gmail search box)
   labelIds?: string[]         // Filter by labels (INBOX, SENT, SPAM, etc.)
   maxResults?: number         // Max messages to return (1-500, default 100)
@@ -69,22 +70,17 @@ interface GmailMessageDetailResponse {
  * - /api/plugins/google/gmail/messages?query=subject:receipt (messages with "receipt" in subject)
  * - /api/plugins/google/gmail/messages?labelIds=INBOX&maxResults=50 (50 inbox messages)
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract query parameters
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const query = searchParams.get('query')
     const labelIds = searchParams.get('labelIds')?.split(',') || undefined
     const maxResults = parseInt(searchParams.get('maxResults') || '100')
     const pageToken = searchParams.get('pageToken')
     const includeSpamTrash = searchParams.get('includeSpamTrash') === 'true'
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
 
     // Validate maxResults
     if (maxResults > 500) {
@@ -165,16 +161,12 @@ export async function GET(request: NextRequest) {
  * Usage: Get full message details including content, headers, attachments
  * Body: { messageIds: ["msg123", "msg456"], format: "full" }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body = await request.json()
-    const { companyId, messageIds, format = 'full' } = body
+    const { messageIds, format = 'full' } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
       return Response.json({ 
         error: 'messageIds array is required' 
@@ -285,4 +277,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.gmail, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.gmail, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE SEARCH CONSOLE SITES API ROUTE
@@ -16,7 +17,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface SearchConsolePerformanceRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   siteUrl: string             // Site URL like "https://example.com/" or "sc-domain:example.com"
   startDate: string           // Format: "YYYY-MM-DD"
   endDate: string             // Format: "YYYY-MM-DD" 
@@ -50,15 +51,10 @@ interface SearchConsolePerformanceResponse {
  * URL: /api/plugins/google/search-console/sites
  * Returns: List of websites the user can access in Search Console
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
-    // STEP 1: Extract companyId from query parameters
-    const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
-    
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 })
-    }
+    // STEP 1: Company comes from the verified plugin token
+    const { companyId } = plugin
 
     // STEP 2: Get OAuth access token from database
     console.log(`[SEARCH-CONSOLE] Getting Google OAuth tokens for company: ${companyId}`)
@@ -129,11 +125,10 @@ export async function GET(request: NextRequest) {
  *   dimensions: ["query", "page"]
  * }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: SearchConsolePerformanceRequest = await request.json()
     const { 
-      companyId,
       siteUrl, 
       startDate, 
       endDate, 
@@ -142,12 +137,8 @@ export async function POST(request: NextRequest) {
       rowLimit = 1000,
       startRow = 0
     } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!siteUrl || !startDate || !endDate) {
       return Response.json({ 
         error: 'siteUrl, startDate, and endDate are required' 
@@ -286,4 +277,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.searchConsole, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.searchConsole, handlePost)
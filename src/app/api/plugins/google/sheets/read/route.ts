@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE SHEETS READ API ROUTE
@@ -17,7 +18,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GoogleSheetsReadRequest {
-  companyId: string        // Company ID to get OAuth tokens for
+  companyId?: string       // Optional; must match the company the plugin token was issued for
   spreadsheetId: string    // ID from the sheets URL (long string like "1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms")
   ranges: string[]         // Array of ranges like ["Sheet1!A1:Z100", "Sheet2!A:A"]
   majorDimension?: 'ROWS' | 'COLUMNS'  // How to interpret data (default: ROWS)
@@ -39,20 +40,14 @@ interface GoogleSheetsResponse {
  * URL: /api/plugins/google/sheets/read?spreadsheetId=ABC123&range=Sheet1!A1:C10
  * Returns: Data from the specified range as a 2D array
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
-    // STEP 1: Extract parameters from URL
+    // STEP 1: Extract parameters from URL (company comes from the plugin token)
     const { searchParams } = new URL(request.url)
-    const companyId = searchParams.get('companyId')
+    const { companyId } = plugin
     const spreadsheetId = searchParams.get('spreadsheetId')
     const range = searchParams.get('range')
     const valueRenderOption = searchParams.get('valueRenderOption') || 'FORMATTED_VALUE'
-    
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
 
     if (!spreadsheetId || !range) {
       return Response.json({ 
@@ -142,16 +137,11 @@ export async function GET(request: NextRequest) {
  *   valueRenderOption: "FORMATTED_VALUE" 
  * }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleSheetsReadRequest = await request.json()
-    const { companyId, spreadsheetId, ranges, majorDimension, valueRenderOption } = body
-
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
+    const { spreadsheetId, ranges, majorDimension, valueRenderOption } = body
+    const { companyId } = plugin
 
     if (!spreadsheetId || !ranges || ranges.length === 0) {
       return Response.json({ 
@@ -244,4 +234,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.sheetsRead, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.sheetsRead, handlePost)
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * GOOGLE SHEETS WRITE API ROUTE
@@ -21,7 +22,7 @@ import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
  */
 
 interface GoogleSheetsWriteRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   spreadsheetId: string        // Spreadsheet ID from URL
   range: string               // Where to write (e.g., "Sheet1!A1:C3")
   values: string[][]          // 2D array of values to write
@@ -31,7 +32,7 @@ interface GoogleSheetsWriteRequest {
 }
 
 interface GoogleSheetsAppendRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   spreadsheetId: string
   range: string               // Sheet name or range where to append
   values: string[][]          // Data to append as new rows
@@ -40,7 +41,7 @@ interface GoogleSheetsAppendRequest {
 }
 
 interface GoogleSheetsClearRequest {
-  companyId: string           // Company ID to get OAuth tokens for
+  companyId?: string          // Optional; must match the plugin token's company
   spreadsheetId: string
   range: string               // Range to clear
 }
@@ -55,23 +56,18 @@ interface GoogleSheetsClearRequest {
  *   values: [["Name", "Age", "City"], ["John", "25", "NYC"]] 
  * }
  */
-export async function PUT(request: NextRequest) {
+async function handlePut(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleSheetsWriteRequest = await request.json()
     const { 
-      companyId,
       spreadsheetId, 
       range, 
       values, 
       valueInputOption = 'USER_ENTERED',
       responseValueRenderOption = 'FORMATTED_VALUE'
     } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!spreadsheetId || !range || !values) {
       return Response.json({ 
         error: 'spreadsheetId, range, and values are required' 
@@ -149,23 +145,18 @@ export async function PUT(request: NextRequest) {
  *   values: [["New Name", "30", "LA"], ["Another", "35", "SF"]] 
  * }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleSheetsAppendRequest = await request.json()
     const { 
-      companyId,
       spreadsheetId, 
       range, 
       values, 
       valueInputOption = 'USER_ENTERED',
       insertDataOption = 'INSERT_ROWS'
     } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!spreadsheetId || !range || !values) {
       return Response.json({ 
         error: 'spreadsheetId, range, and values are required' 
@@ -240,16 +231,12 @@ export async function POST(request: NextRequest) {
  * Usage: Remove data from cells (doesn't delete rows/columns, just clears content)
  * Body: { spreadsheetId: "ABC123", range: "Sheet1!A1:C10" }
  */
-export async function DELETE(request: NextRequest) {
+async function handleDelete(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: GoogleSheetsClearRequest = await request.json()
-    const { companyId, spreadsheetId, range } = body
+    const { spreadsheetId, range } = body
+    const { companyId } = plugin
 
-    if (!companyId) {
-      return Response.json({ 
-        error: 'companyId is required' 
-      }, { status: 400 })
-    }
     if (!spreadsheetId || !range) {
       return Response.json({ 
         error: 'spreadsheetId and range are required' 
@@ -305,4 +292,8 @@ export async function DELETE(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const PUT = withPluginAuth(GOOGLE_PLUGIN_SCOPES.sheetsWrite, handlePut)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.sheetsWrite, handlePost)
+export const DELETE = withPluginAuth(GOOGLE_PLUGIN_SCOPES.sheetsWrite, handleDelete)
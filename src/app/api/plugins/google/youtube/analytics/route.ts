@@ -1,4 +1,6 @@
 import { NextRequest } from 'next/server'
+import { getGoogleOAuthTokens } from '@/lib/oauth-tokens'
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens'
 
 /**
  * YOUTUBE ANALYTICS API ROUTE
@@ -62,7 +64,7 @@ interface YouTubeAnalyticsResponse {
  * URL: /api/plugins/google/youtube/analytics?channelId=UC123456&startDate=2024-01-01&endDate=2024-01-31
  * Returns: Channel info + basic performance metrics for date range
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // STEP 1: Extract query parameters
     const { searchParams } = new URL(request.url)
@@ -83,8 +85,18 @@ export async function GET(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // TODO: Get OAuth access token from database
-    const accessToken = 'ya29.a0...' // Your stored YouTube OAuth token
+    // Get OAuth access token from database
+    console.log(`[YOUTUBE-ANALYTICS] Getting Google OAuth tokens for company: ${plugin.companyId}`)
+    const tokens = await getGoogleOAuthTokens(plugin.companyId)
+
+    if (!tokens) {
+      console.warn(`[YOUTUBE-ANALYTICS] No valid Google tokens found for company: ${plugin.companyId}`)
+      return Response.json({ 
+        error: 'YouTube not connected for this company' 
+      }, { status: 401 })
+    }
+
+    const accessToken = tokens.access_token
 
     // STEP 2: Get channel information first (if channelId provided)
     let channelInfo = null
@@ -240,7 +252,7 @@ export async function GET(request: NextRequest) {
  *   filters: "country==US"
  * }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body: YouTubeAnalyticsRequest = await request.json()
     const { 
@@ -261,8 +273,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // TODO: Get OAuth access token from database
-    const accessToken = 'ya29.a0...'
+    // Get OAuth access token from database
+    console.log(`[YOUTUBE-ANALYTICS-POST] Getting Google OAuth tokens for company: ${plugin.companyId}`)
+    const tokens = await getGoogleOAuthTokens(plugin.companyId)
+
+    if (!tokens) {
+      console.warn(`[YOUTUBE-ANALYTICS-POST] No valid Google tokens found for company: ${plugin.companyId}`)
+      return Response.json({ 
+        error: 'YouTube not connected for this company' 
+      }, { status: 401 })
+    }
+
+    const accessToken = tokens.access_token
 
     // STEP 1: Determine the target (channel or video)
     let ids = ''
@@ -325,4 +347,7 @@ export async function POST(request: NextRequest) {
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.youtube, handleGet)
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.youtube, handlePost)
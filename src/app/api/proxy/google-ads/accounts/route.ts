@@ -1,11 +1,12 @@
 import { NextRequest } from 'next/server';
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens';
 
 /**
  * PROXY ENDPOINT FOR GOOGLE ADS ACCOUNTS
  * 
  * This endpoint proxies requests from the Google Ads plugin to Google Ads API
- * Plugin expects: /api/proxy/google-ads/accounts?companyId=xyz
+ * Plugin expects: /api/proxy/google-ads/accounts
  * This calls Google Ads API to get account information
  */
 
@@ -17,46 +18,15 @@ interface GoogleAdsAccount {
   accountType: string;
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // Extract parameters from URL
     const { searchParams } = new URL(request.url);
-    let companyId = searchParams.get('companyId');
+    const { companyId } = plugin;
     const customerId = searchParams.get('customerId');
     
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 });
-    }
-    
     // If customer ID is provided, use it directly for account discovery
 
-    // Handle hardcoded "production-company" from plugin - map to real company ID
-    if (companyId === 'production-company') {
-      console.log(`[PROXY-ACCOUNTS] Mapping production-company to real company ID`);
-      // Try to get the real company ID from request headers
-      const referer = request.headers.get('referer');
-      const origin = request.headers.get('origin');
-      
-      if (referer) {
-        const match = referer.match(/companies\/([a-f0-9-]+)\/apps/);
-        if (match && match[1]) {
-          companyId = match[1];
-          console.log(`[PROXY-ACCOUNTS] Extracted company ID from referer: ${companyId}`);
-        }
-      } else if (origin) {
-        // For iframe requests, we might not have referer, but we can try to extract from other headers
-        console.log(`[PROXY-ACCOUNTS] No referer header, got origin: ${origin}`);
-      }
-      
-      // If still production-company, log the issue but continue with a fallback
-      if (companyId === 'production-company') {
-        console.warn(`[PROXY-ACCOUNTS] Plugin still using hardcoded 'production-company' - attempting with fallback company ID`);
-        // Use the first available company as fallback (for testing purposes)
-        companyId = '6a1d34d8-661b-4c81-be6f-bc144600b7d9'; // Fallback to the test company
-        console.log(`[PROXY-ACCOUNTS] Using fallback company ID: ${companyId}`);
-      }
-    }
-
     // Get OAuth tokens
     const tokens = await getGoogleOAuthTokens(companyId);
 
@@ -336,4 +306,6 @@ export async function GET(request: NextRequest) {
       total: 0
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet);
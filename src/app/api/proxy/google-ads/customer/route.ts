@@ -1,11 +1,12 @@
 import { NextRequest } from 'next/server';
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens';
 
 /**
  * PROXY ENDPOINT FOR GOOGLE ADS CUSTOMER VALIDATION
  * 
  * This endpoint validates and gets details for a specific customer ID
- * Plugin expects: /api/proxy/google-ads/customer?companyId=xyz&customerId=123-456-7890
+ * Plugin expects: /api/proxy/google-ads/customer?customerId=123-456-7890
  * This calls Google Ads API to validate and get customer information
  */
 
@@ -18,40 +19,17 @@ interface GoogleAdsCustomer {
   valid: boolean;
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
     // Extract parameters from URL
     const { searchParams } = new URL(request.url);
-    let companyId = searchParams.get('companyId');
+    const { companyId } = plugin;
     let customerId = searchParams.get('customerId');
     
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 });
-    }
-    
     if (!customerId) {
       return Response.json({ error: 'customerId is required' }, { status: 400 });
     }
 
-    // Handle hardcoded "production-company" from plugin - map to real company ID
-    if (companyId === 'production-company') {
-      console.log(`[PROXY-CUSTOMER] Mapping production-company to real company ID`);
-      const referer = request.headers.get('referer');
-      
-      if (referer) {
-        const match = referer.match(/companies\/([a-f0-9-]+)\/apps/);
-        if (match && match[1]) {
-          companyId = match[1];
-          console.log(`[PROXY-CUSTOMER] Extracted company ID from referer: ${companyId}`);
-        }
-      }
-      
-      if (companyId === 'production-company') {
-        console.warn(`[PROXY-CUSTOMER] Plugin still using hardcoded 'production-company' - using fallback`);
-        companyId = '6a1d34d8-661b-4c81-be6f-bc144600b7d9'; // Fallback to the test company
-      }
-    }
-
     console.log(`[PROXY-CUSTOMER] Validating customer ${customerId} for company: ${companyId}`);
 
     // Get OAuth tokens
@@ -149,4 +127,6 @@ export async function GET(request: NextRequest) {
       valid: false
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet);
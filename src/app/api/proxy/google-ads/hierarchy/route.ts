@@ -1,11 +1,12 @@
 import { NextRequest } from 'next/server';
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens';
 
 /**
  * PROXY ENDPOINT FOR GOOGLE ADS ACCOUNT HIERARCHY
  * 
  * This endpoint gets the account hierarchy for MCC (Manager) accounts
- * Plugin expects: /api/proxy/google-ads/hierarchy?companyId=xyz
+ * Plugin expects: /api/proxy/google-ads/hierarchy
  */
 
 interface HierarchyNode {
@@ -16,42 +17,10 @@ interface HierarchyNode {
   children?: HierarchyNode[];
 }
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
-    // Extract parameters from URL
-    const { searchParams } = new URL(request.url);
-    let companyId = searchParams.get('companyId');
-    
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 });
-    }
-
-    // Handle hardcoded "production-company" from plugin - map to real company ID
-    if (companyId === 'production-company') {
-      console.log(`[PROXY-HIERARCHY] Mapping production-company to real company ID`);
-      // Try to get the real company ID from request headers
-      const referer = request.headers.get('referer');
-      const origin = request.headers.get('origin');
-      
-      if (referer) {
-        const match = referer.match(/companies\/([a-f0-9-]+)\/apps/);
-        if (match && match[1]) {
-          companyId = match[1];
-          console.log(`[PROXY-HIERARCHY] Extracted company ID from referer: ${companyId}`);
-        }
-      } else if (origin) {
-        // For iframe requests, we might not have referer, but we can try to extract from other headers
-        console.log(`[PROXY-HIERARCHY] No referer header, got origin: ${origin}`);
-      }
-      
-      // If still production-company, log the issue but continue with a fallback
-      if (companyId === 'production-company') {
-        console.warn(`[PROXY-HIERARCHY] Plugin still using hardcoded 'production-company' - attempting with fallback company ID`);
-        // Use the first available company as fallback (for testing purposes)
-        companyId = '6a1d34d8-661b-4c81-be6f-bc144600b7d9'; // Fallback to the test company
-        console.log(`[PROXY-HIERARCHY] Using fallback company ID: ${companyId}`);
-      }
-    }
+    // The company comes from the plugin token
+    const { companyId } = plugin;
 
     console.log(`[PROXY-HIERARCHY] Getting account hierarchy for company: ${companyId}`);
 
@@ -280,4 +249,6 @@ export async function GET(request: NextRequest) {
       hierarchy: null
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet);
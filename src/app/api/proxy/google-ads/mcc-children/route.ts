@@ -6,38 +6,26 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens';
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, plugin: PluginAuthContext) {
   try {
     const body = await request.json();
-    const { companyId, mccCustomerId, useParentCredentials } = body;
+    const { mccCustomerId, useParentCredentials } = body;
 
-    if (!companyId || !mccCustomerId) {
+    if (!mccCustomerId) {
       return NextResponse.json(
-        { success: false, error: 'companyId and mccCustomerId are required' },
+        { success: false, error: 'mccCustomerId is required' },
         { status: 400 }
       );
     }
 
     console.log(`[MCC-CHILDREN] Fetching child accounts for MCC ${mccCustomerId}`);
 
-    // Get company's Google OAuth tokens
-    const tokenResponse = await fetch(`${process.env.NEXTAUTH_URL}/api/companies/${companyId}/oauth-tokens`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    });
-
-    if (!tokenResponse.ok) {
-      return NextResponse.json(
-        { success: false, error: 'Failed to get OAuth tokens' },
-        { status: 401 }
-      );
-    }
-
-    const tokens = await tokenResponse.json();
-    if (!tokens.google_access_token) {
+    // Get the Google OAuth tokens of the plugin token's company
+    const tokens = await getGoogleOAuthTokens(plugin.companyId);
+    if (!tokens?.access_token) {
       return NextResponse.json(
         { success: false, error: 'No Google access token available' },
         { status: 401 }
@@ -48,7 +36,7 @@ export async function POST(request: NextRequest) {
     const googleAdsApiUrl = `https://googleads.googleapis.com/v16/customers/${mccCustomerId}/customerClients`;
 
     const headers: Record<string, string> = {
-      'Authorization': `Bearer ${tokens.google_access_token}`,
+      'Authorization': `Bearer ${tokens.access_token}`,
       'Content-Type': 'application/json',
     };
 
@@ -115,4 +103,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handlePost);
@@ -1,40 +1,18 @@
 import { NextRequest } from 'next/server';
 import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { GOOGLE_PLUGIN_SCOPES, PluginAuthContext, withPluginAuth } from '@/lib/plugin-tokens';
 
 /**
  * PROXY ENDPOINT FOR GOOGLE ADS CONNECTION STATUS
  * 
  * This endpoint checks the status of Google Ads API connection
- * Plugin expects: /api/proxy/google-ads/status?companyId=xyz
+ * Plugin expects: /api/proxy/google-ads/status
  */
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest, plugin: PluginAuthContext) {
   try {
-    // Extract parameters from URL
-    const { searchParams } = new URL(request.url);
-    let companyId = searchParams.get('companyId');
-    
-    if (!companyId) {
-      return Response.json({ error: 'companyId is required' }, { status: 400 });
-    }
-
-    // Handle hardcoded "production-company" from plugin - map to real company ID
-    if (companyId === 'production-company') {
-      // Try to get the real company ID from request headers
-      const referer = request.headers.get('referer');
-
-      if (referer) {
-        const match = referer.match(/companies\/([a-f0-9-]+)\/apps/);
-        if (match && match[1]) {
-          companyId = match[1];
-        }
-      }
-
-      // If still production-company, use fallback
-      if (companyId === 'production-company') {
-        companyId = '6a1d34d8-661b-4c81-be6f-bc144600b7d9'; // Fallback to the test company
-      }
-    }
+    // The company comes from the plugin token
+    const { companyId } = plugin;
 
     // Get OAuth tokens
     const tokens = await getGoogleOAuthTokens(companyId);
@@ -93,4 +71,6 @@ export async function GET(request: NextRequest) {
       status: 'error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+export const GET = withPluginAuth(GOOGLE_PLUGIN_SCOPES.ads, handleGet);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
 
 // Upload avatar and update user profile
 export async function POST(request: NextRequest) {
@@ -15,6 +17,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const rateLimit = await checkRateLimit('uploads', { request, userId: user.id });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
 
@@ -56,6 +63,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await auditLogger.logFileUpload(user.id, file.name, file.size, file.type, undefined, ipAddress, userAgent);
+
     return NextResponse.json({
       success: true,
       avatar_url: avatarUrl,
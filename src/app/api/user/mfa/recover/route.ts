@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth-middleware';
+import { extractClientInfo } from '@/lib/audit-logger';
+import { withRateLimit } from '@/lib/rate-limit/limiter';
+import { MfaError, redeemRecoveryCode } from '@/lib/mfa';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/user/mfa/recover
+ * Body: { code }
+ * Sign-in with a recovery code instead of the authenticator: the code is used up and the
+ * user's factors are removed, so they can enroll a new authenticator from their profile.
+ */
+async function handleRecover(request: NextRequest, context: AuthContext) {
+  try {
+    const { code } = await request.json().catch(() => ({}));
+    if (typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'Recovery code is required', code: 'INVALID_INPUT' }, { status: 400 });
+    }
+
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    await redeemRecoveryCode(code, { userId: context.user.id, email: context.user.email, ipAddress, userAgent });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to redeem recovery code:', error);
+    return NextResponse.json({ error: 'Failed to redeem recovery code' }, { status: 500 });
+  }
+}
+
+export const POST = withRateLimit('auth', withAuth(handleRecover));
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, AuthContext } from '@/lib/auth-middleware';
+import { extractClientInfo } from '@/lib/audit-logger';
+import { MfaError, generateRecoveryCodes, getRecoveryCodeStatus } from '@/lib/mfa';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/user/mfa/recovery-codes
+ * How many unused recovery codes the user has left
+ */
+async function handleGetRecoveryCodes(request: NextRequest, context: AuthContext) {
+  try {
+    const status = await getRecoveryCodeStatus(context.user.id);
+    return NextResponse.json({ success: true, data: status });
+  } catch (error) {
+    console.error('Failed to load recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to load recovery codes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/user/mfa/recovery-codes
+ * Replace the user's recovery codes; the new codes are returned once. Needs an AAL2 session.
+ */
+async function handleGenerateRecoveryCodes(request: NextRequest, context: AuthContext) {
+  try {
+    const { ipAddress, userAgent } = extractClientInfo(request);
+    const codes = await generateRecoveryCodes(
+      context.mfa ?? { aal: 'aal1', enrolled: false },
+      { userId: context.user.id, email: context.user.email, ipAddress, userAgent }
+    );
+
+    return NextResponse.json({ success: true, data: { codes } });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to generate recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to generate recovery codes' }, { status: 500 });
+  }
+}
+
+export const GET = withAuth(handleGetRecoveryCodes);
+export const POST = withAuth(handleGenerateRecoveryCodes);
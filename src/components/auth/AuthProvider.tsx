@@ -11,6 +11,27 @@ type AuthContextValue = {
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
+/**
+ * Report a sign-in to the security monitor. Returns false, after signing out, when the
+ * account is locked or has to sign in again.
+ */
+async function recordSessionStart(accessToken: string): Promise<boolean> {
+ try {
+  const response = await fetch('/api/auth/session-started', {
+   method: 'POST',
+   headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  const { code } = await response.json().catch(() => ({}));
+  if (code === 'ACCOUNT_LOCKED' || code === 'REAUTH_REQUIRED') {
+   await supabase.auth.signOut();
+   return false;
+  }
+ } catch (error) {
+  console.error('Failed to record sign-in:', error);
+ }
+ return true;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
  /* -------------------------------------------------------------------- */
  /* Local state                             */
@@ -46,7 +67,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    if (event === 'SIGNED_IN' && session?.user) {
     try {
      const { data: { user: verifiedUser }, error } = await supabase.auth.getUser();
-     if (!error && verifiedUser) {
+     if (!error && verifiedUser && await recordSessionStart(session.access_token)) {
       newUser = verifiedUser;
       setUser(verifiedUser);
      } else {
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+ KeyRound,
+ Plus,
+ RefreshCw,
+ AlertCircle,
+ Ban,
+ Copy,
+ Save,
+ X
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface ApiKey {
+ id: string;
+ name: string;
+ prefix: string;
+ scopes: string[];
+ expires_at: string | null;
+ last_used_at: string | null;
+ last_used_ip: string | null;
+ revoked_at: string | null;
+ created_at: string | null;
+ creator: { email: string | null };
+}
+
+interface ApiKeyScopeOption {
+ scope: string;
+ description: string;
+}
+
+interface ApiKeysSettingsProps {
+ companyId: string;
+}
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string }> = [
+ { value: '30', label: '30 days' },
+ { value: '90', label: '90 days' },
+ { value: '365', label: '1 year' },
+ { value: 'never', label: 'Never' },
+];
+
+/**
+ * Company API keys for scripts and BI tools: `Authorization: Bearer mh_...` on read endpoints
+ */
+export function ApiKeysSettings({ companyId }: ApiKeysSettingsProps) {
+ const [keys, setKeys] = useState<ApiKey[]>([]);
+ const [scopes, setScopes] = useState<ApiKeyScopeOption[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ /* Create form */
+ const [showCreate, setShowCreate] = useState(false);
+ const [newKey, setNewKey] = useState({ name: '', scopes: [] as string[], expiry: '90' });
+
+ /* Full key shown once after creating */
+ const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+ const fetchKeys = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchCompanyApiKeys(companyId);
+   setKeys(result.keys || []);
+   setScopes(result.scopes || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load API keys');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchKeys();
+ }, [companyId]);
+
+ const toggleScope = (scope: string) =>
+  setNewKey(prev => ({
+   ...prev,
+   scopes: prev.scopes.includes(scope) ? prev.scopes.filter(s => s !== scope) : [...prev.scopes, scope],
+  }));
+
+ const handleCreate = async () => {
+  try {
+   setSaving(true);
+   setError(null);
+   const result = await cachedApi.createCompanyApiKey(companyId, {
+    name: newKey.name,
+    scopes: newKey.scopes,
+    expiresInDays: newKey.expiry === 'never' ? null : Number(newKey.expiry),
+   });
+   setCreatedKey(result.key);
+   setNewKey({ name: '', scopes: [], expiry: '90' });
+   setShowCreate(false);
+   await fetchKeys();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to create API key');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const handleRevoke = async (key: ApiKey) => {
+  if (!confirm(`Revoke "${key.name}" (${key.prefix})? Scripts using it will stop working immediately.`)) return;
+
+  try {
+   setError(null);
+   await cachedApi.revokeCompanyApiKey(companyId, key.id);
+   await fetchKeys();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+  }
+ };
+
+ const keyStatus = (key: ApiKey) => {
+  if (key.revoked_at) return <Badge variant="destructive">Revoked</Badge>;
+  if (key.expires_at && new Date(key.expires_at) <= new Date()) return <Badge variant="secondary">Expired</Badge>;
+  return <Badge variant="default">Active</Badge>;
+ };
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <KeyRound className="h-5 w-5" />
+       API Keys
+      </CardTitle>
+      <CardDescription>
+       Read-only keys for scripts and BI tools. Send them as <code>Authorization: Bearer mh_...</code>.
+      </CardDescription>
+     </div>
+     <div className="flex gap-2">
+      <Button variant="outline" onClick={fetchKeys} disabled={loading}>
+       <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+       Refresh
+      </Button>
+      <Button onClick={() => setShowCreate(!showCreate)}>
+       <Plus className="h-4 w-4 mr-2" />
+       Create Key
+      </Button>
+     </div>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {createdKey && (
+     <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+       <div className="space-y-2">
+        <p>Copy the API key now. It will not be shown again.</p>
+        <div className="flex items-center gap-2">
+         <code className="font-mono text-xs break-all flex-1">{createdKey}</code>
+         <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(createdKey)}>
+          <Copy className="h-4 w-4" />
+         </Button>
+         <Button variant="outline" size="sm" onClick={() => setCreatedKey(null)}>
+          <X className="h-4 w-4" />
+         </Button>
+        </div>
+       </div>
+      </AlertDescription>
+     </Alert>
+    )}
+
+    {showCreate && (
+     <div className="rounded-lg border p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+       <div className="space-y-2">
+        <Label htmlFor="api-key-name">Name</Label>
+        <Input
+         id="api-key-name"
+         placeholder="Looker Studio export"
+         value={newKey.name}
+         onChange={e => setNewKey({ ...newKey, name: e.target.value })}
+        />
+       </div>
+       <div className="space-y-2">
+        <Label htmlFor="api-key-expiry">Expires after</Label>
+        <select
+         id="api-key-expiry"
+         value={newKey.expiry}
+         onChange={e => setNewKey({ ...newKey, expiry: e.target.value })}
+         className="w-full px-3 py-2 text-sm border rounded bg-background"
+        >
+         {EXPIRY_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+         ))}
+        </select>
+       </div>
+      </div>
+      <div className="space-y-2">
+       <Label>Scopes</Label>
+       <div className="grid gap-2 sm:grid-cols-2">
+        {scopes.map(option => (
+         <label key={option.scope} className="flex items-center gap-2 text-sm">
+          <input
+           type="checkbox"
+           checked={newKey.scopes.includes(option.scope)}
+           onChange={() => toggleScope(option.scope)}
+          />
+          <span className="font-mono text-xs">{option.scope}</span>
+          <span className="text-muted-foreground">{option.description}</span>
+         </label>
+        ))}
+       </div>
+      </div>
+      <div className="flex justify-end gap-2">
+       <Button variant="outline" onClick={() => setShowCreate(false)}>
+        Cancel
+       </Button>
+       <Button onClick={handleCreate} disabled={saving || !newKey.name.trim() || newKey.scopes.length === 0}>
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Creating...' : 'Create Key'}
+       </Button>
+      </div>
+     </div>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : keys.length === 0 ? (
+     <div className="text-center py-8 text-muted-foreground">
+      <KeyRound className="h-12 w-12 mx-auto mb-4 opacity-50" />
+      <h3 className="font-semibold mb-2">No API keys yet</h3>
+      <p className="text-sm">
+       Create a key to read logs, runs and dashboard statistics without signing in.
+      </p>
+     </div>
+    ) : (
+     <div className="space-y-4">
+      {keys.map((key, index) => (
+       <div key={key.id}>
+        <div className="flex items-start gap-4">
+         <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+           <h3 className="font-semibold truncate">{key.name}</h3>
+           <span className="font-mono text-xs text-muted-foreground">{key.prefix}…</span>
+           {keyStatus(key)}
+          </div>
+
+          <div className="flex flex-wrap gap-1 mb-2">
+           {key.scopes.map(scope => (
+            <Badge key={scope} variant="outline" className="font-mono">{scope}</Badge>
+           ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+           <span>
+            Last used: {key.last_used_at ? format(new Date(key.last_used_at), 'MMM d, yyyy h:mm a') : 'Never'}
+            {key.last_used_ip && ` from ${key.last_used_ip}`}
+           </span>
+           <span>Expires: {key.expires_at ? format(new Date(key.expires_at), 'MMM d, yyyy') : 'Never'}</span>
+           {key.creator.email && <span>Created by {key.creator.email}</span>}
+          </div>
+         </div>
+
+         {!key.revoked_at && (
+          <Button variant="outline" size="sm" onClick={() => handleRevoke(key)}>
+           <Ban className="h-4 w-4 mr-1" />
+           Revoke
+          </Button>
+         )}
+        </div>
+
+        {index < keys.length - 1 && <Separator className="mt-4" />}
+       </div>
+      ))}
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
@@ -0,0 +1,505 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+ ScrollText,
+ RefreshCw,
+ AlertCircle,
+ Download,
+ ShieldCheck,
+ ShieldAlert,
+ Link2,
+ Copy,
+ X
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface AuditFieldChange {
+ field: string;
+ kind: 'added' | 'removed' | 'changed';
+ before: unknown;
+ after: unknown;
+}
+
+interface AuditLog {
+ id: string;
+ timestamp: string | null;
+ table_name: string;
+ operation: string;
+ action: string | null;
+ severity: string | null;
+ description: string | null;
+ actor: { id: string; email: string | null } | null;
+ ip_address: string | null;
+ user_agent: string | null;
+ metadata: Record<string, unknown> | null;
+ changes: AuditFieldChange[];
+}
+
+interface ChainVerification {
+ valid: boolean;
+ head: { chainSeq: number } | null;
+ startCheckpoint: { chainSeq: number } | null;
+ brokenAt: { chainSeq: number; message: string } | null;
+}
+
+interface AuditLogFilters {
+ actor: string;
+ operation: string;
+ table: string;
+ severity: string;
+ dateFrom: string;
+ dateTo: string;
+}
+
+interface AuditLogViewerProps {
+ companyId: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditLogFilters = { actor: '', operation: '', table: '', severity: '', dateFrom: '', dateTo: '' };
+
+const SEVERITY_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+ LOW: 'outline',
+ MEDIUM: 'secondary',
+ HIGH: 'destructive',
+ CRITICAL: 'destructive',
+};
+
+const CHANGE_STYLES: Record<AuditFieldChange['kind'], string> = {
+ added: 'text-green-600',
+ removed: 'text-red-600',
+ changed: 'text-yellow-600',
+};
+
+function formatValue(value: unknown): string {
+ if (value === null || value === undefined) return '—';
+ return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Date inputs give local dates; the API takes ISO timestamps covering whole days
+function toQuery(filters: AuditLogFilters): Record<string, string | undefined> {
+ return {
+  actor: filters.actor.trim() || undefined,
+  operation: filters.operation || undefined,
+  table: filters.table.trim() || undefined,
+  severity: filters.severity || undefined,
+  dateFrom: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+  dateTo: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+ };
+}
+
+/**
+ * Company audit log: who changed what, security events, field-level diffs and signed CSV export
+ */
+export function AuditLogViewer({ companyId }: AuditLogViewerProps) {
+ const [logs, setLogs] = useState<AuditLog[]>([]);
+ const [total, setTotal] = useState(0);
+ const [operations, setOperations] = useState<string[]>([]);
+ const [severities, setSeverities] = useState<string[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [exporting, setExporting] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+ const [expanded, setExpanded] = useState<string | null>(null);
+
+ /* Filters being edited, and the ones applied to the list */
+ const [draft, setDraft] = useState<AuditLogFilters>(EMPTY_FILTERS);
+ const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_FILTERS);
+
+ /* Signature of the last export, shown so it can be kept with the file */
+ const [lastExport, setLastExport] = useState<{ filename: string; signature: string; rowCount: number; truncated: boolean } | null>(null);
+
+ /* Verify an exported file against its signature */
+ const [showVerify, setShowVerify] = useState(false);
+ const [verifyFile, setVerifyFile] = useState<File | null>(null);
+ const [verifySignature, setVerifySignature] = useState('');
+ const [verifyResult, setVerifyResult] = useState<{ valid: boolean; signedAt: string | null } | null>(null);
+
+ /* Result of the last hash chain verification */
+ const [verifyingChain, setVerifyingChain] = useState(false);
+ const [chainResult, setChainResult] = useState<ChainVerification | null>(null);
+
+ const fetchLogs = async (offset = 0) => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchCompanyAuditLogs(companyId, {
+    ...toQuery(filters),
+    limit: PAGE_SIZE,
+    offset,
+   });
+   setLogs(prev => offset === 0 ? result.logs : [...prev, ...result.logs]);
+   setTotal(result.pagination.total);
+   setOperations(result.operations || []);
+   setSeverities(result.severities || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load audit log');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchLogs();
+ }, [companyId, filters]);
+
+ const handleExport = async () => {
+  try {
+   setExporting(true);
+   setError(null);
+   const result = await cachedApi.exportCompanyAuditLogs(companyId, toQuery(filters));
+
+   const url = URL.createObjectURL(result.blob);
+   const a = document.createElement('a');
+   a.href = url;
+   a.download = result.filename;
+   a.click();
+   URL.revokeObjectURL(url);
+
+   if (result.signature) {
+    setLastExport({
+     filename: result.filename,
+     signature: result.signature,
+     rowCount: result.rowCount,
+     truncated: result.truncated,
+    });
+   }
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to export audit log');
+  } finally {
+   setExporting(false);
+  }
+ };
+
+ const handleVerify = async () => {
+  if (!verifyFile) return;
+  try {
+   setError(null);
+   setVerifyResult(await cachedApi.verifyCompanyAuditExport(companyId, await verifyFile.text(), verifySignature));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to verify export');
+  }
+ };
+
+ const handleVerifyChain = async () => {
+  try {
+   setVerifyingChain(true);
+   setError(null);
+   setChainResult(await cachedApi.verifyCompanyAuditChain(companyId));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to verify audit log chain');
+  } finally {
+   setVerifyingChain(false);
+  }
+ };
+
+ const renderChanges = (log: AuditLog) => (
+  <div className="mt-2 space-y-2">
+   {log.description && <p className="text-sm">{log.description}</p>}
+   {log.changes.length === 0 ? (
+    <p className="text-xs text-muted-foreground">No field changes recorded.</p>
+   ) : (
+    <table className="w-full text-xs border rounded">
+     <thead className="bg-muted">
+      <tr>
+       <th className="text-left px-2 py-1 font-medium">Field</th>
+       <th className="text-left px-2 py-1 font-medium">Before</th>
+       <th className="text-left px-2 py-1 font-medium">After</th>
+      </tr>
+     </thead>
+     <tbody className="divide-y">
+      {log.changes.map(change => (
+       <tr key={change.field}>
+        <td className={`px-2 py-1 font-mono ${CHANGE_STYLES[change.kind]}`}>{change.field}</td>
+        <td className="px-2 py-1 font-mono break-all">{formatValue(change.before)}</td>
+        <td className="px-2 py-1 font-mono break-all">{formatValue(change.after)}</td>
+       </tr>
+      ))}
+     </tbody>
+    </table>
+   )}
+   <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+    {log.ip_address && <span>IP: {log.ip_address}</span>}
+    {log.user_agent && <span className="truncate max-w-md">User agent: {log.user_agent}</span>}
+   </div>
+   {log.metadata && (
+    <pre className="p-2 rounded bg-muted text-xs overflow-x-auto">
+     {JSON.stringify(log.metadata, null, 2)}
+    </pre>
+   )}
+  </div>
+ );
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <ScrollText className="h-5 w-5" />
+       Audit Log
+      </CardTitle>
+      <CardDescription>
+       Changes, access and security events in this company. Entries are hash-chained and exports are signed so they can be verified later.
+      </CardDescription>
+     </div>
+     <div className="flex gap-2">
+      <Button variant="outline" onClick={() => fetchLogs()} disabled={loading}>
+       <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+       Refresh
+      </Button>
+      <Button variant="outline" onClick={handleVerifyChain} disabled={verifyingChain}>
+       <Link2 className="h-4 w-4 mr-2" />
+       {verifyingChain ? 'Verifying...' : 'Verify Chain'}
+      </Button>
+      <Button variant="outline" onClick={() => setShowVerify(!showVerify)}>
+       <ShieldCheck className="h-4 w-4 mr-2" />
+       Verify Export
+      </Button>
+      <Button onClick={handleExport} disabled={exporting}>
+       <Download className="h-4 w-4 mr-2" />
+       {exporting ? 'Exporting...' : 'Export CSV'}
+      </Button>
+     </div>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {chainResult && (
+     <Alert variant={chainResult.valid ? 'default' : 'destructive'}>
+      {chainResult.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+      <AlertDescription>
+       <div className="flex items-start justify-between gap-2">
+        <p>
+         {chainResult.valid
+          ? chainResult.head
+           ? `Hash chain intact: ${chainResult.head.chainSeq.toLocaleString('en-US')} entries, `
+            + (chainResult.startCheckpoint
+             ? `checked from the signed checkpoint at entry ${chainResult.startCheckpoint.chainSeq.toLocaleString('en-US')}.`
+             : 'checked from the first entry.')
+           : 'No chained entries yet.'
+          : `Hash chain broken at entry ${chainResult.brokenAt?.chainSeq}: ${chainResult.brokenAt?.message}. `
+           + 'A critical security event was recorded.'}
+        </p>
+        <Button variant="outline" size="sm" onClick={() => setChainResult(null)}>
+         <X className="h-4 w-4" />
+        </Button>
+       </div>
+      </AlertDescription>
+     </Alert>
+    )}
+
+    {lastExport && (
+     <Alert>
+      <ShieldCheck className="h-4 w-4" />
+      <AlertDescription>
+       <div className="space-y-2">
+        <p>
+         Exported {lastExport.rowCount.toLocaleString('en-US')} entries to {lastExport.filename}
+         {lastExport.truncated && ' (limit reached; narrow the filters to export the rest)'}.
+         Keep this signature with the file:
+        </p>
+        <div className="flex items-center gap-2">
+         <code className="font-mono text-xs break-all flex-1">{lastExport.signature}</code>
+         <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(lastExport.signature)}>
+          <Copy className="h-4 w-4" />
+         </Button>
+         <Button variant="outline" size="sm" onClick={() => setLastExport(null)}>
+          <X className="h-4 w-4" />
+         </Button>
+        </div>
+       </div>
+      </AlertDescription>
+     </Alert>
+    )}
+
+    {showVerify && (
+     <div className="rounded-lg border p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+       <div className="space-y-2">
+        <Label htmlFor="audit-verify-file">Exported CSV</Label>
+        <Input
+         id="audit-verify-file"
+         type="file"
+         accept=".csv,text/csv"
+         onChange={e => {
+          setVerifyFile(e.target.files?.[0] ?? null);
+          setVerifyResult(null);
+         }}
+        />
+       </div>
+       <div className="space-y-2">
+        <Label htmlFor="audit-verify-signature">Signature</Label>
+        <Input
+         id="audit-verify-signature"
+         placeholder="t=...,v1=..."
+         value={verifySignature}
+         onChange={e => {
+          setVerifySignature(e.target.value);
+          setVerifyResult(null);
+         }}
+        />
+       </div>
+      </div>
+      <div className="flex items-center justify-end gap-2">
+       {verifyResult && (
+        <Badge variant={verifyResult.valid ? 'default' : 'destructive'}>
+         {verifyResult.valid && verifyResult.signedAt
+          ? `Valid, exported ${format(new Date(verifyResult.signedAt), 'MMM d, yyyy HH:mm')}`
+          : 'Not valid: the file or signature was changed'}
+        </Badge>
+       )}
+       <Button onClick={handleVerify} disabled={!verifyFile || !verifySignature.trim()}>
+        Verify
+       </Button>
+      </div>
+     </div>
+    )}
+
+    <div className="rounded-lg border p-4 space-y-4">
+     <div className="grid gap-4 sm:grid-cols-3">
+      <div className="space-y-2">
+       <Label htmlFor="audit-actor">Actor</Label>
+       <Input
+        id="audit-actor"
+        placeholder="Email or user ID"
+        value={draft.actor}
+        onChange={e => setDraft({ ...draft, actor: e.target.value })}
+       />
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="audit-table">Table</Label>
+       <Input
+        id="audit-table"
+        placeholder="e.g. company_api_keys"
+        value={draft.table}
+        onChange={e => setDraft({ ...draft, table: e.target.value })}
+       />
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="audit-operation">Operation</Label>
+       <select
+        id="audit-operation"
+        value={draft.operation}
+        onChange={e => setDraft({ ...draft, operation: e.target.value })}
+        className="w-full px-3 py-2 text-sm border rounded bg-background"
+       >
+        <option value="">All operations</option>
+        {operations.map(operation => (
+         <option key={operation} value={operation}>{operation}</option>
+        ))}
+       </select>
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="audit-severity">Security severity</Label>
+       <select
+        id="audit-severity"
+        value={draft.severity}
+        onChange={e => setDraft({ ...draft, severity: e.target.value })}
+        className="w-full px-3 py-2 text-sm border rounded bg-background"
+       >
+        <option value="">All entries</option>
+        {severities.map(severity => (
+         <option key={severity} value={severity}>{severity}</option>
+        ))}
+       </select>
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="audit-from">From</Label>
+       <Input
+        id="audit-from"
+        type="date"
+        value={draft.dateFrom}
+        onChange={e => setDraft({ ...draft, dateFrom: e.target.value })}
+       />
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="audit-to">To</Label>
+       <Input
+        id="audit-to"
+        type="date"
+        value={draft.dateTo}
+        onChange={e => setDraft({ ...draft, dateTo: e.target.value })}
+       />
+      </div>
+     </div>
+     <div className="flex justify-end gap-2">
+      <Button
+       variant="outline"
+       onClick={() => {
+        setDraft(EMPTY_FILTERS);
+        setFilters(EMPTY_FILTERS);
+       }}
+      >
+       Clear
+      </Button>
+      <Button onClick={() => setFilters(draft)}>Apply filters</Button>
+     </div>
+    </div>
+
+    {loading && logs.length === 0 ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : logs.length === 0 ? (
+     <div className="text-center py-8 text-muted-foreground">
+      <ScrollText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+      <h3 className="font-semibold mb-2">No audit entries</h3>
+      <p className="text-sm">Nothing matches these filters.</p>
+     </div>
+    ) : (
+     <div className="border rounded-md divide-y">
+      {logs.map(log => (
+       <div key={log.id} className="px-3 py-2 text-sm">
+        <button
+         type="button"
+         className="flex items-center gap-3 w-full text-left"
+         onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+        >
+         <span className="text-xs text-muted-foreground w-32 shrink-0">
+          {log.timestamp ? format(new Date(log.timestamp), 'MMM d, HH:mm:ss') : ''}
+         </span>
+         <Badge variant="outline" className="font-mono">{log.operation}</Badge>
+         {log.severity && <Badge variant={SEVERITY_VARIANTS[log.severity] ?? 'outline'}>{log.severity}</Badge>}
+         <span className="font-mono text-xs truncate flex-1">
+          {log.action ?? log.table_name}
+          {log.action && <span className="text-muted-foreground"> · {log.table_name}</span>}
+         </span>
+         <span className="text-xs text-muted-foreground truncate max-w-[12rem]">
+          {log.actor ? log.actor.email ?? log.actor.id : 'System'}
+         </span>
+         <span className="text-xs text-muted-foreground">
+          {log.changes.length} field{log.changes.length === 1 ? '' : 's'}
+         </span>
+        </button>
+        {expanded === log.id && renderChanges(log)}
+       </div>
+      ))}
+     </div>
+    )}
+
+    {logs.length < total && (
+     <div className="flex justify-center">
+      <Button variant="outline" size="sm" onClick={() => fetchLogs(logs.length)} disabled={loading}>
+       {loading ? 'Loading...' : 'Load more'}
+      </Button>
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { GoogleOAuthSettings } from './GoogleOAuthSettings';
+import { ApiKeysSettings } from './ApiKeysSettings';
 
 interface Connection {
  id: string;
@@ -44,9 +45,10 @@ interface Connection {
 
 interface AuthAndApiSettingsProps {
  companyId: string;
+ canManageApiKeys?: boolean;
 }
 
-export function AuthAndApiSettings({ companyId }: AuthAndApiSettingsProps) {
+export function AuthAndApiSettings({ companyId, canManageApiKeys = false }: AuthAndApiSettingsProps) {
  const [connections, setConnections] = useState<Connection[]>([]);
  const [loading, setLoading] = useState(true);
  const [error, setError] = useState<string | null>(null);
@@ -164,6 +166,7 @@ export function AuthAndApiSettings({ companyId }: AuthAndApiSettingsProps) {
       </div>
      </CardContent>
     </Card>
+    {canManageApiKeys && <ApiKeysSettings companyId={companyId} />}
    </div>
   );
  }
@@ -200,6 +203,7 @@ export function AuthAndApiSettings({ companyId }: AuthAndApiSettingsProps) {
       </Button>
      </CardContent>
     </Card>
+    {canManageApiKeys && <ApiKeysSettings companyId={companyId} />}
    </div>
   );
  }
@@ -300,6 +304,9 @@ export function AuthAndApiSettings({ companyId }: AuthAndApiSettingsProps) {
      )}
     </CardContent>
    </Card>
+
+   {/* Company API keys */}
+   {canManageApiKeys && <ApiKeysSettings companyId={companyId} />}
   </div>
  );
 }
\ No newline at end of file
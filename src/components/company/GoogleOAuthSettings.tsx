@@ -14,6 +14,7 @@ import {
  AlertCircle,
  Settings
 } from 'lucide-react';
+import { useLocale } from 'next-intl';
 import { useActiveCompany } from '@/lib/activeCompany';
 import { isAdminOrHigher } from '@/lib/permissions';
 
@@ -68,6 +69,7 @@ interface GoogleOAuthSettingsProps {
 
 export function GoogleOAuthSettings({ companyId, onIntegrationChange }: GoogleOAuthSettingsProps) {
  const company = useActiveCompany();
+ const locale = useLocale();
  const hasAdminPermission = isAdminOrHigher(company?.userRole);
  
  const [integration, setIntegration] = useState<GoogleIntegration | null>(null);
@@ -121,7 +123,7 @@ export function GoogleOAuthSettings({ companyId, onIntegrationChange }: GoogleOA
    setConnecting(true);
    
    // Get OAuth URL
-   const response = await fetch(`/api/connections/google/auth/${companyId}`);
+   const response = await fetch(`/api/connections/google/auth/${companyId}?locale=${locale}`);
    const data = await response.json();
    
    if (data.authUrl) {
@@ -181,10 +183,7 @@ export function GoogleOAuthSettings({ companyId, onIntegrationChange }: GoogleOA
     headers: {
      'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-     companyId,
-     integrationId: integration.integration_id,
-    }),
+    body: JSON.stringify({ companyId }),
    });
 
    const data = await response.json();
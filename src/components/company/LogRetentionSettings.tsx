@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Archive, AlertCircle, RefreshCw, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+const LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'] as const;
+
+type Level = typeof LEVELS[number];
+
+interface RetentionPolicy {
+ days: Record<Level, number>;
+ plan: string;
+ maxDays: number;
+ configured: boolean;
+ updatedAt: string | null;
+}
+
+interface LogArchive {
+ id: string;
+ log_date: string;
+ row_count: number;
+ byte_size: number;
+ levels: string[];
+}
+
+interface LogRetentionSettingsProps {
+ companyId: string;
+ canEdit: boolean;
+}
+
+function formatBytes(bytes: number): string {
+ if (bytes < 1024) return `${bytes} B`;
+ if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+ return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function LogRetentionSettings({ companyId, canEdit }: LogRetentionSettingsProps) {
+ const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+ const [draft, setDraft] = useState<Record<Level, string>>({ debug: '', info: '', warn: '', error: '', fatal: '' });
+ const [archives, setArchives] = useState<LogArchive[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const applyPolicy = (next: RetentionPolicy) => {
+  setPolicy(next);
+  setDraft(Object.fromEntries(LEVELS.map(level => [level, String(next.days[level])])) as Record<Level, string>);
+ };
+
+ const fetchData = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+
+   const [retention, archiveList] = await Promise.all([
+    cachedApi.fetchLogRetention(companyId),
+    cachedApi.fetchLogArchives(companyId),
+   ]);
+   applyPolicy(retention);
+   setArchives(archiveList.archives || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load log retention');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchData();
+ }, [companyId]);
+
+ const isDirty = policy !== null && LEVELS.some(level => draft[level] !== String(policy.days[level]));
+
+ const handleSave = async () => {
+  if (!policy) return;
+
+  const days: Record<string, number> = {};
+  for (const level of LEVELS) {
+   const value = Number(draft[level]);
+   if (!Number.isInteger(value) || value < 1 || value > policy.maxDays) {
+    setError(`Retention for ${level} must be between 1 and ${policy.maxDays} days`);
+    return;
+   }
+   days[level] = value;
+  }
+
+  try {
+   setSaving(true);
+   setError(null);
+   applyPolicy(await cachedApi.updateLogRetention(companyId, days));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to save log retention');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ // One line per archived day in the list below
+ const archivedDays = archives.reduce<Record<string, { rows: number; bytes: number }>>((acc, archive) => {
+  const day = acc[archive.log_date] ?? { rows: 0, bytes: 0 };
+  acc[archive.log_date] = { rows: day.rows + archive.row_count, bytes: day.bytes + archive.byte_size };
+  return acc;
+ }, {});
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <Archive className="h-5 w-5" />
+       Log Retention
+      </CardTitle>
+      <CardDescription>
+       Integration logs older than these limits are moved to compressed archives. Archived days can
+       still be opened in the logs viewer.
+      </CardDescription>
+     </div>
+     <Button variant="outline" onClick={fetchData} disabled={loading}>
+      <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+      Refresh
+     </Button>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {loading || !policy ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : (
+     <>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+       <Badge variant="outline" className="capitalize">{policy.plan}</Badge>
+       plan keeps logs for up to {policy.maxDays} days
+       {!policy.configured && <Badge variant="secondary">Defaults</Badge>}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+       {LEVELS.map(level => (
+        <div key={level} className="space-y-2">
+         <Label htmlFor={`retention-${level}`} className="capitalize">{level}</Label>
+         <div className="flex items-center gap-2">
+          <Input
+           id={`retention-${level}`}
+           type="number"
+           min={1}
+           max={policy.maxDays}
+           value={draft[level]}
+           disabled={!canEdit || saving}
+           onChange={(e) => setDraft(prev => ({ ...prev, [level]: e.target.value }))}
+          />
+          <span className="text-sm text-muted-foreground">days</span>
+         </div>
+        </div>
+       ))}
+      </div>
+
+      {canEdit && (
+       <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+         {policy.updatedAt ? `Last changed ${format(new Date(policy.updatedAt), 'PPp')}` : ''}
+        </p>
+        <Button onClick={handleSave} disabled={!isDirty || saving}>
+         {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+         Save Retention
+        </Button>
+       </div>
+      )}
+
+      <div className="space-y-2">
+       <h4 className="text-sm font-medium">Archived days</h4>
+       {Object.keys(archivedDays).length === 0 ? (
+        <p className="text-sm text-muted-foreground">No logs have been archived yet.</p>
+       ) : (
+        <div className="max-h-64 overflow-y-auto border rounded-md divide-y">
+         {Object.entries(archivedDays).map(([day, totals]) => (
+          <div key={day} className="flex items-center justify-between px-3 py-2 text-sm">
+           <span className="font-mono">{day}</span>
+           <span className="text-muted-foreground">
+            {totals.rows.toLocaleString()} logs · {formatBytes(totals.bytes)}
+           </span>
+          </div>
+         ))}
+        </div>
+       )}
+      </div>
+     </>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
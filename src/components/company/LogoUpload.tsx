@@ -84,7 +84,7 @@ export function LogoUpload({
    }
 
    // Validate file using secure validation
-   const secureFilename = await validateFileUpload(file, user.id, 'logo', type);
+   const secureFilename = await validateFileUpload(file, 'logo', type);
    setUploadProgress(25);
 
    // Generate secure file path
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, AlertCircle } from 'lucide-react';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface MfaPolicyMember {
+ user_id: string;
+ email: string | null;
+ role: string;
+ enrolled: boolean;
+}
+
+interface MfaPolicy {
+ requireMfa: boolean;
+ members: MfaPolicyMember[];
+}
+
+interface MfaPolicySettingsProps {
+ companyId: string;
+}
+
+/**
+ * Company policy requiring two-factor authentication, with the members it would block
+ */
+export function MfaPolicySettings({ companyId }: MfaPolicySettingsProps) {
+ const [policy, setPolicy] = useState<MfaPolicy | null>(null);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ useEffect(() => {
+  const load = async () => {
+   try {
+    setLoading(true);
+    setError(null);
+    setPolicy(await cachedApi.fetchCompanyMfaPolicy(companyId));
+   } catch (err) {
+    setError(err instanceof Error ? err.message : 'Failed to load MFA policy');
+   } finally {
+    setLoading(false);
+   }
+  };
+
+  load();
+ }, [companyId]);
+
+ const handleToggle = async () => {
+  if (!policy) return;
+
+  const notEnrolled = policy.members.filter(member => !member.enrolled).length;
+  if (!policy.requireMfa && notEnrolled > 0
+   && !confirm(`${notEnrolled} member(s) have not set up two-factor authentication and will lose access to this company until they do. Continue?`)) {
+   return;
+  }
+
+  try {
+   setSaving(true);
+   setError(null);
+   setPolicy(await cachedApi.updateCompanyMfaPolicy(companyId, !policy.requireMfa));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to update MFA policy');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const notEnrolled = policy?.members.filter(member => !member.enrolled) ?? [];
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <KeyRound className="h-5 w-5" />
+       Two-Factor Authentication
+      </CardTitle>
+      <CardDescription>
+       Require every member to sign in with an authenticator app. Members without one are blocked from this company until they set it up in their profile.
+      </CardDescription>
+     </div>
+     {policy && (
+      <Button
+       variant={policy.requireMfa ? 'outline' : 'default'}
+       onClick={handleToggle}
+       disabled={saving}
+      >
+       {saving ? 'Saving...' : policy.requireMfa ? 'Stop Requiring' : 'Require for All Members'}
+      </Button>
+     )}
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {loading && !policy ? (
+     <p className="text-sm text-muted-foreground">Loading...</p>
+    ) : policy && (
+     <>
+      <div className="flex items-center gap-2 text-sm">
+       <Badge variant={policy.requireMfa ? 'default' : 'outline'}>
+        {policy.requireMfa ? 'Required' : 'Optional'}
+       </Badge>
+       <span className="text-muted-foreground">
+        {policy.members.length - notEnrolled.length} of {policy.members.length} members use two-factor authentication
+       </span>
+      </div>
+
+      {notEnrolled.length > 0 && (
+       <div className="divide-y rounded-lg border">
+        {notEnrolled.map(member => (
+         <div key={member.user_id} className="flex items-center justify-between p-3 text-sm">
+          <span>{member.email ?? member.user_id}</span>
+          <div className="flex items-center gap-2">
+           <Badge variant="outline">{member.role}</Badge>
+           <Badge variant={policy.requireMfa ? 'destructive' : 'secondary'}>
+            {policy.requireMfa ? 'Blocked' : 'Not set up'}
+           </Badge>
+          </div>
+         </div>
+        ))}
+       </div>
+      )}
+     </>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Bell, AlertCircle, RefreshCw, Save } from 'lucide-react';
+import { cachedApi } from '@/lib/cachedApi';
+
+type DigestFrequency = 'none' | 'daily' | 'weekly';
+
+interface NotificationPreference {
+ type: string;
+ inApp: boolean;
+ email: boolean;
+ digest: DigestFrequency;
+}
+
+interface NotificationPreferencesSettingsProps {
+ companyId: string;
+}
+
+const TYPE_LABELS: Record<string, { label: string; description: string }> = {
+ integration_failed: { label: 'Integration failed', description: 'Credentials are rejected or an integration stops working' },
+ integration_recovered: { label: 'Integration recovered', description: 'A failed integration works again' },
+ credentials_expiring: { label: 'Credentials expiring', description: 'A connection expires before the next scheduled run' },
+ alert_triggered: { label: 'Alert triggered', description: 'A Guard rule detected a metric drop' },
+ export_ready: { label: 'Export ready', description: 'A long log export has finished' },
+ security_finding: { label: 'Security finding', description: 'Suspicious activity was detected for the company or a member' },
+ invitation_accepted: { label: 'Invitation accepted', description: 'Someone you invited joined the company' },
+ invitation_rejected: { label: 'Invitation declined', description: 'Someone you invited declined' },
+ user_joined_company: { label: 'User joined', description: 'A new member joined the company' },
+ role_changed: { label: 'Role changed', description: 'Your role or the company ownership changed' },
+};
+
+const DIGEST_OPTIONS: Array<{ value: DigestFrequency; label: string }> = [
+ { value: 'none', label: 'Off' },
+ { value: 'daily', label: 'Daily' },
+ { value: 'weekly', label: 'Weekly' },
+];
+
+/**
+ * The current user's notification preferences for one company
+ * Each type can show in-app, be emailed right away and/or be collected into a digest email
+ */
+export function NotificationPreferencesSettings({ companyId }: NotificationPreferencesSettingsProps) {
+ const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+ const [draft, setDraft] = useState<NotificationPreference[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const applyPreferences = (next: NotificationPreference[]) => {
+  setPreferences(next);
+  setDraft(next);
+ };
+
+ const fetchPreferences = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchNotificationPreferences(companyId);
+   applyPreferences(result.preferences || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load notification preferences');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchPreferences();
+ }, [companyId]);
+
+ const changed = draft.filter((preference, i) => JSON.stringify(preference) !== JSON.stringify(preferences[i]));
+
+ const updateDraft = (type: string, update: Partial<NotificationPreference>) => {
+  setDraft(prev => prev.map(preference => preference.type === type ? { ...preference, ...update } : preference));
+ };
+
+ const handleSave = async () => {
+  try {
+   setSaving(true);
+   setError(null);
+   const result = await cachedApi.updateNotificationPreferences(companyId, changed);
+   applyPreferences(result.preferences || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to save notification preferences');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <Bell className="h-5 w-5" />
+       Notification Preferences
+      </CardTitle>
+      <CardDescription>
+       Choose how you hear about this company. Digests collect notifications into one daily or
+       weekly email.
+      </CardDescription>
+     </div>
+     <Button variant="outline" onClick={fetchPreferences} disabled={loading}>
+      <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+      Refresh
+     </Button>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : (
+     <>
+      <div className="border rounded-md divide-y">
+       <div className="grid grid-cols-[1fr_80px_80px_110px] gap-4 px-3 py-2 text-xs font-medium text-muted-foreground">
+        <span>Notification</span>
+        <span className="text-center">In-app</span>
+        <span className="text-center">Email</span>
+        <span>Digest</span>
+       </div>
+       {draft.map(preference => (
+        <div key={preference.type} className="grid grid-cols-[1fr_80px_80px_110px] gap-4 px-3 py-2 items-center text-sm">
+         <div>
+          <div className="font-medium">{TYPE_LABELS[preference.type]?.label ?? preference.type}</div>
+          <div className="text-xs text-muted-foreground">{TYPE_LABELS[preference.type]?.description}</div>
+         </div>
+         <div className="flex justify-center">
+          <input
+           type="checkbox"
+           checked={preference.inApp}
+           disabled={saving}
+           onChange={(e) => updateDraft(preference.type, { inApp: e.target.checked })}
+           className="w-4 h-4"
+          />
+         </div>
+         <div className="flex justify-center">
+          <input
+           type="checkbox"
+           checked={preference.email}
+           disabled={saving}
+           onChange={(e) => updateDraft(preference.type, { email: e.target.checked })}
+           className="w-4 h-4"
+          />
+         </div>
+         <select
+          value={preference.digest}
+          disabled={saving}
+          onChange={(e) => updateDraft(preference.type, { digest: e.target.value as DigestFrequency })}
+          className="px-2 py-1 text-sm border rounded bg-background"
+         >
+          {DIGEST_OPTIONS.map(option => (
+           <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+         </select>
+        </div>
+       ))}
+      </div>
+
+      <div className="flex justify-end">
+       <Button onClick={handleSave} disabled={changed.length === 0 || saving}>
+        {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+        Save Preferences
+       </Button>
+      </div>
+     </>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
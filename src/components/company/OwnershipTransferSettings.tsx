@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Crown, RefreshCw, AlertCircle, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+import { fetchUsersByCompanyMini } from '@/lib/company/fetchUsersMini';
+import { type CompanyUserMini } from '@/lib/validation/companyUserMiniSchema';
+
+interface PendingTransfer {
+ id: string;
+ to_user_id: string;
+ to_user_email: string | null;
+ expires_at: string;
+}
+
+interface OwnershipTransferSettingsProps {
+ companyId: string;
+ currentUserId?: string;
+}
+
+export function OwnershipTransferSettings({ companyId, currentUserId }: OwnershipTransferSettingsProps) {
+ const [members, setMembers] = useState<CompanyUserMini[]>([]);
+ const [transfer, setTransfer] = useState<PendingTransfer | null>(null);
+ const [nominee, setNominee] = useState('');
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchData = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const [users, pending] = await Promise.all([
+    fetchUsersByCompanyMini(companyId),
+    cachedApi.fetchOwnershipTransfer(companyId),
+   ]);
+   setMembers(users.filter(u => u.id !== currentUserId && u.role !== 'owner'));
+   setTransfer(pending);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load ownership transfer');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchData();
+ }, [companyId]);
+
+ const handleStart = async () => {
+  const member = members.find(m => m.id === nominee);
+  if (!member) return;
+  if (!confirm(`Transfer ownership to ${member.email}? You will become an admin once they accept.`)) return;
+
+  try {
+   setSaving(true);
+   setError(null);
+   setTransfer(await cachedApi.startOwnershipTransfer(companyId, member.id));
+   setNominee('');
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to start ownership transfer');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const handleCancel = async () => {
+  try {
+   setSaving(true);
+   setError(null);
+   await cachedApi.cancelOwnershipTransfer(companyId);
+   setTransfer(null);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to cancel ownership transfer');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ return (
+  <Card>
+   <CardHeader>
+    <CardTitle className="flex items-center gap-2">
+     <Crown className="h-5 w-5" />
+     Transfer Ownership
+    </CardTitle>
+    <CardDescription>
+     Hand this company over to another member. They must accept before anything changes; you will stay on as an admin.
+    </CardDescription>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-4">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : transfer ? (
+     <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+      <div className="text-sm">
+       <p className="font-medium">Waiting for {transfer.to_user_email || 'the nominee'} to accept</p>
+       <p className="text-muted-foreground">
+        Expires {format(new Date(transfer.expires_at), 'MMM d, yyyy h:mm a')}
+       </p>
+      </div>
+      <Button variant="outline" onClick={handleCancel} disabled={saving}>
+       <X className="h-4 w-4 mr-2" />
+       Cancel Transfer
+      </Button>
+     </div>
+    ) : members.length === 0 ? (
+     <p className="text-sm text-muted-foreground">
+      Invite the new owner to the company first; ownership can only go to an existing member.
+     </p>
+    ) : (
+     <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+      <div className="flex-1 space-y-2">
+       <Label htmlFor="ownership-nominee">New owner</Label>
+       <select
+        id="ownership-nominee"
+        value={nominee}
+        onChange={e => setNominee(e.target.value)}
+        className="w-full border border-border-default rounded-md p-2 bg-input text-primary"
+       >
+        <option value="">Select a member</option>
+        {members.map(member => (
+         <option key={member.id} value={member.id}>
+          {member.fullName ? `${member.fullName} (${member.email})` : member.email} – {member.role}
+         </option>
+        ))}
+       </select>
+      </div>
+      <Button onClick={handleStart} disabled={!nominee || saving}>
+       <Crown className="h-4 w-4 mr-2" />
+       {saving ? 'Sending...' : 'Request Transfer'}
+      </Button>
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
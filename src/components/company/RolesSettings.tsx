@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Shield, Plus, RefreshCw, AlertCircle, RotateCcw, Trash2, Save } from 'lucide-react';
+import { cachedApi } from '@/lib/cachedApi';
+import { ROLE_NAME_PATTERN, type Permission } from '@/lib/permissions';
+
+interface RoleRow {
+ role: string;
+ permissions: Permission[];
+ builtIn: boolean;
+ customised: boolean;
+ editable: boolean;
+ memberCount: number;
+}
+
+interface RolesSettingsProps {
+ companyId: string;
+ canEdit: boolean;
+}
+
+export function RolesSettings({ companyId, canEdit }: RolesSettingsProps) {
+ const [catalog, setCatalog] = useState<{ key: Permission; description: string }[]>([]);
+ const [roles, setRoles] = useState<RoleRow[]>([]);
+ const [draft, setDraft] = useState<Record<string, Permission[]>>({});
+ const [newRole, setNewRole] = useState('');
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState<string | null>(null);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchRoles = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const data = await cachedApi.fetchCompanyRoles(companyId);
+   setCatalog(data.permissions);
+   setRoles(data.roles);
+   setDraft(Object.fromEntries(data.roles.map((r: RoleRow) => [r.role, r.permissions])));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load roles');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchRoles();
+ }, [companyId]);
+
+ const togglePermission = (role: string, permission: Permission) => {
+  const current = draft[role] || [];
+  setDraft({
+   ...draft,
+   [role]: current.includes(permission) ? current.filter(p => p !== permission) : [...current, permission],
+  });
+ };
+
+ const isDirty = (row: RoleRow) => {
+  const current = draft[row.role] || [];
+  return current.length !== row.permissions.length || current.some(p => !row.permissions.includes(p));
+ };
+
+ const handleSave = async (role: string) => {
+  try {
+   setSaving(role);
+   setError(null);
+   await cachedApi.updateCompanyRole(companyId, role, draft[role] || []);
+   await fetchRoles();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to save role');
+  } finally {
+   setSaving(null);
+  }
+ };
+
+ const handleDelete = async (row: RoleRow) => {
+  const question = row.builtIn
+   ? `Reset "${row.role}" to its default permissions?`
+   : `Delete custom role "${row.role}"?`;
+  if (!confirm(question)) return;
+
+  try {
+   setSaving(row.role);
+   setError(null);
+   await cachedApi.deleteCompanyRole(companyId, row.role);
+   await fetchRoles();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to delete role');
+  } finally {
+   setSaving(null);
+  }
+ };
+
+ const handleAddRole = async () => {
+  if (!ROLE_NAME_PATTERN.test(newRole)) {
+   setError('Role names must start with a letter and use only lowercase letters, digits and underscores');
+   return;
+  }
+  if (roles.some(r => r.role === newRole)) {
+   setError(`Role ${newRole} already exists`);
+   return;
+  }
+
+  try {
+   setSaving(newRole);
+   setError(null);
+   await cachedApi.updateCompanyRole(companyId, newRole, []);
+   setNewRole('');
+   await fetchRoles();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to create role');
+  } finally {
+   setSaving(null);
+  }
+ };
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <Shield className="h-5 w-5" />
+       Roles & Permissions
+      </CardTitle>
+      <CardDescription>
+       {canEdit
+        ? 'Choose what each role may do in this company. Owners always have every permission.'
+        : 'Permissions granted to each role. Only owners can change them.'}
+      </CardDescription>
+     </div>
+     <Button variant="outline" onClick={fetchRoles} disabled={loading}>
+      <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+      Refresh
+     </Button>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : (
+     <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+       <thead>
+        <tr className="border-b text-left text-muted-foreground">
+         <th className="py-2 pr-4 font-medium">Permission</th>
+         {roles.map(row => (
+          <th key={row.role} className="py-2 px-2 font-medium text-center">
+           <div className="flex flex-col items-center gap-1">
+            <span className="text-primary">{row.role}</span>
+            <span className="text-xs">{row.memberCount} member{row.memberCount !== 1 ? 's' : ''}</span>
+            {!row.builtIn && <Badge variant="outline">Custom</Badge>}
+            {row.builtIn && row.customised && <Badge variant="secondary">Customised</Badge>}
+           </div>
+          </th>
+         ))}
+        </tr>
+       </thead>
+       <tbody>
+        {catalog.map(permission => (
+         <tr key={permission.key} className="border-b">
+          <td className="py-2 pr-4">
+           <div className="font-mono text-xs text-primary">{permission.key}</div>
+           <div className="text-xs text-muted-foreground">{permission.description}</div>
+          </td>
+          {roles.map(row => (
+           <td key={row.role} className="py-2 px-2 text-center">
+            <input
+             type="checkbox"
+             checked={(draft[row.role] || []).includes(permission.key)}
+             disabled={!canEdit || !row.editable || saving !== null}
+             onChange={() => togglePermission(row.role, permission.key)}
+            />
+           </td>
+          ))}
+         </tr>
+        ))}
+        {canEdit && (
+         <tr>
+          <td className="py-2 pr-4" />
+          {roles.map(row => (
+           <td key={row.role} className="py-2 px-2 text-center">
+            {row.editable && (
+             <div className="flex justify-center gap-1">
+              <Button
+               size="sm"
+               variant="outline"
+               disabled={!isDirty(row) || saving !== null}
+               onClick={() => handleSave(row.role)}
+               title="Save"
+              >
+               <Save className="h-4 w-4" />
+              </Button>
+              {(row.customised || !row.builtIn) && (
+               <Button
+                size="sm"
+                variant="outline"
+                disabled={saving !== null}
+                onClick={() => handleDelete(row)}
+                title={row.builtIn ? 'Reset to defaults' : 'Delete role'}
+               >
+                {row.builtIn ? <RotateCcw className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+               </Button>
+              )}
+             </div>
+            )}
+           </td>
+          ))}
+         </tr>
+        )}
+       </tbody>
+      </table>
+     </div>
+    )}
+
+    {canEdit && !loading && (
+     <div className="flex items-center gap-2">
+      <Input
+       placeholder="analyst"
+       value={newRole}
+       onChange={e => setNewRole(e.target.value.trim().toLowerCase())}
+       className="max-w-xs"
+      />
+      <Button onClick={handleAddRole} disabled={!newRole || saving !== null}>
+       <Plus className="h-4 w-4 mr-2" />
+       Add Role
+      </Button>
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+ Lock,
+ Plus,
+ RefreshCw,
+ AlertCircle,
+ Trash2,
+ KeyRound,
+ Save,
+ X
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+import { SECRET_KEY_PATTERN, type CompanySecret } from '@/lib/validation/secretSchema';
+
+interface InstalledApplication {
+ id: string;
+ name: string;
+}
+
+interface SecretsSettingsProps {
+ companyId: string;
+ canManage: boolean;
+}
+
+type EditMode = { secretId: string; field: 'value' | 'permissions' } | null;
+
+export function SecretsSettings({ companyId, canManage }: SecretsSettingsProps) {
+ const [secrets, setSecrets] = useState<CompanySecret[]>([]);
+ const [applications, setApplications] = useState<InstalledApplication[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ /* Create form */
+ const [showCreate, setShowCreate] = useState(false);
+ const [newSecret, setNewSecret] = useState({ key: '', value: '', description: '', app_permissions: [] as string[] });
+
+ /* Inline editing of a single secret */
+ const [editing, setEditing] = useState<EditMode>(null);
+ const [editValue, setEditValue] = useState('');
+ const [editPermissions, setEditPermissions] = useState<string[]>([]);
+
+ const fetchData = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+
+   const [secretList, installedApps, installedIntegrations] = await Promise.all([
+    cachedApi.fetchCompanySecrets(companyId),
+    cachedApi.fetchCompanyApplications(companyId),
+    cachedApi.fetchCompanyIntegrations(companyId),
+   ]);
+
+   // Both lists are company_applications rows; keep one entry per application
+   const byId = new Map<string, InstalledApplication>();
+   for (const item of [...installedApps, ...installedIntegrations]) {
+    if (item.application?.id) {
+     byId.set(item.application.id, { id: item.application.id, name: item.application.name });
+    }
+   }
+
+   setSecrets(secretList);
+   setApplications(Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to fetch secrets');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  if (canManage) {
+   fetchData();
+  } else {
+   setLoading(false);
+  }
+ }, [companyId, canManage]);
+
+ const applicationName = (applicationId: string) =>
+  applications.find(app => app.id === applicationId)?.name || 'Uninstalled application';
+
+ const togglePermission = (list: string[], applicationId: string) =>
+  list.includes(applicationId) ? list.filter(id => id !== applicationId) : [...list, applicationId];
+
+ const handleCreate = async () => {
+  if (!SECRET_KEY_PATTERN.test(newSecret.key)) {
+   setError('Key must start with a letter and contain only lowercase letters, digits and underscores');
+   return;
+  }
+
+  try {
+   setSaving(true);
+   setError(null);
+   await cachedApi.createCompanySecret(companyId, {
+    key: newSecret.key,
+    value: newSecret.value,
+    ...(newSecret.description && { description: newSecret.description }),
+    app_permissions: newSecret.app_permissions,
+   });
+   setNewSecret({ key: '', value: '', description: '', app_permissions: [] });
+   setShowCreate(false);
+   await fetchData();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to create secret');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const startEditing = (secret: CompanySecret, field: 'value' | 'permissions') => {
+  setEditing({ secretId: secret.id, field });
+  setEditValue('');
+  setEditPermissions(secret.app_permissions);
+ };
+
+ const handleSaveEdit = async () => {
+  if (!editing) return;
+
+  try {
+   setSaving(true);
+   setError(null);
+   await cachedApi.updateCompanySecret(
+    companyId,
+    editing.secretId,
+    editing.field === 'value' ? { value: editValue } : { app_permissions: editPermissions }
+   );
+   setEditing(null);
+   await fetchData();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to update secret');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const handleDelete = async (secret: CompanySecret) => {
+  if (!confirm(`Delete secret "${secret.key}"? Applications using it will stop working.`)) return;
+
+  try {
+   setError(null);
+   await cachedApi.deleteCompanySecret(companyId, secret.id);
+   await fetchData();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to delete secret');
+  }
+ };
+
+ const renderPermissionCheckboxes = (selected: string[], onToggle: (applicationId: string) => void) => (
+  applications.length === 0 ? (
+   <p className="text-sm text-muted-foreground">No installed applications to grant access to.</p>
+  ) : (
+   <div className="grid gap-2 sm:grid-cols-2">
+    {applications.map(app => (
+     <label key={app.id} className="flex items-center gap-2 text-sm">
+      <input
+       type="checkbox"
+       checked={selected.includes(app.id)}
+       onChange={() => onToggle(app.id)}
+      />
+      {app.name}
+     </label>
+    ))}
+   </div>
+  )
+ );
+
+ if (!canManage) {
+  return (
+   <Alert>
+    <AlertCircle className="h-4 w-4" />
+    <AlertDescription>Only company admins can manage secrets.</AlertDescription>
+   </Alert>
+  );
+ }
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <Lock className="h-5 w-5" />
+       Secrets
+      </CardTitle>
+      <CardDescription>
+       Encrypted credentials available to the applications you grant them to. Values cannot be viewed after saving.
+      </CardDescription>
+     </div>
+     <div className="flex gap-2">
+      <Button variant="outline" onClick={fetchData} disabled={loading}>
+       <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+       Refresh
+      </Button>
+      <Button onClick={() => setShowCreate(!showCreate)}>
+       <Plus className="h-4 w-4 mr-2" />
+       Add Secret
+      </Button>
+     </div>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {showCreate && (
+     <div className="rounded-lg border p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+       <div className="space-y-2">
+        <Label htmlFor="secret-key">Key</Label>
+        <Input
+         id="secret-key"
+         placeholder="google_ads_developer_token"
+         value={newSecret.key}
+         onChange={e => setNewSecret({ ...newSecret, key: e.target.value.trim() })}
+        />
+       </div>
+       <div className="space-y-2">
+        <Label htmlFor="secret-value">Value</Label>
+        <Input
+         id="secret-value"
+         type="password"
+         autoComplete="off"
+         value={newSecret.value}
+         onChange={e => setNewSecret({ ...newSecret, value: e.target.value })}
+        />
+       </div>
+      </div>
+      <div className="space-y-2">
+       <Label htmlFor="secret-description">Description</Label>
+       <Input
+        id="secret-description"
+        value={newSecret.description}
+        onChange={e => setNewSecret({ ...newSecret, description: e.target.value })}
+       />
+      </div>
+      <div className="space-y-2">
+       <Label>Granted to</Label>
+       {renderPermissionCheckboxes(newSecret.app_permissions, applicationId =>
+        setNewSecret({ ...newSecret, app_permissions: togglePermission(newSecret.app_permissions, applicationId) })
+       )}
+      </div>
+      <div className="flex justify-end gap-2">
+       <Button variant="outline" onClick={() => setShowCreate(false)}>
+        Cancel
+       </Button>
+       <Button onClick={handleCreate} disabled={saving || !newSecret.key || !newSecret.value}>
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Secret'}
+       </Button>
+      </div>
+     </div>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : secrets.length === 0 ? (
+     <div className="text-center py-8 text-muted-foreground">
+      <Lock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+      <h3 className="font-semibold mb-2">No secrets yet</h3>
+      <p className="text-sm">
+       Add API keys and tokens required by your server-side integrations.
+      </p>
+     </div>
+    ) : (
+     <div className="space-y-4">
+      {secrets.map((secret, index) => (
+       <div key={secret.id}>
+        <div className="flex items-start gap-4">
+         <KeyRound className="h-5 w-5 mt-1 flex-shrink-0 text-muted-foreground" />
+
+         <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+           <h3 className="font-mono font-semibold truncate">{secret.key}</h3>
+           {secret.managed && <Badge variant="secondary">Managed by connection</Badge>}
+          </div>
+
+          {secret.description && (
+           <p className="text-sm text-muted-foreground mb-2">{secret.description}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+           <span>
+            Last used: {secret.last_used_at ? format(new Date(secret.last_used_at), 'MMM d, yyyy h:mm a') : 'Never'}
+           </span>
+           {secret.updated_at && (
+            <span>Updated: {format(new Date(secret.updated_at), 'MMM d, yyyy')}</span>
+           )}
+          </div>
+
+          {!secret.managed && (
+           <div className="flex flex-wrap gap-1 mt-2">
+            {secret.app_permissions.length === 0 ? (
+             <span className="text-xs text-muted-foreground">Not granted to any application</span>
+            ) : (
+             secret.app_permissions.map(applicationId => (
+              <Badge key={applicationId} variant="outline">{applicationName(applicationId)}</Badge>
+             ))
+            )}
+           </div>
+          )}
+
+          {editing?.secretId === secret.id && (
+           <div className="mt-3 space-y-3 rounded-lg border p-3">
+            {editing.field === 'value' ? (
+             <div className="space-y-2">
+              <Label htmlFor={`secret-value-${secret.id}`}>New value</Label>
+              <Input
+               id={`secret-value-${secret.id}`}
+               type="password"
+               autoComplete="off"
+               value={editValue}
+               onChange={e => setEditValue(e.target.value)}
+              />
+             </div>
+            ) : (
+             renderPermissionCheckboxes(editPermissions, applicationId =>
+              setEditPermissions(togglePermission(editPermissions, applicationId))
+             )
+            )}
+            <div className="flex justify-end gap-2">
+             <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+              <X className="h-4 w-4" />
+             </Button>
+             <Button
+              size="sm"
+              onClick={handleSaveEdit}
+              disabled={saving || (editing.field === 'value' && !editValue)}
+             >
+              <Save className="h-4 w-4 mr-2" />
+              Save
+             </Button>
+            </div>
+           </div>
+          )}
+         </div>
+
+         {!secret.managed && (
+          <div className="flex gap-2">
+           <Button variant="outline" size="sm" onClick={() => startEditing(secret, 'value')}>
+            Replace value
+           </Button>
+           <Button variant="outline" size="sm" onClick={() => startEditing(secret, 'permissions')}>
+            Access
+           </Button>
+           <Button variant="outline" size="sm" onClick={() => handleDelete(secret)}>
+            <Trash2 className="h-4 w-4" />
+           </Button>
+          </div>
+         )}
+        </div>
+
+        {index < secrets.length - 1 && <Separator className="mt-4" />}
+       </div>
+      ))}
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
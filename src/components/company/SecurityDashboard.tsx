@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShieldAlert, RefreshCw, AlertCircle, Lock, Check, Eye, Unlock } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+type FindingStatus = 'open' | 'acknowledged' | 'resolved';
+
+interface SecurityFinding {
+ id: string;
+ detector: string;
+ severity: string;
+ status: FindingStatus;
+ subject: string;
+ user_id: string | null;
+ user_email: string | null;
+ ip_address: string | null;
+ summary: string;
+ details: Record<string, unknown>;
+ event_count: number;
+ action_taken: 'account_locked' | 'reauth_required' | null;
+ first_seen_at: string;
+ last_seen_at: string;
+ resolved_at: string | null;
+}
+
+interface RestrictedMember {
+ user_id: string;
+ email: string | null;
+ locked_until: string | null;
+ lock_reason: string | null;
+ reauth_required: boolean;
+}
+
+interface SecurityDashboardData {
+ summary: {
+  open: Record<string, number>;
+  signals24h: Record<string, number>;
+ };
+ findings: SecurityFinding[];
+ restrictedMembers: RestrictedMember[];
+}
+
+interface SecurityDashboardProps {
+ companyId: string;
+}
+
+const SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const SEVERITY_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+ LOW: 'outline',
+ MEDIUM: 'secondary',
+ HIGH: 'destructive',
+ CRITICAL: 'destructive',
+};
+
+const DETECTOR_LABELS: Record<string, string> = {
+ brute_force_account: 'Brute force (account)',
+ brute_force_ip: 'Brute force (IP)',
+ impossible_travel: 'Impossible travel',
+ export_volume: 'Unusual export volume',
+ cross_company_access: 'Cross-company access',
+};
+
+const SIGNAL_LABELS: Record<string, string> = {
+ LOGIN: 'Sign-ins',
+ FAILED_AUTH: 'Failed sign-ins',
+ UNAUTHORIZED_ACCESS: 'Denied access',
+ RATE_LIMIT: 'Rate limited',
+ FILE_UPLOAD: 'Uploads',
+ DATA_EXPORT: 'Exports',
+};
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+ { value: 'open,acknowledged', label: 'Unresolved' },
+ { value: 'open', label: 'Open' },
+ { value: 'acknowledged', label: 'Acknowledged' },
+ { value: 'resolved', label: 'Resolved' },
+];
+
+/**
+ * Company security dashboard: findings of the anomaly detectors, recent security signals
+ * and members whose accounts were locked or must sign in again
+ */
+export function SecurityDashboard({ companyId }: SecurityDashboardProps) {
+ const [data, setData] = useState<SecurityDashboardData | null>(null);
+ const [status, setStatus] = useState('open,acknowledged');
+ const [loading, setLoading] = useState(true);
+ const [updating, setUpdating] = useState<string | null>(null);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchDashboard = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   setData(await cachedApi.fetchCompanySecurity(companyId, status));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load security findings');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchDashboard();
+ }, [companyId, status]);
+
+ const handleUpdate = async (finding: SecurityFinding, next: FindingStatus, clearRestriction = false) => {
+  try {
+   setUpdating(finding.id);
+   setError(null);
+   await cachedApi.updateCompanySecurityFinding(companyId, finding.id, { status: next, clearRestriction });
+   await fetchDashboard();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to update security finding');
+  } finally {
+   setUpdating(null);
+  }
+ };
+
+ const openTotal = Object.values(data?.summary.open ?? {}).reduce((sum, count) => sum + count, 0);
+
+ return (
+  <div className="space-y-6">
+   <Card>
+    <CardHeader>
+     <div className="flex items-center justify-between">
+      <div>
+       <CardTitle className="flex items-center gap-2">
+        <ShieldAlert className="h-5 w-5" />
+        Security
+       </CardTitle>
+       <CardDescription>
+        Suspicious activity on this company and its members. Repeated failed sign-ins lock the account for a while; impossible travel, unusual exports and cross-company probing require the member to sign in again.
+       </CardDescription>
+      </div>
+      <Button variant="outline" onClick={fetchDashboard} disabled={loading}>
+       <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+       Refresh
+      </Button>
+     </div>
+    </CardHeader>
+    <CardContent className="space-y-4">
+     {error && (
+      <Alert variant="destructive">
+       <AlertCircle className="h-4 w-4" />
+       <AlertDescription>{error}</AlertDescription>
+      </Alert>
+     )}
+
+     {data && (
+      <div className="grid gap-4 sm:grid-cols-2">
+       <div className="rounded-lg border p-4 space-y-2">
+        <p className="text-sm font-medium">Open findings: {openTotal}</p>
+        <div className="flex flex-wrap gap-2">
+         {SEVERITIES.map(severity => (
+          <Badge key={severity} variant={data.summary.open[severity] ? SEVERITY_VARIANTS[severity] : 'outline'}>
+           {severity} {data.summary.open[severity] ?? 0}
+          </Badge>
+         ))}
+        </div>
+       </div>
+       <div className="rounded-lg border p-4 space-y-2">
+        <p className="text-sm font-medium">Signals in the last 24 hours</p>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+         {Object.entries(SIGNAL_LABELS).map(([type, label]) => (
+          <div key={type} className="flex justify-between">
+           <span className="text-muted-foreground">{label}</span>
+           <span>{(data.summary.signals24h[type] ?? 0).toLocaleString('en-US')}</span>
+          </div>
+         ))}
+        </div>
+       </div>
+      </div>
+     )}
+    </CardContent>
+   </Card>
+
+   {data && data.restrictedMembers.length > 0 && (
+    <Card>
+     <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+       <Lock className="h-5 w-5" />
+       Restricted Members
+      </CardTitle>
+      <CardDescription>
+       Members locked out or required to sign in again. Resolving the finding with &quot;Resolve &amp; unlock&quot; lifts the restriction.
+      </CardDescription>
+     </CardHeader>
+     <CardContent>
+      <div className="divide-y rounded-lg border">
+       {data.restrictedMembers.map(member => (
+        <div key={member.user_id} className="flex items-center justify-between p-3 text-sm">
+         <span>{member.email ?? member.user_id}</span>
+         <span className="text-muted-foreground">
+          {member.locked_until
+           ? `Locked until ${format(new Date(member.locked_until), 'MMM d, HH:mm')}${member.lock_reason ? ` (${member.lock_reason})` : ''}`
+           : 'Must sign in again'}
+         </span>
+        </div>
+       ))}
+      </div>
+     </CardContent>
+    </Card>
+   )}
+
+   <Card>
+    <CardHeader>
+     <div className="flex items-center justify-between">
+      <CardTitle>Findings</CardTitle>
+      <div className="flex items-center gap-2">
+       <Label htmlFor="security-status" className="text-sm">Status</Label>
+       <select
+        id="security-status"
+        value={status}
+        onChange={e => setStatus(e.target.value)}
+        className="px-3 py-2 text-sm border rounded bg-background"
+       >
+        {STATUS_FILTERS.map(filter => (
+         <option key={filter.value} value={filter.value}>{filter.label}</option>
+        ))}
+       </select>
+      </div>
+     </div>
+    </CardHeader>
+    <CardContent>
+     {loading && !data ? (
+      <p className="text-sm text-muted-foreground">Loading...</p>
+     ) : !data || data.findings.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No findings.</p>
+     ) : (
+      <div className="divide-y rounded-lg border">
+       {data.findings.map(finding => (
+        <div key={finding.id} className="p-3 space-y-2">
+         <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+           <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={SEVERITY_VARIANTS[finding.severity] ?? 'outline'}>{finding.severity}</Badge>
+            <span className="text-sm font-medium">{DETECTOR_LABELS[finding.detector] ?? finding.detector}</span>
+            {finding.status !== 'open' && <Badge variant="outline">{finding.status}</Badge>}
+            {finding.action_taken && (
+             <Badge variant="secondary">
+              {finding.action_taken === 'account_locked' ? 'Account locked' : 'Re-authentication required'}
+             </Badge>
+            )}
+           </div>
+           <p className="text-sm">{finding.summary}</p>
+           <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {finding.user_email && <span>Account: {finding.user_email}</span>}
+            {finding.ip_address && <span>IP: {finding.ip_address}</span>}
+            <span>Events: {finding.event_count}</span>
+            <span>Last seen {formatDistanceToNow(new Date(finding.last_seen_at), { addSuffix: true })}</span>
+           </div>
+          </div>
+          {finding.status !== 'resolved' && (
+           <div className="flex shrink-0 gap-2">
+            {finding.status === 'open' && (
+             <Button
+              variant="outline"
+              size="sm"
+              disabled={updating === finding.id}
+              onClick={() => handleUpdate(finding, 'acknowledged')}
+             >
+              <Eye className="h-4 w-4 mr-1" />
+              Acknowledge
+             </Button>
+            )}
+            <Button
+             variant="outline"
+             size="sm"
+             disabled={updating === finding.id}
+             onClick={() => handleUpdate(finding, 'resolved')}
+            >
+             <Check className="h-4 w-4 mr-1" />
+             Resolve
+            </Button>
+            {finding.action_taken && finding.user_id && (
+             <Button
+              size="sm"
+              disabled={updating === finding.id}
+              onClick={() => handleUpdate(finding, 'resolved', true)}
+             >
+              <Unlock className="h-4 w-4 mr-1" />
+              Resolve &amp; unlock
+             </Button>
+            )}
+           </div>
+          )}
+         </div>
+        </div>
+       ))}
+      </div>
+     )}
+    </CardContent>
+   </Card>
+  </div>
+ );
+}
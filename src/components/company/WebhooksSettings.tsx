@@ -0,0 +1,506 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+ Webhook,
+ Plus,
+ RefreshCw,
+ AlertCircle,
+ Trash2,
+ Save,
+ Copy,
+ RotateCcw,
+ History,
+ X
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface WebhookEndpoint {
+ id: string;
+ url: string;
+ description: string | null;
+ events: string[];
+ is_active: boolean;
+ consecutive_failures: number;
+ disabled_at: string | null;
+ disabled_reason: string | null;
+ last_delivery_at: string | null;
+ created_at: string | null;
+}
+
+interface WebhookDelivery {
+ id: string;
+ event_id: string;
+ event_type: string;
+ payload: unknown;
+ status: 'pending' | 'succeeded' | 'failed';
+ attempts: number;
+ next_attempt_at: string | null;
+ response_status: number | null;
+ error: string | null;
+ duration_ms: number | null;
+ replay_of: string | null;
+ created_at: string | null;
+}
+
+interface WebhooksSettingsProps {
+ companyId: string;
+ canManage: boolean;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+ 'integration.run.completed': 'Integration run completed',
+ 'integration.run.failed': 'Integration run failed',
+ 'alert.triggered': 'Guard alert triggered',
+ 'member.joined': 'Member joined',
+ 'app.installed': 'App installed',
+ 'app.uninstalled': 'App uninstalled',
+};
+
+const STATUS_VARIANTS: Record<WebhookDelivery['status'], 'default' | 'secondary' | 'destructive'> = {
+ succeeded: 'default',
+ pending: 'secondary',
+ failed: 'destructive',
+};
+
+const DELIVERIES_PAGE_SIZE = 20;
+
+/**
+ * Company webhook endpoints with their signing secret, subscribed events and delivery history
+ */
+export function WebhooksSettings({ companyId, canManage }: WebhooksSettingsProps) {
+ const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+ const [events, setEvents] = useState<string[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [saving, setSaving] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ /* Create form */
+ const [showCreate, setShowCreate] = useState(false);
+ const [newEndpoint, setNewEndpoint] = useState({ url: '', description: '', events: [] as string[] });
+
+ /* Secret shown once after creating or rotating */
+ const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+
+ /* Delivery history of one endpoint */
+ const [historyFor, setHistoryFor] = useState<string | null>(null);
+ const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+ const [deliveriesTotal, setDeliveriesTotal] = useState(0);
+ const [deliveryStatus, setDeliveryStatus] = useState('');
+ const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+ const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+
+ const fetchEndpoints = async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchCompanyWebhooks(companyId);
+   setEndpoints(result.endpoints || []);
+   setEvents(result.events || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ const fetchDeliveries = async (endpointId: string, status: string, offset = 0) => {
+  try {
+   setLoadingDeliveries(true);
+   setError(null);
+   const result = await cachedApi.fetchWebhookDeliveries(companyId, endpointId, {
+    ...(status && { status }),
+    limit: DELIVERIES_PAGE_SIZE,
+    offset,
+   });
+   setDeliveries(prev => offset === 0 ? result.deliveries : [...prev, ...result.deliveries]);
+   setDeliveriesTotal(result.pagination.total);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load webhook deliveries');
+  } finally {
+   setLoadingDeliveries(false);
+  }
+ };
+
+ useEffect(() => {
+  fetchEndpoints();
+ }, [companyId]);
+
+ useEffect(() => {
+  if (historyFor) {
+   fetchDeliveries(historyFor, deliveryStatus);
+  }
+ }, [historyFor, deliveryStatus]);
+
+ const toggleEvent = (list: string[], event: string) =>
+  list.includes(event) ? list.filter(e => e !== event) : [...list, event];
+
+ const handleCreate = async () => {
+  try {
+   setSaving(true);
+   setError(null);
+   const result = await cachedApi.createCompanyWebhook(companyId, {
+    url: newEndpoint.url,
+    ...(newEndpoint.description && { description: newEndpoint.description }),
+    events: newEndpoint.events,
+   });
+   setRevealedSecret({ endpointId: result.endpoint.id, secret: result.secret });
+   setNewEndpoint({ url: '', description: '', events: [] });
+   setShowCreate(false);
+   await fetchEndpoints();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to create webhook');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const handleUpdate = async (
+  endpoint: WebhookEndpoint,
+  updates: { isActive?: boolean; rotateSecret?: boolean; events?: string[] }
+ ) => {
+  if (updates.rotateSecret && !confirm('Rotate the signing secret? Requests signed with the old secret will stop verifying.')) return;
+
+  try {
+   setSaving(true);
+   setError(null);
+   const result = await cachedApi.updateCompanyWebhook(companyId, endpoint.id, updates);
+   if (result.secret) {
+    setRevealedSecret({ endpointId: endpoint.id, secret: result.secret });
+   }
+   await fetchEndpoints();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to update webhook');
+  } finally {
+   setSaving(false);
+  }
+ };
+
+ const handleDelete = async (endpoint: WebhookEndpoint) => {
+  if (!confirm(`Delete the webhook for ${endpoint.url}? Its delivery history is deleted too.`)) return;
+
+  try {
+   setError(null);
+   await cachedApi.deleteCompanyWebhook(companyId, endpoint.id);
+   if (historyFor === endpoint.id) setHistoryFor(null);
+   await fetchEndpoints();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+  }
+ };
+
+ const handleReplay = async (endpointId: string, delivery: WebhookDelivery) => {
+  try {
+   setError(null);
+   await cachedApi.replayWebhookDelivery(companyId, endpointId, delivery.id);
+   await fetchDeliveries(endpointId, deliveryStatus);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to replay webhook delivery');
+  }
+ };
+
+ const renderEventCheckboxes = (selected: string[], onToggle: (event: string) => void) => (
+  <div className="grid gap-2 sm:grid-cols-2">
+   {events.map(event => (
+    <label key={event} className="flex items-center gap-2 text-sm">
+     <input
+      type="checkbox"
+      checked={selected.includes(event)}
+      disabled={!canManage || saving}
+      onChange={() => onToggle(event)}
+     />
+     {EVENT_LABELS[event] ?? event}
+     <span className="font-mono text-xs text-muted-foreground">{event}</span>
+    </label>
+   ))}
+  </div>
+ );
+
+ const renderDeliveries = (endpoint: WebhookEndpoint) => (
+  <div className="mt-3 space-y-3 rounded-lg border p-3">
+   <div className="flex items-center justify-between">
+    <h4 className="text-sm font-semibold">Delivery history</h4>
+    <div className="flex items-center gap-2">
+     <select
+      value={deliveryStatus}
+      onChange={(e) => setDeliveryStatus(e.target.value)}
+      className="px-2 py-1 text-sm border rounded bg-background"
+     >
+      <option value="">All statuses</option>
+      <option value="succeeded">Succeeded</option>
+      <option value="pending">Retrying</option>
+      <option value="failed">Failed</option>
+     </select>
+     <Button variant="outline" size="sm" onClick={() => setHistoryFor(null)}>
+      <X className="h-4 w-4" />
+     </Button>
+    </div>
+   </div>
+
+   {deliveries.length === 0 && !loadingDeliveries ? (
+    <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+   ) : (
+    <div className="border rounded-md divide-y">
+     {deliveries.map(delivery => (
+      <div key={delivery.id} className="px-3 py-2 text-sm">
+       <div className="flex items-center gap-3">
+        <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+        <button
+         type="button"
+         className="font-mono text-xs truncate text-left flex-1"
+         onClick={() => setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)}
+        >
+         {delivery.event_type}
+        </button>
+        <span className="text-xs text-muted-foreground">
+         {delivery.response_status ?? '—'} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+         {delivery.replay_of && ' · replay'}
+        </span>
+        <span className="text-xs text-muted-foreground">
+         {delivery.created_at ? format(new Date(delivery.created_at), 'MMM d, HH:mm:ss') : ''}
+        </span>
+        {canManage && delivery.status !== 'pending' && (
+         <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleReplay(endpoint.id, delivery)}
+          disabled={!endpoint.is_active}
+         >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Replay
+         </Button>
+        )}
+       </div>
+       {delivery.error && <p className="text-xs text-destructive mt-1">{delivery.error}</p>}
+       {delivery.status === 'pending' && delivery.next_attempt_at && (
+        <p className="text-xs text-muted-foreground mt-1">
+         Next attempt {format(new Date(delivery.next_attempt_at), 'MMM d, HH:mm')}
+        </p>
+       )}
+       {expandedDelivery === delivery.id && (
+        <pre className="mt-2 p-2 rounded bg-muted text-xs overflow-x-auto">
+         {JSON.stringify(delivery.payload, null, 2)}
+        </pre>
+       )}
+      </div>
+     ))}
+    </div>
+   )}
+
+   {deliveries.length < deliveriesTotal && (
+    <div className="flex justify-center">
+     <Button
+      variant="outline"
+      size="sm"
+      onClick={() => fetchDeliveries(endpoint.id, deliveryStatus, deliveries.length)}
+      disabled={loadingDeliveries}
+     >
+      {loadingDeliveries ? 'Loading...' : 'Load more'}
+     </Button>
+    </div>
+   )}
+  </div>
+ );
+
+ return (
+  <Card>
+   <CardHeader>
+    <div className="flex items-center justify-between">
+     <div>
+      <CardTitle className="flex items-center gap-2">
+       <Webhook className="h-5 w-5" />
+       Webhooks
+      </CardTitle>
+      <CardDescription>
+       Send company events to your own HTTPS endpoints. Payloads are signed with the endpoint
+       secret in the X-MetricsHub-Signature header.
+      </CardDescription>
+     </div>
+     <div className="flex gap-2">
+      <Button variant="outline" onClick={fetchEndpoints} disabled={loading}>
+       <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+       Refresh
+      </Button>
+      {canManage && (
+       <Button onClick={() => setShowCreate(!showCreate)}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Endpoint
+       </Button>
+      )}
+     </div>
+    </div>
+   </CardHeader>
+   <CardContent className="space-y-4">
+    {error && (
+     <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+     </Alert>
+    )}
+
+    {revealedSecret && (
+     <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+       <div className="space-y-2">
+        <p>Copy the signing secret now. It will not be shown again.</p>
+        <div className="flex items-center gap-2">
+         <code className="font-mono text-xs break-all flex-1">{revealedSecret.secret}</code>
+         <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}>
+          <Copy className="h-4 w-4" />
+         </Button>
+         <Button variant="outline" size="sm" onClick={() => setRevealedSecret(null)}>
+          <X className="h-4 w-4" />
+         </Button>
+        </div>
+       </div>
+      </AlertDescription>
+     </Alert>
+    )}
+
+    {showCreate && (
+     <div className="rounded-lg border p-4 space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+       <div className="space-y-2">
+        <Label htmlFor="webhook-url">Endpoint URL</Label>
+        <Input
+         id="webhook-url"
+         placeholder="https://example.com/webhooks/metrics-hub"
+         value={newEndpoint.url}
+         onChange={e => setNewEndpoint({ ...newEndpoint, url: e.target.value.trim() })}
+        />
+       </div>
+       <div className="space-y-2">
+        <Label htmlFor="webhook-description">Description</Label>
+        <Input
+         id="webhook-description"
+         value={newEndpoint.description}
+         onChange={e => setNewEndpoint({ ...newEndpoint, description: e.target.value })}
+        />
+       </div>
+      </div>
+      <div className="space-y-2">
+       <Label>Events</Label>
+       {renderEventCheckboxes(newEndpoint.events, event =>
+        setNewEndpoint({ ...newEndpoint, events: toggleEvent(newEndpoint.events, event) })
+       )}
+      </div>
+      <div className="flex justify-end gap-2">
+       <Button variant="outline" onClick={() => setShowCreate(false)}>
+        Cancel
+       </Button>
+       <Button onClick={handleCreate} disabled={saving || !newEndpoint.url || newEndpoint.events.length === 0}>
+        <Save className="h-4 w-4 mr-2" />
+        {saving ? 'Saving...' : 'Save Endpoint'}
+       </Button>
+      </div>
+     </div>
+    )}
+
+    {loading ? (
+     <div className="flex items-center justify-center py-8">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+     </div>
+    ) : endpoints.length === 0 ? (
+     <div className="text-center py-8 text-muted-foreground">
+      <Webhook className="h-12 w-12 mx-auto mb-4 opacity-50" />
+      <h3 className="font-semibold mb-2">No webhooks yet</h3>
+      <p className="text-sm">
+       Add an endpoint to receive integration runs, alerts and membership changes as they happen.
+      </p>
+     </div>
+    ) : (
+     <div className="space-y-4">
+      {endpoints.map(endpoint => (
+       <div key={endpoint.id} className="rounded-lg border p-4">
+        <div className="flex items-start gap-4">
+         <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+           <h3 className="font-mono text-sm font-semibold truncate">{endpoint.url}</h3>
+           {endpoint.is_active ? (
+            <Badge variant="default">Active</Badge>
+           ) : (
+            <Badge variant={endpoint.disabled_at ? 'destructive' : 'secondary'}>
+             {endpoint.disabled_at ? 'Disabled after failures' : 'Paused'}
+            </Badge>
+           )}
+          </div>
+
+          {endpoint.description && (
+           <p className="text-sm text-muted-foreground mb-2">{endpoint.description}</p>
+          )}
+
+          {endpoint.disabled_reason && !endpoint.is_active && (
+           <p className="text-xs text-destructive mb-2">{endpoint.disabled_reason}</p>
+          )}
+
+          <div className="flex flex-wrap gap-1 mb-2">
+           {endpoint.events.map(event => (
+            <Badge key={event} variant="outline">{EVENT_LABELS[event] ?? event}</Badge>
+           ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+           <span>
+            Last delivery: {endpoint.last_delivery_at ? format(new Date(endpoint.last_delivery_at), 'MMM d, yyyy h:mm a') : 'Never'}
+           </span>
+           {endpoint.consecutive_failures > 0 && (
+            <span>Failed deliveries in a row: {endpoint.consecutive_failures}</span>
+           )}
+          </div>
+         </div>
+
+         <div className="flex flex-wrap justify-end gap-2">
+          <Button
+           variant="outline"
+           size="sm"
+           onClick={() => {
+            setExpandedDelivery(null);
+            setHistoryFor(historyFor === endpoint.id ? null : endpoint.id);
+           }}
+          >
+           <History className="h-4 w-4 mr-1" />
+           History
+          </Button>
+          {canManage && (
+           <>
+            <Button
+             variant="outline"
+             size="sm"
+             onClick={() => handleUpdate(endpoint, { isActive: !endpoint.is_active })}
+             disabled={saving}
+            >
+             {endpoint.is_active ? 'Pause' : 'Enable'}
+            </Button>
+            <Button
+             variant="outline"
+             size="sm"
+             onClick={() => handleUpdate(endpoint, { rotateSecret: true })}
+             disabled={saving}
+            >
+             Rotate secret
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleDelete(endpoint)}>
+             <Trash2 className="h-4 w-4" />
+            </Button>
+           </>
+          )}
+         </div>
+        </div>
+
+        {historyFor === endpoint.id && renderDeliveries(endpoint)}
+       </div>
+      ))}
+     </div>
+    )}
+   </CardContent>
+  </Card>
+ );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, RefreshCw, TrendingDown } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface GuardAlert {
+ id: string;
+ metric: string;
+ condition: 'percent_drop' | 'absolute_drop' | 'zscore';
+ threshold: number;
+ period_days: number;
+ current_value: number;
+ baseline_value: number;
+ change_percent: number | null;
+ z_score: number | null;
+ status: 'open' | 'resolved';
+ occurrences: number;
+ first_detected_at: string;
+ last_detected_at: string;
+ resolved_at: string | null;
+}
+
+interface GuardEvaluation {
+ evaluated_at: string;
+ period_start: string | null;
+ period_end: string | null;
+ alerts_opened: number;
+ alerts_resolved: number;
+ error: string | null;
+}
+
+interface GuardAlertHistoryProps {
+ companyId: string;
+ applicationId: string;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS = [
+ { value: '', label: 'All' },
+ { value: 'open', label: 'Open' },
+ { value: 'resolved', label: 'Resolved' },
+] as const;
+
+const describeCondition = (alert: GuardAlert) => {
+ switch (alert.condition) {
+  case 'percent_drop':
+   return `${alert.change_percent ?? '–'}% (threshold −${alert.threshold}%)`;
+  case 'absolute_drop':
+   return `−${Math.round((alert.baseline_value - alert.current_value) * 100) / 100} (threshold ${alert.threshold})`;
+  case 'zscore':
+   return `z = ${alert.z_score ?? '–'} (threshold −${alert.threshold}σ)`;
+ }
+};
+
+/**
+ * Alert history of a Google Ads Guard integration
+ * Lists detected metric drops with their current and baseline values and lets the rules
+ * be evaluated on demand
+ */
+export function GuardAlertHistory({ companyId, applicationId }: GuardAlertHistoryProps) {
+ const [alerts, setAlerts] = useState<GuardAlert[]>([]);
+ const [lastEvaluation, setLastEvaluation] = useState<GuardEvaluation | null>(null);
+ const [status, setStatus] = useState<'' | 'open' | 'resolved'>('');
+ const [offset, setOffset] = useState(0);
+ const [total, setTotal] = useState(0);
+ const [loading, setLoading] = useState(true);
+ const [evaluating, setEvaluating] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchAlerts = useCallback(async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchGuardAlerts(companyId, applicationId, {
+    ...(status && { status }),
+    limit: PAGE_SIZE,
+    offset,
+   });
+   setAlerts(result.alerts || []);
+   setLastEvaluation(result.lastEvaluation);
+   setTotal(result.pagination?.total ?? 0);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load alert history');
+  } finally {
+   setLoading(false);
+  }
+ }, [companyId, applicationId, status, offset]);
+
+ useEffect(() => {
+  fetchAlerts();
+ }, [fetchAlerts]);
+
+ const handleEvaluate = async () => {
+  try {
+   setEvaluating(true);
+   setError(null);
+   await cachedApi.evaluateGuard(companyId, applicationId);
+   await fetchAlerts();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to evaluate rules');
+  } finally {
+   setEvaluating(false);
+  }
+ };
+
+ return (
+  <div className="bg-card border border-border-light rounded-xl p-6">
+   <div className="flex justify-between items-center mb-4">
+    <div>
+     <h3 className="text-lg font-semibold text-primary">Alert History</h3>
+     <p className="text-xs text-secondary">
+      {lastEvaluation
+       ? `Last evaluated ${format(new Date(lastEvaluation.evaluated_at), 'PPp')}${lastEvaluation.period_start ? ` for ${lastEvaluation.period_start.slice(0, 10)} – ${lastEvaluation.period_end?.slice(0, 10)}` : ''}`
+       : 'Rules have not been evaluated yet'}
+     </p>
+    </div>
+    <div className="flex items-center gap-2">
+     <select
+      value={status}
+      onChange={(e) => {
+       setStatus(e.target.value as '' | 'open' | 'resolved');
+       setOffset(0);
+      }}
+      className="px-2 py-1.5 text-sm border border-border-default rounded bg-card text-primary"
+     >
+      {STATUS_FILTERS.map(filter => (
+       <option key={filter.value} value={filter.value}>{filter.label}</option>
+      ))}
+     </select>
+     <button
+      onClick={handleEvaluate}
+      disabled={evaluating}
+      className="px-3 py-1.5 bg-input text-primary rounded-lg hover:bg-hover-strong transition-all duration-200 text-sm inline-flex items-center gap-2 disabled:opacity-50"
+     >
+      <RefreshCw className={`w-4 h-4 ${evaluating ? 'animate-spin' : ''}`} />
+      Evaluate now
+     </button>
+    </div>
+   </div>
+
+   {(error || lastEvaluation?.error) && (
+    <div className="flex items-center gap-2 text-sm text-error mb-4">
+     <AlertCircle className="w-4 h-4" />
+     {error || `Last evaluation failed: ${lastEvaluation?.error}`}
+    </div>
+   )}
+
+   {loading ? (
+    <div className="space-y-2">
+     {[...Array(3)].map((_, i) => (
+      <div key={i} className="h-12 bg-input rounded animate-pulse" />
+     ))}
+    </div>
+   ) : alerts.length === 0 ? (
+    <p className="text-sm text-secondary py-4 text-center">No alerts have been raised.</p>
+   ) : (
+    <div className="divide-y divide-divider border border-border-light rounded-lg">
+     {alerts.map(alert => (
+      <div key={alert.id} className="flex items-center justify-between px-4 py-3 text-sm">
+       <div className="flex items-center gap-3">
+        <TrendingDown className={`w-4 h-4 ${alert.status === 'open' ? 'text-error' : 'text-muted'}`} />
+        <div>
+         <div className="text-primary font-medium capitalize">
+          {alert.metric}
+          <span className="ml-2 text-xs font-normal text-secondary normal-case">{describeCondition(alert)}</span>
+         </div>
+         <div className="text-xs text-secondary">
+          {alert.current_value.toLocaleString()} vs {alert.baseline_value.toLocaleString()} over {alert.period_days} days
+          {alert.occurrences > 1 && ` · seen ${alert.occurrences} times`}
+         </div>
+        </div>
+       </div>
+       <div className="text-right text-xs">
+        <span className={`inline-block px-2 py-0.5 rounded-full font-medium ${
+         alert.status === 'open' ? 'bg-badge-error-bg text-error' : 'bg-input text-secondary'
+        }`}>
+         {alert.status === 'open' ? 'Open' : 'Resolved'}
+        </span>
+        <div className="text-secondary mt-1">
+         {format(new Date(alert.first_detected_at), 'PPp')}
+         {alert.resolved_at && ` – ${format(new Date(alert.resolved_at), 'PPp')}`}
+        </div>
+       </div>
+      </div>
+     ))}
+    </div>
+   )}
+
+   {total > PAGE_SIZE && (
+    <div className="flex justify-between items-center mt-4 text-sm text-secondary">
+     <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+     <div className="flex gap-2">
+      <button
+       onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+       disabled={offset === 0}
+       className="px-3 py-1 bg-input rounded-lg hover:bg-hover-strong disabled:opacity-50"
+      >
+       Previous
+      </button>
+      <button
+       onClick={() => setOffset(offset + PAGE_SIZE)}
+       disabled={offset + PAGE_SIZE >= total}
+       className="px-3 py-1 bg-input rounded-lg hover:bg-hover-strong disabled:opacity-50"
+      >
+       Next
+      </button>
+     </div>
+    </div>
+   )}
+  </div>
+ );
+}
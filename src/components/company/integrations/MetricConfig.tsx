@@ -2,25 +2,40 @@
 
 import React from 'react';
 
+export type MetricCondition = 'percent_drop' | 'absolute_drop' | 'zscore';
+
 interface MetricConfigProps {
  name: string;
  enabled: boolean;
  dropThreshold: number;
+ condition: MetricCondition;
  onEnabledChange: (enabled: boolean) => void;
  onThresholdChange: (threshold: number) => void;
+ /** Switching condition also resets the threshold to a sensible value for it */
+ onConditionChange: (condition: MetricCondition, dropThreshold: number) => void;
 }
 
+const CONDITION_CONFIG = {
+ percent_drop: { label: 'Percentage drop', unit: '%', min: 1, max: 100, step: 1, defaultThreshold: 80 },
+ absolute_drop: { label: 'Absolute drop', unit: 'units', min: 0.01, max: undefined, step: 'any', defaultThreshold: 100 },
+ zscore: { label: 'Anomaly (z-score)', unit: 'σ', min: 0.5, max: 10, step: 0.1, defaultThreshold: 3 },
+} as const;
+
 /**
  * Reusable metric configuration component
- * Handles checkbox + threshold input for monitoring metrics
+ * Handles checkbox + condition + threshold input for monitoring metrics
  */
 export function MetricConfig({
  name,
  enabled,
  dropThreshold,
+ condition,
  onEnabledChange,
  onThresholdChange,
+ onConditionChange,
 }: MetricConfigProps) {
+ const config = CONDITION_CONFIG[condition];
+
  return (
   <div className="flex items-center justify-between p-4 border border-border-light rounded-lg">
    <div className="flex items-center gap-3">
@@ -35,17 +50,31 @@ export function MetricConfig({
     </span>
    </div>
    <div className="flex items-center gap-2">
-    <span className="text-sm text-secondary">Drop threshold:</span>
+    <select
+     value={condition}
+     onChange={(e) => {
+      const next = e.target.value as MetricCondition;
+      onConditionChange(next, CONDITION_CONFIG[next].defaultThreshold);
+     }}
+     disabled={!enabled}
+     className="px-2 py-1 text-sm border border-border-default rounded bg-card text-primary disabled:opacity-50"
+    >
+     {Object.entries(CONDITION_CONFIG).map(([value, option]) => (
+      <option key={value} value={value}>{option.label}</option>
+     ))}
+    </select>
+    <span className="text-sm text-secondary">threshold:</span>
     <input
      type="number"
-     min="1"
-     max="100"
+     min={config.min}
+     max={config.max}
+     step={config.step}
      value={dropThreshold}
-     onChange={(e) => onThresholdChange(parseInt(e.target.value))}
+     onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
      disabled={!enabled}
-     className="w-16 px-2 py-1 text-sm border border-border-default rounded bg-card text-primary disabled:opacity-50"
+     className="w-20 px-2 py-1 text-sm border border-border-default rounded bg-card text-primary disabled:opacity-50"
     />
-    <span className="text-sm text-secondary">%</span>
+    <span className="text-sm text-secondary">{config.unit}</span>
    </div>
   </div>
  );
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, RefreshCw, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface NotificationDelivery {
+ id: string;
+ channel: 'email' | 'slack' | 'discord' | 'whatsapp';
+ target: string;
+ event_type: string;
+ title: string;
+ status: 'sent' | 'failed';
+ attempts: number;
+ response_status: number | null;
+ error: string | null;
+ is_test: boolean;
+ created_at: string;
+}
+
+interface NotificationDeliveryLogProps {
+ companyId: string;
+ applicationId: string;
+ /** Bump to reload, e.g. after a test message was sent */
+ refreshKey?: number;
+}
+
+const PAGE_SIZE = 20;
+
+const CHANNEL_FILTERS = [
+ { value: '', label: 'All channels' },
+ { value: 'email', label: 'Email' },
+ { value: 'slack', label: 'Slack' },
+ { value: 'discord', label: 'Discord' },
+ { value: 'whatsapp', label: 'WhatsApp' },
+] as const;
+
+/**
+ * Delivery log of an integration's notification channels
+ * Shows every message sent to Email, Slack, Discord and WhatsApp with its outcome after retries
+ */
+export function NotificationDeliveryLog({ companyId, applicationId, refreshKey = 0 }: NotificationDeliveryLogProps) {
+ const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+ const [channel, setChannel] = useState('');
+ const [offset, setOffset] = useState(0);
+ const [total, setTotal] = useState(0);
+ const [loading, setLoading] = useState(true);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchDeliveries = useCallback(async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchNotificationDeliveries(companyId, applicationId, {
+    ...(channel && { channel }),
+    limit: PAGE_SIZE,
+    offset,
+   });
+   setDeliveries(result.deliveries || []);
+   setTotal(result.pagination?.total ?? 0);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load delivery log');
+  } finally {
+   setLoading(false);
+  }
+ }, [companyId, applicationId, channel, offset]);
+
+ useEffect(() => {
+  fetchDeliveries();
+ }, [fetchDeliveries, refreshKey]);
+
+ return (
+  <div className="bg-card border border-border-light rounded-xl p-6">
+   <div className="flex justify-between items-center mb-4">
+    <div>
+     <h3 className="text-lg font-semibold text-primary">Delivery Log</h3>
+     <p className="text-xs text-secondary">Notifications sent to the channels above</p>
+    </div>
+    <div className="flex items-center gap-2">
+     <select
+      value={channel}
+      onChange={(e) => {
+       setChannel(e.target.value);
+       setOffset(0);
+      }}
+      className="px-2 py-1.5 text-sm border border-border-default rounded bg-card text-primary"
+     >
+      {CHANNEL_FILTERS.map(filter => (
+       <option key={filter.value} value={filter.value}>{filter.label}</option>
+      ))}
+     </select>
+     <button
+      onClick={fetchDeliveries}
+      disabled={loading}
+      className="px-3 py-1.5 bg-input text-primary rounded-lg hover:bg-hover-strong transition-all duration-200 text-sm inline-flex items-center gap-2 disabled:opacity-50"
+     >
+      <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+      Refresh
+     </button>
+    </div>
+   </div>
+
+   {error && (
+    <div className="flex items-center gap-2 text-sm text-error mb-4">
+     <AlertCircle className="w-4 h-4" />
+     {error}
+    </div>
+   )}
+
+   {loading && deliveries.length === 0 ? (
+    <div className="space-y-2">
+     {[...Array(3)].map((_, i) => (
+      <div key={i} className="h-12 bg-input rounded animate-pulse" />
+     ))}
+    </div>
+   ) : deliveries.length === 0 ? (
+    <p className="text-sm text-secondary py-4 text-center">No notifications have been sent.</p>
+   ) : (
+    <div className="divide-y divide-divider border border-border-light rounded-lg">
+     {deliveries.map(delivery => (
+      <div key={delivery.id} className="flex items-center justify-between px-4 py-3 text-sm gap-4">
+       <div className="flex items-center gap-3 min-w-0">
+        {delivery.status === 'sent'
+         ? <CheckCircle className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+         : <XCircle className="w-4 h-4 text-error flex-shrink-0" />}
+        <div className="min-w-0">
+         <div className="text-primary font-medium truncate">
+          {delivery.title}
+          {delivery.is_test && (
+           <span className="ml-2 px-1.5 py-0.5 rounded bg-input text-xs font-normal text-secondary">test</span>
+          )}
+         </div>
+         <div className="text-xs text-secondary truncate">
+          <span className="capitalize">{delivery.channel}</span> · {delivery.target}
+         </div>
+         {delivery.error && (
+          <div className="text-xs text-error truncate" title={delivery.error}>{delivery.error}</div>
+         )}
+        </div>
+       </div>
+       <div className="text-right text-xs text-secondary flex-shrink-0">
+        <div>{format(new Date(delivery.created_at), 'PPp')}</div>
+        <div>
+         {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+         {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+        </div>
+       </div>
+      </div>
+     ))}
+    </div>
+   )}
+
+   {total > PAGE_SIZE && (
+    <div className="flex justify-between items-center mt-4 text-sm text-secondary">
+     <span>{offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}</span>
+     <div className="flex gap-2">
+      <button
+       onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+       disabled={offset === 0}
+       className="px-3 py-1 bg-input rounded-lg hover:bg-hover-strong disabled:opacity-50"
+      >
+       Previous
+      </button>
+      <button
+       onClick={() => setOffset(offset + PAGE_SIZE)}
+       disabled={offset + PAGE_SIZE >= total}
+       className="px-3 py-1 bg-input rounded-lg hover:bg-hover-strong disabled:opacity-50"
+      >
+       Next
+      </button>
+     </div>
+    </div>
+   )}
+  </div>
+ );
+}
@@ -1,6 +1,13 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { validateChannelTarget } from '@/lib/notification-channels/validation';
+
+interface TestResult {
+ status: 'sent' | 'failed';
+ error: string | null;
+}
 
 interface NotificationInputProps {
  type: 'email' | 'slack' | 'discord' | 'whatsapp';
@@ -8,6 +15,8 @@ interface NotificationInputProps {
  value: string;
  onEnabledChange: (enabled: boolean) => void;
  onValueChange: (value: string) => void;
+ /** Sends a test message to the entered target; the button is hidden without it */
+ onTest?: (value: string) => Promise<TestResult>;
 }
 
 const NOTIFICATION_CONFIG = {
@@ -35,7 +44,8 @@ const NOTIFICATION_CONFIG = {
 
 /**
  * Reusable notification input component
- * Handles checkbox + conditional input pattern for different notification types
+ * Handles checkbox + conditional input pattern for different notification types,
+ * validates the target and can send a test message to it
  */
 export function NotificationInput({
  type,
@@ -43,8 +53,29 @@ export function NotificationInput({
  value,
  onEnabledChange,
  onValueChange,
+ onTest,
 }: NotificationInputProps) {
  const config = NOTIFICATION_CONFIG[type];
+ const [testing, setTesting] = useState(false);
+ const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+ const validationError = value.trim() ? validateChannelTarget(type, value) : null;
+
+ const handleTest = async () => {
+  if (!onTest) return;
+  try {
+   setTesting(true);
+   setTestResult(null);
+   const result = await onTest(value.trim());
+   setTestResult(result.status === 'sent'
+    ? { ok: true, message: 'Test message sent' }
+    : { ok: false, message: result.error || 'Test message could not be delivered' });
+  } catch (err) {
+   setTestResult({ ok: false, message: err instanceof Error ? err.message : 'Failed to send test message' });
+  } finally {
+   setTesting(false);
+  }
+ };
 
  return (
   <div className="p-4 border border-border-light rounded-lg">
@@ -60,15 +91,39 @@ export function NotificationInput({
       {config.label}
      </span>
     </div>
+    {enabled && onTest && (
+     <button
+      type="button"
+      onClick={handleTest}
+      disabled={testing || !value.trim() || !!validationError}
+      className="px-3 py-1 bg-input text-primary rounded-lg hover:bg-hover-strong transition-all duration-200 text-xs inline-flex items-center gap-1.5 disabled:opacity-50"
+     >
+      <Send className="w-3 h-3" />
+      {testing ? 'Sending...' : 'Send test'}
+     </button>
+    )}
    </div>
    {enabled && (
-    <input
-     type={config.inputType}
-     placeholder={config.placeholder}
-     value={value}
-     onChange={(e) => onValueChange(e.target.value)}
-     className="w-full px-3 py-2 text-sm border border-border-default rounded bg-card text-primary focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
-    />
+    <>
+     <input
+      type={config.inputType}
+      placeholder={config.placeholder}
+      value={value}
+      onChange={(e) => {
+       onValueChange(e.target.value);
+       setTestResult(null);
+      }}
+      className={`w-full px-3 py-2 text-sm border rounded bg-card text-primary focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 ${
+       validationError ? 'border-red-500' : 'border-border-default'
+      }`}
+     />
+     {validationError && (
+      <p className="mt-1 text-xs text-error">{validationError}</p>
+     )}
+     {!validationError && testResult && (
+      <p className={`mt-1 text-xs ${testResult.ok ? 'text-emerald-600' : 'text-error'}`}>{testResult.message}</p>
+     )}
+    </>
    )}
   </div>
  );
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface ChartSeries<T> {
+ key: keyof T & string;
+ label: string;
+ /** Tailwind fill/stroke color class, e.g. "fill-green-500" or "stroke-blue-500" */
+ className: string;
+}
+
+type ChartPoint = { bucket: string };
+
+interface ChartProps<T extends ChartPoint> {
+ points: T[];
+ series: ChartSeries<T>[];
+ height?: number;
+ formatBucket: (bucket: string) => string;
+ formatValue?: (value: number) => string;
+}
+
+const VIEW_WIDTH = 600;
+
+function valueOf<T extends ChartPoint>(point: T, key: keyof T): number {
+ const value = point[key];
+ return typeof value === 'number' ? value : 0;
+}
+
+function Legend<T>({ series }: { series: ChartSeries<T>[] }) {
+ return (
+  <div className="flex items-center gap-4 text-xs text-secondary">
+   {series.map(s => (
+    <span key={s.key} className="flex items-center gap-1">
+     <svg width="10" height="10"><rect width="10" height="10" rx="2" className={s.className.replace('stroke-', 'fill-')} /></svg>
+     {s.label}
+    </span>
+   ))}
+  </div>
+ );
+}
+
+function Tooltip<T extends ChartPoint>({ point, series, formatBucket, formatValue }: Omit<ChartProps<T>, 'points'> & { point: T }) {
+ return (
+  <div className="text-xs text-secondary flex flex-wrap gap-x-3">
+   <span className="text-primary font-medium">{formatBucket(point.bucket)}</span>
+   {series.map(s => {
+    const value = point[s.key];
+    return (
+     <span key={s.key}>
+      {s.label}: {typeof value === 'number' ? (formatValue ? formatValue(value) : value) : '–'}
+     </span>
+    );
+   })}
+  </div>
+ );
+}
+
+/**
+ * Bars stacked from the first series upwards, one bar per bucket
+ */
+export function StackedBarChart<T extends ChartPoint>({ points, series, height = 160, formatBucket, formatValue }: ChartProps<T>) {
+ const [hovered, setHovered] = useState<number | null>(null);
+ const max = Math.max(1, ...points.map(p => series.reduce((sum, s) => sum + valueOf(p, s.key), 0)));
+ const slot = VIEW_WIDTH / Math.max(points.length, 1);
+ const barWidth = Math.max(slot * 0.7, 1);
+ const hoveredPoint = hovered !== null ? points[hovered] : undefined;
+
+ return (
+  <div className="space-y-2">
+   <Legend series={series} />
+   <svg
+    viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+    preserveAspectRatio="none"
+    className="w-full"
+    style={{ height }}
+    onMouseLeave={() => setHovered(null)}
+   >
+    {points.map((point, index) => {
+     let offset = 0;
+     return (
+      <g key={point.bucket} onMouseEnter={() => setHovered(index)}>
+       <rect x={index * slot} y={0} width={slot} height={height} className={hovered === index ? 'fill-hover' : 'fill-transparent'} />
+       {series.map(s => {
+        const barHeight = (valueOf(point, s.key) / max) * (height - 4);
+        offset += barHeight;
+        return barHeight > 0 ? (
+         <rect
+          key={s.key}
+          x={index * slot + (slot - barWidth) / 2}
+          y={height - offset}
+          width={barWidth}
+          height={barHeight}
+          className={s.className}
+         />
+        ) : null;
+       })}
+      </g>
+     );
+    })}
+   </svg>
+   <div className="h-4">
+    {hoveredPoint && (
+     <Tooltip point={hoveredPoint} series={series} formatBucket={formatBucket} formatValue={formatValue} />
+    )}
+   </div>
+  </div>
+ );
+}
+
+/**
+ * One line per series; buckets without a value leave a gap
+ */
+export function LineChart<T extends ChartPoint>({ points, series, height = 160, formatBucket, formatValue }: ChartProps<T>) {
+ const [hovered, setHovered] = useState<number | null>(null);
+ const max = Math.max(1, ...points.flatMap(p => series.map(s => valueOf(p, s.key))));
+ const step = VIEW_WIDTH / Math.max(points.length - 1, 1);
+ const y = (value: number) => height - 2 - (value / max) * (height - 4);
+ const hoveredPoint = hovered !== null ? points[hovered] : undefined;
+
+ const pathFor = (key: keyof T) => {
+  let path = '';
+  let drawing = false;
+  points.forEach((point, index) => {
+   const value = point[key];
+   if (typeof value !== 'number') {
+    drawing = false;
+    return;
+   }
+   path += `${drawing ? 'L' : 'M'}${index * step},${y(value)} `;
+   drawing = true;
+  });
+  return path;
+ };
+
+ return (
+  <div className="space-y-2">
+   <Legend series={series} />
+   <svg
+    viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+    preserveAspectRatio="none"
+    className="w-full"
+    style={{ height }}
+    onMouseLeave={() => setHovered(null)}
+   >
+    {points.map((point, index) => (
+     <rect
+      key={point.bucket}
+      x={index * step - step / 2}
+      y={0}
+      width={step}
+      height={height}
+      className={hovered === index ? 'fill-hover' : 'fill-transparent'}
+      onMouseEnter={() => setHovered(index)}
+     />
+    ))}
+    {series.map(s => (
+     <path
+      key={s.key}
+      d={pathFor(s.key)}
+      fill="none"
+      strokeWidth={2}
+      vectorEffect="non-scaling-stroke"
+      className={s.className}
+     />
+    ))}
+   </svg>
+   <div className="h-4">
+    {hoveredPoint && (
+     <Tooltip point={hoveredPoint} series={series} formatBucket={formatBucket} formatValue={formatValue} />
+    )}
+   </div>
+  </div>
+ );
+}
+
+/**
+ * Small trend line for KPI cards
+ */
+export function Sparkline({ values, className, height = 32 }: { values: number[]; className: string; height?: number }) {
+ if (values.length < 2) return null;
+
+ const max = Math.max(1, ...values);
+ const step = VIEW_WIDTH / (values.length - 1);
+ const path = values
+  .map((value, index) => `${index === 0 ? 'M' : 'L'}${index * step},${height - 1 - (value / max) * (height - 2)}`)
+  .join(' ');
+
+ return (
+  <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+   <path d={path} fill="none" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className={className} />
+  </svg>
+ );
+}
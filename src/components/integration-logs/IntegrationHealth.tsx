@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, AlertCircle, Activity } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+import { Sparkline } from '@/components/dashboard/TrendCharts';
+
+/**
+ * Integration health
+ *
+ * A status badge for the latest integration_health check and a timeline of recent checks
+ * with response times, credential state and quota usage.
+ */
+
+export interface HealthCheck {
+ id: string;
+ companyApplicationId: string;
+ checkedAt: string;
+ status: 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+ responseTimeMs: number | null;
+ apiStatus: string | null;
+ apiResponseCode: number | null;
+ apiErrorMessage: string | null;
+ credentialsValid: boolean | null;
+ credentialsExpireAt: string | null;
+ dailyApiCalls: number;
+ dailyQuotaLimit: number | null;
+ monthlyUsageMb: number;
+}
+
+const STATUS_STYLES: Record<HealthCheck['status'], { badge: string; bar: string; label: string }> = {
+ healthy: { badge: 'bg-green-500/15 text-green-600', bar: 'bg-green-500', label: 'Healthy' },
+ degraded: { badge: 'bg-badge-warning-bg text-badge-warning-text', bar: 'bg-yellow-500', label: 'Degraded' },
+ unhealthy: { badge: 'bg-badge-error-bg text-error', bar: 'bg-red-500', label: 'Unhealthy' },
+ unknown: { badge: 'bg-input text-secondary', bar: 'bg-hover-strong', label: 'Unknown' },
+};
+
+const TIMELINE_DAYS = [1, 7, 30] as const;
+
+export function IntegrationHealthBadge({ check, onClick }: { check?: HealthCheck; onClick?: () => void }) {
+ const style = STATUS_STYLES[check?.status ?? 'unknown'];
+ const title = check
+  ? `Last checked ${format(new Date(check.checkedAt), 'PPp')}${check.apiErrorMessage ? ` – ${check.apiErrorMessage}` : ''}`
+  : 'Not checked yet';
+
+ return (
+  <button
+   type="button"
+   onClick={onClick}
+   title={title}
+   className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full font-medium ${style.badge}`}
+  >
+   <Activity className="w-3 h-3" />
+   {check ? style.label : 'Not checked'}
+  </button>
+ );
+}
+
+interface IntegrationHealthTimelineProps {
+ companyId: string;
+ companyApplicationId: string;
+ canRunCheck: boolean;
+ onChecked?: (check: HealthCheck) => void;
+}
+
+export function IntegrationHealthTimeline({ companyId, companyApplicationId, canRunCheck, onChecked }: IntegrationHealthTimelineProps) {
+ const [days, setDays] = useState<number>(7);
+ const [checks, setChecks] = useState<HealthCheck[]>([]);
+ const [loading, setLoading] = useState(true);
+ const [running, setRunning] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const fetchTimeline = useCallback(async () => {
+  try {
+   setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchIntegrationHealthTimeline(companyId, companyApplicationId, days);
+   setChecks(result.checks || []);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load health checks');
+  } finally {
+   setLoading(false);
+  }
+ }, [companyId, companyApplicationId, days]);
+
+ useEffect(() => {
+  fetchTimeline();
+ }, [fetchTimeline]);
+
+ const handleRunCheck = async () => {
+  try {
+   setRunning(true);
+   setError(null);
+   const check: HealthCheck = await cachedApi.runIntegrationHealthCheck(companyId, companyApplicationId);
+   setChecks(prev => [...prev, check]);
+   onChecked?.(check);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to run health check');
+  } finally {
+   setRunning(false);
+  }
+ };
+
+ const latest = checks[checks.length - 1];
+ const latencies = checks.map(check => check.responseTimeMs ?? 0);
+
+ return (
+  <div className="space-y-3 text-xs">
+   <div className="flex items-center justify-between">
+    <div className="flex gap-1">
+     {TIMELINE_DAYS.map(option => (
+      <button
+       key={option}
+       onClick={() => setDays(option)}
+       className={`px-2 py-1 rounded ${days === option ? 'bg-input text-primary' : 'text-secondary hover:bg-hover'}`}
+      >
+       {option}d
+      </button>
+     ))}
+    </div>
+    {canRunCheck && (
+     <button
+      onClick={handleRunCheck}
+      disabled={running}
+      className="px-2 py-1 rounded bg-input text-primary hover:bg-hover-strong inline-flex items-center gap-1 disabled:opacity-50"
+     >
+      <RefreshCw className={`w-3 h-3 ${running ? 'animate-spin' : ''}`} />
+      Check now
+     </button>
+    )}
+   </div>
+
+   {error && (
+    <div className="flex items-center gap-2 text-error">
+     <AlertCircle className="w-3 h-3" />
+     {error}
+    </div>
+   )}
+
+   {loading ? (
+    <div className="h-6 bg-input rounded animate-pulse" />
+   ) : checks.length === 0 ? (
+    <p className="text-muted">No health checks in the last {days} days.</p>
+   ) : (
+    <>
+     <div className="flex gap-px h-6">
+      {checks.map(check => (
+       <div
+        key={check.id}
+        className={`flex-1 min-w-[2px] rounded-sm ${STATUS_STYLES[check.status].bar}`}
+        title={`${format(new Date(check.checkedAt), 'PPp')} – ${STATUS_STYLES[check.status].label}${check.responseTimeMs !== null ? ` · ${check.responseTimeMs} ms` : ''}`}
+       />
+      ))}
+     </div>
+
+     <Sparkline values={latencies} className="stroke-blue-500" height={24} />
+
+     {latest && (
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-secondary">
+       <dt>API</dt>
+       <dd className="text-primary">
+        {latest.apiStatus ?? '–'}
+        {latest.apiResponseCode !== null && ` (${latest.apiResponseCode})`}
+       </dd>
+       <dt>Response time</dt>
+       <dd className="text-primary">{latest.responseTimeMs !== null ? `${latest.responseTimeMs} ms` : '–'}</dd>
+       <dt>Credentials</dt>
+       <dd className={latest.credentialsValid === false ? 'text-error' : 'text-primary'}>
+        {latest.credentialsValid === null ? '–' : latest.credentialsValid ? 'Valid' : 'Invalid'}
+        {latest.credentialsExpireAt && `, expire ${format(new Date(latest.credentialsExpireAt), 'PPp')}`}
+       </dd>
+       <dt>Runs today</dt>
+       <dd className="text-primary">
+        {latest.dailyApiCalls}
+        {latest.dailyQuotaLimit !== null && ` / ${latest.dailyQuotaLimit}`}
+       </dd>
+       <dt>Logs this month</dt>
+       <dd className="text-primary">{latest.monthlyUsageMb.toFixed(2)} MB</dd>
+      </dl>
+     )}
+
+     {latest?.apiErrorMessage && <p className="text-error">{latest.apiErrorMessage}</p>}
+    </>
+   )}
+  </div>
+ );
+}
@@ -1,13 +1,14 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Search, Filter, Download, RefreshCw, Calendar, AlertCircle, Info, AlertTriangle, Bug, Zap, CheckCircle, TrendingUp, Users, Target } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Search, Filter, Download, RefreshCw, Calendar, AlertCircle, Info, AlertTriangle, Bug, Zap, CheckCircle, TrendingUp, Users, Target, Radio, ArrowDown, Archive } from 'lucide-react';
 
 /**
  * Universal Integration Logs Viewer
  *
  * Adapts to different integration log structures and provides
- * comprehensive filtering, search, and real-time updates.
+ * comprehensive filtering, search, and real-time updates. In follow mode new
+ * rows arrive over the SSE stream, oldest first, like a terminal tail.
  */
 
 interface LogEntry {
@@ -33,13 +34,19 @@ interface LogsViewerProps {
  companyId: string;
  integrationName?: string;
  executionRunId?: string;
+ companyApplicationId?: string;
  height?: string;
  showFilters?: boolean;
  showExport?: boolean;
  autoRefresh?: boolean;
  refreshInterval?: number;
+ /** Start in follow mode */
+ follow?: boolean;
 }
 
+/** Rows kept in memory while following; the oldest are dropped first */
+const MAX_FOLLOWED_LOGS = 2000;
+
 interface LogFilters {
  level?: string;
  source?: string;
@@ -53,11 +60,13 @@ export function LogsViewer({
  companyId,
  integrationName,
  executionRunId,
+ companyApplicationId,
  height = '600px',
  showFilters = true,
  showExport = true,
  autoRefresh = false,
- refreshInterval = 5000
+ refreshInterval = 5000,
+ follow = false
 }: LogsViewerProps) {
  const [logs, setLogs] = useState<LogEntry[]>([]);
  const [loading, setLoading] = useState(true);
@@ -66,6 +75,18 @@ export function LogsViewer({
  const [searchTerm, setSearchTerm] = useState('');
  const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
  const [showFiltersPanel, setShowFiltersPanel] = useState(false);
+ const [showExportMenu, setShowExportMenu] = useState(false);
+ // UTC day (YYYY-MM-DD) of archived logs being viewed instead of the live table
+ const [archiveDate, setArchiveDate] = useState('');
+ const [archiveTruncated, setArchiveTruncated] = useState(false);
+ const [following, setFollowing] = useState(follow);
+ const [autoScroll, setAutoScroll] = useState(true);
+ const [unseenCount, setUnseenCount] = useState(0);
+ const listRef = useRef<HTMLDivElement>(null);
+ const logsRef = useRef<LogEntry[]>([]);
+ const autoScrollRef = useRef(true);
+ logsRef.current = logs;
+ autoScrollRef.current = autoScroll;
 
  // Available filter options (populated from logs)
  const filterOptions = useMemo(() => {
@@ -124,6 +145,7 @@ export function LogsViewer({
    const params = new URLSearchParams();
    if (integrationName) params.append('integration', integrationName);
    if (executionRunId) params.append('executionRunId', executionRunId);
+   if (companyApplicationId) params.append('companyApplicationId', companyApplicationId);
    if (filters.level) params.append('level', filters.level);
    if (filters.source) params.append('source', filters.source);
    if (filters.category) params.append('category', filters.category);
@@ -132,7 +154,11 @@ export function LogsViewer({
    if (filters.dateTo) params.append('dateTo', filters.dateTo);
    params.append('limit', '500'); // Increase limit for comprehensive view
 
-   const response = await fetch(`/api/companies/${companyId}/integration-logs?${params}`);
+   // Archived days are re-hydrated whole; level/source/search filters then apply client-side
+   const url = archiveDate
+    ? `/api/companies/${companyId}/log-archives/${archiveDate}?${params}`
+    : `/api/companies/${companyId}/integration-logs?${params}`;
+   const response = await fetch(url);
 
    if (!response.ok) {
     throw new Error(`Failed to fetch logs: ${response.status}`);
@@ -142,6 +168,7 @@ export function LogsViewer({
 
    if (result.success) {
     setLogs(result.data.logs);
+    setArchiveTruncated(!!result.data.truncated);
    } else {
     setError(result.error || 'Failed to fetch logs');
    }
@@ -152,42 +179,114 @@ export function LogsViewer({
   }
  };
 
- // Auto-refresh effect
  useEffect(() => {
   fetchLogs();
+ }, [companyId, integrationName, executionRunId, companyApplicationId, filters, archiveDate]);
 
-  if (autoRefresh && refreshInterval > 0) {
+ // Auto-refresh effect (the stream replaces polling while following; archives never change)
+ useEffect(() => {
+  if (autoRefresh && !following && !archiveDate && refreshInterval > 0) {
    const interval = setInterval(fetchLogs, refreshInterval);
    return () => clearInterval(interval);
   }
   return undefined;
- }, [companyId, integrationName, executionRunId, filters, autoRefresh, refreshInterval]);
-
- // Export logs
- const exportLogs = () => {
-  const csvContent = [
-   // Headers
-   ['Timestamp', 'Level', 'Source', 'Category', 'Integration', 'Message', 'Execution Time (ms)', 'Memory (MB)'].join(','),
-   // Data
-   ...filteredLogs.map(log => [
-    log.logged_at,
-    log.log_level,
-    log.log_source,
-    log.log_category || '',
-    log.integration_name,
-    `"${log.message.replace(/"/g, '""')}"`, // Escape quotes for CSV
-    log.execution_time_ms || '',
-    log.memory_usage_mb || ''
-   ].join(','))
-  ].join('\n');
-
-  const blob = new Blob([csvContent], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
+ }, [companyId, integrationName, executionRunId, companyApplicationId, filters, autoRefresh, refreshInterval, following, archiveDate]);
+
+ // Follow mode: tail new rows from the newest one we already have
+ useEffect(() => {
+  if (!following) return;
+
+  const params = new URLSearchParams();
+  if (integrationName) params.append('integration', integrationName);
+  if (executionRunId) params.append('executionRunId', executionRunId);
+  if (companyApplicationId) params.append('companyApplicationId', companyApplicationId);
+  if (filters.level) params.append('level', filters.level);
+  if (filters.source) params.append('source', filters.source);
+  if (filters.category) params.append('category', filters.category);
+
+  const newest = logsRef.current[0];
+  if (newest) {
+   params.append('afterLoggedAt', newest.logged_at);
+   params.append('afterSequence', String(newest.log_sequence ?? 0));
+   params.append('afterId', newest.id);
+  }
+
+  const source = new EventSource(`/api/companies/${companyId}/integration-logs/stream?${params}`);
+
+  source.addEventListener('logs', (event) => {
+   const incoming: LogEntry[] = JSON.parse((event as MessageEvent).data);
+   setLogs(prev => {
+    // A resumed stream may repeat rows that share the cursor's timestamp
+    const known = new Set(prev.map(log => log.id));
+    const fresh = incoming.filter(log => !known.has(log.id)).reverse();
+    if (!autoScrollRef.current) setUnseenCount(count => count + fresh.length);
+    return [...fresh, ...prev].slice(0, MAX_FOLLOWED_LOGS);
+   });
+  });
+
+  // The run finished and all of its logs were delivered
+  source.addEventListener('end', () => {
+   source.close();
+   setFollowing(false);
+  });
+
+  return () => source.close();
+ }, [following, companyId, integrationName, executionRunId, companyApplicationId, filters.level, filters.source, filters.category]);
+
+ // Keep the newest row in view unless the user scrolled up to read
+ useEffect(() => {
+  if (following && autoScroll && listRef.current) {
+   listRef.current.scrollTop = listRef.current.scrollHeight;
+  }
+ }, [logs, following, autoScroll]);
+
+ const handleListScroll = () => {
+  if (!following || !listRef.current) return;
+  const { scrollTop, scrollHeight, clientHeight } = listRef.current;
+  const atBottom = scrollHeight - scrollTop - clientHeight < 40;
+  setAutoScroll(atBottom);
+  if (atBottom) setUnseenCount(0);
+ };
+
+ const toggleFollow = () => {
+  if (!following) setArchiveDate('');
+  setFollowing(!following);
+  setAutoScroll(true);
+  setUnseenCount(0);
+ };
+
+ const openArchive = (date: string) => {
+  setFollowing(false);
+  setArchiveDate(date);
+ };
+
+ const resumeAutoScroll = () => {
+  setAutoScroll(true);
+  setUnseenCount(0);
+ };
+
+ // Following reads like a terminal: oldest at the top, new rows appended below
+ const displayedLogs = following ? [...filteredLogs].reverse() : filteredLogs;
+
+ // Export logs: the server streams the whole filtered result set, not just the rows on screen
+ const exportLogs = (format: 'csv' | 'ndjson' | 'parquet') => {
+  const params = new URLSearchParams({ format });
+  if (integrationName) params.append('integration', integrationName);
+  if (executionRunId) params.append('executionRunId', executionRunId);
+  if (companyApplicationId) params.append('companyApplicationId', companyApplicationId);
+  if (filters.level) params.append('level', filters.level);
+  if (filters.source) params.append('source', filters.source);
+  if (filters.category) params.append('category', filters.category);
+  if (searchTerm) params.append('search', searchTerm);
+  if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
+  if (filters.dateTo) params.append('dateTo', filters.dateTo);
+
+  // A plain link lets the browser write the download to disk as it arrives
   const a = document.createElement('a');
-  a.href = url;
-  a.download = `integration-logs-${new Date().toISOString().split('T')[0]}.csv`;
+  a.href = `/api/companies/${companyId}/integration-logs/export?${params}`;
+  a.download = '';
   a.click();
-  URL.revokeObjectURL(url);
+  setShowExportMenu(false);
  };
 
  // Get log level icon and color
@@ -341,6 +440,15 @@ export function LogsViewer({
     </div>
 
     <div className="flex items-center space-x-2">
+     <button
+      onClick={toggleFollow}
+      className={`flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-input ${following ? 'bg-input text-green-600' : ''}`}
+      title={following ? 'Stop following new logs' : 'Follow new logs live'}
+     >
+      <Radio className={`w-4 h-4 ${following ? 'animate-pulse' : ''}`} />
+      {following ? 'Following' : 'Follow'}
+     </button>
+
      {showFilters && (
       <button
        onClick={() => setShowFiltersPanel(!showFiltersPanel)}
@@ -350,14 +458,48 @@ export function LogsViewer({
       </button>
      )}
 
-     {showExport && (
-      <button
-       onClick={exportLogs}
-       className="p-2 rounded hover:bg-input"
-       title="Export logs"
-      >
-       <Download className="w-4 h-4" />
-      </button>
+     <label
+      className={`flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-input cursor-pointer ${archiveDate ? 'bg-input' : ''}`}
+      title="Open the archived logs of a day"
+     >
+      <Archive className="w-4 h-4" />
+      <input
+       type="date"
+       value={archiveDate}
+       max={new Date().toISOString().slice(0, 10)}
+       onChange={(e) => openArchive(e.target.value)}
+       className="bg-transparent text-sm outline-none"
+      />
+     </label>
+
+     {showExport && !archiveDate && (
+      <div className="relative">
+       <button
+        onClick={() => setShowExportMenu(!showExportMenu)}
+        className={`flex items-center gap-1 px-2 py-1.5 rounded text-sm hover:bg-input ${showExportMenu ? 'bg-input' : ''}`}
+        title="Export logs"
+       >
+        <Download className="w-4 h-4" />
+        Export
+       </button>
+       {showExportMenu && (
+        <div className="absolute right-0 mt-1 w-40 bg-white border rounded shadow-lg z-10 py-1">
+         {([
+          ['csv', 'CSV'],
+          ['ndjson', 'NDJSON'],
+          ['parquet', 'Parquet'],
+         ] as const).map(([format, label]) => (
+          <button
+           key={format}
+           onClick={() => exportLogs(format)}
+           className="w-full text-left px-3 py-1.5 text-sm hover:bg-input"
+          >
+           {label}
+          </button>
+         ))}
+        </div>
+       )}
+      </div>
      )}
 
      <button
@@ -371,6 +513,21 @@ export function LogsViewer({
     </div>
    </div>
 
+   {archiveDate && (
+    <div className="flex items-center justify-between px-4 py-2 bg-amber-50 border-b text-sm text-amber-800">
+     <span>
+      Showing archived logs for {archiveDate} (UTC)
+      {archiveTruncated && ' - only the newest 10,000 rows are shown'}
+     </span>
+     <button
+      onClick={() => setArchiveDate('')}
+      className="px-2 py-1 rounded hover:bg-amber-100"
+     >
+      Back to live logs
+     </button>
+    </div>
+   )}
+
    {/* Search bar */}
    <div className="p-4 bg-base border-b">
     <div className="relative">
@@ -445,15 +602,15 @@ export function LogsViewer({
    )}
 
    {/* Logs list */}
-   <div className="flex-1 overflow-hidden">
-    <div className="h-full overflow-y-auto" style={{ height }}>
-     {filteredLogs.length === 0 ? (
+   <div className="flex-1 overflow-hidden relative">
+    <div ref={listRef} onScroll={handleListScroll} className="h-full overflow-y-auto" style={{ height }}>
+     {displayedLogs.length === 0 ? (
       <div className="flex items-center justify-center h-full text-muted">
        No logs found
       </div>
      ) : (
       <div className="space-y-1">
-       {filteredLogs.map((log) => {
+       {displayedLogs.map((log) => {
         const { icon: Icon, color, bg } = getLogLevelStyle(log.log_level);
 
         const isSuccessResult = log.log_category === 'integration_results' && log.log_level === 'info';
@@ -537,6 +694,16 @@ export function LogsViewer({
       </div>
      )}
     </div>
+
+    {following && !autoScroll && (
+     <button
+      onClick={resumeAutoScroll}
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 px-3 py-1.5 rounded-full bg-blue-600 text-white text-xs shadow hover:bg-blue-700"
+     >
+      <ArrowDown className="w-3 h-3" />
+      {unseenCount > 0 ? `${unseenCount} new logs` : 'Resume auto-scroll'}
+     </button>
+    )}
    </div>
   </div>
  );
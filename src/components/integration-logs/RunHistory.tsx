@@ -0,0 +1,378 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { RefreshCw, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { cachedApi } from '@/lib/cachedApi';
+
+/**
+ * Execution run history
+ *
+ * Lists execution_runs of one application with status/trigger filters and pagination,
+ * expands a run to show its integration logs, and polls while runs are in progress.
+ */
+
+interface RunSummary {
+ id: string;
+ app_name: string;
+ run_type: string;
+ status: string;
+ triggered_by: string | null;
+ user_email: string | null;
+ bullmq_job_id: string | null;
+ started_at: string | null;
+ completed_at: string | null;
+ duration_ms: number | null;
+ error_message: string | null;
+}
+
+interface RunLog {
+ id: string;
+ log_level: string;
+ log_source: string;
+ message: string;
+ logged_at: string;
+}
+
+interface RunDetail extends RunSummary {
+ executor_id: string | null;
+ error_details: string | null;
+ output_data: Record<string, unknown> | null;
+ output_files: string[];
+ logs: RunLog[];
+ logs_truncated: boolean;
+}
+
+interface Pagination {
+ limit: number;
+ offset: number;
+ total: number;
+ hasMore: boolean;
+}
+
+const PAGE_SIZE = 25;
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_STYLES: Record<string, string> = {
+ pending: 'bg-input text-secondary',
+ running: 'bg-blue-500/15 text-blue-500',
+ success: 'bg-green-500/15 text-green-600',
+ failed: 'bg-badge-error-bg text-error',
+ timeout: 'bg-badge-error-bg text-error',
+ cancelled: 'bg-badge-warning-bg text-badge-warning-text',
+};
+
+const LEVEL_STYLES: Record<string, string> = {
+ debug: 'text-muted',
+ info: 'text-secondary',
+ warn: 'text-badge-warning-text',
+ error: 'text-error',
+ fatal: 'text-error font-semibold',
+};
+
+const isActive = (status: string) => status === 'pending' || status === 'running';
+
+const formatDuration = (ms: number | null) => {
+ if (ms === null) return '–';
+ if (ms < 1000) return `${ms} ms`;
+ if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+ return `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+};
+
+const RunStatusBadge = ({ status }: { status: string }) => (
+ <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium ${STATUS_STYLES[status] || 'bg-input text-secondary'}`}>
+  {isActive(status) && <RefreshCw className="w-3 h-3 animate-spin" />}
+  {status}
+ </span>
+);
+
+const RunDetailPanel = ({ run }: { run: RunDetail }) => (
+ <div className="space-y-4 p-4 bg-base">
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+   <div>
+    <p className="text-muted">Job ID</p>
+    <p className="text-primary font-mono break-all">{run.bullmq_job_id || '–'}</p>
+   </div>
+   <div>
+    <p className="text-muted">Executor</p>
+    <p className="text-primary font-mono break-all">{run.executor_id || '–'}</p>
+   </div>
+   <div>
+    <p className="text-muted">Completed</p>
+    <p className="text-primary">{run.completed_at ? format(new Date(run.completed_at), 'MMM d, yyyy HH:mm:ss') : '–'}</p>
+   </div>
+   <div>
+    <p className="text-muted">Output files</p>
+    <p className="text-primary">{run.output_files.length}</p>
+   </div>
+  </div>
+
+  {(run.error_message || run.error_details) && (
+   <div className="border border-red-500/40 rounded-lg p-3">
+    <p className="text-sm font-medium text-error mb-1">{run.error_message || 'Run failed'}</p>
+    {run.error_details && (
+     <pre className="text-xs text-secondary whitespace-pre-wrap font-mono">{run.error_details}</pre>
+    )}
+   </div>
+  )}
+
+  <div>
+   <h4 className="text-sm font-medium text-primary mb-2">Logs</h4>
+   {run.logs.length === 0 ? (
+    <p className="text-sm text-muted">No logs recorded for this run{isActive(run.status) ? ' yet' : ''}.</p>
+   ) : (
+    <div className="max-h-96 overflow-auto rounded-lg border border-border-light bg-card p-3 font-mono text-xs space-y-0.5">
+     {run.logs.map(log => (
+      <div key={log.id} className="flex gap-3">
+       <span className="text-muted shrink-0">{format(new Date(log.logged_at), 'HH:mm:ss.SSS')}</span>
+       <span className={`uppercase w-12 shrink-0 ${LEVEL_STYLES[log.log_level] || 'text-secondary'}`}>{log.log_level}</span>
+       <span className="text-muted shrink-0">{log.log_source}</span>
+       <span className="text-primary whitespace-pre-wrap break-all">{log.message}</span>
+      </div>
+     ))}
+    </div>
+   )}
+   {run.logs_truncated && (
+    <p className="text-xs text-muted mt-2">Only the first {run.logs.length} log lines are shown.</p>
+   )}
+  </div>
+
+  {run.output_data && Object.keys(run.output_data).length > 0 && (
+   <div>
+    <h4 className="text-sm font-medium text-primary mb-2">Output</h4>
+    <pre className="max-h-64 overflow-auto rounded-lg border border-border-light bg-card p-3 text-xs font-mono text-secondary">
+     {JSON.stringify(run.output_data, null, 2)}
+    </pre>
+   </div>
+  )}
+ </div>
+);
+
+interface RunHistoryProps {
+ companyId: string;
+ appId: string;
+ /** BullMQ job id returned by the trigger route; its run is opened once it appears */
+ awaitedJobId?: string | null;
+}
+
+export function RunHistory({ companyId, appId, awaitedJobId }: RunHistoryProps) {
+ const [runs, setRuns] = useState<RunSummary[]>([]);
+ const [pagination, setPagination] = useState<Pagination | null>(null);
+ const [offset, setOffset] = useState(0);
+ const [statusFilter, setStatusFilter] = useState('');
+ const [triggerFilter, setTriggerFilter] = useState('');
+ const [loading, setLoading] = useState(true);
+ const [error, setError] = useState<string | null>(null);
+ const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+ const [runDetail, setRunDetail] = useState<RunDetail | null>(null);
+ const [jobFound, setJobFound] = useState(false);
+
+ const loadRuns = useCallback(async (showSpinner = true) => {
+  try {
+   if (showSpinner) setLoading(true);
+   setError(null);
+   const result = await cachedApi.fetchExecutionRuns(companyId, {
+    appId,
+    status: statusFilter || undefined,
+    triggeredBy: triggerFilter || undefined,
+    limit: PAGE_SIZE,
+    offset,
+   });
+   setRuns(result.runs);
+   setPagination(result.pagination);
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load runs');
+  } finally {
+   setLoading(false);
+  }
+ }, [companyId, appId, statusFilter, triggerFilter, offset]);
+
+ const loadRunDetail = useCallback(async (runId: string) => {
+  try {
+   setRunDetail(await cachedApi.fetchExecutionRun(companyId, runId));
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Failed to load run');
+  }
+ }, [companyId]);
+
+ useEffect(() => {
+  loadRuns();
+ }, [loadRuns]);
+
+ // Open the triggered run as soon as the executor has recorded it
+ useEffect(() => {
+  if (!awaitedJobId || jobFound) return;
+  const run = runs.find(r => r.bullmq_job_id === awaitedJobId);
+  if (run) {
+   setJobFound(true);
+   setExpandedRunId(run.id);
+  }
+ }, [awaitedJobId, jobFound, runs]);
+
+ useEffect(() => {
+  if (expandedRunId) {
+   loadRunDetail(expandedRunId);
+  } else {
+   setRunDetail(null);
+  }
+ }, [expandedRunId, loadRunDetail]);
+
+ // Poll while something is still running or the triggered run has not appeared yet
+ const shouldPoll = runs.some(r => isActive(r.status)) || (!!awaitedJobId && !jobFound);
+ useEffect(() => {
+  if (!shouldPoll) return;
+
+  const timer = setInterval(() => {
+   loadRuns(false);
+   if (expandedRunId) loadRunDetail(expandedRunId);
+  }, POLL_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+ }, [shouldPoll, loadRuns, loadRunDetail, expandedRunId]);
+
+ const handleFilterChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+  setter(e.target.value);
+  setOffset(0);
+  setExpandedRunId(null);
+ };
+
+ return (
+  <div>
+   {awaitedJobId && !jobFound && (
+    <div className="mb-4 flex items-center gap-2 rounded-lg border border-border-light bg-card p-4 text-sm text-secondary">
+     <RefreshCw className="w-4 h-4 animate-spin" />
+     Waiting for the executor to start job <code className="font-mono">{awaitedJobId}</code>...
+    </div>
+   )}
+
+   {/* Filters */}
+   <div className="flex flex-wrap items-center gap-3 mb-4">
+    <select
+     value={statusFilter}
+     onChange={handleFilterChange(setStatusFilter)}
+     className="border border-border-default rounded-md p-2 bg-input text-primary text-sm"
+    >
+     <option value="">All statuses</option>
+     <option value="pending,running">In progress</option>
+     <option value="success">Succeeded</option>
+     <option value="failed,timeout">Failed</option>
+     <option value="cancelled">Cancelled</option>
+    </select>
+    <select
+     value={triggerFilter}
+     onChange={handleFilterChange(setTriggerFilter)}
+     className="border border-border-default rounded-md p-2 bg-input text-primary text-sm"
+    >
+     <option value="">All triggers</option>
+     <option value="manual">Manual</option>
+     <option value="cron">Scheduled</option>
+     <option value="webhook">Webhook</option>
+     <option value="user">User</option>
+    </select>
+    <button
+     onClick={() => loadRuns()}
+     className="ml-auto px-4 py-2 bg-input rounded-lg text-primary hover:bg-hover-strong transition-all duration-200 flex items-center gap-2 text-sm"
+    >
+     <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+     Refresh
+    </button>
+   </div>
+
+   {error && (
+    <div className="mb-4 flex items-center gap-2 rounded-lg border border-red-500/40 p-4 text-sm text-error">
+     <AlertCircle className="w-4 h-4" />
+     {error}
+    </div>
+   )}
+
+   {/* Runs */}
+   <div className="bg-card border border-border-light rounded-xl overflow-hidden">
+    {loading && runs.length === 0 ? (
+     <div className="flex items-center justify-center py-16">
+      <RefreshCw className="h-6 w-6 animate-spin text-muted" />
+     </div>
+    ) : runs.length === 0 ? (
+     <div className="text-center py-16">
+      <p className="text-primary font-medium mb-1">No runs yet</p>
+      <p className="text-secondary text-sm">Runs appear here once the integration is executed.</p>
+     </div>
+    ) : (
+     <table className="w-full text-sm">
+      <thead className="bg-base text-left text-muted">
+       <tr>
+        <th className="w-8 px-4 py-3"></th>
+        <th className="px-4 py-3 font-medium">Status</th>
+        <th className="px-4 py-3 font-medium">Started</th>
+        <th className="px-4 py-3 font-medium">Duration</th>
+        <th className="px-4 py-3 font-medium">Trigger</th>
+        <th className="px-4 py-3 font-medium">Started by</th>
+       </tr>
+      </thead>
+      <tbody>
+       {runs.map(run => {
+        const expanded = expandedRunId === run.id;
+        return (
+         <Fragment key={run.id}>
+          <tr
+           onClick={() => setExpandedRunId(expanded ? null : run.id)}
+           className={`border-t border-border-light cursor-pointer hover:bg-hover-strong ${run.bullmq_job_id && run.bullmq_job_id === awaitedJobId ? 'bg-input' : ''}`}
+          >
+           <td className="px-4 py-3 text-muted">
+            {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+           </td>
+           <td className="px-4 py-3"><RunStatusBadge status={run.status} /></td>
+           <td className="px-4 py-3 text-primary">
+            {run.started_at ? format(new Date(run.started_at), 'MMM d, yyyy HH:mm:ss') : '–'}
+           </td>
+           <td className="px-4 py-3 text-secondary">{formatDuration(run.duration_ms)}</td>
+           <td className="px-4 py-3 text-secondary">{run.triggered_by || run.run_type}</td>
+           <td className="px-4 py-3 text-secondary">{run.user_email || '–'}</td>
+          </tr>
+          {expanded && (
+           <tr className="border-t border-border-light">
+            <td colSpan={6}>
+             {runDetail?.id === run.id ? (
+              <RunDetailPanel run={runDetail} />
+             ) : (
+              <div className="flex items-center justify-center py-6">
+               <RefreshCw className="h-5 w-5 animate-spin text-muted" />
+              </div>
+             )}
+            </td>
+           </tr>
+          )}
+         </Fragment>
+        );
+       })}
+      </tbody>
+     </table>
+    )}
+   </div>
+
+   {/* Pagination */}
+   {pagination && pagination.total > PAGE_SIZE && (
+    <div className="flex items-center justify-between mt-4 text-sm text-secondary">
+     <span>
+      {pagination.offset + 1}–{Math.min(pagination.offset + pagination.limit, pagination.total)} of {pagination.total}
+     </span>
+     <div className="flex gap-2">
+      <button
+       onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+       disabled={offset === 0}
+       className="px-3 py-1.5 bg-input rounded-lg text-primary hover:bg-hover-strong disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+       Previous
+      </button>
+      <button
+       onClick={() => setOffset(offset + PAGE_SIZE)}
+       disabled={!pagination.hasMore}
+       className="px-3 py-1.5 bg-input rounded-lg text-primary hover:bg-hover-strong disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+       Next
+      </button>
+     </div>
+    </div>
+   )}
+  </div>
+ );
+}
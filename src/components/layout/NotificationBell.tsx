@@ -1,6 +1,6 @@
 'use client';
 
-import { Bell, Check, X, ExternalLink, Users } from 'lucide-react';
+import { Bell, Check, X, ExternalLink, Users, Crown, AlertTriangle, CheckCircle, Clock, TrendingDown, Download, ShieldAlert } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/lib/supabaseClient';
@@ -57,6 +57,35 @@ export default function NotificationBell({ showText = false, text = 'Notificatio
   }
  };
 
+ // Handle ownership transfer response
+ const handleOwnershipTransferResponse = async (transferId: string, action: 'accept' | 'reject') => {
+  try {
+   const { data: { session } } = await supabase.auth.getSession();
+   if (!session?.access_token) return;
+
+   const response = await fetch(`/api/ownership-transfers/${transferId}/${action}`, {
+    method: 'POST',
+    headers: {
+     'Authorization': `Bearer ${session.access_token}`,
+    },
+   });
+
+   if (response.ok) {
+    const data = await response.json();
+    if (action === 'accept' && data.data?.redirect_url) {
+     router.push(data.data.redirect_url);
+    }
+    // Notifications will be refreshed automatically via real-time subscription
+   } else {
+    const error = await response.json();
+    alert(error?.error || `Failed to ${action} ownership transfer`);
+   }
+  } catch (error) {
+   console.error(`Error ${action}ing ownership transfer:`, error);
+   alert(`Failed to ${action} ownership transfer`);
+  }
+ };
+
  // Handle bell click - navigate to notifications page on desktop or mobile sidebar, toggle dropdown on mobile header only
  const handleBellClick = () => {
   if (isDesktop || isMobileSidebar) {
@@ -139,6 +168,49 @@ export default function NotificationBell({ showText = false, text = 'Notificatio
       <Users size={16} className="text-badge-success-text" />
      </div>
     );
+   case 'ownership_transfer':
+    return (
+     <div className="w-8 h-8 bg-badge-info-bg rounded-full flex items-center justify-center">
+      <Crown size={16} className="text-badge-info-text" />
+     </div>
+    );
+   case 'integration_failed':
+   case 'integration_health':
+    return (
+     <div className="w-8 h-8 bg-badge-error-bg rounded-full flex items-center justify-center">
+      <AlertTriangle size={16} className="text-badge-error-text" />
+     </div>
+    );
+   case 'integration_recovered':
+    return (
+     <div className="w-8 h-8 bg-badge-success-bg rounded-full flex items-center justify-center">
+      <CheckCircle size={16} className="text-badge-success-text" />
+     </div>
+    );
+   case 'credentials_expiring':
+    return (
+     <div className="w-8 h-8 bg-badge-warning-bg rounded-full flex items-center justify-center">
+      <Clock size={16} className="text-badge-warning-text" />
+     </div>
+    );
+   case 'alert_triggered':
+    return (
+     <div className="w-8 h-8 bg-badge-warning-bg rounded-full flex items-center justify-center">
+      <TrendingDown size={16} className="text-badge-warning-text" />
+     </div>
+    );
+   case 'export_ready':
+    return (
+     <div className="w-8 h-8 bg-badge-info-bg rounded-full flex items-center justify-center">
+      <Download size={16} className="text-badge-info-text" />
+     </div>
+    );
+   case 'security_finding':
+    return (
+     <div className="w-8 h-8 bg-badge-error-bg rounded-full flex items-center justify-center">
+      <ShieldAlert size={16} className="text-badge-error-text" />
+     </div>
+    );
    default:
     return (
      <div className="w-8 h-8 bg-hover rounded-full flex items-center justify-center">
@@ -269,6 +341,30 @@ export default function NotificationBell({ showText = false, text = 'Notificatio
             </div>
            )}
 
+           {/* Ownership Transfer Actions */}
+           {notification.type === 'ownership_transfer' && notification.ownershipTransfer?.status === 'pending' && (
+            <div className="flex gap-2 mt-3">
+             <button
+              onClick={(e) => {
+               e.stopPropagation();
+               handleOwnershipTransferResponse(notification.ownershipTransfer!.id, 'accept');
+              }}
+              className="flex-1 px-3 py-2 bg-emerald-600 hover:bg-emerald-700 text-on-brand text-xs rounded-md transition-all duration-200 hover:shadow-md font-medium"
+             >
+              ✓ Přijmout
+             </button>
+             <button
+              onClick={(e) => {
+               e.stopPropagation();
+               handleOwnershipTransferResponse(notification.ownershipTransfer!.id, 'reject');
+              }}
+              className="flex-1 px-3 py-2 bg-error hover:bg-red-700 text-on-brand text-xs rounded-md transition-all duration-200 hover:shadow-md font-medium"
+             >
+              ✗ Odmítnout
+             </button>
+            </div>
+           )}
+
            {/* Action URL */}
            {notification.actionUrl && notification.type !== 'company_invitation' && (
             <button
@@ -27,6 +27,11 @@ export interface Notification {
    email: string;
   };
  };
+ ownershipTransfer?: {
+  id: string;
+  status: string;
+  expiresAt: string;
+ };
 }
 
 interface NotificationContextType {
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+
+export type PendingInvitation = {
+ id: string;
+ email: string;
+ role: string;
+ status: string;
+ expires_at: string;
+ inviter_email: string | null;
+};
+
+type Props = {
+ invitation: PendingInvitation;
+ canManage: boolean;
+ canInviteOwners: boolean;
+ onResend: (invitation: PendingInvitation) => Promise<void>;
+ onRevoke: (invitation: PendingInvitation) => Promise<void>;
+ onChangeRole: (invitation: PendingInvitation, role: string) => Promise<void>;
+};
+
+export default function InvitationRow({ invitation, canManage, canInviteOwners, onResend, onRevoke, onChangeRole }: Props) {
+ const [menuOpen, setMenuOpen] = useState(false);
+ const [busy, setBusy] = useState(false);
+ const expired = invitation.status === 'expired';
+
+ const run = async (action: () => Promise<void>) => {
+  setMenuOpen(false);
+  setBusy(true);
+  try {
+   await action();
+  } finally {
+   setBusy(false);
+  }
+ };
+
+ return (
+  <tr className="shadow-sm bg-card rounded">
+   <td className="flex items-center gap-3 px-4 py-3">
+    <div className="w-8 h-8 rounded-full bg-badge-pending-bg flex items-center justify-center">
+     <span className="text-badge-pending-text text-sm font-medium">!</span>
+    </div>
+    <div>
+     <div className="font-medium text-primary">{invitation.email}</div>
+     <div className="text-sm text-muted">
+      Pozvaný uživatel{invitation.inviter_email ? ` · ${invitation.inviter_email}` : ''}
+     </div>
+    </div>
+   </td>
+
+   <td className="px-4 py-3">
+    {canManage && !expired && (invitation.role !== 'owner' || canInviteOwners) ? (
+     <select
+      value={invitation.role}
+      disabled={busy}
+      onChange={(e) => run(() => onChangeRole(invitation, e.target.value))}
+      className="bg-input text-primary border border-border-default rounded px-2 py-1"
+     >
+      <option value="member">member</option>
+      <option value="admin">admin</option>
+      <option value="superadmin">superadmin</option>
+      {canInviteOwners && <option value="owner">owner</option>}
+     </select>
+    ) : (
+     invitation.role
+    )}
+   </td>
+
+   <td className="px-4 py-3">
+    {expired ? 'Vypršela' : 'Vyprší'} {new Date(invitation.expires_at).toLocaleString('sk-SK')}
+   </td>
+
+   <td className="px-4 py-3">
+    {expired ? (
+     <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-primary rounded-full">
+      <span className="w-2 h-2 bg-base0 rounded-full" />
+      Pozvánka vypršela
+     </span>
+    ) : (
+     <span className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium text-badge-pending-text rounded-full">
+      <span className="w-2 h-2 bg-orange-500 rounded-full" />
+      Čeká na pozvánku
+     </span>
+    )}
+   </td>
+
+   <td className="px-4 py-3 text-right relative">
+    {canManage ? (
+     <>
+      <button
+       className="text-muted border-none size-11 hover:text-secondary text-secondary hover:text-secondary disabled:opacity-50"
+       onClick={() => setMenuOpen(!menuOpen)}
+       disabled={busy}
+      >
+       <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" className="bi bi-three-dots-vertical" viewBox="0 0 16 16">
+        <path d="M9.5 13a1.5 1.5 0 1 1-3 0 1.5 1.5 0 0 1 3 0m0-5a1.5 1.5 0 1 1-3 0 1.5 1.5 0 0 1 3 0m0-5a1.5 1.5 0 1 1-3 0 1.5 1.5 0 0 1 3 0" />
+       </svg>
+      </button>
+
+      {menuOpen && (
+       <div className="absolute right-4 z-10 mt-2 w-40 rounded-md shadow-lg bg-card ring-1 ring-border-default text-sm">
+        <button
+         className="w-full px-4 py-2 text-left hover:bg-hover text-primary"
+         onClick={() => run(() => onResend(invitation))}
+        >
+         Znovu odeslat
+        </button>
+        <button
+         className="w-full px-4 py-2 text-left text-error hover:bg-hover"
+         onClick={() => run(() => onRevoke(invitation))}
+        >
+         Zrušit pozvánku
+        </button>
+       </div>
+      )}
+     </>
+    ) : (
+     <span className="text-muted text-sm">Čeká</span>
+    )}
+   </td>
+  </tr>
+ );
+}
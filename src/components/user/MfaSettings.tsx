@@ -0,0 +1,281 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { supabase } from '@/lib/supabaseClient';
+import { cachedApi } from '@/lib/cachedApi';
+
+interface TotpFactor {
+ id: string;
+ friendly_name?: string;
+ created_at: string;
+}
+
+interface PendingEnrollment {
+ factorId: string;
+ qrCode: string;
+ secret: string;
+}
+
+/**
+ * Profile section for TOTP two-factor authentication: enroll an authenticator app, remove
+ * it, and generate the recovery codes used when the app is lost
+ */
+export default function MfaSettings() {
+ const t = useTranslations('profile.mfa');
+ const [factors, setFactors] = useState<TotpFactor[]>([]);
+ const [pending, setPending] = useState<PendingEnrollment | null>(null);
+ const [code, setCode] = useState('');
+ const [remainingCodes, setRemainingCodes] = useState<number | null>(null);
+ const [newCodes, setNewCodes] = useState<string[] | null>(null);
+ const [busy, setBusy] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+
+ const load = async () => {
+  const { data, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) {
+   console.error('Failed to list MFA factors:', listError);
+   return;
+  }
+
+  setFactors(data.totp);
+  if (data.totp.length > 0) {
+   cachedApi.fetchMfaRecoveryCodeStatus()
+    .then(status => setRemainingCodes(status.remaining))
+    .catch(err => console.error('Failed to load recovery codes:', err));
+  }
+ };
+
+ useEffect(() => {
+  load();
+ }, []);
+
+ const startEnrollment = async () => {
+  setBusy(true);
+  setError(null);
+
+  try {
+   // An abandoned enrollment leaves an unverified factor behind; clear it first
+   const { data } = await supabase.auth.mfa.listFactors();
+   for (const factor of data?.all ?? []) {
+    if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+     await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    }
+   }
+
+   const { data: enrolled, error: enrollError } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: `Authenticator ${new Date().toISOString().slice(0, 10)}`,
+   });
+   if (enrollError || !enrolled) throw enrollError;
+
+   setPending({ factorId: enrolled.id, qrCode: enrolled.totp.qr_code, secret: enrolled.totp.secret });
+   setCode('');
+  } catch (err) {
+   console.error('MFA enrollment failed:', err);
+   setError(t('enrollFailed'));
+  } finally {
+   setBusy(false);
+  }
+ };
+
+ const verifyEnrollment = async () => {
+  if (!pending) return;
+  setBusy(true);
+  setError(null);
+
+  try {
+   const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+    factorId: pending.factorId,
+    code: code.trim(),
+   });
+   if (verifyError) {
+    setError(t('invalidCode'));
+    return;
+   }
+
+   // The session is at AAL2 now, which generating recovery codes requires
+   setPending(null);
+   setNewCodes(await cachedApi.generateMfaRecoveryCodes());
+   await load();
+  } catch (err) {
+   console.error('MFA verification failed:', err);
+   setError(t('regenerateFailed'));
+  } finally {
+   setBusy(false);
+  }
+ };
+
+ const cancelEnrollment = async () => {
+  if (pending) {
+   await supabase.auth.mfa.unenroll({ factorId: pending.factorId });
+  }
+  setPending(null);
+  setError(null);
+ };
+
+ const removeFactor = async (factorId: string) => {
+  if (!confirm(t('removeConfirm'))) return;
+  setBusy(true);
+  setError(null);
+
+  const { error: unenrollError } = await supabase.auth.mfa.unenroll({ factorId });
+  if (unenrollError) {
+   console.error('MFA unenroll failed:', unenrollError);
+   setError(t('removeFailed'));
+  } else {
+   // Drop the removed factor from the stored session as well
+   await supabase.auth.refreshSession();
+   setRemainingCodes(null);
+   setNewCodes(null);
+   await load();
+  }
+
+  setBusy(false);
+ };
+
+ const regenerateCodes = async () => {
+  if (!confirm(t('regenerateConfirm'))) return;
+  setBusy(true);
+  setError(null);
+
+  try {
+   setNewCodes(await cachedApi.generateMfaRecoveryCodes());
+   await load();
+  } catch (err) {
+   console.error('Recovery code generation failed:', err);
+   setError(t('regenerateFailed'));
+  } finally {
+   setBusy(false);
+  }
+ };
+
+ const enabled = factors.length > 0;
+
+ return (
+  <section className="space-y-4">
+   <div className="flex items-center gap-3">
+    <h3 className="font-medium">{t('title')}</h3>
+    <span
+     className={`text-xs px-2 py-0.5 rounded-full ${enabled ? 'bg-emerald-100 text-emerald-700' : 'bg-hover text-muted'}`}
+    >
+     {enabled ? t('enabled') : t('disabled')}
+    </span>
+   </div>
+   <p className="text-sm text-muted max-w-lg">{t('description')}</p>
+
+   {factors.map(factor => (
+    <div key={factor.id} className="flex items-center justify-between max-w-lg border rounded-md px-3 py-2 text-sm">
+     <span>{factor.friendly_name || 'Authenticator'}</span>
+     <button
+      type="button"
+      onClick={() => removeFactor(factor.id)}
+      disabled={busy}
+      className="text-red-500 hover:underline disabled:opacity-50"
+     >
+      {t('remove')}
+     </button>
+    </div>
+   ))}
+
+   {!enabled && !pending && (
+    <button
+     type="button"
+     onClick={startEnrollment}
+     disabled={busy}
+     className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-md px-4 py-2 disabled:opacity-50 transition-colors"
+    >
+     {t('enable')}
+    </button>
+   )}
+
+   {pending && (
+    <form
+     onSubmit={e => {
+      e.preventDefault();
+      verifyEnrollment();
+     }}
+     className="grid gap-4 max-w-lg"
+    >
+     <p className="text-sm">{t('scanQr')}</p>
+     <img src={pending.qrCode} alt="QR" className="w-48 h-48 bg-white p-2 rounded" />
+     <code className="font-mono text-xs break-all">{pending.secret}</code>
+     <div>
+      <label className="block text-sm mb-1">{t('codeLabel')}</label>
+      <input
+       type="text"
+       inputMode="numeric"
+       autoComplete="one-time-code"
+       value={code}
+       onChange={e => setCode(e.target.value)}
+       className="w-full form-input bg-input border-border-default text-primary tracking-widest"
+      />
+     </div>
+     <div className="flex gap-3">
+      <button
+       type="button"
+       onClick={cancelEnrollment}
+       className="flex-1 border py-2 rounded-md hover:bg-hover bg-card text-primary"
+      >
+       {t('cancel')}
+      </button>
+      <button
+       type="submit"
+       disabled={busy || code.trim().length < 6}
+       className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white rounded-md py-2 disabled:opacity-50 transition-colors"
+      >
+       {busy ? t('verifying') : t('verify')}
+      </button>
+     </div>
+    </form>
+   )}
+
+   {error && <p className="text-sm text-red-600">{error}</p>}
+
+   {newCodes && (
+    <div className="max-w-lg border rounded-md p-4 space-y-3">
+     <p className="text-sm font-medium">{t('recoverySave')}</p>
+     <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+      {newCodes.map(recoveryCode => (
+       <span key={recoveryCode}>{recoveryCode}</span>
+      ))}
+     </div>
+     <div className="flex gap-3">
+      <button
+       type="button"
+       onClick={() => navigator.clipboard.writeText(newCodes.join('\n'))}
+       className="border px-3 py-1.5 rounded-md hover:bg-hover bg-card text-sm"
+      >
+       {t('recoveryCopy')}
+      </button>
+      <button
+       type="button"
+       onClick={() => setNewCodes(null)}
+       className="bg-emerald-600 hover:bg-emerald-700 text-white rounded-md px-3 py-1.5 text-sm transition-colors"
+      >
+       {t('recoveryDone')}
+      </button>
+     </div>
+    </div>
+   )}
+
+   {enabled && !newCodes && (
+    <div className="max-w-lg space-y-2">
+     <h4 className="text-sm font-medium">{t('recoveryCodes')}</h4>
+     <p className="text-sm text-muted">{t('recoveryDescription')}</p>
+     {remainingCodes !== null && (
+      <p className="text-sm">{t('recoveryRemaining', { count: remainingCodes })}</p>
+     )}
+     <button
+      type="button"
+      onClick={regenerateCodes}
+      disabled={busy}
+      className="border px-3 py-1.5 rounded-md hover:bg-hover bg-card text-sm disabled:opacity-50"
+     >
+      {t('regenerate')}
+     </button>
+    </div>
+   )}
+  </section>
+ );
+}
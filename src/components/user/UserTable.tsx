@@ -2,12 +2,29 @@
 
 import { CompanyUserMini as User } from '@/lib/validation/companyUserMiniSchema';
 import UserRow from './UserRow';
+import InvitationRow, { type PendingInvitation } from './InvitationRow';
 
 type Props = {
  users: User[];
+ invitations?: PendingInvitation[];
+ canManageInvitations?: boolean;
+ canInviteOwners?: boolean;
+ onResendInvitation?: (invitation: PendingInvitation) => Promise<void>;
+ onRevokeInvitation?: (invitation: PendingInvitation) => Promise<void>;
+ onChangeInvitationRole?: (invitation: PendingInvitation, role: string) => Promise<void>;
 };
 
-export default function UserTable({ users }: Props) {
+const noop = async () => {};
+
+export default function UserTable({
+ users,
+ invitations = [],
+ canManageInvitations = false,
+ canInviteOwners = false,
+ onResendInvitation = noop,
+ onRevokeInvitation = noop,
+ onChangeInvitationRole = noop,
+}: Props) {
  return (
   <table className="w-full text-left border-separate border-spacing-y-2">
    <thead className="text-sm text-muted border-b border-border-default">
@@ -23,6 +40,17 @@ export default function UserTable({ users }: Props) {
     {users.map((user) => (
      <UserRow key={user.id} user={user} />
     ))}
+    {invitations.map((invitation) => (
+     <InvitationRow
+      key={invitation.id}
+      invitation={invitation}
+      canManage={canManageInvitations}
+      canInviteOwners={canInviteOwners}
+      onResend={onResendInvitation}
+      onRevoke={onRevokeInvitation}
+      onChangeRole={onChangeInvitationRole}
+     />
+    ))}
    </tbody>
   </table>
  );
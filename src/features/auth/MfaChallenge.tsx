@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { cachedApi } from '@/lib/cachedApi';
+
+/**
+ * Whether the current session has to verify an MFA factor: the user has a verified factor
+ * but signed in with the password (or Google) only
+ */
+export async function needsMfaStepUp(): Promise<boolean> {
+ const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+ if (error || !data) return false;
+ return data.nextLevel === 'aal2' && data.currentLevel !== 'aal2';
+}
+
+interface MfaChallengeProps {
+ /** The session is at AAL2 */
+ onVerified: () => void;
+ /** A recovery code removed the user's factors; they should enroll a new one */
+ onRecovered: () => void;
+}
+
+/**
+ * Step-up after sign-in: a code from the authenticator app, or a recovery code
+ */
+export default function MfaChallenge({ onVerified, onRecovered }: MfaChallengeProps) {
+ const [code, setCode] = useState('');
+ const [useRecovery, setUseRecovery] = useState(false);
+ const [error, setError] = useState<string | null>(null);
+ const [loading, setLoading] = useState(false);
+
+ const handleVerify = async () => {
+  setLoading(true);
+  setError(null);
+
+  try {
+   if (useRecovery) {
+    await cachedApi.redeemMfaRecoveryCode(code.trim());
+    // The stored session still lists the removed factors until it is refreshed
+    await supabase.auth.refreshSession();
+    onRecovered();
+    return;
+   }
+
+   const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+   const factor = factors?.totp[0];
+   if (listError || !factor) {
+    throw new Error('Ověřovací aplikace nebyla nalezena');
+   }
+
+   const { error: verifyError } = await supabase.auth.mfa.challengeAndVerify({
+    factorId: factor.id,
+    code: code.trim(),
+   });
+   if (verifyError) {
+    throw new Error('Neplatný kód');
+   }
+
+   onVerified();
+  } catch (err) {
+   setError(err instanceof Error ? err.message : 'Ověření se nezdařilo');
+  } finally {
+   setLoading(false);
+  }
+ };
+
+ const handleCancel = async () => {
+  await supabase.auth.signOut();
+  window.location.reload();
+ };
+
+ return (
+  <form
+   onSubmit={e => {
+    e.preventDefault();
+    handleVerify();
+   }}
+   className="space-y-4"
+  >
+   <div className="text-center">
+    <h3 className="text-lg font-semibold text-primary">Dvoufázové ověření</h3>
+    <p className="text-sm text-muted mt-1">
+     {useRecovery
+      ? 'Zadejte jeden ze záložních kódů. Ověřovací aplikace bude odebrána a v profilu si nastavíte novou.'
+      : 'Zadejte 6místný kód z ověřovací aplikace.'}
+    </p>
+   </div>
+
+   <input
+    type="text"
+    inputMode={useRecovery ? 'text' : 'numeric'}
+    autoComplete="one-time-code"
+    autoFocus
+    value={code}
+    onChange={e => setCode(e.target.value)}
+    placeholder={useRecovery ? 'XXXXX-XXXXX' : '123456'}
+    className="w-full form-input px-3 py-2 bg-input border text-primary text-center tracking-widest"
+   />
+
+   {error && <p className="text-sm text-red-600">{error}</p>}
+
+   <button
+    disabled={loading || !code.trim()}
+    className="w-full bg-emerald-600 text-white rounded py-2 hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+   >
+    {loading ? 'Ověřuji…' : 'Ověřit'}
+   </button>
+
+   <div className="flex justify-between text-sm">
+    <button
+     type="button"
+     onClick={() => {
+      setUseRecovery(!useRecovery);
+      setCode('');
+      setError(null);
+     }}
+     className="text-emerald-600 hover:text-emerald-700 underline"
+    >
+     {useRecovery ? 'Použít ověřovací aplikaci' : 'Použít záložní kód'}
+    </button>
+    <button type="button" onClick={handleCancel} className="text-muted hover:text-accent underline">
+     Odhlásit se
+    </button>
+   </div>
+  </form>
+ );
+}
@@ -6,6 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
+import MfaChallenge, { needsMfaStepUp } from './MfaChallenge';
 
 const schema = z.object({
  email: z.string().email('Neplatný e-mail'),
@@ -25,6 +26,7 @@ export default function SignInForm() {
  const [showForgotPassword, setShowForgotPassword] = useState(false);
  const [resetEmailSent, setResetEmailSent] = useState(false);
  const [resetEmail, setResetEmail] = useState('');
+ const [mfaRequired, setMfaRequired] = useState(false);
  const router = useRouter();
  const params = useParams();
  const locale = params?.locale as string || 'en';
@@ -32,15 +34,25 @@ export default function SignInForm() {
  const onSubmit = async (data: FormData) => {
   setLoading(true);
   setError(null);
-  const { error } = await supabase.auth.signInWithPassword({
-   email: data.email,
-   password: data.password,
+  /* Signed in on the server so failed attempts count towards the account lock */
+  const response = await fetch('/api/auth/sign-in', {
+   method: 'POST',
+   headers: { 'Content-Type': 'application/json' },
+   body: JSON.stringify({ email: data.email, password: data.password }),
   });
+  const result = await response.json().catch(() => ({}));
 
-  if (error) {
-   setError(error instanceof Error ? error.message : 'Sign in failed');
+  if (!response.ok) {
+   setError(result.error || 'Sign in failed');
   } else {
-   router.replace('/');
+   const { error } = await supabase.auth.setSession(result.data);
+   if (error) {
+    setError(error instanceof Error ? error.message : 'Sign in failed');
+   } else if (await needsMfaStepUp()) {
+    setMfaRequired(true);
+   } else {
+    router.replace('/');
+   }
   }
 
   setLoading(false);
@@ -73,12 +85,15 @@ export default function SignInForm() {
   setLoading(true);
   setError(null);
 
-  const { error } = await supabase.auth.resetPasswordForEmail(resetEmail, {
-   redirectTo: `${window.location.origin}/${locale}/auth/reset-password`,
+  const response = await fetch('/api/auth/password-reset', {
+   method: 'POST',
+   headers: { 'Content-Type': 'application/json' },
+   body: JSON.stringify({ email: resetEmail, locale }),
   });
 
-  if (error) {
-   setError(error instanceof Error ? error.message : 'Sign in failed');
+  if (!response.ok) {
+   const data = await response.json().catch(() => ({}));
+   setError(data.error || 'Odeslání e-mailu se nezdařilo');
   } else {
    setResetEmailSent(true);
   }
@@ -86,6 +101,15 @@ export default function SignInForm() {
   setLoading(false);
  };
 
+ if (mfaRequired) {
+  return (
+   <MfaChallenge
+    onVerified={() => router.replace('/')}
+    onRecovered={() => router.replace(`/${locale}/profile`)}
+   />
+  );
+ }
+
  if (showForgotPassword) {
   return (
    <div className="space-y-4">
@@ -0,0 +1,339 @@
+/**
+ * Company API keys
+ * Machine-to-machine access to a company's read endpoints without a user session. A key is
+ * `mh_<id>_<secret>`: the `mh_<id>` prefix is stored in clear to find the key and show it in
+ * lists, the full key only as a SHA-256 hash. Keys carry scopes, may expire and can be
+ * revoked; every use is audit-logged. A key acts as its creator and stops working once the
+ * creator leaves the company or loses API_KEY_CREATOR_PERMISSION.
+ *
+ * Routes opt in through withCompanyAuth's apiKeyScope option, or by calling
+ * authenticateApiKey themselves. Either way the key is held to the api-keys rate limit.
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { RATE_LIMIT_POLICIES, RateLimitResult, checkRateLimit } from '@/lib/rate-limit/limiter';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import type { Permission } from '@/lib/permissions';
+
+export const API_KEY_SCOPES = ['logs:read', 'runs:read', 'stats:read'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'logs:read': 'Read integration logs',
+  'runs:read': 'Read integration runs and their logs',
+  'stats:read': 'Read dashboard statistics',
+};
+
+export const MAX_ACTIVE_API_KEYS = 20;
+/** Needed to create and revoke keys, and held by a key's creator for as long as the key works */
+export const API_KEY_CREATOR_PERMISSION: Permission = 'company.manage';
+export const MAX_API_KEY_LIFETIME_DAYS = 365;
+
+const KEY_PATTERN = /^(mh_[0-9a-f]{12})_[A-Za-z0-9_-]{43}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'API_KEY_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: string[];
+  /** Days until the key expires; null never expires */
+  expiresInDays: number | null;
+}
+
+export interface AuthenticatedApiKey {
+  id: string;
+  companyId: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  creatorEmail: string;
+}
+
+export interface ApiKeyAuthResult {
+  success: boolean;
+  apiKey?: AuthenticatedApiKey;
+  error?: string;
+  code?: string;
+  statusCode?: number;
+  /** Set once the key itself was accepted, for the RateLimit-* headers */
+  rateLimit?: RateLimitResult;
+}
+
+// The hash never leaves this module
+const apiKeySelect = {
+  id: true,
+  company_id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expires_at: true,
+  last_used_at: true,
+  last_used_ip: true,
+  revoked_at: true,
+  revoked_by: true,
+  created_by: true,
+  created_at: true,
+  creator: { select: { email: true } },
+} satisfies Prisma.company_api_keysSelect;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function generateKey(): { key: string; prefix: string } {
+  const prefix = `mh_${crypto.randomBytes(6).toString('hex')}`;
+  return { key: `${prefix}_${crypto.randomBytes(32).toString('base64url')}`, prefix };
+}
+
+/**
+ * The API key in the Authorization header, if the request carries one
+ */
+export function getApiKeyFromRequest(request: NextRequest): string | null {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  return token?.startsWith('mh_') ? token : null;
+}
+
+export function isApiKeyRequest(request: NextRequest): boolean {
+  return getApiKeyFromRequest(request) !== null;
+}
+
+function parseScopes(scopes: unknown): ApiKeyScope[] {
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new ApiKeyError('Select at least one scope', 'VALIDATION_ERROR');
+  }
+  const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    throw new ApiKeyError(`Unknown scopes: ${unknown.join(', ')}`, 'VALIDATION_ERROR');
+  }
+  return Array.from(new Set(scopes as ApiKeyScope[]));
+}
+
+/**
+ * Keys of a company, newest first, including revoked and expired ones
+ */
+export async function listApiKeys(companyId: string) {
+  return prisma.company_api_keys.findMany({
+    where: { company_id: companyId },
+    select: apiKeySelect,
+    orderBy: { created_at: 'desc' },
+  });
+}
+
+/**
+ * Create a key. The full key is returned only here.
+ *
+ * @throws ApiKeyError on invalid input or when the company has too many active keys
+ */
+export async function createApiKey(companyId: string, userId: string, input: ApiKeyInput) {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 100) {
+    throw new ApiKeyError('name must be 1-100 characters', 'VALIDATION_ERROR');
+  }
+
+  const scopes = parseScopes(input.scopes);
+
+  const { expiresInDays } = input;
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_API_KEY_LIFETIME_DAYS)) {
+    throw new ApiKeyError(`expiresInDays must be between 1 and ${MAX_API_KEY_LIFETIME_DAYS}, or null`, 'VALIDATION_ERROR');
+  }
+
+  const activeKeys = await prisma.company_api_keys.count({
+    where: {
+      company_id: companyId,
+      revoked_at: null,
+      OR: [{ expires_at: null }, { expires_at: { gt: new Date() } }],
+    },
+  });
+  if (activeKeys >= MAX_ACTIVE_API_KEYS) {
+    throw new ApiKeyError(`A company can have at most ${MAX_ACTIVE_API_KEYS} active API keys`, 'API_KEY_LIMIT_REACHED', 409);
+  }
+
+  const { key, prefix } = generateKey();
+  const apiKey = await prisma.company_api_keys.create({
+    data: {
+      company_id: companyId,
+      name,
+      prefix,
+      key_hash: hashKey(key),
+      scopes,
+      expires_at: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS),
+      created_by: userId,
+    },
+    select: apiKeySelect,
+  });
+
+  return { apiKey, key };
+}
+
+/**
+ * Revoke a key; it stops working immediately
+ *
+ * @throws ApiKeyError when the key does not belong to the company or is already revoked
+ */
+export async function revokeApiKey(companyId: string, keyId: string, userId: string) {
+  const existing = await prisma.company_api_keys.findFirst({
+    where: { id: keyId, company_id: companyId },
+    select: { id: true, revoked_at: true },
+  });
+  if (!existing) {
+    throw new ApiKeyError('API key not found', 'API_KEY_NOT_FOUND', 404);
+  }
+  if (existing.revoked_at) {
+    throw new ApiKeyError('API key is already revoked', 'API_KEY_REVOKED', 409);
+  }
+
+  return prisma.company_api_keys.update({
+    where: { id: existing.id },
+    data: { revoked_at: new Date(), revoked_by: userId },
+    select: apiKeySelect,
+  });
+}
+
+async function rejectApiKey(
+  request: NextRequest,
+  prefix: string | null,
+  companyId: string,
+  reason: string,
+  code: string,
+  statusCode: number
+): Promise<ApiKeyAuthResult> {
+  const { ipAddress, userAgent } = extractClientInfo(request);
+  await auditLogger.logSecurityEvent({
+    event_type: 'FAILED_AUTH',
+    severity: 'MEDIUM',
+    description: `API key rejected: ${reason}`,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    metadata: {
+      prefix,
+      company_id: companyId,
+      method: request.method,
+      path: request.nextUrl.pathname,
+    },
+  });
+
+  return { success: false, error: reason, code, statusCode };
+}
+
+/**
+ * Check the API key of a request against a company and scope, record its use and audit it
+ */
+export async function authenticateApiKey(
+  request: NextRequest,
+  companyId: string,
+  scope: ApiKeyScope
+): Promise<ApiKeyAuthResult> {
+  const key = getApiKeyFromRequest(request);
+  const prefix = key ? KEY_PATTERN.exec(key)?.[1] ?? null : null;
+  if (!key || !prefix) {
+    return rejectApiKey(request, null, companyId, 'Invalid API key', 'INVALID_API_KEY', 401);
+  }
+
+  const apiKey = await prisma.company_api_keys.findUnique({
+    where: { prefix },
+    select: { ...apiKeySelect, key_hash: true },
+  });
+
+  const expected = Buffer.from(apiKey?.key_hash ?? '', 'hex');
+  const actual = Buffer.from(hashKey(key), 'hex');
+  if (!apiKey || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return rejectApiKey(request, prefix, companyId, 'Invalid API key', 'INVALID_API_KEY', 401);
+  }
+  if (apiKey.revoked_at) {
+    return rejectApiKey(request, prefix, companyId, 'API key has been revoked', 'API_KEY_REVOKED', 401);
+  }
+  if (apiKey.expires_at && apiKey.expires_at <= new Date()) {
+    return rejectApiKey(request, prefix, companyId, 'API key has expired', 'API_KEY_EXPIRED', 401);
+  }
+  if (apiKey.company_id !== companyId) {
+    return rejectApiKey(request, prefix, companyId, 'API key does not belong to this company', 'API_KEY_WRONG_COMPANY', 403);
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return rejectApiKey(request, prefix, companyId, `API key is missing the ${scope} scope`, 'API_KEY_MISSING_SCOPE', 403);
+  }
+
+  // Removing or demoting the creator must take their keys' access away as well
+  const creatorMembership = await prisma.company_users.findUnique({
+    where: { company_id_user_id: { company_id: apiKey.company_id, user_id: apiKey.created_by } },
+    select: { role: true },
+  });
+  const creatorPermissions = creatorMembership
+    ? await getCompanyPermissionsForRole(apiKey.company_id, creatorMembership.role)
+    : [];
+  if (!creatorPermissions.includes(API_KEY_CREATOR_PERMISSION)) {
+    return rejectApiKey(
+      request,
+      prefix,
+      companyId,
+      'The creator of this API key no longer has access to manage API keys',
+      'API_KEY_CREATOR_INACTIVE',
+      401
+    );
+  }
+
+  const rateLimit = await checkRateLimit('api-keys', { request, userId: apiKey.created_by, apiKeyId: apiKey.id });
+  if (!rateLimit.allowed) {
+    return {
+      success: false,
+      error: RATE_LIMIT_POLICIES['api-keys'].message,
+      code: 'RATE_LIMIT_EXCEEDED',
+      statusCode: 429,
+      rateLimit,
+    };
+  }
+
+  const { ipAddress, userAgent } = extractClientInfo(request);
+  await prisma.company_api_keys.update({
+    where: { id: apiKey.id },
+    data: { last_used_at: new Date(), last_used_ip: ipAddress },
+  });
+
+  await auditLogger.logAuditEvent({
+    table_name: 'company_api_keys',
+    operation: 'SELECT',
+    new_data: {
+      api_key_id: apiKey.id,
+      prefix: apiKey.prefix,
+      scope,
+      method: request.method,
+      path: request.nextUrl.pathname,
+    },
+    user_id: apiKey.created_by,
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    metadata: {
+      action: 'api_key_used',
+      company_id: companyId,
+    }
+  });
+
+  return {
+    success: true,
+    apiKey: {
+      id: apiKey.id,
+      companyId: apiKey.company_id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes as ApiKeyScope[],
+      createdBy: apiKey.created_by,
+      creatorEmail: apiKey.creator.email ?? '',
+    },
+    rateLimit,
+  };
+}
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createAuditCheckpoints, verifyAuditChain } from './audit-chain';
+
+interface Entry {
+  id: string;
+  chain_seq: bigint;
+  prev_hash: string;
+  entry_hash: string;
+  content: string;
+}
+
+interface Checkpoint {
+  chain_id: string;
+  chain_seq: bigint;
+  entry_hash: string;
+  signature: string;
+  storage_path: string;
+  created_at: Date;
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+const db = vi.hoisted(() => ({
+  entries: [] as Entry[],
+  head: null as { chain_id: string; last_seq: bigint; last_hash: string; updated_at: Date } | null,
+  checkpoints: [] as Checkpoint[],
+}));
+
+const logIntegrityViolation = vi.hoisted(() => vi.fn());
+
+// Stands in for audit_log_entry_hash(): SHA-256 over the previous hash and the entry content
+function entryHash(prevHash: string, content: string): string {
+  return crypto.createHash('sha256').update(`${prevHash}|${content}`).digest('hex');
+}
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    audit_chain_heads: {
+      findUnique: async () => db.head,
+      findMany: async () => (db.head ? [{ chain_id: db.head.chain_id }] : []),
+    },
+    audit_log_checkpoints: {
+      findMany: async () => [...db.checkpoints].sort((a, b) => Number(a.chain_seq - b.chain_seq)),
+      create: async ({ data }: { data: Checkpoint }) => db.checkpoints.push(data),
+    },
+    // loadChainEntries: chain id, first and last sequence number, batch size
+    $queryRaw: async (_query: TemplateStringsArray, _chainId: string, fromSeq: number, toSeq: number) =>
+      db.entries
+        .filter(entry => entry.chain_seq >= BigInt(fromSeq) && entry.chain_seq <= BigInt(toSeq))
+        .sort((a, b) => Number(a.chain_seq - b.chain_seq))
+        .map(entry => ({ ...entry, computed_hash: entryHash(entry.prev_hash, entry.content) })),
+  },
+}));
+
+vi.mock('@/lib/audit-logger', () => ({ auditLogger: { logIntegrityViolation } }));
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseServiceClient: () => ({
+    storage: { from: () => ({ upload: async () => ({ error: null }) }) },
+  }),
+}));
+
+// Append entries the way the insert trigger does and move the head
+function append(...contents: string[]) {
+  for (const content of contents) {
+    const previous = db.entries[db.entries.length - 1];
+    const prevHash = previous?.entry_hash ?? GENESIS_HASH;
+    db.entries.push({
+      id: `entry-${db.entries.length + 1}`,
+      chain_seq: BigInt(db.entries.length + 1),
+      prev_hash: prevHash,
+      entry_hash: entryHash(prevHash, content),
+      content,
+    });
+  }
+
+  const last = db.entries[db.entries.length - 1]!;
+  db.head = { chain_id: 'company-1', last_seq: last.chain_seq, last_hash: last.entry_hash, updated_at: new Date() };
+}
+
+function entry(seq: number): Entry {
+  return db.entries[seq - 1]!;
+}
+
+beforeEach(() => {
+  process.env.AUDIT_CHECKPOINT_SIGNING_SECRET = 'test-checkpoint-secret';
+  db.entries = [];
+  db.head = null;
+  db.checkpoints = [];
+  logIntegrityViolation.mockClear();
+  append('a', 'b', 'c', 'd');
+});
+
+describe('verifyAuditChain', () => {
+  it('accepts an intact chain', async () => {
+    const result = await verifyAuditChain('company-1');
+
+    expect(result).toMatchObject({ valid: true, fromSeq: 1, toSeq: 4, entriesChecked: 4, brokenAt: null });
+    expect(logIntegrityViolation).not.toHaveBeenCalled();
+  });
+
+  it('accepts an empty chain', async () => {
+    db.entries = [];
+    db.head = null;
+
+    expect(await verifyAuditChain('company-1')).toMatchObject({ valid: true, entriesChecked: 0, head: null });
+  });
+
+  it('reports an entry whose content changed and logs the violation', async () => {
+    entry(2).content = 'changed';
+
+    const result = await verifyAuditChain('company-1');
+
+    expect(result).toMatchObject({ valid: false, entriesChecked: 1 });
+    expect(result.brokenAt).toMatchObject({ reason: 'hash_mismatch', chainSeq: 2, entryId: 'entry-2' });
+    expect(logIntegrityViolation).toHaveBeenCalledWith(
+      expect.stringContaining('failed verification at entry 2'),
+      expect.objectContaining({ company_id: 'company-1', reason: 'hash_mismatch', chain_seq: 2 }),
+      undefined,
+      undefined,
+      undefined
+    );
+  });
+
+  it('reports the next link when an entry is rewritten with a matching hash', async () => {
+    entry(2).content = 'changed';
+    entry(2).entry_hash = entryHash(entry(2).prev_hash, 'changed');
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'prev_hash_mismatch', chainSeq: 3 });
+  });
+
+  it('reports a removed entry', async () => {
+    db.entries.splice(2, 1);
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'missing_entry', chainSeq: 3 });
+  });
+
+  it('reports removed entries at the end of the chain', async () => {
+    db.entries.pop();
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'missing_entry', chainSeq: 4 });
+  });
+
+  it('reports a head that does not match the last entry', async () => {
+    db.head!.last_hash = 'f'.repeat(64);
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'head_mismatch', chainSeq: 4 });
+  });
+});
+
+describe('audit checkpoints', () => {
+  it('signs the head and later walks only the entries after it', async () => {
+    expect(await createAuditCheckpoints()).toEqual({ chains: 1, checkpoints: 1, failures: [] });
+    expect(db.checkpoints[0]).toMatchObject({ chain_seq: BigInt(4), entry_hash: entry(4).entry_hash });
+    expect(db.checkpoints[0]!.signature).toMatch(/^v1=[0-9a-f]{64}$/);
+
+    append('e', 'f');
+    const result = await verifyAuditChain('company-1');
+
+    expect(result).toMatchObject({ valid: true, fromSeq: 4, toSeq: 6, entriesChecked: 3 });
+    expect(result.startCheckpoint).toMatchObject({ chainSeq: 4 });
+    expect((await verifyAuditChain('company-1', { full: true })).entriesChecked).toBe(6);
+  });
+
+  it('does not checkpoint a chain that has not grown', async () => {
+    await createAuditCheckpoints();
+
+    expect(await createAuditCheckpoints()).toEqual({ chains: 1, checkpoints: 0, failures: [] });
+  });
+
+  it('does not checkpoint a broken chain', async () => {
+    entry(1).content = 'changed';
+
+    const summary = await createAuditCheckpoints();
+
+    expect(summary).toMatchObject({ chains: 1, checkpoints: 0 });
+    expect(summary.failures[0]).toMatchObject({ chainId: 'company-1', error: expect.stringContaining('failed verification') });
+    expect(db.checkpoints).toHaveLength(0);
+  });
+
+  it('reports a chain rebuilt from scratch after a checkpoint', async () => {
+    await createAuditCheckpoints();
+    db.entries = [];
+    append('w', 'x', 'y', 'z');
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'checkpoint_mismatch', chainSeq: 4 });
+  });
+
+  it('reports a checkpoint whose signature does not match', async () => {
+    await createAuditCheckpoints();
+    db.checkpoints[0]!.entry_hash = 'f'.repeat(64);
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'checkpoint_signature', chainSeq: 4 });
+  });
+
+  it('reports a head that was moved back behind a checkpoint', async () => {
+    await createAuditCheckpoints();
+    db.entries.pop();
+    db.head = { ...db.head!, last_seq: BigInt(3), last_hash: entry(3).entry_hash };
+
+    expect((await verifyAuditChain('company-1')).brokenAt).toMatchObject({ reason: 'head_mismatch', chainSeq: 4 });
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Audit log hash chain
+ * audit_logs is append-only and every entry is chained: the database gives each new row the
+ * next sequence number in its chain (one per company via metadata.company_id, plus 'global'),
+ * the previous entry's hash and a SHA-256 over its own content and that hash
+ * (audit_log_entry_hash). Changing, removing or reordering an entry breaks every link after it.
+ *
+ * verifyAuditChain recomputes the hashes and reports the first broken link. Checkpoints sign
+ * the head of each chain with AUDIT_CHECKPOINT_SIGNING_SECRET and export it to the
+ * audit-checkpoints bucket, so a chain rewritten from scratch no longer matches, and later
+ * verifications only need to walk the entries after the last checkpoint. Every failed
+ * verification is logged as a CRITICAL INTEGRITY_VIOLATION security event.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { auditLogger } from '@/lib/audit-logger';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+
+export const AUDIT_CHECKPOINT_BUCKET = 'audit-checkpoints';
+
+/** Chain of audit entries that carry no company_id */
+export const GLOBAL_AUDIT_CHAIN = 'global';
+
+/** prev_hash of the first entry in a chain */
+const GENESIS_HASH = '0'.repeat(64);
+
+/** Entries loaded and checked together */
+const VERIFY_BATCH_SIZE = 1000;
+
+export type ChainBreakReason =
+  | 'missing_entry'
+  | 'prev_hash_mismatch'
+  | 'hash_mismatch'
+  | 'head_mismatch'
+  | 'checkpoint_mismatch'
+  | 'checkpoint_signature';
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  /** Sequence number of the first entry that does not verify */
+  chainSeq: number;
+  entryId: string | null;
+  expected: string | null;
+  actual: string | null;
+  message: string;
+}
+
+export interface ChainVerification {
+  chainId: string;
+  valid: boolean;
+  /** First and last sequence number walked; 0 when the chain is empty */
+  fromSeq: number;
+  toSeq: number;
+  entriesChecked: number;
+  head: { chainSeq: number; entryHash: string; updatedAt: Date } | null;
+  /** Checkpoint the walk started from; null for a full walk or a chain without checkpoints */
+  startCheckpoint: { chainSeq: number; createdAt: Date } | null;
+  brokenAt: ChainBreak | null;
+  verifiedAt: Date;
+}
+
+export interface VerifyChainOptions {
+  /** Walk from the first entry instead of the latest checkpoint */
+  full?: boolean;
+  /** Who asked, for the security event when verification fails */
+  actor?: { userId?: string; ipAddress?: string; userAgent?: string };
+}
+
+export interface CheckpointRunSummary {
+  chains: number;
+  checkpoints: number;
+  failures: { chainId: string; error: string }[];
+}
+
+export class AuditChainError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'AUDIT_CHAIN_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AuditChainError';
+  }
+}
+
+interface ChainEntryRow {
+  id: string;
+  chain_seq: bigint;
+  prev_hash: string;
+  entry_hash: string;
+  computed_hash: string;
+}
+
+interface CheckpointRow {
+  chain_id: string;
+  chain_seq: bigint;
+  entry_hash: string;
+  signature: string;
+  created_at: Date;
+}
+
+function getSigningKey(): Buffer {
+  const secret = process.env.AUDIT_CHECKPOINT_SIGNING_SECRET;
+  if (!secret) {
+    throw new AuditChainError('AUDIT_CHECKPOINT_SIGNING_SECRET environment variable is required', 'SIGNING_NOT_CONFIGURED', 500);
+  }
+  return Buffer.from(secret, 'utf8');
+}
+
+/**
+ * Signature of a checkpoint: `v1=<hex HMAC-SHA256>` over the chain, position, hash and time
+ */
+function signCheckpoint(chainId: string, chainSeq: number, entryHash: string, createdAt: Date): string {
+  const digest = crypto
+    .createHmac('sha256', getSigningKey())
+    .update(`${chainId}.${chainSeq}.${entryHash}.${createdAt.toISOString()}`)
+    .digest('hex');
+  return `v1=${digest}`;
+}
+
+function checkpointSignatureValid(checkpoint: CheckpointRow): boolean {
+  const expected = Buffer.from(
+    signCheckpoint(checkpoint.chain_id, Number(checkpoint.chain_seq), checkpoint.entry_hash, checkpoint.created_at)
+  );
+  const actual = Buffer.from(checkpoint.signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Entries of a chain from `fromSeq` to `toSeq`, with the hash the database computes for them now
+ */
+async function loadChainEntries(chainId: string, fromSeq: number, toSeq: number): Promise<ChainEntryRow[]> {
+  return prisma.$queryRaw<ChainEntryRow[]>`
+    SELECT id::text AS id, chain_seq, prev_hash, entry_hash,
+           public.audit_log_entry_hash(
+             prev_hash, chain_seq, id, table_name, operation, old_data, new_data,
+             user_id, timestamp, ip_address, user_agent, metadata
+           ) AS computed_hash
+      FROM public.audit_logs
+     WHERE chain_id = ${chainId}
+       AND chain_seq BETWEEN ${fromSeq}::bigint AND ${toSeq}::bigint
+     ORDER BY chain_seq
+     LIMIT ${VERIFY_BATCH_SIZE}::integer
+  `;
+}
+
+function chainBreak(
+  reason: ChainBreakReason,
+  chainSeq: number,
+  message: string,
+  details: { entryId?: string | null; expected?: string | null; actual?: string | null } = {}
+): ChainBreak {
+  return {
+    reason,
+    chainSeq,
+    entryId: details.entryId ?? null,
+    expected: details.expected ?? null,
+    actual: details.actual ?? null,
+    message,
+  };
+}
+
+/**
+ * Walk a chain and report the first link that does not verify. Starts from the latest
+ * checkpoint unless `full` is set; checkpoints passed on the way are compared too. Entries
+ * appended while the walk runs are left for the next verification.
+ */
+export async function verifyAuditChain(chainId: string, options: VerifyChainOptions = {}): Promise<ChainVerification> {
+  const verifiedAt = new Date();
+  const head = await prisma.audit_chain_heads.findUnique({ where: { chain_id: chainId } });
+  const checkpoints = await prisma.audit_log_checkpoints.findMany({
+    where: { chain_id: chainId },
+    orderBy: { chain_seq: 'asc' },
+  });
+
+  const result: ChainVerification = {
+    chainId,
+    valid: true,
+    fromSeq: 0,
+    toSeq: 0,
+    entriesChecked: 0,
+    head: head
+      ? { chainSeq: Number(head.last_seq), entryHash: head.last_hash, updatedAt: head.updated_at }
+      : null,
+    startCheckpoint: null,
+    brokenAt: null,
+    verifiedAt,
+  };
+
+  const fail = async (broken: ChainBreak): Promise<ChainVerification> => {
+    result.valid = false;
+    result.brokenAt = broken;
+    await auditLogger.logIntegrityViolation(
+      `Audit log chain ${chainId} failed verification at entry ${broken.chainSeq}: ${broken.message}`,
+      {
+        ...(chainId !== GLOBAL_AUDIT_CHAIN && { company_id: chainId }),
+        chain_id: chainId,
+        reason: broken.reason,
+        chain_seq: broken.chainSeq,
+        entry_id: broken.entryId,
+        expected: broken.expected,
+        actual: broken.actual,
+      },
+      options.actor?.userId,
+      options.actor?.ipAddress,
+      options.actor?.userAgent
+    );
+    return result;
+  };
+
+  for (const checkpoint of checkpoints) {
+    if (!checkpointSignatureValid(checkpoint)) {
+      return fail(chainBreak('checkpoint_signature', Number(checkpoint.chain_seq), 'Checkpoint signature does not match its contents'));
+    }
+  }
+
+  const latestCheckpoint = checkpoints[checkpoints.length - 1];
+  const headSeq = result.head?.chainSeq ?? 0;
+
+  if (latestCheckpoint && Number(latestCheckpoint.chain_seq) > headSeq) {
+    return fail(chainBreak('head_mismatch', Number(latestCheckpoint.chain_seq), 'Chain head is behind a signed checkpoint', {
+      expected: latestCheckpoint.entry_hash,
+      actual: result.head?.entryHash ?? null,
+    }));
+  }
+  if (!head) {
+    return result;
+  }
+
+  const checkpointsBySeq = new Map(checkpoints.map(checkpoint => [Number(checkpoint.chain_seq), checkpoint]));
+  let expectedSeq = 1;
+  // Unknown when starting from a checkpoint: that entry is trusted through the checkpoint hash
+  let expectedPrevHash: string | null = GENESIS_HASH;
+
+  if (!options.full && latestCheckpoint) {
+    expectedSeq = Number(latestCheckpoint.chain_seq);
+    expectedPrevHash = null;
+    result.startCheckpoint = { chainSeq: expectedSeq, createdAt: latestCheckpoint.created_at };
+  }
+  result.fromSeq = expectedSeq;
+
+  let lastHash: string | null = null;
+
+  while (expectedSeq <= headSeq) {
+    const rows = await loadChainEntries(chainId, expectedSeq, headSeq);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const seq = Number(row.chain_seq);
+
+      if (seq !== expectedSeq) {
+        return fail(chainBreak('missing_entry', expectedSeq, `Entry ${expectedSeq} is missing from the chain`));
+      }
+      if (expectedPrevHash !== null && row.prev_hash !== expectedPrevHash) {
+        return fail(chainBreak('prev_hash_mismatch', seq, 'Entry does not link to the entry before it', {
+          entryId: row.id,
+          expected: expectedPrevHash,
+          actual: row.prev_hash,
+        }));
+      }
+      if (row.computed_hash !== row.entry_hash) {
+        return fail(chainBreak('hash_mismatch', seq, 'Entry content does not match its hash', {
+          entryId: row.id,
+          expected: row.computed_hash,
+          actual: row.entry_hash,
+        }));
+      }
+
+      const checkpoint = checkpointsBySeq.get(seq);
+      if (checkpoint && checkpoint.entry_hash !== row.entry_hash) {
+        return fail(chainBreak('checkpoint_mismatch', seq, 'Entry does not match the signed checkpoint', {
+          entryId: row.id,
+          expected: checkpoint.entry_hash,
+          actual: row.entry_hash,
+        }));
+      }
+
+      expectedPrevHash = row.entry_hash;
+      lastHash = row.entry_hash;
+      result.toSeq = seq;
+      result.entriesChecked++;
+      expectedSeq++;
+    }
+  }
+
+  if (expectedSeq <= headSeq) {
+    return fail(chainBreak('missing_entry', expectedSeq, `Entry ${expectedSeq} is missing from the chain`));
+  }
+  if (lastHash !== head.last_hash) {
+    return fail(chainBreak('head_mismatch', headSeq, 'Last entry does not match the chain head', {
+      expected: head.last_hash,
+      actual: lastHash,
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Verify a chain from its latest checkpoint and sign its current head. The checkpoint is
+ * uploaded to storage before it is recorded, so every recorded checkpoint has an export.
+ */
+async function checkpointChain(chainId: string): Promise<boolean> {
+  const verification = await verifyAuditChain(chainId);
+  if (!verification.valid) {
+    throw new AuditChainError(
+      `Chain failed verification: ${verification.brokenAt?.message ?? 'unknown'}`,
+      'CHAIN_BROKEN',
+      409
+    );
+  }
+  if (!verification.head || verification.head.chainSeq === verification.startCheckpoint?.chainSeq) {
+    return false;
+  }
+
+  const { chainSeq, entryHash } = verification.head;
+  const createdAt = new Date();
+  const signature = signCheckpoint(chainId, chainSeq, entryHash, createdAt);
+  const storagePath = `${chainId}/${String(chainSeq).padStart(12, '0')}.json`;
+  const body = JSON.stringify({
+    chain_id: chainId,
+    chain_seq: chainSeq,
+    entry_hash: entryHash,
+    created_at: createdAt.toISOString(),
+    signature,
+  }, null, 2);
+
+  const supabase = createSupabaseServiceClient();
+  const { error } = await supabase.storage
+    .from(AUDIT_CHECKPOINT_BUCKET)
+    .upload(storagePath, body, { contentType: 'application/json', upsert: false });
+
+  if (error) {
+    throw new AuditChainError(`Checkpoint upload failed: ${error.message}`, 'CHECKPOINT_UPLOAD_FAILED', 500);
+  }
+
+  await prisma.audit_log_checkpoints.create({
+    data: {
+      chain_id: chainId,
+      chain_seq: BigInt(chainSeq),
+      entry_hash: entryHash,
+      signature,
+      storage_path: storagePath,
+      created_at: createdAt,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Checkpoint every chain that grew since its last checkpoint. A chain that fails
+ * verification gets no checkpoint and is reported as a failure.
+ */
+export async function createAuditCheckpoints(): Promise<CheckpointRunSummary> {
+  const heads = await prisma.audit_chain_heads.findMany({ select: { chain_id: true } });
+  const summary: CheckpointRunSummary = { chains: heads.length, checkpoints: 0, failures: [] };
+
+  for (const { chain_id } of heads) {
+    try {
+      if (await checkpointChain(chain_id)) {
+        summary.checkpoints++;
+      }
+    } catch (error) {
+      console.error(`Audit checkpoint failed for chain ${chain_id}:`, error);
+      summary.failures.push({
+        chainId: chain_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Recent checkpoints of a chain, newest first
+ */
+export async function listAuditCheckpoints(chainId: string, limit: number = 20) {
+  const checkpoints = await prisma.audit_log_checkpoints.findMany({
+    where: { chain_id: chainId },
+    orderBy: { chain_seq: 'desc' },
+    take: limit,
+  });
+
+  return checkpoints.map(checkpoint => ({
+    chain_seq: Number(checkpoint.chain_seq),
+    entry_hash: checkpoint.entry_hash,
+    storage_path: checkpoint.storage_path,
+    created_at: checkpoint.created_at,
+  }));
+}
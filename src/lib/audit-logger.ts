@@ -3,7 +3,10 @@
  * Tracks all critical operations and data access patterns
  */
 
+import { isIP } from 'net';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { RateLimitDecision, getRateLimitStore } from '@/lib/rate-limit/stores';
+import type { ClientGeo, SecuritySignal } from '@/lib/security-analytics';
 
 export interface AuditLogEntry {
   table_name: string;
@@ -17,7 +20,7 @@ export interface AuditLogEntry {
 }
 
 export interface SecurityEvent {
-  event_type: 'SUSPICIOUS_ACTIVITY' | 'FAILED_AUTH' | 'RATE_LIMIT' | 'UNAUTHORIZED_ACCESS' | 'DATA_EXPORT' | 'FILE_UPLOAD';
+  event_type: 'SUSPICIOUS_ACTIVITY' | 'FAILED_AUTH' | 'RATE_LIMIT' | 'UNAUTHORIZED_ACCESS' | 'DATA_EXPORT' | 'FILE_UPLOAD' | 'INTEGRITY_VIOLATION';
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   description: string;
   user_id?: string;
@@ -42,7 +45,8 @@ export class AuditLogger {
   }
 
   /**
-   * Log a standard audit event
+   * Log a standard audit event. The database appends it to its hash chain (the company in
+   * metadata.company_id, otherwise the global chain); see lib/audit-chain.ts.
    */
   async logAuditEvent(entry: AuditLogEntry): Promise<void> {
     try {
@@ -56,8 +60,10 @@ export class AuditLogger {
           old_data: entry.old_data,
           new_data: entry.new_data,
           user_id: entry.user_id,
-          ip_address: entry.ip_address,
+          // ip_address is INET; extractClientInfo falls back to 'unknown', which would fail the insert
+          ip_address: entry.ip_address && isIP(entry.ip_address) ? entry.ip_address : null,
           user_agent: entry.user_agent,
+          metadata: entry.metadata,
           timestamp: new Date().toISOString(),
         });
 
@@ -88,8 +94,12 @@ export class AuditLogger {
         user_id: event.user_id,
         ip_address: event.ip_address,
         user_agent: event.user_agent,
+        // Also on the entry itself, so events carrying a company_id show up in its audit log
+        metadata: event.metadata,
       });
 
+      await SecurityMonitor.ingest(event);
+
       // For critical events, also log to console for immediate visibility
       if (event.severity === 'CRITICAL' || event.severity === 'HIGH') {
         console.warn('SECURITY EVENT:', {
@@ -115,7 +125,8 @@ export class AuditLogger {
     email?: string,
     ipAddress?: string,
     userAgent?: string,
-    reason?: string
+    reason?: string,
+    geo?: ClientGeo
   ): Promise<void> {
     await this.logAuditEvent({
       table_name: 'auth_events',
@@ -124,12 +135,24 @@ export class AuditLogger {
         email,
         reason,
         timestamp: new Date().toISOString(),
+        ...(geo?.country && { country: geo.country }),
       },
       user_id: userId,
       ip_address: ipAddress,
       user_agent: userAgent,
     });
 
+    // Sign-ins feed impossible-travel detection
+    if (event === 'LOGIN') {
+      await SecurityMonitor.ingestSignal({
+        type: 'LOGIN',
+        ...(userId && { userId }),
+        ...(email && { email }),
+        ...(ipAddress && { ipAddress }),
+        ...(geo && { geo }),
+      });
+    }
+
     // Log failed auth attempts as security events
     if (event === 'AUTH_FAILURE') {
       await this.logSecurityEvent({
@@ -195,7 +218,8 @@ export class AuditLogger {
     rowCount: number,
     exportType: string,
     ipAddress?: string,
-    userAgent?: string
+    userAgent?: string,
+    metadata?: Record<string, any>
   ): Promise<void> {
     await this.logSecurityEvent({
       event_type: 'DATA_EXPORT',
@@ -205,6 +229,7 @@ export class AuditLogger {
       ip_address: ipAddress,
       user_agent: userAgent,
       metadata: {
+        ...metadata,
         table_name: tableName,
         row_count: rowCount,
         export_type: exportType,
@@ -254,6 +279,27 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log a failed integrity check, e.g. a broken audit log hash chain
+   */
+  async logIntegrityViolation(
+    description: string,
+    metadata: Record<string, any>,
+    userId?: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logSecurityEvent({
+      event_type: 'INTEGRITY_VIOLATION',
+      severity: 'CRITICAL',
+      description,
+      user_id: userId,
+      ip_address: ipAddress,
+      user_agent: userAgent,
+      metadata,
+    });
+  }
+
   /**
    * Log unauthorized access attempts
    */
@@ -262,7 +308,8 @@ export class AuditLogger {
     attemptedAction: string,
     userId?: string,
     ipAddress?: string,
-    userAgent?: string
+    userAgent?: string,
+    metadata?: Record<string, any>
   ): Promise<void> {
     await this.logSecurityEvent({
       event_type: 'UNAUTHORIZED_ACCESS',
@@ -272,6 +319,7 @@ export class AuditLogger {
       ip_address: ipAddress,
       user_agent: userAgent,
       metadata: {
+        ...metadata,
         resource,
         attempted_action: attemptedAction,
       },
@@ -284,14 +332,36 @@ export class AuditLogger {
  */
 export const auditLogger = AuditLogger.getInstance();
 
+// Proxies in front of the app that append to X-Forwarded-For; see TRUSTED_PROXY_HOPS in .env.example
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * The client address as seen by the outermost trusted proxy. Clients can send any
+ * X-Forwarded-For themselves; only the entries our proxies appended, counted from the right,
+ * can be trusted. With TRUSTED_PROXY_HOPS=0 no forwarding header is trusted.
+ */
+export function getClientIp(request: Request): string {
+  const hops = trustedProxyHops();
+  if (hops === 0) return 'unknown';
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - hops, 0)]!;
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
 /**
  * Helper function to extract client info from request
  */
 export function extractClientInfo(request: Request) {
-  const ipAddress = 
-    request.headers.get('x-forwarded-for')?.split(',')[0] ||
-    request.headers.get('x-real-ip') ||
-    'unknown';
+  const ipAddress = getClientIp(request);
   
   const userAgent = request.headers.get('user-agent') || 'unknown';
   
@@ -353,10 +423,55 @@ export function withAuditLog(
 }
 
 /**
- * Monitor for suspicious patterns
+ * Monitor for suspicious patterns. Security events are ingested into the persistent security
+ * analytics (lib/security-analytics.ts), whose detectors record findings and can lock an
+ * account or require re-authentication. checkSuspiciousPatterns counts in the shared rate
+ * limit store, so its threshold also holds across instances and restarts.
  */
 export class SecurityMonitor {
-  private static patterns = new Map<string, { count: number; lastSeen: number }>();
+  private static readonly MAX_ACTIONS_PER_HOUR = 50;
+
+  /** Security event types the analytics ingest */
+  private static readonly INGESTED_EVENTS: Partial<Record<SecurityEvent['event_type'], SecuritySignal['type']>> = {
+    FAILED_AUTH: 'FAILED_AUTH',
+    UNAUTHORIZED_ACCESS: 'UNAUTHORIZED_ACCESS',
+    RATE_LIMIT: 'RATE_LIMIT',
+    FILE_UPLOAD: 'FILE_UPLOAD',
+    DATA_EXPORT: 'DATA_EXPORT',
+  };
+
+  /**
+   * Feed a logged security event to the analytics
+   */
+  static async ingest(event: SecurityEvent): Promise<void> {
+    const type = this.INGESTED_EVENTS[event.event_type];
+    if (!type) return;
+
+    const metadata = event.metadata ?? {};
+    const quantity = type === 'DATA_EXPORT' ? metadata.row_count : type === 'FILE_UPLOAD' ? metadata.file_size : undefined;
+
+    await this.ingestSignal({
+      type,
+      ...(event.user_id && { userId: event.user_id }),
+      ...(typeof metadata.email === 'string' && { email: metadata.email }),
+      ...(typeof metadata.company_id === 'string' && { companyId: metadata.company_id }),
+      ...(event.ip_address && { ipAddress: event.ip_address }),
+      ...(typeof quantity === 'number' && { quantity }),
+    });
+  }
+
+  /**
+   * Run a signal through the analytics. Loaded on first use because the analytics log
+   * through auditLogger themselves; failures never reach the caller.
+   */
+  static async ingestSignal(signal: SecuritySignal): Promise<void> {
+    try {
+      const { ingestSecuritySignal } = await import('@/lib/security-analytics');
+      await ingestSecuritySignal(signal);
+    } catch (error) {
+      console.error('Failed to ingest security signal:', error);
+    }
+  }
 
   /**
    * Check for suspicious patterns in user behavior
@@ -366,53 +481,28 @@ export class SecurityMonitor {
     action: string,
     ipAddress?: string
   ): Promise<void> {
-    const key = `${userId}:${action}`;
-    const now = Date.now();
-    const pattern = this.patterns.get(key);
-
-    if (!pattern) {
-      this.patterns.set(key, { count: 1, lastSeen: now });
-      return;
-    }
-
-    // Reset if more than 1 hour has passed
-    if (now - pattern.lastSeen > 60 * 60 * 1000) {
-      this.patterns.set(key, { count: 1, lastSeen: now });
+    let decision: RateLimitDecision;
+    try {
+      decision = await getRateLimitStore().slidingWindow(
+        `security-monitor:user:${userId}:${action}`,
+        this.MAX_ACTIONS_PER_HOUR,
+        60 * 60 * 1000,
+        1
+      );
+    } catch (error) {
+      console.error('Failed to check suspicious patterns:', error);
       return;
     }
 
-    pattern.count++;
-    pattern.lastSeen = now;
-
-    // Check for suspicious patterns
-    if (pattern.count > 50) { // More than 50 actions per hour
+    if (!decision.allowed) {
       await auditLogger.logSuspiciousActivity(
-        `High frequency activity detected: ${pattern.count} ${action} actions in past hour`,
+        `High frequency activity detected: more than ${this.MAX_ACTIONS_PER_HOUR} ${action} actions in past hour`,
         'HIGH',
         userId,
         ipAddress,
         undefined,
-        { action, count: pattern.count }
+        { action, limit: this.MAX_ACTIONS_PER_HOUR }
       );
     }
   }
-
-  /**
-   * Clean up old patterns to prevent memory leaks
-   */
-  static cleanupOldPatterns(): void {
-    const now = Date.now();
-    const oneHour = 60 * 60 * 1000;
-
-    for (const [key, pattern] of this.patterns.entries()) {
-      if (now - pattern.lastSeen > oneHour) {
-        this.patterns.delete(key);
-      }
-    }
-  }
 }
-
-// Clean up old patterns every hour
-setInterval(() => {
-  SecurityMonitor.cleanupOldPatterns();
-}, 60 * 60 * 1000);
\ No newline at end of file
@@ -0,0 +1,367 @@
+/**
+ * Company audit log
+ * Reads audit_logs for the company audit log viewer. Entries belong to a company through
+ * metadata.company_id, which the application sets on company-scoped audit events; security
+ * events are the rows with table_name 'security_events'. Each entry comes with a field-level
+ * diff of old_data and new_data.
+ *
+ * CSV exports are signed with AUDIT_EXPORT_SIGNING_SECRET so a copy handed to an auditor can
+ * be checked for tampering later (verifyAuditExport).
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import type { AuditLogEntry, SecurityEvent } from '@/lib/audit-logger';
+
+export const AUDIT_OPERATIONS = [
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'UPLOAD', 'LOGIN', 'LOGOUT', 'AUTH_FAILURE',
+] as const satisfies readonly AuditLogEntry['operation'][];
+
+export const SECURITY_SEVERITIES = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const satisfies readonly SecurityEvent['severity'][];
+
+export const AUDIT_LOGS_PAGE_SIZE = 50;
+export const MAX_AUDIT_LOGS_PAGE_SIZE = 200;
+
+/** Rows in one CSV export; the export is built in memory to be signed */
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+export const AUDIT_EXPORT_SIGNATURE_HEADER = 'X-MetricsHub-Export-Signature';
+
+const EXPORT_BATCH_SIZE = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+
+export class AuditLogError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'AUDIT_LOG_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'AuditLogError';
+  }
+}
+
+export interface AuditLogFilters {
+  /** User id, or part of the actor's email */
+  actor?: string;
+  operation?: typeof AUDIT_OPERATIONS[number];
+  table?: string;
+  /** metadata.action, e.g. api_key_created */
+  action?: string;
+  severity?: typeof SECURITY_SEVERITIES[number];
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface AuditFieldChange {
+  /** Dot path into the row, e.g. settings.timezone */
+  field: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: unknown;
+  after: unknown;
+}
+
+function parseDate(value: string, name: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new AuditLogError(`${name} must be an ISO date`, 'VALIDATION_ERROR');
+  }
+  return date.toISOString();
+}
+
+/**
+ * Filters and paging from the query string, shared by the list and the export
+ *
+ * @throws AuditLogError on an unknown operation or severity, a bad table name or date
+ */
+export function parseAuditLogQuery(searchParams: URLSearchParams): {
+  filters: AuditLogFilters;
+  limit: number;
+  offset: number;
+} {
+  const filters: AuditLogFilters = {};
+
+  const actor = searchParams.get('actor')?.trim();
+  if (actor) filters.actor = actor;
+
+  const operation = searchParams.get('operation');
+  if (operation) {
+    if (!(AUDIT_OPERATIONS as readonly string[]).includes(operation)) {
+      throw new AuditLogError(`operation must be one of ${AUDIT_OPERATIONS.join(', ')}`, 'VALIDATION_ERROR');
+    }
+    filters.operation = operation as AuditLogFilters['operation'];
+  }
+
+  const table = searchParams.get('table');
+  if (table) {
+    if (!TABLE_NAME_PATTERN.test(table)) {
+      throw new AuditLogError('table must be a table name', 'VALIDATION_ERROR');
+    }
+    filters.table = table;
+  }
+
+  const action = searchParams.get('action')?.trim();
+  if (action) filters.action = action;
+
+  const severity = searchParams.get('severity');
+  if (severity) {
+    if (!(SECURITY_SEVERITIES as readonly string[]).includes(severity)) {
+      throw new AuditLogError(`severity must be one of ${SECURITY_SEVERITIES.join(', ')}`, 'VALIDATION_ERROR');
+    }
+    filters.severity = severity as AuditLogFilters['severity'];
+  }
+
+  const dateFrom = searchParams.get('dateFrom');
+  if (dateFrom) filters.dateFrom = parseDate(dateFrom, 'dateFrom');
+  const dateTo = searchParams.get('dateTo');
+  if (dateTo) filters.dateTo = parseDate(dateTo, 'dateTo');
+
+  const limit = Number(searchParams.get('limit') ?? AUDIT_LOGS_PAGE_SIZE);
+  const offset = Number(searchParams.get('offset') ?? 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LOGS_PAGE_SIZE) {
+    throw new AuditLogError(`limit must be between 1 and ${MAX_AUDIT_LOGS_PAGE_SIZE}`, 'VALIDATION_ERROR');
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new AuditLogError('offset must be a non-negative integer', 'VALIDATION_ERROR');
+  }
+
+  return { filters, limit, offset };
+}
+
+function auditLogWhere(companyId: string, filters: AuditLogFilters): Prisma.audit_logsWhereInput {
+  const and: Prisma.audit_logsWhereInput[] = [
+    { metadata: { path: ['company_id'], equals: companyId } },
+  ];
+
+  if (filters.actor) {
+    and.push(UUID_PATTERN.test(filters.actor)
+      ? { user_id: filters.actor }
+      : { users: { email: { contains: filters.actor, mode: 'insensitive' } } });
+  }
+  if (filters.operation) and.push({ operation: filters.operation });
+  if (filters.table) and.push({ table_name: filters.table });
+  if (filters.action) and.push({ metadata: { path: ['action'], equals: filters.action } });
+  if (filters.severity) {
+    and.push({ table_name: 'security_events' }, { new_data: { path: ['severity'], equals: filters.severity } });
+  }
+  if (filters.dateFrom) and.push({ timestamp: { gte: new Date(filters.dateFrom) } });
+  if (filters.dateTo) and.push({ timestamp: { lte: new Date(filters.dateTo) } });
+
+  return { AND: and };
+}
+
+const auditLogSelect = {
+  id: true,
+  table_name: true,
+  operation: true,
+  old_data: true,
+  new_data: true,
+  user_id: true,
+  timestamp: true,
+  ip_address: true,
+  user_agent: true,
+  metadata: true,
+  users: { select: { email: true } },
+} satisfies Prisma.audit_logsSelect;
+
+type AuditLogRow = Prisma.audit_logsGetPayload<{ select: typeof auditLogSelect }>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function flatten(value: unknown, prefix: string, into: Map<string, unknown>): Map<string, unknown> {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, nested] of Object.entries(value)) {
+      flatten(nested, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else if (prefix) {
+    into.set(prefix, value);
+  }
+  return into;
+}
+
+/**
+ * Field-level differences between old_data and new_data. Nested objects are compared field by
+ * field, arrays as whole values.
+ */
+export function diffAuditData(oldData: unknown, newData: unknown): AuditFieldChange[] {
+  const before = flatten(oldData, '', new Map());
+  const after = flatten(newData, '', new Map());
+  const fields = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    const hadField = before.has(field);
+    const hasField = after.has(field);
+    const oldValue = before.get(field) ?? null;
+    const newValue = after.get(field) ?? null;
+
+    if (!hadField) {
+      changes.push({ field, kind: 'added', before: null, after: newValue });
+    } else if (!hasField) {
+      changes.push({ field, kind: 'removed', before: oldValue, after: null });
+    } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, kind: 'changed', before: oldValue, after: newValue });
+    }
+  }
+  return changes;
+}
+
+function toAuditLog(row: AuditLogRow) {
+  const metadata = isPlainObject(row.metadata) ? row.metadata : {};
+  const newData = isPlainObject(row.new_data) ? row.new_data : {};
+  const isSecurityEvent = row.table_name === 'security_events';
+
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    table_name: row.table_name,
+    operation: row.operation,
+    action: typeof metadata.action === 'string' ? metadata.action : null,
+    severity: isSecurityEvent && typeof newData.severity === 'string' ? newData.severity : null,
+    description: isSecurityEvent && typeof newData.description === 'string' ? newData.description : null,
+    actor: row.user_id ? { id: row.user_id, email: row.users?.email ?? null } : null,
+    ip_address: row.ip_address,
+    user_agent: row.user_agent,
+    old_data: row.old_data,
+    new_data: row.new_data,
+    metadata: row.metadata,
+    changes: diffAuditData(row.old_data, row.new_data),
+  };
+}
+
+export type AuditLog = ReturnType<typeof toAuditLog>;
+
+/**
+ * A page of a company's audit log, newest first
+ */
+export async function listAuditLogs(
+  companyId: string,
+  filters: AuditLogFilters,
+  page: { limit: number; offset: number }
+): Promise<{ logs: AuditLog[]; total: number }> {
+  const where = auditLogWhere(companyId, filters);
+  const [rows, total] = await Promise.all([
+    prisma.audit_logs.findMany({
+      where,
+      select: auditLogSelect,
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: page.limit,
+      skip: page.offset,
+    }),
+    prisma.audit_logs.count({ where }),
+  ]);
+
+  return { logs: rows.map(toAuditLog), total };
+}
+
+const EXPORT_COLUMNS = [
+  'id', 'timestamp', 'actor_id', 'actor_email', 'operation', 'table_name', 'action',
+  'severity', 'description', 'ip_address', 'user_agent', 'changes', 'old_data', 'new_data', 'metadata',
+] as const;
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(log: AuditLog): string {
+  const values: Record<typeof EXPORT_COLUMNS[number], unknown> = {
+    id: log.id,
+    timestamp: log.timestamp,
+    actor_id: log.actor?.id,
+    actor_email: log.actor?.email,
+    operation: log.operation,
+    table_name: log.table_name,
+    action: log.action,
+    severity: log.severity,
+    description: log.description,
+    ip_address: log.ip_address,
+    user_agent: log.user_agent,
+    changes: log.changes,
+    old_data: log.old_data,
+    new_data: log.new_data,
+    metadata: log.metadata,
+  };
+  return EXPORT_COLUMNS.map(column => csvField(values[column])).join(',') + '\r\n';
+}
+
+/**
+ * The filtered audit log as CSV, newest first, capped at MAX_AUDIT_EXPORT_ROWS
+ */
+export async function buildAuditLogCsv(
+  companyId: string,
+  filters: AuditLogFilters
+): Promise<{ csv: string; rowCount: number; truncated: boolean }> {
+  const where = auditLogWhere(companyId, filters);
+  let csv = EXPORT_COLUMNS.join(',') + '\r\n';
+  let rowCount = 0;
+
+  while (rowCount < MAX_AUDIT_EXPORT_ROWS) {
+    const rows = await prisma.audit_logs.findMany({
+      where,
+      select: auditLogSelect,
+      orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+      take: Math.min(EXPORT_BATCH_SIZE, MAX_AUDIT_EXPORT_ROWS - rowCount),
+      skip: rowCount,
+    });
+    for (const row of rows) csv += toCsvRow(toAuditLog(row));
+    rowCount += rows.length;
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return { csv, rowCount, truncated: false };
+    }
+  }
+
+  const more = await prisma.audit_logs.count({ where, skip: rowCount, take: 1 });
+  return { csv, rowCount, truncated: more > 0 };
+}
+
+export function auditExportFilename(date: Date = new Date()): string {
+  return `audit-log-${date.toISOString().slice(0, 10)}.csv`;
+}
+
+function getSigningKey(): Buffer {
+  const secret = process.env.AUDIT_EXPORT_SIGNING_SECRET;
+  if (!secret) {
+    throw new AuditLogError('AUDIT_EXPORT_SIGNING_SECRET environment variable is required', 'SIGNING_NOT_CONFIGURED', 500);
+  }
+  return Buffer.from(secret, 'utf8');
+}
+
+function signatureDigest(companyId: string, timestamp: number, csv: string): string {
+  const contentHash = crypto.createHash('sha256').update(csv).digest('hex');
+  return crypto
+    .createHmac('sha256', getSigningKey())
+    .update(`${timestamp}.${companyId}.${contentHash}`)
+    .digest('hex');
+}
+
+/**
+ * Signature of an export: `t=<unix seconds>,v1=<hex HMAC-SHA256>` over the time, the company
+ * and the SHA-256 of the file
+ */
+export function signAuditExport(companyId: string, csv: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${signatureDigest(companyId, timestamp, csv)}`;
+}
+
+/**
+ * Check an export against its signature; false when the file, the company or the signature
+ * was changed
+ */
+export function verifyAuditExport(companyId: string, csv: string, signature: string): { valid: boolean; signedAt: Date | null } {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(signature.trim());
+  if (!match) {
+    return { valid: false, signedAt: null };
+  }
+
+  const timestamp = Number(match[1]);
+  const expected = Buffer.from(signatureDigest(companyId, timestamp, csv), 'hex');
+  const actual = Buffer.from(match[2]!, 'hex');
+  const valid = expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+
+  return { valid, signedAt: valid ? new Date(timestamp * 1000) : null };
+}
@@ -6,6 +6,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabaseServer';
 import prisma from '@/lib/prisma';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import type { Permission } from '@/lib/permissions';
+import { ApiKeyScope, authenticateApiKey, isApiKeyRequest } from '@/lib/api-keys';
+import { RateLimitResult, applyRateLimitHeaders, rateLimitHeaders } from '@/lib/rate-limit/limiter';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { checkAccountRestriction } from '@/lib/security-analytics';
+import { MfaState, checkMfaRequirement, getMfaState } from '@/lib/mfa';
 // Simple error logging utility
 function logError(error: any, context: string) {
   console.error(`[${context}]`, error instanceof Error ? error.message : String(error), error);
@@ -19,6 +26,8 @@ export interface AuthContext {
     avatar_url?: string;
   };
   session: any;
+  /** Set for user sessions; API keys have none */
+  mfa?: MfaState;
 }
 
 export interface CompanyAuthContext extends AuthContext {
@@ -29,6 +38,15 @@ export interface CompanyAuthContext extends AuthContext {
   };
   userRole: string;
   hasAdminAccess: boolean;
+  permissions: Permission[];
+  /** Set when the request was authenticated with a company API key instead of a user */
+  apiKey?: {
+    id: string;
+    name: string;
+    prefix: string;
+    scopes: ApiKeyScope[];
+    rateLimit?: RateLimitResult;
+  };
 }
 
 // Authentication errors
@@ -36,7 +54,8 @@ export class AuthError extends Error {
   constructor(
     message: string,
     public code: string = 'AUTH_ERROR',
-    public statusCode: number = 401
+    public statusCode: number = 401,
+    public headers?: Record<string, string>
   ) {
     super(message);
     this.name = 'AuthError';
@@ -57,6 +76,12 @@ export async function authenticateUser(request: NextRequest): Promise<AuthContex
       throw new AuthError('Authentication required', 'UNAUTHENTICATED', 401);
     }
 
+    // Locked accounts and sessions that must re-authenticate after a security finding
+    const restriction = await checkAccountRestriction(user.id, user.last_sign_in_at);
+    if (restriction) {
+      throw new AuthError(restriction.message, restriction.code, restriction.code === 'ACCOUNT_LOCKED' ? 423 : 401);
+    }
+
     const sessionResult = await supabase.auth.getSession();
     console.log('Got session data:', { hasSession: !!sessionResult.data.session });
 
@@ -68,6 +93,8 @@ export async function authenticateUser(request: NextRequest): Promise<AuthContex
         avatar_url: user.user_metadata?.avatar_url,
       },
       session: sessionResult,
+      // getUser() above accepted this token, so its aal claim can be trusted
+      mfa: getMfaState(user, sessionResult.data.session?.access_token),
     };
   } catch (error) {
     if (error instanceof AuthError) {
@@ -83,7 +110,7 @@ export async function authenticateUser(request: NextRequest): Promise<AuthContex
 export async function authenticateCompanyUser(
   request: NextRequest,
   companyId: string,
-  requiredRoles: string[] = ['member', 'admin', 'owner']
+  requiredRoles?: string[]
 ): Promise<CompanyAuthContext> {
   const authContext = await authenticateUser(request);
 
@@ -95,6 +122,7 @@ export async function authenticateCompanyUser(
         id: true,
         name: true,
         active: true,
+        require_mfa: true,
       },
     });
     
@@ -114,6 +142,16 @@ export async function authenticateCompanyUser(
     });
 
     if (!permission) {
+      // Counted by the cross-company access detector
+      const { ipAddress, userAgent } = extractClientInfo(request);
+      await auditLogger.logUnauthorizedAccess(
+        `companies/${companyId}`,
+        `${request.method} ${request.nextUrl.pathname}`,
+        authContext.user.id,
+        ipAddress,
+        userAgent,
+        { company_id: companyId }
+      );
       throw new AuthError(
         'Insufficient permissions for this company',
         'INSUFFICIENT_PERMISSIONS',
@@ -121,8 +159,8 @@ export async function authenticateCompanyUser(
       );
     }
 
-    // Check if user role is in required roles
-    if (!requiredRoles.includes(permission.role)) {
+    // Check if user role is in required roles (any member when no roles are given)
+    if (requiredRoles && !requiredRoles.includes(permission.role)) {
       throw new AuthError(
         'Insufficient permissions for this operation',
         'INSUFFICIENT_PERMISSIONS',
@@ -130,6 +168,12 @@ export async function authenticateCompanyUser(
       );
     }
 
+    // Company policy: every member needs a verified factor, used in this session
+    const mfaFailure = checkMfaRequirement(company.require_mfa, authContext.mfa);
+    if (mfaFailure) {
+      throw new AuthError(mfaFailure.message, mfaFailure.code, 403);
+    }
+
     return {
       ...authContext,
       company: {
@@ -139,6 +183,7 @@ export async function authenticateCompanyUser(
       },
       userRole: permission.role,
       hasAdminAccess: ['admin', 'owner'].includes(permission.role),
+      permissions: await getCompanyPermissionsForRole(companyId, permission.role),
     };
   } catch (error) {
     if (error instanceof AuthError) {
@@ -150,6 +195,70 @@ export async function authenticateCompanyUser(
   }
 }
 
+// Company API key check; the key acts as the user who created it, limited to its scopes
+export async function authenticateCompanyApiKey(
+  request: NextRequest,
+  companyId: string,
+  scope?: ApiKeyScope
+): Promise<CompanyAuthContext> {
+  if (!scope) {
+    throw new AuthError('API keys cannot be used for this endpoint', 'API_KEY_NOT_ALLOWED', 403);
+  }
+
+  const result = await authenticateApiKey(request, companyId, scope);
+  if (!result.success || !result.apiKey) {
+    throw new AuthError(
+      result.error || 'Invalid API key',
+      result.code,
+      result.statusCode,
+      result.rateLimit && rateLimitHeaders(result.rateLimit)
+    );
+  }
+
+  const company = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, active: true },
+  });
+  if (!company) {
+    throw new AuthError('Company not found', 'COMPANY_NOT_FOUND', 404);
+  }
+
+  const { apiKey } = result;
+  return {
+    user: {
+      id: apiKey.createdBy,
+      email: apiKey.creatorEmail,
+    },
+    session: null,
+    company: {
+      id: company.id,
+      name: company.name,
+      status: company.active ? 'active' : 'inactive',
+    },
+    userRole: 'api_key',
+    hasAdminAccess: false,
+    permissions: [],
+    apiKey: {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      ...(result.rateLimit && { rateLimit: result.rateLimit }),
+    },
+  };
+}
+
+// Permission check against the company's role → permission mapping
+export function requirePermission(context: CompanyAuthContext, permission: Permission): void {
+  if (!context.permissions.includes(permission)) {
+    throw new AuthError(
+      `Missing permission: ${permission}`,
+      'MISSING_PERMISSION',
+      403
+    );
+  }
+}
+
 // Admin-only authentication check
 export async function authenticateAdmin(
   request: NextRequest,
@@ -192,7 +301,7 @@ export function withAuth<T = any>(
             error: error.message,
             code: error.code,
           },
-          { status: error.statusCode }
+          { status: error.statusCode, headers: error.headers }
         );
       }
 
@@ -214,18 +323,34 @@ export function withCompanyAuth<T = any>(
   options: {
     requiredRoles?: string[];
     adminOnly?: boolean;
+    permission?: Permission;
+    /** Also accept company API keys holding this scope; the scope replaces the permission check */
+    apiKeyScope?: ApiKeyScope;
   } = {}
 ) {
-  return async (request: NextRequest, context: { params: { companyId: string } }, ...args: any[]): Promise<NextResponse> => {
-    const { requiredRoles = ['member', 'admin', 'owner'], adminOnly = false } = options;
-    const { companyId } = context.params;
+  return async (request: NextRequest, context: { params: Promise<{ companyId: string }> }, ...args: any[]): Promise<NextResponse> => {
+    const { adminOnly = false, permission, apiKeyScope } = options;
+    // A permission check replaces the role list; without either, any company member passes
+    const requiredRoles = permission ? undefined : options.requiredRoles;
+    const { companyId } = await context.params;
 
     try {
+      if (isApiKeyRequest(request)) {
+        const apiKeyContext = await authenticateCompanyApiKey(request, companyId, adminOnly ? undefined : apiKeyScope);
+        const response = await handler(request, apiKeyContext, context, ...args);
+        const rateLimit = apiKeyContext.apiKey?.rateLimit;
+        return rateLimit ? applyRateLimitHeaders(response, rateLimit) : response;
+      }
+
       const authContext = adminOnly 
         ? await authenticateAdmin(request, companyId)
         : await authenticateCompanyUser(request, companyId, requiredRoles);
 
-      return handler(request, authContext, ...args);
+      if (permission) {
+        requirePermission(authContext, permission);
+      }
+
+      return handler(request, authContext, context, ...args);
     } catch (error) {
       if (error instanceof AuthError) {
         return NextResponse.json(
@@ -233,7 +358,7 @@ export function withCompanyAuth<T = any>(
             error: error.message,
             code: error.code,
           },
-          { status: error.statusCode }
+          { status: error.statusCode, headers: error.headers }
         );
       }
 
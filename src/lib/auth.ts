@@ -1,12 +1,20 @@
 import { NextRequest } from 'next/server';
+import { timingSafeEqual } from 'crypto';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import type { Permission } from '@/lib/permissions';
+import { checkAccountRestriction } from '@/lib/security-analytics';
+import { MfaState, checkCompanyMfaRequirement, getMfaState } from '@/lib/mfa';
+import { getClientIp } from '@/lib/audit-logger';
 
 export interface AuthUser {
   id: string;
   email?: string;
   aud: string;
   role?: string;
+  /** MFA state of the session, checked against companies that require MFA */
+  mfa?: MfaState;
 }
 
 export interface AuthResult {
@@ -47,13 +55,19 @@ export async function authenticateRequest(request: NextRequest): Promise<AuthRes
         };
       }
 
+      const restriction = await checkAccountRestriction(user.id, user.last_sign_in_at);
+      if (restriction) {
+        return { success: false, error: restriction.message };
+      }
+
       return {
         success: true,
         user: {
           id: user.id,
           email: user.email,
           aud: user.aud,
-          role: user.user_metadata?.role
+          role: user.user_metadata?.role,
+          mfa: getMfaState(user, bearerToken)
         }
       };
     }
@@ -83,13 +97,22 @@ export async function authenticateRequest(request: NextRequest): Promise<AuthRes
       };
     }
 
+    const restriction = await checkAccountRestriction(user.id, user.last_sign_in_at);
+    if (restriction) {
+      return { success: false, error: restriction.message };
+    }
+
+    // getUser() above accepted the session's token, so its aal claim can be trusted
+    const { data: { session } } = await supabase.auth.getSession();
+
     return {
       success: true,
       user: {
         id: user.id,
         email: user.email,
         aud: user.aud,
-        role: user.user_metadata?.role
+        role: user.user_metadata?.role,
+        mfa: getMfaState(user, session?.access_token)
       }
     };
 
@@ -132,24 +155,26 @@ export async function createAuthenticatedClient(request: NextRequest) {
  * Extract client IP and user agent from request
  */
 export function extractClientInfo(request: NextRequest) {
-  const ipAddress = 
-    request.headers.get('x-forwarded-for')?.split(',')[0] ||
-    request.headers.get('x-real-ip') ||
-    'unknown';
+  const ipAddress = getClientIp(request);
   
   const userAgent = request.headers.get('user-agent') || 'unknown';
   
   return { ipAddress, userAgent };
 }
 
+/** The caller of a company access check: its ID and the session's MFA state */
+export type CompanyAccessUser = Pick<AuthUser, 'id' | 'mfa'>;
+
 /**
  * Check if user has permission for company operations
+ * Also applies the company's MFA requirement.
  */
 export async function checkCompanyPermission(
-  userId: string,
+  user: CompanyAccessUser,
   companyId: string,
   requiredRoles: string[] = ['member', 'admin', 'owner', 'superadmin']
-): Promise<{ hasPermission: boolean; role?: string; error?: string }> {
+): Promise<{ hasPermission: boolean; role?: string; error?: string; code?: string }> {
+  const userId = user.id;
   try {
     const supabase = createServerClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -185,6 +210,11 @@ export async function checkCompanyPermission(
       };
     }
 
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, user.mfa);
+    if (mfaFailure) {
+      return { hasPermission: false, role: data.role, error: mfaFailure.message, code: mfaFailure.code };
+    }
+
     return {
       hasPermission: true,
       role: data.role
@@ -197,4 +227,93 @@ export async function checkCompanyPermission(
       error: 'Permission check failed'
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check if user holds a permission in a company
+ * Resolves the user's role through the company's role → permission mapping,
+ * so custom roles and customised built-in roles are honoured, and applies the
+ * company's MFA requirement.
+ */
+export async function checkCompanyAccess(
+  user: CompanyAccessUser,
+  companyId: string,
+  permission: Permission
+): Promise<{ hasPermission: boolean; role?: string; permissions?: Permission[]; error?: string; code?: string }> {
+  const userId = user.id;
+  try {
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      {
+        cookies: {
+          get: () => undefined,
+          set: () => {},
+          remove: () => {},
+        },
+      }
+    );
+
+    const { data, error } = await supabase
+      .from('company_users')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('company_id', companyId)
+      .single();
+
+    if (error || !data) {
+      return { hasPermission: false, error: 'User not found in company' };
+    }
+
+    const permissions = await getCompanyPermissionsForRole(companyId, data.role);
+    if (!permissions.includes(permission)) {
+      return {
+        hasPermission: false,
+        role: data.role,
+        permissions,
+        error: `Missing permission: ${permission}`
+      };
+    }
+
+    const mfaFailure = await checkCompanyMfaRequirement(companyId, user.mfa);
+    if (mfaFailure) {
+      return { hasPermission: false, role: data.role, permissions, error: mfaFailure.message, code: mfaFailure.code };
+    }
+
+    return { hasPermission: true, role: data.role, permissions };
+
+  } catch (error) {
+    console.error('Company access check error:', error);
+    return {
+      hasPermission: false,
+      error: 'Permission check failed'
+    };
+  }
+}
+
+/**
+ * Check if user is a platform administrator
+ * Platform admins are listed by user ID in PLATFORM_ADMIN_USER_IDS (comma separated)
+ * and may run platform-wide maintenance such as master key rotation.
+ */
+export function isPlatformAdmin(userId: string): boolean {
+  const adminIds = (process.env.PLATFORM_ADMIN_USER_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(userId);
+}
+
+/**
+ * Scheduled jobs authenticate with Authorization: Bearer <CRON_SECRET>
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization');
+  if (!secret || !header?.startsWith('Bearer ')) return false;
+
+  const provided = Buffer.from(header.slice(7));
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
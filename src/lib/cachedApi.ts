@@ -1,5 +1,6 @@
 import { supabase } from '@/lib/supabaseClient';
 import { requestCache } from '@/lib/requestCache';
+import type { CompanySecret, SecretRequirement } from '@/lib/validation/secretSchema';
 
 export interface CachedApiResponse<T> {
   data?: T;
@@ -319,6 +320,853 @@ class CachedApi {
       throw error;
     }
   }
+
+  // Secret management methods (values are write-only)
+  async fetchCompanySecrets(companyId: string): Promise<CompanySecret[]> {
+    const cacheKey = `company-secrets:${companyId}`;
+
+    return requestCache.get(cacheKey, async () => {
+      const headers = await this.getAuthHeaders();
+      const response = await fetch(`/api/companies/${companyId}/secrets`, { headers });
+
+      if (!response.ok) {
+        await handleFetchError(response, 'fetch company secrets');
+      }
+
+      const data = await response.json();
+      return data.success ? data.data : [];
+    });
+  }
+
+  async createCompanySecret(
+    companyId: string,
+    secret: { key: string; value: string; description?: string; app_permissions?: string[] }
+  ): Promise<CompanySecret> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/secrets`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(secret)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to create secret (${response.status})`);
+    }
+
+    const data = await response.json();
+    this.invalidateCompanySecrets(companyId);
+    return data.data;
+  }
+
+  async updateCompanySecret(
+    companyId: string,
+    secretId: string,
+    updates: { value?: string; description?: string | null; app_permissions?: string[] }
+  ): Promise<CompanySecret> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/secrets/${secretId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(updates)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to update secret (${response.status})`);
+    }
+
+    const data = await response.json();
+    this.invalidateCompanySecrets(companyId);
+    return data.data;
+  }
+
+  async deleteCompanySecret(companyId: string, secretId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/secrets/${secretId}`, {
+      method: 'DELETE',
+      headers
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to delete secret (${response.status})`);
+    }
+
+    this.invalidateCompanySecrets(companyId);
+  }
+
+  async fetchSecretRequirements(companyId: string, applicationId: string): Promise<SecretRequirement[]> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/applications/${applicationId}/secrets`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch secret requirements');
+    }
+
+    const data = await response.json();
+    return data.success ? data.data : [];
+  }
+
+  invalidateCompanySecrets(companyId: string): void {
+    requestCache.invalidate(`company-secrets:${companyId}`);
+  }
+
+  // Role and permission methods
+  async fetchCompanyRoles(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/roles`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch company roles');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateCompanyRole(companyId: string, role: string, permissions: string[]): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/roles`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ role, permissions })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to update role (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  async deleteCompanyRole(companyId: string, role: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/roles/${encodeURIComponent(role)}`, {
+      method: 'DELETE',
+      headers
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to delete role (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  async updateMemberRole(companyId: string, userId: string, role: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/users/${userId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ role })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to change role (${response.status})`);
+    }
+
+    this.invalidateCompanyUsers(companyId);
+    return response.json();
+  }
+
+  async fetchOwnershipTransfer(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/ownership-transfer`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch ownership transfer');
+    }
+
+    const data = await response.json();
+    return data.data.transfer;
+  }
+
+  async startOwnershipTransfer(companyId: string, userId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/ownership-transfer`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ userId })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to start ownership transfer (${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.data.transfer;
+  }
+
+  async cancelOwnershipTransfer(companyId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/ownership-transfer`, {
+      method: 'DELETE',
+      headers
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to cancel ownership transfer (${response.status})`);
+    }
+  }
+
+  async fetchCompanyInvitations(companyId: string, status?: string): Promise<any[]> {
+    const headers = await this.getAuthHeaders();
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const response = await fetch(`/api/companies/${companyId}/invitations${query}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch company invitations');
+    }
+
+    const data = await response.json();
+    return data.data || [];
+  }
+
+  async resendInvitation(companyId: string, invitationId: string, locale?: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const query = locale ? `?locale=${encodeURIComponent(locale)}` : '';
+    const response = await fetch(`/api/companies/${companyId}/invitations/${invitationId}/resend${query}`, {
+      method: 'POST',
+      headers
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to resend invitation (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  async revokeInvitation(companyId: string, invitationId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/invitations/${invitationId}`, {
+      method: 'DELETE',
+      headers
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to revoke invitation (${response.status})`);
+    }
+  }
+
+  async updateInvitationRole(companyId: string, invitationId: string, role: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/invitations/${invitationId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ role })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to change invitation role (${response.status})`);
+    }
+
+    return response.json();
+  }
+
+  async bulkInvite(companyId: string, file: File, locale?: string): Promise<any> {
+    // Let the browser set the multipart boundary
+    const { 'Content-Type': _contentType, ...headers } = await this.getAuthHeaders();
+    const body = new FormData();
+    body.append('file', file);
+
+    const query = locale ? `?locale=${encodeURIComponent(locale)}` : '';
+    const response = await fetch(`/api/companies/${companyId}/invitations/bulk${query}`, {
+      method: 'POST',
+      headers,
+      body
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to send bulk invitations (${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async notifyPasswordChanged(locale?: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch('/api/auth/password-changed', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ locale })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to send password change notice (${response.status})`);
+    }
+  }
+
+  // Execution run history (not cached: runs change while they execute)
+  async fetchExecutionRuns(companyId: string, filters: {
+    appId?: string;
+    status?: string;
+    triggeredBy?: string;
+    jobId?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const query = params.toString() ? `?${params}` : '';
+    const response = await fetch(`/api/companies/${companyId}/runs${query}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch execution runs');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchExecutionRun(companyId: string, runId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/runs/${runId}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch execution run');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  // Log retention and archives
+  async fetchLogRetention(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/log-retention`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch log retention');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateLogRetention(companyId: string, days: Record<string, number>): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/log-retention`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ days })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Failed to update log retention (${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchLogArchives(companyId: string, range: { from?: string; to?: string } = {}): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    if (range.from) params.set('from', range.from);
+    if (range.to) params.set('to', range.to);
+    const query = params.toString() ? `?${params}` : '';
+    const response = await fetch(`/api/companies/${companyId}/log-archives${query}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch log archives');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  // Dashboard time-series (not cached: the window changes often and rollups refresh server-side)
+  async fetchDashboardTimeSeries(companyId: string, window: string, bucket?: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams({ window });
+    if (bucket) params.set('bucket', bucket);
+    const response = await fetch(`/api/companies/${companyId}/dashboard-stats/timeseries?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch dashboard time-series');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchIntegrationHealth(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/integration-health`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch integration health');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchIntegrationHealthTimeline(companyId: string, companyApplicationId: string, days?: number): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    if (days) params.set('days', String(days));
+    const response = await fetch(`/api/companies/${companyId}/integration-health/${companyApplicationId}?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch integration health timeline');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async runIntegrationHealthCheck(companyId: string, companyApplicationId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/integration-health/${companyApplicationId}`, {
+      method: 'POST',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'run integration health check');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchGuardAlerts(
+    companyId: string,
+    applicationId: string,
+    options: { status?: 'open' | 'resolved'; limit?: number; offset?: number } = {}
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    if (options.status) params.set('status', options.status);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.offset) params.set('offset', String(options.offset));
+    const response = await fetch(`/api/companies/${companyId}/applications/${applicationId}/guard-alerts?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch guard alerts');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async evaluateGuard(companyId: string, applicationId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/applications/${applicationId}/guard-alerts`, {
+      method: 'POST',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'evaluate guard rules');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async sendTestNotification(
+    companyId: string,
+    applicationId: string,
+    channel: 'email' | 'slack' | 'discord' | 'whatsapp',
+    target?: string
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/applications/${applicationId}/notification-channels/test`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ channel, ...(target && { target }) }),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'send test notification');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchNotificationDeliveries(
+    companyId: string,
+    applicationId: string,
+    options: { channel?: string; limit?: number; offset?: number } = {}
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    if (options.channel) params.set('channel', options.channel);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.offset) params.set('offset', String(options.offset));
+    const response = await fetch(`/api/companies/${companyId}/applications/${applicationId}/notification-deliveries?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch notification deliveries');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchNotificationPreferences(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/notifications/preferences?company_id=${companyId}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch notification preferences');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateNotificationPreferences(
+    companyId: string,
+    preferences: Array<{ type: string; inApp: boolean; email: boolean; digest: 'none' | 'daily' | 'weekly' }>
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/notifications/preferences?company_id=${companyId}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ preferences }),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'update notification preferences');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchCompanyWebhooks(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/webhooks`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch webhooks');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async createCompanyWebhook(
+    companyId: string,
+    webhook: { url: string; description?: string; events: string[] }
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/webhooks`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(webhook),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'create webhook');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateCompanyWebhook(
+    companyId: string,
+    webhookId: string,
+    updates: { url?: string; description?: string | null; events?: string[]; isActive?: boolean; rotateSecret?: boolean }
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/webhooks/${webhookId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(updates),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'update webhook');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async deleteCompanyWebhook(companyId: string, webhookId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/webhooks/${webhookId}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'delete webhook');
+    }
+  }
+
+  async fetchWebhookDeliveries(
+    companyId: string,
+    webhookId: string,
+    options: { status?: string; limit?: number; offset?: number } = {}
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    if (options.status) params.set('status', options.status);
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.offset) params.set('offset', String(options.offset));
+
+    const response = await fetch(`/api/companies/${companyId}/webhooks/${webhookId}/deliveries?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch webhook deliveries');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async replayWebhookDelivery(companyId: string, webhookId: string, deliveryId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/webhooks/${webhookId}/deliveries/${deliveryId}/replay`, {
+      method: 'POST',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'replay webhook delivery');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchCompanyApiKeys(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/api-keys`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch API keys');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async createCompanyApiKey(
+    companyId: string,
+    apiKey: { name: string; scopes: string[]; expiresInDays: number | null }
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/api-keys`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(apiKey),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'create API key');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async revokeCompanyApiKey(companyId: string, keyId: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/api-keys/${keyId}`, {
+      method: 'DELETE',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'revoke API key');
+    }
+  }
+
+  async fetchCompanyAuditLogs(companyId: string, filters: Record<string, string | number | undefined> = {}): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const response = await fetch(`/api/companies/${companyId}/audit-logs?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch audit log');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  // The CSV is fetched rather than linked so the signature header can be shown with it
+  async exportCompanyAuditLogs(
+    companyId: string,
+    filters: Record<string, string | undefined> = {}
+  ): Promise<{ blob: Blob; filename: string; signature: string | null; rowCount: number; truncated: boolean }> {
+    const headers = await this.getAuthHeaders();
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, value);
+    }
+    const response = await fetch(`/api/companies/${companyId}/audit-logs/export?${params}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'export audit log');
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    return {
+      blob: await response.blob(),
+      filename: /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'audit-log.csv',
+      signature: response.headers.get('X-MetricsHub-Export-Signature'),
+      rowCount: Number(response.headers.get('X-Export-Row-Count') ?? 0),
+      truncated: response.headers.get('X-Export-Truncated') === 'true',
+    };
+  }
+
+  async verifyCompanyAuditExport(companyId: string, csv: string, signature: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/audit-logs/export/verify`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ csv, signature }),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'verify audit log export');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async verifyCompanyAuditChain(companyId: string, full = false): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/audit-logs/verify${full ? '?full=true' : ''}`, {
+      method: 'POST',
+      headers,
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'verify audit log chain');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchCompanySecurity(companyId: string, status?: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const response = await fetch(`/api/companies/${companyId}/security${query}`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch security findings');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateCompanySecurityFinding(
+    companyId: string,
+    findingId: string,
+    update: { status: 'open' | 'acknowledged' | 'resolved'; clearRestriction?: boolean }
+  ): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/security/findings/${findingId}`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(update),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'update security finding');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchCompanyMfaPolicy(companyId: string): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/mfa-policy`, { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch MFA policy');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async updateCompanyMfaPolicy(companyId: string, requireMfa: boolean): Promise<any> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch(`/api/companies/${companyId}/mfa-policy`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ requireMfa }),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'update MFA policy');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async fetchMfaRecoveryCodeStatus(): Promise<{ remaining: number; generatedAt: string | null }> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch('/api/user/mfa/recovery-codes', { headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'fetch recovery codes');
+    }
+
+    const data = await response.json();
+    return data.data;
+  }
+
+  async generateMfaRecoveryCodes(): Promise<string[]> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch('/api/user/mfa/recovery-codes', { method: 'POST', headers });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'generate recovery codes');
+    }
+
+    const data = await response.json();
+    return data.data.codes;
+  }
+
+  async redeemMfaRecoveryCode(code: string): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    const response = await fetch('/api/user/mfa/recover', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) {
+      await handleFetchError(response, 'use recovery code');
+    }
+  }
 }
 
 export const cachedApi = new CachedApi();
\ No newline at end of file
@@ -0,0 +1,312 @@
+/**
+ * Dashboard statistics
+ * Time-series of execution runs and integration logs aggregated in SQL from the hourly
+ * rollup tables (dashboard_run_rollups, dashboard_log_rollups). Rollups are brought up to
+ * date lazily before a read, at most once per ROLLUP_REFRESH_INTERVAL_MS per company.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const STATS_WINDOWS = {
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+  '30d': 30 * 24 * HOUR_MS,
+  '90d': 90 * 24 * HOUR_MS,
+} as const;
+
+export const STATS_BUCKETS = {
+  '1h': HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+} as const;
+
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+export type StatsBucket = keyof typeof STATS_BUCKETS;
+
+export const DEFAULT_STATS_BUCKET: Record<StatsWindow, StatsBucket> = {
+  '24h': '1h',
+  '7d': '6h',
+  '30d': '1d',
+  '90d': '1d',
+};
+
+/** Upper bound on points per series, so a 90d window cannot be asked for hourly */
+export const MAX_STATS_POINTS = 500;
+
+/** Buckets align to this instant: midnight UTC on a Monday, so 1d and 7d buckets are calendar days and weeks */
+const BUCKET_ORIGIN = new Date('2000-01-03T00:00:00.000Z');
+
+const ROLLUP_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/** Runs finishing and logs arriving late are picked up by re-reading this far back */
+const ROLLUP_LATE_MARGIN_MS = HOUR_MS;
+
+export interface StatsQuery {
+  window: StatsWindow;
+  bucket: StatsBucket;
+}
+
+export interface RunStats {
+  totalRuns: number;
+  successRuns: number;
+  failedRuns: number;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+}
+
+export interface LogStats {
+  totalLogs: number;
+  warnLogs: number;
+  errorLogs: number;
+}
+
+export interface StatsPoint extends RunStats, LogStats {
+  bucket: string;
+}
+
+export interface IntegrationRunStats extends RunStats {
+  appId: string;
+  appName: string;
+}
+
+export interface IntegrationLogStats extends LogStats {
+  integrationName: string;
+}
+
+export interface DashboardTimeSeries {
+  window: StatsWindow;
+  bucket: StatsBucket;
+  from: string;
+  to: string;
+  series: StatsPoint[];
+  totals: RunStats & LogStats & { successRate: number | null };
+  integrations: IntegrationRunStats[];
+  logIntegrations: IntegrationLogStats[];
+}
+
+export class DashboardStatsError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'DASHBOARD_STATS_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'DashboardStatsError';
+  }
+}
+
+/**
+ * Validate ?window= and ?bucket=; the bucket defaults to one suited to the window
+ *
+ * @throws DashboardStatsError on unknown values or too many points
+ */
+export function parseStatsQuery(searchParams: URLSearchParams): StatsQuery {
+  const window = (searchParams.get('window') || '24h') as StatsWindow;
+  if (!(window in STATS_WINDOWS)) {
+    throw new DashboardStatsError(`Unknown window: ${window}`, 'INVALID_WINDOW');
+  }
+
+  const bucket = (searchParams.get('bucket') || DEFAULT_STATS_BUCKET[window]) as StatsBucket;
+  if (!(bucket in STATS_BUCKETS)) {
+    throw new DashboardStatsError(`Unknown bucket: ${bucket}`, 'INVALID_BUCKET');
+  }
+  if (STATS_BUCKETS[bucket] > STATS_WINDOWS[window]) {
+    throw new DashboardStatsError('Bucket is larger than the window', 'INVALID_BUCKET');
+  }
+  if (STATS_WINDOWS[window] / STATS_BUCKETS[bucket] > MAX_STATS_POINTS) {
+    throw new DashboardStatsError(
+      `A ${window} window allows at most ${MAX_STATS_POINTS} buckets`,
+      'TOO_MANY_BUCKETS'
+    );
+  }
+
+  return { window, bucket };
+}
+
+function alignToBucket(time: number, bucketMs: number): number {
+  const origin = BUCKET_ORIGIN.getTime();
+  return origin + Math.floor((time - origin) / bucketMs) * bucketMs;
+}
+
+/**
+ * Recompute the company's rollup buckets touched since the last refresh
+ */
+export async function refreshDashboardRollups(companyId: string, force = false): Promise<void> {
+  const startedAt = new Date();
+  const state = await prisma.dashboard_rollup_state.findUnique({ where: { company_id: companyId } });
+
+  if (!force && state && startedAt.getTime() - state.refreshed_at.getTime() < ROLLUP_REFRESH_INTERVAL_MS) {
+    return;
+  }
+
+  // Without a previous refresh the whole history is rolled up once
+  const since = state ? new Date(state.refreshed_at.getTime() - ROLLUP_LATE_MARGIN_MS) : new Date(0);
+  await prisma.$executeRaw`SELECT public.refresh_dashboard_rollups(${companyId}::uuid, ${since}::timestamptz)`;
+
+  await prisma.dashboard_rollup_state.upsert({
+    where: { company_id: companyId },
+    create: { company_id: companyId, refreshed_at: startedAt },
+    update: { refreshed_at: startedAt },
+  });
+}
+
+interface RunRow {
+  key: string;
+  total_runs: number;
+  success_runs: number;
+  failed_runs: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+interface LogRow {
+  key: string;
+  total_logs: number;
+  warn_logs: number;
+  error_logs: number;
+}
+
+/**
+ * Run counts and duration percentiles grouped by the given expression over r (one
+ * dashboard_run_rollups row per app and hour). Percentiles unnest the stored durations,
+ * so they are exact for any grouping.
+ */
+function runStatsQuery(companyId: string, from: Date, groupBy: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    WITH r AS (
+      SELECT ${groupBy} AS key, total_runs, success_runs, failed_runs, durations
+      FROM public.dashboard_run_rollups
+      WHERE company_id = ${companyId}::uuid AND bucket >= ${from}::timestamptz
+    ),
+    counts AS (
+      SELECT key,
+        sum(total_runs)::int   AS total_runs,
+        sum(success_runs)::int AS success_runs,
+        sum(failed_runs)::int  AS failed_runs
+      FROM r GROUP BY key
+    ),
+    pct AS (
+      SELECT key, percentile_cont(ARRAY[0.5, 0.95]) WITHIN GROUP (ORDER BY d) AS p
+      FROM r, unnest(r.durations) AS d
+      GROUP BY key
+    )
+    SELECT counts.key::text AS key, total_runs, success_runs, failed_runs,
+      round(pct.p[1])::float8 AS p50,
+      round(pct.p[2])::float8 AS p95
+    FROM counts LEFT JOIN pct USING (key)
+  `;
+}
+
+function logStatsQuery(companyId: string, from: Date, groupBy: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`
+    SELECT (${groupBy})::text AS key,
+      sum(total_logs)::int AS total_logs,
+      sum(warn_logs)::int  AS warn_logs,
+      sum(error_logs)::int AS error_logs
+    FROM public.dashboard_log_rollups
+    WHERE company_id = ${companyId}::uuid AND bucket >= ${from}::timestamptz
+    GROUP BY 1
+  `;
+}
+
+function toRunStats(row?: RunRow): RunStats {
+  return {
+    totalRuns: row?.total_runs ?? 0,
+    successRuns: row?.success_runs ?? 0,
+    failedRuns: row?.failed_runs ?? 0,
+    p50DurationMs: row?.p50 ?? null,
+    p95DurationMs: row?.p95 ?? null,
+  };
+}
+
+function toLogStats(row?: LogRow): LogStats {
+  return {
+    totalLogs: row?.total_logs ?? 0,
+    warnLogs: row?.warn_logs ?? 0,
+    errorLogs: row?.error_logs ?? 0,
+  };
+}
+
+/**
+ * Time-series, totals and per-integration breakdowns for a window. Every bucket of the
+ * window is present in the series, empty ones with zero counts.
+ */
+export async function getDashboardTimeSeries(companyId: string, query: StatsQuery): Promise<DashboardTimeSeries> {
+  await refreshDashboardRollups(companyId);
+
+  const bucketMs = STATS_BUCKETS[query.bucket];
+  const now = Date.now();
+  const from = new Date(alignToBucket(now - STATS_WINDOWS[query.window], bucketMs));
+  const interval = `${bucketMs / HOUR_MS} hours`;
+  const binned = Prisma.sql`to_char(date_bin(${interval}::interval, bucket, ${BUCKET_ORIGIN}::timestamptz) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`;
+
+  const [runBuckets, logBuckets, runTotals, logTotals, runsByApp, logsByIntegration] = await Promise.all([
+    prisma.$queryRaw<RunRow[]>(runStatsQuery(companyId, from, binned)),
+    prisma.$queryRaw<LogRow[]>(logStatsQuery(companyId, from, binned)),
+    prisma.$queryRaw<RunRow[]>(runStatsQuery(companyId, from, Prisma.sql`'all'`)),
+    prisma.$queryRaw<LogRow[]>(logStatsQuery(companyId, from, Prisma.sql`'all'`)),
+    prisma.$queryRaw<RunRow[]>(runStatsQuery(companyId, from, Prisma.sql`app_id`)),
+    prisma.$queryRaw<LogRow[]>(logStatsQuery(companyId, from, Prisma.sql`integration_name`)),
+  ]);
+
+  const runsByBucket = new Map(runBuckets.map(row => [row.key, row]));
+  const logsByBucket = new Map(logBuckets.map(row => [row.key, row]));
+
+  const series: StatsPoint[] = [];
+  for (let time = from.getTime(); time <= now; time += bucketMs) {
+    const key = new Date(time).toISOString().replace('.000Z', 'Z');
+    series.push({
+      bucket: key,
+      ...toRunStats(runsByBucket.get(key)),
+      ...toLogStats(logsByBucket.get(key)),
+    });
+  }
+
+  const apps = await prisma.applications.findMany({
+    where: { id: { in: runsByApp.map(row => row.key) } },
+    select: { id: true, name: true },
+  });
+  const appNames = new Map(apps.map(app => [app.id, app.name]));
+
+  const totals = { ...toRunStats(runTotals[0]), ...toLogStats(logTotals[0]) };
+
+  return {
+    window: query.window,
+    bucket: query.bucket,
+    from: from.toISOString(),
+    to: new Date(now).toISOString(),
+    series,
+    totals: {
+      ...totals,
+      successRate: totals.totalRuns > 0 ? totals.successRuns / totals.totalRuns : null,
+    },
+    integrations: runsByApp
+      .map(row => ({ appId: row.key, appName: appNames.get(row.key) ?? row.key, ...toRunStats(row) }))
+      .sort((a, b) => b.totalRuns - a.totalRuns),
+    logIntegrations: logsByIntegration
+      .map(row => ({ integrationName: row.key, ...toLogStats(row) }))
+      .sort((a, b) => b.totalLogs - a.totalLogs),
+  };
+}
+
+/**
+ * Exact run counts since a point in time, straight from execution_runs
+ */
+export async function countRunsSince(companyId: string, since: Date): Promise<RunStats> {
+  const rows = await prisma.$queryRaw<RunRow[]>`
+    SELECT 'all' AS key,
+      count(*)::int                                                  AS total_runs,
+      count(*) FILTER (WHERE status = 'success')::int                AS success_runs,
+      count(*) FILTER (WHERE status IN ('failed', 'timeout'))::int   AS failed_runs,
+      round(percentile_cont(0.5) WITHIN GROUP (ORDER BY duration_ms))::float8  AS p50,
+      round(percentile_cont(0.95) WITHIN GROUP (ORDER BY duration_ms))::float8 AS p95
+    FROM public.execution_runs
+    WHERE company_id = ${companyId}::uuid AND started_at >= ${since}::timestamptz
+  `;
+
+  return toRunStats(rows[0]);
+}
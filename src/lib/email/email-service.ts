@@ -0,0 +1,137 @@
+/**
+ * Email service
+ * Renders a localized template, hands it to the configured transport and records the
+ * outcome in email_deliveries. All application mail goes through sendEmail().
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  renderEmailTemplate,
+  resolveEmailLocale,
+  type EmailLocale,
+  type EmailTemplateData,
+  type EmailTemplateName,
+} from './templates';
+import { createTransportFromEnv, type EmailTransport } from './transports';
+
+export interface SendEmailOptions<T extends EmailTemplateName> {
+  template: T;
+  to: string;
+  data: EmailTemplateData[T];
+  /** Route locale, stored preference or Accept-Language header */
+  locale?: string | null;
+  replyTo?: string;
+  /** Recipient's account, when they have one */
+  userId?: string | null;
+  companyId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface EmailDeliveryResult {
+  messageId: string | null;
+  locale: EmailLocale;
+  transport: string;
+}
+
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    public template: EmailTemplateName,
+    public transport: string
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+export class EmailService {
+  private fromAddress: string;
+
+  constructor(private transport: EmailTransport = createTransportFromEnv()) {
+    this.fromAddress = process.env.NEXT_PUBLIC_FROM_EMAIL || 'noreply@metrichub.com';
+  }
+
+  get transportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Render and send a template
+   *
+   * @throws EmailDeliveryError when the transport rejects the message; the failure is
+   * logged before throwing
+   */
+  async send<T extends EmailTemplateName>(options: SendEmailOptions<T>): Promise<EmailDeliveryResult> {
+    const locale = resolveEmailLocale(options.locale);
+    const rendered = renderEmailTemplate(options.template, options.data, locale);
+
+    try {
+      const { messageId } = await this.transport.send({
+        from: this.fromAddress,
+        to: options.to,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        ...(options.replyTo && { replyTo: options.replyTo }),
+      });
+
+      await this.logDelivery(options, locale, rendered.subject, { status: 'sent', messageId });
+      return { messageId, locale, transport: this.transport.name };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.logDelivery(options, locale, rendered.subject, { status: 'failed', error: message });
+      throw new EmailDeliveryError(message, options.template, this.transport.name);
+    }
+  }
+
+  /**
+   * Write the delivery log row; a logging failure never fails the send itself
+   */
+  private async logDelivery<T extends EmailTemplateName>(
+    options: SendEmailOptions<T>,
+    locale: EmailLocale,
+    subject: string,
+    outcome: { status: 'sent'; messageId: string | null } | { status: 'failed'; error: string }
+  ): Promise<void> {
+    try {
+      await prisma.email_deliveries.create({
+        data: {
+          template: options.template,
+          locale,
+          to_email: options.to,
+          subject,
+          transport: this.transport.name,
+          status: outcome.status,
+          provider_message_id: outcome.status === 'sent' ? outcome.messageId : null,
+          error: outcome.status === 'failed' ? outcome.error : null,
+          user_id: options.userId ?? null,
+          company_id: options.companyId ?? null,
+          metadata: (options.metadata ?? {}) as object,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record email delivery:', error);
+    }
+  }
+}
+
+// Singleton instance
+let emailServiceInstance: EmailService | null = null;
+export const getEmailService = (): EmailService => {
+  if (!emailServiceInstance) {
+    emailServiceInstance = new EmailService();
+  }
+  return emailServiceInstance;
+};
+
+export function sendEmail<T extends EmailTemplateName>(options: SendEmailOptions<T>): Promise<EmailDeliveryResult> {
+  return getEmailService().send(options);
+}
+
+/**
+ * Site URL for links in emails, localized the same way as the app routes
+ */
+export function emailLink(locale: string | null | undefined, path: string): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  return `${siteUrl}/${resolveEmailLocale(locale)}${path.startsWith('/') ? path : `/${path}`}`;
+}
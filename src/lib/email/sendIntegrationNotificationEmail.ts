@@ -0,0 +1,37 @@
+import { emailLink, sendEmail } from './email-service';
+
+interface IntegrationNotificationEmailData {
+  to: string;
+  companyId: string;
+  companyName: string;
+  integrationId?: string;
+  integrationName: string;
+  title: string;
+  message: string;
+  severity: 'info' | 'warning' | 'critical';
+  fields?: Array<{ label: string; value: string }>;
+  /** App path the email links to, e.g. `/companies/{id}/integrations/{integrationId}/settings` */
+  actionPath?: string;
+  locale?: string | null;
+  userId?: string | null;
+}
+
+export async function sendIntegrationNotificationEmail(data: IntegrationNotificationEmailData): Promise<void> {
+  await sendEmail({
+    template: 'integration_notification',
+    to: data.to,
+    locale: data.locale,
+    data: {
+      companyName: data.companyName,
+      integrationName: data.integrationName,
+      title: data.title,
+      message: data.message,
+      severity: data.severity,
+      fields: data.fields ?? null,
+      actionUrl: data.actionPath ? emailLink(data.locale, data.actionPath) : null,
+    },
+    userId: data.userId,
+    companyId: data.companyId,
+    metadata: { integrationId: data.integrationId ?? null, severity: data.severity },
+  });
+}
@@ -0,0 +1,405 @@
+/**
+ * Email templates
+ * Every template renders a subject, an HTML body and a plain-text alternative in each
+ * locale supported by src/i18n/routing.ts.
+ */
+
+import { routing } from '@/i18n/routing';
+
+export type EmailLocale = typeof routing.locales[number];
+
+export interface EmailTemplateData {
+  company_invitation: {
+    companyName: string;
+    inviterEmail: string;
+    role: string;
+    message?: string | null;
+    acceptUrl: string;
+    expiresAt: Date;
+  };
+  invitation_reminder: EmailTemplateData['company_invitation'];
+  password_reset: {
+    resetUrl: string;
+  };
+  password_changed: {
+    email: string;
+    changedAt: Date;
+    ipAddress?: string | null;
+  };
+  integration_notification: {
+    companyName: string;
+    integrationName: string;
+    title: string;
+    message: string;
+    severity: 'info' | 'warning' | 'critical';
+    actionUrl?: string | null;
+    /** Label/value rows shown below the message, e.g. metric values */
+    fields?: Array<{ label: string; value: string }> | null;
+  };
+  notification: {
+    companyName: string | null;
+    title: string;
+    message: string;
+    actionUrl?: string | null;
+    preferencesUrl: string;
+  };
+  notification_digest: {
+    frequency: 'daily' | 'weekly';
+    companies: Array<{
+      companyName: string;
+      notifications: Array<{ title: string; message: string; createdAt: Date; actionUrl?: string | null }>;
+    }>;
+    preferencesUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Map a locale hint (route segment, user preference or Accept-Language) to a supported locale
+ */
+export function resolveEmailLocale(value?: string | null): EmailLocale {
+  const tag = value?.split(',')[0]?.split(/[-_;]/)[0]?.trim().toLowerCase();
+  // Czech is "cz" in our routes but "cs" in browsers
+  const normalized = tag === 'cs' ? 'cz' : tag;
+  return (routing.locales as readonly string[]).includes(normalized ?? '')
+    ? normalized as EmailLocale
+    : routing.defaultLocale;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: Date, locale: EmailLocale): string {
+  return date.toLocaleString(locale === 'cz' ? 'cs-CZ' : 'en-GB', { dateStyle: 'long', timeStyle: 'short' });
+}
+
+function layout(body: string, footer: string): string {
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      ${body}
+      <p style="color: #666; font-size: 12px;">${footer}</p>
+    </div>
+  `;
+}
+
+function button(url: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${escapeHtml(url)}"
+         style="background-color: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+        ${escapeHtml(label)}
+      </a>
+    </div>
+  `;
+}
+
+function quote(label: string, message: string): string {
+  return `
+    <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+      <p><strong>${escapeHtml(label)}</strong></p>
+      <p style="font-style: italic;">"${escapeHtml(message)}"</p>
+    </div>
+  `;
+}
+
+const invitationCopy = {
+  en: {
+    subject: (d: EmailTemplateData['company_invitation']) => `Invitation to join ${d.companyName}`,
+    reminderSubject: (d: EmailTemplateData['company_invitation']) => `Reminder: your invitation to join ${d.companyName}`,
+    heading: (d: EmailTemplateData['company_invitation']) => `You're invited to join ${d.companyName}!`,
+    reminder: 'This is a reminder that your invitation is still waiting for you.',
+    greeting: 'Hi there!',
+    intro: (inviter: string, company: string, role: string) => `${inviter} has invited you to join ${company} as a ${role}.`,
+    personalMessage: 'Personal message:',
+    accept: 'Accept Invitation',
+    expiry: (date: string) => `This invitation expires on ${date}. If you don't have an account yet, you'll need to register first.`,
+    footer: "If you didn't expect this email, you can safely ignore it.",
+  },
+  cz: {
+    subject: (d: EmailTemplateData['company_invitation']) => `Pozvánka do společnosti ${d.companyName}`,
+    reminderSubject: (d: EmailTemplateData['company_invitation']) => `Připomínka: pozvánka do společnosti ${d.companyName}`,
+    heading: (d: EmailTemplateData['company_invitation']) => `Byli jste pozváni do společnosti ${d.companyName}!`,
+    reminder: 'Připomínáme, že na vás pozvánka stále čeká.',
+    greeting: 'Dobrý den,',
+    intro: (inviter: string, company: string, role: string) => `${inviter} vás zve do společnosti ${company} s rolí ${role}.`,
+    personalMessage: 'Osobní zpráva:',
+    accept: 'Přijmout pozvánku',
+    expiry: (date: string) => `Pozvánka vyprší ${date}. Pokud ještě nemáte účet, musíte se nejprve zaregistrovat.`,
+    footer: 'Pokud jste tento e-mail nečekali, můžete jej ignorovat.',
+  },
+};
+
+function renderInvitation(data: EmailTemplateData['company_invitation'], locale: EmailLocale, reminder: boolean): RenderedEmail {
+  const copy = invitationCopy[locale];
+  const expiry = copy.expiry(formatDate(data.expiresAt, locale));
+
+  const html = layout(`
+    <h2>${escapeHtml(copy.heading(data))}</h2>
+    ${reminder ? `<p>${escapeHtml(copy.reminder)}</p>` : ''}
+    <p>${escapeHtml(copy.greeting)}</p>
+    <p>${escapeHtml(copy.intro(data.inviterEmail, data.companyName, data.role))}</p>
+    ${data.message ? quote(copy.personalMessage, data.message) : ''}
+    ${button(data.acceptUrl, copy.accept)}
+    <p style="color: #666; font-size: 14px;">${escapeHtml(expiry)}</p>
+  `, escapeHtml(copy.footer));
+
+  const text = [
+    copy.heading(data),
+    ...(reminder ? ['', copy.reminder] : []),
+    '',
+    copy.greeting,
+    '',
+    copy.intro(data.inviterEmail, data.companyName, data.role),
+    ...(data.message ? ['', copy.personalMessage, `"${data.message}"`] : []),
+    '',
+    `${copy.accept}: ${data.acceptUrl}`,
+    '',
+    expiry,
+    '',
+    copy.footer,
+  ].join('\n');
+
+  return { subject: reminder ? copy.reminderSubject(data) : copy.subject(data), html, text };
+}
+
+const passwordResetCopy = {
+  en: {
+    subject: 'Reset your password',
+    intro: 'We received a request to reset the password for your Metrics Hub account.',
+    action: 'Reset Password',
+    expiry: 'The link can be used once and expires in one hour.',
+    footer: "If you didn't ask to reset your password, you can ignore this email; your password will not change.",
+  },
+  cz: {
+    subject: 'Obnovení hesla',
+    intro: 'Obdrželi jsme žádost o obnovení hesla k vašemu účtu Metrics Hub.',
+    action: 'Obnovit heslo',
+    expiry: 'Odkaz lze použít jednou a platí jednu hodinu.',
+    footer: 'Pokud jste o obnovení hesla nežádali, tento e-mail ignorujte; vaše heslo se nezmění.',
+  },
+};
+
+const passwordChangedCopy = {
+  en: {
+    subject: 'Your password was changed',
+    intro: (email: string, date: string) => `The password for ${email} was changed on ${date}.`,
+    ip: (ip: string) => `Request made from IP address ${ip}.`,
+    warning: "If you didn't make this change, reset your password immediately and contact your company owner.",
+  },
+  cz: {
+    subject: 'Vaše heslo bylo změněno',
+    intro: (email: string, date: string) => `Heslo k účtu ${email} bylo změněno ${date}.`,
+    ip: (ip: string) => `Požadavek přišel z IP adresy ${ip}.`,
+    warning: 'Pokud jste heslo neměnili, ihned si jej obnovte a kontaktujte vlastníka společnosti.',
+  },
+};
+
+const integrationCopy = {
+  en: {
+    subject: (d: EmailTemplateData['integration_notification']) => `[${d.integrationName}] ${d.title}`,
+    intro: (d: EmailTemplateData['integration_notification']) => `${d.integrationName} reported the following for ${d.companyName}:`,
+    severity: { info: 'Info', warning: 'Warning', critical: 'Critical' },
+    action: 'Open in Metrics Hub',
+    footer: 'You receive this email because notifications are enabled for this integration.',
+  },
+  cz: {
+    subject: (d: EmailTemplateData['integration_notification']) => `[${d.integrationName}] ${d.title}`,
+    intro: (d: EmailTemplateData['integration_notification']) => `${d.integrationName} hlásí pro společnost ${d.companyName}:`,
+    severity: { info: 'Informace', warning: 'Varování', critical: 'Kritické' },
+    action: 'Otevřít v Metrics Hub',
+    footer: 'Tento e-mail dostáváte, protože máte u této integrace zapnuté notifikace.',
+  },
+};
+
+const notificationCopy = {
+  en: {
+    subject: (d: EmailTemplateData['notification']) => d.companyName ? `[${d.companyName}] ${d.title}` : d.title,
+    action: 'Open in Metrics Hub',
+    footer: 'You receive this email because email notifications are enabled for this notification type.',
+    preferences: 'Notification preferences',
+  },
+  cz: {
+    subject: (d: EmailTemplateData['notification']) => d.companyName ? `[${d.companyName}] ${d.title}` : d.title,
+    action: 'Otevřít v Metrics Hub',
+    footer: 'Tento e-mail dostáváte, protože máte pro tento typ notifikací zapnuté e-maily.',
+    preferences: 'Nastavení notifikací',
+  },
+};
+
+const digestCopy = {
+  en: {
+    subject: (d: EmailTemplateData['notification_digest'], count: number) =>
+      `Your ${d.frequency} Metrics Hub digest: ${count} notification${count === 1 ? '' : 's'}`,
+    intro: (d: EmailTemplateData['notification_digest']) =>
+      `Here is what happened ${d.frequency === 'daily' ? 'in the last day' : 'in the last week'}:`,
+    open: 'Open',
+    footer: 'You receive this digest because you included these notification types in it.',
+    preferences: 'Notification preferences',
+  },
+  cz: {
+    subject: (d: EmailTemplateData['notification_digest'], count: number) =>
+      `${d.frequency === 'daily' ? 'Denní' : 'Týdenní'} přehled Metrics Hub: ${count} notifikací`,
+    intro: (d: EmailTemplateData['notification_digest']) =>
+      `Co se stalo ${d.frequency === 'daily' ? 'za poslední den' : 'za poslední týden'}:`,
+    open: 'Otevřít',
+    footer: 'Tento přehled dostáváte, protože jste do něj zahrnuli tyto typy notifikací.',
+    preferences: 'Nastavení notifikací',
+  },
+};
+
+const SEVERITY_COLORS = { info: '#3b82f6', warning: '#f59e0b', critical: '#dc2626' };
+
+type Renderers = { [K in EmailTemplateName]: (data: EmailTemplateData[K], locale: EmailLocale) => RenderedEmail };
+
+const renderers: Renderers = {
+  company_invitation: (data, locale) => renderInvitation(data, locale, false),
+
+  invitation_reminder: (data, locale) => renderInvitation(data, locale, true),
+
+  password_reset: (data, locale) => {
+    const copy = passwordResetCopy[locale];
+    return {
+      subject: copy.subject,
+      html: layout(`
+        <h2>${escapeHtml(copy.subject)}</h2>
+        <p>${escapeHtml(copy.intro)}</p>
+        ${button(data.resetUrl, copy.action)}
+        <p style="color: #666; font-size: 14px;">${escapeHtml(copy.expiry)}</p>
+      `, escapeHtml(copy.footer)),
+      text: [copy.subject, '', copy.intro, '', `${copy.action}: ${data.resetUrl}`, '', copy.expiry, '', copy.footer].join('\n'),
+    };
+  },
+
+  password_changed: (data, locale) => {
+    const copy = passwordChangedCopy[locale];
+    const intro = copy.intro(data.email, formatDate(data.changedAt, locale));
+    return {
+      subject: copy.subject,
+      html: layout(`
+        <h2>${escapeHtml(copy.subject)}</h2>
+        <p>${escapeHtml(intro)}</p>
+        ${data.ipAddress ? `<p>${escapeHtml(copy.ip(data.ipAddress))}</p>` : ''}
+      `, escapeHtml(copy.warning)),
+      text: [copy.subject, '', intro, ...(data.ipAddress ? [copy.ip(data.ipAddress)] : []), '', copy.warning].join('\n'),
+    };
+  },
+
+  integration_notification: (data, locale) => {
+    const copy = integrationCopy[locale];
+    const severity = copy.severity[data.severity];
+    return {
+      subject: copy.subject(data),
+      html: layout(`
+        <p>${escapeHtml(copy.intro(data))}</p>
+        <div style="border-left: 4px solid ${SEVERITY_COLORS[data.severity]}; padding: 10px 15px; margin: 20px 0;">
+          <p style="margin: 0 0 5px; font-size: 12px; text-transform: uppercase; color: ${SEVERITY_COLORS[data.severity]};">${escapeHtml(severity)}</p>
+          <h3 style="margin: 0 0 10px;">${escapeHtml(data.title)}</h3>
+          <p style="margin: 0; white-space: pre-line;">${escapeHtml(data.message)}</p>
+        </div>
+        ${data.fields?.length ? `
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0; font-size: 14px;">
+          ${data.fields.map(field => `
+          <tr>
+            <td style="padding: 6px 10px; border-bottom: 1px solid #eee; color: #666;">${escapeHtml(field.label)}</td>
+            <td style="padding: 6px 10px; border-bottom: 1px solid #eee;">${escapeHtml(field.value)}</td>
+          </tr>`).join('')}
+        </table>` : ''}
+        ${data.actionUrl ? button(data.actionUrl, copy.action) : ''}
+      `, escapeHtml(copy.footer)),
+      text: [
+        copy.intro(data),
+        '',
+        `[${severity}] ${data.title}`,
+        data.message,
+        ...(data.fields?.length ? ['', ...data.fields.map(field => `${field.label}: ${field.value}`)] : []),
+        ...(data.actionUrl ? ['', `${copy.action}: ${data.actionUrl}`] : []),
+        '',
+        copy.footer,
+      ].join('\n'),
+    };
+  },
+
+  notification: (data, locale) => {
+    const copy = notificationCopy[locale];
+    return {
+      subject: copy.subject(data),
+      html: layout(`
+        <h2>${escapeHtml(data.title)}</h2>
+        <p style="white-space: pre-line;">${escapeHtml(data.message)}</p>
+        ${data.actionUrl ? button(data.actionUrl, copy.action) : ''}
+      `, `${escapeHtml(copy.footer)} <a href="${escapeHtml(data.preferencesUrl)}">${escapeHtml(copy.preferences)}</a>`),
+      text: [
+        data.title,
+        '',
+        data.message,
+        ...(data.actionUrl ? ['', `${copy.action}: ${data.actionUrl}`] : []),
+        '',
+        copy.footer,
+        `${copy.preferences}: ${data.preferencesUrl}`,
+      ].join('\n'),
+    };
+  },
+
+  notification_digest: (data, locale) => {
+    const copy = digestCopy[locale];
+    const count = data.companies.reduce((sum, company) => sum + company.notifications.length, 0);
+    return {
+      subject: copy.subject(data, count),
+      html: layout(`
+        <p>${escapeHtml(copy.intro(data))}</p>
+        ${data.companies.map(company => `
+        <h3 style="margin: 25px 0 10px;">${escapeHtml(company.companyName)}</h3>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          ${company.notifications.map(notification => `
+          <tr>
+            <td style="padding: 8px 10px; border-bottom: 1px solid #eee; vertical-align: top;">
+              <strong>${escapeHtml(notification.title)}</strong><br>
+              <span style="color: #444;">${escapeHtml(notification.message)}</span><br>
+              <span style="color: #888; font-size: 12px;">${escapeHtml(formatDate(notification.createdAt, locale))}</span>
+            </td>
+            <td style="padding: 8px 10px; border-bottom: 1px solid #eee; vertical-align: top; text-align: right;">
+              ${notification.actionUrl ? `<a href="${escapeHtml(notification.actionUrl)}">${escapeHtml(copy.open)}</a>` : ''}
+            </td>
+          </tr>`).join('')}
+        </table>`).join('')}
+      `, `${escapeHtml(copy.footer)} <a href="${escapeHtml(data.preferencesUrl)}">${escapeHtml(copy.preferences)}</a>`),
+      text: [
+        copy.intro(data),
+        ...data.companies.flatMap(company => [
+          '',
+          company.companyName,
+          ...company.notifications.map(notification =>
+            `- ${notification.title} (${formatDate(notification.createdAt, locale)})\n  ${notification.message}${notification.actionUrl ? `\n  ${notification.actionUrl}` : ''}`
+          ),
+        ]),
+        '',
+        copy.footer,
+        `${copy.preferences}: ${data.preferencesUrl}`,
+      ].join('\n'),
+    };
+  },
+};
+
+/**
+ * Render a template in the given locale
+ */
+export function renderEmailTemplate<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T],
+  locale: EmailLocale
+): RenderedEmail {
+  return (renderers[template] as (data: EmailTemplateData[T], locale: EmailLocale) => RenderedEmail)(data, locale);
+}
@@ -0,0 +1,157 @@
+/**
+ * Email transports
+ * A transport delivers one rendered message. Resend and SMTP send real mail; the file and
+ * memory transports capture messages locally for development and tests.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<{ messageId: string | null }>;
+}
+
+export type EmailTransportName = 'resend' | 'smtp' | 'file' | 'memory';
+
+export class ResendTransport implements EmailTransport {
+  readonly name = 'resend' as const;
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: EmailMessage) {
+    const { data, error } = await this.client.emails.send({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      ...(message.replyTo && { replyTo: message.replyTo }),
+    });
+
+    if (error) {
+      throw new Error(`Resend rejected the message: ${error.message}`);
+    }
+
+    return { messageId: data?.id ?? null };
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+    });
+  }
+
+  async send(message: EmailMessage) {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId ?? null };
+  }
+}
+
+/**
+ * Writes every message to a directory as JSON plus an HTML preview
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage) {
+    const messageId = randomUUID();
+    const basename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}`;
+
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path.join(this.directory, `${basename}.json`), JSON.stringify(message, null, 2));
+    await writeFile(path.join(this.directory, `${basename}.html`), message.html);
+
+    return { messageId };
+  }
+}
+
+/**
+ * Keeps messages in process memory; read them with getMessages()
+ */
+export class MemoryTransport implements EmailTransport {
+  readonly name = 'memory' as const;
+  private messages: (EmailMessage & { messageId: string })[] = [];
+
+  async send(message: EmailMessage) {
+    const messageId = randomUUID();
+    this.messages.push({ ...message, messageId });
+    return { messageId };
+  }
+
+  getMessages() {
+    return [...this.messages];
+  }
+
+  clear() {
+    this.messages = [];
+  }
+}
+
+/**
+ * Pick the transport from EMAIL_TRANSPORT, falling back to Resend when RESEND_API_KEY is
+ * set and, outside production, to the file transport otherwise
+ *
+ * @throws Error when production has neither set, so mail is not silently kept on the server
+ */
+export function createTransportFromEnv(): EmailTransport {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined;
+  if (!configured && !process.env.RESEND_API_KEY && process.env.NODE_ENV === 'production') {
+    throw new Error('No email transport is configured: set EMAIL_TRANSPORT or RESEND_API_KEY');
+  }
+  const name = configured || (process.env.RESEND_API_KEY ? 'resend' : 'file');
+
+  switch (name) {
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY environment variable is required for the resend email transport');
+      }
+      return new ResendTransport(process.env.RESEND_API_KEY);
+
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST environment variable is required for the smtp email transport');
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASSWORD,
+      });
+
+    case 'file':
+      return new FileTransport(process.env.EMAIL_CAPTURE_DIR || path.join(process.cwd(), '.emails'));
+
+    case 'memory':
+      return new MemoryTransport();
+
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${name}`);
+  }
+}
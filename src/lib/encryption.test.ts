@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const KEY_1 = '11'.repeat(32);
+const KEY_2 = '22'.repeat(32);
+
+// The service is a singleton that reads the key ring once, so each ring gets a fresh module
+async function loadEncryption(ring: string) {
+  vi.resetModules();
+  vi.stubEnv('MASTER_ENCRYPTION_KEYS', ring);
+  vi.stubEnv('MASTER_ENCRYPTION_KEY', '');
+  return import('./encryption');
+}
+
+// The pre-v2 format written by createCipher, which ignores the stored IV
+function encryptV1(masterKeyHex: string, keyVersion: number, companyId: string, plaintext: string): string {
+  const companyKey = crypto.pbkdf2Sync(
+    Buffer.from(masterKeyHex, 'hex'), `company:${companyId}:v${keyVersion}`, 100000, 32, 'sha512'
+  );
+  const cipher = crypto.createCipher('aes-256-gcm', companyKey) as crypto.CipherGCM;
+  cipher.setAAD(Buffer.from(`company:${companyId}`));
+  const ciphertext = cipher.update(plaintext, 'utf8', 'hex') + cipher.final('hex');
+  return [keyVersion, crypto.randomBytes(16).toString('hex'), cipher.getAuthTag().toString('hex'), ciphertext].join(':');
+}
+
+describe('encryption key ring', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('encrypts with the newest key in the v2 format', async () => {
+    const { getEncryptionService } = await loadEncryption(`1:${KEY_1},2:${KEY_2}`);
+    const service = getEncryptionService();
+    const value = await service.encryptSecret('company-1', 'secret');
+
+    expect(value).toMatch(/^v2:2:[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]+$/);
+    expect(service.getKeyVersion(value)).toBe(2);
+    expect(service.needsReencryption(value)).toBe(false);
+    await expect(service.decryptSecret('company-1', value)).resolves.toBe('secret');
+  });
+
+  it('uses a fresh IV for every value', async () => {
+    const { getEncryptionService } = await loadEncryption(`1:${KEY_1}`);
+    const service = getEncryptionService();
+    const first = await service.encryptSecret('company-1', 'secret');
+    const second = await service.encryptSecret('company-1', 'secret');
+
+    expect(first.split(':')[2]).not.toBe(second.split(':')[2]);
+  });
+
+  it('decrypts values written under an older key once a new key is added', async () => {
+    const before = await loadEncryption(`1:${KEY_1}`);
+    const value = await before.getEncryptionService().encryptSecret('company-1', 'secret');
+
+    const after = await loadEncryption(`1:${KEY_1},2:${KEY_2}`);
+    const service = after.getEncryptionService();
+
+    expect(service.getKeyVersion(value)).toBe(1);
+    expect(service.needsReencryption(value)).toBe(true);
+    await expect(service.decryptSecret('company-1', value)).resolves.toBe('secret');
+  });
+
+  it('fails when the key version of a value is no longer loaded', async () => {
+    const before = await loadEncryption(`1:${KEY_1}`);
+    const value = await before.getEncryptionService().encryptSecret('company-1', 'secret');
+
+    const after = await loadEncryption(`2:${KEY_2}`);
+    await expect(after.getEncryptionService().decryptSecret('company-1', value)).rejects.toThrow('Failed to decrypt secret');
+  });
+
+  it('does not decrypt a value for another company', async () => {
+    const { getEncryptionService } = await loadEncryption(`1:${KEY_1}`);
+    const service = getEncryptionService();
+    const value = await service.encryptSecret('company-1', 'secret');
+
+    await expect(service.decryptSecret('company-2', value)).rejects.toThrow('Failed to decrypt secret');
+  });
+
+  it.skipIf(typeof crypto.createCipher !== 'function')('reads v1 values and marks them for re-encryption', async () => {
+    const { getEncryptionService } = await loadEncryption(`1:${KEY_1},2:${KEY_2}`);
+    const service = getEncryptionService();
+    const value = encryptV1(KEY_1, 1, 'company-1', 'legacy secret');
+
+    expect(service.isEncrypted(value)).toBe(true);
+    expect(service.getKeyVersion(value)).toBe(1);
+    expect(service.needsReencryption(value)).toBe(true);
+    await expect(service.decryptSecret('company-1', value)).resolves.toBe('legacy secret');
+  });
+
+  it('rejects rings with malformed or duplicate entries', async () => {
+    const malformed = await loadEncryption(`1:${KEY_1},2:abc`);
+    expect(() => malformed.getEncryptionService()).toThrow('Master key v2 must be 64 hex characters');
+
+    const duplicate = await loadEncryption(`1:${KEY_1},1:${KEY_2}`);
+    expect(() => duplicate.getEncryptionService()).toThrow('contains version 1 twice');
+  });
+
+  it('falls back to the ENCRYPTION_KEY format for values without a key version', async () => {
+    const { decryptCompanySecret, encrypt } = await loadEncryption(`1:${KEY_1}`);
+    vi.stubEnv('ENCRYPTION_KEY', 'legacy-key');
+
+    await expect(decryptCompanySecret('company-1', encrypt('old secret'))).resolves.toBe('old secret');
+  });
+});
@@ -1,48 +1,124 @@
 import crypto from 'crypto';
 
 /**
- * Company-specific encryption service compatible with executor-server decryption
+ * Master key ring
+ * MASTER_ENCRYPTION_KEYS holds every master key that may still be needed to decrypt,
+ * as comma separated `version:hex` pairs (e.g. "1:ab12...,2:cd34..."). New values are
+ * always encrypted with the newest version. When the ring is not set, the single
+ * MASTER_ENCRYPTION_KEY is loaded as version KEY_VERSION.
+ */
+function parseMasterKey(hex: string, version: number): Buffer {
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error(`Master key v${version} must be 64 hex characters (256 bits)`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function loadKeyRing(): Map<number, Buffer> {
+  const keys = new Map<number, Buffer>();
+  const ring = process.env.MASTER_ENCRYPTION_KEYS;
+
+  if (ring) {
+    for (const entry of ring.split(',').map(e => e.trim()).filter(Boolean)) {
+      const [versionPart, hex] = entry.split(':');
+      const version = parseInt(versionPart || '');
+      if (isNaN(version) || version < 1 || !hex) {
+        throw new Error('MASTER_ENCRYPTION_KEYS entries must look like "<version>:<64 hex chars>"');
+      }
+      if (keys.has(version)) {
+        throw new Error(`MASTER_ENCRYPTION_KEYS contains version ${version} twice`);
+      }
+      keys.set(version, parseMasterKey(hex, version));
+    }
+  }
+
+  const masterKeyHex = process.env.MASTER_ENCRYPTION_KEY;
+  if (masterKeyHex) {
+    const version = parseInt(process.env.KEY_VERSION || '1');
+    if (!keys.has(version)) {
+      keys.set(version, parseMasterKey(masterKeyHex, version));
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Stored secret formats
+ * - v2 (written): `v2:<keyVersion>:<iv>:<authTag>:<ciphertext>`, AES-256-GCM with the
+ *   stored random IV (createCipheriv) and AAD `company:<companyId>`.
+ * - v1 (read only): `<keyVersion>:<iv>:<authTag>:<ciphertext>`, written by the former
+ *   createCipher call. That call derives the IV from the key and ignores the stored one, so
+ *   every value of a company reused one GCM nonce. Key rotation rewrites v1 values as v2.
+ * The executor-server must decrypt v2 the same way (see docs/ARCHITECTURE.md).
+ */
+const FORMAT_V2_PREFIX = 'v2';
+
+type SecretFormat = 'v1' | 'v2';
+
+interface ParsedSecret {
+  format: SecretFormat;
+  keyVersion: number;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+function parseSecret(value: string): ParsedSecret | null {
+  if (!value || typeof value !== 'string') return null;
+
+  const parts = value.split(':');
+  const format: SecretFormat = parts[0] === FORMAT_V2_PREFIX ? 'v2' : 'v1';
+  const [versionPart, iv, authTag, ciphertext] = format === 'v2' ? parts.slice(1) : parts;
+  const valid = parts.length === (format === 'v2' ? 5 : 4) &&
+    /^\d{1,6}$/.test(versionPart || '') && // legacy ENCRYPTION_KEY values start with a 24-char IV
+    /^[0-9a-f]{32}$/i.test(iv || '') &&
+    /^[0-9a-f]{32}$/i.test(authTag || '') &&
+    /^[0-9a-f]+$/i.test(ciphertext || '');
+
+  return valid
+    ? { format, keyVersion: parseInt(versionPart!), iv: iv!, authTag: authTag!, ciphertext: ciphertext! }
+    : null;
+}
+
+/**
+ * Company-specific encryption service
  * Uses PBKDF2 key derivation for multi-tenant security
  */
 class EncryptionService {
-  private masterKey: Buffer;
+  private keys: Map<number, Buffer>;
   private keyVersion: number;
   
   constructor() {
-    // Skip initialization during build time
-    if (typeof window !== 'undefined' || process.env.NODE_ENV === 'production') {
-      const masterKeyHex = process.env.MASTER_ENCRYPTION_KEY;
-      this.keyVersion = parseInt(process.env.KEY_VERSION || '1');
-      
-      if (!masterKeyHex) {
-        throw new Error('MASTER_ENCRYPTION_KEY environment variable is required');
-      }
-      
-      if (masterKeyHex.length !== 64) {
-        throw new Error('MASTER_ENCRYPTION_KEY must be 64 hex characters (256 bits)');
-      }
-      
-      try {
-        this.masterKey = Buffer.from(masterKeyHex, 'hex');
-      } catch (error) {
-        throw new Error('MASTER_ENCRYPTION_KEY must be valid hexadecimal');
+    this.keys = loadKeyRing();
+
+    if (this.keys.size === 0) {
+      // Skip initialization during build time
+      if (typeof window !== 'undefined' || process.env.NODE_ENV === 'production') {
+        throw new Error('MASTER_ENCRYPTION_KEY or MASTER_ENCRYPTION_KEYS environment variable is required');
       }
-    } else {
+
       // Build-time placeholder values
-      this.masterKey = Buffer.alloc(32);
-      this.keyVersion = 1;
+      this.keys.set(1, Buffer.alloc(32));
     }
+
+    this.keyVersion = Math.max(...Array.from(this.keys.keys()));
   }
 
   /**
    * Derive company-specific encryption key using PBKDF2
    * This ensures each company's data can only be decrypted with their specific key
    */
-  private deriveCompanyKey(companyId: string): Buffer {
-    const salt = `company:${companyId}:v${this.keyVersion}`;
+  private deriveCompanyKey(companyId: string, keyVersion: number = this.keyVersion): Buffer {
+    const masterKey = this.keys.get(keyVersion);
+    if (!masterKey) {
+      throw new Error(`Master key version ${keyVersion} is not loaded`);
+    }
+
+    const salt = `company:${companyId}:v${keyVersion}`;
     
     return crypto.pbkdf2Sync(
-      this.masterKey,
+      masterKey,
       salt,
       100000, // iterations - high for security
       32,     // key length (256 bits)
@@ -52,7 +128,7 @@ class EncryptionService {
 
   /**
    * Encrypt secret value for a specific company
-   * Output format: version:iv:authTag:encrypted (compatible with executor-server)
+   * Output format: v2:version:iv:authTag:encrypted
    */
   async encryptSecret(companyId: string, plaintext: string): Promise<string> {
     if (!companyId || !plaintext) {
@@ -63,7 +139,7 @@ class EncryptionService {
       const companyKey = this.deriveCompanyKey(companyId);
       const iv = crypto.randomBytes(16); // 128-bit IV for GCM
       
-      const cipher = crypto.createCipher('aes-256-gcm', companyKey);
+      const cipher = crypto.createCipheriv('aes-256-gcm', companyKey, iv);
       
       // Additional Authenticated Data (AAD) for extra security
       const aad = Buffer.from(`company:${companyId}`);
@@ -74,8 +150,9 @@ class EncryptionService {
       
       const authTag = cipher.getAuthTag();
       
-      // Format: version:iv:authTag:encrypted
+      // Format: v2:version:iv:authTag:encrypted
       const result = [
+        FORMAT_V2_PREFIX,
         this.keyVersion.toString(),
         iv.toString('hex'),
         authTag.toString('hex'),
@@ -90,21 +167,63 @@ class EncryptionService {
     }
   }
 
+  /**
+   * Decrypt a secret value for a specific company
+   * The master key is chosen by the version prefix, so values written under an
+   * older key stay readable until they are re-encrypted. v1 values need
+   * crypto.createDecipher, which Node 22 removed.
+   */
+  async decryptSecret(companyId: string, value: string): Promise<string> {
+    const secret = parseSecret(value);
+    if (!secret) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    const { keyVersion } = secret;
+
+    try {
+      const companyKey = this.deriveCompanyKey(companyId, keyVersion);
+      const decipher = secret.format === 'v2'
+        ? crypto.createDecipheriv('aes-256-gcm', companyKey, Buffer.from(secret.iv, 'hex'))
+        : crypto.createDecipher('aes-256-gcm', companyKey);
+      decipher.setAAD(Buffer.from(`company:${companyId}`));
+      decipher.setAuthTag(Buffer.from(secret.authTag, 'hex'));
+
+      let decrypted = decipher.update(secret.ciphertext, 'hex', 'utf8');
+      decrypted += decipher.final('utf8');
+
+      return decrypted;
+    } catch (error) {
+      console.error('Decryption failed:', { companyId, keyVersion, error: error instanceof Error ? error.message : error });
+      throw new Error('Failed to decrypt secret');
+    }
+  }
+
   getCurrentKeyVersion(): number {
     return this.keyVersion;
   }
 
+  getLoadedKeyVersions(): number[] {
+    return Array.from(this.keys.keys()).sort((a, b) => a - b);
+  }
+
+  /**
+   * Key version of an encrypted value, or null for legacy (ENCRYPTION_KEY) values
+   */
+  getKeyVersion(value: string): number | null {
+    return parseSecret(value)?.keyVersion ?? null;
+  }
+
+  /**
+   * Whether a stored value is not yet encrypted with the newest master key in the v2 format
+   */
+  needsReencryption(value: string): boolean {
+    const secret = parseSecret(value);
+    return secret?.format !== 'v2' || secret.keyVersion !== this.keyVersion;
+  }
+
   isEncrypted(value: string): boolean {
-    if (!value || typeof value !== 'string') {
-      return false;
-    }
-    
-    const parts = value.split(':');
-    return parts.length === 4 && 
-           !isNaN(parseInt(parts[0] || '')) && 
-           /^[0-9a-f]{32}$/i.test(parts[1] || '') && 
-           /^[0-9a-f]{32}$/i.test(parts[2] || '') && 
-           /^[0-9a-f]+$/i.test(parts[3] || '');
+    return parseSecret(value) !== null;
   }
 }
 
@@ -165,21 +284,27 @@ export function decrypt(encryptedData: string): string {
   return decrypted;
 }
 
-export function encryptOAuthTokens(tokens: {
-  access_token: string;
-  refresh_token?: string;
-  expires_at?: number;
-  scope?: string;
-}): string {
-  return encrypt(JSON.stringify(tokens));
+/**
+ * Decrypt a stored company secret in either the versioned master key format or
+ * the legacy ENCRYPTION_KEY format
+ */
+export async function decryptCompanySecret(companyId: string, value: string): Promise<string> {
+  const service = getEncryptionService();
+  return service.isEncrypted(value) ? service.decryptSecret(companyId, value) : decrypt(value);
 }
 
-export function decryptOAuthTokens(encryptedData: string): {
+export interface OAuthTokenPayload {
   access_token: string;
   refresh_token?: string;
   expires_at?: number;
   scope?: string;
-} {
-  const decryptedString = decrypt(encryptedData);
+}
+
+export async function encryptOAuthTokens(companyId: string, tokens: OAuthTokenPayload): Promise<string> {
+  return getEncryptionService().encryptSecret(companyId, JSON.stringify(tokens));
+}
+
+export async function decryptOAuthTokens(companyId: string, encryptedData: string): Promise<OAuthTokenPayload> {
+  const decryptedString = await decryptCompanySecret(companyId, encryptedData);
   return JSON.parse(decryptedString);
-}
\ No newline at end of file
+}
@@ -0,0 +1,248 @@
+/**
+ * Execution runs
+ * Read side of execution_runs, the rows the executor server writes for every integration
+ * run. The trigger route only returns a BullMQ job id; the run is found again through
+ * bullmq_job_id once the executor picks the job up.
+ */
+
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+
+export const RUN_STATUSES = ['pending', 'running', 'success', 'failed', 'cancelled', 'timeout'] as const;
+export const RUN_TRIGGERS = ['manual', 'cron', 'webhook', 'user'] as const;
+
+export type RunStatus = typeof RUN_STATUSES[number];
+
+/** Runs in these states are still being written by the executor */
+export const ACTIVE_RUN_STATUSES: RunStatus[] = ['pending', 'running'];
+
+export const DEFAULT_RUNS_PAGE_SIZE = 25;
+export const MAX_RUNS_PAGE_SIZE = 100;
+
+/** Log lines returned with a run detail unless the caller asks for fewer */
+export const MAX_RUN_LOG_LINES = 1000;
+
+export interface ExecutionRunFilters {
+  appId?: string;
+  status?: string[];
+  triggeredBy?: string;
+  jobId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ExecutionRunSummary {
+  id: string;
+  app_id: string;
+  app_name: string;
+  run_type: string;
+  status: string;
+  success: boolean;
+  triggered_by: string | null;
+  user_id: string | null;
+  user_email: string | null;
+  bullmq_job_id: string | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  duration_ms: number | null;
+  error_message: string | null;
+  logs_summary: Prisma.JsonValue;
+}
+
+export interface ExecutionRunDetail extends ExecutionRunSummary {
+  executor_id: string | null;
+  execution_type: string | null;
+  error_details: string | null;
+  output_data: Prisma.JsonValue;
+  output_files: string[];
+  metadata: Prisma.JsonValue;
+  logs: ExecutionRunLog[];
+  logs_truncated: boolean;
+}
+
+export interface ExecutionRunLog {
+  id: string;
+  log_level: string;
+  log_source: string;
+  log_category: string | null;
+  message: string;
+  structured_data: Prisma.JsonValue;
+  logged_at: Date;
+  log_sequence: number | null;
+}
+
+export class ExecutionRunError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'EXECUTION_RUN_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ExecutionRunError';
+  }
+}
+
+const summarySelect = {
+  id: true,
+  app_id: true,
+  run_type: true,
+  status: true,
+  success: true,
+  triggered_by: true,
+  user_id: true,
+  bullmq_job_id: true,
+  started_at: true,
+  completed_at: true,
+  duration_ms: true,
+  error_message: true,
+  logs_summary: true,
+  applications: { select: { name: true } },
+  users: { select: { email: true } },
+} satisfies Prisma.execution_runsSelect;
+
+type SummaryRow = Prisma.execution_runsGetPayload<{ select: typeof summarySelect }>;
+
+function toSummary(row: SummaryRow): ExecutionRunSummary {
+  return {
+    id: row.id,
+    app_id: row.app_id,
+    app_name: row.applications.name,
+    run_type: row.run_type,
+    status: row.status,
+    success: row.success ?? false,
+    triggered_by: row.triggered_by,
+    user_id: row.user_id,
+    user_email: row.users?.email ?? null,
+    bullmq_job_id: row.bullmq_job_id,
+    started_at: row.started_at,
+    completed_at: row.completed_at,
+    duration_ms: row.duration_ms,
+    error_message: row.error_message,
+    logs_summary: row.logs_summary,
+  };
+}
+
+/**
+ * Validate query-string filters
+ *
+ * @throws ExecutionRunError on unknown statuses or triggers
+ */
+export function parseRunFilters(searchParams: URLSearchParams): ExecutionRunFilters {
+  const status = searchParams.get('status')?.split(',').map(s => s.trim()).filter(Boolean);
+  const invalidStatus = status?.find(s => !(RUN_STATUSES as readonly string[]).includes(s));
+  if (invalidStatus) {
+    throw new ExecutionRunError(`Unknown run status: ${invalidStatus}`, 'INVALID_STATUS', 400);
+  }
+
+  const triggeredBy = searchParams.get('triggeredBy') || undefined;
+  if (triggeredBy && !(RUN_TRIGGERS as readonly string[]).includes(triggeredBy)) {
+    throw new ExecutionRunError(`Unknown trigger: ${triggeredBy}`, 'INVALID_TRIGGER', 400);
+  }
+
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_RUNS_PAGE_SIZE), 10);
+  const offset = parseInt(searchParams.get('offset') || '0', 10);
+
+  return {
+    appId: searchParams.get('appId') || undefined,
+    status,
+    triggeredBy,
+    jobId: searchParams.get('jobId') || undefined,
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_RUNS_PAGE_SIZE) : DEFAULT_RUNS_PAGE_SIZE,
+    offset: Number.isFinite(offset) ? Math.max(offset, 0) : 0,
+  };
+}
+
+/**
+ * A page of the company's runs, newest first
+ */
+export async function listExecutionRuns(companyId: string, filters: ExecutionRunFilters = {}) {
+  const limit = filters.limit ?? DEFAULT_RUNS_PAGE_SIZE;
+  const offset = filters.offset ?? 0;
+
+  const where: Prisma.execution_runsWhereInput = {
+    company_id: companyId,
+    ...(filters.appId && { app_id: filters.appId }),
+    ...(filters.status?.length && { status: { in: filters.status } }),
+    ...(filters.triggeredBy && { triggered_by: filters.triggeredBy }),
+    ...(filters.jobId && { bullmq_job_id: filters.jobId }),
+  };
+
+  const [rows, total] = await Promise.all([
+    prisma.execution_runs.findMany({
+      where,
+      select: summarySelect,
+      orderBy: { started_at: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.execution_runs.count({ where }),
+  ]);
+
+  return {
+    runs: rows.map(toSummary),
+    pagination: {
+      limit,
+      offset,
+      total,
+      hasMore: offset + limit < total,
+    },
+  };
+}
+
+/**
+ * One run with its integration_logs in the order they were written
+ *
+ * @throws ExecutionRunError when the run does not belong to the company
+ */
+export async function getExecutionRun(
+  companyId: string,
+  runId: string,
+  logLimit: number = MAX_RUN_LOG_LINES
+): Promise<ExecutionRunDetail> {
+  const row = await prisma.execution_runs.findFirst({
+    where: { id: runId, company_id: companyId },
+    select: {
+      ...summarySelect,
+      executor_id: true,
+      execution_type: true,
+      error_details: true,
+      output_data: true,
+      output_files: true,
+      metadata: true,
+    },
+  });
+
+  if (!row) {
+    throw new ExecutionRunError('Run not found', 'RUN_NOT_FOUND', 404);
+  }
+
+  const take = Math.min(Math.max(logLimit, 0), MAX_RUN_LOG_LINES);
+  const logs = await prisma.integration_logs.findMany({
+    where: { execution_run_id: row.id, company_id: companyId },
+    select: {
+      id: true,
+      log_level: true,
+      log_source: true,
+      log_category: true,
+      message: true,
+      structured_data: true,
+      logged_at: true,
+      log_sequence: true,
+    },
+    orderBy: [{ logged_at: 'asc' }, { log_sequence: 'asc' }],
+    // One extra row tells us whether the list was cut off
+    take: take + 1,
+  });
+
+  return {
+    ...toSummary(row),
+    executor_id: row.executor_id,
+    execution_type: row.execution_type,
+    error_details: row.error_details,
+    output_data: row.output_data,
+    output_files: row.output_files,
+    metadata: row.metadata,
+    logs: logs.slice(0, take),
+    logs_truncated: logs.length > take,
+  };
+}
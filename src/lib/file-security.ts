@@ -257,46 +257,15 @@ export async function scanFileContent(file: File): Promise<void> {
 }
 
 /**
- * Rate limiting for file uploads (per user)
- */
-const uploadLimits = new Map<string, { count: number; resetTime: number }>();
-
-export function checkUploadRateLimit(
-  userId: string,
-  limit: number = 10,
-  windowMs: number = 60 * 60 * 1000 // 1 hour
-): void {
-  const now = Date.now();
-  const userLimit = uploadLimits.get(userId);
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    uploadLimits.set(userId, { count: 1, resetTime: now + windowMs });
-    return;
-  }
-  
-  if (userLimit.count >= limit) {
-    throw new FileValidationError(
-      'Upload rate limit exceeded. Please try again later.',
-      'RATE_LIMIT_EXCEEDED'
-    );
-  }
-  
-  userLimit.count++;
-}
-
-/**
- * Complete file upload validation pipeline
+ * Complete file upload validation pipeline. Runs in the browser too, so upload rate limits
+ * are enforced by the upload routes (the uploads policy in src/lib/rate-limit/limiter.ts).
  */
 export async function validateFileUpload(
   file: File,
-  userId: string,
   uploadType: 'logo' | 'avatar',
   logoType?: 'square' | 'rectangular'
 ): Promise<string> {
   try {
-    // Check rate limit
-    checkUploadRateLimit(userId);
-    
     // Validate based on upload type
     if (uploadType === 'logo' && logoType) {
       await validateLogo(file, logoType);
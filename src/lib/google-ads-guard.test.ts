@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { evaluateRule } from './google-ads-guard';
+
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+vi.mock('@/lib/oauth-tokens', () => ({}));
+vi.mock('@/lib/google-ads', () => ({}));
+vi.mock('@/lib/notification-channels/delivery', () => ({}));
+vi.mock('@/lib/notifications', () => ({}));
+vi.mock('@/lib/webhooks', () => ({}));
+
+// Mean 10, sample standard deviation sqrt(8)
+const baseline = [10, 12, 8, 10, 14, 6];
+
+describe('evaluateRule', () => {
+  it('measures the current daily mean in baseline standard deviations', () => {
+    const evaluation = evaluateRule('clicks', { enabled: true, condition: 'zscore', dropThreshold: 1 }, [7, 7], [], baseline);
+
+    expect(evaluation.zScore).toBe(-1.06);
+    expect(evaluation.fired).toBe(true);
+  });
+
+  it('fires a z-score rule only when the drop reaches the threshold', () => {
+    const rule = { enabled: true, condition: 'zscore' as const, dropThreshold: 1.5 };
+
+    expect(evaluateRule('clicks', rule, [7, 7], [], baseline).fired).toBe(false);
+    expect(evaluateRule('clicks', rule, [5, 5], [], baseline)).toMatchObject({ zScore: -1.77, fired: true });
+    // A rise is never a drop
+    expect(evaluateRule('clicks', rule, [20, 20], [], baseline)).toMatchObject({ zScore: 3.54, fired: false });
+  });
+
+  it('has no z-score for a flat or single-day baseline', () => {
+    const rule = { enabled: true, condition: 'zscore' as const, dropThreshold: 1 };
+
+    expect(evaluateRule('clicks', rule, [0], [], [5, 5, 5])).toMatchObject({ zScore: null, fired: false });
+    expect(evaluateRule('clicks', rule, [0], [], [5])).toMatchObject({ zScore: null, fired: false });
+    expect(evaluateRule('clicks', rule, [], [], baseline)).toMatchObject({ zScore: null, fired: false });
+  });
+
+  it('compares period totals for percent and absolute drops', () => {
+    const percent = evaluateRule('value', { enabled: true, dropThreshold: 25 }, [30, 30], [40, 40], baseline);
+    expect(percent).toMatchObject({ condition: 'percent_drop', currentValue: 60, baselineValue: 80, changePercent: -25, fired: true });
+
+    const absolute = evaluateRule('value', { enabled: true, condition: 'absolute_drop', dropThreshold: 25 }, [30, 30], [40, 40], baseline);
+    expect(absolute).toMatchObject({ condition: 'absolute_drop', fired: false });
+  });
+
+  it('does not fire a percent drop without a previous total', () => {
+    const evaluation = evaluateRule('value', { enabled: true, dropThreshold: 10 }, [5], [0], baseline);
+
+    expect(evaluation).toMatchObject({ changePercent: null, fired: false });
+  });
+});
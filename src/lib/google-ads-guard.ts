@@ -0,0 +1,587 @@
+/**
+ * Google Ads Guard rules engine
+ * Evaluates the guardMetrics rules a company configured on its Guard integration: account
+ * totals of the last guardPeriod days are compared with the baseline before them. A rule
+ * that fires opens a guard_alerts row, which stays open (and is updated) while the rule
+ * keeps firing and is resolved once the metric recovers.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { getGoogleOAuthTokens } from '@/lib/oauth-tokens';
+import { normalizeCustomerId, searchGoogleAdsStream } from '@/lib/google-ads';
+import { dispatchIntegrationNotification } from '@/lib/notification-channels/delivery';
+import { companyAdminIds, notifyUsers } from '@/lib/notifications';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const GUARD_METRICS = ['impressions', 'clicks', 'conversions', 'value', 'price'] as const;
+export const GUARD_CONDITIONS = ['percent_drop', 'absolute_drop', 'zscore'] as const;
+export const GUARD_PERIODS = ['7', '14', '30'] as const;
+export const GUARD_FREQUENCIES = {
+  '4h': 4 * HOUR_MS,
+  '8h': 8 * HOUR_MS,
+  '12h': 12 * HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '48h': 48 * HOUR_MS,
+} as const;
+
+export type GuardMetric = typeof GUARD_METRICS[number];
+export type GuardCondition = typeof GUARD_CONDITIONS[number];
+export type GuardPeriod = typeof GUARD_PERIODS[number];
+export type GuardFrequency = keyof typeof GUARD_FREQUENCIES;
+
+/** The z-score baseline spans this many periods before the current one */
+const ZSCORE_BASELINE_PERIODS = 4;
+
+export const MAX_ALERTS_PAGE_SIZE = 100;
+
+export interface GuardMetricRule {
+  enabled: boolean;
+  /** Percent for percent_drop, metric units for absolute_drop, standard deviations for zscore */
+  dropThreshold: number;
+  /** Rules saved before conditions existed are percentage drops */
+  condition?: GuardCondition;
+}
+
+/** The parts of company_applications.settings the engine reads */
+export interface GuardSettings {
+  accountSelection?: {
+    selectedAccountId?: string;
+    loginCustomerId?: string;
+  };
+  scriptConfig?: {
+    frequency?: GuardFrequency;
+  };
+  guardMetrics?: Partial<Record<GuardMetric, GuardMetricRule>>;
+  guardPeriod?: GuardPeriod;
+}
+
+export interface MetricEvaluation {
+  metric: GuardMetric;
+  condition: GuardCondition;
+  threshold: number;
+  currentValue: number;
+  baselineValue: number;
+  changePercent: number | null;
+  zScore: number | null;
+  fired: boolean;
+}
+
+export interface GuardEvaluationResult {
+  evaluationId: string;
+  periodStart: string;
+  periodEnd: string;
+  metrics: MetricEvaluation[];
+  openedAlertIds: string[];
+  resolvedAlertIds: string[];
+}
+
+export interface GuardEvaluationSummary {
+  evaluated: number;
+  skipped: number;
+  alertsOpened: number;
+  alertsResolved: number;
+  failures: Array<{ companyApplicationId: string; error: string }>;
+}
+
+export class GuardError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'GUARD_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'GuardError';
+  }
+}
+
+type DailyMetrics = Record<GuardMetric, number>;
+
+interface GoogleAdsDailyRow {
+  segments?: { date?: string };
+  metrics?: {
+    impressions?: string;
+    clicks?: string;
+    conversions?: number;
+    conversionsValue?: number;
+    costMicros?: string;
+  };
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function emptyMetrics(): DailyMetrics {
+  return { impressions: 0, clicks: 0, conversions: 0, value: 0, price: 0 };
+}
+
+/**
+ * Account-level daily totals between two dates (inclusive). Days without traffic are
+ * missing from Google's answer and come back as zeros.
+ */
+async function fetchDailyMetrics(
+  companyId: string,
+  customerId: string,
+  loginCustomerId: string | null,
+  from: string,
+  to: string
+): Promise<Map<string, DailyMetrics>> {
+  const tokens = await getGoogleOAuthTokens(companyId);
+  if (!tokens) {
+    throw new GuardError('Google Ads is not connected for this company', 'GOOGLE_NOT_CONNECTED', 409);
+  }
+
+  const query = `
+    SELECT
+      segments.date,
+      metrics.impressions,
+      metrics.clicks,
+      metrics.conversions,
+      metrics.conversions_value,
+      metrics.cost_micros
+    FROM customer
+    WHERE segments.date BETWEEN '${from}' AND '${to}'
+  `;
+
+  const { response } = await searchGoogleAdsStream(tokens.access_token, customerId, loginCustomerId, query, 'ADS-GUARD');
+  if (!response || !response.ok) {
+    const details = response ? (await response.text()).substring(0, 200) : 'All API versions failed';
+    throw new GuardError(`Google Ads API error: ${details}`, 'GOOGLE_ADS_ERROR', 502);
+  }
+
+  // searchStream answers with an array of result batches
+  const batches: Array<{ results?: GoogleAdsDailyRow[] }> = await response.json();
+
+  const days = new Map<string, DailyMetrics>();
+  for (let time = Date.parse(from); time <= Date.parse(to); time += DAY_MS) {
+    days.set(toDateString(time), emptyMetrics());
+  }
+
+  for (const row of batches.flatMap(batch => batch.results ?? [])) {
+    const day = row.segments?.date ? days.get(row.segments.date) : undefined;
+    if (!day || !row.metrics) continue;
+
+    day.impressions += parseInt(row.metrics.impressions || '0');
+    day.clicks += parseInt(row.metrics.clicks || '0');
+    day.conversions += Number(row.metrics.conversions || 0);
+    day.value += Number(row.metrics.conversionsValue || 0);
+    day.price += parseFloat(row.metrics.costMicros || '0') / 1000000;
+  }
+
+  return days;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Apply one rule to the current period's daily values
+ *
+ * percent_drop and absolute_drop compare the period total with the total of the period
+ * right before it. zscore compares the current daily mean with the mean and standard
+ * deviation of the daily values over the longer baseline.
+ */
+export function evaluateRule(
+  metric: GuardMetric,
+  rule: GuardMetricRule,
+  current: number[],
+  previous: number[],
+  baseline: number[]
+): MetricEvaluation {
+  const condition = rule.condition ?? 'percent_drop';
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const currentValue = sum(current);
+  const baselineValue = sum(previous);
+  const changePercent = baselineValue > 0 ? ((currentValue - baselineValue) / baselineValue) * 100 : null;
+
+  let zScore: number | null = null;
+  if (baseline.length > 1 && current.length > 0) {
+    const mean = sum(baseline) / baseline.length;
+    const variance = baseline.reduce((total, value) => total + (value - mean) ** 2, 0) / (baseline.length - 1);
+    const std = Math.sqrt(variance);
+    // A flat baseline has no spread to measure against
+    if (std > 0) zScore = (currentValue / current.length - mean) / std;
+  }
+
+  let fired = false;
+  switch (condition) {
+    case 'percent_drop':
+      fired = changePercent !== null && -changePercent >= rule.dropThreshold;
+      break;
+    case 'absolute_drop':
+      fired = baselineValue - currentValue >= rule.dropThreshold;
+      break;
+    case 'zscore':
+      fired = zScore !== null && -zScore >= rule.dropThreshold;
+      break;
+  }
+
+  return {
+    metric,
+    condition,
+    threshold: rule.dropThreshold,
+    currentValue: round(currentValue),
+    baselineValue: round(baselineValue),
+    changePercent: changePercent === null ? null : round(changePercent),
+    zScore: zScore === null ? null : round(zScore),
+    fired,
+  };
+}
+
+function enabledRules(settings: GuardSettings): Array<[GuardMetric, GuardMetricRule]> {
+  return GUARD_METRICS.flatMap(metric => {
+    const rule = settings.guardMetrics?.[metric];
+    return rule?.enabled && Number.isFinite(rule.dropThreshold) && rule.dropThreshold > 0
+      ? [[metric, rule] as [GuardMetric, GuardMetricRule]]
+      : [];
+  });
+}
+
+/**
+ * Evaluate the rules of one Guard integration and record the outcome
+ *
+ * @throws GuardError when no account is selected, Google is not connected or the API fails
+ */
+async function evaluateIntegration(integration: {
+  id: string;
+  company_id: string;
+  application_id: string;
+  settings: Prisma.JsonValue | null;
+  application: { name: string };
+}): Promise<GuardEvaluationResult> {
+  const settings = (integration.settings ?? {}) as GuardSettings;
+  const rules = enabledRules(settings);
+
+  const rawCustomerId = settings.accountSelection?.selectedAccountId;
+  if (!rawCustomerId) {
+    throw new GuardError('No Google Ads account is selected', 'ACCOUNT_NOT_SELECTED', 409);
+  }
+  const customerId = normalizeCustomerId(rawCustomerId);
+  const loginCustomerId = settings.accountSelection?.loginCustomerId
+    ? normalizeCustomerId(settings.accountSelection.loginCustomerId)
+    : null;
+
+  // The current period ends with yesterday, the last complete day
+  const periodDays = Number(GUARD_PERIODS.includes(settings.guardPeriod as GuardPeriod) ? settings.guardPeriod : '7');
+  const today = Date.parse(toDateString(Date.now()));
+  const periodEnd = today - DAY_MS;
+  const periodStart = today - periodDays * DAY_MS;
+  const baselineStart = periodStart - ZSCORE_BASELINE_PERIODS * periodDays * DAY_MS;
+
+  const days = await fetchDailyMetrics(
+    integration.company_id,
+    customerId,
+    loginCustomerId,
+    toDateString(baselineStart),
+    toDateString(periodEnd)
+  );
+
+  const valuesBetween = (metric: GuardMetric, from: number, to: number) =>
+    [...days.entries()]
+      .filter(([day]) => Date.parse(day) >= from && Date.parse(day) <= to)
+      .map(([, values]) => values[metric]);
+
+  const evaluations = rules.map(([metric, rule]) => evaluateRule(
+    metric,
+    rule,
+    valuesBetween(metric, periodStart, periodEnd),
+    valuesBetween(metric, periodStart - periodDays * DAY_MS, periodStart - DAY_MS),
+    valuesBetween(metric, baselineStart, periodStart - DAY_MS)
+  ));
+
+  const now = new Date();
+
+  const result = await prisma.$transaction(async (tx) => {
+    const evaluation = await tx.guard_evaluations.create({
+      data: {
+        company_id: integration.company_id,
+        company_application_id: integration.id,
+        customer_id: customerId,
+        period_start: new Date(periodStart),
+        period_end: new Date(periodEnd),
+        metrics: evaluations as unknown as Prisma.InputJsonValue,
+        evaluated_at: now,
+      },
+    });
+
+    const openAlerts = await tx.guard_alerts.findMany({
+      where: { company_application_id: integration.id, status: 'open' },
+    });
+    const openByMetric = new Map(openAlerts.map(alert => [alert.metric, alert]));
+
+    const openedAlertIds: string[] = [];
+    const resolvedAlertIds: string[] = [];
+
+    for (const result of evaluations) {
+      const open = openByMetric.get(result.metric);
+      const values = {
+        condition: result.condition,
+        threshold: result.threshold,
+        period_days: periodDays,
+        current_value: result.currentValue,
+        baseline_value: result.baselineValue,
+        change_percent: result.changePercent,
+        z_score: result.zScore,
+        last_evaluation_id: evaluation.id,
+      };
+
+      if (result.fired && open) {
+        await tx.guard_alerts.update({
+          where: { id: open.id },
+          data: { ...values, last_detected_at: now, occurrences: { increment: 1 } },
+        });
+      } else if (result.fired) {
+        const alert = await tx.guard_alerts.create({
+          data: {
+            ...values,
+            company_id: integration.company_id,
+            company_application_id: integration.id,
+            customer_id: customerId,
+            metric: result.metric,
+            first_detected_at: now,
+            last_detected_at: now,
+          },
+        });
+        openedAlertIds.push(alert.id);
+      }
+    }
+
+    // Alerts whose rule no longer fires, or was disabled, are resolved
+    const stillFiring = new Set(evaluations.filter(result => result.fired).map(result => result.metric));
+    for (const alert of openAlerts) {
+      if (stillFiring.has(alert.metric as GuardMetric)) continue;
+      await tx.guard_alerts.update({
+        where: { id: alert.id },
+        data: { status: 'resolved', resolved_at: now, last_evaluation_id: evaluation.id },
+      });
+      resolvedAlertIds.push(alert.id);
+    }
+
+    await tx.guard_evaluations.update({
+      where: { id: evaluation.id },
+      data: { alerts_opened: openedAlertIds.length, alerts_resolved: resolvedAlertIds.length },
+    });
+
+    return {
+      evaluationId: evaluation.id,
+      periodStart: toDateString(periodStart),
+      periodEnd: toDateString(periodEnd),
+      metrics: evaluations,
+      openedAlertIds,
+      resolvedAlertIds,
+    };
+  });
+
+  if (result.openedAlertIds.length > 0) {
+    await notifyOpenedAlerts(integration, result);
+  }
+
+  return result;
+}
+
+/**
+ * Tell company admins about newly opened alerts and send them to the integration's
+ * notification channels. Delivery failures are logged and never fail the evaluation.
+ */
+async function notifyOpenedAlerts(
+  integration: { id: string; company_id: string; application_id: string; application: { name: string } },
+  result: GuardEvaluationResult
+): Promise<void> {
+  const fired = result.metrics.filter(metric => metric.fired);
+  const title = `${integration.application.name}: ${fired.map(metric => metric.metric).join(', ')} dropped`;
+  const message = `${fired.length} metric${fired.length === 1 ? '' : 's'} dropped below the configured threshold between ${result.periodStart} and ${result.periodEnd}.`;
+  const fields = fired.map(metric => ({
+    label: metric.metric,
+    value: `${metric.currentValue.toLocaleString('en-US')} vs ${metric.baselineValue.toLocaleString('en-US')}${metric.changePercent !== null ? ` (${metric.changePercent}%)` : ''}`,
+  }));
+  const actionPath = `/companies/${integration.company_id}/integrations/${integration.application_id}/settings`;
+
+  try {
+    await notifyUsers({
+      userIds: await companyAdminIds(integration.company_id),
+      companyId: integration.company_id,
+      type: 'alert_triggered',
+      title,
+      message,
+      data: {
+        companyApplicationId: integration.id,
+        evaluationId: result.evaluationId,
+        alertIds: result.openedAlertIds,
+      },
+      actionUrl: actionPath,
+      integration: {
+        applicationId: integration.application_id,
+        name: integration.application.name,
+        severity: 'warning',
+        fields,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to notify admins of Guard alerts:', error);
+  }
+
+  try {
+    await dispatchIntegrationNotification(integration.id, 'guard_alert', {
+      title,
+      message,
+      severity: 'warning',
+      fields,
+      actionPath,
+    });
+  } catch (error) {
+    console.error('Failed to send Guard alert notifications:', error);
+  }
+
+  try {
+    await emitWebhookEvent(integration.company_id, 'alert.triggered', {
+      application_id: integration.application_id,
+      application_name: integration.application.name,
+      evaluation_id: result.evaluationId,
+      alert_ids: result.openedAlertIds,
+      period_start: result.periodStart,
+      period_end: result.periodEnd,
+      metrics: fired.map(metric => ({
+        metric: metric.metric,
+        current_value: metric.currentValue,
+        baseline_value: metric.baselineValue,
+        change_percent: metric.changePercent,
+      })),
+    }, { eventId: `evt_guard_${result.evaluationId}` });
+  } catch (error) {
+    console.error('Failed to emit alert.triggered webhook:', error);
+  }
+}
+
+async function findGuardIntegration(companyId: string, applicationId: string) {
+  const integration = await prisma.company_applications.findUnique({
+    where: { company_id_application_id: { company_id: companyId, application_id: applicationId } },
+    select: { id: true, company_id: true, application_id: true, settings: true, application: { select: { name: true } } },
+  });
+  if (!integration) {
+    throw new GuardError('Application installation not found', 'INTEGRATION_NOT_FOUND', 404);
+  }
+  return integration;
+}
+
+/**
+ * Evaluate a company's Guard integration right away
+ *
+ * @throws GuardError when the integration is not installed or cannot be evaluated
+ */
+export async function evaluateGuard(companyId: string, applicationId: string): Promise<GuardEvaluationResult> {
+  const integration = await findGuardIntegration(companyId, applicationId);
+  return evaluateIntegration(integration);
+}
+
+/**
+ * Evaluate every active integration with Guard rules whose frequency is due. A failed
+ * evaluation is recorded with its error so the history shows why no data came in.
+ */
+export async function runGuardEvaluations(): Promise<GuardEvaluationSummary> {
+  const integrations = await prisma.company_applications.findMany({
+    where: { is_active: true, settings: { path: ['guardMetrics'], not: Prisma.AnyNull } },
+    select: {
+      id: true,
+      company_id: true,
+      application_id: true,
+      settings: true,
+      application: { select: { name: true } },
+      guard_evaluations: { orderBy: { evaluated_at: 'desc' }, take: 1, select: { evaluated_at: true } },
+    },
+  });
+
+  const summary: GuardEvaluationSummary = {
+    evaluated: 0,
+    skipped: 0,
+    alertsOpened: 0,
+    alertsResolved: 0,
+    failures: [],
+  };
+  const now = Date.now();
+
+  for (const integration of integrations) {
+    const settings = (integration.settings ?? {}) as GuardSettings;
+    const frequency = GUARD_FREQUENCIES[settings.scriptConfig?.frequency ?? '24h'] ?? GUARD_FREQUENCIES['24h'];
+    const lastEvaluatedAt = integration.guard_evaluations[0]?.evaluated_at.getTime() ?? 0;
+
+    if (now - lastEvaluatedAt < frequency || enabledRules(settings).length === 0) {
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      const result = await evaluateIntegration(integration);
+      summary.evaluated++;
+      summary.alertsOpened += result.openedAlertIds.length;
+      summary.alertsResolved += result.resolvedAlertIds.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[ADS-GUARD] Evaluation failed for ${integration.id}:`, error);
+      summary.failures.push({ companyApplicationId: integration.id, error: message });
+
+      await prisma.guard_evaluations.create({
+        data: { company_id: integration.company_id, company_application_id: integration.id, error: message },
+      }).catch(recordError => console.error('[ADS-GUARD] Failed to record evaluation error:', recordError));
+    }
+  }
+
+  return summary;
+}
+
+export interface GuardAlertListOptions {
+  status?: 'open' | 'resolved';
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Alert history of a company's Guard integration, newest first, with the latest evaluation
+ *
+ * @throws GuardError when the integration is not installed
+ */
+export async function listGuardAlerts(companyId: string, applicationId: string, options: GuardAlertListOptions) {
+  const integration = await findGuardIntegration(companyId, applicationId);
+  const where: Prisma.guard_alertsWhereInput = {
+    company_application_id: integration.id,
+    ...(options.status && { status: options.status }),
+  };
+
+  const [alerts, total, lastEvaluation] = await Promise.all([
+    prisma.guard_alerts.findMany({
+      where,
+      orderBy: { first_detected_at: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+    }),
+    prisma.guard_alerts.count({ where }),
+    prisma.guard_evaluations.findFirst({
+      where: { company_application_id: integration.id },
+      orderBy: { evaluated_at: 'desc' },
+    }),
+  ]);
+
+  return {
+    alerts: alerts.map(alert => ({
+      ...alert,
+      threshold: Number(alert.threshold),
+      current_value: Number(alert.current_value),
+      baseline_value: Number(alert.baseline_value),
+      change_percent: alert.change_percent === null ? null : Number(alert.change_percent),
+      z_score: alert.z_score === null ? null : Number(alert.z_score),
+    })),
+    lastEvaluation,
+    pagination: {
+      limit: options.limit,
+      offset: options.offset,
+      total,
+      hasMore: options.offset + alerts.length < total,
+    },
+  };
+}
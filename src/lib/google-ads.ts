@@ -0,0 +1,67 @@
+/**
+ * Google Ads API access shared by the plugin proxy routes and server-side jobs
+ */
+
+// Newest first; the first version that answers successfully is used
+export const GOOGLE_ADS_API_VERSIONS = ['v21', 'v20', 'v19'] as const;
+
+// Remove dashes and spaces, e.g. 123-456-7890 -> 1234567890
+export function normalizeCustomerId(customerId: string): string {
+  return customerId.replace(/[-\s]/g, '');
+}
+
+export interface GoogleAdsSearchResult {
+  /** Last response received; null when every version failed before answering */
+  response: Response | null;
+  version: string;
+}
+
+/**
+ * Run a GAQL query through googleAds:searchStream, falling back to older API versions
+ *
+ * @param accessToken - Google OAuth access token of the company
+ * @param customerId - Normalised customer ID the query runs against
+ * @param loginCustomerId - MCC customer ID when accessing a child account
+ * @param query - GAQL query
+ * @param logTag - Prefix for console logs, e.g. 'ADS-CAMPAIGNS'
+ */
+export async function searchGoogleAdsStream(
+  accessToken: string,
+  customerId: string,
+  loginCustomerId: string | null,
+  query: string,
+  logTag: string
+): Promise<GoogleAdsSearchResult> {
+  let response: Response | null = null;
+  let workingVersion: string = GOOGLE_ADS_API_VERSIONS[0];
+
+  for (const version of GOOGLE_ADS_API_VERSIONS) {
+    try {
+      console.log(`[${logTag}] Trying Google Ads API ${version} for customer ${customerId}`);
+
+      response = await fetch(`https://googleads.googleapis.com/${version}/customers/${customerId}/googleAds:searchStream`, {
+        method: 'POST', // Google Ads API uses POST even for reading data
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'developer-token': process.env.GOOGLE_ADS_DEVELOPER_TOKEN!,
+          'Content-Type': 'application/json',
+          'login-customer-id': loginCustomerId || customerId // Use MCC ID if provided, otherwise use customer ID
+        },
+        body: JSON.stringify({ query })
+      });
+
+      if (response.ok) {
+        workingVersion = version;
+        console.log(`[${logTag}] SUCCESS with ${version} for customer ${customerId}`);
+        break;
+      } else {
+        console.log(`[${logTag}] ${version} failed with ${response.status} for customer ${customerId}`);
+      }
+    } catch (error) {
+      console.log(`[${logTag}] ${version} threw error for customer ${customerId}:`, error);
+      continue;
+    }
+  }
+
+  return { response, version: workingVersion };
+}
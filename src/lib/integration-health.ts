@@ -0,0 +1,482 @@
+/**
+ * Integration health monitoring
+ * Checks every active company_applications row: the provider credentials are validated
+ * (Google through token introspection), latency and quota usage are recorded as an
+ * integration_health row, and company admins are notified when credentials are invalid,
+ * will expire before the integration's next scheduled run, or work again.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { getOAuthTokens, refreshOAuthTokens } from '@/lib/oauth-tokens';
+import { companyAdminIds, notifyUsers } from '@/lib/notifications';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const HEALTH_STATUSES = ['healthy', 'degraded', 'unhealthy', 'unknown'] as const;
+export const API_STATUSES = ['connected', 'disconnected', 'rate_limited', 'unauthorized', 'error'] as const;
+
+export type HealthStatus = typeof HEALTH_STATUSES[number];
+export type ApiStatus = typeof API_STATUSES[number];
+
+const GOOGLE_TOKENINFO_URL = 'https://oauth2.googleapis.com/tokeninfo';
+
+const CHECK_TIMEOUT_MS = 10 * 1000;
+
+/** Provider responses slower than this mark the integration degraded */
+const SLOW_RESPONSE_MS = 2000;
+
+/** Credentials expiring within this window raise a notification even before the next run */
+const EXPIRY_WARNING_MS = 72 * HOUR_MS;
+
+export const DEFAULT_TIMELINE_DAYS = 7;
+export const MAX_TIMELINE_DAYS = 30;
+
+/** Upper bound on checks returned for one timeline */
+const MAX_TIMELINE_POINTS = 500;
+
+export interface IntegrationHealthRecord {
+  id: string;
+  companyApplicationId: string;
+  checkedAt: string;
+  status: HealthStatus;
+  responseTimeMs: number | null;
+  apiStatus: ApiStatus | null;
+  apiResponseCode: number | null;
+  apiErrorMessage: string | null;
+  credentialsValid: boolean | null;
+  credentialsExpireAt: string | null;
+  dailyApiCalls: number;
+  dailyQuotaLimit: number | null;
+  monthlyUsageMb: number;
+}
+
+export interface HealthCheckSummary {
+  checked: number;
+  statuses: Record<HealthStatus, number>;
+  notified: number;
+  failures: Array<{ companyApplicationId: string; error: string }>;
+}
+
+export class IntegrationHealthError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'INTEGRATION_HEALTH_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'IntegrationHealthError';
+  }
+}
+
+interface CredentialCheck {
+  apiStatus: ApiStatus;
+  responseCode: number | null;
+  responseTimeMs: number | null;
+  errorMessage: string | null;
+  credentialsValid: boolean | null;
+  credentialsExpireAt: Date | null;
+}
+
+type CredentialChecker = (companyId: string, requiredScopes: string[]) => Promise<CredentialCheck>;
+
+type CredentialProblem = 'invalid' | 'expiring';
+
+const integrationInclude = {
+  application: { select: { id: true, name: true, integration_provider: true, auth_config: true, metadata: true } },
+  company: { select: { id: true, name: true, owner_uid: true } },
+} satisfies Prisma.company_applicationsInclude;
+
+type CheckedIntegration = Prisma.company_applicationsGetPayload<{ include: typeof integrationInclude }>;
+
+function toHealthRecord(row: {
+  id: string;
+  company_application_id: string;
+  checked_at: Date | null;
+  status: string;
+  response_time_ms: number | null;
+  api_status: string | null;
+  api_response_code: number | null;
+  api_error_message: string | null;
+  credentials_valid: boolean | null;
+  credentials_expire_at: Date | null;
+  daily_api_calls: number | null;
+  daily_quota_limit: number | null;
+  monthly_usage_mb: Prisma.Decimal | number | null;
+}): IntegrationHealthRecord {
+  return {
+    id: row.id,
+    companyApplicationId: row.company_application_id,
+    checkedAt: (row.checked_at ?? new Date()).toISOString(),
+    status: row.status as HealthStatus,
+    responseTimeMs: row.response_time_ms,
+    apiStatus: row.api_status as ApiStatus | null,
+    apiResponseCode: row.api_response_code,
+    apiErrorMessage: row.api_error_message,
+    credentialsValid: row.credentials_valid,
+    credentialsExpireAt: row.credentials_expire_at?.toISOString() ?? null,
+    dailyApiCalls: row.daily_api_calls ?? 0,
+    dailyQuotaLimit: row.daily_quota_limit,
+    monthlyUsageMb: Number(row.monthly_usage_mb ?? 0),
+  };
+}
+
+/**
+ * Introspect a Google access token. A rejected token is renewed once with the refresh
+ * token, so a merely stale access token does not count as invalid credentials.
+ */
+async function checkGoogleCredentials(companyId: string, requiredScopes: string[]): Promise<CredentialCheck> {
+  let tokens = await getOAuthTokens(companyId, 'google');
+  if (!tokens) {
+    return {
+      apiStatus: 'unauthorized',
+      responseCode: null,
+      responseTimeMs: null,
+      errorMessage: 'Google account is not connected or access was revoked',
+      credentialsValid: false,
+      credentialsExpireAt: null,
+    };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(`${GOOGLE_TOKENINFO_URL}?access_token=${encodeURIComponent(tokens.access_token)}`, {
+        cache: 'no-store',
+        signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+      });
+    } catch (error) {
+      return {
+        apiStatus: 'disconnected',
+        responseCode: null,
+        responseTimeMs: null,
+        errorMessage: error instanceof Error ? error.message : 'Google did not respond',
+        credentialsValid: null,
+        credentialsExpireAt: null,
+      };
+    }
+
+    const responseTimeMs = Date.now() - startedAt;
+    const body = await response.json().catch(() => ({}));
+    const base = { responseCode: response.status, responseTimeMs };
+
+    if (response.status === 429) {
+      return { ...base, apiStatus: 'rate_limited', errorMessage: 'Google rate limit reached', credentialsValid: null, credentialsExpireAt: null };
+    }
+    if (response.status >= 500) {
+      return { ...base, apiStatus: 'error', errorMessage: `Google returned ${response.status}`, credentialsValid: null, credentialsExpireAt: null };
+    }
+
+    if (!response.ok) {
+      if (attempt === 0 && tokens.refresh_token) {
+        const refreshed = await refreshOAuthTokens(companyId, 'google', tokens.refresh_token);
+        if (refreshed) {
+          tokens = refreshed;
+          continue;
+        }
+      }
+      return {
+        ...base,
+        apiStatus: 'unauthorized',
+        errorMessage: body.error_description || 'Google rejected the access token',
+        credentialsValid: false,
+        credentialsExpireAt: null,
+      };
+    }
+
+    const granted = String(body.scope ?? '').split(' ');
+    const missing = requiredScopes.filter(scope => !granted.includes(scope));
+    if (missing.length > 0) {
+      return {
+        ...base,
+        apiStatus: 'unauthorized',
+        errorMessage: `Missing Google scopes: ${missing.join(', ')}`,
+        credentialsValid: false,
+        credentialsExpireAt: null,
+      };
+    }
+
+    // Without a refresh token the connection ends when the access token expires
+    const expiresIn = Number(body.expires_in);
+    const credentialsExpireAt = tokens.refresh_token || !Number.isFinite(expiresIn)
+      ? null
+      : new Date(Date.now() + expiresIn * 1000);
+
+    return { ...base, apiStatus: 'connected', errorMessage: null, credentialsValid: true, credentialsExpireAt };
+  }
+}
+
+/** Credential checks by applications.integration_provider; other providers are recorded as unknown */
+const CREDENTIAL_CHECKERS: Record<string, CredentialChecker> = {
+  google: checkGoogleCredentials,
+};
+
+function requiredScopes(authConfig: Prisma.JsonValue | null): string[] {
+  const scopes = (authConfig as { scopes?: unknown } | null)?.scopes;
+  return Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : [];
+}
+
+function dailyQuotaLimit(metadata: Prisma.JsonValue | null): number | null {
+  const limit = Number((metadata as { daily_quota_limit?: unknown } | null)?.daily_quota_limit);
+  return Number.isInteger(limit) && limit > 0 ? limit : null;
+}
+
+/**
+ * Runs started today and bytes of logs written this month, both in UTC
+ */
+async function getUsage(integration: CheckedIntegration): Promise<{ dailyApiCalls: number; monthlyUsageMb: number }> {
+  const rows = await prisma.$queryRaw<Array<{ daily_api_calls: number; monthly_bytes: number }>>`
+    SELECT
+      (SELECT count(*)::int FROM public.execution_runs
+        WHERE company_id = ${integration.company_id}::uuid
+          AND app_id = ${integration.application_id}::uuid
+          AND started_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS daily_api_calls,
+      (SELECT coalesce(sum(pg_column_size(l.*)), 0)::float8 FROM public.integration_logs l
+        WHERE l.company_application_id = ${integration.id}::uuid
+          AND l.logged_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS monthly_bytes
+  `;
+
+  return {
+    dailyApiCalls: rows[0]?.daily_api_calls ?? 0,
+    monthlyUsageMb: Math.round(((rows[0]?.monthly_bytes ?? 0) / (1024 * 1024)) * 100) / 100,
+  };
+}
+
+function credentialProblem(
+  check: { credentialsValid: boolean | null; credentialsExpireAt: Date | null },
+  nextRunAt: Date | null,
+  now: number
+): CredentialProblem | null {
+  if (check.credentialsValid === false) return 'invalid';
+  if (!check.credentialsExpireAt) return null;
+
+  const expiresAt = check.credentialsExpireAt.getTime();
+  if (expiresAt - now < EXPIRY_WARNING_MS) return 'expiring';
+  if (nextRunAt && expiresAt <= nextRunAt.getTime()) return 'expiring';
+  return null;
+}
+
+function deriveStatus(check: CredentialCheck | null, dailyApiCalls: number, quotaLimit: number | null, expiring: boolean): HealthStatus {
+  if (!check) return 'unknown';
+  if (check.credentialsValid === false) return 'unhealthy';
+  if (check.apiStatus !== 'connected') return 'degraded';
+  if (quotaLimit !== null && dailyApiCalls >= quotaLimit) return 'degraded';
+  if ((check.responseTimeMs ?? 0) > SLOW_RESPONSE_MS || expiring) return 'degraded';
+  return 'healthy';
+}
+
+/**
+ * Notify company owners and admins of a credential problem, or that it was resolved.
+ * Whether they are also emailed follows their notification preferences.
+ */
+async function notifyCredentialProblem(
+  integration: CheckedIntegration,
+  problem: CredentialProblem | null,
+  check: CredentialCheck
+): Promise<number> {
+  const userIds = await companyAdminIds(integration.company_id);
+  if (userIds.length === 0) return 0;
+
+  const integrationName = integration.application.name;
+  const notification = problem === 'invalid'
+    ? {
+      type: 'integration_failed' as const,
+      title: `${integrationName} credentials are invalid`,
+      message: `${integrationName} can no longer authenticate (${check.errorMessage ?? 'credentials rejected'}). Scheduled runs will fail until the connection is renewed.`,
+      severity: 'critical' as const,
+    }
+    : problem === 'expiring'
+      ? {
+        type: 'credentials_expiring' as const,
+        title: `${integrationName} credentials expire soon`,
+        message: `The ${integrationName} connection expires on ${check.credentialsExpireAt?.toISOString()}. Reconnect it to keep scheduled runs working.`,
+        severity: 'warning' as const,
+      }
+      : {
+        type: 'integration_recovered' as const,
+        title: `${integrationName} credentials are working again`,
+        message: `${integrationName} can authenticate again and scheduled runs will continue.`,
+        severity: 'info' as const,
+      };
+
+  return notifyUsers({
+    userIds,
+    companyId: integration.company_id,
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    data: {
+      companyApplicationId: integration.id,
+      integrationName,
+      problem,
+      credentialsExpireAt: check.credentialsExpireAt?.toISOString() ?? null,
+    },
+    actionUrl: `/companies/${integration.company_id}/integrations/${integration.application_id}/settings`,
+    integration: {
+      applicationId: integration.application_id,
+      name: integrationName,
+      severity: notification.severity,
+    },
+  });
+}
+
+async function checkIntegration(integration: CheckedIntegration): Promise<{ record: IntegrationHealthRecord; notified: number }> {
+  const provider = integration.application.integration_provider;
+  const checker = provider ? CREDENTIAL_CHECKERS[provider] : undefined;
+
+  const [check, usage, previous] = await Promise.all([
+    checker ? checker(integration.company_id, requiredScopes(integration.application.auth_config)) : null,
+    getUsage(integration),
+    prisma.integration_health.findFirst({
+      where: { company_application_id: integration.id },
+      orderBy: { checked_at: 'desc' },
+      select: { credentials_valid: true, credentials_expire_at: true },
+    }),
+  ]);
+
+  const now = Date.now();
+  const quotaLimit = dailyQuotaLimit(integration.application.metadata);
+  const problem = check ? credentialProblem(check, integration.next_run_at, now) : null;
+
+  const row = await prisma.integration_health.create({
+    data: {
+      company_application_id: integration.id,
+      checked_at: new Date(now),
+      status: deriveStatus(check, usage.dailyApiCalls, quotaLimit, problem === 'expiring'),
+      response_time_ms: check?.responseTimeMs ?? null,
+      api_status: check && quotaLimit !== null && usage.dailyApiCalls >= quotaLimit && check.apiStatus === 'connected'
+        ? 'rate_limited'
+        : check?.apiStatus ?? null,
+      api_response_code: check?.responseCode ?? null,
+      api_error_message: check?.errorMessage ?? null,
+      credentials_valid: check?.credentialsValid ?? null,
+      credentials_expire_at: check?.credentialsExpireAt ?? null,
+      daily_api_calls: usage.dailyApiCalls,
+      daily_quota_limit: quotaLimit,
+      monthly_usage_mb: usage.monthlyUsageMb,
+    },
+  });
+
+  // Only a change of problem notifies, so admins are not told again on every check
+  const previousProblem = previous
+    ? credentialProblem(
+      { credentialsValid: previous.credentials_valid, credentialsExpireAt: previous.credentials_expire_at },
+      integration.next_run_at,
+      now
+    )
+    : null;
+  const notified = check && problem !== previousProblem && (problem || check.credentialsValid)
+    ? await notifyCredentialProblem(integration, problem, check)
+    : 0;
+
+  return { record: toHealthRecord(row), notified };
+}
+
+/**
+ * Check every active integration, optionally of one company. Integrations are checked one
+ * after another so provider rate limits are not hit in bursts.
+ */
+export async function runHealthChecks(companyId?: string): Promise<HealthCheckSummary> {
+  const integrations = await prisma.company_applications.findMany({
+    where: {
+      is_active: true,
+      application: { is_active: true },
+      ...(companyId && { company_id: companyId }),
+    },
+    include: integrationInclude,
+    orderBy: { company_id: 'asc' },
+  });
+
+  const summary: HealthCheckSummary = {
+    checked: 0,
+    statuses: { healthy: 0, degraded: 0, unhealthy: 0, unknown: 0 },
+    notified: 0,
+    failures: [],
+  };
+
+  for (const integration of integrations) {
+    try {
+      const { record, notified } = await checkIntegration(integration);
+      summary.checked++;
+      summary.statuses[record.status]++;
+      summary.notified += notified;
+    } catch (error) {
+      console.error(`[INTEGRATION-HEALTH] Check failed for ${integration.id}:`, error);
+      summary.failures.push({
+        companyApplicationId: integration.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Check one integration of a company right away
+ *
+ * @throws IntegrationHealthError when the integration is not installed for the company
+ */
+export async function checkIntegrationHealth(companyId: string, companyApplicationId: string): Promise<IntegrationHealthRecord> {
+  const integration = await prisma.company_applications.findFirst({
+    where: { id: companyApplicationId, company_id: companyId },
+    include: integrationInclude,
+  });
+  if (!integration) {
+    throw new IntegrationHealthError('Integration not found', 'INTEGRATION_NOT_FOUND', 404);
+  }
+
+  const { record } = await checkIntegration(integration);
+  return record;
+}
+
+/**
+ * Most recent check of each of the company's integrations
+ */
+export async function getLatestHealth(companyId: string): Promise<IntegrationHealthRecord[]> {
+  const rows = await prisma.$queryRaw<Parameters<typeof toHealthRecord>[0][]>`
+    SELECT DISTINCT ON (h.company_application_id) h.*
+    FROM public.integration_health h
+    JOIN public.company_applications ca ON ca.id = h.company_application_id
+    WHERE ca.company_id = ${companyId}::uuid
+    ORDER BY h.company_application_id, h.checked_at DESC
+  `;
+
+  return rows.map(toHealthRecord);
+}
+
+/**
+ * Checks of one integration over the last days, oldest first
+ *
+ * @throws IntegrationHealthError on an invalid range or an integration of another company
+ */
+export async function getHealthTimeline(
+  companyId: string,
+  companyApplicationId: string,
+  days: number = DEFAULT_TIMELINE_DAYS
+): Promise<IntegrationHealthRecord[]> {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_TIMELINE_DAYS) {
+    throw new IntegrationHealthError(`days must be between 1 and ${MAX_TIMELINE_DAYS}`, 'INVALID_RANGE');
+  }
+
+  const integration = await prisma.company_applications.findFirst({
+    where: { id: companyApplicationId, company_id: companyId },
+    select: { id: true },
+  });
+  if (!integration) {
+    throw new IntegrationHealthError('Integration not found', 'INTEGRATION_NOT_FOUND', 404);
+  }
+
+  // Newest points win when the range holds more checks than the cap
+  const rows = await prisma.integration_health.findMany({
+    where: {
+      company_application_id: companyApplicationId,
+      checked_at: { gte: new Date(Date.now() - days * 24 * HOUR_MS) },
+    },
+    orderBy: { checked_at: 'desc' },
+    take: MAX_TIMELINE_POINTS,
+  });
+
+  return rows.reverse().map(toHealthRecord);
+}
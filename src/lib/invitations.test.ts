@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BULK_INVITE_MAX_ROWS, InvitationError, parseInvitationCsv } from './invitations';
+
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+vi.mock('@/lib/email/sendInvitationEmail', () => ({ sendInvitationEmail: vi.fn() }));
+
+function expectCsvError(csv: string, code: string) {
+  try {
+    parseInvitationCsv(csv);
+  } catch (error) {
+    expect(error).toBeInstanceOf(InvitationError);
+    expect((error as InvitationError).code).toBe(code);
+    return;
+  }
+  throw new Error('Expected the CSV to be rejected');
+}
+
+describe('parseInvitationCsv', () => {
+  it('skips the header row and keeps source line numbers', () => {
+    expect(parseInvitationCsv('email,role,message\r\na@example.com,Admin,Welcome\n\nb@example.com')).toEqual([
+      { line: 2, email: 'a@example.com', role: 'admin', message: 'Welcome' },
+      { line: 4, email: 'b@example.com' },
+    ]);
+  });
+
+  it('reads rows without a header', () => {
+    expect(parseInvitationCsv('a@example.com,member')).toEqual([
+      { line: 1, email: 'a@example.com', role: 'member' },
+    ]);
+  });
+
+  it('honours quoted cells with commas and escaped quotes', () => {
+    expect(parseInvitationCsv('a@example.com,, "Hi, this is the ""metrics"" team" ')).toEqual([
+      { line: 1, email: 'a@example.com', message: 'Hi, this is the "metrics" team' },
+    ]);
+  });
+
+  it('trims cells and ignores blank lines', () => {
+    expect(parseInvitationCsv('  a@example.com ,  member  \n , , \n')).toEqual([
+      { line: 1, email: 'a@example.com', role: 'member' },
+    ]);
+  });
+
+  it('rejects a file without invitations', () => {
+    expectCsvError('', 'EMPTY_CSV');
+    expectCsvError('email,role,message\n', 'EMPTY_CSV');
+  });
+
+  it(`accepts ${BULK_INVITE_MAX_ROWS} rows and rejects more`, () => {
+    const rows = (count: number) =>
+      Array.from({ length: count }, (_, i) => `user${i}@example.com`).join('\n');
+
+    expect(parseInvitationCsv(`email\n${rows(BULK_INVITE_MAX_ROWS)}`)).toHaveLength(BULK_INVITE_MAX_ROWS);
+    expectCsvError(rows(BULK_INVITE_MAX_ROWS + 1), 'TOO_MANY_ROWS');
+  });
+});
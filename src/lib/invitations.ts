@@ -0,0 +1,620 @@
+/**
+ * Company invitations
+ * Creating, listing, resending, revoking and expiring company_invitations. Invitees who
+ * already have an account get an in-app company_invitation notification; everyone else
+ * gets an email and the invitation is bound to them when they register.
+ */
+
+import prisma from '@/lib/prisma';
+import { getCompanyPermissionsForRole } from '@/lib/role-permissions';
+import { sendInvitationEmail } from '@/lib/email/sendInvitationEmail';
+
+export type InvitationRole = 'owner' | 'superadmin' | 'admin' | 'member';
+export type InvitationStatus = 'pending' | 'accepted' | 'rejected' | 'expired' | 'revoked';
+
+export interface CompanyInvitation {
+  id: string;
+  email: string;
+  role: InvitationRole;
+  status: InvitationStatus;
+  message: string | null;
+  invited_by: string;
+  inviter_email: string | null;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+  delivery: 'in_app_notification' | 'email_invitation';
+}
+
+export interface Inviter {
+  id: string;
+  email?: string | null;
+  role: string;
+}
+
+export interface InvitationResult {
+  invitation_id: string;
+  notification_id?: string;
+  email: string;
+  company_name: string;
+  role: InvitationRole;
+  expires_at: Date;
+  type: 'in_app_notification' | 'email_invitation';
+}
+
+export class InvitationError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'INVITATION_ERROR',
+    public statusCode: number = 400,
+    public details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+export const INVITATION_ROLES: InvitationRole[] = ['owner', 'superadmin', 'admin', 'member'];
+
+/** How long an invitation stays valid after it is sent or resent */
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Largest CSV accepted by the bulk invite endpoint */
+export const BULK_INVITE_MAX_ROWS = 100;
+
+/** Invitations to emails without an account point here until the invitee registers */
+const PLACEHOLDER_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+// Email validation function
+export function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+}
+
+/**
+ * Load the caller's membership and check that it may send invitations
+ *
+ * @throws InvitationError when the caller is not a member or lacks users.invite
+ */
+export async function getInviter(
+  user: { id: string; email?: string | null },
+  companyId: string
+): Promise<Inviter & { companyName: string }> {
+  const membership = await prisma.company_users.findFirst({
+    where: { user_id: user.id, company_id: companyId },
+    include: { companies: { select: { name: true } } },
+  });
+
+  if (!membership) {
+    throw new InvitationError(
+      'You do not have permission to invite users to this company',
+      'INSUFFICIENT_PERMISSIONS',
+      403
+    );
+  }
+
+  const permissions = await getCompanyPermissionsForRole(companyId, membership.role);
+  if (!permissions.includes('users.invite')) {
+    throw new InvitationError('Your role does not allow sending company invitations', 'INSUFFICIENT_ROLE', 403);
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    role: membership.role,
+    companyName: membership.companies?.name || 'the company',
+  };
+}
+
+/**
+ * Validate and normalise an invitee's email and role
+ *
+ * @throws InvitationError for missing fields, malformed emails, unknown roles or an
+ * owner invitation sent by a non-owner
+ */
+export function validateInvitationInput(
+  input: { email?: unknown; role?: unknown },
+  inviter: Inviter
+): { email: string; role: InvitationRole } {
+  const role = input.role ?? 'member';
+
+  if (typeof input.email !== 'string' || !input.email) {
+    throw new InvitationError('Email is required', 'MISSING_FIELDS', 400);
+  }
+
+  const email = input.email.toLowerCase().trim();
+  if (!isValidEmail(email)) {
+    throw new InvitationError('Invalid email format', 'INVALID_EMAIL', 400);
+  }
+
+  if (typeof role !== 'string' || !INVITATION_ROLES.includes(role as InvitationRole)) {
+    throw new InvitationError('Invalid role specified', 'INVALID_ROLE', 400);
+  }
+
+  if (role === 'owner' && inviter.role !== 'owner') {
+    throw new InvitationError('Only owners can invite other owners', 'INSUFFICIENT_ROLE', 403);
+  }
+
+  return { email, role: role as InvitationRole };
+}
+
+function invitationNotificationData(
+  userId: string,
+  companyId: string,
+  companyName: string,
+  invitation: { id: string; role: string; message: string | null; expiresAt: Date },
+  inviterEmail?: string | null
+) {
+  return {
+    userId,
+    companyId,
+    type: 'company_invitation' as const,
+    title: `Invitation to join ${companyName}`,
+    message: `You've been invited to join ${companyName} as a ${invitation.role}.`,
+    data: {
+      companyId,
+      companyName,
+      role: invitation.role,
+      inviterEmail: inviterEmail ?? null,
+      message: invitation.message || null,
+      invitationId: invitation.id,
+    },
+    actionUrl: `/en/invitations/${invitation.id}`,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+/**
+ * Invite an email address to a company
+ *
+ * @throws InvitationError when the invitee is already a member, already has a pending
+ * invitation or the invitation email cannot be sent
+ */
+export async function createCompanyInvitation(params: {
+  companyId: string;
+  companyName: string;
+  inviter: Inviter;
+  email: string;
+  role: InvitationRole;
+  message?: string | null;
+  /** Locale for the invitation email, e.g. the inviter's UI locale */
+  locale?: string | null;
+}): Promise<InvitationResult> {
+  const { companyId, companyName, inviter, email, role } = params;
+  const message = params.message || null;
+
+  // Check if invitee exists in the system
+  const inviteeUser = await prisma.users.findFirst({
+    where: { email },
+    select: { id: true, email: true },
+  });
+
+  if (inviteeUser) {
+    const existingMember = await prisma.company_users.findFirst({
+      where: { user_id: inviteeUser.id, company_id: companyId },
+    });
+
+    if (existingMember) {
+      throw new InvitationError('User is already a member of this company', 'ALREADY_MEMBER', 409, {
+        current_role: existingMember.role,
+      });
+    }
+  }
+
+  const existingInvitation = await prisma.company_invitations.findFirst({
+    where: { email, companyId, status: 'pending' },
+    select: { id: true },
+  });
+
+  if (existingInvitation) {
+    throw new InvitationError('User already has a pending invitation to this company', 'INVITATION_PENDING', 409);
+  }
+
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  if (inviteeUser) {
+    // User exists - create in-app notification and invitation
+    const { invitation, notification } = await prisma.$transaction(async (tx) => {
+      const created = await tx.company_invitations.create({
+        data: {
+          email,
+          userId: inviteeUser.id,
+          companyId,
+          invitedBy: inviter.id,
+          role,
+          message,
+          status: 'pending',
+          expiresAt,
+        },
+      });
+
+      // Create notification linked to invitation
+      const notification = await tx.notifications.create({
+        data: invitationNotificationData(inviteeUser.id, companyId, companyName, created, inviter.email),
+      });
+
+      const invitation = await tx.company_invitations.update({
+        where: { id: created.id },
+        data: { notificationId: notification.id },
+      });
+
+      return { invitation, notification };
+    });
+
+    return {
+      invitation_id: invitation.id,
+      notification_id: notification.id,
+      email: invitation.email,
+      company_name: companyName,
+      role: invitation.role,
+      expires_at: invitation.expiresAt,
+      type: 'in_app_notification',
+    };
+  }
+
+  // User doesn't exist - create invitation and send email
+  const invitation = await prisma.company_invitations.create({
+    data: {
+      email,
+      userId: PLACEHOLDER_USER_ID, // Updated when the invitee registers
+      companyId,
+      invitedBy: inviter.id,
+      role,
+      message,
+      status: 'pending',
+      expiresAt,
+    },
+  });
+
+  try {
+    await sendInvitationEmail({
+      to: email,
+      companyName,
+      companyId,
+      inviterId: inviter.id,
+      inviterEmail: inviter.email || 'Someone',
+      role,
+      message: message ?? undefined,
+      invitationId: invitation.id,
+      expiresAt,
+      locale: params.locale,
+    });
+  } catch (emailError) {
+    console.error('Email sending failed:', emailError);
+
+    // Delete the invitation if email fails
+    await prisma.company_invitations.delete({ where: { id: invitation.id } });
+    throw new InvitationError('Failed to send invitation email', 'EMAIL_FAILED', 500);
+  }
+
+  return {
+    invitation_id: invitation.id,
+    email: invitation.email,
+    company_name: companyName,
+    role: invitation.role,
+    expires_at: invitation.expiresAt,
+    type: 'email_invitation',
+  };
+}
+
+/**
+ * A company's invitations, newest first
+ *
+ * @param statuses - Only return invitations in these states; all states when omitted
+ */
+export async function listCompanyInvitations(
+  companyId: string,
+  statuses?: InvitationStatus[]
+): Promise<CompanyInvitation[]> {
+  const rows = await prisma.company_invitations.findMany({
+    where: {
+      companyId,
+      ...(statuses && { status: { in: statuses } }),
+    },
+    include: { inviter: { select: { email: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return rows.map(row => ({
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    status: row.status,
+    message: row.message,
+    invited_by: row.invitedBy,
+    inviter_email: row.inviter?.email ?? null,
+    expires_at: row.expiresAt,
+    created_at: row.createdAt,
+    updated_at: row.updatedAt,
+    delivery: row.userId === PLACEHOLDER_USER_ID ? 'email_invitation' : 'in_app_notification',
+  }));
+}
+
+async function getCompanyInvitation(companyId: string, invitationId: string) {
+  const invitation = await prisma.company_invitations.findFirst({
+    where: { id: invitationId, companyId },
+    include: { company: { select: { name: true } } },
+  });
+
+  if (!invitation) {
+    throw new InvitationError('Invitation not found', 'INVITATION_NOT_FOUND', 404);
+  }
+
+  return invitation;
+}
+
+/**
+ * Send a pending or expired invitation again with a fresh expiry
+ *
+ * @throws InvitationError when the invitation was already answered or revoked
+ */
+export async function resendCompanyInvitation(
+  companyId: string,
+  invitationId: string,
+  inviter: Inviter,
+  locale?: string | null
+): Promise<InvitationResult> {
+  const invitation = await getCompanyInvitation(companyId, invitationId);
+
+  if (invitation.status !== 'pending' && invitation.status !== 'expired') {
+    throw new InvitationError(`Cannot resend an ${invitation.status} invitation`, 'INVITATION_CLOSED', 409);
+  }
+
+  if (invitation.role === 'owner' && inviter.role !== 'owner') {
+    throw new InvitationError('Only owners can invite other owners', 'INSUFFICIENT_ROLE', 403);
+  }
+
+  const companyName = invitation.company?.name || 'the company';
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+  const now = new Date();
+
+  if (invitation.userId === PLACEHOLDER_USER_ID) {
+    await sendInvitationEmail({
+      to: invitation.email,
+      companyName,
+      companyId,
+      inviterId: inviter.id,
+      inviterEmail: inviter.email || 'Someone',
+      role: invitation.role,
+      message: invitation.message ?? undefined,
+      invitationId: invitation.id,
+      expiresAt,
+      locale,
+      reminder: true,
+    });
+
+    const updated = await prisma.company_invitations.update({
+      where: { id: invitation.id },
+      data: { status: 'pending', expiresAt, updatedAt: now },
+    });
+
+    return {
+      invitation_id: updated.id,
+      email: updated.email,
+      company_name: companyName,
+      role: updated.role,
+      expires_at: updated.expiresAt,
+      type: 'email_invitation',
+    };
+  }
+
+  const { updated, notificationId } = await prisma.$transaction(async (tx) => {
+    const refreshed = { ...invitation, expiresAt };
+    const existing = invitation.notificationId
+      ? await tx.notifications.findUnique({ where: { id: invitation.notificationId }, select: { id: true } })
+      : null;
+
+    // Bring the notification back to the top of the invitee's list
+    const notification = existing
+      ? await tx.notifications.update({
+          where: { id: existing.id },
+          data: {
+            ...invitationNotificationData(invitation.userId, companyId, companyName, refreshed, inviter.email),
+            read: false,
+            createdAt: now,
+          },
+        })
+      : await tx.notifications.create({
+          data: invitationNotificationData(invitation.userId, companyId, companyName, refreshed, inviter.email),
+        });
+
+    const updated = await tx.company_invitations.update({
+      where: { id: invitation.id },
+      data: { status: 'pending', expiresAt, notificationId: notification.id, updatedAt: now },
+    });
+
+    return { updated, notificationId: notification.id };
+  });
+
+  return {
+    invitation_id: updated.id,
+    notification_id: notificationId,
+    email: updated.email,
+    company_name: companyName,
+    role: updated.role,
+    expires_at: updated.expiresAt,
+    type: 'in_app_notification',
+  };
+}
+
+/**
+ * Withdraw a pending invitation and remove its notification
+ *
+ * @throws InvitationError when the invitation is no longer pending
+ */
+export async function revokeCompanyInvitation(companyId: string, invitationId: string): Promise<CompanyInvitation['status']> {
+  const invitation = await getCompanyInvitation(companyId, invitationId);
+
+  if (invitation.status !== 'pending' && invitation.status !== 'expired') {
+    throw new InvitationError(`Cannot revoke an ${invitation.status} invitation`, 'INVITATION_CLOSED', 409);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.company_invitations.update({
+      where: { id: invitation.id },
+      data: { status: 'revoked', updatedAt: new Date() },
+    });
+
+    if (invitation.notificationId) {
+      await tx.notifications.deleteMany({ where: { id: invitation.notificationId } });
+    }
+  });
+
+  return invitation.status;
+}
+
+/**
+ * Change the role a pending invitation grants
+ *
+ * @throws InvitationError for unknown roles, closed invitations or owner changes by non-owners
+ */
+export async function changeInvitationRole(
+  companyId: string,
+  invitationId: string,
+  role: unknown,
+  inviter: Inviter
+): Promise<{ previousRole: InvitationRole; role: InvitationRole }> {
+  if (typeof role !== 'string' || !INVITATION_ROLES.includes(role as InvitationRole)) {
+    throw new InvitationError('Invalid role specified', 'INVALID_ROLE', 400);
+  }
+
+  const invitation = await getCompanyInvitation(companyId, invitationId);
+
+  if (invitation.status !== 'pending') {
+    throw new InvitationError('Only pending invitations can be changed', 'INVITATION_CLOSED', 409);
+  }
+
+  if ((role === 'owner' || invitation.role === 'owner') && inviter.role !== 'owner') {
+    throw new InvitationError('Only owners can invite other owners', 'INSUFFICIENT_ROLE', 403);
+  }
+
+  const companyName = invitation.company?.name || 'the company';
+  const nextRole = role as InvitationRole;
+
+  await prisma.$transaction(async (tx) => {
+    await tx.company_invitations.update({
+      where: { id: invitation.id },
+      data: { role: nextRole, updatedAt: new Date() },
+    });
+
+    if (invitation.notificationId) {
+      await tx.notifications.updateMany({
+        where: { id: invitation.notificationId },
+        data: {
+          message: `You've been invited to join ${companyName} as a ${nextRole}.`,
+          data: {
+            companyId,
+            companyName,
+            role: nextRole,
+            message: invitation.message || null,
+            invitationId: invitation.id,
+          },
+        },
+      });
+    }
+  });
+
+  return { previousRole: invitation.role, role: nextRole };
+}
+
+/**
+ * Flip past-due pending invitations to expired and delete their notifications
+ *
+ * @param companyId - Limit the sweep to one company; all companies when omitted
+ * @returns the number of invitations expired
+ */
+export async function expireOverdueInvitations(companyId?: string): Promise<number> {
+  const overdue = await prisma.company_invitations.findMany({
+    where: {
+      status: 'pending',
+      expiresAt: { lt: new Date() },
+      ...(companyId && { companyId }),
+    },
+    select: { id: true, notificationId: true },
+  });
+
+  if (overdue.length === 0) return 0;
+
+  const notificationIds = overdue
+    .map(invitation => invitation.notificationId)
+    .filter((id): id is string => !!id);
+
+  await prisma.$transaction([
+    prisma.company_invitations.updateMany({
+      where: { id: { in: overdue.map(invitation => invitation.id) }, status: 'pending' },
+      data: { status: 'expired', updatedAt: new Date() },
+    }),
+    prisma.notifications.deleteMany({
+      where: { id: { in: notificationIds } },
+    }),
+  ]);
+
+  return overdue.length;
+}
+
+/**
+ * Parse a bulk invite CSV with the columns email, role and message
+ * A header row is optional; role defaults to member and message is optional.
+ *
+ * @throws InvitationError when the file is empty or has too many rows
+ */
+export function parseInvitationCsv(csv: string): { line: number; email: string; role?: string; message?: string }[] {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, cells: parseCsvLine(text) }))
+    .filter(({ cells }) => cells.some(cell => cell !== ''));
+
+  if (lines[0]?.cells[0]?.toLowerCase() === 'email') {
+    lines.shift();
+  }
+
+  if (lines.length === 0) {
+    throw new InvitationError('The CSV file contains no invitations', 'EMPTY_CSV', 400);
+  }
+
+  if (lines.length > BULK_INVITE_MAX_ROWS) {
+    throw new InvitationError(
+      `A bulk invite can contain at most ${BULK_INVITE_MAX_ROWS} rows`,
+      'TOO_MANY_ROWS',
+      400
+    );
+  }
+
+  return lines.map(({ line, cells }) => ({
+    line,
+    email: cells[0] ?? '',
+    ...(cells[1] && { role: cells[1].toLowerCase() }),
+    ...(cells[2] && { message: cells[2] }),
+  }));
+}
+
+// Split one CSV line, honouring double-quoted cells with "" escapes
+function parseCsvLine(text: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
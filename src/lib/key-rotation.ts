@@ -0,0 +1,384 @@
+/**
+ * Master key rotation
+ * Re-encrypts every secrets.encrypted_value and every encrypted
+ * company_applications.plugin_data value onto the newest master key version, rewriting
+ * values still in the v1 format (see src/lib/encryption.ts) as v2.
+ *
+ * A job walks each table in id order, one batch at a time, persisting its cursor
+ * and counters after every batch. Runners take a short lease on the job, so a job
+ * can be resumed by calling runKeyRotationJob again after a timeout or crash.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { decryptCompanySecret, getEncryptionService } from '@/lib/encryption';
+
+export type KeyRotationStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type KeyRotationPhase = 'secrets' | 'plugin_data' | 'done';
+
+const LEASE_MS = 2 * 60 * 1000;
+const MAX_RECORDED_ERRORS = 100;
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface KeyRotationFailure {
+  table: 'secrets' | 'company_applications' | 'encryption_rotation_jobs';
+  id: string;
+  error: string;
+  at: string;
+}
+
+export interface KeyRotationProgress {
+  id: string;
+  status: KeyRotationStatus;
+  phase: KeyRotationPhase;
+  targetKeyVersion: number;
+  total: number;
+  processed: number;
+  reencrypted: number;
+  skipped: number;
+  failed: number;
+  percent: number;
+  errors: KeyRotationFailure[];
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+type RotationJob = Prisma.encryption_rotation_jobsGetPayload<object>;
+
+export class KeyRotationError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'KEY_ROTATION_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'KeyRotationError';
+  }
+}
+
+function toProgress(job: RotationJob): KeyRotationProgress {
+  const total = job.total_secrets + job.total_plugin_data;
+  return {
+    id: job.id,
+    status: job.status as KeyRotationStatus,
+    phase: job.phase as KeyRotationPhase,
+    targetKeyVersion: job.target_key_version,
+    total,
+    processed: job.processed_count,
+    reencrypted: job.reencrypted_count,
+    skipped: job.skipped_count,
+    failed: job.failed_count,
+    percent: total === 0 ? 100 : Math.min(100, Math.round((job.processed_count / total) * 100)),
+    errors: (job.errors as unknown as KeyRotationFailure[]) || [],
+    startedAt: job.started_at?.toISOString() ?? null,
+    completedAt: job.completed_at?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Start a rotation job onto the newest loaded master key
+ *
+ * @throws KeyRotationError when another job is still active
+ */
+export async function startKeyRotationJob(userId: string, batchSize: number = DEFAULT_BATCH_SIZE): Promise<KeyRotationProgress> {
+  const active = await prisma.encryption_rotation_jobs.findFirst({
+    where: { status: { in: ['pending', 'running'] } },
+  });
+
+  if (active) {
+    throw new KeyRotationError('A key rotation job is already in progress', 'ROTATION_IN_PROGRESS', 409);
+  }
+
+  const [totalSecrets, totalPluginData] = await Promise.all([
+    prisma.secrets.count(),
+    prisma.company_applications.count({ where: { plugin_config_data: { not: null } } }),
+  ]);
+
+  const job = await prisma.encryption_rotation_jobs.create({
+    data: {
+      target_key_version: getEncryptionService().getCurrentKeyVersion(),
+      batch_size: Math.min(Math.max(batchSize, 1), 1000),
+      total_secrets: totalSecrets,
+      total_plugin_data: totalPluginData,
+      started_by: userId,
+    },
+  });
+
+  return toProgress(job);
+}
+
+export async function getKeyRotationJob(jobId: string): Promise<KeyRotationProgress | null> {
+  const job = await prisma.encryption_rotation_jobs.findUnique({ where: { id: jobId } });
+  return job ? toProgress(job) : null;
+}
+
+export async function listKeyRotationJobs(limit: number = 20): Promise<KeyRotationProgress[]> {
+  const jobs = await prisma.encryption_rotation_jobs.findMany({
+    orderBy: { created_at: 'desc' },
+    take: limit,
+  });
+  return jobs.map(toProgress);
+}
+
+/**
+ * Number of secrets still stored under each key version ('legacy' for ENCRYPTION_KEY values)
+ */
+export async function getSecretKeyVersionCounts(): Promise<Record<string, number>> {
+  const groups = await prisma.secrets.groupBy({
+    by: ['key_version'],
+    _count: { _all: true },
+  });
+
+  return Object.fromEntries(
+    groups.map(group => [String(group.key_version ?? 'legacy'), group._count._all])
+  );
+}
+
+export async function cancelKeyRotationJob(jobId: string): Promise<KeyRotationProgress> {
+  const result = await prisma.encryption_rotation_jobs.updateMany({
+    where: { id: jobId, status: { in: ['pending', 'running'] } },
+    data: { status: 'cancelled', locked_until: null, completed_at: new Date() },
+  });
+
+  if (result.count === 0) {
+    throw new KeyRotationError('Job is not active', 'ROTATION_NOT_ACTIVE', 409);
+  }
+
+  return (await getKeyRotationJob(jobId))!;
+}
+
+interface BatchResult {
+  processed: number;
+  reencrypted: number;
+  skipped: number;
+  errors: KeyRotationFailure[];
+  lastId: string | null;
+}
+
+async function rotateSecretsBatch(cursorId: string | null, batchSize: number): Promise<BatchResult> {
+  const service = getEncryptionService();
+  const rows = await prisma.secrets.findMany({
+    where: cursorId ? { id: { gt: cursorId } } : undefined,
+    orderBy: { id: 'asc' },
+    take: batchSize,
+    select: { id: true, company_id: true, encrypted_value: true },
+  });
+
+  const result: BatchResult = { processed: 0, reencrypted: 0, skipped: 0, errors: [], lastId: null };
+
+  for (const row of rows) {
+    result.processed++;
+    result.lastId = row.id;
+
+    if (!service.needsReencryption(row.encrypted_value)) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const plaintext = await decryptCompanySecret(row.company_id, row.encrypted_value);
+      const reencrypted = await service.encryptSecret(row.company_id, plaintext);
+
+      // Only replace the value we decrypted; a concurrent write already used the newest key
+      await prisma.secrets.updateMany({
+        where: { id: row.id, encrypted_value: row.encrypted_value },
+        data: {
+          encrypted_value: reencrypted,
+          key_version: service.getCurrentKeyVersion(),
+          updated_at: new Date(),
+        },
+      });
+      result.reencrypted++;
+    } catch (error) {
+      result.errors.push({
+        table: 'secrets',
+        id: row.id,
+        error: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  return result;
+}
+
+async function rotatePluginDataBatch(cursorId: string | null, batchSize: number): Promise<BatchResult> {
+  const service = getEncryptionService();
+  const rows = await prisma.company_applications.findMany({
+    where: {
+      plugin_config_data: { not: null },
+      ...(cursorId ? { id: { gt: cursorId } } : {}),
+    },
+    orderBy: { id: 'asc' },
+    take: batchSize,
+    select: { id: true, company_id: true, plugin_config_data: true },
+  });
+
+  const result: BatchResult = { processed: 0, reencrypted: 0, skipped: 0, errors: [], lastId: null };
+
+  for (const row of rows) {
+    result.processed++;
+    result.lastId = row.id;
+
+    const stored = Buffer.from(row.plugin_config_data!).toString('utf8');
+
+    // Plugin data that is not an encrypted envelope (e.g. a bundle archive) is left as is
+    if (!service.isEncrypted(stored) || !service.needsReencryption(stored)) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const plaintext = await service.decryptSecret(row.company_id, stored);
+      const reencrypted = await service.encryptSecret(row.company_id, plaintext);
+
+      await prisma.company_applications.updateMany({
+        where: { id: row.id, plugin_config_data: { equals: row.plugin_config_data! } },
+        data: {
+          plugin_config_data: Buffer.from(reencrypted, 'utf8'),
+          updated_at: new Date(),
+        },
+      });
+      result.reencrypted++;
+    } catch (error) {
+      result.errors.push({
+        table: 'company_applications',
+        id: row.id,
+        error: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Process batches of an active job until it completes or the time budget runs out
+ *
+ * @param jobId - The rotation job
+ * @param timeBudgetMs - Stop starting new batches after this long; call again to resume
+ */
+export async function runKeyRotationJob(jobId: string, timeBudgetMs: number = 20000): Promise<KeyRotationProgress> {
+  const now = new Date();
+
+  // Take the lease; fails when another runner holds it or the job is not active
+  const lease = await prisma.encryption_rotation_jobs.updateMany({
+    where: {
+      id: jobId,
+      status: { in: ['pending', 'running'] },
+      OR: [{ locked_until: null }, { locked_until: { lt: now } }],
+    },
+    data: {
+      status: 'running',
+      locked_until: new Date(now.getTime() + LEASE_MS),
+    },
+  });
+
+  if (lease.count === 0) {
+    const job = await getKeyRotationJob(jobId);
+    if (!job) {
+      throw new KeyRotationError('Job not found', 'ROTATION_NOT_FOUND', 404);
+    }
+    if (job.status === 'running') {
+      throw new KeyRotationError('Job is being processed by another runner', 'ROTATION_LOCKED', 409);
+    }
+    return job;
+  }
+
+  let job = await prisma.encryption_rotation_jobs.findUniqueOrThrow({ where: { id: jobId } });
+
+  if (!job.started_at) {
+    job = await prisma.encryption_rotation_jobs.update({
+      where: { id: jobId },
+      data: { started_at: now },
+    });
+  }
+
+  // The newest key must not change under a running job
+  const currentVersion = getEncryptionService().getCurrentKeyVersion();
+  if (currentVersion !== job.target_key_version) {
+    job = await prisma.encryption_rotation_jobs.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        locked_until: null,
+        completed_at: new Date(),
+        errors: [
+          ...((job.errors as unknown as KeyRotationFailure[]) || []),
+          {
+            table: 'encryption_rotation_jobs',
+            id: jobId,
+            error: `Newest key version changed from ${job.target_key_version} to ${currentVersion}`,
+            at: new Date().toISOString(),
+          },
+        ] as unknown as Prisma.InputJsonValue,
+      },
+    });
+    return toProgress(job);
+  }
+
+  const deadline = Date.now() + timeBudgetMs;
+
+  try {
+    while (job.phase !== 'done' && Date.now() < deadline) {
+      const batch = job.phase === 'secrets'
+        ? await rotateSecretsBatch(job.cursor_id, job.batch_size)
+        : await rotatePluginDataBatch(job.cursor_id, job.batch_size);
+
+      // An empty or short batch means the current table is exhausted
+      const phaseDone = batch.processed < job.batch_size;
+      const nextPhase: KeyRotationPhase = phaseDone
+        ? (job.phase === 'secrets' ? 'plugin_data' : 'done')
+        : (job.phase as KeyRotationPhase);
+
+      const errors = [
+        ...((job.errors as unknown as KeyRotationFailure[]) || []),
+        ...batch.errors,
+      ].slice(-MAX_RECORDED_ERRORS);
+
+      job = await prisma.encryption_rotation_jobs.update({
+        where: { id: jobId },
+        data: {
+          phase: nextPhase,
+          cursor_id: phaseDone ? null : batch.lastId,
+          processed_count: { increment: batch.processed },
+          reencrypted_count: { increment: batch.reencrypted },
+          skipped_count: { increment: batch.skipped },
+          failed_count: { increment: batch.errors.length },
+          errors: errors as unknown as Prisma.InputJsonValue,
+          locked_until: new Date(Date.now() + LEASE_MS),
+        },
+      });
+
+      // Stop if the job was cancelled while this batch ran
+      const { status } = await prisma.encryption_rotation_jobs.findUniqueOrThrow({
+        where: { id: jobId },
+        select: { status: true },
+      });
+      if (status === 'cancelled') {
+        return toProgress({ ...job, status });
+      }
+    }
+
+    job = await prisma.encryption_rotation_jobs.update({
+      where: { id: jobId },
+      data: job.phase === 'done'
+        ? {
+            status: job.failed_count > 0 ? 'failed' : 'completed',
+            locked_until: null,
+            completed_at: new Date(),
+          }
+        : { locked_until: null },
+    });
+  } catch (error) {
+    console.error('[KEY-ROTATION] Batch failed, job can be resumed:', error);
+    job = await prisma.encryption_rotation_jobs.update({
+      where: { id: jobId },
+      data: { locked_until: null },
+    });
+    throw error;
+  }
+
+  return toProgress(job);
+}
@@ -0,0 +1,304 @@
+/**
+ * Integration log export
+ * Streams the filtered integration_logs result set as CSV, NDJSON or Parquet. Rows are read
+ * in keyset-paginated batches through the same cursor as the SSE tail, so only one batch
+ * (and for Parquet one row group) is held in memory at a time.
+ */
+
+import { ByteWriter, parquetWriteRows, type BasicType } from 'hyparquet-writer';
+import {
+  fetchLogsAfter,
+  cursorOf,
+  isUuid,
+  LOG_LEVELS,
+  LOG_SOURCES,
+  type LogCursor,
+  type LogStreamFilters,
+  type StreamedLog,
+} from '@/lib/log-stream';
+
+export const LOG_EXPORT_FORMATS = ['csv', 'ndjson', 'parquet'] as const;
+
+export type LogExportFormat = typeof LOG_EXPORT_FORMATS[number];
+
+/** Rows read from the database per query */
+export const LOG_EXPORT_BATCH_SIZE = 1000;
+
+/** Rows per Parquet row group; each group is flushed to the response once written */
+const PARQUET_ROW_GROUP_SIZE = 10000;
+
+/** Bytes buffered before a CSV/NDJSON chunk is handed to the response */
+const TEXT_CHUNK_SIZE = 64 * 1024;
+
+export const LOG_EXPORT_CONTENT_TYPES: Record<LogExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+const EXPORT_COLUMNS: { name: keyof StreamedLog; type: BasicType }[] = [
+  { name: 'id', type: 'STRING' },
+  { name: 'logged_at', type: 'TIMESTAMP' },
+  { name: 'log_sequence', type: 'INT32' },
+  { name: 'log_level', type: 'STRING' },
+  { name: 'log_source', type: 'STRING' },
+  { name: 'log_category', type: 'STRING' },
+  { name: 'integration_name', type: 'STRING' },
+  { name: 'integration_version', type: 'STRING' },
+  { name: 'message', type: 'STRING' },
+  { name: 'company_application_id', type: 'STRING' },
+  { name: 'execution_run_id', type: 'STRING' },
+  { name: 'container_id', type: 'STRING' },
+  { name: 'execution_time_ms', type: 'INT32' },
+  { name: 'memory_usage_mb', type: 'DOUBLE' },
+  { name: 'structured_data', type: 'STRING' },
+  { name: 'metadata', type: 'STRING' },
+];
+
+/** Sorts before every real row, so the first batch starts at the oldest log */
+const START_CURSOR: LogCursor = {
+  loggedAt: '1970-01-01T00:00:00.000000Z',
+  sequence: -1,
+  id: '00000000-0000-0000-0000-000000000000',
+};
+
+export class LogExportError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'LOG_EXPORT_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'LogExportError';
+  }
+}
+
+/**
+ * Validate the export format and the filters shared with the integration-logs list
+ *
+ * @throws LogExportError on an unknown format, level, source, id or date
+ */
+export function parseLogExportQuery(searchParams: URLSearchParams): {
+  format: LogExportFormat;
+  filters: LogStreamFilters;
+} {
+  const format = (searchParams.get('format') || 'csv') as LogExportFormat;
+  if (!LOG_EXPORT_FORMATS.includes(format)) {
+    throw new LogExportError(`Unknown export format: ${format}`, 'INVALID_FORMAT');
+  }
+
+  const filters: LogStreamFilters = {
+    integration: searchParams.get('integration') || undefined,
+    level: searchParams.get('level') || undefined,
+    source: searchParams.get('source') || undefined,
+    category: searchParams.get('category') || undefined,
+    search: searchParams.get('search') || undefined,
+    dateFrom: searchParams.get('dateFrom') || undefined,
+    dateTo: searchParams.get('dateTo') || undefined,
+    executionRunId: searchParams.get('executionRunId') || undefined,
+    companyApplicationId: searchParams.get('companyApplicationId') || undefined,
+  };
+
+  if (filters.level && !(LOG_LEVELS as readonly string[]).includes(filters.level)) {
+    throw new LogExportError(`Unknown log level: ${filters.level}`, 'INVALID_LEVEL');
+  }
+  if (filters.source && !(LOG_SOURCES as readonly string[]).includes(filters.source)) {
+    throw new LogExportError(`Unknown log source: ${filters.source}`, 'INVALID_SOURCE');
+  }
+  for (const key of ['executionRunId', 'companyApplicationId'] as const) {
+    const value = filters[key];
+    if (value && !isUuid(value)) {
+      throw new LogExportError(`Invalid ${key}`, 'INVALID_FILTER');
+    }
+  }
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    const value = filters[key];
+    if (value) {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new LogExportError(`Invalid ${key}`, 'INVALID_FILTER');
+      }
+      filters[key] = date.toISOString();
+    }
+  }
+
+  return { format, filters };
+}
+
+export function logExportFilename(format: LogExportFormat, date: Date = new Date()): string {
+  return `integration-logs-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Every matching log, oldest first, one batch in memory at a time
+ */
+export async function* iterateLogs(
+  companyId: string,
+  filters: LogStreamFilters,
+  batchSize: number = LOG_EXPORT_BATCH_SIZE
+): AsyncGenerator<StreamedLog> {
+  let cursor = START_CURSOR;
+
+  while (true) {
+    const batch = await fetchLogsAfter(companyId, filters, cursor, batchSize);
+    for (const log of batch) yield log;
+
+    const last = batch[batch.length - 1];
+    if (!last || batch.length < batchSize) return;
+    cursor = cursorOf(last);
+  }
+}
+
+function exportValue(log: StreamedLog, column: keyof StreamedLog): string | number | null {
+  const value = log[column];
+  if (value === null || value === undefined) return null;
+  if (column === 'structured_data' || column === 'metadata') return JSON.stringify(value);
+  return value as string | number;
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(values: (string | number | null)[]): string {
+  return values.map(csvField).join(',') + '\r\n';
+}
+
+function toNdjsonLine(log: StreamedLog): string {
+  const row: Record<string, unknown> = {};
+  for (const { name } of EXPORT_COLUMNS) row[name] = log[name] ?? null;
+  return JSON.stringify(row) + '\n';
+}
+
+/**
+ * ByteWriter that hands each flushed row group to the response instead of growing one
+ * buffer for the whole file
+ */
+class StreamingParquetWriter extends ByteWriter {
+  constructor(private emit: (chunk: Uint8Array) => Promise<void>) {
+    super(1024 * 1024);
+  }
+
+  flush(): Promise<void> | void {
+    if (this.index === 0) return;
+    const chunk = new Uint8Array(this.buffer.slice(0, this.index));
+    this.index = 0;
+    return this.emit(chunk);
+  }
+
+  finish(): Promise<void> | void {
+    return this.flush();
+  }
+}
+
+export interface LogExportResult {
+  rowCount: number;
+  /** False when the export stopped early because of an error or a cancelled download */
+  completed: boolean;
+}
+
+/**
+ * Response body for an export; onDone runs once with the number of rows written, whether
+ * the download finished or not
+ */
+export function createLogExportStream(
+  companyId: string,
+  filters: LogStreamFilters,
+  format: LogExportFormat,
+  onDone: (result: LogExportResult) => void | Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let rowCount = 0;
+  let cancelled = false;
+  let finished = false;
+
+  const finish = async (completed: boolean) => {
+    if (finished) return;
+    finished = true;
+    try {
+      await onDone({ rowCount, completed });
+    } catch (error) {
+      console.error('Log export completion handler failed:', error);
+    }
+  };
+
+  // Stop pulling batches once the client goes away
+  async function* rows(): AsyncGenerator<StreamedLog> {
+    for await (const log of iterateLogs(companyId, filters)) {
+      if (cancelled) return;
+      rowCount++;
+      yield log;
+    }
+  }
+
+  // Resolved by pull() when the consumer wants more, so a slow download throttles the reads
+  let drained: (() => void) | null = null;
+  const waitForDrain = () => new Promise<void>(resolve => { drained = resolve; });
+  const releaseDrain = () => {
+    drained?.();
+    drained = null;
+  };
+
+  const run = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    const emit = async (chunk: Uint8Array) => {
+      if (cancelled) return;
+      controller.enqueue(chunk);
+      if ((controller.desiredSize ?? 1) <= 0) await waitForDrain();
+    };
+
+    try {
+      if (format === 'parquet') {
+        await parquetWriteRows({
+          writer: new StreamingParquetWriter(emit),
+          rows: (async function* () {
+            for await (const log of rows()) {
+              const row: Record<string, unknown> = {};
+              for (const { name } of EXPORT_COLUMNS) {
+                row[name] = name === 'logged_at' ? new Date(log.logged_at) : exportValue(log, name);
+              }
+              yield row;
+            }
+          })(),
+          columns: EXPORT_COLUMNS.map(({ name, type }) => ({ name, type, nullable: true })),
+          rowGroupSize: PARQUET_ROW_GROUP_SIZE,
+        });
+      } else {
+        let pending = format === 'csv' ? toCsvRow(EXPORT_COLUMNS.map(c => c.name)) : '';
+
+        for await (const log of rows()) {
+          pending += format === 'csv'
+            ? toCsvRow(EXPORT_COLUMNS.map(c => exportValue(log, c.name)))
+            : toNdjsonLine(log);
+
+          if (pending.length >= TEXT_CHUNK_SIZE) {
+            await emit(encoder.encode(pending));
+            pending = '';
+          }
+        }
+        if (pending) await emit(encoder.encode(pending));
+      }
+
+      await finish(!cancelled);
+      if (!cancelled) controller.close();
+    } catch (error) {
+      console.error('Log export failed:', error);
+      await finish(false);
+      if (!cancelled) controller.error(error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      void run(controller);
+    },
+    pull() {
+      releaseDrain();
+    },
+    cancel() {
+      cancelled = true;
+      releaseDrain();
+    },
+  });
+}
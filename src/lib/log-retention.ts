@@ -0,0 +1,398 @@
+/**
+ * Integration log retention
+ * Per-company retention days for each log level, capped by the company's plan, and the
+ * archival job that moves expired integration_logs rows into gzipped NDJSON files in the
+ * log-archives bucket. Archives are partitioned by company and UTC day so a single day
+ * can be re-hydrated into the logs viewer.
+ */
+
+import { randomUUID } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import prisma from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { LOG_LEVELS, type LogLevel } from '@/lib/log-stream';
+import { refreshDashboardRollups } from '@/lib/dashboard-stats';
+
+export const LOG_ARCHIVE_BUCKET = 'log-archives';
+
+export type RetentionDays = Record<LogLevel, number>;
+
+export const DEFAULT_RETENTION_DAYS: RetentionDays = {
+  debug: 7,
+  info: 30,
+  warn: 90,
+  error: 365,
+  fatal: 365,
+};
+
+/** Longest retention each plan allows for any level; unknown plans get the free cap */
+export const PLAN_MAX_RETENTION_DAYS: Record<string, number> = {
+  free: 30,
+  pro: 180,
+  enterprise: 730,
+};
+
+/** Rows loaded and archived together; one gzip file per UTC day in the batch */
+const ARCHIVE_BATCH_SIZE = 5000;
+
+/** Batches per company per job run, so one busy company cannot hold up the others */
+const MAX_BATCHES_PER_COMPANY = 20;
+
+/** Rows returned when re-hydrating one day of archives */
+export const MAX_REHYDRATED_LOGS = 10000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface RetentionPolicy {
+  days: RetentionDays;
+  plan: string;
+  maxDays: number;
+  /** False while the company runs on the defaults */
+  configured: boolean;
+  updatedAt: Date | null;
+}
+
+export interface ArchiveRunSummary {
+  companies: number;
+  archives: number;
+  archivedRows: number;
+  failures: { companyId: string; error: string }[];
+}
+
+export class LogRetentionError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'LOG_RETENTION_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'LogRetentionError';
+  }
+}
+
+export function planMaxRetentionDays(plan: string | null | undefined): number {
+  return PLAN_MAX_RETENTION_DAYS[(plan || 'free').toLowerCase()] ?? PLAN_MAX_RETENTION_DAYS.free!;
+}
+
+function clampDays(days: RetentionDays, maxDays: number): RetentionDays {
+  return Object.fromEntries(
+    LOG_LEVELS.map(level => [level, Math.min(days[level], maxDays)])
+  ) as RetentionDays;
+}
+
+type PolicyRow = Prisma.log_retention_policiesGetPayload<object>;
+
+function daysOf(row: PolicyRow): RetentionDays {
+  return {
+    debug: row.debug_days,
+    info: row.info_days,
+    warn: row.warn_days,
+    error: row.error_days,
+    fatal: row.fatal_days,
+  };
+}
+
+/**
+ * Effective retention for a company. A stored policy longer than the current plan allows
+ * (e.g. after a downgrade) is clamped rather than rejected.
+ *
+ * @throws LogRetentionError when the company does not exist
+ */
+export async function getRetentionPolicy(companyId: string): Promise<RetentionPolicy> {
+  const company = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { plan: true, log_retention_policies: true },
+  });
+
+  if (!company) {
+    throw new LogRetentionError('Company not found', 'COMPANY_NOT_FOUND', 404);
+  }
+
+  const plan = company.plan || 'free';
+  const maxDays = planMaxRetentionDays(plan);
+  const row = company.log_retention_policies;
+
+  return {
+    days: clampDays(row ? daysOf(row) : DEFAULT_RETENTION_DAYS, maxDays),
+    plan,
+    maxDays,
+    configured: !!row,
+    updatedAt: row?.updated_at ?? null,
+  };
+}
+
+/**
+ * Store retention days; levels left out keep their current value
+ *
+ * @throws LogRetentionError on non-integer days or days above the plan cap
+ */
+export async function updateRetentionPolicy(
+  companyId: string,
+  input: Partial<Record<string, unknown>>,
+  userId: string
+): Promise<RetentionPolicy> {
+  const current = await getRetentionPolicy(companyId);
+  const days: RetentionDays = { ...current.days };
+
+  for (const [level, value] of Object.entries(input)) {
+    if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+      throw new LogRetentionError(`Unknown log level: ${level}`, 'INVALID_LEVEL');
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new LogRetentionError(`Retention for ${level} must be a whole number of days`, 'INVALID_DAYS');
+    }
+    if (value > current.maxDays) {
+      throw new LogRetentionError(
+        `The ${current.plan} plan keeps logs for at most ${current.maxDays} days`,
+        'PLAN_LIMIT_EXCEEDED',
+        403
+      );
+    }
+    days[level as LogLevel] = value;
+  }
+
+  const data = {
+    debug_days: days.debug,
+    info_days: days.info,
+    warn_days: days.warn,
+    error_days: days.error,
+    fatal_days: days.fatal,
+    updated_by: userId,
+    updated_at: new Date(),
+  };
+
+  await prisma.log_retention_policies.upsert({
+    where: { company_id: companyId },
+    create: { company_id: companyId, ...data },
+    update: data,
+  });
+
+  return getRetentionPolicy(companyId);
+}
+
+function archiveRecord(row: Prisma.integration_logsGetPayload<object>) {
+  return {
+    ...row,
+    logged_at: row.logged_at.toISOString(),
+    memory_usage_mb: row.memory_usage_mb === null ? null : Number(row.memory_usage_mb),
+    created_at: row.created_at?.toISOString() ?? null,
+    updated_at: row.updated_at?.toISOString() ?? null,
+  };
+}
+
+type ArchivedLog = ReturnType<typeof archiveRecord>;
+
+/**
+ * Write one day's rows to storage, index the file and delete the rows. The rows are only
+ * deleted after the upload and index insert succeeded.
+ */
+async function archiveDay(
+  companyId: string,
+  day: string,
+  rows: Prisma.integration_logsGetPayload<object>[]
+): Promise<number> {
+  const body = gzipSync(rows.map(row => JSON.stringify(archiveRecord(row))).join('\n') + '\n');
+  const storagePath = `${companyId}/${day}/${Date.now()}-${randomUUID()}.ndjson.gz`;
+
+  const supabase = createSupabaseServiceClient();
+  const { error } = await supabase.storage
+    .from(LOG_ARCHIVE_BUCKET)
+    .upload(storagePath, body, { contentType: 'application/gzip', upsert: false });
+
+  if (error) {
+    throw new LogRetentionError(`Archive upload failed: ${error.message}`, 'ARCHIVE_UPLOAD_FAILED', 500);
+  }
+
+  await prisma.$transaction([
+    prisma.log_archives.create({
+      data: {
+        company_id: companyId,
+        log_date: new Date(`${day}T00:00:00.000Z`),
+        storage_path: storagePath,
+        row_count: rows.length,
+        byte_size: body.byteLength,
+        levels: Array.from(new Set(rows.map(row => row.log_level))).sort(),
+        first_logged_at: rows[0]!.logged_at,
+        last_logged_at: rows[rows.length - 1]!.logged_at,
+      },
+    }),
+    prisma.integration_logs.deleteMany({
+      where: { company_id: companyId, id: { in: rows.map(row => row.id) } },
+    }),
+  ]);
+
+  return rows.length;
+}
+
+/**
+ * Move one company's expired rows to storage
+ */
+export async function archiveCompanyLogs(
+  companyId: string,
+  now: Date = new Date()
+): Promise<{ archives: number; archivedRows: number }> {
+  const policy = await getRetentionPolicy(companyId);
+  // Dashboard rollups must count the rows before they leave the table
+  await refreshDashboardRollups(companyId, true);
+
+  const where: Prisma.integration_logsWhereInput = {
+    company_id: companyId,
+    OR: LOG_LEVELS.map(level => ({
+      log_level: level,
+      logged_at: { lt: new Date(now.getTime() - policy.days[level] * 24 * 60 * 60 * 1000) },
+    })),
+  };
+
+  let archives = 0;
+  let archivedRows = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_COMPANY; batch++) {
+    const rows = await prisma.integration_logs.findMany({
+      where,
+      orderBy: [{ logged_at: 'asc' }, { id: 'asc' }],
+      take: ARCHIVE_BATCH_SIZE,
+    });
+    if (rows.length === 0) break;
+
+    const byDay = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const day = row.logged_at.toISOString().slice(0, 10);
+      const dayRows = byDay.get(day);
+      if (dayRows) dayRows.push(row);
+      else byDay.set(day, [row]);
+    }
+
+    for (const [day, dayRows] of byDay) {
+      archivedRows += await archiveDay(companyId, day, dayRows);
+      archives++;
+    }
+
+    if (rows.length < ARCHIVE_BATCH_SIZE) break;
+  }
+
+  return { archives, archivedRows };
+}
+
+/**
+ * Archive expired logs of every company that has any. A failing company is reported and
+ * skipped so the rest still get archived.
+ */
+export async function archiveExpiredLogs(now: Date = new Date()): Promise<ArchiveRunSummary> {
+  // The shortest possible retention is one day, so newer rows never need a look
+  const candidates = await prisma.integration_logs.findMany({
+    where: { logged_at: { lt: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+    distinct: ['company_id'],
+    select: { company_id: true },
+  });
+
+  const summary: ArchiveRunSummary = { companies: 0, archives: 0, archivedRows: 0, failures: [] };
+
+  for (const { company_id } of candidates) {
+    try {
+      const result = await archiveCompanyLogs(company_id, now);
+      if (result.archivedRows > 0) summary.companies++;
+      summary.archives += result.archives;
+      summary.archivedRows += result.archivedRows;
+    } catch (error) {
+      console.error(`Log archival failed for company ${company_id}:`, error);
+      summary.failures.push({
+        companyId: company_id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Archive files of a company, newest day first
+ */
+export async function listLogArchives(companyId: string, options: { from?: string; to?: string } = {}) {
+  for (const value of [options.from, options.to]) {
+    if (value && !DATE_PATTERN.test(value)) {
+      throw new LogRetentionError('Dates must be YYYY-MM-DD', 'INVALID_DATE');
+    }
+  }
+
+  const archives = await prisma.log_archives.findMany({
+    where: {
+      company_id: companyId,
+      ...((options.from || options.to) && {
+        log_date: {
+          ...(options.from && { gte: new Date(`${options.from}T00:00:00.000Z`) }),
+          ...(options.to && { lte: new Date(`${options.to}T00:00:00.000Z`) }),
+        },
+      }),
+    },
+    orderBy: [{ log_date: 'desc' }, { created_at: 'desc' }],
+    take: 500,
+  });
+
+  return archives.map(archive => ({
+    id: archive.id,
+    log_date: archive.log_date.toISOString().slice(0, 10),
+    row_count: archive.row_count,
+    byte_size: archive.byte_size,
+    levels: archive.levels,
+    first_logged_at: archive.first_logged_at,
+    last_logged_at: archive.last_logged_at,
+    created_at: archive.created_at,
+  }));
+}
+
+/**
+ * Download and decompress every archive of one UTC day, newest log first like the live
+ * integration-logs list
+ *
+ * @throws LogRetentionError on a malformed date or a failed download
+ */
+export async function rehydrateArchivedDay(
+  companyId: string,
+  day: string,
+  filters: { integration?: string; companyApplicationId?: string; executionRunId?: string } = {}
+): Promise<{ logs: ArchivedLog[]; truncated: boolean; archives: number }> {
+  if (!DATE_PATTERN.test(day) || Number.isNaN(Date.parse(day))) {
+    throw new LogRetentionError('Date must be YYYY-MM-DD', 'INVALID_DATE');
+  }
+
+  const archives = await prisma.log_archives.findMany({
+    where: { company_id: companyId, log_date: new Date(`${day}T00:00:00.000Z`) },
+    select: { storage_path: true },
+  });
+
+  const supabase = createSupabaseServiceClient();
+  const logs: ArchivedLog[] = [];
+
+  for (const archive of archives) {
+    const { data, error } = await supabase.storage.from(LOG_ARCHIVE_BUCKET).download(archive.storage_path);
+    if (error || !data) {
+      throw new LogRetentionError(
+        `Archive download failed: ${error?.message || 'empty file'}`,
+        'ARCHIVE_DOWNLOAD_FAILED',
+        500
+      );
+    }
+
+    const lines = gunzipSync(Buffer.from(await data.arrayBuffer())).toString('utf8').split('\n');
+    for (const line of lines) {
+      if (!line) continue;
+      const log = JSON.parse(line) as ArchivedLog;
+      if (filters.integration && log.integration_name !== filters.integration) continue;
+      if (filters.companyApplicationId && log.company_application_id !== filters.companyApplicationId) continue;
+      if (filters.executionRunId && log.execution_run_id !== filters.executionRunId) continue;
+      logs.push(log);
+    }
+  }
+
+  logs.sort((a, b) =>
+    b.logged_at.localeCompare(a.logged_at) || (b.log_sequence ?? 0) - (a.log_sequence ?? 0)
+  );
+
+  return {
+    logs: logs.slice(0, MAX_REHYDRATED_LOGS),
+    truncated: logs.length > MAX_REHYDRATED_LOGS,
+    archives: archives.length,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Integration log tailing
+ * Cursor-based reads of integration_logs for the SSE stream. Rows are ordered by
+ * (logged_at, log_sequence, id) and the cursor keeps logged_at as text so microsecond
+ * timestamps survive the round trip through the browser.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { ACTIVE_RUN_STATUSES } from '@/lib/execution-runs';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'] as const;
+export const LOG_SOURCES = ['integration', 'docker', 'executor', 'api', 'system'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogCursor {
+  loggedAt: string;
+  sequence: number;
+  id: string;
+}
+
+export interface LogStreamFilters {
+  companyApplicationId?: string;
+  executionRunId?: string;
+  integration?: string;
+  level?: string;
+  source?: string;
+  category?: string;
+  /** Substring of the message, matched case-insensitively */
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface StreamedLog {
+  id: string;
+  company_application_id: string;
+  execution_run_id: string | null;
+  log_level: string;
+  log_source: string;
+  log_category: string | null;
+  message: string;
+  structured_data: Prisma.JsonValue;
+  integration_name: string;
+  integration_version: string | null;
+  container_id: string | null;
+  logged_at: string;
+  log_sequence: number;
+  execution_time_ms: number | null;
+  memory_usage_mb: number | null;
+  metadata: Prisma.JsonValue;
+}
+
+/** Rows sent per poll; a busy run catches up over several polls */
+export const LOG_STREAM_BATCH_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function encodeLogCursor(cursor: LogCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * @returns null when the value is not a cursor produced by encodeLogCursor
+ */
+export function decodeLogCursor(value: string | null | undefined): LogCursor | null {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return isValidCursor(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isValidCursor(value: unknown): value is LogCursor {
+  const cursor = value as LogCursor;
+  return !!cursor &&
+    typeof cursor.loggedAt === 'string' &&
+    !Number.isNaN(Date.parse(cursor.loggedAt)) &&
+    Number.isInteger(cursor.sequence) &&
+    typeof cursor.id === 'string' &&
+    UUID_PATTERN.test(cursor.id);
+}
+
+export function cursorOf(log: Pick<StreamedLog, 'logged_at' | 'log_sequence' | 'id'>): LogCursor {
+  return { loggedAt: log.logged_at, sequence: log.log_sequence, id: log.id };
+}
+
+function filterSql(companyId: string, filters: LogStreamFilters): Prisma.Sql {
+  const conditions = [Prisma.sql`company_id = ${companyId}::uuid`];
+
+  if (filters.companyApplicationId) {
+    conditions.push(Prisma.sql`company_application_id = ${filters.companyApplicationId}::uuid`);
+  }
+  if (filters.executionRunId) {
+    conditions.push(Prisma.sql`execution_run_id = ${filters.executionRunId}::uuid`);
+  }
+  if (filters.integration) conditions.push(Prisma.sql`integration_name = ${filters.integration}`);
+  if (filters.level) conditions.push(Prisma.sql`log_level = ${filters.level}`);
+  if (filters.source) conditions.push(Prisma.sql`log_source = ${filters.source}`);
+  if (filters.category) conditions.push(Prisma.sql`log_category = ${filters.category}`);
+  if (filters.search) conditions.push(Prisma.sql`message ILIKE ${`%${filters.search}%`}`);
+  if (filters.dateFrom) conditions.push(Prisma.sql`logged_at >= ${filters.dateFrom}::timestamptz`);
+  if (filters.dateTo) conditions.push(Prisma.sql`logged_at <= ${filters.dateTo}::timestamptz`);
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Logs written after the cursor, oldest first
+ */
+export async function fetchLogsAfter(
+  companyId: string,
+  filters: LogStreamFilters,
+  cursor: LogCursor,
+  limit: number = LOG_STREAM_BATCH_SIZE
+): Promise<StreamedLog[]> {
+  const rows = await prisma.$queryRaw<StreamedLog[]>`
+    SELECT
+      id,
+      company_application_id,
+      execution_run_id,
+      log_level,
+      log_source,
+      log_category,
+      message,
+      structured_data,
+      integration_name,
+      integration_version,
+      container_id,
+      to_char(logged_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS logged_at,
+      COALESCE(log_sequence, 0)                                             AS log_sequence,
+      execution_time_ms,
+      memory_usage_mb::float8                                               AS memory_usage_mb,
+      metadata
+    FROM public.integration_logs
+    WHERE ${filterSql(companyId, filters)}
+      AND (logged_at, COALESCE(log_sequence, 0), id)
+        > (${cursor.loggedAt}::timestamptz, ${cursor.sequence}::int, ${cursor.id}::uuid)
+    ORDER BY logged_at, COALESCE(log_sequence, 0), id
+    LIMIT ${limit}
+  `;
+
+  return rows;
+}
+
+/**
+ * Cursor pointing at the newest matching log, so tailing starts with the next one.
+ * Without any logs yet the cursor sits at the current time.
+ */
+export async function latestLogCursor(companyId: string, filters: LogStreamFilters): Promise<LogCursor> {
+  const rows = await prisma.$queryRaw<{ logged_at: string; log_sequence: number; id: string }[]>`
+    SELECT
+      to_char(logged_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS logged_at,
+      COALESCE(log_sequence, 0)                                             AS log_sequence,
+      id
+    FROM public.integration_logs
+    WHERE ${filterSql(companyId, filters)}
+    ORDER BY logged_at DESC, COALESCE(log_sequence, 0) DESC, id DESC
+    LIMIT 1
+  `;
+
+  const latest = rows[0];
+  return latest
+    ? cursorOf(latest)
+    : { loggedAt: new Date().toISOString(), sequence: 0, id: '00000000-0000-0000-0000-000000000000' };
+}
+
+/**
+ * Whether the run has finished writing, so a run-scoped stream can end
+ */
+export async function isRunFinished(companyId: string, executionRunId: string): Promise<boolean> {
+  const run = await prisma.execution_runs.findFirst({
+    where: { id: executionRunId, company_id: companyId },
+    select: { status: true },
+  });
+
+  return !run || !(ACTIVE_RUN_STATUSES as string[]).includes(run.status);
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MfaError, RECOVERY_CODE_COUNT, generateRecoveryCodes, redeemRecoveryCode } from './mfa';
+
+interface CodeRow {
+  user_id: string;
+  code_hash: string;
+  used_at: Date | null;
+}
+
+const { codes, deleteFactor, logAuthEvent } = vi.hoisted(() => ({
+  codes: [] as CodeRow[],
+  deleteFactor: vi.fn(async () => ({ error: null })),
+  logAuthEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    user_mfa_recovery_codes: {
+      deleteMany: async ({ where }: { where: { user_id: string } }) => {
+        const kept = codes.filter(row => row.user_id !== where.user_id);
+        codes.splice(0, codes.length, ...kept);
+      },
+      createMany: async ({ data }: { data: Omit<CodeRow, 'used_at'>[] }) => {
+        codes.push(...data.map(row => ({ ...row, used_at: null })));
+      },
+      updateMany: async ({ where, data }: { where: Omit<CodeRow, 'used_at'>; data: { used_at: Date } }) => {
+        const matching = codes.filter(row =>
+          row.user_id === where.user_id && row.code_hash === where.code_hash && row.used_at === null
+        );
+        matching.forEach(row => { row.used_at = data.used_at; });
+        return { count: matching.length };
+      },
+    },
+    mfa_factors: {
+      findMany: async () => [{ id: 'factor-1' }],
+    },
+  },
+}));
+
+vi.mock('@/lib/audit-logger', () => ({
+  auditLogger: { logAuditEvent: vi.fn(), logAuthEvent },
+}));
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseServiceClient: () => ({ auth: { admin: { mfa: { deleteFactor } } } }),
+}));
+
+const actor = { userId: 'user-1', email: 'user@example.com' };
+const verified = { aal: 'aal2' as const, enrolled: true };
+
+async function expectMfaError(promise: Promise<unknown>, code: string) {
+  const error = (await promise.catch(caught => caught)) as MfaError;
+  expect(error).toBeInstanceOf(MfaError);
+  expect(error.code).toBe(code);
+}
+
+describe('MFA recovery codes', () => {
+  beforeEach(() => {
+    codes.length = 0;
+    deleteFactor.mockClear();
+    logAuthEvent.mockClear();
+  });
+
+  it('generates distinct dashed codes and stores only their hashes', async () => {
+    const generated = await generateRecoveryCodes(verified, actor);
+
+    expect(generated).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(generated).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of generated) {
+      expect(code).toMatch(/^[A-HJKMNP-Z2-9]{5}-[A-HJKMNP-Z2-9]{5}$/);
+    }
+    expect(codes.map(row => row.code_hash)).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^[0-9a-f]{64}$/)])
+    );
+    expect(codes.some(row => generated.includes(row.code_hash))).toBe(false);
+  });
+
+  it('only generates codes in a session that verified a factor', async () => {
+    await expectMfaError(generateRecoveryCodes({ aal: 'aal2', enrolled: false }, actor), 'MFA_NOT_ENROLLED');
+    await expectMfaError(generateRecoveryCodes({ aal: 'aal1', enrolled: true }, actor), 'MFA_VERIFICATION_REQUIRED');
+  });
+
+  it.each([
+    ['as shown', (code: string) => code],
+    ['in lower case', (code: string) => code.toLowerCase()],
+    ['without the dash', (code: string) => code.replace('-', '')],
+    ['with spaces', (code: string) => ` ${code.replace('-', ' ')} `],
+  ])('accepts a code typed %s and removes the factors', async (_, format) => {
+    const [code] = await generateRecoveryCodes(verified, actor);
+
+    await redeemRecoveryCode(format(code!), actor);
+
+    expect(deleteFactor).toHaveBeenCalledWith({ id: 'factor-1', userId: 'user-1' });
+    expect(codes).toHaveLength(0);
+  });
+
+  it('rejects a wrong code and counts it as a failed sign-in', async () => {
+    await generateRecoveryCodes(verified, actor);
+
+    await expectMfaError(redeemRecoveryCode('AAAAA-AAAAA', actor), 'INVALID_RECOVERY_CODE');
+    expect(logAuthEvent).toHaveBeenCalledWith(
+      'AUTH_FAILURE', 'user-1', 'user@example.com', undefined, undefined, 'Invalid MFA recovery code'
+    );
+    expect(deleteFactor).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code of another user', async () => {
+    const [code] = await generateRecoveryCodes(verified, actor);
+
+    await expectMfaError(redeemRecoveryCode(code!, { userId: 'user-2' }), 'INVALID_RECOVERY_CODE');
+  });
+
+  it('accepts a code only once', async () => {
+    const [code] = await generateRecoveryCodes(verified, actor);
+    await redeemRecoveryCode(code!, actor);
+
+    await expectMfaError(redeemRecoveryCode(code!, actor), 'INVALID_RECOVERY_CODE');
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Multi-factor authentication
+ * Users enroll TOTP factors with Supabase Auth (supabase.auth.mfa) from their profile. A
+ * session that has verified a factor is at AAL2; a user with a verified factor signs in at
+ * AAL1 and is asked for a code to step up.
+ *
+ * This module covers what Supabase does not:
+ * - Recovery codes: RECOVERY_CODE_COUNT one-time codes, stored as SHA-256 hashes. Redeeming
+ *   one removes the user's factors, so someone who lost their authenticator can sign in and
+ *   enroll a new one. Wrong codes count as failed sign-ins for the account lock.
+ * - The company policy: with companies.require_mfa set, checkMfaRequirement refuses members
+ *   without a verified factor or whose session is not at AAL2. Every company access check
+ *   applies it: authenticateCompanyUser, checkCompanyAccess and checkCompanyPermission.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import prisma from '@/lib/prisma';
+import { auditLogger } from '@/lib/audit-logger';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Unambiguous characters only: no 0/O or 1/I/L
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_LENGTH = 10;
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+/** MFA state of an authenticated session */
+export interface MfaState {
+  /** Assurance level of the session: aal2 once a factor was verified in it */
+  aal: AssuranceLevel;
+  /** The user has at least one verified factor */
+  enrolled: boolean;
+}
+
+export interface ActorInfo {
+  userId: string;
+  email?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/** Why a session does not meet a company's MFA requirement */
+export interface MfaRequirementFailure {
+  code: 'MFA_ENROLLMENT_REQUIRED' | 'MFA_VERIFICATION_REQUIRED';
+  message: string;
+}
+
+export class MfaError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'MFA_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+/**
+ * The aal claim of a Supabase access token. Only call this with a token the auth server
+ * has already accepted (getUser); the signature is not checked here.
+ */
+export function getSessionAal(accessToken: string | undefined): AssuranceLevel {
+  const payload = accessToken?.split('.')[1];
+  if (!payload) return 'aal1';
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return claims.aal === 'aal2' ? 'aal2' : 'aal1';
+  } catch {
+    return 'aal1';
+  }
+}
+
+/** Whether a Supabase user (from getUser) has a verified factor */
+export function hasVerifiedFactor(user: { factors?: { status: string }[] | null }): boolean {
+  return (user.factors ?? []).some(factor => factor.status === 'verified');
+}
+
+export function getMfaState(
+  user: { factors?: { status: string }[] | null },
+  accessToken: string | undefined
+): MfaState {
+  return {
+    aal: getSessionAal(accessToken),
+    enrolled: hasVerifiedFactor(user),
+  };
+}
+
+/**
+ * Check a session against a company's MFA requirement. A caller without an MFA state (no
+ * user session) does not meet it.
+ */
+export function checkMfaRequirement(requireMfa: boolean, mfa: MfaState | undefined): MfaRequirementFailure | null {
+  if (!requireMfa) return null;
+
+  if (!mfa?.enrolled) {
+    return {
+      code: 'MFA_ENROLLMENT_REQUIRED',
+      message: 'This company requires multi-factor authentication. Set up an authenticator app in your profile.',
+    };
+  }
+  if (mfa.aal !== 'aal2') {
+    return {
+      code: 'MFA_VERIFICATION_REQUIRED',
+      message: 'This company requires multi-factor authentication. Sign in again with your authenticator code.',
+    };
+  }
+  return null;
+}
+
+/** checkMfaRequirement for routes that have not loaded the company row */
+export async function checkCompanyMfaRequirement(
+  companyId: string,
+  mfa: MfaState | undefined
+): Promise<MfaRequirementFailure | null> {
+  const company = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { require_mfa: true },
+  });
+  return checkMfaRequirement(company?.require_mfa ?? false, mfa);
+}
+
+/**
+ * MFA state of the cookie session a server Supabase client holds. Call it after
+ * supabase.auth.getUser() accepted the session.
+ */
+export async function getSessionMfaState(
+  supabase: SupabaseClient<any, any, any>,
+  user: { factors?: { status: string }[] | null }
+): Promise<MfaState> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return getMfaState(user, session?.access_token);
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Users type codes with or without the dash and in any case
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    { length: RECOVERY_CODE_LENGTH },
+    () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  );
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+/** How many unused recovery codes a user has and when they were generated */
+export async function getRecoveryCodeStatus(userId: string) {
+  const codes = await prisma.user_mfa_recovery_codes.findMany({
+    where: { user_id: userId },
+    select: { used_at: true, created_at: true },
+  });
+
+  return {
+    remaining: codes.filter(code => !code.used_at).length,
+    generatedAt: codes[0]?.created_at ?? null,
+  };
+}
+
+/**
+ * Replace a user's recovery codes with new ones. The session must be at AAL2, so only
+ * someone holding the factor can see new codes.
+ *
+ * @returns The codes in clear; they are not retrievable later
+ */
+export async function generateRecoveryCodes(mfa: MfaState, actor: ActorInfo): Promise<string[]> {
+  if (!mfa.enrolled) {
+    throw new MfaError('Enroll an authenticator app before generating recovery codes', 'MFA_NOT_ENROLLED');
+  }
+  if (mfa.aal !== 'aal2') {
+    throw new MfaError('Verify a code from your authenticator app first', 'MFA_VERIFICATION_REQUIRED', 403);
+  }
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.user_mfa_recovery_codes.deleteMany({ where: { user_id: actor.userId } }),
+    prisma.user_mfa_recovery_codes.createMany({
+      data: codes.map(code => ({ user_id: actor.userId, code_hash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  await auditLogger.logAuditEvent({
+    table_name: 'user_mfa_recovery_codes',
+    operation: 'INSERT',
+    new_data: { count: codes.length },
+    user_id: actor.userId,
+    ip_address: actor.ipAddress,
+    user_agent: actor.userAgent,
+    metadata: { action: 'mfa_recovery_codes_generated' },
+  });
+
+  return codes;
+}
+
+/**
+ * Redeem a recovery code: the code is used up and all of the user's factors are removed,
+ * so the next step is enrolling a new authenticator. Remaining codes are deleted with them.
+ *
+ * @throws MfaError when the code is not one of the user's unused codes
+ */
+export async function redeemRecoveryCode(code: string, actor: ActorInfo): Promise<void> {
+  const codeHash = hashRecoveryCode(code);
+
+  // Marking the code used in the same statement that finds it stops a code being used twice
+  const { count } = await prisma.user_mfa_recovery_codes.updateMany({
+    where: { user_id: actor.userId, code_hash: codeHash, used_at: null },
+    data: { used_at: new Date() },
+  });
+
+  if (count === 0) {
+    await auditLogger.logAuthEvent(
+      'AUTH_FAILURE',
+      actor.userId,
+      actor.email,
+      actor.ipAddress,
+      actor.userAgent,
+      'Invalid MFA recovery code'
+    );
+    throw new MfaError('Invalid or already used recovery code', 'INVALID_RECOVERY_CODE');
+  }
+
+  const factors = await prisma.mfa_factors.findMany({
+    where: { user_id: actor.userId },
+    select: { id: true },
+  });
+
+  const supabase = createSupabaseServiceClient();
+  for (const factor of factors) {
+    const { error } = await supabase.auth.admin.mfa.deleteFactor({ id: factor.id, userId: actor.userId });
+    if (error) {
+      throw new Error(`Failed to remove MFA factor: ${error.message}`);
+    }
+  }
+
+  await prisma.user_mfa_recovery_codes.deleteMany({ where: { user_id: actor.userId } });
+
+  await auditLogger.logAuditEvent({
+    table_name: 'mfa_factors',
+    operation: 'DELETE',
+    old_data: { factor_count: factors.length },
+    user_id: actor.userId,
+    ip_address: actor.ipAddress,
+    user_agent: actor.userAgent,
+    metadata: { action: 'mfa_recovery_code_redeemed' },
+  });
+}
+
+/**
+ * The company's MFA policy and which members would be blocked by it
+ */
+export async function getCompanyMfaPolicy(companyId: string) {
+  const company = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { require_mfa: true },
+  });
+  if (!company) {
+    throw new MfaError('Company not found', 'COMPANY_NOT_FOUND', 404);
+  }
+
+  const members = await prisma.company_users.findMany({
+    where: { company_id: companyId },
+    select: { user_id: true, role: true },
+  });
+  const users = await prisma.users.findMany({
+    where: { id: { in: members.map(member => member.user_id) } },
+    select: {
+      id: true,
+      email: true,
+      mfa_factors: { where: { status: 'verified' }, select: { id: true } },
+    },
+  });
+  const usersById = new Map(users.map(user => [user.id, user]));
+
+  return {
+    requireMfa: company.require_mfa,
+    members: members.map(member => {
+      const user = usersById.get(member.user_id);
+      return {
+        user_id: member.user_id,
+        email: user?.email ?? null,
+        role: member.role,
+        enrolled: (user?.mfa_factors.length ?? 0) > 0,
+      };
+    }),
+  };
+}
+
+/**
+ * Turn the company's MFA requirement on or off. Turning it on needs the actor's own session
+ * at AAL2, so they cannot lock themselves out.
+ */
+export async function setCompanyMfaRequirement(
+  companyId: string,
+  requireMfa: boolean,
+  mfa: MfaState | undefined,
+  actor: ActorInfo
+) {
+  if (requireMfa && mfa?.aal !== 'aal2') {
+    throw new MfaError(
+      'Enroll an authenticator app and sign in with it before requiring MFA for the company',
+      'MFA_VERIFICATION_REQUIRED',
+      403
+    );
+  }
+
+  const previous = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { require_mfa: true },
+  });
+  if (!previous) {
+    throw new MfaError('Company not found', 'COMPANY_NOT_FOUND', 404);
+  }
+
+  await prisma.companies.update({
+    where: { id: companyId },
+    data: { require_mfa: requireMfa, updated_at: new Date() },
+  });
+
+  await auditLogger.logAuditEvent({
+    table_name: 'companies',
+    operation: 'UPDATE',
+    old_data: { require_mfa: previous.require_mfa },
+    new_data: { require_mfa: requireMfa },
+    user_id: actor.userId,
+    ip_address: actor.ipAddress,
+    user_agent: actor.userAgent,
+    metadata: { action: 'company_mfa_policy_updated', company_id: companyId },
+  });
+
+  return getCompanyMfaPolicy(companyId);
+}
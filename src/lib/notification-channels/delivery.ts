@@ -0,0 +1,432 @@
+/**
+ * Notification channel delivery
+ * Sends an integration notification to every channel enabled in the integration's
+ * notification_channels, retrying transient failures with exponential backoff, and records
+ * one notification_deliveries row per channel. Test messages get a single attempt so the
+ * request that sends them returns quickly.
+ *
+ * Webhook hosts must resolve to public addresses; requests connect to the address that was
+ * checked (see src/lib/outbound-http.ts).
+ *
+ * Set NOTIFICATION_WEBHOOK_SINK_URL to send every webhook to a local HTTP sink instead
+ * (e.g. `pnpm notification-sink`); the real URL is passed in the X-Original-Webhook-Url header.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { emailLink } from '@/lib/email/email-service';
+import { sendIntegrationNotificationEmail } from '@/lib/email/sendIntegrationNotificationEmail';
+import { OutboundRequestError, postToPublicUrl, resolvesToPublicAddress } from '@/lib/outbound-http';
+import {
+  ChannelMessage,
+  NotificationSeverity,
+  formatDiscordMessage,
+  formatSlackMessage,
+  formatWhatsAppMessage,
+} from './formatters';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationChannelSettings,
+  channelTarget,
+  maskChannelTarget,
+  validateChannelTarget,
+} from './validation';
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 15 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+export const MAX_DELIVERIES_PAGE_SIZE = 100;
+
+export interface IntegrationNotification {
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  fields?: Array<{ label: string; value: string }>;
+  /** App path, e.g. `/companies/{id}/integrations/{appId}/settings` */
+  actionPath?: string;
+}
+
+export interface DeliveryResult {
+  channel: NotificationChannel;
+  target: string;
+  status: 'sent' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export class ChannelDeliveryError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'CHANNEL_DELIVERY_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'ChannelDeliveryError';
+  }
+}
+
+/** One failed attempt; retryable failures are tried again after a backoff */
+class AttemptError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean,
+    public responseStatus: number | null = null,
+    public retryAfterMs: number | null = null
+  ) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  // Jitter keeps retries of many deliveries from arriving together
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS);
+}
+
+async function postWebhook(channel: NotificationChannel, url: string, payload: Record<string, unknown>): Promise<number> {
+  const sink = process.env.NOTIFICATION_WEBHOOK_SINK_URL;
+  const body = JSON.stringify(payload);
+
+  let response: { status: number; ok: boolean; retryAfter: string | null };
+  try {
+    if (sink) {
+      // The local sink is the only private address notifications may reach
+      const sinkResponse = await fetch(`${sink.replace(/\/$/, '')}/${channel}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Original-Webhook-Url': url },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      response = { status: sinkResponse.status, ok: sinkResponse.ok, retryAfter: sinkResponse.headers.get('retry-after') };
+    } else {
+      const publicResponse = await postToPublicUrl(url, body, {
+        headers: { 'Content-Type': 'application/json' },
+        timeoutMs: REQUEST_TIMEOUT_MS,
+        responseBodyLimit: 0,
+      });
+      const retryAfter = publicResponse.headers['retry-after'];
+      response = { status: publicResponse.status, ok: publicResponse.ok, retryAfter: typeof retryAfter === 'string' ? retryAfter : null };
+    }
+  } catch (error) {
+    // A host resolving into a private network will not be delivered to on retry either
+    const retryable = !(error instanceof OutboundRequestError);
+    throw new AttemptError(error instanceof Error ? error.message : 'Request failed', retryable);
+  }
+
+  if (response.ok) return response.status;
+
+  // The response body is not included: errors are shown in the delivery log
+  const retryable = response.status === 429 || response.status >= 500;
+  throw new AttemptError(`${channel} webhook returned ${response.status}`, retryable, response.status, retryAfterMs(response.retryAfter));
+}
+
+const PUBLIC_HOST_ERROR = 'Webhook URLs must resolve to a public address';
+
+/**
+ * Check that the webhook host of every enabled channel resolves to public addresses. Run it
+ * after validateChannelSettings; the form cannot resolve hosts.
+ *
+ * @returns Error messages keyed by channel; empty when all hosts are public
+ */
+export async function validateChannelHosts(settings: NotificationChannelSettings): Promise<Partial<Record<NotificationChannel, string>>> {
+  const errors: Partial<Record<NotificationChannel, string>> = {};
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const target = channel === 'email' ? null : channelTarget(settings, channel);
+    if (target && !(await resolvesToPublicAddress(new URL(target).hostname))) {
+      errors[channel] = PUBLIC_HOST_ERROR;
+    }
+  }
+  return errors;
+}
+
+interface DeliveryContext {
+  companyId: string;
+  companyApplicationId: string;
+  applicationId: string;
+  eventType: string;
+  isTest: boolean;
+  actionPath?: string;
+  userId?: string | null;
+}
+
+async function attemptDelivery(
+  channel: NotificationChannel,
+  target: string,
+  message: ChannelMessage,
+  context: DeliveryContext
+): Promise<number | null> {
+  switch (channel) {
+    case 'email':
+      try {
+        await sendIntegrationNotificationEmail({
+          to: target,
+          companyId: context.companyId,
+          companyName: message.companyName,
+          integrationId: context.applicationId,
+          integrationName: message.integrationName,
+          title: message.title,
+          message: message.message,
+          severity: message.severity,
+          ...(message.fields && { fields: message.fields }),
+          ...(context.actionPath && { actionPath: context.actionPath }),
+        });
+        return null;
+      } catch (error) {
+        throw new AttemptError(error instanceof Error ? error.message : 'Email delivery failed', true);
+      }
+    case 'slack':
+      return postWebhook(channel, target, formatSlackMessage(message));
+    case 'discord':
+      return postWebhook(channel, target, formatDiscordMessage(message));
+    case 'whatsapp':
+      return postWebhook(channel, target, formatWhatsAppMessage(message));
+  }
+}
+
+/**
+ * Deliver to one channel and record the outcome. Notifications are retried; test messages
+ * are not.
+ */
+async function deliverToChannel(
+  channel: NotificationChannel,
+  target: string,
+  message: ChannelMessage,
+  context: DeliveryContext
+): Promise<DeliveryResult> {
+  const maxAttempts = context.isTest ? 1 : MAX_ATTEMPTS;
+  let attempts = 0;
+  let responseStatus: number | null = null;
+  // Invalid targets are logged as failed without being contacted
+  let error: string | null = validateChannelTarget(channel, target);
+
+  while (!error && attempts < maxAttempts) {
+    attempts++;
+    try {
+      responseStatus = await attemptDelivery(channel, target, message, context);
+      break;
+    } catch (attemptError) {
+      const failure = attemptError instanceof AttemptError
+        ? attemptError
+        : new AttemptError(attemptError instanceof Error ? attemptError.message : String(attemptError), false);
+      responseStatus = failure.responseStatus;
+
+      if (!failure.retryable || attempts >= maxAttempts) {
+        error = failure.message;
+        break;
+      }
+      await sleep(failure.retryAfterMs ?? backoffDelay(attempts));
+    }
+  }
+
+  const result: DeliveryResult = {
+    channel,
+    target: maskChannelTarget(channel, target),
+    status: error ? 'failed' : 'sent',
+    attempts,
+    responseStatus,
+    error,
+  };
+
+  try {
+    await prisma.notification_deliveries.create({
+      data: {
+        company_id: context.companyId,
+        company_application_id: context.companyApplicationId,
+        channel,
+        target: result.target,
+        event_type: context.eventType,
+        title: message.title,
+        status: result.status,
+        attempts,
+        response_status: responseStatus,
+        error,
+        is_test: context.isTest,
+        created_by: context.userId ?? null,
+        delivered_at: error ? null : new Date(),
+      },
+    });
+  } catch (logError) {
+    console.error('Failed to record notification delivery:', logError);
+  }
+
+  return result;
+}
+
+const integrationSelect = {
+  id: true,
+  company_id: true,
+  application_id: true,
+  settings: true,
+  notification_channels: true,
+  application: { select: { name: true } },
+  company: { select: { name: true } },
+} satisfies Prisma.company_applicationsSelect;
+
+type ChannelIntegration = Prisma.company_applicationsGetPayload<{ select: typeof integrationSelect }>;
+
+/**
+ * Channels saved before notification_channels was kept in sync live in settings.notifications
+ */
+function channelSettings(integration: ChannelIntegration): NotificationChannelSettings {
+  const channels = integration.notification_channels as NotificationChannelSettings | null;
+  if (channels && Object.keys(channels).length > 0) return channels;
+  return ((integration.settings as { notifications?: NotificationChannelSettings } | null)?.notifications) ?? {};
+}
+
+function toChannelMessage(integration: ChannelIntegration, notification: IntegrationNotification): ChannelMessage {
+  return {
+    title: notification.title,
+    message: notification.message,
+    severity: notification.severity,
+    companyName: integration.company.name,
+    integrationName: integration.application.name,
+    ...(notification.fields && { fields: notification.fields }),
+    actionUrl: notification.actionPath ? emailLink(null, notification.actionPath) : null,
+  };
+}
+
+/**
+ * Send a notification to every enabled channel of an integration. Channels are delivered
+ * in parallel; a failing channel does not affect the others.
+ */
+export async function dispatchIntegrationNotification(
+  companyApplicationId: string,
+  eventType: string,
+  notification: IntegrationNotification
+): Promise<DeliveryResult[]> {
+  const integration = await prisma.company_applications.findUnique({
+    where: { id: companyApplicationId },
+    select: integrationSelect,
+  });
+  if (!integration) return [];
+
+  const settings = channelSettings(integration);
+  const message = toChannelMessage(integration, notification);
+  const context: DeliveryContext = {
+    companyId: integration.company_id,
+    companyApplicationId: integration.id,
+    applicationId: integration.application_id,
+    eventType,
+    isTest: false,
+    ...(notification.actionPath && { actionPath: notification.actionPath }),
+  };
+
+  const deliveries = NOTIFICATION_CHANNELS.flatMap(channel => {
+    const target = channelTarget(settings, channel);
+    return target ? [deliverToChannel(channel, target, message, context)] : [];
+  });
+
+  return Promise.all(deliveries);
+}
+
+/**
+ * Send a test message to one channel, using the given target or the saved one
+ *
+ * @throws ChannelDeliveryError when the integration is not installed or no target is set
+ */
+export async function sendTestNotification(
+  companyId: string,
+  applicationId: string,
+  channel: NotificationChannel,
+  target: string | undefined,
+  userId: string
+): Promise<DeliveryResult> {
+  const integration = await prisma.company_applications.findUnique({
+    where: { company_id_application_id: { company_id: companyId, application_id: applicationId } },
+    select: integrationSelect,
+  });
+  if (!integration) {
+    throw new ChannelDeliveryError('Application installation not found', 'INTEGRATION_NOT_FOUND', 404);
+  }
+
+  const resolvedTarget = target?.trim() || channelTarget(channelSettings(integration), channel);
+  if (!resolvedTarget) {
+    throw new ChannelDeliveryError(`No ${channel} target is configured`, 'TARGET_MISSING');
+  }
+
+  const validationError = validateChannelTarget(channel, resolvedTarget);
+  if (validationError) {
+    throw new ChannelDeliveryError(validationError, 'INVALID_TARGET');
+  }
+  if (channel !== 'email' && !(await resolvesToPublicAddress(new URL(resolvedTarget).hostname))) {
+    throw new ChannelDeliveryError(PUBLIC_HOST_ERROR, 'INVALID_TARGET');
+  }
+
+  const actionPath = `/companies/${companyId}/integrations/${applicationId}/settings`;
+  const message = toChannelMessage(integration, {
+    title: 'Test notification',
+    message: `This is a test message from Metrics Hub. ${integration.application.name} notifications for ${integration.company.name} will be delivered here.`,
+    severity: 'info',
+    fields: [{ label: 'Channel', value: channel }],
+    actionPath,
+  });
+
+  return deliverToChannel(channel, resolvedTarget, message, {
+    companyId,
+    companyApplicationId: integration.id,
+    applicationId,
+    eventType: 'test',
+    isTest: true,
+    actionPath,
+    userId,
+  });
+}
+
+/**
+ * Delivery log of an integration, newest first
+ *
+ * @throws ChannelDeliveryError when the integration is not installed
+ */
+export async function listNotificationDeliveries(
+  companyId: string,
+  applicationId: string,
+  options: { channel?: NotificationChannel; limit: number; offset: number }
+) {
+  const integration = await prisma.company_applications.findUnique({
+    where: { company_id_application_id: { company_id: companyId, application_id: applicationId } },
+    select: { id: true },
+  });
+  if (!integration) {
+    throw new ChannelDeliveryError('Application installation not found', 'INTEGRATION_NOT_FOUND', 404);
+  }
+
+  const where: Prisma.notification_deliveriesWhereInput = {
+    company_application_id: integration.id,
+    ...(options.channel && { channel: options.channel }),
+  };
+
+  const [deliveries, total] = await Promise.all([
+    prisma.notification_deliveries.findMany({
+      where,
+      orderBy: { created_at: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+    }),
+    prisma.notification_deliveries.count({ where }),
+  ]);
+
+  return {
+    deliveries,
+    pagination: {
+      limit: options.limit,
+      offset: options.offset,
+      total,
+      hasMore: options.offset + deliveries.length < total,
+    },
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Notification channel formatters
+ * Turn one integration notification into the webhook payload each chat service expects.
+ * Email is rendered by the integration_notification email template instead.
+ */
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export interface ChannelMessage {
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  companyName: string;
+  integrationName: string;
+  /** Label/value rows, e.g. metric values */
+  fields?: Array<{ label: string; value: string }>;
+  /** Absolute link into the app */
+  actionUrl?: string | null;
+}
+
+const SEVERITY_LABELS: Record<NotificationSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical',
+};
+
+const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  info: ':information_source:',
+  warning: ':warning:',
+  critical: ':rotating_light:',
+};
+
+const DISCORD_COLORS: Record<NotificationSeverity, number> = {
+  info: 0x3b82f6,
+  warning: 0xf59e0b,
+  critical: 0xdc2626,
+};
+
+// Service limits on text length
+const SLACK_TEXT_LIMIT = 3000;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+const DISCORD_FIELD_LIMIT = 25;
+
+function truncate(value: string, limit: number): string {
+  return value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+}
+
+// Slack mrkdwn treats these three characters as control characters
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack Block Kit message; `text` is the fallback shown in notifications
+ */
+export function formatSlackMessage(message: ChannelMessage): Record<string, unknown> {
+  const blocks: Array<Record<string, unknown>> = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(message.title, 150), emoji: true },
+    },
+    {
+      type: 'context',
+      elements: [{
+        type: 'mrkdwn',
+        text: `${SEVERITY_EMOJI[message.severity]} *${SEVERITY_LABELS[message.severity]}* · ${escapeSlack(message.integrationName)} · ${escapeSlack(message.companyName)}`,
+      }],
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: truncate(escapeSlack(message.message), SLACK_TEXT_LIMIT) },
+    },
+  ];
+
+  if (message.fields?.length) {
+    // A section holds at most 10 fields
+    for (let i = 0; i < message.fields.length; i += 10) {
+      blocks.push({
+        type: 'section',
+        fields: message.fields.slice(i, i + 10).map(field => ({
+          type: 'mrkdwn',
+          text: `*${escapeSlack(field.label)}*\n${escapeSlack(field.value)}`,
+        })),
+      });
+    }
+  }
+
+  if (message.actionUrl) {
+    blocks.push({
+      type: 'actions',
+      elements: [{
+        type: 'button',
+        text: { type: 'plain_text', text: 'Open in Metrics Hub' },
+        url: message.actionUrl,
+      }],
+    });
+  }
+
+  return {
+    text: `[${message.integrationName}] ${message.title}`,
+    blocks,
+  };
+}
+
+/**
+ * Discord webhook message with one embed coloured by severity
+ */
+export function formatDiscordMessage(message: ChannelMessage): Record<string, unknown> {
+  return {
+    username: 'Metrics Hub',
+    embeds: [{
+      title: truncate(message.title, 256),
+      description: truncate(message.message, DISCORD_DESCRIPTION_LIMIT),
+      color: DISCORD_COLORS[message.severity],
+      ...(message.actionUrl && { url: message.actionUrl }),
+      fields: (message.fields ?? []).slice(0, DISCORD_FIELD_LIMIT).map(field => ({
+        name: truncate(field.label, 256),
+        value: truncate(field.value, 1024),
+        inline: true,
+      })),
+      footer: { text: `${SEVERITY_LABELS[message.severity]} · ${message.integrationName} · ${message.companyName}` },
+      timestamp: new Date().toISOString(),
+    }],
+  };
+}
+
+/**
+ * WhatsApp template text, using WhatsApp's *bold* and _italic_ markup
+ */
+export function formatWhatsAppText(message: ChannelMessage): string {
+  return [
+    `*${message.title}*`,
+    `_${SEVERITY_LABELS[message.severity]} · ${message.integrationName} · ${message.companyName}_`,
+    '',
+    message.message,
+    ...(message.fields?.length ? ['', ...message.fields.map(field => `• ${field.label}: ${field.value}`)] : []),
+    ...(message.actionUrl ? ['', message.actionUrl] : []),
+  ].join('\n');
+}
+
+/**
+ * Body posted to a WhatsApp gateway webhook: the rendered text plus its parts, so gateways
+ * filling an approved template can map the parameters themselves
+ */
+export function formatWhatsAppMessage(message: ChannelMessage): Record<string, unknown> {
+  return {
+    text: formatWhatsAppText(message),
+    template: {
+      title: message.title,
+      severity: message.severity,
+      integration: message.integrationName,
+      company: message.companyName,
+      message: message.message,
+      url: message.actionUrl ?? null,
+    },
+  };
+}
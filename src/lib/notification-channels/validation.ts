@@ -0,0 +1,135 @@
+/**
+ * Notification channel targets
+ * Shape of company_applications.notification_channels and validation of the email address
+ * or webhook URL of each channel. Free of server imports so the settings form can validate
+ * with the same rules as the API. Hostnames are only checked by pattern here; the server also
+ * resolves them (validateChannelHosts in ./delivery) and delivery connects only to public
+ * addresses.
+ */
+
+export const NOTIFICATION_CHANNELS = ['email', 'slack', 'discord', 'whatsapp'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export interface NotificationChannelSettings {
+  email?: { enabled: boolean; address: string };
+  slack?: { enabled: boolean; webhook: string };
+  discord?: { enabled: boolean; webhook: string };
+  whatsapp?: { enabled: boolean; webhook: string };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SLACK_HOSTS = ['hooks.slack.com'];
+const DISCORD_HOSTS = ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'];
+
+// Webhooks must not point into our own network
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /\.local$/i,
+  /\.internal$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?::1\]?$/,
+  /^\[?f[cd][0-9a-f]{2}:/i,
+  /^\[?fe80:/i,
+];
+
+/**
+ * Whether a hostname is obviously private or loopback. Names that resolve to private
+ * addresses pass; src/lib/outbound-http.ts catches those on the server.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  return PRIVATE_HOST_PATTERNS.some(pattern => pattern.test(hostname));
+}
+
+/**
+ * The email address or webhook URL of a channel, if it is enabled
+ */
+export function channelTarget(settings: NotificationChannelSettings, channel: NotificationChannel): string | null {
+  if (channel === 'email') {
+    return settings.email?.enabled ? settings.email.address?.trim() || null : null;
+  }
+  const config = settings[channel];
+  return config?.enabled ? config.webhook?.trim() || null : null;
+}
+
+/**
+ * Check a channel target
+ *
+ * @returns An error message, or null when the target is valid
+ */
+export function validateChannelTarget(channel: NotificationChannel, value: string): string | null {
+  const target = value.trim();
+  if (!target) return 'A target is required';
+
+  if (channel === 'email') {
+    return EMAIL_PATTERN.test(target) ? null : 'Enter a valid email address';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:') return 'Webhook URLs must use https';
+  if (url.username || url.password) return 'Webhook URLs must not contain credentials';
+  if (isPrivateHost(url.hostname)) {
+    return 'Webhook URLs must point to a public host';
+  }
+
+  switch (channel) {
+    case 'slack':
+      if (!SLACK_HOSTS.includes(url.hostname) || !/^\/(services|workflows|triggers)\/.+/.test(url.pathname)) {
+        return 'Enter a Slack incoming webhook URL (https://hooks.slack.com/services/...)';
+      }
+      return null;
+    case 'discord':
+      if (!DISCORD_HOSTS.includes(url.hostname) || !/^\/api\/webhooks\/\d+\/[\w-]+\/?$/.test(url.pathname)) {
+        return 'Enter a Discord webhook URL (https://discord.com/api/webhooks/...)';
+      }
+      return null;
+    case 'whatsapp':
+      return null;
+  }
+}
+
+/**
+ * Validate every enabled channel
+ *
+ * @returns Error messages keyed by channel; empty when all enabled channels are valid
+ */
+export function validateChannelSettings(settings: NotificationChannelSettings): Partial<Record<NotificationChannel, string>> {
+  const errors: Partial<Record<NotificationChannel, string>> = {};
+  for (const channel of NOTIFICATION_CHANNELS) {
+    const enabled = settings[channel]?.enabled;
+    if (!enabled) continue;
+
+    const error = validateChannelTarget(channel, channelTarget(settings, channel) ?? '');
+    if (error) errors[channel] = error;
+  }
+  return errors;
+}
+
+/**
+ * Hide the secret part of a webhook URL (the last path segment) for logs and the UI
+ */
+export function maskChannelTarget(channel: NotificationChannel, target: string): string {
+  if (channel === 'email') return target;
+
+  try {
+    const url = new URL(target);
+    const segments = url.pathname.split('/');
+    if (segments.length > 2) segments[segments.length - 1] = '****';
+    return `${url.origin}${segments.join('/')}`;
+  } catch {
+    return '****';
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * In-app notifications and notification preferences
+ * Company notifications are created through notifyUsers, which applies each recipient's
+ * preferences for the company and type: whether the notification shows in-app, is emailed
+ * right away and/or is collected into a daily or weekly digest email. Types without a
+ * notification_preferences row use DEFAULT_PREFERENCES.
+ */
+
+import prisma from '@/lib/prisma';
+import { Prisma, notification_type } from '@prisma/client';
+import { emailLink, sendEmail } from '@/lib/email/email-service';
+import { sendIntegrationNotificationEmail } from '@/lib/email/sendIntegrationNotificationEmail';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NOTIFICATION_TYPES = Object.values(notification_type);
+export const DIGEST_FREQUENCIES = ['none', 'daily', 'weekly'] as const;
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export interface NotificationPreference {
+  type: notification_type;
+  inApp: boolean;
+  email: boolean;
+  digest: DigestFrequency;
+}
+
+type PreferenceDefaults = Omit<NotificationPreference, 'type'>;
+
+/**
+ * Types a user can configure. Invitations and ownership transfers need an answer, so they
+ * always show in-app; integration_health was replaced by the integration_* types.
+ */
+export const DEFAULT_PREFERENCES: Partial<Record<notification_type, PreferenceDefaults>> = {
+  integration_failed: { inApp: true, email: true, digest: 'none' },
+  integration_recovered: { inApp: true, email: false, digest: 'none' },
+  credentials_expiring: { inApp: true, email: true, digest: 'none' },
+  alert_triggered: { inApp: true, email: true, digest: 'none' },
+  export_ready: { inApp: true, email: false, digest: 'none' },
+  security_finding: { inApp: true, email: true, digest: 'none' },
+  invitation_accepted: { inApp: true, email: false, digest: 'none' },
+  invitation_rejected: { inApp: true, email: false, digest: 'none' },
+  user_joined_company: { inApp: true, email: false, digest: 'none' },
+  role_changed: { inApp: true, email: false, digest: 'none' },
+};
+
+export const CONFIGURABLE_NOTIFICATION_TYPES = Object.keys(DEFAULT_PREFERENCES) as notification_type[];
+
+const DIGEST_PERIOD_MS: Record<Exclude<DigestFrequency, 'none'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface NotifyUsersInput {
+  userIds: string[];
+  companyId: string;
+  type: notification_type;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  /** App path, e.g. `/companies/{id}/integrations/{appId}/settings` */
+  actionUrl?: string;
+  /** Emails about an integration use the integration notification template */
+  integration?: {
+    applicationId: string;
+    name: string;
+    severity: 'info' | 'warning' | 'critical';
+    fields?: Array<{ label: string; value: string }>;
+  };
+}
+
+export interface DigestSummary {
+  frequency: Exclude<DigestFrequency, 'none'>;
+  recipients: number;
+  sent: number;
+  notifications: number;
+  failures: Array<{ userId: string; error: string }>;
+}
+
+type DigestItem = { title: string; message: string; createdAt: Date; actionUrl: string | null };
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'NOTIFICATION_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+function preferencesPath(companyId: string): string {
+  return `/companies/${companyId}/settings?tab=notifications`;
+}
+
+/**
+ * Owners and admins of a company, who receive its integration and alert notifications
+ */
+export async function companyAdminIds(companyId: string): Promise<string[]> {
+  const [admins, company] = await Promise.all([
+    prisma.company_users.findMany({
+      where: { company_id: companyId, role: { in: ['owner', 'admin'] } },
+      select: { user_id: true },
+    }),
+    prisma.companies.findUnique({ where: { id: companyId }, select: { owner_uid: true } }),
+  ]);
+
+  return [...new Set([
+    ...admins.map(admin => admin.user_id),
+    ...(company?.owner_uid ? [company.owner_uid] : []),
+  ])];
+}
+
+async function assertCompanyMember(userId: string, companyId: string): Promise<void> {
+  const membership = await prisma.company_users.findFirst({
+    where: { company_id: companyId, user_id: userId },
+    select: { user_id: true },
+  });
+  if (!membership) {
+    throw new NotificationError('Access denied to this company', 'COMPANY_ACCESS_DENIED', 403);
+  }
+}
+
+/**
+ * Preferences of a user for one company, every configurable type included
+ *
+ * @throws NotificationError when the user is not a member of the company
+ */
+export async function getNotificationPreferences(userId: string, companyId: string): Promise<NotificationPreference[]> {
+  await assertCompanyMember(userId, companyId);
+
+  const rows = await prisma.notification_preferences.findMany({
+    where: { user_id: userId, company_id: companyId },
+  });
+  const byType = new Map(rows.map(row => [row.type, row]));
+
+  return CONFIGURABLE_NOTIFICATION_TYPES.map(type => {
+    const row = byType.get(type);
+    return row
+      ? { type, inApp: row.in_app, email: row.email, digest: row.digest as DigestFrequency }
+      : { type, ...DEFAULT_PREFERENCES[type]! };
+  });
+}
+
+/**
+ * Save preferences for the given types; other types keep their current setting
+ *
+ * @throws NotificationError on unknown types or digest frequencies
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  companyId: string,
+  preferences: NotificationPreference[]
+): Promise<NotificationPreference[]> {
+  await assertCompanyMember(userId, companyId);
+
+  for (const preference of preferences) {
+    if (!CONFIGURABLE_NOTIFICATION_TYPES.includes(preference.type)) {
+      throw new NotificationError(`Notification type ${preference.type} cannot be configured`, 'INVALID_TYPE');
+    }
+    if (!DIGEST_FREQUENCIES.includes(preference.digest)) {
+      throw new NotificationError(`digest must be one of ${DIGEST_FREQUENCIES.join(', ')}`, 'INVALID_DIGEST');
+    }
+    if (typeof preference.inApp !== 'boolean' || typeof preference.email !== 'boolean') {
+      throw new NotificationError('inApp and email must be booleans', 'INVALID_PREFERENCE');
+    }
+  }
+
+  const now = new Date();
+  await prisma.$transaction(preferences.map(preference => prisma.notification_preferences.upsert({
+    where: { user_id_company_id_type: { user_id: userId, company_id: companyId, type: preference.type } },
+    create: {
+      user_id: userId,
+      company_id: companyId,
+      type: preference.type,
+      in_app: preference.inApp,
+      email: preference.email,
+      digest: preference.digest,
+    },
+    update: {
+      in_app: preference.inApp,
+      email: preference.email,
+      digest: preference.digest,
+      updated_at: now,
+    },
+  })));
+
+  return getNotificationPreferences(userId, companyId);
+}
+
+/**
+ * Where clause hiding the types a user turned off in-app for a company
+ */
+export async function inAppNotificationFilter(userId: string): Promise<Prisma.notificationsWhereInput> {
+  const hidden = await prisma.notification_preferences.findMany({
+    where: { user_id: userId, in_app: false },
+    select: { company_id: true, type: true },
+  });
+
+  // Defaults never hide a type, so only explicit rows matter
+  return hidden.length > 0
+    ? { NOT: hidden.map(row => ({ companyId: row.company_id, type: row.type })) }
+    : {};
+}
+
+/**
+ * Create a company notification for each user and email those who asked for it. The row is
+ * created even when in-app is off so the digest can include it. Email failures are logged
+ * and do not fail the caller.
+ *
+ * @returns The number of users notified
+ */
+export async function notifyUsers(input: NotifyUsersInput): Promise<number> {
+  const userIds = [...new Set(input.userIds)];
+  if (userIds.length === 0) return 0;
+
+  const company = await prisma.companies.findUnique({
+    where: { id: input.companyId },
+    select: { name: true },
+  });
+
+  await prisma.notifications.createMany({
+    data: userIds.map(userId => ({
+      userId,
+      companyId: input.companyId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      data: {
+        companyId: input.companyId,
+        companyName: company?.name ?? null,
+        ...input.data,
+      } as Prisma.InputJsonValue,
+      actionUrl: input.actionUrl ?? null,
+    })),
+  });
+
+  const defaults = DEFAULT_PREFERENCES[input.type];
+  const overrides = await prisma.notification_preferences.findMany({
+    where: { company_id: input.companyId, type: input.type, user_id: { in: userIds } },
+    select: { user_id: true, email: true },
+  });
+  const emailByUser = new Map(overrides.map(row => [row.user_id, row.email]));
+  const emailUserIds = userIds.filter(userId => emailByUser.get(userId) ?? defaults?.email ?? false);
+  if (emailUserIds.length === 0) return userIds.length;
+
+  const users = await prisma.users.findMany({
+    where: { id: { in: emailUserIds } },
+    select: { id: true, email: true },
+  });
+
+  for (const user of users) {
+    if (!user.email) continue;
+    try {
+      if (input.integration) {
+        await sendIntegrationNotificationEmail({
+          to: user.email,
+          companyId: input.companyId,
+          companyName: company?.name ?? '',
+          integrationId: input.integration.applicationId,
+          integrationName: input.integration.name,
+          title: input.title,
+          message: input.message,
+          severity: input.integration.severity,
+          ...(input.integration.fields && { fields: input.integration.fields }),
+          ...(input.actionUrl && { actionPath: input.actionUrl }),
+          userId: user.id,
+        });
+      } else {
+        await sendEmail({
+          template: 'notification',
+          to: user.email,
+          data: {
+            companyName: company?.name ?? null,
+            title: input.title,
+            message: input.message,
+            actionUrl: input.actionUrl ? emailLink(null, input.actionUrl) : null,
+            preferencesUrl: emailLink(null, preferencesPath(input.companyId)),
+          },
+          userId: user.id,
+          companyId: input.companyId,
+          metadata: { notificationType: input.type },
+        });
+      }
+    } catch (error) {
+      console.error(`[NOTIFICATIONS] Failed to email ${user.id} about ${input.type}:`, error);
+    }
+  }
+
+  return userIds.length;
+}
+
+/**
+ * Email every user the notifications they put in the digest of this frequency and that
+ * were not part of a digest yet. Each user gets one email covering all their companies.
+ */
+export async function sendNotificationDigests(frequency: Exclude<DigestFrequency, 'none'>): Promise<DigestSummary> {
+  const preferences = await prisma.notification_preferences.findMany({
+    where: { digest: frequency },
+    select: { user_id: true, company_id: true, type: true },
+  });
+
+  const byUser = new Map<string, Array<{ companyId: string; type: notification_type }>>();
+  for (const preference of preferences) {
+    const list = byUser.get(preference.user_id) ?? [];
+    list.push({ companyId: preference.company_id, type: preference.type });
+    byUser.set(preference.user_id, list);
+  }
+
+  const summary: DigestSummary = { frequency, recipients: byUser.size, sent: 0, notifications: 0, failures: [] };
+  const since = new Date(Date.now() - DIGEST_PERIOD_MS[frequency]);
+
+  for (const [userId, subscriptions] of byUser) {
+    try {
+      const notifications = await prisma.notifications.findMany({
+        where: {
+          userId,
+          digestedAt: null,
+          createdAt: { gte: since },
+          OR: subscriptions,
+        },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          companyId: true,
+          title: true,
+          message: true,
+          actionUrl: true,
+          createdAt: true,
+          company: { select: { name: true } },
+        },
+      });
+      if (notifications.length === 0) continue;
+
+      const user = await prisma.users.findUnique({ where: { id: userId }, select: { email: true } });
+      if (!user?.email) continue;
+
+      const companies = new Map<string, { companyName: string; notifications: DigestItem[] }>();
+      for (const notification of notifications) {
+        const key = notification.companyId ?? '';
+        const group = companies.get(key) ?? { companyName: notification.company?.name ?? 'Metrics Hub', notifications: [] };
+        group.notifications.push({
+          title: notification.title,
+          message: notification.message,
+          createdAt: notification.createdAt,
+          actionUrl: notification.actionUrl ? emailLink(null, notification.actionUrl) : null,
+        });
+        companies.set(key, group);
+      }
+
+      await sendEmail({
+        template: 'notification_digest',
+        to: user.email,
+        data: {
+          frequency,
+          companies: [...companies.values()],
+          preferencesUrl: emailLink(null, preferencesPath(subscriptions[0]!.companyId)),
+        },
+        userId,
+        metadata: { digest: frequency, notificationCount: notifications.length },
+      });
+
+      await prisma.notifications.updateMany({
+        where: { id: { in: notifications.map(notification => notification.id) } },
+        data: { digestedAt: new Date() },
+      });
+
+      summary.sent++;
+      summary.notifications += notifications.length;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[NOTIFICATIONS] ${frequency} digest for ${userId} failed:`, error);
+      summary.failures.push({ userId, error: message });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,245 @@
+import { createSupabaseServiceClient } from '@/lib/supabaseServer'
+
+/**
+ * OAuth provider registry
+ *
+ * Providers are rows in the `connections` table with auth_type = 'oauth2'.
+ * Their auth_config JSON describes the endpoints and behaviour of the flow:
+ *
+ * {
+ *   "auth_uri": "https://.../authorize",       // authorization endpoint
+ *   "token_uri": "https://.../token",          // token endpoint
+ *   "userinfo_uri": "https://.../me",          // optional profile endpoint
+ *   "scopes": ["..."],
+ *   "scope_separator": " ",                    // optional, defaults to a space
+ *   "pkce": true,                              // optional, adds S256 code challenge
+ *   "authorize_params": { "prompt": "consent" },
+ *   "client_id_env": "MICROSOFT_CLIENT_ID",    // optional, defaults to <KEY>_CLIENT_ID
+ *   "client_secret_env": "MICROSOFT_CLIENT_SECRET",
+ *   "redirect_uri_env": "MICROSOFT_REDIRECT_URI"
+ * }
+ *
+ * Client credentials never live in the database; only the names of the
+ * environment variables that hold them do.
+ */
+
+export interface OAuthProviderConfig {
+  key: string
+  name: string
+  connectionId: string
+  authorizeUrl: string
+  tokenUrl: string
+  userInfoUrl?: string
+  scopes: string[]
+  scopeSeparator: string
+  pkce: boolean
+  authorizeParams: Record<string, string>
+  clientId: string
+  clientSecret: string
+  redirectUri: string
+}
+
+export interface OAuthUserInfo {
+  id?: string
+  email?: string
+  name?: string
+  picture?: string
+  raw: Record<string, any>
+}
+
+export class OAuthProviderError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'OAUTH_PROVIDER_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message)
+    this.name = 'OAuthProviderError'
+  }
+}
+
+function envPrefix(providerKey: string): string {
+  return providerKey.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+}
+
+/**
+ * Resolve an OAuth provider from the connections table
+ *
+ * @param providerKey - The connection_key, e.g. 'google' or 'microsoft'
+ * @throws OAuthProviderError when the provider is unknown, inactive or not configured
+ */
+export async function getOAuthProvider(providerKey: string): Promise<OAuthProviderConfig> {
+  const supabase = createSupabaseServiceClient()
+
+  const { data: connection, error } = await supabase
+    .from('connections')
+    .select('id, connection_key, name, auth_type, auth_config, is_active')
+    .eq('connection_key', providerKey)
+    .single()
+
+  if (error || !connection || !connection.is_active) {
+    throw new OAuthProviderError(`Unknown OAuth provider: ${providerKey}`, 'PROVIDER_NOT_FOUND', 404)
+  }
+
+  if (connection.auth_type !== 'oauth2') {
+    throw new OAuthProviderError(`${connection.name} does not use OAuth 2.0`, 'PROVIDER_NOT_OAUTH', 400)
+  }
+
+  const authConfig = (connection.auth_config || {}) as Record<string, any>
+  const prefix = envPrefix(connection.connection_key)
+
+  const clientId = process.env[authConfig.client_id_env || `${prefix}_CLIENT_ID`]
+  const clientSecret = process.env[authConfig.client_secret_env || `${prefix}_CLIENT_SECRET`]
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+  const redirectUri =
+    process.env[authConfig.redirect_uri_env || `${prefix}_REDIRECT_URI`] ||
+    `${siteUrl}/api/connections/${connection.connection_key}/callback`
+
+  const authorizeUrl = authConfig.auth_uri || authConfig.authorize_url
+  const tokenUrl = authConfig.token_uri || authConfig.token_url
+
+  if (!authorizeUrl || !tokenUrl) {
+    throw new OAuthProviderError(`${connection.name} is missing OAuth endpoints`, 'PROVIDER_MISCONFIGURED', 500)
+  }
+
+  if (!clientId || !clientSecret) {
+    throw new OAuthProviderError(`${connection.name} OAuth is not configured`, 'PROVIDER_NOT_CONFIGURED', 500)
+  }
+
+  return {
+    key: connection.connection_key,
+    name: connection.name,
+    connectionId: connection.id,
+    authorizeUrl,
+    tokenUrl,
+    userInfoUrl: authConfig.userinfo_uri || authConfig.userinfo_url,
+    scopes: Array.isArray(authConfig.scopes) ? authConfig.scopes : [],
+    scopeSeparator: authConfig.scope_separator || ' ',
+    pkce: authConfig.pkce === true,
+    authorizeParams: authConfig.authorize_params || {},
+    clientId,
+    clientSecret,
+    redirectUri,
+  }
+}
+
+/**
+ * Build the authorization URL the user is redirected to
+ */
+export function buildAuthorizeUrl(
+  provider: OAuthProviderConfig,
+  state: string,
+  codeChallenge?: string
+): string {
+  const authUrl = new URL(provider.authorizeUrl)
+  authUrl.searchParams.set('client_id', provider.clientId)
+  authUrl.searchParams.set('redirect_uri', provider.redirectUri)
+  authUrl.searchParams.set('response_type', 'code')
+  authUrl.searchParams.set('scope', provider.scopes.join(provider.scopeSeparator))
+  authUrl.searchParams.set('state', state)
+
+  for (const [key, value] of Object.entries(provider.authorizeParams)) {
+    authUrl.searchParams.set(key, value)
+  }
+
+  if (codeChallenge) {
+    authUrl.searchParams.set('code_challenge', codeChallenge)
+    authUrl.searchParams.set('code_challenge_method', 'S256')
+  }
+
+  return authUrl.toString()
+}
+
+/**
+ * Call the provider token endpoint
+ */
+async function requestTokens(
+  provider: OAuthProviderConfig,
+  params: Record<string, string>
+): Promise<Record<string, any>> {
+  const response = await fetch(provider.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams({
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      ...params,
+    }),
+  })
+
+  const body = await response.json().catch(() => ({}))
+
+  if (!response.ok || body.error) {
+    throw new OAuthProviderError(
+      body.error_description || body.error?.message || body.error || `Token request failed with ${response.status}`,
+      typeof body.error === 'string' ? body.error : 'TOKEN_REQUEST_FAILED',
+      response.ok ? 400 : response.status
+    )
+  }
+
+  return body
+}
+
+/**
+ * Exchange an authorization code for tokens
+ */
+export async function exchangeAuthorizationCode(
+  provider: OAuthProviderConfig,
+  code: string,
+  codeVerifier?: string
+): Promise<Record<string, any>> {
+  return requestTokens(provider, {
+    code,
+    grant_type: 'authorization_code',
+    redirect_uri: provider.redirectUri,
+    ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
+  })
+}
+
+/**
+ * Exchange a refresh token for a new access token
+ */
+export async function refreshAccessToken(
+  provider: OAuthProviderConfig,
+  refreshToken: string
+): Promise<Record<string, any>> {
+  return requestTokens(provider, {
+    refresh_token: refreshToken,
+    grant_type: 'refresh_token',
+  })
+}
+
+/**
+ * Fetch and normalise the connected account profile
+ */
+export async function fetchOAuthUserInfo(
+  provider: OAuthProviderConfig,
+  accessToken: string
+): Promise<OAuthUserInfo | null> {
+  if (!provider.userInfoUrl) return null
+
+  const response = await fetch(provider.userInfoUrl, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  })
+
+  if (!response.ok) {
+    throw new OAuthProviderError(
+      `Failed to fetch ${provider.name} account info`,
+      'USER_INFO_FAILED',
+      response.status
+    )
+  }
+
+  const raw = await response.json()
+
+  return {
+    id: raw.id ?? raw.sub,
+    email: raw.email ?? raw.mail ?? raw.userPrincipalName,
+    name: raw.name ?? raw.displayName ?? [raw.given_name, raw.family_name].filter(Boolean).join(' '),
+    picture: raw.picture?.data?.url ?? raw.picture,
+    raw,
+  }
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OAUTH_STATE_TTL_SECONDS, OAuthStateError, consumeOAuthState, createOAuthState } from './oauth-state';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the oauth_states queries
+const rows: Row[] = [];
+
+function updateQuery(patch: Row) {
+  const filters: Array<(row: Row) => boolean> = [];
+  const query = {
+    eq(column: string, value: unknown) {
+      filters.push(row => row[column] === value);
+      return query;
+    },
+    is(column: string, value: unknown) {
+      filters.push(row => (row[column] ?? null) === value);
+      return query;
+    },
+    select() {
+      return query;
+    },
+    async maybeSingle() {
+      const row = rows.find(candidate => filters.every(filter => filter(candidate)));
+      if (row) Object.assign(row, patch);
+      return { data: row ? { ...row } : null, error: null };
+    },
+  };
+  return query;
+}
+
+vi.mock('@/lib/supabaseServer', () => ({
+  createSupabaseServiceClient: () => ({
+    from: () => ({
+      insert: async (row: Row) => {
+        rows.push({ ...row });
+        return { error: null };
+      },
+      delete: () => ({ lt: async () => ({ error: null }) }),
+      update: (patch: Row) => updateQuery(patch),
+    }),
+  }),
+}));
+
+const flow = { provider: 'google', companyId: 'company-1', userId: 'user-1', locale: 'en' };
+
+async function expectStateError(promise: Promise<unknown>, message: RegExp, code = 'invalid_state') {
+  const error = (await promise.catch(caught => caught)) as OAuthStateError;
+  expect(error).toBeInstanceOf(OAuthStateError);
+  expect(error.message).toMatch(message);
+  expect(error.code).toBe(code);
+}
+
+describe('OAuth state', () => {
+  beforeEach(() => {
+    process.env.OAUTH_STATE_SECRET = 'test-oauth-state-secret';
+    rows.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the PKCE verifier whose S256 challenge was sent to the provider', async () => {
+    const { state, codeChallenge, binding } = await createOAuthState({ ...flow, pkce: true });
+    const record = await consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' });
+
+    expect(record).toMatchObject({ provider: 'google', companyId: 'company-1', userId: 'user-1', locale: 'en' });
+    expect(record.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    expect(codeChallenge).toBe(crypto.createHash('sha256').update(record.codeVerifier!).digest('base64url'));
+  });
+
+  it('does not create a verifier when PKCE is off', async () => {
+    const { state, codeChallenge, binding } = await createOAuthState({ ...flow, pkce: false });
+    const record = await consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' });
+
+    expect(codeChallenge).toBeUndefined();
+    expect(record.codeVerifier).toBeNull();
+  });
+
+  it('stores hashes of the nonce and binding, not the values', async () => {
+    const { state, binding } = await createOAuthState({ ...flow, pkce: false });
+    const [nonce] = state.split('.');
+
+    expect(rows[0]!.nonce_hash).toBe(crypto.createHash('sha256').update(nonce!).digest('hex'));
+    expect(rows[0]!.session_hash).toBe(crypto.createHash('sha256').update(binding).digest('hex'));
+  });
+
+  it('rejects a state with a forged or missing signature', async () => {
+    const { state, binding } = await createOAuthState({ ...flow, pkce: false });
+    const [nonce] = state.split('.');
+    const forged = `${nonce}.${crypto.createHmac('sha256', 'other-secret').update(nonce!).digest('base64url')}`;
+
+    await expectStateError(consumeOAuthState({ state: forged, provider: 'google', binding, userId: 'user-1' }), /signature/);
+    await expectStateError(consumeOAuthState({ state: nonce!, provider: 'google', binding, userId: 'user-1' }), /Malformed/);
+  });
+
+  it('accepts a state only once', async () => {
+    const { state, binding } = await createOAuthState({ ...flow, pkce: false });
+    await consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' });
+
+    await expectStateError(consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' }), /already used/);
+  });
+
+  it('consumes the state even when the browser binding does not match', async () => {
+    const { state, binding } = await createOAuthState({ ...flow, pkce: false });
+
+    await expectStateError(consumeOAuthState({ state, provider: 'google', binding: 'other', userId: 'user-1' }), /browser session/);
+    await expectStateError(consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' }), /already used/);
+  });
+
+  it('rejects a state presented for another provider or user', async () => {
+    const first = await createOAuthState({ ...flow, pkce: false });
+    const second = await createOAuthState({ ...flow, pkce: false });
+
+    await expectStateError(
+      consumeOAuthState({ state: first.state, provider: 'facebook', binding: first.binding, userId: 'user-1' }),
+      /another provider/
+    );
+    await expectStateError(
+      consumeOAuthState({ state: second.state, provider: 'google', binding: second.binding, userId: 'user-2' }),
+      /another user/
+    );
+  });
+
+  it('rejects an expired state', async () => {
+    vi.useFakeTimers();
+    const { state, binding } = await createOAuthState({ ...flow, pkce: false });
+    vi.advanceTimersByTime(OAUTH_STATE_TTL_SECONDS * 1000);
+
+    await expectStateError(
+      consumeOAuthState({ state, provider: 'google', binding, userId: 'user-1' }),
+      /expired/,
+      'expired_state'
+    );
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * OAuth state
+ * The `state` parameter sent to a provider is `<nonce>.<hmac>`: an HMAC-signed random
+ * nonce whose hash is stored in oauth_states together with the PKCE verifier. The
+ * callback consumes the row exactly once and only for the user and browser that
+ * started the flow.
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { routing } from '@/i18n/routing';
+
+export const OAUTH_STATE_TTL_SECONDS = 15 * 60;
+
+/**
+ * httpOnly cookie binding an authorization attempt to the initiating browser
+ */
+export const OAUTH_BINDING_COOKIE_NAME = 'mh_oauth_binding';
+
+export interface OAuthStateRecord {
+  provider: string;
+  companyId: string;
+  userId: string;
+  locale: string;
+  codeVerifier: string | null;
+}
+
+export class OAuthStateError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'invalid_state'
+  ) {
+    super(message);
+    this.name = 'OAuthStateError';
+  }
+}
+
+function getSigningKey(): Buffer {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET environment variable is required');
+  }
+  return Buffer.from(secret, 'utf8');
+}
+
+function sign(nonce: string): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(nonce).digest('base64url');
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Pick the locale to return the user to after the callback
+ * An explicit ?locale= wins, then the locale segment of the referring page.
+ */
+export function resolveOAuthLocale(request: NextRequest): string {
+  const isSupported = (value: string | null | undefined): value is string =>
+    !!value && (routing.locales as readonly string[]).includes(value);
+
+  const requested = request.nextUrl.searchParams.get('locale');
+  if (isSupported(requested)) return requested;
+
+  const referer = request.headers.get('referer');
+  if (referer) {
+    try {
+      const segment = new URL(referer).pathname.split('/')[1];
+      if (isSupported(segment)) return segment;
+    } catch {
+      // Ignore malformed referers
+    }
+  }
+
+  return routing.defaultLocale;
+}
+
+/**
+ * Create and persist a single-use state for an authorization attempt
+ *
+ * @returns The signed state, the PKCE challenge (when requested) and the binding
+ * value the caller must set in the OAUTH_BINDING_COOKIE_NAME cookie
+ */
+export async function createOAuthState(params: {
+  provider: string;
+  companyId: string;
+  userId: string;
+  locale: string;
+  pkce: boolean;
+}): Promise<{ state: string; codeChallenge?: string; binding: string }> {
+  const nonce = crypto.randomBytes(32).toString('base64url');
+  const binding = crypto.randomBytes(32).toString('base64url');
+  const codeVerifier = params.pkce ? crypto.randomBytes(48).toString('base64url') : null;
+
+  await purgeExpiredOAuthStates();
+
+  const supabase = createSupabaseServiceClient();
+  const { error } = await supabase.from('oauth_states').insert({
+    nonce_hash: hash(nonce),
+    provider: params.provider,
+    company_id: params.companyId,
+    user_id: params.userId,
+    session_hash: hash(binding),
+    code_verifier: codeVerifier,
+    locale: params.locale,
+    expires_at: new Date(Date.now() + OAUTH_STATE_TTL_SECONDS * 1000).toISOString(),
+  });
+
+  if (error) {
+    console.error('[OAUTH-STATE] Failed to store OAuth state:', error);
+    throw new Error('Failed to store OAuth state');
+  }
+
+  return {
+    state: `${nonce}.${sign(nonce)}`,
+    codeChallenge: codeVerifier
+      ? crypto.createHash('sha256').update(codeVerifier).digest('base64url')
+      : undefined,
+    binding,
+  };
+}
+
+/**
+ * Verify and consume a state returned to the callback
+ *
+ * The row is marked consumed before any further checks so that a state can never be
+ * replayed, even when the binding or user checks below reject the request.
+ *
+ * @throws OAuthStateError when the state is forged, unknown, expired, already used,
+ * issued for another provider, or presented by a different user or browser
+ */
+export async function consumeOAuthState(params: {
+  state: string;
+  provider: string;
+  binding: string | undefined;
+  userId: string | undefined;
+}): Promise<OAuthStateRecord> {
+  const [nonce, signature] = params.state.split('.');
+  if (!nonce || !signature) {
+    throw new OAuthStateError('Malformed OAuth state');
+  }
+
+  const expected = Buffer.from(sign(nonce));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new OAuthStateError('Invalid OAuth state signature');
+  }
+
+  const supabase = createSupabaseServiceClient();
+  const { data: record, error } = await supabase
+    .from('oauth_states')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('nonce_hash', hash(nonce))
+    .is('consumed_at', null)
+    .select('provider, company_id, user_id, session_hash, code_verifier, locale, expires_at')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[OAUTH-STATE] Failed to consume OAuth state:', error);
+    throw new OAuthStateError('Failed to verify OAuth state');
+  }
+
+  if (!record) {
+    throw new OAuthStateError('OAuth state is unknown or was already used');
+  }
+
+  if (new Date(record.expires_at).getTime() <= Date.now()) {
+    throw new OAuthStateError('OAuth state expired', 'expired_state');
+  }
+
+  if (record.provider !== params.provider) {
+    throw new OAuthStateError('OAuth state was issued for another provider');
+  }
+
+  if (!params.binding || hash(params.binding) !== record.session_hash) {
+    throw new OAuthStateError('OAuth state is not bound to this browser session');
+  }
+
+  if (!params.userId || params.userId !== record.user_id) {
+    throw new OAuthStateError('OAuth state was issued to another user');
+  }
+
+  return {
+    provider: record.provider,
+    companyId: record.company_id,
+    userId: record.user_id,
+    locale: record.locale,
+    codeVerifier: record.code_verifier,
+  };
+}
+
+/**
+ * Best-effort lookup of the locale for a state that failed verification,
+ * so error redirects still land on the page the user started from
+ */
+export async function peekOAuthStateLocale(state: string | null): Promise<string> {
+  const nonce = state?.split('.')[0];
+  if (!nonce) return routing.defaultLocale;
+
+  try {
+    const supabase = createSupabaseServiceClient();
+    const { data } = await supabase
+      .from('oauth_states')
+      .select('locale')
+      .eq('nonce_hash', hash(nonce))
+      .maybeSingle();
+    return data?.locale || routing.defaultLocale;
+  } catch {
+    return routing.defaultLocale;
+  }
+}
+
+/**
+ * Remove states that can no longer be used
+ */
+async function purgeExpiredOAuthStates(): Promise<void> {
+  const supabase = createSupabaseServiceClient();
+  const { error } = await supabase
+    .from('oauth_states')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('[OAUTH-STATE] Failed to purge expired OAuth states:', error);
+  }
+}
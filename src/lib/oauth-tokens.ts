@@ -1,5 +1,6 @@
 import { createSupabaseServiceClient } from '@/lib/supabaseServer'
-import { decryptOAuthTokens } from '@/lib/encryption'
+import { decryptOAuthTokens, encryptOAuthTokens, getEncryptionService } from '@/lib/encryption'
+import { fetchOAuthUserInfo, getOAuthProvider, OAuthUserInfo, refreshAccessToken } from '@/lib/oauth-providers'
 
 export interface OAuthTokens {
   access_token: string
@@ -16,17 +17,29 @@ export interface TokenRefreshResult {
 }
 
 /**
- * Get Google OAuth tokens for a company from encrypted storage
+ * Secret key under which a provider's tokens are stored for a company
+ *
+ * @param provider - The connection_key of the OAuth provider, e.g. 'google'
+ * @param companyId - The company ID
+ */
+export function getOAuthSecretKey(provider: string, companyId: string): string {
+  return `${provider}_oauth_tokens_${companyId.replace(/-/g, '_')}`
+}
+
+/**
+ * Get OAuth tokens for a company and provider from encrypted storage
+ * Expired access tokens are refreshed through the provider's token endpoint
  * 
  * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
  * @returns Decrypted OAuth tokens or null if not found
  */
-export async function getGoogleOAuthTokens(companyId: string): Promise<OAuthTokens | null> {
+export async function getOAuthTokens(companyId: string, provider: string): Promise<OAuthTokens | null> {
   try {
     const supabase = createSupabaseServiceClient()
     
     // Get the encrypted tokens from secrets table
-    const secretKey = `google_oauth_tokens_${companyId.replace(/-/g, '_')}`
+    const secretKey = getOAuthSecretKey(provider, companyId)
     
     const { data: secret, error } = await supabase
       .from('secrets')
@@ -36,105 +49,145 @@ export async function getGoogleOAuthTokens(companyId: string): Promise<OAuthToke
       .single()
 
     if (error || !secret) {
-      console.warn(`[OAUTH-TOKENS] No Google tokens found for company ${companyId}:`, error?.message)
+      console.warn(`[OAUTH-TOKENS] No ${provider} tokens found for company ${companyId}:`, error?.message)
       return null
     }
 
     // Decrypt the tokens
-    const tokens = decryptOAuthTokens(secret.encrypted_value)
+    const tokens = await decryptOAuthTokens(companyId, secret.encrypted_value)
     
     // Check if token is expired and needs refresh
     if (tokens.expires_at && Date.now() >= tokens.expires_at) {
-      console.log(`[OAUTH-TOKENS] Access token expired for company ${companyId}, attempting refresh`)
+      console.log(`[OAUTH-TOKENS] ${provider} access token expired for company ${companyId}, attempting refresh`)
       
       if (tokens.refresh_token) {
-        const refreshedTokens = await refreshGoogleToken(companyId, tokens.refresh_token)
+        const refreshedTokens = await refreshOAuthTokens(companyId, provider, tokens.refresh_token)
         if (refreshedTokens) {
           return refreshedTokens
         }
       }
       
-      console.warn(`[OAUTH-TOKENS] Unable to refresh expired token for company ${companyId}`)
+      console.warn(`[OAUTH-TOKENS] Unable to refresh expired ${provider} token for company ${companyId}`)
       return null
     }
 
     return tokens
   } catch (error) {
-    console.error('[OAUTH-TOKENS] Error retrieving Google tokens:', error)
+    console.error(`[OAUTH-TOKENS] Error retrieving ${provider} tokens:`, error)
     return null
   }
 }
 
 /**
- * Refresh Google OAuth access token using refresh token
+ * Get Google OAuth tokens for a company from encrypted storage
+ * 
+ * @param companyId - The company ID
+ * @returns Decrypted OAuth tokens or null if not found
+ */
+export async function getGoogleOAuthTokens(companyId: string): Promise<OAuthTokens | null> {
+  return getOAuthTokens(companyId, 'google')
+}
+
+/**
+ * Refresh an OAuth access token using the stored refresh token
  * 
  * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
  * @param refreshToken - The refresh token
  * @returns New tokens or null if refresh failed
  */
-async function refreshGoogleToken(companyId: string, refreshToken: string): Promise<TokenRefreshResult | null> {
+export async function refreshOAuthTokens(
+  companyId: string,
+  provider: string,
+  refreshToken: string
+): Promise<TokenRefreshResult | null> {
   try {
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        client_id: process.env.GOOGLE_CLIENT_ID!,
-        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-        refresh_token: refreshToken,
-        grant_type: 'refresh_token',
-      }),
-    })
-
-    if (!response.ok) {
-      const error = await response.json()
-      console.error('[OAUTH-TOKENS] Token refresh failed:', error)
-      return null
-    }
-
-    const newTokens = await response.json()
+    const providerConfig = await getOAuthProvider(provider)
+    const newTokens = await refreshAccessToken(providerConfig, refreshToken)
     
     // Calculate new expiry time
     const newTokenData: TokenRefreshResult = {
       access_token: newTokens.access_token,
       refresh_token: newTokens.refresh_token || refreshToken, // Use new refresh token if provided, otherwise keep old one
-      expires_at: Date.now() + (newTokens.expires_in * 1000),
+      expires_at: Date.now() + ((newTokens.expires_in || 3600) * 1000),
       scope: newTokens.scope
     }
 
     // Store the new tokens back to database
-    await updateStoredGoogleTokens(companyId, newTokenData)
+    await updateStoredOAuthTokens(companyId, provider, newTokenData)
     
-    console.log(`[OAUTH-TOKENS] Successfully refreshed tokens for company ${companyId}`)
+    console.log(`[OAUTH-TOKENS] Successfully refreshed ${provider} tokens for company ${companyId}`)
     return newTokenData
   } catch (error) {
-    console.error('[OAUTH-TOKENS] Error during token refresh:', error)
+    console.error(`[OAUTH-TOKENS] ${provider} token refresh failed:`, error)
     return null
   }
 }
 
 /**
- * Update stored Google OAuth tokens in database
+ * Store OAuth tokens for a company and provider, creating the secret if needed
+ * 
+ * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
+ * @param tokens - The token data to encrypt and store
+ * @param userId - The user who authorised the connection
+ * @returns The ID of the secrets row
+ */
+export async function storeOAuthTokens(
+  companyId: string,
+  provider: string,
+  tokens: OAuthTokens,
+  userId: string
+): Promise<string> {
+  const supabase = createSupabaseServiceClient()
+  const encryptedTokens = await encryptOAuthTokens(companyId, tokens)
+
+  const { data: secret, error } = await supabase
+    .from('secrets')
+    .upsert({
+      company_id: companyId,
+      key: getOAuthSecretKey(provider, companyId),
+      encrypted_value: encryptedTokens,
+      key_version: getEncryptionService().getCurrentKeyVersion(),
+      description: `${provider} OAuth tokens for company ${companyId}`,
+      app_permissions: [],
+      created_by: userId
+    }, {
+      onConflict: 'company_id,key'
+    })
+    .select('id')
+    .single()
+
+  if (error || !secret) {
+    console.error(`[OAUTH-TOKENS] Failed to store ${provider} tokens:`, error)
+    throw error || new Error('Failed to store OAuth tokens')
+  }
+
+  return secret.id
+}
+
+/**
+ * Update stored OAuth tokens in database
  * 
  * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
  * @param tokens - The new token data
  */
-async function updateStoredGoogleTokens(companyId: string, tokens: TokenRefreshResult): Promise<void> {
+async function updateStoredOAuthTokens(companyId: string, provider: string, tokens: TokenRefreshResult): Promise<void> {
   try {
     const supabase = createSupabaseServiceClient()
     
     // Encrypt the new tokens
-    const { encryptOAuthTokens } = await import('@/lib/encryption')
-    const encryptedTokens = encryptOAuthTokens(tokens)
+    const encryptedTokens = await encryptOAuthTokens(companyId, tokens)
     
-    const secretKey = `google_oauth_tokens_${companyId.replace(/-/g, '_')}`
+    const secretKey = getOAuthSecretKey(provider, companyId)
     
     // Update the encrypted tokens in secrets table
     const { error } = await supabase
       .from('secrets')
       .update({ 
         encrypted_value: encryptedTokens,
+        key_version: getEncryptionService().getCurrentKeyVersion(),
         updated_at: new Date().toISOString()
       })
       .eq('company_id', companyId)
@@ -145,13 +198,25 @@ async function updateStoredGoogleTokens(companyId: string, tokens: TokenRefreshR
       throw error
     }
 
-    console.log(`[OAUTH-TOKENS] Successfully updated stored tokens for company ${companyId}`)
+    console.log(`[OAUTH-TOKENS] Successfully updated stored ${provider} tokens for company ${companyId}`)
   } catch (error) {
     console.error('[OAUTH-TOKENS] Error updating stored tokens:', error)
     throw error
   }
 }
 
+/**
+ * Validate that we can retrieve valid OAuth tokens for a company and provider
+ * 
+ * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
+ * @returns true if valid tokens are available, false otherwise
+ */
+export async function hasValidOAuthTokens(companyId: string, provider: string): Promise<boolean> {
+  const tokens = await getOAuthTokens(companyId, provider)
+  return tokens !== null && !!tokens.access_token
+}
+
 /**
  * Validate that we can retrieve valid Google OAuth tokens for a company
  * 
@@ -159,15 +224,34 @@ async function updateStoredGoogleTokens(companyId: string, tokens: TokenRefreshR
  * @returns true if valid tokens are available, false otherwise
  */
 export async function hasValidGoogleTokens(companyId: string): Promise<boolean> {
-  const tokens = await getGoogleOAuthTokens(companyId)
-  return tokens !== null && !!tokens.access_token
+  return hasValidOAuthTokens(companyId, 'google')
 }
 
 /**
- * Get the Google user info associated with the stored tokens
+ * Get the account info associated with a provider's stored tokens
  * This can be useful for validation and displaying connection status
  * 
  * @param companyId - The company ID
+ * @param provider - The connection_key of the OAuth provider
+ * @returns Normalised account info or null if not available
+ */
+export async function getOAuthUserInfo(companyId: string, provider: string): Promise<OAuthUserInfo | null> {
+  const tokens = await getOAuthTokens(companyId, provider)
+  if (!tokens) return null
+
+  try {
+    const providerConfig = await getOAuthProvider(provider)
+    return await fetchOAuthUserInfo(providerConfig, tokens.access_token)
+  } catch (error) {
+    console.error(`[OAUTH-TOKENS] Error fetching ${provider} user info:`, error)
+    return null
+  }
+}
+
+/**
+ * Get the Google user info associated with the stored tokens
+ * 
+ * @param companyId - The company ID
  * @returns Google user info or null if not available
  */
 export async function getGoogleUserInfo(companyId: string): Promise<{
@@ -176,21 +260,13 @@ export async function getGoogleUserInfo(companyId: string): Promise<{
   picture?: string
   id: string
 } | null> {
-  const tokens = await getGoogleOAuthTokens(companyId)
-  if (!tokens) return null
+  const userInfo = await getOAuthUserInfo(companyId, 'google')
+  if (!userInfo) return null
 
-  try {
-    const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
-      headers: {
-        'Authorization': `Bearer ${tokens.access_token}`
-      }
-    })
-
-    if (!response.ok) return null
-
-    return await response.json()
-  } catch (error) {
-    console.error('[OAUTH-TOKENS] Error fetching Google user info:', error)
-    return null
+  return {
+    email: userInfo.email || '',
+    name: userInfo.name || '',
+    picture: userInfo.picture,
+    id: userInfo.id || ''
   }
-}
\ No newline at end of file
+}
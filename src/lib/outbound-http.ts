@@ -0,0 +1,168 @@
+/**
+ * Requests to user-supplied URLs
+ * Company webhooks and notification channels post to URLs that members enter. Checking the
+ * hostname is not enough: a public name can resolve to a private or link-local address
+ * (cloud metadata, services on our own network). postToPublicUrl resolves the host when it
+ * connects, refuses addresses that are not publicly routable and connects to the address it
+ * checked, so the name cannot be re-resolved to a different one in between.
+ */
+
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import type { IncomingHttpHeaders } from 'http';
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 127, 'ipv6'],
+  // NAT64 reaches any IPv4 host. IPv4-mapped addresses (::ffff:a.b.c.d) are checked against
+  // the IPv4 ranges by BlockList itself.
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blockList = new net.BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  blockList.addSubnet(network, prefix, type);
+}
+
+export class OutboundRequestError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'OUTBOUND_REQUEST_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'OutboundRequestError';
+  }
+}
+
+export interface OutboundResponse {
+  status: number;
+  ok: boolean;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+  const type = net.isIP(address);
+  if (type === 0) return false;
+  return !blockList.check(address, type === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL.hostname keeps the brackets around IPv6 literals
+function unbracket(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+async function resolveHost(hostname: string): Promise<dns.LookupAddress[]> {
+  const host = unbracket(hostname);
+  const type = net.isIP(host);
+  if (type !== 0) return [{ address: host, family: type }];
+  return dns.promises.lookup(host, { all: true });
+}
+
+/**
+ * Whether every address a hostname resolves to is public. Hosts that do not resolve fail.
+ */
+export async function resolvesToPublicAddress(hostname: string): Promise<boolean> {
+  try {
+    const addresses = await resolveHost(hostname);
+    return addresses.length > 0 && addresses.every(entry => isPublicAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+// Used as the socket's lookup, so the address checked is the address connected to
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const first = addresses[0];
+    if (!first || addresses.some(entry => !isPublicAddress(entry.address))) {
+      callback(new OutboundRequestError(`${hostname} does not resolve to a public address`, 'PRIVATE_ADDRESS'), '', 0);
+      return;
+    }
+
+    if (options.all) callback(null, addresses);
+    else callback(null, first.address, first.family);
+  });
+};
+
+/**
+ * POST a body to an https URL on a public host. Redirects are not followed.
+ *
+ * @throws OutboundRequestError with code PRIVATE_ADDRESS when the host is not public; network
+ * errors and timeouts are thrown as they are
+ */
+export async function postToPublicUrl(
+  url: string,
+  body: string,
+  options: { headers: Record<string, string>; timeoutMs: number; responseBodyLimit: number }
+): Promise<OutboundResponse> {
+  const target = new URL(url);
+  if (target.protocol !== 'https:') {
+    throw new OutboundRequestError('Only https URLs are allowed', 'INVALID_URL');
+  }
+
+  // IP literals are connected to without a lookup
+  const literal = unbracket(target.hostname);
+  if (net.isIP(literal) !== 0 && !isPublicAddress(literal)) {
+    throw new OutboundRequestError(`${literal} is not a public address`, 'PRIVATE_ADDRESS');
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...options.headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      response => {
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        // The rest of the body is read and dropped so the socket is released
+        response.on('data', (chunk: Buffer) => {
+          if (received < options.responseBodyLimit) chunks.push(chunk);
+          received += chunk.length;
+        });
+        response.on('end', () => {
+          const status = response.statusCode ?? 0;
+          resolve({
+            status,
+            ok: status >= 200 && status < 300,
+            headers: response.headers,
+            body: Buffer.concat(chunks).toString('utf8').substring(0, options.responseBodyLimit),
+          });
+        });
+        response.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
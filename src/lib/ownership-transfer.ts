@@ -0,0 +1,403 @@
+/**
+ * Company ownership transfer
+ * The owner nominates an existing member, the nominee accepts or declines from their
+ * ownership_transfer notification, and on acceptance companies.owner_uid and both
+ * company_users roles are swapped in a single transaction.
+ */
+
+import prisma from '@/lib/prisma';
+
+export type OwnershipTransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'expired';
+
+export interface OwnershipTransfer {
+  id: string;
+  company_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  to_user_email: string | null;
+  status: OwnershipTransferStatus;
+  expires_at: Date;
+  responded_at: Date | null;
+  created_at: Date | null;
+}
+
+export class OwnershipTransferError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'OWNERSHIP_TRANSFER_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'OwnershipTransferError';
+  }
+}
+
+/** How long the nominee has to respond */
+const TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Role the previous owner keeps after handing over the company */
+export const PREVIOUS_OWNER_ROLE = 'admin';
+
+const transferInclude = {
+  to_user: { select: { email: true } },
+} as const;
+
+function toOwnershipTransfer(row: {
+  id: string;
+  company_id: string;
+  from_user_id: string;
+  to_user_id: string;
+  status: string;
+  expires_at: Date;
+  responded_at: Date | null;
+  created_at: Date | null;
+  to_user: { email: string | null };
+}): OwnershipTransfer {
+  return {
+    id: row.id,
+    company_id: row.company_id,
+    from_user_id: row.from_user_id,
+    to_user_id: row.to_user_id,
+    to_user_email: row.to_user.email,
+    status: row.status as OwnershipTransferStatus,
+    expires_at: row.expires_at,
+    responded_at: row.responded_at,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Mark a pending transfer as expired once its deadline has passed
+ *
+ * @returns true when the transfer was expired by this call
+ */
+async function expireIfOverdue(transfer: { id: string; status: string; expires_at: Date; notification_id: string | null }): Promise<boolean> {
+  if (transfer.status !== 'pending' || transfer.expires_at >= new Date()) return false;
+
+  await prisma.company_ownership_transfers.update({
+    where: { id: transfer.id },
+    data: { status: 'expired', updated_at: new Date() },
+  });
+  if (transfer.notification_id) {
+    await prisma.notifications.updateMany({
+      where: { id: transfer.notification_id },
+      data: { read: true },
+    });
+  }
+  return true;
+}
+
+/**
+ * The company's open transfer, if any
+ */
+export async function getPendingOwnershipTransfer(companyId: string): Promise<OwnershipTransfer | null> {
+  const row = await prisma.company_ownership_transfers.findFirst({
+    where: { company_id: companyId, status: 'pending' },
+    include: transferInclude,
+  });
+
+  if (!row || await expireIfOverdue(row)) return null;
+  return toOwnershipTransfer(row);
+}
+
+/**
+ * Nominate a member as the new owner of a company
+ *
+ * @throws OwnershipTransferError when the caller is not the owner, the nominee is not an
+ * eligible member or another transfer is already pending
+ */
+export async function createOwnershipTransfer(
+  companyId: string,
+  fromUserId: string,
+  toUserId: string
+): Promise<OwnershipTransfer> {
+  const company = await prisma.companies.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, owner_uid: true },
+  });
+
+  if (!company) {
+    throw new OwnershipTransferError('Company not found', 'COMPANY_NOT_FOUND', 404);
+  }
+
+  const [caller, nominee] = await Promise.all([
+    prisma.company_users.findUnique({
+      where: { company_id_user_id: { company_id: companyId, user_id: fromUserId } },
+      select: { role: true },
+    }),
+    prisma.company_users.findUnique({
+      where: { company_id_user_id: { company_id: companyId, user_id: toUserId } },
+      select: { role: true },
+    }),
+  ]);
+
+  if (caller?.role !== 'owner' || (company.owner_uid && company.owner_uid !== fromUserId)) {
+    throw new OwnershipTransferError('Only the company owner can transfer ownership', 'NOT_OWNER', 403);
+  }
+
+  if (toUserId === fromUserId) {
+    throw new OwnershipTransferError('You already own this company', 'SAME_USER', 400);
+  }
+
+  if (!nominee) {
+    throw new OwnershipTransferError('The new owner must be a member of the company', 'NOT_A_MEMBER', 400);
+  }
+
+  if (nominee.role === 'owner') {
+    throw new OwnershipTransferError('This member is already an owner', 'ALREADY_OWNER', 400);
+  }
+
+  if (await getPendingOwnershipTransfer(companyId)) {
+    throw new OwnershipTransferError(
+      'An ownership transfer is already pending; cancel it first',
+      'TRANSFER_PENDING',
+      409
+    );
+  }
+
+  const sender = await prisma.users.findUnique({
+    where: { id: fromUserId },
+    select: { email: true },
+  });
+
+  const expiresAt = new Date(Date.now() + TRANSFER_TTL_MS);
+
+  const row = await prisma.$transaction(async (tx) => {
+    const notification = await tx.notifications.create({
+      data: {
+        userId: toUserId,
+        companyId,
+        type: 'ownership_transfer',
+        title: 'Company ownership transfer',
+        message: `${sender?.email ?? 'The owner'} wants to make you the owner of ${company.name}.`,
+        data: {
+          companyId,
+          companyName: company.name,
+          fromUser: sender?.email ?? null,
+        },
+        actionUrl: `/companies/${companyId}/settings`,
+        expiresAt,
+      },
+    });
+
+    return tx.company_ownership_transfers.create({
+      data: {
+        company_id: companyId,
+        from_user_id: fromUserId,
+        to_user_id: toUserId,
+        notification_id: notification.id,
+        expires_at: expiresAt,
+      },
+      include: transferInclude,
+    });
+  });
+
+  return toOwnershipTransfer(row);
+}
+
+/**
+ * Load a pending transfer addressed to a user
+ *
+ * @throws OwnershipTransferError when it does not exist, is already answered or has expired
+ */
+async function getPendingTransferForNominee(transferId: string, userId: string) {
+  const transfer = await prisma.company_ownership_transfers.findFirst({
+    where: { id: transferId, to_user_id: userId },
+    include: { ...transferInclude, companies: { select: { name: true } } },
+  });
+
+  if (!transfer || transfer.status !== 'pending') {
+    throw new OwnershipTransferError('Transfer not found or already processed', 'TRANSFER_NOT_FOUND', 404);
+  }
+
+  if (await expireIfOverdue(transfer)) {
+    throw new OwnershipTransferError('This ownership transfer has expired', 'TRANSFER_EXPIRED', 410);
+  }
+
+  return transfer;
+}
+
+/**
+ * Accept a transfer: the nominee becomes owner and the previous owner becomes an admin
+ *
+ * @throws OwnershipTransferError when the transfer is no longer valid, e.g. either party
+ * has left the company or the previous owner no longer owns it
+ */
+export async function acceptOwnershipTransfer(transferId: string, userId: string): Promise<OwnershipTransfer> {
+  const transfer = await getPendingTransferForNominee(transferId, userId);
+  const now = new Date();
+
+  const row = await prisma.$transaction(async (tx) => {
+    const [company, previousOwner, nominee] = await Promise.all([
+      tx.companies.findUnique({
+        where: { id: transfer.company_id },
+        select: { owner_uid: true },
+      }),
+      tx.company_users.findUnique({
+        where: { company_id_user_id: { company_id: transfer.company_id, user_id: transfer.from_user_id } },
+        select: { role: true },
+      }),
+      tx.company_users.findUnique({
+        where: { company_id_user_id: { company_id: transfer.company_id, user_id: transfer.to_user_id } },
+        select: { role: true },
+      }),
+    ]);
+
+    if (
+      !company ||
+      previousOwner?.role !== 'owner' ||
+      (company.owner_uid && company.owner_uid !== transfer.from_user_id) ||
+      !nominee
+    ) {
+      throw new OwnershipTransferError(
+        'The company membership changed since this transfer was created',
+        'TRANSFER_STALE',
+        409
+      );
+    }
+
+    await tx.companies.update({
+      where: { id: transfer.company_id },
+      data: { owner_uid: transfer.to_user_id, updated_at: now },
+    });
+
+    await tx.company_users.update({
+      where: { company_id_user_id: { company_id: transfer.company_id, user_id: transfer.to_user_id } },
+      data: { role: 'owner' },
+    });
+
+    await tx.company_users.update({
+      where: { company_id_user_id: { company_id: transfer.company_id, user_id: transfer.from_user_id } },
+      data: { role: PREVIOUS_OWNER_ROLE },
+    });
+
+    if (transfer.notification_id) {
+      await tx.notifications.update({
+        where: { id: transfer.notification_id },
+        data: {
+          read: true,
+          title: 'Ownership accepted',
+          message: `You are now the owner of ${transfer.companies.name}.`,
+        },
+      });
+    }
+
+    await tx.notifications.create({
+      data: {
+        userId: transfer.from_user_id,
+        companyId: transfer.company_id,
+        type: 'role_changed',
+        title: 'Ownership transferred',
+        message: `${transfer.to_user.email ?? 'The new owner'} accepted ownership of ${transfer.companies.name}. Your role is now ${PREVIOUS_OWNER_ROLE}.`,
+        data: {
+          companyId: transfer.company_id,
+          companyName: transfer.companies.name,
+          role: PREVIOUS_OWNER_ROLE,
+        },
+        actionUrl: `/companies/${transfer.company_id}`,
+      },
+    });
+
+    return tx.company_ownership_transfers.update({
+      where: { id: transfer.id },
+      data: { status: 'accepted', responded_at: now, updated_at: now },
+      include: transferInclude,
+    });
+  });
+
+  return toOwnershipTransfer(row);
+}
+
+/**
+ * Decline a transfer addressed to the user; nothing changes in the company
+ */
+export async function declineOwnershipTransfer(transferId: string, userId: string): Promise<OwnershipTransfer> {
+  const transfer = await getPendingTransferForNominee(transferId, userId);
+  const now = new Date();
+
+  const row = await prisma.$transaction(async (tx) => {
+    if (transfer.notification_id) {
+      await tx.notifications.update({
+        where: { id: transfer.notification_id },
+        data: {
+          read: true,
+          title: 'Ownership declined',
+          message: `You declined ownership of ${transfer.companies.name}.`,
+        },
+      });
+    }
+
+    await tx.notifications.create({
+      data: {
+        userId: transfer.from_user_id,
+        companyId: transfer.company_id,
+        type: 'role_changed',
+        title: 'Ownership transfer declined',
+        message: `${transfer.to_user.email ?? 'The nominee'} declined ownership of ${transfer.companies.name}.`,
+        data: {
+          companyId: transfer.company_id,
+          companyName: transfer.companies.name,
+        },
+        actionUrl: `/companies/${transfer.company_id}/settings`,
+      },
+    });
+
+    return tx.company_ownership_transfers.update({
+      where: { id: transfer.id },
+      data: { status: 'declined', responded_at: now, updated_at: now },
+      include: transferInclude,
+    });
+  });
+
+  return toOwnershipTransfer(row);
+}
+
+/**
+ * Withdraw the company's pending transfer
+ *
+ * @throws OwnershipTransferError when there is nothing to cancel
+ */
+export async function cancelOwnershipTransfer(companyId: string): Promise<OwnershipTransfer> {
+  const pending = await prisma.company_ownership_transfers.findFirst({
+    where: { company_id: companyId, status: 'pending' },
+    select: { id: true, notification_id: true },
+  });
+
+  if (!pending) {
+    throw new OwnershipTransferError('No pending ownership transfer', 'TRANSFER_NOT_FOUND', 404);
+  }
+
+  const row = await prisma.$transaction(async (tx) => {
+    // The nominee can no longer act on the notification
+    if (pending.notification_id) {
+      await tx.notifications.deleteMany({ where: { id: pending.notification_id } });
+    }
+
+    return tx.company_ownership_transfers.update({
+      where: { id: pending.id },
+      data: { status: 'cancelled', responded_at: new Date(), updated_at: new Date() },
+      include: transferInclude,
+    });
+  });
+
+  return toOwnershipTransfer(row);
+}
+
+/**
+ * Whether removing a member would leave the company without an owner
+ */
+export async function isLastOwner(companyId: string, userId: string): Promise<boolean> {
+  const [company, owners] = await Promise.all([
+    prisma.companies.findUnique({
+      where: { id: companyId },
+      select: { owner_uid: true },
+    }),
+    prisma.company_users.findMany({
+      where: { company_id: companyId, role: 'owner' },
+      select: { user_id: true },
+    }),
+  ]);
+
+  if (company?.owner_uid === userId) return true;
+  return owners.length === 1 && owners[0]?.user_id === userId;
+}
@@ -1,25 +1,109 @@
 // Permission utility functions for role-based access control
 
-// Define the roles that can manage integration settings
-const SETTINGS_MANAGEMENT_ROLES = ['admin', 'superadmin', 'owner'];
+/**
+ * Permission catalog
+ * Every company-scoped action is guarded by one of these keys. Roles map to a set of
+ * permissions; companies can customise the mapping for built-in roles and define their
+ * own roles (see company_role_permissions and src/lib/role-permissions.ts).
+ */
+export const PERMISSIONS = [
+  'company.manage',
+  'integrations.install',
+  'integrations.configure',
+  'users.invite',
+  'users.manage',
+  'billing.view',
+  'logs.read',
+  'secrets.manage',
+  'audit.read',
+  'security.manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'company.manage': 'Edit company details, branding and contact information',
+  'integrations.install': 'Install and uninstall integrations and applications',
+  'integrations.configure': 'Change integration settings and connections',
+  'users.invite': 'Invite new users to the company',
+  'users.manage': 'Change member roles and remove members',
+  'billing.view': 'View plans, invoices and usage',
+  'logs.read': 'Read integration runs and logs',
+  'secrets.manage': 'Create, replace and grant company secrets',
+  'audit.read': 'View and export the company audit log',
+  'security.manage': 'View security findings, resolve them, unlock member accounts and require MFA',
+};
+
+export const BUILT_IN_ROLES = ['owner', 'superadmin', 'admin', 'member'] as const;
+
+/**
+ * Custom role names follow the same rule as the database check constraint
+ */
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,31}$/;
+
+export type RolePermissionMap = Record<string, Permission[]>;
+
+/**
+ * Permissions of built-in roles until a company customises them.
+ * Owners always hold every permission and cannot be customised.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMap = {
+  owner: [...PERMISSIONS],
+  superadmin: [...PERMISSIONS],
+  admin: [...PERMISSIONS],
+  member: ['logs.read'],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function isBuiltInRole(role: string): boolean {
+  return (BUILT_IN_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Resolve the permissions of a role
+ *
+ * @param role - The company_users.role value
+ * @param companyRoles - The company's customised mapping; defaults apply when omitted
+ */
+export function getRolePermissions(role?: string, companyRoles?: RolePermissionMap): Permission[] {
+  if (!role) return [];
+  if (role === 'owner') return [...PERMISSIONS];
+  return companyRoles?.[role] ?? DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+}
 
-// Define the roles that can install/uninstall integrations
-const INTEGRATION_MANAGEMENT_ROLES = ['admin', 'superadmin', 'owner'];
+/**
+ * Check if a role holds a permission
+ */
+export function roleHasPermission(role: string | undefined, permission: Permission, companyRoles?: RolePermissionMap): boolean {
+  return getRolePermissions(role, companyRoles).includes(permission);
+}
+
+/**
+ * Check a permission for the active company on the client
+ * Uses the permissions resolved by the server when the company list provides them.
+ */
+export function can(company: { userRole?: string; permissions?: Permission[] } | null | undefined, permission: Permission): boolean {
+  if (!company) return false;
+  return company.permissions
+    ? company.permissions.includes(permission)
+    : roleHasPermission(company.userRole, permission);
+}
 
 /**
  * Check if a user role can manage integration settings
  */
 export function canManageIntegrationSettings(userRole?: string): boolean {
-  if (!userRole) return false;
-  return SETTINGS_MANAGEMENT_ROLES.includes(userRole);
+  return roleHasPermission(userRole, 'integrations.configure');
 }
 
 /**
  * Check if a user role can install/uninstall integrations
  */
 export function canManageIntegrations(userRole?: string): boolean {
-  if (!userRole) return false;
-  return INTEGRATION_MANAGEMENT_ROLES.includes(userRole);
+  return roleHasPermission(userRole, 'integrations.install');
 }
 
 /**
@@ -35,4 +119,4 @@ export function isAdminOrHigher(userRole?: string): boolean {
  */
 export function isOwner(userRole?: string): boolean {
   return userRole === 'owner';
-}
\ No newline at end of file
+}
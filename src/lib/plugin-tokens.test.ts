@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PluginTokenError, extractGoogleScopes, mintPluginToken, verifyPluginToken } from './plugin-tokens';
+
+const installation = {
+  companyApplicationId: 'cai-1',
+  companyId: 'company-1',
+  userId: 'user-1',
+  scopes: ['https://www.googleapis.com/auth/adwords'],
+};
+
+function expectTokenError(token: string, code: string) {
+  try {
+    verifyPluginToken(token);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PluginTokenError);
+    expect((error as PluginTokenError).code).toBe(code);
+    return;
+  }
+  throw new Error('Expected the token to be rejected');
+}
+
+describe('plugin tokens', () => {
+  beforeEach(() => {
+    process.env.PLUGIN_TOKEN_SECRET = 'test-plugin-token-secret';
+  });
+
+  it('verifies a minted token and returns its claims', () => {
+    const { token, expiresAt } = mintPluginToken(installation);
+    const payload = verifyPluginToken(token);
+
+    expect(token.startsWith('mhp_')).toBe(true);
+    expect(payload).toMatchObject({ cai: 'cai-1', cid: 'company-1', sub: 'user-1', scp: installation.scopes });
+    expect(expiresAt).toBe(payload.exp * 1000);
+  });
+
+  it('rejects a token whose payload was changed', () => {
+    const { token } = mintPluginToken(installation);
+    const [encodedPayload, signature] = token.slice('mhp_'.length).split('.');
+    const payload = JSON.parse(Buffer.from(encodedPayload!, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, cid: 'company-2' })).toString('base64url');
+
+    expectTokenError(`mhp_${forged}.${signature}`, 'PLUGIN_TOKEN_INVALID');
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const { token } = mintPluginToken(installation);
+    process.env.PLUGIN_TOKEN_SECRET = 'another-secret';
+
+    expectTokenError(token, 'PLUGIN_TOKEN_INVALID');
+  });
+
+  it('rejects an expired token', () => {
+    const { token } = mintPluginToken({ ...installation, ttlSeconds: 0 });
+
+    expectTokenError(token, 'PLUGIN_TOKEN_EXPIRED');
+  });
+
+  it('rejects malformed tokens', () => {
+    expectTokenError('not-a-token', 'PLUGIN_TOKEN_INVALID');
+    expectTokenError('mhp_payload-without-signature', 'PLUGIN_TOKEN_INVALID');
+  });
+
+  it('keeps only distinct Google scopes from permission names', () => {
+    expect(extractGoogleScopes([
+      'https://www.googleapis.com/auth/drive',
+      'storage.read',
+      'https://www.googleapis.com/auth/drive',
+    ])).toEqual(['https://www.googleapis.com/auth/drive']);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Plugin access tokens
+ * Short-lived, HMAC-signed tokens that bind an iframe plugin to a single
+ * installation (company_application_id + company_id) and the Google scopes
+ * granted to its application via application_permissions.
+ */
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+import { auditLogger, extractClientInfo } from '@/lib/audit-logger';
+import { applyRateLimitHeaders, checkRateLimit, rateLimitExceededResponse } from '@/lib/rate-limit/limiter';
+
+const TOKEN_PREFIX = 'mhp_';
+const TOKEN_VERSION = 1;
+export const PLUGIN_TOKEN_TTL_SECONDS = 15 * 60;
+
+const GOOGLE_SCOPE_PREFIX = 'https://www.googleapis.com/auth/';
+
+/**
+ * Google scopes accepted by each family of /api/plugins/google routes.
+ * A token needs at least one of the listed scopes to call the route.
+ */
+export const GOOGLE_PLUGIN_SCOPES = {
+  ads: [`${GOOGLE_SCOPE_PREFIX}adwords`],
+  analytics: [`${GOOGLE_SCOPE_PREFIX}analytics.readonly`, `${GOOGLE_SCOPE_PREFIX}analytics`],
+  docs: [`${GOOGLE_SCOPE_PREFIX}documents`, `${GOOGLE_SCOPE_PREFIX}drive`],
+  drive: [`${GOOGLE_SCOPE_PREFIX}drive.readonly`, `${GOOGLE_SCOPE_PREFIX}drive`],
+  gmail: [`${GOOGLE_SCOPE_PREFIX}gmail.readonly`],
+  searchConsole: [`${GOOGLE_SCOPE_PREFIX}webmasters.readonly`, `${GOOGLE_SCOPE_PREFIX}webmasters`],
+  sheetsRead: [`${GOOGLE_SCOPE_PREFIX}spreadsheets.readonly`, `${GOOGLE_SCOPE_PREFIX}spreadsheets`],
+  sheetsWrite: [`${GOOGLE_SCOPE_PREFIX}spreadsheets`],
+  youtube: [`${GOOGLE_SCOPE_PREFIX}yt-analytics.readonly`, `${GOOGLE_SCOPE_PREFIX}youtube.readonly`],
+} as const;
+
+export interface PluginTokenPayload {
+  v: number;
+  jti: string;
+  cai: string;   // company_application_id
+  cid: string;   // company_id
+  sub: string;   // user who opened the plugin
+  scp: string[]; // granted Google scopes
+  iat: number;
+  exp: number;
+}
+
+export interface PluginAuthContext {
+  companyId: string;
+  companyApplicationId: string;
+  applicationName: string;
+  userId: string;
+  scopes: string[];
+  tokenId: string;
+}
+
+export class PluginTokenError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'PLUGIN_TOKEN_INVALID',
+    public statusCode: number = 401
+  ) {
+    super(message);
+    this.name = 'PluginTokenError';
+  }
+}
+
+function getSigningKey(): Buffer {
+  const secret = process.env.PLUGIN_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('PLUGIN_TOKEN_SECRET environment variable is required');
+  }
+  return Buffer.from(secret, 'utf8');
+}
+
+function sign(encodedPayload: string): string {
+  return crypto
+    .createHmac('sha256', getSigningKey())
+    .update(`${TOKEN_PREFIX}${encodedPayload}`)
+    .digest('base64url');
+}
+
+/**
+ * Filter application_permissions names down to the Google scopes we can grant
+ */
+export function extractGoogleScopes(permissionNames: string[]): string[] {
+  return Array.from(
+    new Set(permissionNames.filter(name => name.startsWith(GOOGLE_SCOPE_PREFIX)))
+  );
+}
+
+/**
+ * Mint a signed plugin token for an installation
+ */
+export function mintPluginToken(params: {
+  companyApplicationId: string;
+  companyId: string;
+  userId: string;
+  scopes: string[];
+  ttlSeconds?: number;
+}): { token: string; expiresAt: number; payload: PluginTokenPayload } {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: PluginTokenPayload = {
+    v: TOKEN_VERSION,
+    jti: crypto.randomUUID(),
+    cai: params.companyApplicationId,
+    cid: params.companyId,
+    sub: params.userId,
+    scp: params.scopes,
+    iat: now,
+    exp: now + (params.ttlSeconds ?? PLUGIN_TOKEN_TTL_SECONDS),
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  const token = `${TOKEN_PREFIX}${encodedPayload}.${sign(encodedPayload)}`;
+
+  return { token, expiresAt: payload.exp * 1000, payload };
+}
+
+/**
+ * Verify signature and expiry of a plugin token and return its payload
+ */
+export function verifyPluginToken(token: string): PluginTokenPayload {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    throw new PluginTokenError('Malformed plugin token');
+  }
+
+  const [encodedPayload, signature] = token.slice(TOKEN_PREFIX.length).split('.');
+  if (!encodedPayload || !signature) {
+    throw new PluginTokenError('Malformed plugin token');
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new PluginTokenError('Invalid plugin token signature');
+  }
+
+  let payload: PluginTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    throw new PluginTokenError('Malformed plugin token');
+  }
+
+  if (payload.v !== TOKEN_VERSION || !payload.cai || !payload.cid || !Array.isArray(payload.scp)) {
+    throw new PluginTokenError('Unsupported plugin token');
+  }
+
+  if (Math.floor(Date.now() / 1000) >= payload.exp) {
+    throw new PluginTokenError('Plugin token expired', 'PLUGIN_TOKEN_EXPIRED');
+  }
+
+  return payload;
+}
+
+function extractToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith(`Bearer ${TOKEN_PREFIX}`)) {
+    return authHeader.slice('Bearer '.length);
+  }
+  return request.headers.get('x-plugin-token');
+}
+
+/**
+ * Read the companyId a plugin claims to act for, from the query string or JSON body
+ */
+async function extractRequestedCompanyId(request: NextRequest): Promise<string | null> {
+  const fromQuery = request.nextUrl.searchParams.get('companyId');
+  if (fromQuery) return fromQuery;
+
+  if (request.method === 'GET' || request.method === 'HEAD') return null;
+
+  try {
+    const body = await request.clone().json();
+    return typeof body?.companyId === 'string' ? body.companyId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Authenticate a plugin request against the token, the installation and the required scopes
+ */
+export async function authenticatePluginRequest(
+  request: NextRequest,
+  requiredScopes: readonly string[]
+): Promise<PluginAuthContext> {
+  const token = extractToken(request);
+  if (!token) {
+    throw new PluginTokenError('Plugin token required', 'PLUGIN_TOKEN_MISSING');
+  }
+
+  const payload = verifyPluginToken(token);
+  const { ipAddress, userAgent } = extractClientInfo(request);
+
+  // A plugin may still send companyId for backward compatibility, but it must match the token
+  const requestedCompanyId = await extractRequestedCompanyId(request);
+  if (requestedCompanyId && requestedCompanyId !== payload.cid) {
+    await auditLogger.logUnauthorizedAccess(
+      `company:${requestedCompanyId}`,
+      `plugin ${request.method} ${request.nextUrl.pathname} with token for company ${payload.cid}`,
+      payload.sub,
+      ipAddress,
+      userAgent
+    );
+    throw new PluginTokenError('Plugin token is not valid for this company', 'CROSS_COMPANY_ACCESS', 403);
+  }
+
+  if (!requiredScopes.some(scope => payload.scp.includes(scope))) {
+    throw new PluginTokenError('Plugin is not permitted to use this API', 'INSUFFICIENT_SCOPE', 403);
+  }
+
+  // The installation must still exist and be active; uninstalling revokes outstanding tokens
+  const supabase = createSupabaseServiceClient();
+  const { data: installation, error } = await supabase
+    .from('company_applications')
+    .select('id, company_id, is_active, application:applications(name)')
+    .eq('id', payload.cai)
+    .eq('company_id', payload.cid)
+    .single();
+
+  if (error || !installation || !installation.is_active) {
+    throw new PluginTokenError('Plugin installation is no longer active', 'INSTALLATION_INACTIVE', 403);
+  }
+
+  const application = installation.application as unknown as { name: string } | null;
+
+  return {
+    companyId: payload.cid,
+    companyApplicationId: payload.cai,
+    applicationName: application?.name || 'unknown',
+    userId: payload.sub,
+    scopes: payload.scp,
+    tokenId: payload.jti,
+  };
+}
+
+/**
+ * Record a plugin API call in integration_logs against the installation
+ */
+export async function recordPluginCall(
+  context: PluginAuthContext,
+  request: NextRequest,
+  status: number,
+  durationMs: number
+): Promise<void> {
+  try {
+    const supabase = createSupabaseServiceClient();
+    const { error } = await supabase.from('integration_logs').insert({
+      company_id: context.companyId,
+      company_application_id: context.companyApplicationId,
+      log_level: status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info',
+      log_source: 'api',
+      log_category: 'api_call',
+      message: `Plugin API call ${request.method} ${request.nextUrl.pathname} -> ${status}`,
+      integration_name: context.applicationName,
+      execution_time_ms: durationMs,
+      structured_data: {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        status,
+        user_id: context.userId,
+        token_id: context.tokenId,
+      },
+    });
+
+    if (error) {
+      console.error('[PLUGIN-TOKENS] Failed to record plugin call:', error);
+    }
+  } catch (error) {
+    // Recording must never break the plugin call itself
+    console.error('[PLUGIN-TOKENS] Error recording plugin call:', error);
+  }
+}
+
+/**
+ * Wrap a /api/plugins or /api/proxy route handler with plugin token authentication and the
+ * per-company plugins rate limit
+ */
+export function withPluginAuth(
+  requiredScopes: readonly string[],
+  handler: (request: NextRequest, context: PluginAuthContext, ...args: any[]) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: any[]): Promise<Response> => {
+    let context: PluginAuthContext;
+    try {
+      context = await authenticatePluginRequest(request, requiredScopes);
+    } catch (error) {
+      if (error instanceof PluginTokenError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.statusCode }
+        );
+      }
+
+      console.error('[PLUGIN-TOKENS] Plugin authentication failed:', error);
+      return NextResponse.json(
+        { error: 'Internal server error', code: 'INTERNAL_ERROR' },
+        { status: 500 }
+      );
+    }
+
+    const rateLimit = await checkRateLimit('plugins', {
+      request,
+      userId: context.userId,
+      companyId: context.companyId,
+    });
+    if (!rateLimit.allowed) {
+      const response = rateLimitExceededResponse(rateLimit);
+      await recordPluginCall(context, request, response.status, 0);
+      return response;
+    }
+
+    const startedAt = Date.now();
+    const response = await handler(request, context, ...args);
+    await recordPluginCall(context, request, response.status, Date.now() - startedAt);
+    return applyRateLimitHeaders(response, rateLimit);
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Rate limiting
+ * Every limit in the app is a named policy below: an algorithm, its numbers and what the
+ * limit is keyed on (user, IP, company, API key or email). checkRateLimit counts a request
+ * against a policy in the shared store, writes a RATE_LIMIT security event when it is
+ * rejected, and returns what the RateLimit-* response headers need.
+ *
+ * Routes either wrap their handler with withRateLimit, or call checkRateLimit where the key
+ * is only known after authentication (plugin tokens, API keys, invitations).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditLogger, extractClientInfo, getClientIp } from '@/lib/audit-logger';
+import { getRateLimitStore, RateLimitDecision } from './stores';
+
+export type RateLimitKeyType = 'user' | 'ip' | 'company' | 'api_key' | 'email';
+
+interface BasePolicy {
+  key: RateLimitKeyType;
+  description: string;
+  /** Shown in the 429 response */
+  message: string;
+}
+
+interface SlidingWindowPolicy extends BasePolicy {
+  algorithm: 'sliding-window';
+  limit: number;
+  windowMs: number;
+}
+
+interface TokenBucketPolicy extends BasePolicy {
+  algorithm: 'token-bucket';
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitPolicy = SlidingWindowPolicy | TokenBucketPolicy;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const PLUGIN_REQUESTS_PER_MINUTE = Number(process.env.PLUGIN_RATE_LIMIT_PER_MINUTE) || 1000;
+
+export const RATE_LIMIT_POLICIES = {
+  invitations: {
+    algorithm: 'sliding-window',
+    key: 'user',
+    limit: 10,
+    windowMs: MINUTE_MS,
+    description: 'Single, bulk and resent invitations per user',
+    message: 'Too many invitations sent. Please wait a moment.',
+  },
+  uploads: {
+    algorithm: 'sliding-window',
+    key: 'user',
+    limit: 10,
+    windowMs: HOUR_MS,
+    description: 'File uploads per user',
+    message: 'Upload rate limit exceeded. Please try again later.',
+  },
+  auth: {
+    algorithm: 'token-bucket',
+    key: 'ip',
+    capacity: 20,
+    refillPerSecond: 1 / 30,
+    description: '/api/auth endpoints per IP address',
+    message: 'Too many requests. Please try again later.',
+  },
+  'auth.password-reset': {
+    algorithm: 'sliding-window',
+    key: 'email',
+    limit: 1,
+    windowMs: MINUTE_MS,
+    description: 'Password reset emails per address; Supabase does not throttle admin-generated links',
+    message: 'Please wait a minute before requesting another reset email',
+  },
+  plugins: {
+    algorithm: 'token-bucket',
+    key: 'company',
+    capacity: PLUGIN_REQUESTS_PER_MINUTE,
+    refillPerSecond: PLUGIN_REQUESTS_PER_MINUTE / 60,
+    description: 'Plugin API calls (/api/plugins/google/*, /api/proxy/*) per company',
+    message: 'Plugin API rate limit exceeded. Please slow down.',
+  },
+  'api-keys': {
+    algorithm: 'token-bucket',
+    key: 'api_key',
+    capacity: 60,
+    refillPerSecond: 1,
+    description: 'Requests per company API key',
+    message: 'API key rate limit exceeded. Please slow down.',
+  },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+/**
+ * Who a request is limited as. Only the field matching the policy's key is required;
+ * request and userId also go into the audit entry when the limit is exceeded.
+ */
+export interface RateLimitTarget {
+  request?: NextRequest;
+  userId?: string;
+  companyId?: string;
+  apiKeyId?: string;
+  email?: string;
+}
+
+export interface RateLimitResult {
+  policy: RateLimitPolicyName;
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the limit resets; when rejected, until a retry can succeed */
+  resetSeconds: number;
+}
+
+function policyLimit(policy: RateLimitPolicy): number {
+  return policy.algorithm === 'sliding-window' ? policy.limit : policy.capacity;
+}
+
+/** Seconds it takes the policy to allow its full limit again */
+function policyWindowSeconds(policy: RateLimitPolicy): number {
+  return policy.algorithm === 'sliding-window'
+    ? Math.ceil(policy.windowMs / 1000)
+    : Math.ceil(policy.capacity / policy.refillPerSecond);
+}
+
+function resolveSubject(name: RateLimitPolicyName, policy: RateLimitPolicy, target: RateLimitTarget): string {
+  const subject = {
+    user: target.userId,
+    // Only an address a trusted proxy set; a client-chosen one would give it a fresh bucket per request
+    ip: target.request ? getClientIp(target.request) : undefined,
+    company: target.companyId,
+    api_key: target.apiKeyId,
+    email: target.email?.trim().toLowerCase(),
+  }[policy.key];
+
+  if (!subject) {
+    throw new Error(`Rate limit policy ${name} needs a ${policy.key} to key on`);
+  }
+  return subject;
+}
+
+/**
+ * Count a request against a policy. Rejections are audit-logged. If the store is unavailable
+ * the request is allowed, so a database hiccup does not take every limited route down.
+ */
+export async function checkRateLimit(
+  name: RateLimitPolicyName,
+  target: RateLimitTarget,
+  cost: number = 1
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[name];
+  const limit = policyLimit(policy);
+  const key = `${name}:${policy.key}:${resolveSubject(name, policy, target)}`;
+  const store = getRateLimitStore();
+
+  let decision: RateLimitDecision;
+  try {
+    decision = policy.algorithm === 'sliding-window'
+      ? await store.slidingWindow(key, policy.limit, policy.windowMs, cost)
+      : await store.tokenBucket(key, policy.capacity, policy.refillPerSecond, cost);
+  } catch (error) {
+    console.error(`[RATE-LIMIT] Store unavailable, allowing ${key}:`, error);
+    return { policy: name, allowed: true, limit, remaining: limit, resetSeconds: 0 };
+  }
+
+  if (!decision.allowed) {
+    const { request } = target;
+    const { ipAddress, userAgent } = request ? extractClientInfo(request) : { ipAddress: undefined, userAgent: undefined };
+    const endpoint = request ? `${name} (${request.method} ${request.nextUrl.pathname})` : name;
+    await auditLogger.logRateLimitExceeded(endpoint, target.userId, ipAddress, userAgent);
+  }
+
+  return {
+    policy: name,
+    allowed: decision.allowed,
+    limit,
+    remaining: decision.remaining,
+    resetSeconds: Math.max(0, Math.ceil(decision.resetMs / 1000)),
+  };
+}
+
+/**
+ * RateLimit-* headers (IETF draft-ietf-httpapi-ratelimit-headers) for a result, plus
+ * Retry-After when it was rejected
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[result.policy];
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${policyWindowSeconds(policy)}`,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, result.resetSeconds));
+  }
+  return headers;
+}
+
+export function applyRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/**
+ * The 429 response for a rejected request
+ */
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: RATE_LIMIT_POLICIES[result.policy].message, code: 'RATE_LIMIT_EXCEEDED' },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
+
+/**
+ * Wrap a route handler with a rate limit policy. The target defaults to the request itself,
+ * which is all IP-keyed policies need.
+ */
+export function withRateLimit<A extends any[]>(
+  name: RateLimitPolicyName,
+  handler: (request: NextRequest, ...args: A) => Promise<Response>,
+  getTarget: (request: NextRequest) => RateLimitTarget = request => ({ request })
+) {
+  return async (request: NextRequest, ...args: A): Promise<Response> => {
+    const result = await checkRateLimit(name, getTarget(request));
+    if (!result.allowed) {
+      return rateLimitExceededResponse(result);
+    }
+    return applyRateLimitHeaders(await handler(request, ...args), result);
+  };
+}
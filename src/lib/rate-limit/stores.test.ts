@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore } from './stores';
+
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+let now: number;
+let store: MemoryRateLimitStore;
+
+beforeEach(() => {
+  now = 10_000;
+  store = new MemoryRateLimitStore(() => now);
+});
+
+describe('MemoryRateLimitStore.slidingWindow', () => {
+  it('allows up to the limit in one window', async () => {
+    for (let i = 4; i >= 0; i--) {
+      expect(await store.slidingWindow('key', 5, 1000, 1)).toEqual({ allowed: true, remaining: i, resetMs: 1000 });
+    }
+
+    now += 250;
+    expect(await store.slidingWindow('key', 5, 1000, 1)).toEqual({ allowed: false, remaining: 0, resetMs: 750 });
+  });
+
+  it('weights the previous window by how much of it still overlaps', async () => {
+    for (let i = 0; i < 5; i++) await store.slidingWindow('key', 5, 1000, 1);
+
+    // Halfway through the next window half of the previous 5 requests still count
+    now = 11_500;
+    expect(await store.slidingWindow('key', 5, 1000, 1)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await store.slidingWindow('key', 5, 1000, 1)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await store.slidingWindow('key', 5, 1000, 1)).toMatchObject({ allowed: false, resetMs: 500 });
+  });
+
+  it('forgets windows older than the previous one', async () => {
+    for (let i = 0; i < 5; i++) await store.slidingWindow('key', 5, 1000, 1);
+
+    now = 12_000;
+    expect(await store.slidingWindow('key', 5, 1000, 1)).toMatchObject({ allowed: true, remaining: 4 });
+  });
+
+  it('charges the whole cost or nothing', async () => {
+    expect(await store.slidingWindow('key', 5, 1000, 3)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(await store.slidingWindow('key', 5, 1000, 3)).toMatchObject({ allowed: false, remaining: 2 });
+    expect(await store.slidingWindow('key', 5, 1000, 2)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('keeps keys apart and forgets a key on reset', async () => {
+    await store.slidingWindow('a', 1, 1000, 1);
+
+    expect(await store.slidingWindow('b', 1, 1000, 1)).toMatchObject({ allowed: true });
+    expect(await store.slidingWindow('a', 1, 1000, 1)).toMatchObject({ allowed: false });
+
+    await store.reset('a');
+    expect(await store.slidingWindow('a', 1, 1000, 1)).toMatchObject({ allowed: true });
+  });
+});
+
+describe('MemoryRateLimitStore.tokenBucket', () => {
+  it('starts full and rejects once the bucket is empty', async () => {
+    expect(await store.tokenBucket('key', 3, 1, 1)).toEqual({ allowed: true, remaining: 2, resetMs: 1000 });
+    expect(await store.tokenBucket('key', 3, 1, 1)).toEqual({ allowed: true, remaining: 1, resetMs: 2000 });
+    expect(await store.tokenBucket('key', 3, 1, 1)).toEqual({ allowed: true, remaining: 0, resetMs: 3000 });
+    expect(await store.tokenBucket('key', 3, 1, 1)).toEqual({ allowed: false, remaining: 0, resetMs: 1000 });
+  });
+
+  it('refills over time and tells a rejected caller when to retry', async () => {
+    for (let i = 0; i < 3; i++) await store.tokenBucket('key', 3, 2, 1);
+
+    now += 250;
+    expect(await store.tokenBucket('key', 3, 2, 1)).toMatchObject({ allowed: false, resetMs: 250 });
+
+    now += 250;
+    expect(await store.tokenBucket('key', 3, 2, 1)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('does not refill past capacity', async () => {
+    await store.tokenBucket('key', 3, 1, 3);
+
+    now += 60_000;
+    expect(await store.tokenBucket('key', 3, 1, 1)).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('never allows a cost larger than the capacity', async () => {
+    expect(await store.tokenBucket('key', 3, 1, 4)).toMatchObject({ allowed: false, remaining: 3 });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Rate limit stores
+ * Where rate limit state lives. PostgresRateLimitStore keeps it in rate_limit_buckets so every
+ * Next.js instance sees the same counts and limits survive restarts; each decision is one
+ * atomic SQL function call. MemoryRateLimitStore implements the same algorithms in-process
+ * for tests and local scripts (RATE_LIMIT_STORE=memory).
+ */
+
+import prisma from '@/lib/prisma';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Requests (or tokens) left after this one */
+  remaining: number;
+  /** Milliseconds until the limit resets; when rejected, until a retry can succeed */
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  /** Count a request against at most `limit` per `windowMs`, as a sliding window */
+  slidingWindow(key: string, limit: number, windowMs: number, cost: number): Promise<RateLimitDecision>;
+  /** Take `cost` tokens from a bucket of `capacity` that refills `refillPerSecond` tokens per second */
+  tokenBucket(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<RateLimitDecision>;
+  /** Forget the state of a key */
+  reset(key: string): Promise<void>;
+}
+
+interface DecisionRow {
+  allowed: boolean;
+  remaining: number;
+  reset_ms: number;
+}
+
+// Roughly one call in this many also deletes expired rows
+const PRUNE_EVERY = 200;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  async slidingWindow(key: string, limit: number, windowMs: number, cost: number): Promise<RateLimitDecision> {
+    const rows = await prisma.$queryRaw<DecisionRow[]>`
+      SELECT allowed, remaining, reset_ms
+        FROM public.rate_limit_sliding_window(${key}, ${limit}::integer, ${windowMs}::integer, ${cost}::integer)
+    `;
+    this.maybePrune();
+    return toDecision(rows[0]);
+  }
+
+  async tokenBucket(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<RateLimitDecision> {
+    const rows = await prisma.$queryRaw<DecisionRow[]>`
+      SELECT allowed, remaining, reset_ms
+        FROM public.rate_limit_token_bucket(${key}, ${capacity}::integer, ${refillPerSecond}::double precision, ${cost}::integer)
+    `;
+    this.maybePrune();
+    return toDecision(rows[0]);
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rate_limit_buckets.deleteMany({ where: { key } });
+  }
+
+  private maybePrune(): void {
+    if (Math.random() * PRUNE_EVERY >= 1) return;
+
+    prisma.rate_limit_buckets
+      .deleteMany({ where: { expires_at: { lt: new Date() } } })
+      .catch(error => console.error('[RATE-LIMIT] Failed to prune expired buckets:', error));
+  }
+}
+
+function toDecision(row: DecisionRow | undefined): RateLimitDecision {
+  if (!row) {
+    throw new Error('Rate limit function returned no row');
+  }
+  return { allowed: row.allowed, remaining: row.remaining, resetMs: row.reset_ms };
+}
+
+interface MemoryBucket {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, MemoryBucket>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async slidingWindow(key: string, limit: number, windowMs: number, cost: number): Promise<RateLimitDecision> {
+    const now = this.now();
+    const windowStart = now - (now % windowMs);
+    const bucket = this.buckets.get(key);
+
+    let previous = 0;
+    let current = 0;
+    if (bucket?.windowStart === windowStart) {
+      previous = bucket.previousCount;
+      current = bucket.count;
+    } else if (bucket?.windowStart === windowStart - windowMs) {
+      previous = bucket.count;
+    }
+
+    let estimate = previous * (1 - (now - windowStart) / windowMs) + current;
+    const allowed = estimate + cost <= limit;
+    if (allowed) {
+      current += cost;
+      estimate += cost;
+    }
+
+    this.buckets.set(key, { windowStart, count: current, previousCount: previous, tokens: 0, updatedAt: now });
+
+    return {
+      allowed,
+      remaining: Math.max(0, Math.floor(limit - estimate)),
+      resetMs: windowStart + windowMs - now,
+    };
+  }
+
+  async tokenBucket(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<RateLimitDecision> {
+    const now = this.now();
+    const bucket = this.buckets.get(key);
+
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond)
+      : capacity;
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    this.buckets.set(key, { windowStart: 0, count: 0, previousCount: 0, tokens, updatedAt: now });
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil(((allowed ? capacity - tokens : cost - tokens) / refillPerSecond) * 1000),
+    };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The store used by checkRateLimit: Postgres unless RATE_LIMIT_STORE=memory
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'memory'
+      ? new MemoryRateLimitStore()
+      : new PostgresRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the store, e.g. with a MemoryRateLimitStore with a fake clock in tests
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
@@ -0,0 +1,221 @@
+/**
+ * Company role permissions
+ * Loads and updates the per-company role → permission mappings stored in
+ * company_role_permissions. Built-in roles without a stored row use
+ * DEFAULT_ROLE_PERMISSIONS; the owner role is fixed.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  BUILT_IN_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  ROLE_NAME_PATTERN,
+  getRolePermissions,
+  isBuiltInRole,
+  isPermission,
+  type Permission,
+  type RolePermissionMap,
+} from '@/lib/permissions';
+
+export interface CompanyRole {
+  role: string;
+  permissions: Permission[];
+  builtIn: boolean;
+  customised: boolean;
+  editable: boolean;
+  memberCount: number;
+}
+
+export class RolePermissionError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'ROLE_PERMISSION_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'RolePermissionError';
+  }
+}
+
+/**
+ * The company's role → permission mapping with defaults applied
+ */
+export async function getCompanyRolePermissions(companyId: string): Promise<RolePermissionMap> {
+  const rows = await prisma.company_role_permissions.findMany({
+    where: { company_id: companyId },
+    select: { role: true, permissions: true },
+  });
+
+  const mapping: RolePermissionMap = { ...DEFAULT_ROLE_PERMISSIONS };
+  for (const row of rows) {
+    if (row.role === 'owner') continue;
+    mapping[row.role] = row.permissions.filter(isPermission);
+  }
+  return mapping;
+}
+
+/**
+ * Permissions held by a role within a company
+ */
+export async function getCompanyPermissionsForRole(companyId: string, role: string): Promise<Permission[]> {
+  if (role === 'owner') return [...PERMISSIONS];
+  return getRolePermissions(role, await getCompanyRolePermissions(companyId));
+}
+
+/**
+ * Whether a role holds only permissions from the given set. Members may grant, take away or
+ * remove only roles that do not exceed their own permissions.
+ */
+export async function isRoleWithinPermissions(
+  companyId: string,
+  role: string,
+  permissions: readonly Permission[]
+): Promise<boolean> {
+  const rolePermissions = await getCompanyPermissionsForRole(companyId, role);
+  return rolePermissions.every(permission => permissions.includes(permission));
+}
+
+/**
+ * Permissions for several memberships at once, keyed by company ID
+ */
+export async function getPermissionsForMemberships(
+  memberships: { company_id: string; role: string }[]
+): Promise<Record<string, Permission[]>> {
+  const rows = await prisma.company_role_permissions.findMany({
+    where: {
+      OR: memberships.map(m => ({ company_id: m.company_id, role: m.role })),
+    },
+    select: { company_id: true, role: true, permissions: true },
+  });
+
+  return Object.fromEntries(
+    memberships.map(m => {
+      const row = rows.find(r => r.company_id === m.company_id && r.role === m.role);
+      const companyRoles = row ? { [m.role]: row.permissions.filter(isPermission) } : undefined;
+      return [m.company_id, getRolePermissions(m.role, companyRoles)];
+    })
+  );
+}
+
+/**
+ * Every role that exists in a company: built-in roles plus custom roles
+ */
+export async function listCompanyRoles(companyId: string): Promise<CompanyRole[]> {
+  const [rows, members] = await Promise.all([
+    prisma.company_role_permissions.findMany({
+      where: { company_id: companyId },
+      select: { role: true, permissions: true },
+      orderBy: { role: 'asc' },
+    }),
+    prisma.company_users.groupBy({
+      by: ['role'],
+      where: { company_id: companyId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const memberCount = (role: string) => members.find(m => m.role === role)?._count._all ?? 0;
+  const stored = new Map(rows.map(row => [row.role, row.permissions.filter(isPermission)]));
+
+  const builtIn = BUILT_IN_ROLES.map(role => ({
+    role,
+    permissions: role === 'owner' ? [...PERMISSIONS] : stored.get(role) ?? DEFAULT_ROLE_PERMISSIONS[role] ?? [],
+    builtIn: true,
+    customised: stored.has(role),
+    editable: role !== 'owner',
+    memberCount: memberCount(role),
+  }));
+
+  const custom = rows
+    .filter(row => !isBuiltInRole(row.role))
+    .map(row => ({
+      role: row.role,
+      permissions: stored.get(row.role) ?? [],
+      builtIn: false,
+      customised: true,
+      editable: true,
+      memberCount: memberCount(row.role),
+    }));
+
+  return [...builtIn, ...custom];
+}
+
+/**
+ * Whether a role can be assigned to members of a company
+ */
+export async function companyRoleExists(companyId: string, role: string): Promise<boolean> {
+  if (isBuiltInRole(role)) return true;
+  const row = await prisma.company_role_permissions.findUnique({
+    where: { company_id_role: { company_id: companyId, role } },
+    select: { id: true },
+  });
+  return !!row;
+}
+
+/**
+ * Create a custom role or replace the permissions of an existing one
+ *
+ * @throws RolePermissionError for the owner role, invalid names or unknown permissions
+ */
+export async function setCompanyRolePermissions(
+  companyId: string,
+  role: string,
+  permissions: string[],
+  userId: string
+): Promise<Permission[]> {
+  if (role === 'owner') {
+    throw new RolePermissionError('The owner role always has every permission', 'OWNER_ROLE_FIXED', 400);
+  }
+
+  if (!ROLE_NAME_PATTERN.test(role)) {
+    throw new RolePermissionError(
+      'Role names must start with a letter and use only lowercase letters, digits and underscores',
+      'INVALID_ROLE_NAME',
+      400
+    );
+  }
+
+  const unknown = permissions.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) {
+    throw new RolePermissionError(`Unknown permissions: ${unknown.join(', ')}`, 'UNKNOWN_PERMISSION', 400);
+  }
+
+  const unique = Array.from(new Set(permissions)) as Permission[];
+
+  await prisma.company_role_permissions.upsert({
+    where: { company_id_role: { company_id: companyId, role } },
+    create: { company_id: companyId, role, permissions: unique, updated_by: userId },
+    update: { permissions: unique, updated_by: userId, updated_at: new Date() },
+  });
+
+  return unique;
+}
+
+/**
+ * Reset a built-in role to its defaults, or delete a custom role
+ *
+ * @throws RolePermissionError when a custom role is still assigned to members
+ */
+export async function deleteCompanyRole(companyId: string, role: string): Promise<void> {
+  if (role === 'owner') {
+    throw new RolePermissionError('The owner role cannot be changed', 'OWNER_ROLE_FIXED', 400);
+  }
+
+  if (!isBuiltInRole(role)) {
+    const assigned = await prisma.company_users.count({
+      where: { company_id: companyId, role },
+    });
+    if (assigned > 0) {
+      throw new RolePermissionError(
+        `Role ${role} is assigned to ${assigned} member${assigned === 1 ? '' : 's'}; change their role first`,
+        'ROLE_IN_USE',
+        409
+      );
+    }
+  }
+
+  await prisma.company_role_permissions.deleteMany({
+    where: { company_id: companyId, role },
+  });
+}
@@ -0,0 +1,101 @@
+import { createSupabaseServiceClient } from '@/lib/supabaseServer'
+import type { CompanySecret, SecretRequirement } from '@/lib/validation/secretSchema'
+
+/**
+ * Columns that may leave the server; encrypted_value is deliberately absent
+ */
+export const SECRET_METADATA_COLUMNS =
+  'id, key, description, app_permissions, key_version, last_used_at, created_at, updated_at, created_by'
+
+/**
+ * Secrets written by the platform itself (e.g. OAuth tokens from /api/connections)
+ * are listed but cannot be edited or deleted through the secrets API
+ */
+export function isManagedSecretKey(key: string): boolean {
+  return /_oauth_tokens_[0-9a-f_]+$/.test(key)
+}
+
+export function toCompanySecret(row: Omit<CompanySecret, 'managed'>): CompanySecret {
+  return { ...row, app_permissions: row.app_permissions || [], managed: isManagedSecretKey(row.key) }
+}
+
+/**
+ * Compare an application's required_secrets with the company's secrets
+ *
+ * A requirement is satisfied only when the secret exists and has been granted to
+ * the application through app_permissions.
+ *
+ * @param companyId - The company ID
+ * @param applicationId - The application ID (applications.id)
+ */
+export async function getSecretRequirements(companyId: string, applicationId: string): Promise<SecretRequirement[]> {
+  const supabase = createSupabaseServiceClient()
+
+  const { data: application, error: appError } = await supabase
+    .from('applications')
+    .select('required_secrets')
+    .eq('id', applicationId)
+    .single()
+
+  if (appError || !application) {
+    throw new Error('Application not found')
+  }
+
+  const requiredKeys: string[] = application.required_secrets || []
+  if (requiredKeys.length === 0) return []
+
+  const { data: secrets, error } = await supabase
+    .from('secrets')
+    .select('id, key, app_permissions')
+    .eq('company_id', companyId)
+    .in('key', requiredKeys)
+
+  if (error) {
+    throw new Error(`Failed to load company secrets: ${error.message}`)
+  }
+
+  return requiredKeys.map(key => {
+    const secret = secrets?.find(s => s.key === key)
+    if (!secret) return { key, status: 'missing' }
+    if (!(secret.app_permissions || []).includes(applicationId)) {
+      return { key, status: 'not_granted', secret_id: secret.id }
+    }
+    return { key, status: 'ok', secret_id: secret.id }
+  })
+}
+
+/**
+ * Required secrets that are missing or not granted, or an empty list when the
+ * check itself fails so that callers can still complete the install
+ */
+export async function getUnmetSecretRequirements(companyId: string, applicationId: string): Promise<SecretRequirement[]> {
+  try {
+    const requirements = await getSecretRequirements(companyId, applicationId)
+    return requirements.filter(r => r.status !== 'ok')
+  } catch (error) {
+    console.error('[SECRETS] Failed to check secret requirements:', error)
+    return []
+  }
+}
+
+/**
+ * Application IDs from a requested app_permissions list that are not installed
+ * for the company; a secret can only be granted to installed applications
+ */
+export async function findUninstalledApplications(companyId: string, applicationIds: string[]): Promise<string[]> {
+  if (applicationIds.length === 0) return []
+
+  const supabase = createSupabaseServiceClient()
+  const { data, error } = await supabase
+    .from('company_applications')
+    .select('application_id')
+    .eq('company_id', companyId)
+    .in('application_id', applicationIds)
+
+  if (error) {
+    throw new Error(`Failed to load installed applications: ${error.message}`)
+  }
+
+  const installed = new Set((data || []).map(row => row.application_id))
+  return applicationIds.filter(id => !installed.has(id))
+}
@@ -0,0 +1,832 @@
+/**
+ * Security analytics
+ * SecurityMonitor ingests security events as signals: sign-ins, failed sign-ins,
+ * unauthorized access, rate limits, uploads and exports. Signals are kept in
+ * security_signals for SIGNAL_RETENTION_DAYS, so every detection window spans all instances
+ * and survives restarts. Each signal runs the detectors that apply to it:
+ *
+ * - brute_force_account: failed sign-ins for one account; the account is locked for a while
+ * - brute_force_ip: failed sign-ins or rate limits from one IP address
+ * - impossible_travel: two sign-ins further apart than anyone could travel in between;
+ *   the user must sign in again
+ * - export_volume: a user exporting far more rows than they usually do; re-auth required
+ * - cross_company_access: a user denied access to several companies they are not a member of;
+ *   re-auth required
+ *
+ * A finding is recorded once per subject; repeats update it while it is not resolved. New
+ * findings notify the owners of the companies concerned and appear in the security dashboard
+ * of those companies.
+ */
+
+import { NextRequest } from 'next/server';
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { auditLogger } from '@/lib/audit-logger';
+import { notifyUsers } from '@/lib/notifications';
+import { createSupabaseServiceClient } from '@/lib/supabaseServer';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const SIGNAL_RETENTION_DAYS = 30;
+
+// Roughly one ingested signal in this many also deletes expired signals
+const PRUNE_EVERY = 200;
+
+export const SECURITY_SIGNAL_TYPES = [
+  'LOGIN', 'FAILED_AUTH', 'UNAUTHORIZED_ACCESS', 'RATE_LIMIT', 'FILE_UPLOAD', 'DATA_EXPORT',
+] as const;
+
+export const SECURITY_DETECTORS = [
+  'brute_force_account', 'brute_force_ip', 'impossible_travel', 'export_volume', 'cross_company_access',
+] as const;
+
+export const FINDING_STATUSES = ['open', 'acknowledged', 'resolved'] as const;
+
+export type SecuritySignalType = typeof SECURITY_SIGNAL_TYPES[number];
+export type SecurityDetector = typeof SECURITY_DETECTORS[number];
+export type FindingStatus = typeof FINDING_STATUSES[number];
+export type FindingSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type AccountAction = 'account_locked' | 'reauth_required';
+
+/** Where a request came from, from the hosting platform's geolocation headers */
+export interface ClientGeo {
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface SecuritySignal {
+  type: SecuritySignalType;
+  userId?: string;
+  email?: string;
+  /** Company the event concerned; for UNAUTHORIZED_ACCESS the company that was denied */
+  companyId?: string;
+  ipAddress?: string;
+  geo?: ClientGeo;
+  /** Rows for DATA_EXPORT, bytes for FILE_UPLOAD; 1 otherwise */
+  quantity?: number;
+}
+
+/**
+ * Detector thresholds. Windows are sliding and counted from security_signals.
+ */
+export const DETECTION_RULES = {
+  brute_force_account: {
+    windowMs: 15 * MINUTE_MS,
+    threshold: 10,
+    severity: 'HIGH',
+    action: 'account_locked',
+    lockMs: 30 * MINUTE_MS,
+  },
+  brute_force_ip: {
+    windowMs: 15 * MINUTE_MS,
+    threshold: 30,
+    severity: 'HIGH',
+    action: null,
+  },
+  impossible_travel: {
+    windowMs: DAY_MS,
+    minDistanceKm: 500,
+    maxSpeedKmh: 900,
+    severity: 'HIGH',
+    action: 'reauth_required',
+  },
+  export_volume: {
+    windowMs: DAY_MS,
+    baselineDays: SIGNAL_RETENTION_DAYS,
+    minRows: 10000,
+    multiplier: 5,
+    severity: 'HIGH',
+    action: 'reauth_required',
+  },
+  cross_company_access: {
+    windowMs: HOUR_MS,
+    distinctCompanies: 3,
+    severity: 'HIGH',
+    action: 'reauth_required',
+  },
+} as const;
+
+/** Open findings for the same subject are updated instead of repeated for this long */
+const FINDING_DEDUP_MS = DAY_MS;
+
+export interface AccountRestriction {
+  code: 'ACCOUNT_LOCKED' | 'REAUTH_REQUIRED';
+  message: string;
+  lockedUntil?: Date;
+}
+
+export class SecurityAnalyticsError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'SECURITY_ANALYTICS_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'SecurityAnalyticsError';
+  }
+}
+
+/**
+ * Geolocation of the client from Vercel (x-vercel-ip-*) or Cloudflare (cf-ip*) headers;
+ * empty when the app runs behind neither
+ */
+export function extractClientGeo(request: NextRequest): ClientGeo {
+  const header = (...names: string[]) => names.map(name => request.headers.get(name)).find(Boolean) ?? undefined;
+  const country = header('x-vercel-ip-country', 'cf-ipcountry');
+  const latitude = Number(header('x-vercel-ip-latitude', 'cf-iplatitude') ?? NaN);
+  const longitude = Number(header('x-vercel-ip-longitude', 'cf-iplongitude') ?? NaN);
+
+  return {
+    ...(country && { country }),
+    ...(Number.isFinite(latitude) && Number.isFinite(longitude) && { latitude, longitude }),
+  };
+}
+
+/** Great-circle distance in kilometres */
+function distanceKm(from: { latitude: number; longitude: number }, to: { latitude: number; longitude: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function usableIp(ipAddress: string | undefined): string | undefined {
+  return ipAddress && ipAddress !== 'unknown' ? ipAddress : undefined;
+}
+
+/**
+ * Record a signal and run the detectors that apply to it
+ */
+export async function ingestSecuritySignal(signal: SecuritySignal): Promise<void> {
+  const email = signal.email?.trim().toLowerCase();
+  let userId = signal.userId;
+
+  // Failed sign-ins only know the email that was tried
+  if (!userId && email && signal.type === 'FAILED_AUTH') {
+    const user = await prisma.users.findFirst({ where: { email }, select: { id: true } });
+    userId = user?.id;
+  }
+
+  const normalized: SecuritySignal = {
+    ...signal,
+    ...(userId && { userId }),
+    ...(email && { email }),
+    ipAddress: usableIp(signal.ipAddress),
+  };
+
+  // A sign-in is compared with the one before it, so this runs before it is stored
+  if (normalized.type === 'LOGIN') {
+    await detectImpossibleTravel(normalized);
+  }
+
+  await prisma.security_signals.create({
+    data: {
+      event_type: normalized.type,
+      user_id: normalized.userId ?? null,
+      email: normalized.email ?? null,
+      company_id: normalized.companyId ?? null,
+      ip_address: normalized.ipAddress ?? null,
+      country: normalized.geo?.country ?? null,
+      latitude: normalized.geo?.latitude ?? null,
+      longitude: normalized.geo?.longitude ?? null,
+      quantity: Math.max(1, Math.round(normalized.quantity ?? 1)),
+    },
+  });
+  maybePruneSignals();
+
+  switch (normalized.type) {
+    case 'FAILED_AUTH':
+      await detectAccountBruteForce(normalized);
+      await detectIpBruteForce(normalized);
+      break;
+    case 'RATE_LIMIT':
+      await detectIpBruteForce(normalized);
+      break;
+    case 'DATA_EXPORT':
+      await detectExportVolume(normalized);
+      break;
+    case 'UNAUTHORIZED_ACCESS':
+      await detectCrossCompanyAccess(normalized);
+      break;
+  }
+}
+
+function maybePruneSignals(): void {
+  if (Math.random() * PRUNE_EVERY >= 1) return;
+
+  prisma.security_signals
+    .deleteMany({ where: { occurred_at: { lt: new Date(Date.now() - SIGNAL_RETENTION_DAYS * DAY_MS) } } })
+    .catch(error => console.error('[SECURITY] Failed to prune security signals:', error));
+}
+
+async function detectAccountBruteForce(signal: SecuritySignal): Promise<void> {
+  if (!signal.email) return;
+  const rule = DETECTION_RULES.brute_force_account;
+
+  const failures = await prisma.security_signals.count({
+    where: { event_type: 'FAILED_AUTH', email: signal.email, occurred_at: { gte: new Date(Date.now() - rule.windowMs) } },
+  });
+  if (failures < rule.threshold) return;
+
+  await recordFinding({
+    detector: 'brute_force_account',
+    subject: `account:${signal.email}`,
+    userId: signal.userId,
+    ipAddress: signal.ipAddress,
+    summary: `${failures} failed sign-ins for ${signal.email} in ${rule.windowMs / MINUTE_MS} minutes`,
+    details: { email: signal.email, failures, window_minutes: rule.windowMs / MINUTE_MS, last_ip: signal.ipAddress ?? null },
+    eventCount: failures,
+  });
+}
+
+async function detectIpBruteForce(signal: SecuritySignal): Promise<void> {
+  if (!signal.ipAddress) return;
+  const rule = DETECTION_RULES.brute_force_ip;
+
+  const since = new Date(Date.now() - rule.windowMs);
+  const events = await prisma.security_signals.groupBy({
+    by: ['event_type'],
+    where: { ip_address: signal.ipAddress, event_type: { in: ['FAILED_AUTH', 'RATE_LIMIT'] }, occurred_at: { gte: since } },
+    _count: { _all: true },
+  });
+  const total = events.reduce((sum, row) => sum + row._count._all, 0);
+  if (total < rule.threshold) return;
+
+  const accounts = await prisma.security_signals.findMany({
+    where: { ip_address: signal.ipAddress, event_type: 'FAILED_AUTH', email: { not: null }, occurred_at: { gte: since } },
+    distinct: ['email'],
+    select: { email: true },
+    take: 20,
+  });
+
+  await recordFinding({
+    detector: 'brute_force_ip',
+    subject: `ip:${signal.ipAddress}`,
+    ipAddress: signal.ipAddress,
+    summary: `${total} failed sign-ins and rate-limited requests from ${signal.ipAddress} in ${rule.windowMs / MINUTE_MS} minutes`,
+    details: {
+      ...Object.fromEntries(events.map(row => [row.event_type.toLowerCase(), row._count._all])),
+      accounts: accounts.map(account => account.email),
+      window_minutes: rule.windowMs / MINUTE_MS,
+    },
+    eventCount: total,
+  });
+}
+
+async function detectImpossibleTravel(signal: SecuritySignal): Promise<void> {
+  const { userId, geo } = signal;
+  if (!userId || geo?.latitude === undefined || geo.longitude === undefined) return;
+  const rule = DETECTION_RULES.impossible_travel;
+
+  const previous = await prisma.security_signals.findFirst({
+    where: {
+      event_type: 'LOGIN',
+      user_id: userId,
+      latitude: { not: null },
+      longitude: { not: null },
+      occurred_at: { gte: new Date(Date.now() - rule.windowMs) },
+    },
+    orderBy: { occurred_at: 'desc' },
+  });
+  if (!previous || previous.latitude === null || previous.longitude === null) return;
+
+  const distance = distanceKm(
+    { latitude: previous.latitude, longitude: previous.longitude },
+    { latitude: geo.latitude, longitude: geo.longitude }
+  );
+  // At least a minute apart, so two sign-ins in the same second do not divide by zero
+  const hours = Math.max(Date.now() - previous.occurred_at.getTime(), MINUTE_MS) / HOUR_MS;
+  const speed = distance / hours;
+  if (distance < rule.minDistanceKm || speed <= rule.maxSpeedKmh) return;
+
+  await recordFinding({
+    detector: 'impossible_travel',
+    subject: `user:${userId}`,
+    userId,
+    ipAddress: signal.ipAddress,
+    summary: `Sign-ins ${Math.round(distance)} km apart within ${Math.max(1, Math.round(hours * 60))} minutes`,
+    details: {
+      from: { country: previous.country, ip_address: previous.ip_address, at: previous.occurred_at.toISOString() },
+      to: { country: geo.country ?? null, ip_address: signal.ipAddress ?? null, at: new Date().toISOString() },
+      distance_km: Math.round(distance),
+      speed_kmh: Math.round(speed),
+    },
+  });
+}
+
+async function detectExportVolume(signal: SecuritySignal): Promise<void> {
+  if (!signal.userId) return;
+  const rule = DETECTION_RULES.export_volume;
+
+  const windowStart = new Date(Date.now() - rule.windowMs);
+  const baselineStart = new Date(windowStart.getTime() - rule.baselineDays * DAY_MS);
+  const [recent, baseline] = await Promise.all([
+    prisma.security_signals.aggregate({
+      where: { event_type: 'DATA_EXPORT', user_id: signal.userId, occurred_at: { gte: windowStart } },
+      _sum: { quantity: true },
+    }),
+    prisma.security_signals.aggregate({
+      where: { event_type: 'DATA_EXPORT', user_id: signal.userId, occurred_at: { gte: baselineStart, lt: windowStart } },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const rows = recent._sum.quantity ?? 0;
+  const dailyAverage = (baseline._sum.quantity ?? 0) / rule.baselineDays;
+  const threshold = Math.max(rule.minRows, dailyAverage * rule.multiplier);
+  if (rows <= threshold) return;
+
+  await recordFinding({
+    detector: 'export_volume',
+    subject: `user:${signal.userId}`,
+    userId: signal.userId,
+    companyId: signal.companyId,
+    ipAddress: signal.ipAddress,
+    summary: `${rows.toLocaleString('en-US')} rows exported in 24 hours, usually ${Math.round(dailyAverage).toLocaleString('en-US')} a day`,
+    details: { rows, daily_average: Math.round(dailyAverage), threshold: Math.round(threshold) },
+  });
+}
+
+async function detectCrossCompanyAccess(signal: SecuritySignal): Promise<void> {
+  if (!signal.userId || !signal.companyId) return;
+  const rule = DETECTION_RULES.cross_company_access;
+
+  const denied = await prisma.security_signals.findMany({
+    where: {
+      event_type: 'UNAUTHORIZED_ACCESS',
+      user_id: signal.userId,
+      company_id: { not: null },
+      occurred_at: { gte: new Date(Date.now() - rule.windowMs) },
+    },
+    distinct: ['company_id'],
+    select: { company_id: true },
+  });
+  if (denied.length < rule.distinctCompanies) return;
+
+  await recordFinding({
+    detector: 'cross_company_access',
+    subject: `user:${signal.userId}`,
+    userId: signal.userId,
+    ipAddress: signal.ipAddress,
+    summary: `Denied access to ${denied.length} companies within an hour`,
+    details: { companies: denied.map(row => row.company_id) },
+    eventCount: denied.length,
+  });
+}
+
+interface FindingInput {
+  detector: SecurityDetector;
+  subject: string;
+  userId?: string;
+  companyId?: string;
+  ipAddress?: string;
+  summary: string;
+  details: Record<string, unknown>;
+  eventCount?: number;
+}
+
+/**
+ * Create a finding, or update the open one for the same subject. The account action is
+ * (re)applied either way; owners are only notified of new findings.
+ */
+async function recordFinding(input: FindingInput): Promise<void> {
+  const rule = DETECTION_RULES[input.detector];
+  const now = new Date();
+
+  const existing = await prisma.security_findings.findFirst({
+    where: {
+      detector: input.detector,
+      subject: input.subject,
+      status: { not: 'resolved' },
+      last_seen_at: { gte: new Date(now.getTime() - FINDING_DEDUP_MS) },
+    },
+    orderBy: { last_seen_at: 'desc' },
+  });
+
+  const action = rule.action && input.userId ? await applyAccountAction(input.userId, rule, input.summary) : null;
+
+  if (existing) {
+    await prisma.security_findings.update({
+      where: { id: existing.id },
+      data: {
+        event_count: input.eventCount ?? existing.event_count + 1,
+        summary: input.summary,
+        details: input.details as Prisma.InputJsonValue,
+        last_seen_at: now,
+        updated_at: now,
+        ...(action && { action_taken: action }),
+      },
+    });
+    return;
+  }
+
+  const finding = await prisma.security_findings.create({
+    data: {
+      detector: input.detector,
+      severity: rule.severity,
+      subject: input.subject,
+      user_id: input.userId ?? null,
+      company_id: input.companyId ?? null,
+      ip_address: input.ipAddress ?? null,
+      summary: input.summary,
+      details: input.details as Prisma.InputJsonValue,
+      event_count: input.eventCount ?? 1,
+      action_taken: action,
+      first_seen_at: now,
+      last_seen_at: now,
+    },
+  });
+
+  const companyIds = await findingCompanyIds(finding.company_id, finding.user_id);
+
+  for (const companyId of companyIds.length > 0 ? companyIds : [undefined]) {
+    await auditLogger.logSuspiciousActivity(
+      `${input.detector}: ${input.summary}`,
+      rule.severity,
+      input.userId,
+      input.ipAddress,
+      undefined,
+      {
+        ...(companyId && { company_id: companyId }),
+        finding_id: finding.id,
+        detector: input.detector,
+        action_taken: action,
+      }
+    );
+  }
+
+  for (const companyId of companyIds) {
+    try {
+      await notifyOwners(companyId, finding.id, input, action);
+    } catch (error) {
+      console.error(`[SECURITY] Failed to notify owners of ${companyId} about finding ${finding.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Companies a finding is shown to: its company, or every company the user belongs to
+ */
+async function findingCompanyIds(companyId: string | null, userId: string | null): Promise<string[]> {
+  if (companyId) return [companyId];
+  if (!userId) return [];
+
+  const memberships = await prisma.company_users.findMany({
+    where: { user_id: userId },
+    select: { company_id: true },
+  });
+  return [...new Set(memberships.map(membership => membership.company_id))];
+}
+
+async function companyOwnerIds(companyId: string): Promise<string[]> {
+  const [owners, company] = await Promise.all([
+    prisma.company_users.findMany({
+      where: { company_id: companyId, role: 'owner' },
+      select: { user_id: true },
+    }),
+    prisma.companies.findUnique({ where: { id: companyId }, select: { owner_uid: true } }),
+  ]);
+
+  return [...new Set([
+    ...owners.map(owner => owner.user_id),
+    ...(company?.owner_uid ? [company.owner_uid] : []),
+  ])];
+}
+
+const DETECTOR_TITLES: Record<SecurityDetector, string> = {
+  brute_force_account: 'Repeated failed sign-ins',
+  brute_force_ip: 'Sign-in attack from one address',
+  impossible_travel: 'Sign-ins from distant locations',
+  export_volume: 'Unusual data export volume',
+  cross_company_access: 'Access attempts to other companies',
+};
+
+const ACTION_DESCRIPTIONS: Record<AccountAction, string> = {
+  account_locked: 'The account was locked temporarily.',
+  reauth_required: 'The user has to sign in again.',
+};
+
+async function notifyOwners(companyId: string, findingId: string, input: FindingInput, action: AccountAction | null): Promise<void> {
+  const owners = await companyOwnerIds(companyId);
+  if (owners.length === 0) return;
+
+  await notifyUsers({
+    userIds: owners,
+    companyId,
+    type: 'security_finding',
+    title: DETECTOR_TITLES[input.detector],
+    message: action ? `${input.summary}. ${ACTION_DESCRIPTIONS[action]}` : input.summary,
+    data: {
+      findingId,
+      detector: input.detector,
+      severity: DETECTION_RULES[input.detector].severity,
+      userId: input.userId ?? null,
+      actionTaken: action,
+    },
+    actionUrl: `/companies/${companyId}/settings?tab=security`,
+  });
+}
+
+async function applyAccountAction(
+  userId: string,
+  rule: { action: AccountAction | null; lockMs?: number },
+  reason: string
+): Promise<AccountAction | null> {
+  try {
+    if (rule.action === 'account_locked') {
+      await lockAccount(userId, new Date(Date.now() + (rule.lockMs ?? 30 * MINUTE_MS)), reason);
+    } else if (rule.action === 'reauth_required') {
+      await requireReauthentication(userId);
+    }
+    return rule.action;
+  } catch (error) {
+    console.error(`[SECURITY] Failed to apply ${rule.action} to ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Lock an account until a time. API requests are refused through checkAccountRestriction,
+ * and the Supabase ban stops new sign-ins and token refreshes.
+ */
+export async function lockAccount(userId: string, until: Date, reason: string): Promise<void> {
+  await prisma.user_security_states.upsert({
+    where: { user_id: userId },
+    create: { user_id: userId, locked_until: until, lock_reason: reason },
+    update: { locked_until: until, lock_reason: reason, updated_at: new Date() },
+  });
+
+  const minutes = Math.max(1, Math.ceil((until.getTime() - Date.now()) / MINUTE_MS));
+  const { error } = await createSupabaseServiceClient().auth.admin.updateUserById(userId, { ban_duration: `${minutes}m` });
+  if (error) {
+    console.error(`[SECURITY] Failed to ban ${userId} in Supabase:`, error);
+  }
+
+  await auditLogger.logAuditEvent({
+    table_name: 'user_security_states',
+    operation: 'UPDATE',
+    new_data: { locked_until: until.toISOString(), lock_reason: reason },
+    user_id: userId,
+    metadata: { action: 'account_locked' },
+  });
+}
+
+/**
+ * Require the user to sign in again; sessions started before now are refused
+ */
+export async function requireReauthentication(userId: string): Promise<void> {
+  const now = new Date();
+  await prisma.user_security_states.upsert({
+    where: { user_id: userId },
+    create: { user_id: userId, reauth_required_at: now },
+    update: { reauth_required_at: now, updated_at: now },
+  });
+
+  await auditLogger.logAuditEvent({
+    table_name: 'user_security_states',
+    operation: 'UPDATE',
+    new_data: { reauth_required_at: now.toISOString() },
+    user_id: userId,
+    metadata: { action: 'reauth_required' },
+  });
+}
+
+/**
+ * Lift a lock and a pending re-authentication
+ */
+export async function clearAccountRestriction(userId: string, actorId?: string): Promise<void> {
+  await prisma.user_security_states.deleteMany({ where: { user_id: userId } });
+
+  const { error } = await createSupabaseServiceClient().auth.admin.updateUserById(userId, { ban_duration: 'none' });
+  if (error) {
+    console.error(`[SECURITY] Failed to lift Supabase ban of ${userId}:`, error);
+  }
+
+  await auditLogger.logAuditEvent({
+    table_name: 'user_security_states',
+    operation: 'DELETE',
+    old_data: { user_id: userId },
+    user_id: actorId,
+    metadata: { action: 'account_restriction_cleared', target_user_id: userId },
+  });
+}
+
+/**
+ * Whether a user may use the API right now. `lastSignInAt` is the session's user
+ * last_sign_in_at; a sign-in after a re-auth request satisfies it. Fails open when the
+ * state cannot be read, like the rate limiter.
+ */
+export async function checkAccountRestriction(
+  userId: string,
+  lastSignInAt?: string | Date | null
+): Promise<AccountRestriction | null> {
+  let state;
+  try {
+    state = await prisma.user_security_states.findUnique({ where: { user_id: userId } });
+  } catch (error) {
+    console.error('[SECURITY] Failed to read account restriction:', error);
+    return null;
+  }
+  if (!state) return null;
+
+  if (state.locked_until && state.locked_until > new Date()) {
+    return {
+      code: 'ACCOUNT_LOCKED',
+      message: 'This account is temporarily locked after suspicious activity',
+      lockedUntil: state.locked_until,
+    };
+  }
+
+  const signedInAt = lastSignInAt ? new Date(lastSignInAt) : null;
+  if (state.reauth_required_at && (!signedInAt || signedInAt < state.reauth_required_at)) {
+    return {
+      code: 'REAUTH_REQUIRED',
+      message: 'Please sign in again to continue',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Lock state for an email address before signing in; null when unknown or not locked
+ */
+export async function checkEmailLocked(email: string): Promise<AccountRestriction | null> {
+  const user = await prisma.users.findFirst({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true },
+  });
+  if (!user) return null;
+
+  const restriction = await checkAccountRestriction(user.id, new Date());
+  return restriction?.code === 'ACCOUNT_LOCKED' ? restriction : null;
+}
+
+/**
+ * Whether a user signed in from this IP address shortly before, so repeated session
+ * starts of one sign-in are counted once
+ */
+export async function recentlySignedIn(userId: string, ipAddress: string | undefined, withinMs: number = 10 * MINUTE_MS): Promise<boolean> {
+  const recent = await prisma.security_signals.findFirst({
+    where: {
+      event_type: 'LOGIN',
+      user_id: userId,
+      ip_address: usableIp(ipAddress) ?? null,
+      occurred_at: { gte: new Date(Date.now() - withinMs) },
+    },
+    select: { id: true },
+  });
+  return Boolean(recent);
+}
+
+/**
+ * Findings shown to a company: those about it, plus those about any of its members
+ */
+async function companyFindingWhere(companyId: string): Promise<{ where: Prisma.security_findingsWhereInput; memberIds: string[] }> {
+  const members = await prisma.company_users.findMany({
+    where: { company_id: companyId },
+    select: { user_id: true },
+  });
+  const memberIds = members.map(member => member.user_id);
+
+  return {
+    memberIds,
+    where: {
+      OR: [
+        { company_id: companyId },
+        { company_id: null, user_id: { in: memberIds } },
+      ],
+    },
+  };
+}
+
+export function parseFindingStatuses(value: string | null): FindingStatus[] {
+  if (!value) return ['open', 'acknowledged'];
+
+  const statuses = value.split(',').map(status => status.trim()).filter(Boolean);
+  const invalid = statuses.filter(status => !(FINDING_STATUSES as readonly string[]).includes(status));
+  if (invalid.length > 0) {
+    throw new SecurityAnalyticsError(`Unknown finding status: ${invalid.join(', ')}`, 'INVALID_STATUS');
+  }
+  return statuses as FindingStatus[];
+}
+
+/**
+ * Security dashboard of a company: findings, the last 24 hours of signals and members
+ * that are locked or must sign in again
+ */
+export async function getSecurityDashboard(companyId: string, statuses: FindingStatus[] = ['open', 'acknowledged']) {
+  const { where, memberIds } = await companyFindingWhere(companyId);
+  const since = new Date(Date.now() - DAY_MS);
+
+  const [findings, openBySeverity, signals, states] = await Promise.all([
+    prisma.security_findings.findMany({
+      where: { ...where, status: { in: statuses } },
+      orderBy: { last_seen_at: 'desc' },
+      take: 100,
+      include: { user: { select: { email: true } } },
+    }),
+    prisma.security_findings.groupBy({
+      by: ['severity'],
+      where: { ...where, status: 'open' },
+      _count: { _all: true },
+    }),
+    prisma.security_signals.groupBy({
+      by: ['event_type'],
+      where: {
+        occurred_at: { gte: since },
+        OR: [{ company_id: companyId }, { user_id: { in: memberIds } }],
+      },
+      _count: { _all: true },
+    }),
+    prisma.user_security_states.findMany({
+      where: { user_id: { in: memberIds } },
+      include: { users: { select: { email: true, last_sign_in_at: true } } },
+    }),
+  ]);
+
+  const now = new Date();
+  const restrictedMembers = states
+    .map(state => {
+      const locked = Boolean(state.locked_until && state.locked_until > now);
+      const lastSignIn = state.users.last_sign_in_at;
+      const reauthPending = Boolean(state.reauth_required_at && (!lastSignIn || lastSignIn < state.reauth_required_at));
+      return {
+        user_id: state.user_id,
+        email: state.users.email,
+        locked_until: locked ? state.locked_until : null,
+        lock_reason: locked ? state.lock_reason : null,
+        reauth_required: reauthPending,
+      };
+    })
+    .filter(member => member.locked_until || member.reauth_required);
+
+  return {
+    summary: {
+      open: Object.fromEntries(openBySeverity.map(row => [row.severity, row._count._all])),
+      signals24h: Object.fromEntries(signals.map(row => [row.event_type, row._count._all])),
+    },
+    findings: findings.map(({ user, ...finding }) => ({
+      ...finding,
+      user_email: user?.email ?? null,
+    })),
+    restrictedMembers,
+  };
+}
+
+/**
+ * Acknowledge or resolve a finding shown to a company, optionally lifting the account
+ * action it took when the account belongs to a member
+ *
+ * @throws SecurityAnalyticsError when the finding is not shown to the company
+ */
+export async function updateSecurityFinding(
+  companyId: string,
+  findingId: string,
+  update: { status: FindingStatus; clearRestriction?: boolean },
+  actorId: string
+) {
+  if (!(FINDING_STATUSES as readonly string[]).includes(update.status)) {
+    throw new SecurityAnalyticsError(`Unknown finding status: ${update.status}`, 'INVALID_STATUS');
+  }
+
+  const { where, memberIds } = await companyFindingWhere(companyId);
+  const finding = await prisma.security_findings.findFirst({ where: { AND: [where, { id: findingId }] } });
+  if (!finding) {
+    throw new SecurityAnalyticsError('Security finding not found', 'FINDING_NOT_FOUND', 404);
+  }
+
+  if (update.clearRestriction) {
+    if (!finding.user_id || !memberIds.includes(finding.user_id)) {
+      throw new SecurityAnalyticsError('Only accounts of company members can be unlocked', 'NOT_A_MEMBER', 403);
+    }
+    await clearAccountRestriction(finding.user_id, actorId);
+  }
+
+  const now = new Date();
+  return prisma.security_findings.update({
+    where: { id: finding.id },
+    data: {
+      status: update.status,
+      resolved_at: update.status === 'resolved' ? now : null,
+      resolved_by: update.status === 'resolved' ? actorId : null,
+      updated_at: now,
+    },
+  });
+}
+
+/**
+ * Findings across the platform, newest first, for platform admins
+ */
+export async function listSecurityFindings(statuses: FindingStatus[] = ['open', 'acknowledged'], limit: number = 100) {
+  return prisma.security_findings.findMany({
+    where: { status: { in: statuses } },
+    orderBy: { last_seen_at: 'desc' },
+    take: limit,
+  });
+}
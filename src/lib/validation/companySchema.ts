@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { Permission } from "@/lib/permissions";
 
 export const companySchema = z.object({
   id: z.string().uuid(),
@@ -21,5 +22,6 @@ export type Company = z.infer<typeof companySchema>;
 // Type for company data as seen by a specific user (includes their role in the company)
 export type UserCompany = Company & {
   userRole: string;
+  permissions?: Permission[];
 };
 
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// Same shape as applications.required_secrets entries, e.g. google_ads_developer_token
+export const SECRET_KEY_PATTERN = /^[a-z][a-z0-9_]{1,99}$/;
+
+export const createSecretSchema = z.object({
+  key         : z.string().regex(SECRET_KEY_PATTERN, "Key must be lowercase letters, digits and underscores"),
+  value       : z.string().min(1, "Value is required").max(10000),
+  description : z.string().max(500).optional(),
+  app_permissions : z.array(z.string().uuid()).default([])
+})
+
+export const updateSecretSchema = z.object({
+  value       : z.string().min(1).max(10000).optional(),
+  description : z.string().max(500).nullable().optional(),
+  app_permissions : z.array(z.string().uuid()).optional()
+}).refine(
+  data => data.value !== undefined || data.description !== undefined || data.app_permissions !== undefined,
+  { message: "Nothing to update" }
+)
+
+export type CreateSecretInput = z.infer<typeof createSecretSchema>;
+export type UpdateSecretInput = z.infer<typeof updateSecretSchema>;
+
+/**
+ * Secret metadata returned by the API. Values are write-only and never included.
+ */
+export type CompanySecret = {
+  id: string;
+  key: string;
+  description: string | null;
+  app_permissions: string[];
+  key_version: number | null;
+  last_used_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  created_by: string | null;
+  managed: boolean;
+};
+
+export type SecretRequirement = {
+  key: string;
+  status: "ok" | "missing" | "not_granted";
+  secret_id?: string;
+};
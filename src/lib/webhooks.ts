@@ -0,0 +1,686 @@
+/**
+ * Outbound company webhooks
+ * Companies register HTTPS endpoints and subscribe them to event types. Every event becomes
+ * one webhook_deliveries row per subscribed endpoint and is posted right away; failures are
+ * retried by the delivery job with exponential backoff. An endpoint whose deliveries keep
+ * failing after all retries is disabled until someone re-enables it.
+ *
+ * Payloads are signed with the endpoint secret: the X-MetricsHub-Signature header is
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">`, so receivers can reject
+ * forged and replayed requests.
+ *
+ * Endpoint hosts must resolve to public addresses, both when the URL is saved and when each
+ * delivery connects (see src/lib/outbound-http.ts). Response bodies are kept for successful
+ * deliveries only.
+ *
+ * Set NOTIFICATION_WEBHOOK_SINK_URL to send every delivery to a local HTTP sink instead
+ * (e.g. `pnpm notification-sink`); the real URL is passed in the X-Original-Webhook-Url header.
+ */
+
+import crypto from 'crypto';
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { decryptCompanySecret, getEncryptionService } from '@/lib/encryption';
+import { isPrivateHost } from '@/lib/notification-channels/validation';
+import { postToPublicUrl, resolvesToPublicAddress } from '@/lib/outbound-http';
+
+export const WEBHOOK_EVENTS = [
+  'integration.run.completed',
+  'integration.run.failed',
+  'alert.triggered',
+  'member.joined',
+  'app.installed',
+  'app.uninstalled',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-MetricsHub-Signature';
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+export const MAX_WEBHOOK_DELIVERIES_PAGE_SIZE = 100;
+
+const MAX_ATTEMPTS = 6;
+// 1 minute, 4 minutes, 16 minutes, ~1 hour, ~4 hours
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// Deliveries in a row that failed after all retries
+const AUTO_DISABLE_AFTER_FAILURES = 5;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const RESPONSE_BODY_LIMIT = 1000;
+const DUE_DELIVERIES_BATCH_SIZE = 100;
+// Runs finished by the executor are picked up by the delivery job within this window
+const RUN_EVENT_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+
+const RUN_EVENT_STATUSES: Record<string, WebhookEvent> = {
+  success: 'integration.run.completed',
+  failed: 'integration.run.failed',
+  timeout: 'integration.run.failed',
+};
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public code: string = 'WEBHOOK_ERROR',
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  events: string[];
+}
+
+export interface WebhookEndpointUpdate {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+  rotateSecret?: boolean;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEvent;
+  created_at: string;
+  company_id: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDeliverySummary {
+  attempted: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+  runEventsEmitted: number;
+}
+
+// The secret never leaves this module after creation or rotation
+const endpointSelect = {
+  id: true,
+  company_id: true,
+  url: true,
+  description: true,
+  events: true,
+  is_active: true,
+  consecutive_failures: true,
+  disabled_at: true,
+  disabled_reason: true,
+  last_delivery_at: true,
+  created_by: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.webhook_endpointsSelect;
+
+const deliverySelect = {
+  id: true,
+  endpoint_id: true,
+  event_id: true,
+  event_type: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  next_attempt_at: true,
+  last_attempt_at: true,
+  response_status: true,
+  response_body: true,
+  error: true,
+  duration_ms: true,
+  replay_of: true,
+  created_by: true,
+  created_at: true,
+  delivered_at: true,
+} satisfies Prisma.webhook_deliveriesSelect;
+
+type DeliveryRow = Prisma.webhook_deliveriesGetPayload<{ select: typeof deliverySelect }>;
+
+interface SigningEndpoint {
+  id: string;
+  company_id: string;
+  url: string;
+  secret: string;
+}
+
+/**
+ * Check an endpoint URL
+ *
+ * @returns An error message, or null when the URL is valid
+ */
+export function validateWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return 'Enter a valid URL';
+  }
+
+  if (url.protocol !== 'https:') return 'Webhook URLs must use https';
+  if (url.username || url.password) return 'Webhook URLs must not contain credentials';
+  if (isPrivateHost(url.hostname)) return 'Webhook URLs must point to a public host';
+  return null;
+}
+
+function parseEvents(events: unknown): WebhookEvent[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new WebhookError('Subscribe to at least one event', 'VALIDATION_ERROR');
+  }
+  const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+  if (unknown.length > 0) {
+    throw new WebhookError(`Unknown events: ${unknown.join(', ')}`, 'VALIDATION_ERROR');
+  }
+  return Array.from(new Set(events as WebhookEvent[]));
+}
+
+async function parseUrl(url: unknown): Promise<string> {
+  if (typeof url !== 'string') {
+    throw new WebhookError('url is required', 'VALIDATION_ERROR');
+  }
+  const error = validateWebhookUrl(url);
+  if (error) throw new WebhookError(error, 'INVALID_URL');
+
+  // A public-looking name can still resolve into our own network
+  if (!(await resolvesToPublicAddress(new URL(url.trim()).hostname))) {
+    throw new WebhookError('Webhook URLs must resolve to a public address', 'INVALID_URL');
+  }
+  return url.trim();
+}
+
+function parseDescription(description: unknown): string | null {
+  if (description === undefined || description === null) return null;
+  if (typeof description !== 'string' || description.length > 200) {
+    throw new WebhookError('description must be a string of at most 200 characters', 'VALIDATION_ERROR');
+  }
+  return description.trim() || null;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header value for a payload body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 4 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  // Jitter keeps retries of many deliveries from arriving together
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+async function findEndpoint(companyId: string, endpointId: string) {
+  const endpoint = await prisma.webhook_endpoints.findFirst({
+    where: { id: endpointId, company_id: companyId },
+    select: endpointSelect,
+  });
+  if (!endpoint) {
+    throw new WebhookError('Webhook endpoint not found', 'WEBHOOK_NOT_FOUND', 404);
+  }
+  return endpoint;
+}
+
+/**
+ * Endpoints of a company, oldest first
+ */
+export async function listWebhookEndpoints(companyId: string) {
+  return prisma.webhook_endpoints.findMany({
+    where: { company_id: companyId },
+    select: endpointSelect,
+    orderBy: { created_at: 'asc' },
+  });
+}
+
+/**
+ * @throws WebhookError when the endpoint does not belong to the company
+ */
+export async function getWebhookEndpoint(companyId: string, endpointId: string) {
+  return findEndpoint(companyId, endpointId);
+}
+
+/**
+ * Register an endpoint. The signing secret is returned only here and on rotation.
+ *
+ * @throws WebhookError on invalid input or when the company has too many endpoints
+ */
+export async function createWebhookEndpoint(companyId: string, userId: string, input: WebhookEndpointInput) {
+  const url = await parseUrl(input.url);
+  const events = parseEvents(input.events);
+  const description = parseDescription(input.description);
+
+  const count = await prisma.webhook_endpoints.count({ where: { company_id: companyId } });
+  if (count >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookError(`A company can register at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints`, 'WEBHOOK_LIMIT_REACHED', 409);
+  }
+
+  const secret = generateSecret();
+  const endpoint = await prisma.webhook_endpoints.create({
+    data: {
+      company_id: companyId,
+      url,
+      description,
+      events,
+      secret: await getEncryptionService().encryptSecret(companyId, secret),
+      created_by: userId,
+    },
+    select: endpointSelect,
+  });
+
+  return { endpoint, secret };
+}
+
+/**
+ * Change an endpoint. Re-enabling clears the failure count of an automatically disabled
+ * endpoint; rotating returns the new secret.
+ *
+ * @throws WebhookError on invalid input or when the endpoint does not belong to the company
+ */
+export async function updateWebhookEndpoint(companyId: string, endpointId: string, update: WebhookEndpointUpdate) {
+  const existing = await findEndpoint(companyId, endpointId);
+
+  const data: Prisma.webhook_endpointsUpdateInput = { updated_at: new Date() };
+  if (update.url !== undefined) data.url = await parseUrl(update.url);
+  if (update.events !== undefined) data.events = parseEvents(update.events);
+  if (update.description !== undefined) data.description = parseDescription(update.description);
+
+  if (update.isActive !== undefined) {
+    if (typeof update.isActive !== 'boolean') {
+      throw new WebhookError('isActive must be a boolean', 'VALIDATION_ERROR');
+    }
+    data.is_active = update.isActive;
+    if (update.isActive && !existing.is_active) {
+      data.consecutive_failures = 0;
+      data.disabled_at = null;
+      data.disabled_reason = null;
+    }
+  }
+
+  let secret: string | undefined;
+  if (update.rotateSecret) {
+    secret = generateSecret();
+    data.secret = await getEncryptionService().encryptSecret(companyId, secret);
+  }
+
+  const endpoint = await prisma.webhook_endpoints.update({
+    where: { id: existing.id },
+    data,
+    select: endpointSelect,
+  });
+
+  return { endpoint, ...(secret && { secret }) };
+}
+
+/**
+ * Remove an endpoint together with its delivery history
+ *
+ * @throws WebhookError when the endpoint does not belong to the company
+ */
+export async function deleteWebhookEndpoint(companyId: string, endpointId: string) {
+  const endpoint = await findEndpoint(companyId, endpointId);
+  await prisma.webhook_endpoints.delete({ where: { id: endpoint.id } });
+  return endpoint;
+}
+
+async function postDelivery(endpoint: SigningEndpoint, delivery: Pick<DeliveryRow, 'id' | 'event_type' | 'payload'>) {
+  const sink = process.env.NOTIFICATION_WEBHOOK_SINK_URL;
+  const target = sink ? `${sink.replace(/\/$/, '')}/webhook` : endpoint.url;
+  const secret = await decryptCompanySecret(endpoint.company_id, endpoint.secret);
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'MetricsHub-Webhooks/1.0',
+    'X-MetricsHub-Event': delivery.event_type,
+    'X-MetricsHub-Delivery': delivery.id,
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+  };
+
+  let response: { status: number; ok: boolean; body: string };
+  if (sink) {
+    // The local sink is the only private address deliveries may reach
+    const sinkResponse = await fetch(target, {
+      method: 'POST',
+      headers: { ...headers, 'X-Original-Webhook-Url': endpoint.url },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const sinkBody = (await sinkResponse.text().catch(() => '')).substring(0, RESPONSE_BODY_LIMIT);
+    response = { status: sinkResponse.status, ok: sinkResponse.ok, body: sinkBody };
+  } else {
+    response = await postToPublicUrl(target, body, {
+      headers,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      responseBodyLimit: RESPONSE_BODY_LIMIT,
+    });
+  }
+
+  // Only successful responses keep their body; error pages are not shown in the delivery log
+  return { status: response.status, ok: response.ok, body: response.ok ? response.body : '' };
+}
+
+/**
+ * Count a delivery that failed after all retries and disable the endpoint once too many
+ * failed in a row
+ */
+async function recordEndpointFailure(endpointId: string, error: string): Promise<void> {
+  const endpoint = await prisma.webhook_endpoints.update({
+    where: { id: endpointId },
+    data: { consecutive_failures: { increment: 1 } },
+    select: { consecutive_failures: true, is_active: true },
+  });
+
+  if (endpoint.is_active && endpoint.consecutive_failures >= AUTO_DISABLE_AFTER_FAILURES) {
+    await prisma.webhook_endpoints.update({
+      where: { id: endpointId },
+      data: {
+        is_active: false,
+        disabled_at: new Date(),
+        disabled_reason: `${endpoint.consecutive_failures} deliveries in a row failed. Last error: ${error}`.substring(0, 500),
+        updated_at: new Date(),
+      },
+    });
+    console.warn(`Webhook endpoint ${endpointId} disabled after ${endpoint.consecutive_failures} failed deliveries`);
+  }
+}
+
+/**
+ * Make one attempt at a delivery and schedule the next one when it fails
+ */
+async function attemptDelivery(endpoint: SigningEndpoint, delivery: DeliveryRow): Promise<WebhookDeliveryStatus> {
+  const attempts = delivery.attempts + 1;
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postDelivery(endpoint, delivery);
+    responseStatus = response.status;
+    responseBody = response.body || null;
+    if (!response.ok) error = `Endpoint returned ${response.status}`;
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : 'Request failed';
+  }
+
+  const now = new Date();
+  const status: WebhookDeliveryStatus = !error ? 'succeeded' : attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+
+  await prisma.webhook_deliveries.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      last_attempt_at: now,
+      next_attempt_at: status === 'pending' ? new Date(now.getTime() + retryDelay(attempts)) : null,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error,
+      duration_ms: now.getTime() - startedAt,
+      ...(status === 'succeeded' && { delivered_at: now }),
+    },
+  });
+
+  if (status === 'succeeded') {
+    await prisma.webhook_endpoints.update({
+      where: { id: endpoint.id },
+      data: { consecutive_failures: 0, last_delivery_at: now },
+    });
+  } else if (status === 'failed') {
+    await recordEndpointFailure(endpoint.id, error ?? 'Delivery failed');
+  }
+
+  return status;
+}
+
+/**
+ * Send an event to every active endpoint of the company subscribed to it. Each endpoint gets
+ * one attempt right away; failures are retried by processWebhookDeliveries. An event id that
+ * was already delivered to an endpoint is skipped, so emitting the same event twice is safe.
+ */
+export async function emitWebhookEvent(
+  companyId: string,
+  type: WebhookEvent,
+  data: Record<string, unknown>,
+  options: { eventId?: string; occurredAt?: Date } = {}
+): Promise<number> {
+  const occurredAt = options.occurredAt ?? new Date();
+  const endpoints = await prisma.webhook_endpoints.findMany({
+    where: {
+      company_id: companyId,
+      is_active: true,
+      events: { has: type },
+      // Endpoints registered after the event happened do not receive it
+      created_at: { lte: occurredAt },
+    },
+    select: { id: true, company_id: true, url: true, secret: true },
+  });
+  if (endpoints.length === 0) return 0;
+
+  const payload: WebhookPayload = {
+    id: options.eventId ?? `evt_${crypto.randomUUID()}`,
+    type,
+    created_at: occurredAt.toISOString(),
+    company_id: companyId,
+    data,
+  };
+
+  const deliveries = await prisma.webhook_deliveries.createManyAndReturn({
+    data: endpoints.map(endpoint => ({
+      endpoint_id: endpoint.id,
+      company_id: companyId,
+      event_id: payload.id,
+      event_type: type,
+      payload: payload as unknown as Prisma.InputJsonValue,
+      next_attempt_at: new Date(),
+    })),
+    skipDuplicates: true,
+    select: deliverySelect,
+  });
+
+  const endpointsById = new Map(endpoints.map(endpoint => [endpoint.id, endpoint]));
+  await Promise.all(deliveries.map(delivery => attemptDelivery(endpointsById.get(delivery.endpoint_id)!, delivery)));
+
+  return deliveries.length;
+}
+
+/**
+ * Emit integration.run.completed or integration.run.failed for a finished run. Runs that
+ * have not finished or were cancelled are ignored.
+ */
+export async function emitExecutionRunEvent(runId: string): Promise<number> {
+  const run = await prisma.execution_runs.findUnique({
+    where: { id: runId },
+    select: {
+      id: true,
+      company_id: true,
+      app_id: true,
+      status: true,
+      triggered_by: true,
+      started_at: true,
+      completed_at: true,
+      duration_ms: true,
+      error_message: true,
+      applications: { select: { name: true } },
+    },
+  });
+  const type = run ? RUN_EVENT_STATUSES[run.status] : undefined;
+  if (!run || !type) return 0;
+
+  return emitWebhookEvent(
+    run.company_id,
+    type,
+    {
+      run_id: run.id,
+      application_id: run.app_id,
+      application_name: run.applications.name,
+      status: run.status,
+      triggered_by: run.triggered_by,
+      started_at: run.started_at?.toISOString() ?? null,
+      completed_at: run.completed_at?.toISOString() ?? null,
+      duration_ms: run.duration_ms,
+      ...(type === 'integration.run.failed' && { error_message: run.error_message }),
+    },
+    { eventId: `evt_run_${run.id}`, ...(run.completed_at && { occurredAt: run.completed_at }) }
+  );
+}
+
+/**
+ * Runs are finished by the executor, so run events are emitted by looking for runs that
+ * finished recently in companies with a subscribed endpoint
+ */
+async function emitRecentRunEvents(): Promise<number> {
+  const companies = await prisma.webhook_endpoints.findMany({
+    where: {
+      is_active: true,
+      events: { hasSome: ['integration.run.completed', 'integration.run.failed'] },
+    },
+    select: { company_id: true },
+    distinct: ['company_id'],
+  });
+  if (companies.length === 0) return 0;
+
+  const runs = await prisma.execution_runs.findMany({
+    where: {
+      company_id: { in: companies.map(company => company.company_id) },
+      status: { in: Object.keys(RUN_EVENT_STATUSES) },
+      completed_at: { gte: new Date(Date.now() - RUN_EVENT_LOOKBACK_MS) },
+    },
+    select: { id: true },
+    orderBy: { completed_at: 'asc' },
+  });
+
+  let emitted = 0;
+  for (const run of runs) {
+    emitted += await emitExecutionRunEvent(run.id);
+  }
+  return emitted;
+}
+
+/**
+ * Emit run events and retry every pending delivery that is due. Deliveries of endpoints that
+ * were disabled in the meantime are marked failed.
+ */
+export async function processWebhookDeliveries(): Promise<WebhookDeliverySummary> {
+  const summary: WebhookDeliverySummary = { attempted: 0, succeeded: 0, retrying: 0, failed: 0, runEventsEmitted: 0 };
+
+  summary.runEventsEmitted = await emitRecentRunEvents();
+
+  const due = await prisma.webhook_deliveries.findMany({
+    where: { status: 'pending', next_attempt_at: { lte: new Date() } },
+    select: {
+      ...deliverySelect,
+      webhook_endpoints: { select: { id: true, company_id: true, url: true, secret: true, is_active: true } },
+    },
+    orderBy: { next_attempt_at: 'asc' },
+    take: DUE_DELIVERIES_BATCH_SIZE,
+  });
+
+  for (const { webhook_endpoints: endpoint, ...delivery } of due) {
+    if (!endpoint.is_active) {
+      await prisma.webhook_deliveries.update({
+        where: { id: delivery.id },
+        data: { status: 'failed', next_attempt_at: null, error: 'Endpoint is disabled' },
+      });
+      summary.failed++;
+      continue;
+    }
+
+    summary.attempted++;
+    const status = await attemptDelivery(endpoint, delivery);
+    if (status === 'succeeded') summary.succeeded++;
+    else if (status === 'pending') summary.retrying++;
+    else summary.failed++;
+  }
+
+  return summary;
+}
+
+/**
+ * Delivery history of an endpoint, newest first
+ *
+ * @throws WebhookError when the endpoint does not belong to the company
+ */
+export async function listWebhookDeliveries(
+  companyId: string,
+  endpointId: string,
+  options: { status?: WebhookDeliveryStatus; eventType?: WebhookEvent; limit: number; offset: number }
+) {
+  await findEndpoint(companyId, endpointId);
+
+  const where: Prisma.webhook_deliveriesWhereInput = {
+    endpoint_id: endpointId,
+    ...(options.status && { status: options.status }),
+    ...(options.eventType && { event_type: options.eventType }),
+  };
+
+  const [deliveries, total] = await Promise.all([
+    prisma.webhook_deliveries.findMany({
+      where,
+      select: deliverySelect,
+      orderBy: { created_at: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+    }),
+    prisma.webhook_deliveries.count({ where }),
+  ]);
+
+  return {
+    deliveries,
+    pagination: {
+      limit: options.limit,
+      offset: options.offset,
+      total,
+      hasMore: options.offset + deliveries.length < total,
+    },
+  };
+}
+
+/**
+ * Send the payload of an earlier delivery again as a new delivery. The event id stays the
+ * same so receivers can recognise the duplicate.
+ *
+ * @throws WebhookError when the delivery is not found or the endpoint is disabled
+ */
+export async function replayWebhookDelivery(companyId: string, endpointId: string, deliveryId: string, userId: string) {
+  const original = await prisma.webhook_deliveries.findFirst({
+    where: { id: deliveryId, endpoint_id: endpointId, company_id: companyId },
+    select: {
+      ...deliverySelect,
+      webhook_endpoints: { select: { id: true, company_id: true, url: true, secret: true, is_active: true } },
+    },
+  });
+  if (!original) {
+    throw new WebhookError('Webhook delivery not found', 'DELIVERY_NOT_FOUND', 404);
+  }
+  if (!original.webhook_endpoints.is_active) {
+    throw new WebhookError('Enable the endpoint before replaying deliveries', 'WEBHOOK_DISABLED', 409);
+  }
+
+  const replay = await prisma.webhook_deliveries.create({
+    data: {
+      endpoint_id: endpointId,
+      company_id: companyId,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      payload: original.payload as Prisma.InputJsonValue,
+      next_attempt_at: new Date(),
+      replay_of: original.replay_of ?? original.id,
+      created_by: userId,
+    },
+    select: deliverySelect,
+  });
+
+  await attemptDelivery(original.webhook_endpoints, replay);
+
+  return prisma.webhook_deliveries.findUniqueOrThrow({ where: { id: replay.id }, select: deliverySelect });
+}
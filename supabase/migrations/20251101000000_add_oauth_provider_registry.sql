@@ -0,0 +1,153 @@
+-- Migration: OAuth provider registry
+-- Created: 2025-11-01
+-- Description: Describes every OAuth provider in connections.auth_config so the generic
+-- /api/connections/[provider]/* routes can run the flow without provider-specific code.
+-- Client credentials stay in environment variables (<KEY>_CLIENT_ID / <KEY>_CLIENT_SECRET
+-- unless auth_config names different variables).
+
+BEGIN;
+
+-- Google: previously hardcoded in the route handlers
+UPDATE "public"."connections"
+SET auth_config = auth_config || '{
+        "userinfo_uri": "https://www.googleapis.com/oauth2/v2/userinfo",
+        "pkce": true,
+        "authorize_params": {
+            "access_type": "offline",
+            "prompt": "consent"
+        },
+        "redirect_uri_env": "GOOGLE_REDIRECT_URI"
+    }'::jsonb,
+    updated_at = CURRENT_TIMESTAMP
+WHERE connection_key = 'google';
+
+INSERT INTO "public"."connections" (
+    "connection_key",
+    "name",
+    "description",
+    "icon_url",
+    "provider",
+    "auth_type",
+    "auth_config",
+    "supported_features",
+    "documentation_url",
+    "is_active"
+) VALUES
+(
+    'microsoft',
+    'Microsoft 365',
+    'OAuth connection to Microsoft Graph providing access to profile, mail, files and Excel workbooks',
+    'https://cdn.jsdelivr.net/npm/simple-icons@v9/icons/microsoft.svg',
+    'microsoft',
+    'oauth2',
+    '{
+        "auth_uri": "https://login.microsoftonline.com/common/oauth2/v2.0/authorize",
+        "token_uri": "https://login.microsoftonline.com/common/oauth2/v2.0/token",
+        "userinfo_uri": "https://graph.microsoft.com/v1.0/me",
+        "pkce": true,
+        "scopes": [
+            "openid",
+            "profile",
+            "email",
+            "offline_access",
+            "User.Read",
+            "Mail.Read",
+            "Files.Read.All"
+        ],
+        "authorize_params": {
+            "prompt": "select_account"
+        }
+    }',
+    '["mail", "files", "excel", "oauth", "profile"]',
+    'https://learn.microsoft.com/en-us/entra/identity-platform/v2-oauth2-auth-code-flow',
+    true
+),
+(
+    -- Microsoft Advertising tokens are issued for a different resource than Graph,
+    -- so it needs its own consent and token pair
+    'microsoft_ads',
+    'Microsoft Advertising',
+    'OAuth connection to Microsoft Advertising (Bing Ads) for campaigns and reporting',
+    'https://cdn.jsdelivr.net/npm/simple-icons@v9/icons/microsoftbing.svg',
+    'microsoft',
+    'oauth2',
+    '{
+        "auth_uri": "https://login.microsoftonline.com/common/oauth2/v2.0/authorize",
+        "token_uri": "https://login.microsoftonline.com/common/oauth2/v2.0/token",
+        "pkce": true,
+        "scopes": [
+            "https://ads.microsoft.com/msads.manage",
+            "offline_access"
+        ],
+        "authorize_params": {
+            "prompt": "select_account"
+        },
+        "client_id_env": "MICROSOFT_CLIENT_ID",
+        "client_secret_env": "MICROSOFT_CLIENT_SECRET"
+    }',
+    '["ads", "reporting", "oauth"]',
+    'https://learn.microsoft.com/en-us/advertising/guides/authentication-oauth',
+    true
+),
+(
+    'meta',
+    'Meta Ads',
+    'OAuth connection to Meta (Facebook and Instagram) ad accounts, campaigns and insights',
+    'https://cdn.jsdelivr.net/npm/simple-icons@v9/icons/meta.svg',
+    'meta',
+    'oauth2',
+    '{
+        "auth_uri": "https://www.facebook.com/v19.0/dialog/oauth",
+        "token_uri": "https://graph.facebook.com/v19.0/oauth/access_token",
+        "userinfo_uri": "https://graph.facebook.com/v19.0/me?fields=id,name,email,picture",
+        "pkce": false,
+        "scope_separator": ",",
+        "scopes": [
+            "email",
+            "ads_read",
+            "ads_management",
+            "business_management"
+        ]
+    }',
+    '["ads", "insights", "oauth", "profile"]',
+    'https://developers.facebook.com/docs/marketing-api/overview/authorization',
+    true
+),
+(
+    'linkedin',
+    'LinkedIn',
+    'OAuth connection to LinkedIn providing access to profile and Campaign Manager ad accounts',
+    'https://cdn.jsdelivr.net/npm/simple-icons@v9/icons/linkedin.svg',
+    'linkedin',
+    'oauth2',
+    '{
+        "auth_uri": "https://www.linkedin.com/oauth/v2/authorization",
+        "token_uri": "https://www.linkedin.com/oauth/v2/accessToken",
+        "userinfo_uri": "https://api.linkedin.com/v2/userinfo",
+        "pkce": false,
+        "scopes": [
+            "openid",
+            "profile",
+            "email",
+            "r_ads",
+            "r_ads_reporting"
+        ]
+    }',
+    '["ads", "reporting", "oauth", "profile"]',
+    'https://learn.microsoft.com/en-us/linkedin/shared/authentication/authorization-code-flow',
+    true
+)
+ON CONFLICT (connection_key) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    icon_url = EXCLUDED.icon_url,
+    provider = EXCLUDED.provider,
+    auth_type = EXCLUDED.auth_type,
+    auth_config = EXCLUDED.auth_config,
+    supported_features = EXCLUDED.supported_features,
+    documentation_url = EXCLUDED.documentation_url,
+    updated_at = CURRENT_TIMESTAMP;
+
+COMMENT ON COLUMN "public"."connections"."auth_config" IS 'OAuth provider definition: auth_uri, token_uri, userinfo_uri, scopes, scope_separator, pkce, authorize_params and optional *_env overrides for client credentials';
+
+COMMIT;
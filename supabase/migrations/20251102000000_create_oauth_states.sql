@@ -0,0 +1,41 @@
+-- Migration: Server-side OAuth state
+-- Created: 2025-11-02
+-- Description: Stores one row per OAuth authorization attempt. The state parameter sent to the
+-- provider is an HMAC-signed nonce; only its SHA-256 hash is stored here. A row is consumed
+-- exactly once by the callback and is bound to the initiating user and browser session.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.oauth_states (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    nonce_hash TEXT NOT NULL UNIQUE,
+    provider TEXT NOT NULL,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    session_hash TEXT NOT NULL,
+    code_verifier TEXT,
+    locale TEXT NOT NULL DEFAULT 'en',
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON public.oauth_states(expires_at);
+CREATE INDEX IF NOT EXISTS idx_oauth_states_company ON public.oauth_states(company_id);
+
+-- Only the server may read or write OAuth state; it holds PKCE verifiers
+ALTER TABLE public.oauth_states ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "oauth_states_service_access" ON public.oauth_states;
+CREATE POLICY "oauth_states_service_access" ON public.oauth_states
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.oauth_states TO service_role;
+
+COMMENT ON TABLE public.oauth_states IS 'Single-use OAuth authorization state (hashed nonce, PKCE verifier, session binding)';
+COMMENT ON COLUMN public.oauth_states.nonce_hash IS 'SHA-256 of the nonce carried in the signed state parameter';
+COMMENT ON COLUMN public.oauth_states.session_hash IS 'SHA-256 of the httpOnly binding cookie set on the initiating browser';
+COMMENT ON COLUMN public.oauth_states.consumed_at IS 'Set by the callback; a consumed state can never be used again';
+
+COMMIT;
@@ -0,0 +1,59 @@
+-- Migration: Master key rotation jobs
+-- Created: 2025-11-03
+-- Description: Tracks re-encryption of secrets and company_applications.plugin_data onto the
+-- newest master key version. Jobs advance in batches by id cursor so they can be resumed
+-- after an interruption, and expose counters for progress reporting.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.encryption_rotation_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    target_key_version INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    phase TEXT NOT NULL DEFAULT 'secrets'
+        CHECK (phase IN ('secrets', 'plugin_data', 'done')),
+    cursor_id UUID,
+    batch_size INTEGER NOT NULL DEFAULT 100,
+    total_secrets INTEGER NOT NULL DEFAULT 0,
+    total_plugin_data INTEGER NOT NULL DEFAULT 0,
+    processed_count INTEGER NOT NULL DEFAULT 0,
+    reencrypted_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]',
+    locked_until TIMESTAMPTZ,
+    started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_encryption_rotation_jobs_status ON public.encryption_rotation_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_encryption_rotation_jobs_created_at ON public.encryption_rotation_jobs(created_at DESC);
+
+-- Only one job may be active at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_encryption_rotation_jobs_single_active
+    ON public.encryption_rotation_jobs((true))
+    WHERE status IN ('pending', 'running');
+
+DROP TRIGGER IF EXISTS update_encryption_rotation_jobs_updated_at ON public.encryption_rotation_jobs;
+CREATE TRIGGER update_encryption_rotation_jobs_updated_at
+    BEFORE UPDATE ON public.encryption_rotation_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.encryption_rotation_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "encryption_rotation_jobs_service_access" ON public.encryption_rotation_jobs;
+CREATE POLICY "encryption_rotation_jobs_service_access" ON public.encryption_rotation_jobs
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.encryption_rotation_jobs TO service_role;
+
+COMMENT ON TABLE public.encryption_rotation_jobs IS 'Resumable master key rotation jobs re-encrypting secrets and plugin data';
+COMMENT ON COLUMN public.encryption_rotation_jobs.cursor_id IS 'Last row id processed in the current phase; batches continue after it';
+COMMENT ON COLUMN public.encryption_rotation_jobs.locked_until IS 'Lease held by the runner processing batches; prevents concurrent runners';
+
+COMMIT;
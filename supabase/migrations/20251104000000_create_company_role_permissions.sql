@@ -0,0 +1,51 @@
+-- Migration: Company role permissions
+-- Created: 2025-11-04
+-- Description: Per-company role to permission mappings. Built-in roles (superadmin, admin,
+-- member) fall back to the defaults in src/lib/permissions.ts until an owner customises them;
+-- any other role name is a custom role defined by the company. The owner role always holds
+-- every permission and is never stored here.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.company_role_permissions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role ~ '^[a-z][a-z0-9_]{1,31}$' AND role <> 'owner'),
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (company_id, role)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_role_permissions_company ON public.company_role_permissions(company_id);
+
+DROP TRIGGER IF EXISTS update_company_role_permissions_updated_at ON public.company_role_permissions;
+CREATE TRIGGER update_company_role_permissions_updated_at
+    BEFORE UPDATE ON public.company_role_permissions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.company_role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "company_role_permissions_service_access" ON public.company_role_permissions;
+CREATE POLICY "company_role_permissions_service_access" ON public.company_role_permissions
+    FOR ALL TO service_role
+    USING (true);
+
+-- Members may read their company's mappings; changes go through the API
+DROP POLICY IF EXISTS "company_role_permissions_member_read" ON public.company_role_permissions;
+CREATE POLICY "company_role_permissions_member_read" ON public.company_role_permissions
+    FOR SELECT TO authenticated
+    USING (
+        company_id IN (
+            SELECT company_id FROM public.company_users WHERE user_id = auth.uid()
+        )
+    );
+
+GRANT ALL ON TABLE public.company_role_permissions TO service_role;
+GRANT SELECT ON TABLE public.company_role_permissions TO authenticated;
+
+COMMENT ON TABLE public.company_role_permissions IS 'Per-company permissions granted to built-in and custom roles';
+COMMENT ON COLUMN public.company_role_permissions.permissions IS 'Permission keys from the catalog in src/lib/permissions.ts, e.g. logs.read';
+
+COMMIT;
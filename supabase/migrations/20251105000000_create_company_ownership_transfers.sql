@@ -0,0 +1,59 @@
+-- Migration: Company ownership transfers
+-- Created: 2025-11-05
+-- Description: Owner-initiated hand-over of a company to an existing member. The nominee
+-- receives an ownership_transfer notification and must accept before companies.owner_uid
+-- and the company_users roles are swapped. At most one transfer per company can be pending.
+
+-- New values of an enum cannot be used in the transaction that adds them
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'ownership_transfer';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.company_ownership_transfers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    from_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    to_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'expired')),
+    notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    responded_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    CHECK (from_user_id <> to_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_ownership_transfers_company ON public.company_ownership_transfers(company_id);
+CREATE INDEX IF NOT EXISTS idx_company_ownership_transfers_to_user ON public.company_ownership_transfers(to_user_id);
+CREATE INDEX IF NOT EXISTS idx_company_ownership_transfers_notification ON public.company_ownership_transfers(notification_id);
+
+-- Only one open transfer per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_ownership_transfers_pending
+    ON public.company_ownership_transfers(company_id)
+    WHERE status = 'pending';
+
+DROP TRIGGER IF EXISTS update_company_ownership_transfers_updated_at ON public.company_ownership_transfers;
+CREATE TRIGGER update_company_ownership_transfers_updated_at
+    BEFORE UPDATE ON public.company_ownership_transfers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.company_ownership_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "company_ownership_transfers_service_access" ON public.company_ownership_transfers;
+CREATE POLICY "company_ownership_transfers_service_access" ON public.company_ownership_transfers
+    FOR ALL TO service_role
+    USING (true);
+
+-- The current owner and the nominee may read a transfer; changes go through the API
+DROP POLICY IF EXISTS "company_ownership_transfers_party_read" ON public.company_ownership_transfers;
+CREATE POLICY "company_ownership_transfers_party_read" ON public.company_ownership_transfers
+    FOR SELECT TO authenticated
+    USING (from_user_id = auth.uid() OR to_user_id = auth.uid());
+
+GRANT ALL ON TABLE public.company_ownership_transfers TO service_role;
+GRANT SELECT ON TABLE public.company_ownership_transfers TO authenticated;
+
+COMMENT ON TABLE public.company_ownership_transfers IS 'Pending and completed hand-overs of company ownership between members';
+COMMENT ON COLUMN public.company_ownership_transfers.notification_id IS 'ownership_transfer notification shown to the nominee';
+
+COMMIT;
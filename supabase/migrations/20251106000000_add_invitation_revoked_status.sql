@@ -0,0 +1,16 @@
+-- Migration: Revoked company invitations
+-- Created: 2025-11-06
+-- Description: Adds the revoked status for invitations withdrawn by the company before they
+-- were answered, and an index for the expiry sweep that flips past-due pending invitations
+-- to expired.
+
+ALTER TYPE public.company_invitation_status ADD VALUE IF NOT EXISTS 'revoked';
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_company_invitations_status_expires_at
+    ON public.company_invitations(status, "expiresAt");
+
+COMMENT ON COLUMN public.company_invitations.status IS 'pending, accepted, rejected, expired (past expiresAt) or revoked (withdrawn by the company)';
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Migration: Email delivery log
+-- Created: 2025-11-07
+-- Description: One row per message sent through the email service, recording the template,
+-- locale, transport and outcome so failed invitations and notifications can be traced.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    template TEXT NOT NULL,
+    locale TEXT NOT NULL,
+    to_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    transport TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    provider_message_id TEXT,
+    error TEXT,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_company_created ON public.email_deliveries(company_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_user ON public.email_deliveries(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_to_email ON public.email_deliveries(to_email);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_failed ON public.email_deliveries(created_at DESC) WHERE status = 'failed';
+
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "email_deliveries_service_access" ON public.email_deliveries;
+CREATE POLICY "email_deliveries_service_access" ON public.email_deliveries
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.email_deliveries TO service_role;
+
+COMMENT ON TABLE public.email_deliveries IS 'Delivery log of transactional email sent by the application';
+COMMENT ON COLUMN public.email_deliveries.transport IS 'resend, smtp, file or memory';
+COMMENT ON COLUMN public.email_deliveries.provider_message_id IS 'Message id returned by the transport';
+
+COMMIT;
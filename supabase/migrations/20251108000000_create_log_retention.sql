@@ -0,0 +1,72 @@
+-- Migration: Integration log retention and archival
+-- Created: 2025-11-08
+-- Description: Per-company retention days for each log level, an index of the compressed
+-- NDJSON archives expired integration_logs rows are moved to, and the private storage
+-- bucket holding them. Archives are partitioned as <company_id>/<YYYY-MM-DD>/<file>.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.log_retention_policies (
+    company_id UUID PRIMARY KEY REFERENCES public.companies(id) ON DELETE CASCADE,
+    debug_days INTEGER NOT NULL DEFAULT 7 CHECK (debug_days > 0),
+    info_days INTEGER NOT NULL DEFAULT 30 CHECK (info_days > 0),
+    warn_days INTEGER NOT NULL DEFAULT 90 CHECK (warn_days > 0),
+    error_days INTEGER NOT NULL DEFAULT 365 CHECK (error_days > 0),
+    fatal_days INTEGER NOT NULL DEFAULT 365 CHECK (fatal_days > 0),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS public.log_archives (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    log_date DATE NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    row_count INTEGER NOT NULL,
+    byte_size INTEGER NOT NULL,
+    levels TEXT[] NOT NULL DEFAULT '{}',
+    first_logged_at TIMESTAMPTZ NOT NULL,
+    last_logged_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_log_archives_company_date ON public.log_archives(company_id, log_date DESC);
+
+-- Expiry scans look for old rows of one company and level
+CREATE INDEX IF NOT EXISTS idx_integration_logs_company_level_time
+    ON public.integration_logs(company_id, log_level, logged_at);
+
+ALTER TABLE public.log_retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.log_archives ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "log_retention_policies_service_access" ON public.log_retention_policies;
+CREATE POLICY "log_retention_policies_service_access" ON public.log_retention_policies
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "log_archives_service_access" ON public.log_archives;
+CREATE POLICY "log_archives_service_access" ON public.log_archives
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.log_retention_policies TO service_role;
+GRANT ALL ON TABLE public.log_archives TO service_role;
+
+-- Archives are only read and written server-side with the service role
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'log-archives',
+    'log-archives',
+    false,
+    104857600, -- 100MB limit
+    ARRAY['application/gzip']
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE public.log_retention_policies IS 'How long integration_logs rows of each level are kept before archival';
+COMMENT ON TABLE public.log_archives IS 'Gzipped NDJSON archives of expired integration_logs rows in the log-archives bucket';
+COMMENT ON COLUMN public.log_archives.log_date IS 'UTC day of the archived rows';
+COMMENT ON COLUMN public.log_archives.storage_path IS 'Object path in the log-archives bucket';
+
+COMMIT;
@@ -0,0 +1,139 @@
+-- Migration: Dashboard statistics rollups
+-- Created: 2025-11-09
+-- Description: Hourly rollups of execution_runs and integration_logs per company, so the
+-- dashboard time-series API aggregates in SQL instead of counting rows in JS. Each run bucket
+-- keeps its duration_ms values, which lets p50/p95 be computed exactly over any window.
+-- refresh_dashboard_rollups() recomputes only the hours touched since the last refresh.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.dashboard_run_rollups (
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    app_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+    bucket TIMESTAMPTZ NOT NULL,
+    total_runs INTEGER NOT NULL DEFAULT 0,
+    success_runs INTEGER NOT NULL DEFAULT 0,
+    failed_runs INTEGER NOT NULL DEFAULT 0,
+    durations INTEGER[] NOT NULL DEFAULT '{}',
+    PRIMARY KEY (company_id, app_id, bucket)
+);
+
+CREATE TABLE IF NOT EXISTS public.dashboard_log_rollups (
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    integration_name TEXT NOT NULL,
+    bucket TIMESTAMPTZ NOT NULL,
+    total_logs INTEGER NOT NULL DEFAULT 0,
+    warn_logs INTEGER NOT NULL DEFAULT 0,
+    error_logs INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (company_id, integration_name, bucket)
+);
+
+CREATE TABLE IF NOT EXISTS public.dashboard_rollup_state (
+    company_id UUID PRIMARY KEY REFERENCES public.companies(id) ON DELETE CASCADE,
+    refreshed_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_run_rollups_company_bucket ON public.dashboard_run_rollups(company_id, bucket);
+CREATE INDEX IF NOT EXISTS idx_dashboard_log_rollups_company_bucket ON public.dashboard_log_rollups(company_id, bucket);
+CREATE INDEX IF NOT EXISTS idx_execution_runs_company_started ON public.execution_runs(company_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_execution_runs_company_completed ON public.execution_runs(company_id, completed_at);
+
+-- Recompute every hour bucket of a company that has runs or logs started, completed or
+-- logged at or after p_since. Buckets are replaced whole, so re-running is idempotent.
+CREATE OR REPLACE FUNCTION public.refresh_dashboard_rollups(p_company_id UUID, p_since TIMESTAMPTZ)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_run_buckets TIMESTAMPTZ[];
+    v_log_buckets TIMESTAMPTZ[];
+BEGIN
+    -- Concurrent refreshes of one company would race on the replaced buckets
+    PERFORM pg_advisory_xact_lock(hashtext('dashboard_rollups:' || p_company_id::text));
+
+    SELECT COALESCE(array_agg(DISTINCT date_trunc('hour', started_at)), '{}')
+      INTO v_run_buckets
+      FROM public.execution_runs
+     WHERE company_id = p_company_id
+       AND started_at IS NOT NULL
+       AND (started_at >= p_since OR completed_at >= p_since);
+
+    DELETE FROM public.dashboard_run_rollups
+     WHERE company_id = p_company_id
+       AND bucket = ANY(v_run_buckets);
+
+    INSERT INTO public.dashboard_run_rollups
+        (company_id, app_id, bucket, total_runs, success_runs, failed_runs, durations)
+    SELECT
+        company_id,
+        app_id,
+        date_trunc('hour', started_at),
+        count(*),
+        count(*) FILTER (WHERE status = 'success'),
+        count(*) FILTER (WHERE status IN ('failed', 'timeout')),
+        COALESCE(array_agg(duration_ms) FILTER (WHERE duration_ms IS NOT NULL), '{}')
+      FROM public.execution_runs
+     WHERE company_id = p_company_id
+       AND started_at >= (SELECT min(b) FROM unnest(v_run_buckets) b)
+       AND date_trunc('hour', started_at) = ANY(v_run_buckets)
+     GROUP BY company_id, app_id, date_trunc('hour', started_at);
+
+    SELECT COALESCE(array_agg(DISTINCT date_trunc('hour', logged_at)), '{}')
+      INTO v_log_buckets
+      FROM public.integration_logs
+     WHERE company_id = p_company_id
+       AND logged_at >= p_since;
+
+    DELETE FROM public.dashboard_log_rollups
+     WHERE company_id = p_company_id
+       AND bucket = ANY(v_log_buckets);
+
+    INSERT INTO public.dashboard_log_rollups
+        (company_id, integration_name, bucket, total_logs, warn_logs, error_logs)
+    SELECT
+        company_id,
+        integration_name,
+        date_trunc('hour', logged_at),
+        count(*),
+        count(*) FILTER (WHERE log_level = 'warn'),
+        count(*) FILTER (WHERE log_level IN ('error', 'fatal'))
+      FROM public.integration_logs
+     WHERE company_id = p_company_id
+       AND logged_at >= (SELECT min(b) FROM unnest(v_log_buckets) b)
+       AND date_trunc('hour', logged_at) = ANY(v_log_buckets)
+     GROUP BY company_id, integration_name, date_trunc('hour', logged_at);
+END;
+$$;
+
+ALTER TABLE public.dashboard_run_rollups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dashboard_log_rollups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dashboard_rollup_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dashboard_run_rollups_service_access" ON public.dashboard_run_rollups;
+CREATE POLICY "dashboard_run_rollups_service_access" ON public.dashboard_run_rollups
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "dashboard_log_rollups_service_access" ON public.dashboard_log_rollups;
+CREATE POLICY "dashboard_log_rollups_service_access" ON public.dashboard_log_rollups
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "dashboard_rollup_state_service_access" ON public.dashboard_rollup_state;
+CREATE POLICY "dashboard_rollup_state_service_access" ON public.dashboard_rollup_state
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.dashboard_run_rollups TO service_role;
+GRANT ALL ON TABLE public.dashboard_log_rollups TO service_role;
+GRANT ALL ON TABLE public.dashboard_rollup_state TO service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_dashboard_rollups(UUID, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON TABLE public.dashboard_run_rollups IS 'Hourly execution_runs counts per company and application, bucketed by started_at';
+COMMENT ON TABLE public.dashboard_log_rollups IS 'Hourly integration_logs counts per company and integration; survives log archival';
+COMMENT ON TABLE public.dashboard_rollup_state IS 'When each company''s rollups were last brought up to date';
+COMMENT ON COLUMN public.dashboard_run_rollups.durations IS 'duration_ms of every finished run in the bucket, for exact percentiles';
+
+COMMIT;
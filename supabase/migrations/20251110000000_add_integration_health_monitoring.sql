@@ -0,0 +1,21 @@
+-- Migration: Integration health monitoring
+-- Created: 2025-11-10
+-- Description: The health checker records one integration_health row per active
+-- company_applications row and check. Company admins receive an integration_health
+-- notification when an integration's credentials are invalid or about to expire.
+
+-- New values of an enum cannot be used in the transaction that adds them
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'integration_health';
+
+BEGIN;
+
+-- Latest check per integration and per-integration timelines
+CREATE INDEX IF NOT EXISTS idx_integration_health_company_app_checked
+    ON public.integration_health (company_application_id, checked_at DESC);
+
+COMMENT ON COLUMN public.integration_health.credentials_expire_at IS 'When the stored credentials stop working; NULL while they can be renewed (e.g. an OAuth refresh token is present)';
+COMMENT ON COLUMN public.integration_health.daily_api_calls IS 'Runs of the integration started since midnight UTC';
+COMMENT ON COLUMN public.integration_health.daily_quota_limit IS 'applications.metadata.daily_quota_limit at the time of the check';
+COMMENT ON COLUMN public.integration_health.monthly_usage_mb IS 'Size of the integration''s logs written since the start of the month (UTC)';
+
+COMMIT;
@@ -0,0 +1,77 @@
+-- Migration: Google Ads Guard alerting
+-- Created: 2025-11-11
+-- Description: Every evaluation of a Guard integration's metric rules is recorded in
+-- guard_evaluations. A rule that fires opens a guard_alerts row; while it keeps firing the
+-- same row is updated instead of opening a new one, and it is resolved once the metric
+-- recovers. At most one alert per integration and metric can be open.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.guard_evaluations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    company_application_id UUID NOT NULL REFERENCES public.company_applications(id) ON DELETE CASCADE,
+    customer_id TEXT,
+    period_start DATE,
+    period_end DATE,
+    metrics JSONB NOT NULL DEFAULT '[]',
+    alerts_opened INTEGER NOT NULL DEFAULT 0,
+    alerts_resolved INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    evaluated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS public.guard_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    company_application_id UUID NOT NULL REFERENCES public.company_applications(id) ON DELETE CASCADE,
+    customer_id TEXT NOT NULL,
+    metric TEXT NOT NULL CHECK (metric IN ('impressions', 'clicks', 'conversions', 'value', 'price')),
+    condition TEXT NOT NULL CHECK (condition IN ('percent_drop', 'absolute_drop', 'zscore')),
+    threshold NUMERIC NOT NULL,
+    period_days INTEGER NOT NULL,
+    current_value NUMERIC NOT NULL,
+    baseline_value NUMERIC NOT NULL,
+    change_percent NUMERIC,
+    z_score NUMERIC,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    first_detected_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_detected_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMPTZ,
+    last_evaluation_id UUID REFERENCES public.guard_evaluations(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_guard_evaluations_app_time
+    ON public.guard_evaluations(company_application_id, evaluated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_guard_alerts_app_detected
+    ON public.guard_alerts(company_application_id, first_detected_at DESC);
+
+-- Deduplication: a firing rule updates its open alert instead of opening another
+CREATE UNIQUE INDEX IF NOT EXISTS idx_guard_alerts_one_open
+    ON public.guard_alerts(company_application_id, metric)
+    WHERE status = 'open';
+
+ALTER TABLE public.guard_evaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.guard_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "guard_evaluations_service_access" ON public.guard_evaluations;
+CREATE POLICY "guard_evaluations_service_access" ON public.guard_evaluations
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "guard_alerts_service_access" ON public.guard_alerts;
+CREATE POLICY "guard_alerts_service_access" ON public.guard_alerts
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.guard_evaluations TO service_role;
+GRANT ALL ON TABLE public.guard_alerts TO service_role;
+
+COMMENT ON TABLE public.guard_evaluations IS 'One run of a Google Ads Guard integration''s metric rules';
+COMMENT ON COLUMN public.guard_evaluations.metrics IS 'Per-metric results: current and baseline values, change and whether the rule fired';
+COMMENT ON TABLE public.guard_alerts IS 'Metric drops detected by Google Ads Guard, deduplicated while open';
+COMMENT ON COLUMN public.guard_alerts.threshold IS 'Percent for percent_drop, metric units for absolute_drop, standard deviations for zscore';
+COMMENT ON COLUMN public.guard_alerts.occurrences IS 'Evaluations in a row that fired this alert';
+
+COMMIT;
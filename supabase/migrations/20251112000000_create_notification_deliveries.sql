@@ -0,0 +1,49 @@
+-- Migration: Notification channel deliveries
+-- Created: 2025-11-12
+-- Description: Delivery log of integration notifications sent to the email, Slack, Discord
+-- and WhatsApp channels configured in company_applications.notification_channels. One row
+-- per message and channel, written after the last retry.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    company_application_id UUID NOT NULL REFERENCES public.company_applications(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'slack', 'discord', 'whatsapp')),
+    target TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    response_status INTEGER,
+    error TEXT,
+    is_test BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_app_time
+    ON public.notification_deliveries(company_application_id, created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_deliveries_service_access" ON public.notification_deliveries;
+CREATE POLICY "notification_deliveries_service_access" ON public.notification_deliveries
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.notification_deliveries TO service_role;
+
+-- The settings form stores channels under settings.notifications; copy them over once
+UPDATE public.company_applications
+SET notification_channels = settings->'notifications'
+WHERE settings ? 'notifications'
+  AND (notification_channels IS NULL OR notification_channels = '{}'::jsonb);
+
+COMMENT ON TABLE public.notification_deliveries IS 'Outcome of each integration notification per channel, after retries';
+COMMENT ON COLUMN public.notification_deliveries.target IS 'Email address or webhook URL with its secret part masked';
+COMMENT ON COLUMN public.notification_deliveries.attempts IS 'Delivery attempts made, including retries';
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- Migration: Notification types and per-user notification preferences
+-- Created: 2025-11-13
+-- Description: Adds integration, alert and export notification types, ties notifications to
+-- the company they concern, and lets each user choose per company and type whether a
+-- notification shows in-app, is emailed right away and/or is included in a daily or weekly
+-- digest email.
+
+-- New values of an enum cannot be used in the transaction that adds them
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'integration_failed';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'integration_recovered';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'credentials_expiring';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'alert_triggered';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'export_ready';
+
+BEGIN;
+
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS "companyId" UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS "digestedAt" TIMESTAMPTZ;
+
+-- Every notification so far carried its company in data
+UPDATE public.notifications
+SET "companyId" = (data->>'companyId')::uuid
+WHERE "companyId" IS NULL
+  AND data->>'companyId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND EXISTS (SELECT 1 FROM public.companies c WHERE c.id = (data->>'companyId')::uuid);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_company_created
+    ON public.notifications ("userId", "companyId", "createdAt" DESC);
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    type public.notification_type NOT NULL,
+    in_app BOOLEAN NOT NULL DEFAULT true,
+    email BOOLEAN NOT NULL DEFAULT false,
+    digest TEXT NOT NULL DEFAULT 'none' CHECK (digest IN ('none', 'daily', 'weekly')),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, company_id, type)
+);
+
+-- The digest job looks up everyone subscribed to one frequency
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_digest
+    ON public.notification_preferences (digest)
+    WHERE digest <> 'none';
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_preferences_service_access" ON public.notification_preferences;
+CREATE POLICY "notification_preferences_service_access" ON public.notification_preferences
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.notification_preferences TO service_role;
+
+COMMENT ON COLUMN public.notifications."companyId" IS 'Company the notification concerns; filters the notification list and applies the user''s preferences for that company';
+COMMENT ON COLUMN public.notifications."digestedAt" IS 'When the notification was included in a digest email';
+COMMENT ON TABLE public.notification_preferences IS 'Per user, company and notification type delivery choices; types without a row use the defaults in src/lib/notifications.ts';
+COMMENT ON COLUMN public.notification_preferences.in_app IS 'Show the notification in the notification bell and list';
+COMMENT ON COLUMN public.notification_preferences.email IS 'Email the notification as soon as it is created';
+COMMENT ON COLUMN public.notification_preferences.digest IS 'Include the notification in a daily or weekly digest email';
+
+COMMIT;
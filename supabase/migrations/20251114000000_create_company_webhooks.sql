@@ -0,0 +1,91 @@
+-- Migration: Outbound company webhooks
+-- Created: 2025-11-14
+-- Description: Companies register HTTPS endpoints that receive signed JSON payloads for the
+-- events they subscribe to. Every event creates one delivery per subscribed endpoint; failed
+-- deliveries are retried with exponential backoff and endpoints that keep failing are
+-- disabled automatically.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    events TEXT[] NOT NULL DEFAULT '{}',
+    secret TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    disabled_at TIMESTAMPTZ,
+    disabled_reason TEXT,
+    last_delivery_at TIMESTAMPTZ,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_company
+    ON public.webhook_endpoints (company_id)
+    WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ,
+    last_attempt_at TIMESTAMPTZ,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    replay_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    delivered_at TIMESTAMPTZ
+);
+
+-- An event reaches each endpoint once; replays are separate deliveries
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_event
+    ON public.webhook_deliveries (endpoint_id, event_id)
+    WHERE replay_of IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_time
+    ON public.webhook_deliveries (endpoint_id, created_at DESC);
+
+-- The delivery job picks up retries that are due
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON public.webhook_deliveries (next_attempt_at)
+    WHERE status = 'pending';
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "webhook_endpoints_service_access" ON public.webhook_endpoints;
+CREATE POLICY "webhook_endpoints_service_access" ON public.webhook_endpoints
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "webhook_deliveries_service_access" ON public.webhook_deliveries;
+CREATE POLICY "webhook_deliveries_service_access" ON public.webhook_deliveries
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.webhook_endpoints TO service_role;
+GRANT ALL ON TABLE public.webhook_deliveries TO service_role;
+
+COMMENT ON TABLE public.webhook_endpoints IS 'Company HTTPS endpoints that receive signed event payloads';
+COMMENT ON COLUMN public.webhook_endpoints.events IS 'Subscribed event types, e.g. integration.run.failed; see WEBHOOK_EVENTS in src/lib/webhooks.ts';
+COMMENT ON COLUMN public.webhook_endpoints.secret IS 'Signing secret, encrypted with the company key; shown to the user only when created or rotated';
+COMMENT ON COLUMN public.webhook_endpoints.consecutive_failures IS 'Deliveries in a row that failed after all retries; reset by a successful delivery';
+COMMENT ON COLUMN public.webhook_endpoints.disabled_at IS 'When the endpoint was disabled automatically after repeated failures';
+COMMENT ON TABLE public.webhook_deliveries IS 'One row per event and endpoint, plus one per manual replay';
+COMMENT ON COLUMN public.webhook_deliveries.event_id IS 'Stable event id sent in the payload; receivers use it to ignore duplicates';
+COMMENT ON COLUMN public.webhook_deliveries.next_attempt_at IS 'When a pending delivery is tried next';
+COMMENT ON COLUMN public.webhook_deliveries.replay_of IS 'The delivery this one replays';
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Migration: Company API keys
+-- Created: 2025-11-15
+-- Description: Company-scoped API keys for scripts and BI tools. Keys are sent as
+-- `Authorization: Bearer mh_<id>_<secret>`; only the SHA-256 hash is stored and the
+-- `mh_<id>` prefix identifies a key in lists and logs. Each key carries read scopes, an
+-- optional expiry and its last use, and can be revoked.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.company_api_keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL,
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+    expires_at TIMESTAMPTZ,
+    last_used_at TIMESTAMPTZ,
+    last_used_ip TEXT,
+    revoked_at TIMESTAMPTZ,
+    revoked_by UUID REFERENCES auth.users(id),
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_api_keys_company
+    ON public.company_api_keys (company_id, created_at DESC);
+
+ALTER TABLE public.company_api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "company_api_keys_service_access" ON public.company_api_keys;
+CREATE POLICY "company_api_keys_service_access" ON public.company_api_keys
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.company_api_keys TO service_role;
+
+COMMENT ON TABLE public.company_api_keys IS 'Company-scoped API keys for machine-to-machine read access';
+COMMENT ON COLUMN public.company_api_keys.prefix IS 'Public part of the key (mh_<id>), used to look the key up and to show it in lists';
+COMMENT ON COLUMN public.company_api_keys.key_hash IS 'Hex SHA-256 of the full key; the key itself is shown only once';
+COMMENT ON COLUMN public.company_api_keys.scopes IS 'Granted scopes, e.g. logs:read; see API_KEY_SCOPES in src/lib/api-keys.ts';
+COMMENT ON COLUMN public.company_api_keys.expires_at IS 'Keys stop working after this time; NULL never expires';
+COMMENT ON COLUMN public.company_api_keys.revoked_at IS 'When the key was revoked; revoked keys are kept for the audit trail';
+
+COMMIT;
@@ -0,0 +1,143 @@
+-- Migration: Rate limit buckets
+-- Created: 2025-11-16
+-- Description: Shared rate limit state for every Next.js instance. One row per limited key
+-- (e.g. `invitations:user:<id>`), updated atomically by rate_limit_sliding_window() or
+-- rate_limit_token_bucket(). Rows past expires_at carry no state and are pruned by the
+-- application; see src/lib/rate-limit/stores.ts.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    window_start BIGINT,
+    count INTEGER NOT NULL DEFAULT 0,
+    previous_count INTEGER NOT NULL DEFAULT 0,
+    tokens DOUBLE PRECISION,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires
+    ON public.rate_limit_buckets (expires_at);
+
+-- Sliding window counter: the previous fixed window is weighted by how much of it still
+-- overlaps the sliding window. Rejected requests are not counted.
+CREATE OR REPLACE FUNCTION public.rate_limit_sliding_window(
+    p_key TEXT,
+    p_limit INTEGER,
+    p_window_ms INTEGER,
+    p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now_ms BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+    v_window_start BIGINT := v_now_ms - (v_now_ms % p_window_ms);
+    v_bucket public.rate_limit_buckets%ROWTYPE;
+    v_previous INTEGER := 0;
+    v_current INTEGER := 0;
+    v_estimate DOUBLE PRECISION;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, window_start, expires_at)
+    VALUES (p_key, v_window_start, to_timestamp((v_window_start + 2 * p_window_ms) / 1000.0))
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO v_bucket FROM public.rate_limit_buckets b WHERE b.key = p_key FOR UPDATE;
+
+    IF v_bucket.window_start = v_window_start THEN
+        v_previous := v_bucket.previous_count;
+        v_current := v_bucket.count;
+    ELSIF v_bucket.window_start = v_window_start - p_window_ms THEN
+        v_previous := v_bucket.count;
+    END IF;
+
+    v_estimate := v_previous * (1 - (v_now_ms - v_window_start)::DOUBLE PRECISION / p_window_ms) + v_current;
+    allowed := v_estimate + p_cost <= p_limit;
+    IF allowed THEN
+        v_current := v_current + p_cost;
+        v_estimate := v_estimate + p_cost;
+    END IF;
+
+    UPDATE public.rate_limit_buckets b
+       SET window_start = v_window_start,
+           count = v_current,
+           previous_count = v_previous,
+           updated_at = clock_timestamp(),
+           expires_at = to_timestamp((v_window_start + 2 * p_window_ms) / 1000.0)
+     WHERE b.key = p_key;
+
+    remaining := greatest(0, floor(p_limit - v_estimate))::INTEGER;
+    reset_ms := (v_window_start + p_window_ms - v_now_ms)::INTEGER;
+    RETURN NEXT;
+END;
+$$;
+
+-- Token bucket: holds up to p_capacity tokens and refills continuously. A missing or
+-- expired row is a full bucket.
+CREATE OR REPLACE FUNCTION public.rate_limit_token_bucket(
+    p_key TEXT,
+    p_capacity INTEGER,
+    p_refill_per_second DOUBLE PRECISION,
+    p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_bucket public.rate_limit_buckets%ROWTYPE;
+    v_tokens DOUBLE PRECISION;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, tokens, updated_at, expires_at)
+    VALUES (p_key, p_capacity, v_now, v_now)
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO v_bucket FROM public.rate_limit_buckets b WHERE b.key = p_key FOR UPDATE;
+
+    v_tokens := least(
+        p_capacity,
+        COALESCE(v_bucket.tokens, p_capacity) + extract(epoch FROM v_now - v_bucket.updated_at) * p_refill_per_second
+    );
+    allowed := v_tokens >= p_cost;
+    IF allowed THEN
+        v_tokens := v_tokens - p_cost;
+    END IF;
+
+    UPDATE public.rate_limit_buckets b
+       SET tokens = v_tokens,
+           updated_at = v_now,
+           expires_at = v_now + make_interval(secs => (p_capacity - v_tokens) / p_refill_per_second)
+     WHERE b.key = p_key;
+
+    remaining := floor(v_tokens)::INTEGER;
+    reset_ms := ceil(
+        CASE WHEN allowed THEN p_capacity - v_tokens ELSE p_cost - v_tokens END / p_refill_per_second * 1000
+    )::INTEGER;
+    RETURN NEXT;
+END;
+$$;
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rate_limit_buckets_service_access" ON public.rate_limit_buckets;
+CREATE POLICY "rate_limit_buckets_service_access" ON public.rate_limit_buckets
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.rate_limit_buckets TO service_role;
+GRANT EXECUTE ON FUNCTION public.rate_limit_sliding_window(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.rate_limit_token_bucket(TEXT, INTEGER, DOUBLE PRECISION, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.rate_limit_buckets IS 'Rate limit state per key, shared by all application instances';
+COMMENT ON COLUMN public.rate_limit_buckets.key IS 'Policy, key type and subject, e.g. plugins.google:company:<id>';
+COMMENT ON COLUMN public.rate_limit_buckets.window_start IS 'Sliding window: start of the current fixed window, epoch milliseconds';
+COMMENT ON COLUMN public.rate_limit_buckets.previous_count IS 'Sliding window: requests counted in the previous fixed window';
+COMMENT ON COLUMN public.rate_limit_buckets.tokens IS 'Token bucket: tokens left at updated_at';
+COMMENT ON COLUMN public.rate_limit_buckets.expires_at IS 'After this time the row holds no state and may be deleted';
+
+COMMIT;
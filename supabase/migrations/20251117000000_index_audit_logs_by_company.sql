@@ -0,0 +1,18 @@
+-- Migration: Company audit log index
+-- Created: 2025-11-17
+-- Description: audit_logs has no company column; entries written by the application carry
+-- the company in metadata.company_id (metadata is persisted from now on). Index it for the
+-- company audit log viewer, together with security event severity for its filter.
+
+BEGIN;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_company_timestamp
+    ON public.audit_logs ((metadata->>'company_id'), timestamp DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_security_severity
+    ON public.audit_logs ((new_data->>'severity'))
+    WHERE table_name = 'security_events';
+
+COMMENT ON COLUMN public.audit_logs.metadata IS 'Context passed to logAuditEvent: action, company_id, trigger and similar';
+
+COMMIT;
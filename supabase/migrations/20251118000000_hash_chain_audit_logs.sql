@@ -0,0 +1,174 @@
+-- Migration: Hash-chained audit log
+-- Created: 2025-11-18
+-- Description: Makes audit_logs tamper-evident. Every new row joins a chain, one per company
+-- (metadata.company_id) plus a 'global' chain for everything else: a BEFORE INSERT trigger
+-- gives it the next sequence number in its chain, the previous row's hash and its own hash
+-- over its content and that previous hash. UPDATE, DELETE and TRUNCATE are rejected.
+-- audit_log_checkpoints records the signed chain heads the application exports to the
+-- audit-checkpoints bucket, so a chain rewritten by someone with database access is still
+-- detected. Rows written before this migration have no chain and are not verified.
+
+BEGIN;
+
+ALTER TABLE public.audit_logs
+    ADD COLUMN IF NOT EXISTS chain_id TEXT,
+    ADD COLUMN IF NOT EXISTS chain_seq BIGINT,
+    ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+    ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_chain
+    ON public.audit_logs (chain_id, chain_seq)
+    WHERE chain_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.audit_chain_heads (
+    chain_id TEXT PRIMARY KEY,
+    last_seq BIGINT NOT NULL,
+    last_hash TEXT NOT NULL,
+    last_entry_id UUID NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS public.audit_log_checkpoints (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    chain_id TEXT NOT NULL,
+    chain_seq BIGINT NOT NULL,
+    entry_hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (chain_id, chain_seq)
+);
+
+-- The hash of one entry. jsonb_build_array(...)::text is the canonical serialisation, so the
+-- verifier recomputes exactly what the trigger hashed.
+CREATE OR REPLACE FUNCTION public.audit_log_entry_hash(
+    p_prev_hash TEXT,
+    p_chain_seq BIGINT,
+    p_id UUID,
+    p_table_name TEXT,
+    p_operation TEXT,
+    p_old_data JSONB,
+    p_new_data JSONB,
+    p_user_id UUID,
+    p_timestamp TIMESTAMPTZ,
+    p_ip_address INET,
+    p_user_agent TEXT,
+    p_metadata JSONB
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT encode(sha256(convert_to(jsonb_build_array(
+        p_prev_hash,
+        p_chain_seq,
+        p_id,
+        p_table_name,
+        p_operation,
+        p_old_data,
+        p_new_data,
+        p_user_id,
+        to_char(p_timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        host(p_ip_address),
+        p_user_agent,
+        p_metadata
+    )::text, 'UTF8')), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_logs_chain_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_head public.audit_chain_heads%ROWTYPE;
+BEGIN
+    NEW.chain_id := COALESCE(NEW.metadata->>'company_id', 'global');
+    NEW.timestamp := COALESCE(NEW.timestamp, now());
+
+    -- Entries of one chain are appended one at a time
+    PERFORM pg_advisory_xact_lock(hashtext('audit_chain:' || NEW.chain_id));
+
+    SELECT * INTO v_head FROM public.audit_chain_heads WHERE chain_id = NEW.chain_id;
+
+    NEW.chain_seq := COALESCE(v_head.last_seq, 0) + 1;
+    NEW.prev_hash := COALESCE(v_head.last_hash, repeat('0', 64));
+    NEW.entry_hash := public.audit_log_entry_hash(
+        NEW.prev_hash, NEW.chain_seq, NEW.id, NEW.table_name, NEW.operation, NEW.old_data,
+        NEW.new_data, NEW.user_id, NEW.timestamp, NEW.ip_address, NEW.user_agent, NEW.metadata
+    );
+
+    INSERT INTO public.audit_chain_heads (chain_id, last_seq, last_hash, last_entry_id, updated_at)
+    VALUES (NEW.chain_id, NEW.chain_seq, NEW.entry_hash, NEW.id, now())
+    ON CONFLICT (chain_id) DO UPDATE
+        SET last_seq = EXCLUDED.last_seq,
+            last_hash = EXCLUDED.last_hash,
+            last_entry_id = EXCLUDED.last_entry_id,
+            updated_at = EXCLUDED.updated_at;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_logs_reject_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs is append-only (% rejected)', TG_OP
+        USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_chain_entry ON public.audit_logs;
+CREATE TRIGGER audit_logs_chain_entry
+    BEFORE INSERT ON public.audit_logs
+    FOR EACH ROW EXECUTE FUNCTION public.audit_logs_chain_entry();
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON public.audit_logs;
+CREATE TRIGGER audit_logs_append_only
+    BEFORE UPDATE OR DELETE ON public.audit_logs
+    FOR EACH ROW EXECUTE FUNCTION public.audit_logs_reject_change();
+
+DROP TRIGGER IF EXISTS audit_logs_no_truncate ON public.audit_logs;
+CREATE TRIGGER audit_logs_no_truncate
+    BEFORE TRUNCATE ON public.audit_logs
+    FOR EACH STATEMENT EXECUTE FUNCTION public.audit_logs_reject_change();
+
+ALTER TABLE public.audit_chain_heads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "audit_chain_heads_service_access" ON public.audit_chain_heads;
+CREATE POLICY "audit_chain_heads_service_access" ON public.audit_chain_heads
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "audit_log_checkpoints_service_access" ON public.audit_log_checkpoints;
+CREATE POLICY "audit_log_checkpoints_service_access" ON public.audit_log_checkpoints
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.audit_chain_heads TO service_role;
+GRANT ALL ON TABLE public.audit_log_checkpoints TO service_role;
+GRANT EXECUTE ON FUNCTION public.audit_log_entry_hash(TEXT, BIGINT, UUID, TEXT, TEXT, JSONB, JSONB, UUID, TIMESTAMPTZ, INET, TEXT, JSONB) TO service_role;
+
+-- Private bucket for the exported checkpoints
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'audit-checkpoints',
+    'audit-checkpoints',
+    false,
+    1048576, -- 1MB limit
+    ARRAY['application/json']
+)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN public.audit_logs.chain_id IS 'Company id from metadata.company_id, or global; set by the audit_logs_chain_entry trigger';
+COMMENT ON COLUMN public.audit_logs.chain_seq IS 'Position in the chain, starting at 1 with no gaps';
+COMMENT ON COLUMN public.audit_logs.prev_hash IS 'entry_hash of the previous entry in the chain; 64 zeros for the first';
+COMMENT ON COLUMN public.audit_logs.entry_hash IS 'audit_log_entry_hash() over the entry and prev_hash';
+COMMENT ON TABLE public.audit_chain_heads IS 'Last entry of each audit log chain; a verifier compares it with the chain to catch removed tail entries';
+COMMENT ON TABLE public.audit_log_checkpoints IS 'Signed audit chain heads, also exported as JSON to the audit-checkpoints bucket';
+
+COMMIT;
@@ -0,0 +1,110 @@
+-- Migration: Security analytics
+-- Created: 2025-11-19
+-- Description: Persistent state for SecurityMonitor. security_signals keeps the security
+-- events it ingests (sign-ins, failed sign-ins, unauthorized access, rate limits, uploads and
+-- exports) for 30 days so detection windows survive restarts and span every instance.
+-- security_findings holds what the detectors found; user_security_states holds the automatic
+-- responses: a temporary account lock or a required re-authentication.
+
+-- New values of an enum cannot be used in the transaction that adds them
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'security_finding';
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.security_signals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'LOGIN', 'FAILED_AUTH', 'UNAUTHORIZED_ACCESS', 'RATE_LIMIT', 'FILE_UPLOAD', 'DATA_EXPORT'
+    )),
+    user_id UUID,
+    email TEXT,
+    -- Company the event concerned; for UNAUTHORIZED_ACCESS the company that was denied
+    company_id UUID,
+    ip_address TEXT,
+    country TEXT,
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    -- Rows for DATA_EXPORT, bytes for FILE_UPLOAD, 1 otherwise
+    quantity INTEGER NOT NULL DEFAULT 1,
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_signals_user
+    ON public.security_signals (user_id, event_type, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_signals_email
+    ON public.security_signals (email, event_type, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_signals_ip
+    ON public.security_signals (ip_address, event_type, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_signals_company
+    ON public.security_signals (company_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_signals_occurred
+    ON public.security_signals (occurred_at);
+
+CREATE TABLE IF NOT EXISTS public.security_findings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    detector TEXT NOT NULL CHECK (detector IN (
+        'brute_force_account', 'brute_force_ip', 'impossible_travel', 'export_volume', 'cross_company_access'
+    )),
+    severity TEXT NOT NULL CHECK (severity IN ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+    -- What the finding is about, e.g. account:<email> or ip:<address>; repeats update the open finding
+    subject TEXT NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+    ip_address TEXT,
+    summary TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    event_count INTEGER NOT NULL DEFAULT 1,
+    action_taken TEXT CHECK (action_taken IN ('account_locked', 'reauth_required')),
+    first_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_findings_subject
+    ON public.security_findings (detector, subject, last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_findings_company
+    ON public.security_findings (company_id, last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_findings_user
+    ON public.security_findings (user_id, last_seen_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.user_security_states (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    locked_until TIMESTAMPTZ,
+    lock_reason TEXT,
+    -- Sessions signed in before this time must sign in again
+    reauth_required_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE public.security_signals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.security_findings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_security_states ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "security_signals_service_access" ON public.security_signals;
+CREATE POLICY "security_signals_service_access" ON public.security_signals
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "security_findings_service_access" ON public.security_findings;
+CREATE POLICY "security_findings_service_access" ON public.security_findings
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "user_security_states_service_access" ON public.user_security_states;
+CREATE POLICY "user_security_states_service_access" ON public.user_security_states
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.security_signals TO service_role;
+GRANT ALL ON TABLE public.security_findings TO service_role;
+GRANT ALL ON TABLE public.user_security_states TO service_role;
+
+COMMENT ON TABLE public.security_signals IS 'Security events ingested by SecurityMonitor, kept 30 days as detection input';
+COMMENT ON TABLE public.security_findings IS 'Suspicious patterns found by the security analytics detectors';
+COMMENT ON TABLE public.user_security_states IS 'Automatic account responses: temporary lock and required re-authentication';
+
+COMMIT;
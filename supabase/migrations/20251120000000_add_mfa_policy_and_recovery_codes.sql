@@ -0,0 +1,38 @@
+-- Migration: MFA policy and recovery codes
+-- Created: 2025-11-20
+-- Description: Multi-factor authentication uses Supabase Auth TOTP factors (auth.mfa_factors).
+-- companies.require_mfa lets a company require every member to have a verified factor and to
+-- use it in the current session (AAL2) before its routes respond. user_mfa_recovery_codes
+-- holds one-time recovery codes, stored as SHA-256 hashes; redeeming one removes the user's
+-- factors so a lost authenticator can be replaced.
+
+BEGIN;
+
+ALTER TABLE public.companies
+    ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.user_mfa_recovery_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_recovery_codes_user
+    ON public.user_mfa_recovery_codes (user_id);
+
+ALTER TABLE public.user_mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_mfa_recovery_codes_service_access" ON public.user_mfa_recovery_codes;
+CREATE POLICY "user_mfa_recovery_codes_service_access" ON public.user_mfa_recovery_codes
+    FOR ALL TO service_role
+    USING (true);
+
+GRANT ALL ON TABLE public.user_mfa_recovery_codes TO service_role;
+
+COMMENT ON COLUMN public.companies.require_mfa IS 'Members must have a verified MFA factor and an AAL2 session to access the company';
+COMMENT ON TABLE public.user_mfa_recovery_codes IS 'One-time MFA recovery codes (SHA-256 hashes); redeeming one removes the user''s MFA factors';
+
+COMMIT;